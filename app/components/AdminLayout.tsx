@@ -7,14 +7,17 @@
 import { Link, NavLink, Form, useNavigation } from "@remix-run/react";
 import { ThemeToggle } from "./ThemeToggle";
 import { DemoModeBanner, DemoModeIndicator } from "./DemoModeBanner";
+import { roleCan, type AdminRole } from "~/lib/admin-roles";
 
 interface AdminLayoutProps {
   children: React.ReactNode;
   username?: string;
   isDemoMode?: boolean;
+  /** Hides sections the account cannot open; omitted means owner. */
+  role?: AdminRole;
 }
 
-export function AdminLayout({ children, username, isDemoMode = false }: AdminLayoutProps) {
+export function AdminLayout({ children, username, isDemoMode = false, role }: AdminLayoutProps) {
   const navigation = useNavigation();
   const isNavigating = navigation.state === "loading";
   const destination = navigation.location?.pathname;
@@ -62,44 +65,68 @@ export function AdminLayout({ children, username, isDemoMode = false }: AdminLay
         {/* Navigation */}
         <nav className="flex-1 p-4 space-y-1">
           <NavSection title="Content">
-            <AdminNavLink to="/admin/galleries" icon={<GalleryIcon />}>
-              Galleries
-            </AdminNavLink>
-            <AdminNavLink to="/admin/blog" icon={<BlogIcon />}>
-              Blog
-            </AdminNavLink>
-            <AdminNavLink to="/admin/newsletter" icon={<NewsletterIcon />}>
-              Newsletter
-            </AdminNavLink>
-            <AdminNavLink to="/admin/pages" icon={<PageIcon />}>
-              Pages
-            </AdminNavLink>
+            {roleCan(role, "translations") && (
+              <>
+                <AdminNavLink to="/admin/galleries" icon={<GalleryIcon />}>
+                  Galleries
+                </AdminNavLink>
+                <AdminNavLink to="/admin/blog" icon={<BlogIcon />}>
+                  Blog
+                </AdminNavLink>
+              </>
+            )}
+            {roleCan(role, "newsletter") && (
+              <AdminNavLink to="/admin/newsletter" icon={<NewsletterIcon />}>
+                Newsletter
+              </AdminNavLink>
+            )}
+            {roleCan(role, "translations") && (
+              <AdminNavLink to="/admin/pages" icon={<PageIcon />}>
+                Pages
+              </AdminNavLink>
+            )}
           </NavSection>
 
-          <NavSection title="Media">
-            <AdminNavLink to="/admin/upload" icon={<UploadIcon />}>
-              Upload
-            </AdminNavLink>
-            <AdminNavLink to="/admin/ai" icon={<SparklesIcon />}>
-              Photo AI
-            </AdminNavLink>
-          </NavSection>
+          {roleCan(role, "content") && (
+            <NavSection title="Media">
+              <AdminNavLink to="/admin/upload" icon={<UploadIcon />}>
+                Upload
+              </AdminNavLink>
+              <AdminNavLink to="/admin/ai" icon={<SparklesIcon />}>
+                Photo AI
+              </AdminNavLink>
+              <AdminNavLink to="/admin/duplicates" icon={<DuplicatesIcon />}>
+                Duplicates
+              </AdminNavLink>
+            </NavSection>
+          )}
 
-          <NavSection title="System">
-            <AdminNavLink to="/admin/settings" icon={<SettingsIcon />}>
-              Settings
-            </AdminNavLink>
-          </NavSection>
+          {roleCan(role, "settings") && (
+            <NavSection title="System">
+              <AdminNavLink to="/admin/settings" icon={<SettingsIcon />}>
+                Settings
+              </AdminNavLink>
+              {roleCan(role, "users") && (
+                <AdminNavLink to="/admin/users" icon={<UsersIcon />}>
+                  Users
+                </AdminNavLink>
+              )}
+            </NavSection>
+          )}
         </nav>
 
         {/* Footer */}
         <div className="p-4 border-t border-gray-200 dark:border-gray-800 space-y-3">
           {isDemoMode && <DemoModeIndicator />}
           <div className="flex items-center justify-between">
-            <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+            <Link
+              to="/admin/security"
+              className="flex items-center gap-2 text-sm text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white transition-colors"
+              title="Account security"
+            >
               <UserIcon />
               <span>{username || "Admin"}</span>
-            </div>
+            </Link>
             <div className="flex items-center gap-2">
               <ThemeToggle />
               <a
@@ -123,7 +150,7 @@ export function AdminLayout({ children, username, isDemoMode = false }: AdminLay
           <span className="font-semibold text-gray-900 dark:text-white hidden sm:inline">VictoPress</span>
         </Link>
         
-        <MobileMenu username={username} />
+        <MobileMenu username={username} role={role} />
       </header>
 
       {/* Main content */}
@@ -180,60 +207,90 @@ function AdminNavLink({
 /**
  * Mobile menu component
  */
-function MobileMenu({ username }: { username?: string }) {
+function MobileMenu({ username, role }: { username?: string; role?: AdminRole }) {
   // Simple mobile menu with dropdown
   return (
     <div className="flex items-center gap-1">
       <ThemeToggle />
-      <Link
-        to="/admin/galleries"
-        className="p-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
-        title="Galleries"
-      >
-        <GalleryIcon />
-      </Link>
-      <Link
-        to="/admin/blog"
-        className="p-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
-        title="Blog"
-      >
-        <BlogIcon />
-      </Link>
-      <Link
-        to="/admin/newsletter"
-        className="p-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
-        title="Newsletter"
-      >
-        <NewsletterIcon />
-      </Link>
-      <Link
-        to="/admin/pages"
-        className="p-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
-        title="Pages"
-      >
-        <PageIcon />
-      </Link>
-      <Link
-        to="/admin/upload"
-        className="p-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
-        title="Upload"
-      >
-        <UploadIcon />
-      </Link>
-      <Link
-        to="/admin/ai"
-        className="p-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
-        title="Photo AI"
-      >
-        <SparklesIcon />
-      </Link>
-      <Link
-        to="/admin/settings"
-        className="p-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
-        title="Settings"
-      >
-        <SettingsIcon />
-      </Link>
+      {roleCan(role, "translations") && (
+        <>
+          <Link
+            to="/admin/galleries"
+            className="p-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+            title="Galleries"
+          >
+            <GalleryIcon />
+          </Link>
+          <Link
+            to="/admin/blog"
+            className="p-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+            title="Blog"
+          >
+            <BlogIcon />
+          </Link>
+        </>
+      )}
+      {roleCan(role, "newsletter") && (
+        <Link
+          to="/admin/newsletter"
+          className="p-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+          title="Newsletter"
+        >
+          <NewsletterIcon />
+        </Link>
+      )}
+      {roleCan(role, "translations") && (
+        <Link
+          to="/admin/pages"
+          className="p-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+          title="Pages"
+        >
+          <PageIcon />
+        </Link>
+      )}
+      {roleCan(role, "content") && (
+        <>
+          <Link
+            to="/admin/upload"
+            className="p-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+            title="Upload"
+          >
+            <UploadIcon />
+          </Link>
+          <Link
+            to="/admin/ai"
+            className="p-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+            title="Photo AI"
+          >
+            <SparklesIcon />
+          </Link>
+          <Link
+            to="/admin/duplicates"
+            className="p-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+            title="Duplicates"
+          >
+            <DuplicatesIcon />
+          </Link>
+        </>
+      )}
+      {roleCan(role, "settings") && (
+        <Link
+          to="/admin/settings"
+          className="p-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+          title="Settings"
+        >
+          <SettingsIcon />
+        </Link>
+      )}
+      {roleCan(role, "users") && (
+        <Link
+          to="/admin/users"
+          className="p-2 text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+          title="Users"
+        >
+          <UsersIcon />
+        </Link>
+      )}
       <a
         href="/admin/logout"
         className="p-2 text-gray-600 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400"
@@ -294,6 +351,14 @@ function SparklesIcon() {
   );
 }
 
+function DuplicatesIcon() {
+  return (
+    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M15.75 17.25v3.375c0 .621-.504 1.125-1.125 1.125h-9.75a1.125 1.125 0 01-1.125-1.125V7.875c0-.621.504-1.125 1.125-1.125H6.75a9.06 9.06 0 011.5.124m7.5 10.376h3.375c.621 0 1.125-.504 1.125-1.125V11.25c0-4.46-3.243-8.161-7.5-8.876a9.06 9.06 0 00-1.5-.124H9.375c-.621 0-1.125.504-1.125 1.125v3.5m7.5 10.375H9.375a1.125 1.125 0 01-1.125-1.125v-9.25m12 6.625v-1.875a3.375 3.375 0 00-3.375-3.375h-1.5a1.125 1.125 0 01-1.125-1.125v-1.5a3.375 3.375 0 00-3.375-3.375H9.75" />
+    </svg>
+  );
+}
+
 function SettingsIcon() {
   return (
     <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
@@ -303,6 +368,14 @@ function SettingsIcon() {
   );
 }
 
+function UsersIcon() {
+  return (
+    <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
+      <path strokeLinecap="round" strokeLinejoin="round" d="M15 19.128a9.38 9.38 0 002.625.372 9.337 9.337 0 004.121-.952 4.125 4.125 0 00-7.533-2.493M15 19.128v-.003c0-1.113-.285-2.16-.786-3.07M15 19.128v.106A12.318 12.318 0 018.624 21c-2.331 0-4.512-.645-6.374-1.766l-.001-.109a6.375 6.375 0 0111.964-3.07M12 6.375a3.375 3.375 0 11-6.75 0 3.375 3.375 0 016.75 0zm8.25 2.25a2.625 2.625 0 11-5.25 0 2.625 2.625 0 015.25 0z" />
+    </svg>
+  );
+}
+
 function UserIcon() {
   return (
     <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={1.5}>
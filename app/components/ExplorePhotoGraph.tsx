@@ -6,7 +6,7 @@ import {
   type PhotoGraphEdge,
   type PhotoGraphNode,
 } from "~/components/PhotoGraphCanvas";
-import { photoMessages, type Locale } from "~/lib/i18n";
+import { photoMessagesFor, type Locale } from "~/lib/i18n";
 
 export interface ExploreMapNode extends PhotoGraphNode {
   path: string;
@@ -41,7 +41,7 @@ export function ExplorePhotoGraph({
   locale,
   onTagSelect,
 }: ExplorePhotoGraphProps) {
-  const messages = photoMessages[locale];
+  const messages = photoMessagesFor(locale);
   const [activeId, setActiveId] = useState<string | null>(null);
   const visibleIds = useMemo(
     () => new Set(nodes.map((node) => node.assetId)),
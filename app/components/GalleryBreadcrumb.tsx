@@ -10,7 +10,7 @@ import { useState, useRef, useEffect, useId } from "react";
 import { createPortal } from "react-dom";
 import { personalSiteSectionHref } from "./PersonalSiteNavLinks";
 import type { NavItem } from "./Sidebar";
-import { localizedPath, photoMessages, type Locale } from "~/lib/i18n";
+import { localizedPath, photoMessagesFor, type Locale } from "~/lib/i18n";
 
 interface GalleryBreadcrumbProps {
   currentSlug?: string;
@@ -27,7 +27,7 @@ export interface BreadcrumbSegment {
 }
 
 export function GalleryBreadcrumb({ currentSlug, navigation, locale }: GalleryBreadcrumbProps) {
-  const messages = photoMessages[locale];
+  const messages = photoMessagesFor(locale);
   const segments = currentSlug ? buildBreadcrumbSegments(currentSlug, navigation, locale) : [];
   const staticPages = [
     {
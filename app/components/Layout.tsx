@@ -9,6 +9,7 @@ import { Children, useEffect, useRef } from "react";
 import { Sidebar, type NavItem, type PhotoNavigation } from "./Sidebar";
 import { MobileMenu } from "./MobileMenu";
 import { OptimizedImage } from "./OptimizedImage";
+import { useSiteLanguages } from "~/hooks/useSiteLanguages";
 import type { Locale } from "~/lib/i18n";
 
 interface LayoutProps {
@@ -35,10 +36,11 @@ export function Layout({
 }: LayoutProps) {
   const rootData = useRouteLoaderData<{
     photoAiEnabled?: boolean;
-    siteLanguages?: { multilingual?: boolean };
+    equipmentStatsPublic?: boolean;
   }>("root");
   const photoAiEnabled = rootData?.photoAiEnabled === true;
-  const multilingual = rootData?.siteLanguages?.multilingual === true;
+  const equipmentStatsPublic = rootData?.equipmentStatsPublic === true;
+  const { multilingual, locales } = useSiteLanguages();
 
   return (
     <div className="min-h-screen bg-white dark:bg-gray-950">
@@ -50,7 +52,9 @@ export function Layout({
           socialLinks={socialLinks}
           photoNav={photoNav}
           photoAiEnabled={photoAiEnabled}
+          equipmentStatsPublic={equipmentStatsPublic}
           multilingual={multilingual}
+          locales={locales}
           locale={locale}
         />
       </div>
@@ -62,7 +66,9 @@ export function Layout({
           navigation={navigation}
           socialLinks={socialLinks}
           photoAiEnabled={photoAiEnabled}
+          equipmentStatsPublic={equipmentStatsPublic}
           multilingual={multilingual}
+          locales={locales}
           locale={locale}
         />
       </div>
@@ -10,7 +10,7 @@ import type { NavItem } from "./Sidebar";
 import { PersonalSiteNavLinks } from "./PersonalSiteNavLinks";
 import { SiteIdentity } from "./SiteIdentity";
 import { SitePreferenceControls } from "./SitePreferenceControls";
-import { localizedPath, photoMessages, type Locale } from "~/lib/i18n";
+import { localizedPath, photoMessagesFor, type Locale } from "~/lib/i18n";
 
 interface MobileMenuProps {
   siteName: string;
@@ -22,14 +22,16 @@ interface MobileMenuProps {
     facebook?: string;
   };
   photoAiEnabled?: boolean;
+  equipmentStatsPublic?: boolean;
   multilingual?: boolean;
+  locales?: readonly Locale[];
   locale: Locale;
 }
 
-export function MobileMenu({ navigation, socialLinks, photoAiEnabled = false, multilingual = false, locale }: MobileMenuProps) {
+export function MobileMenu({ navigation, socialLinks, photoAiEnabled = false, equipmentStatsPublic = false, multilingual = false, locales, locale }: MobileMenuProps) {
   const [isOpen, setIsOpen] = useState(false);
   const location = useLocation();
-  const messages = photoMessages[locale];
+  const messages = photoMessagesFor(locale);
 
   // Find all slugs in the active path that should be expanded
   const activePathSlugs = useMemo(() => {
@@ -173,6 +175,17 @@ export function MobileMenu({ navigation, socialLinks, photoAiEnabled = false, mu
                   {messages.explore}
                 </MobileNavLink>
               )}
+              <MobileNavLink href={localizedPath(locale, "/map")} currentPath={location.pathname} onClick={() => setIsOpen(false)}>
+                {messages.map}
+              </MobileNavLink>
+              <MobileNavLink href={localizedPath(locale, "/timeline")} currentPath={location.pathname} onClick={() => setIsOpen(false)}>
+                {messages.timeline}
+              </MobileNavLink>
+              {equipmentStatsPublic && (
+                <MobileNavLink href={localizedPath(locale, "/stats")} currentPath={location.pathname} onClick={() => setIsOpen(false)}>
+                  {messages.equipmentStats}
+                </MobileNavLink>
+              )}
               <MobileNavLink href={localizedPath(locale, "/blog")} currentPath={location.pathname} onClick={() => setIsOpen(false)}>
                 {messages.blog}
               </MobileNavLink>
@@ -185,7 +198,7 @@ export function MobileMenu({ navigation, socialLinks, photoAiEnabled = false, mu
 
           {/* Language edition + theme, followed by social links */}
           <div className="px-6 py-8 border-t border-gray-100 dark:border-gray-800">
-            <SitePreferenceControls multilingual={multilingual} locale={locale} />
+            <SitePreferenceControls multilingual={multilingual} locales={locales} locale={locale} />
             {(socialLinks?.instagram || socialLinks?.twitter || socialLinks?.linkedin) && (
               <div className="flex items-center gap-6 mt-6">
                 {socialLinks?.instagram && (
@@ -322,7 +335,7 @@ function MobileNavSection({
           <button
             onClick={() => onToggle(item.slug)}
             className="p-1 text-gray-600 dark:text-gray-400"
-            aria-label={isExpanded ? photoMessages[locale].collapse : photoMessages[locale].expand}
+            aria-label={isExpanded ? photoMessagesFor(locale).collapse : photoMessagesFor(locale).expand}
           >
             <ChevronIcon className={`transform transition-transform ${isExpanded ? "rotate-90" : ""}`} />
           </button>
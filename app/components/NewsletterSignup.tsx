@@ -47,7 +47,7 @@ export function NewsletterSignup({
   const fetcher = useFetcher<SubscribeResponse>();
   const formRef = useRef<HTMLFormElement>(null);
   const trackedSuccessRef = useRef(false);
-  const messages = copy[locale];
+  const messages = locale === "es" ? copy.es : copy.en;
   const submitting = fetcher.state !== "idle";
 
   useEffect(() => {
@@ -6,7 +6,7 @@
 
 import { Form, useActionData, useNavigation } from "@remix-run/react";
 import { useState } from "react";
-import { localizedPath, photoMessages, type Locale } from "~/lib/i18n";
+import { localizedPath, photoMessagesFor, type Locale } from "~/lib/i18n";
 
 interface PasswordProtectedGalleryProps {
   gallerySlug: string;
@@ -26,7 +26,7 @@ export function PasswordProtectedGallery({
   const [showPassword, setShowPassword] = useState(false);
   const navigation = useNavigation();
   const isSubmitting = navigation.state === "submitting";
-  const messages = photoMessages[locale];
+  const messages = photoMessagesFor(locale);
 
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-950 px-4">
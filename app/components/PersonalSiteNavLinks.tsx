@@ -1,4 +1,4 @@
-import { photoMessages, type Locale } from "~/lib/i18n";
+import { photoMessagesFor, type Locale } from "~/lib/i18n";
 
 type PersonalSiteSection = "about" | "contact";
 
@@ -19,7 +19,7 @@ export function PersonalSiteNavLinks({
   locale,
   onNavigate,
 }: PersonalSiteNavLinksProps) {
-  const messages = photoMessages[locale];
+  const messages = photoMessagesFor(locale);
   const className =
     "block text-xs font-semibold text-gray-800 transition-colors hover:text-black dark:text-gray-300 dark:hover:text-white";
 
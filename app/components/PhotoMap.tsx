@@ -0,0 +1,303 @@
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type PointerEvent as ReactPointerEvent,
+  type WheelEvent as ReactWheelEvent,
+} from "react";
+import { Link } from "@remix-run/react";
+import type { PhotoMessages } from "~/lib/i18n";
+import {
+  PHOTO_MAP_TILE_SIZE,
+  clusterPhotoMapPoints,
+  fitPhotoMapView,
+  photoMapTileUrl,
+  projectToWorld,
+  worldToLatLng,
+  type PhotoMapPoint,
+  type PhotoMapTiles,
+} from "~/lib/photo-map";
+
+export interface PhotoMapMarker extends PhotoMapPoint {
+  href: string;
+  thumbnailUrl: string;
+}
+
+interface PhotoMapProps {
+  points: readonly PhotoMapMarker[];
+  tiles: PhotoMapTiles;
+  messages: PhotoMessages;
+  heightClassName?: string;
+}
+
+const MIN_ZOOM = 1;
+const SELECTION_PREVIEW_LIMIT = 24;
+
+interface MapView {
+  lat: number;
+  lng: number;
+  zoom: number;
+}
+
+export function PhotoMap({
+  points,
+  tiles,
+  messages,
+  heightClassName = "h-[620px]",
+}: PhotoMapProps) {
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const dragRef = useRef<{ pointerId: number; x: number; y: number; moved: boolean } | null>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [view, setView] = useState<MapView | null>(null);
+  const [selected, setSelected] = useState<PhotoMapMarker[]>([]);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const measure = () => setSize({ width: element.clientWidth, height: element.clientHeight });
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const fittedView = useMemo(
+    () => (size.width > 0 ? fitPhotoMapView(points, size.width, size.height, tiles.maxZoom) : null),
+    [points, size.width, size.height, tiles.maxZoom],
+  );
+  const currentView = view ?? fittedView;
+
+  const clampZoom = useCallback(
+    (zoom: number) => Math.max(MIN_ZOOM, Math.min(tiles.maxZoom, zoom)),
+    [tiles.maxZoom],
+  );
+
+  /** Zooms by whole levels around a viewport pixel, keeping it in place. */
+  const zoomAround = useCallback((delta: number, anchorX?: number, anchorY?: number) => {
+    if (!currentView) return;
+    const zoom = clampZoom(currentView.zoom + delta);
+    if (zoom === currentView.zoom) return;
+    const x = anchorX ?? size.width / 2;
+    const y = anchorY ?? size.height / 2;
+    const center = projectToWorld(currentView.lat, currentView.lng, currentView.zoom);
+    const anchor = { x: center.x - size.width / 2 + x, y: center.y - size.height / 2 + y };
+    const scale = 2 ** (zoom - currentView.zoom);
+    setView({
+      ...worldToLatLng(
+        anchor.x * scale - (x - size.width / 2),
+        anchor.y * scale - (y - size.height / 2),
+        zoom,
+      ),
+      zoom,
+    });
+  }, [clampZoom, currentView, size.height, size.width]);
+
+  const handleWheel = useCallback((event: ReactWheelEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    zoomAround(event.deltaY < 0 ? 1 : -1, event.clientX - rect.left, event.clientY - rect.top);
+  }, [zoomAround]);
+
+  const beginPan = useCallback((event: ReactPointerEvent<HTMLDivElement>) => {
+    if (event.button !== 0) return;
+    dragRef.current = { pointerId: event.pointerId, x: event.clientX, y: event.clientY, moved: false };
+    event.currentTarget.setPointerCapture(event.pointerId);
+  }, []);
+
+  const pan = useCallback((event: ReactPointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || drag.pointerId !== event.pointerId || !currentView) return;
+    const deltaX = event.clientX - drag.x;
+    const deltaY = event.clientY - drag.y;
+    dragRef.current = { ...drag, x: event.clientX, y: event.clientY, moved: true };
+    const center = projectToWorld(currentView.lat, currentView.lng, currentView.zoom);
+    setView({ ...worldToLatLng(center.x - deltaX, center.y - deltaY, currentView.zoom), zoom: currentView.zoom });
+  }, [currentView]);
+
+  const endPan = useCallback((event: ReactPointerEvent<HTMLDivElement>) => {
+    if (dragRef.current?.pointerId === event.pointerId) dragRef.current = null;
+  }, []);
+
+  // Wheel zoom must not scroll the page, which needs a non-passive listener.
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const preventScroll = (event: WheelEvent) => event.preventDefault();
+    element.addEventListener("wheel", preventScroll, { passive: false });
+    return () => element.removeEventListener("wheel", preventScroll);
+  }, []);
+
+  const clusters = useMemo(
+    () => (currentView ? clusterPhotoMapPoints(points, currentView.zoom) : []),
+    [points, currentView],
+  );
+
+  if (points.length === 0) {
+    return (
+      <p className="rounded-xl border border-dashed border-gray-300 px-6 py-16 text-center text-sm text-gray-500 dark:border-gray-700 dark:text-gray-400">
+        {messages.mapNoPhotos}
+      </p>
+    );
+  }
+
+  const origin = currentView
+    ? (() => {
+        const center = projectToWorld(currentView.lat, currentView.lng, currentView.zoom);
+        return { x: center.x - size.width / 2, y: center.y - size.height / 2 };
+      })()
+    : { x: 0, y: 0 };
+
+  const tileImages: Array<{ key: string; src: string; left: number; top: number }> = [];
+  if (currentView && size.width > 0) {
+    const count = 2 ** currentView.zoom;
+    const firstX = Math.floor(origin.x / PHOTO_MAP_TILE_SIZE);
+    const firstY = Math.max(0, Math.floor(origin.y / PHOTO_MAP_TILE_SIZE));
+    const lastX = Math.floor((origin.x + size.width) / PHOTO_MAP_TILE_SIZE);
+    const lastY = Math.min(count - 1, Math.floor((origin.y + size.height) / PHOTO_MAP_TILE_SIZE));
+    for (let x = firstX; x <= lastX; x += 1) {
+      for (let y = firstY; y <= lastY; y += 1) {
+        const wrappedX = ((x % count) + count) % count;
+        tileImages.push({
+          key: `${currentView.zoom}/${x}/${y}`,
+          src: photoMapTileUrl(tiles, currentView.zoom, wrappedX, y),
+          left: x * PHOTO_MAP_TILE_SIZE - origin.x,
+          top: y * PHOTO_MAP_TILE_SIZE - origin.y,
+        });
+      }
+    }
+  }
+
+  const openCluster = (cluster: (typeof clusters)[number]) => {
+    if (dragRef.current?.moved) return;
+    const samePlace = cluster.points.every(
+      (point) => point.lat === cluster.points[0].lat && point.lng === cluster.points[0].lng,
+    );
+    if (cluster.points.length === 1 || samePlace || currentView!.zoom >= tiles.maxZoom) {
+      setSelected(cluster.points);
+      return;
+    }
+    setView({ lat: cluster.lat, lng: cluster.lng, zoom: clampZoom(currentView!.zoom + 2) });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div
+        ref={containerRef}
+        className={`relative ${heightClassName} w-full cursor-grab touch-none select-none overflow-hidden rounded-xl border border-gray-200 bg-gray-100 active:cursor-grabbing dark:border-gray-800 dark:bg-gray-900`}
+        onWheel={handleWheel}
+        onPointerDown={beginPan}
+        onPointerMove={pan}
+        onPointerUp={endPan}
+        onPointerCancel={endPan}
+        role="region"
+        aria-label={messages.mapAriaLabel.replace("{count}", String(points.length))}
+      >
+        {tileImages.map((tile) => (
+          <img
+            key={tile.key}
+            src={tile.src}
+            alt=""
+            draggable={false}
+            width={PHOTO_MAP_TILE_SIZE}
+            height={PHOTO_MAP_TILE_SIZE}
+            className="pointer-events-none absolute max-w-none dark:brightness-[0.7] dark:contrast-125"
+            style={{ left: tile.left, top: tile.top }}
+          />
+        ))}
+
+        {clusters.map((cluster) => {
+          const count = cluster.points.length;
+          const diameter = count === 1 ? 18 : Math.min(56, 26 + Math.log2(count) * 5);
+          const label = count === 1
+            ? cluster.points[0].title || cluster.points[0].filename
+            : messages.mapClusterPhotos.replace("{count}", String(count));
+          return (
+            <button
+              key={`${cluster.points[0].path}:${count}`}
+              type="button"
+              onPointerDown={(event) => event.stopPropagation()}
+              onClick={() => openCluster(cluster)}
+              aria-label={label}
+              title={label}
+              className="absolute flex -translate-x-1/2 -translate-y-1/2 items-center justify-center rounded-full border-2 border-white bg-gray-900/85 text-xs font-semibold text-white shadow-md transition hover:scale-110 focus:outline-none focus-visible:ring-2 focus-visible:ring-gray-500 dark:border-gray-900 dark:bg-white/90 dark:text-gray-900"
+              style={{
+                left: cluster.x - origin.x,
+                top: cluster.y - origin.y,
+                width: diameter,
+                height: diameter,
+              }}
+            >
+              {count > 1 ? count : null}
+            </button>
+          );
+        })}
+
+        <div className="absolute right-3 top-3 z-10 flex overflow-hidden rounded-lg border border-gray-300 bg-white shadow-sm dark:border-gray-700 dark:bg-gray-900">
+          <button
+            type="button"
+            onPointerDown={(event) => event.stopPropagation()}
+            onClick={() => zoomAround(1)}
+            aria-label={messages.zoomIn}
+            className="px-3 py-2 text-lg text-gray-700 transition hover:bg-gray-100 focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-gray-500 dark:text-gray-200 dark:hover:bg-gray-800"
+          >
+            +
+          </button>
+          <button
+            type="button"
+            onPointerDown={(event) => event.stopPropagation()}
+            onClick={() => zoomAround(-1)}
+            aria-label={messages.zoomOut}
+            className="border-x border-gray-300 px-3 py-2 text-lg text-gray-700 transition hover:bg-gray-100 focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-gray-500 dark:border-gray-700 dark:text-gray-200 dark:hover:bg-gray-800"
+          >
+            −
+          </button>
+          <button
+            type="button"
+            onPointerDown={(event) => event.stopPropagation()}
+            onClick={() => {
+              setView(null);
+              setSelected([]);
+            }}
+            className="px-3 py-2 text-xs font-medium text-gray-700 transition hover:bg-gray-100 focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-gray-500 dark:text-gray-200 dark:hover:bg-gray-800"
+          >
+            {messages.resetGraph}
+          </button>
+        </div>
+
+        <div className="pointer-events-none absolute bottom-3 left-3 max-w-[calc(100%-1.5rem)] rounded-lg bg-white/90 px-3 py-2 text-xs text-gray-600 shadow-sm backdrop-blur dark:bg-gray-900/90 dark:text-gray-300">
+          {messages.mapInstructions}
+        </div>
+        {tiles.attribution && (
+          <div className="absolute bottom-0 right-0 bg-white/80 px-1.5 py-0.5 text-[10px] text-gray-600 dark:bg-gray-900/80 dark:text-gray-300">
+            {tiles.attribution}
+          </div>
+        )}
+      </div>
+
+      {selected.length > 0 && (
+        <ul className="grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-4">
+          {selected.slice(0, SELECTION_PREVIEW_LIMIT).map((point) => (
+            <li key={point.path}>
+              <Link to={point.href} className="group block">
+                <img
+                  src={point.thumbnailUrl}
+                  alt={point.title || ""}
+                  loading="lazy"
+                  className="aspect-[3/2] w-full rounded-lg object-cover transition group-hover:opacity-80"
+                />
+                <p className="mt-1.5 truncate text-sm text-gray-900 dark:text-white">
+                  {point.title || point.galleryTitle}
+                </p>
+                <p className="truncate text-xs text-gray-500 dark:text-gray-400">
+                  {[point.city, point.country].filter(Boolean).join(", ")}
+                  {point.approximate && ` · ${messages.mapApproximate}`}
+                </p>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+/**
+ * Publish/unpublish date pickers shared by the blog editor and gallery
+ * settings. Values are ISO timestamps; the inputs show the editor's local time.
+ */
+
+function toDateTimeLocal(value: string): string {
+  if (!value) return "";
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return "";
+  const offset = date.getTimezoneOffset() * 60_000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+function fromDateTimeLocal(value: string): string {
+  if (!value) return "";
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? "" : date.toISOString();
+}
+
+export function PublicationScheduleFields({
+  publishAt,
+  unpublishAt,
+  onChange,
+}: {
+  publishAt: string;
+  unpublishAt: string;
+  onChange: (schedule: { publishAt: string; unpublishAt: string }) => void;
+}) {
+  const inputClass =
+    "w-full px-3 py-2 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent text-gray-900 dark:text-white";
+  const invalid = Boolean(
+    publishAt && unpublishAt && new Date(unpublishAt).getTime() <= new Date(publishAt).getTime(),
+  );
+
+  return (
+    <div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Publish at
+          </label>
+          <input
+            type="datetime-local"
+            value={toDateTimeLocal(publishAt)}
+            onChange={(event) =>
+              onChange({ publishAt: fromDateTimeLocal(event.target.value), unpublishAt })
+            }
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Unpublish at
+          </label>
+          <input
+            type="datetime-local"
+            value={toDateTimeLocal(unpublishAt)}
+            onChange={(event) =>
+              onChange({ publishAt, unpublishAt: fromDateTimeLocal(event.target.value) })
+            }
+            className={inputClass}
+          />
+        </div>
+      </div>
+      <p className={`mt-1 text-xs ${invalid ? "text-red-600 dark:text-red-400" : "text-gray-500 dark:text-gray-400"}`}>
+        {invalid
+          ? "Unpublish date must be after the publish date."
+          : "Optional. Leave empty to publish immediately and keep it online."}
+      </p>
+    </div>
+  );
+}
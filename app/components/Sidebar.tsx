@@ -9,7 +9,7 @@ import { useState, useEffect, useMemo } from "react";
 import { SiteIdentity } from "./SiteIdentity";
 import { PersonalSiteNavLinks } from "./PersonalSiteNavLinks";
 import { SitePreferenceControls } from "./SitePreferenceControls";
-import { localizedPath, photoMessages, type Locale } from "~/lib/i18n";
+import { localizedPath, photoMessagesFor, type Locale } from "~/lib/i18n";
 
 export interface NavItem {
   title: string;
@@ -43,13 +43,15 @@ interface SidebarProps {
   };
   photoNav?: PhotoNavigation;
   photoAiEnabled?: boolean;
+  equipmentStatsPublic?: boolean;
   multilingual?: boolean;
+  locales?: readonly Locale[];
   locale: Locale;
 }
 
-export function Sidebar({ navigation, socialLinks, photoNav, photoAiEnabled = false, multilingual = false, locale }: SidebarProps) {
+export function Sidebar({ navigation, socialLinks, photoNav, photoAiEnabled = false, equipmentStatsPublic = false, multilingual = false, locales, locale }: SidebarProps) {
   const location = useLocation();
-  const messages = photoMessages[locale];
+  const messages = photoMessagesFor(locale);
   const hasPrimaryPhotoText = Boolean(photoNav?.title || photoNav?.description || photoNav?.photoInfo);
   
   // Find all slugs in the active path that should be expanded
@@ -164,6 +166,17 @@ export function Sidebar({ navigation, socialLinks, photoNav, photoAiEnabled = fa
                 {messages.explore}
               </StaticNavLink>
             )}
+            <StaticNavLink href={localizedPath(locale, "/map")} currentPath={location.pathname}>
+              {messages.map}
+            </StaticNavLink>
+            <StaticNavLink href={localizedPath(locale, "/timeline")} currentPath={location.pathname}>
+              {messages.timeline}
+            </StaticNavLink>
+            {equipmentStatsPublic && (
+              <StaticNavLink href={localizedPath(locale, "/stats")} currentPath={location.pathname}>
+                {messages.equipmentStats}
+              </StaticNavLink>
+            )}
             <StaticNavLink href={localizedPath(locale, "/blog")} currentPath={location.pathname}>
               {messages.blog}
             </StaticNavLink>
@@ -173,6 +186,7 @@ export function Sidebar({ navigation, socialLinks, photoNav, photoAiEnabled = fa
           {/* Language edition + theme */}
           <SitePreferenceControls
             multilingual={multilingual}
+            locales={locales}
             locale={locale}
             className="pt-5"
           />
@@ -1,6 +1,6 @@
 import { Link, useRouteLoaderData } from "@remix-run/react";
 import { useEffect, useState } from "react";
-import { localizedPath, photoMessages, type Locale } from "~/lib/i18n";
+import { localizedPath, photoMessagesFor, type Locale } from "~/lib/i18n";
 
 interface SimilarPhoto {
   assetId: string;
@@ -37,7 +37,7 @@ export function SimilarPhotos({ photoPath, limit = 8, locale }: SimilarPhotosPro
   const rootData = useRouteLoaderData<{ photoAiEnabled?: boolean }>("root");
   const photoAiEnabled = rootData?.photoAiEnabled === true;
   const [state, setState] = useState<LoadState>({ status: "loading", photos: [] });
-  const messages = photoMessages[locale];
+  const messages = photoMessagesFor(locale);
 
   useEffect(() => {
     if (!photoAiEnabled) {
@@ -112,7 +112,7 @@ export function SimilarPhotos({ photoPath, limit = 8, locale }: SimilarPhotosPro
 function SimilarPhotoCard({ photo, locale }: { photo: SimilarPhoto; locale: Locale }) {
   const [imageFailed, setImageFailed] = useState(false);
   const title = photo.title || photo.filename;
-  const messages = photoMessages[locale];
+  const messages = photoMessagesFor(locale);
   const accessibleLabel = photo.galleryTitle
     ? `${messages.viewPhoto} ${title} ${messages.fromGallery} ${photo.galleryTitle}`
     : `${messages.viewPhoto} ${title}`;
@@ -150,7 +150,7 @@ function SimilarPhotoCard({ photo, locale }: { photo: SimilarPhoto; locale: Loca
 }
 
 function SimilarPhotosSkeleton({ locale }: { locale: Locale }) {
-  const messages = photoMessages[locale];
+  const messages = photoMessagesFor(locale);
   return (
     <section
       aria-busy="true"
@@ -5,12 +5,15 @@ import { ThemeToggle } from "./ThemeToggle";
 
 interface SitePreferenceControlsProps {
   multilingual: boolean;
+  /** Published editions; defaults to Spanish and English. */
+  locales?: readonly Locale[];
   locale: Locale;
   className?: string;
 }
 
 export function SitePreferenceControls({
   multilingual,
+  locales,
   locale,
   className = "",
 }: SitePreferenceControlsProps) {
@@ -19,7 +22,7 @@ export function SitePreferenceControls({
       className={`flex items-center gap-3 ${className}`.trim()}
       data-site-preference-controls
     >
-      {multilingual && <LanguageEditionSwitch locale={locale} />}
+      {multilingual && <LanguageEditionSwitch locale={locale} locales={locales} />}
       <ThemeToggle locale={locale} size="compact" />
     </div>
   );
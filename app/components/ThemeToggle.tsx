@@ -5,7 +5,7 @@
  */
 
 import { useEffect, useState } from "react";
-import { photoMessages, type Locale } from "~/lib/i18n";
+import { photoMessagesFor, type Locale } from "~/lib/i18n";
 import {
   applyTheme,
   readStoredTheme,
@@ -25,7 +25,7 @@ export function ThemeToggle({
   size = "default",
 }: ThemeToggleProps) {
   const [theme, setTheme] = useState<Theme | null>(null);
-  const messages = photoMessages[locale];
+  const messages = photoMessagesFor(locale);
   const buttonSizeClasses = size === "compact" ? "p-1 rounded-md" : "p-2 rounded-lg";
   const iconSizeClasses = size === "compact" ? "w-4 h-4" : "w-5 h-5";
 
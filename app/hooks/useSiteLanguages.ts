@@ -1,20 +1,41 @@
+import { useMemo } from "react";
 import { useRouteLoaderData } from "@remix-run/react";
 
-import { DEFAULT_LOCALE, normalizeLocale, type Locale } from "~/lib/i18n";
+import {
+  DEFAULT_LOCALE,
+  normalizeLocale,
+  normalizeLocaleList,
+  siteLocales,
+  type Locale,
+} from "~/lib/i18n";
 
 export interface ClientSiteLanguageSettings {
   multilingual: boolean;
   defaultLocale: Locale;
+  /** Published editions, default locale included. */
+  locales: Locale[];
 }
 
 export function useSiteLanguages(): ClientSiteLanguageSettings {
   const rootData = useRouteLoaderData<{
-    siteLanguages?: { multilingual?: boolean; defaultLocale?: string };
+    siteLanguages?: {
+      multilingual?: boolean;
+      defaultLocale?: string;
+      locales?: string[];
+    };
   }>("root");
 
-  return {
-    multilingual: rootData?.siteLanguages?.multilingual === true,
-    defaultLocale:
-      normalizeLocale(rootData?.siteLanguages?.defaultLocale) || DEFAULT_LOCALE,
-  };
+  const settings = rootData?.siteLanguages;
+
+  return useMemo(() => {
+    const defaultLocale = normalizeLocale(settings?.defaultLocale) || DEFAULT_LOCALE;
+    return {
+      multilingual: settings?.multilingual === true,
+      defaultLocale,
+      locales: siteLocales({
+        defaultLocale,
+        locales: normalizeLocaleList(settings?.locales),
+      }),
+    };
+  }, [settings]);
 }
@@ -0,0 +1,43 @@
+/**
+ * Admin Roles
+ *
+ * Every admin account has one role. Routes ask for a permission rather than
+ * a role, so a new role only needs an entry here. Free of server imports so
+ * the admin navigation can hide sections an account cannot open.
+ */
+
+export const ADMIN_ROLES = ["owner", "editor", "translator", "newsletter"] as const;
+
+export type AdminRole = (typeof ADMIN_ROLES)[number];
+
+/**
+ * - content: create, edit, move and delete galleries, photos, posts and pages
+ * - translations: edit the non-source editions of existing content
+ * - newsletter: compose and send campaigns, manage subscribers
+ * - settings: site, storage and AI configuration
+ * - users: invite, disable and change the role of admin accounts
+ */
+export type AdminPermission = "content" | "translations" | "newsletter" | "settings" | "users";
+
+const ROLE_PERMISSIONS: Record<AdminRole, readonly AdminPermission[]> = {
+  owner: ["content", "translations", "newsletter", "settings", "users"],
+  editor: ["content", "translations"],
+  translator: ["translations"],
+  newsletter: ["newsletter"],
+};
+
+export const ADMIN_ROLE_LABELS: Record<AdminRole, string> = {
+  owner: "Owner",
+  editor: "Editor",
+  translator: "Translator",
+  newsletter: "Newsletter manager",
+};
+
+export function isAdminRole(value: unknown): value is AdminRole {
+  return typeof value === "string" && (ADMIN_ROLES as readonly string[]).includes(value);
+}
+
+export function roleCan(role: AdminRole | undefined, permission: AdminPermission): boolean {
+  // Accounts without a role predate roles and were the single owner.
+  return ROLE_PERMISSIONS[role ?? "owner"].includes(permission);
+}
@@ -0,0 +1,473 @@
+import {
+  AiConfigurationError,
+  AiDataValidationError,
+  AiProviderRequestError,
+  AiProviderResponseError,
+  type AiCoreError,
+} from "./errors";
+import { serializeGalleryTaxonomyForPrompt } from "./gallery-taxonomy";
+import type {
+  AnalyzePhotoInput,
+  FaceDetectionProviderName,
+  GallerySuggestion,
+  PhotoAiProviderName,
+  PhotoAltTextSuggestion,
+} from "./types";
+
+/**
+ * Prompt, schema and output normalization shared by every photo analysis
+ * provider, so switching providers never changes what gets persisted.
+ */
+
+export const DEFAULT_PROMPT_VERSION = "gallery-taxonomy-alt-text-v3";
+/** Screen readers read alt text in one go; longer text belongs in the description. */
+export const ALT_TEXT_MAX_LENGTH = 250;
+export const DEFAULT_MAX_GALLERY_SUGGESTIONS = 8;
+export const MAX_ERROR_BODY_LENGTH = 4_000;
+export const ANALYSIS_SYSTEM_INSTRUCTION =
+  "You classify photographs using only the supplied VictoPress gallery taxonomy. Return factual, concise JSON and never claim to mutate CMS content.";
+export const ANALYSIS_IMAGE_MIME_TYPES: ReadonlySet<string> = new Set([
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/heic",
+  "image/heif",
+]);
+
+export type JsonObject = Record<string, unknown>;
+export type FetchImplementation = typeof fetch;
+
+/** Builds the provider-specific response error for malformed model output. */
+export type AnalysisResponseErrorFactory = (
+  message: string,
+  options?: { finishReason?: string; cause?: unknown },
+) => AiCoreError;
+
+export function isObject(value: unknown): value is JsonObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function normalizeModelName(model: string, field: string): string {
+  const normalized = model.trim().replace(/^models\//, "");
+  if (!normalized) throw new AiConfigurationError(`${field} cannot be empty`);
+  return normalized;
+}
+
+export function normalizeEmbeddingDimensions(value: number): number {
+  if (!Number.isSafeInteger(value) || value < 1 || value > 3_072) {
+    throw new AiConfigurationError(
+      "Embedding dimensions must be an integer between 1 and 3072",
+    );
+  }
+  return value;
+}
+
+export function normalizeMaxGallerySuggestions(value: number): number {
+  if (!Number.isSafeInteger(value) || value < 1 || value > 25) {
+    throw new AiConfigurationError(
+      "Maximum gallery suggestions must be an integer between 1 and 25",
+    );
+  }
+  return value;
+}
+
+/**
+ * Cloudflare Workers requires the native fetch receiver to be globalThis.
+ * Calling a stored native function as `this.fetchImplementation(...)`
+ * otherwise binds the provider instance and fails before any request is sent.
+ */
+export function bindFetch(customFetch?: FetchImplementation): FetchImplementation {
+  return customFetch
+    ? (input, init) => customFetch(input, init)
+    : (input, init) => globalThis.fetch(input, init);
+}
+
+export function toUint8Array(value: ArrayBuffer | Uint8Array): Uint8Array {
+  return value instanceof Uint8Array ? value : new Uint8Array(value);
+}
+
+/** Cloudflare Workers has btoa but not Node's Buffer global. */
+export function encodeBase64(value: ArrayBuffer | Uint8Array): string {
+  const bytes = toUint8Array(value);
+  const chunkSize = 0x8000;
+  let binary = "";
+  for (let offset = 0; offset < bytes.length; offset += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + chunkSize));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Validates an analysis request and returns the galleries the model may
+ * suggest: direct-photo galleries that are not password protected.
+ */
+export function prepareAnalysisInput(input: AnalyzePhotoInput): {
+  allowedGallerySlugs: Set<string>;
+  currentGallerySlugs: Set<string>;
+} {
+  if (toUint8Array(input.image).byteLength === 0) {
+    throw new AiDataValidationError("Image cannot be empty", "image");
+  }
+  if (!ANALYSIS_IMAGE_MIME_TYPES.has(input.mimeType)) {
+    throw new AiDataValidationError(
+      `Unsupported analysis image MIME type: ${String(input.mimeType)}`,
+      "mimeType",
+    );
+  }
+  if (
+    !input.taxonomy ||
+    !Array.isArray(input.taxonomy.entries) ||
+    typeof input.taxonomy.version !== "string" ||
+    !input.taxonomy.version.trim()
+  ) {
+    throw new AiDataValidationError("Invalid gallery taxonomy catalog", "taxonomy");
+  }
+
+  const eligibleGalleries = input.taxonomy.entries.filter(
+    (entry) => entry.acceptsDirectPhotos && !entry.isProtected,
+  );
+  return {
+    allowedGallerySlugs: new Set(eligibleGalleries.map((entry) => entry.slug)),
+    currentGallerySlugs: new Set(
+      input.currentGallerySlugs.map((slug) => slug.trim()).filter(Boolean),
+    ),
+  };
+}
+
+export function buildAnalysisSchema(
+  gallerySlugs: readonly string[],
+  maxItems: number,
+  altTextLocales: readonly string[] = [],
+): JsonObject {
+  const gallerySlugSchema: JsonObject = { type: "string" };
+  if (gallerySlugs.length > 0) gallerySlugSchema.enum = gallerySlugs;
+  // One required property per locale keeps strict structured outputs valid.
+  const altText: JsonObject | undefined = altTextLocales.length > 0
+    ? {
+        type: "object",
+        additionalProperties: false,
+        properties: Object.fromEntries(
+          altTextLocales.map((locale) => [
+            locale,
+            { type: "string", description: `Accessibility alt text in language: ${locale}.` },
+          ]),
+        ),
+        required: [...altTextLocales],
+      }
+    : undefined;
+
+  return {
+    type: "object",
+    additionalProperties: false,
+    properties: {
+      caption: {
+        type: "string",
+        description: "A concise factual caption for the photograph.",
+      },
+      tags: {
+        type: "array",
+        maxItems: 24,
+        items: { type: "string" },
+        description: "Concrete reusable visual search tags.",
+      },
+      gallerySuggestions: {
+        type: "array",
+        maxItems: gallerySlugs.length === 0 ? 0 : maxItems,
+        items: {
+          type: "object",
+          additionalProperties: false,
+          properties: {
+            gallerySlug: gallerySlugSchema,
+            confidence: { type: "number", minimum: 0, maximum: 1 },
+            reason: {
+              type: "string",
+              description: "Short visual reason for this classification.",
+            },
+          },
+          required: ["gallerySlug", "confidence", "reason"],
+        },
+      },
+      ...(altText ? { altText } : {}),
+    },
+    required: ["caption", "tags", "gallerySuggestions", ...(altText ? ["altText"] : [])],
+  };
+}
+
+function altTextInstructions(locales: readonly string[]): string[] {
+  if (locales.length === 0) return [];
+  return [
+    `Write altText for screen readers in each of these languages: ${JSON.stringify(locales)}.`,
+    "Each altText is one plain sentence under 125 characters describing what is visible, most important subject first.",
+    "Do not start altText with \"image of\" or \"photo of\", and never name or guess who a person is.",
+  ];
+}
+
+export function buildAnalysisPrompt(input: AnalyzePhotoInput): string {
+  const language = input.language?.trim() || "es";
+  const current = Array.from(
+    new Set(input.currentGallerySlugs.map((slug) => slug.trim()).filter(Boolean)),
+  );
+
+  return [
+    "Analyze the attached photograph for a files-first photography CMS.",
+    `Write the caption, tags and reasons in language: ${language}.`,
+    "Suggest zero, one, or several galleries when the visible content genuinely fits.",
+    "Treat each classificationHint as a strict editorial inclusion/exclusion rule, not as optional flavor text.",
+    "Only suggest a gallery when the visible photograph satisfies its classificationHint; uncertainty means do not suggest it.",
+    "A current physical gallery is context only and never overrides a classificationHint.",
+    "A gallery suggestion is editorial advice only: never imply that a file was moved or published.",
+    "Use only exact gallery slugs from the supplied taxonomy. Do not invent galleries.",
+    "Prefer precise visual evidence over assumptions about identity, location, or intent.",
+    `Current physical gallery slugs (context only): ${JSON.stringify(current)}.`,
+    `Existing gallery taxonomy: ${serializeGalleryTaxonomyForPrompt(input.taxonomy)}`,
+    ...altTextInstructions(input.altTextLocales ?? []),
+  ].join("\n");
+}
+
+function parseJsonText(
+  text: string,
+  providerName: string,
+  fail: AnalysisResponseErrorFactory,
+  finishReason?: string,
+): unknown {
+  const withoutFence = text
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "")
+    .trim();
+  try {
+    return JSON.parse(withoutFence);
+  } catch (cause) {
+    throw fail(`${providerName} returned malformed analysis JSON`, {
+      finishReason,
+      cause,
+    });
+  }
+}
+
+function normalizeTags(
+  value: unknown,
+  providerName: string,
+  fail: AnalysisResponseErrorFactory,
+): string[] {
+  if (!Array.isArray(value) || value.some((tag) => typeof tag !== "string")) {
+    throw fail(`${providerName} analysis contained invalid tags`);
+  }
+
+  const seen = new Set<string>();
+  const tags: string[] = [];
+  for (const candidate of value) {
+    const tag = candidate.trim().slice(0, 80);
+    const key = tag.toLocaleLowerCase();
+    if (!tag || seen.has(key)) continue;
+    seen.add(key);
+    tags.push(tag);
+    if (tags.length === 24) break;
+  }
+  return tags;
+}
+
+function normalizeSuggestions(
+  value: unknown,
+  allowedGallerySlugs: ReadonlySet<string>,
+  currentGallerySlugs: ReadonlySet<string>,
+  maxSuggestions: number,
+  providerName: string,
+  fail: AnalysisResponseErrorFactory,
+): GallerySuggestion[] {
+  if (!Array.isArray(value)) {
+    throw fail(`${providerName} analysis contained invalid gallery suggestions`);
+  }
+
+  const bySlug = new Map<string, GallerySuggestion>();
+  for (const candidate of value) {
+    if (!isObject(candidate)) continue;
+    const gallerySlug =
+      typeof candidate.gallerySlug === "string" ? candidate.gallerySlug.trim() : "";
+    const reason = typeof candidate.reason === "string" ? candidate.reason.trim() : "";
+    const confidence = candidate.confidence;
+
+    // Unknown slugs and malformed optional entries are ignored, never persisted.
+    if (
+      !allowedGallerySlugs.has(gallerySlug) ||
+      !reason ||
+      typeof confidence !== "number" ||
+      !Number.isFinite(confidence) ||
+      confidence < 0 ||
+      confidence > 1
+    ) {
+      continue;
+    }
+
+    const suggestion: GallerySuggestion = {
+      gallerySlug,
+      confidence,
+      reason: reason.slice(0, 500),
+      alreadyCurrent: currentGallerySlugs.has(gallerySlug),
+      status: "pending",
+    };
+    const previous = bySlug.get(gallerySlug);
+    if (!previous || suggestion.confidence > previous.confidence) {
+      bySlug.set(gallerySlug, suggestion);
+    }
+  }
+
+  return Array.from(bySlug.values())
+    .sort((a, b) => b.confidence - a.confidence || a.gallerySlug.localeCompare(b.gallerySlug))
+    .slice(0, maxSuggestions);
+}
+
+/**
+ * Alt text is optional output: a model that skips a locale still produced a
+ * usable analysis, so missing or empty entries are dropped instead of failing.
+ */
+function normalizeAltText(value: unknown, locales: readonly string[]): PhotoAltTextSuggestion[] {
+  if (!isObject(value)) return [];
+  return locales.flatMap((locale) => {
+    const text = typeof value[locale] === "string"
+      ? value[locale].replace(/\s+/g, " ").trim().slice(0, ALT_TEXT_MAX_LENGTH)
+      : "";
+    return text ? [{ locale, text, status: "pending" as const }] : [];
+  });
+}
+
+/** Parses the model's JSON text into the persisted caption, tags, suggestions and alt text. */
+export function readAnalysisOutput(
+  text: string,
+  options: {
+    providerName: string;
+    fail: AnalysisResponseErrorFactory;
+    finishReason?: string;
+    allowedGallerySlugs: ReadonlySet<string>;
+    currentGallerySlugs: ReadonlySet<string>;
+    maxGallerySuggestions: number;
+    altTextLocales?: readonly string[];
+  },
+): {
+  caption: string;
+  tags: string[];
+  gallerySuggestions: GallerySuggestion[];
+  altText?: PhotoAltTextSuggestion[];
+} {
+  const { providerName, fail, finishReason } = options;
+  const payload = parseJsonText(text, providerName, fail, finishReason);
+  if (!isObject(payload)) {
+    throw fail(`${providerName} analysis JSON must be an object`, { finishReason });
+  }
+
+  const caption = typeof payload.caption === "string" ? payload.caption.trim() : "";
+  if (!caption) throw fail(`${providerName} analysis did not include a caption`);
+
+  return {
+    caption: caption.slice(0, 2_000),
+    tags: normalizeTags(payload.tags, providerName, fail),
+    gallerySuggestions: normalizeSuggestions(
+      payload.gallerySuggestions,
+      options.allowedGallerySlugs,
+      options.currentGallerySlugs,
+      options.maxGallerySuggestions,
+      providerName,
+      fail,
+    ),
+    ...(options.altTextLocales?.length
+      ? { altText: normalizeAltText(payload.altText, options.altTextLocales) }
+      : {}),
+  };
+}
+
+/** Checks that an embedding has the configured length and is usable for cosine search. */
+export function readEmbeddingVector(
+  values: unknown,
+  dimensions: number,
+  providerName: string,
+  fail: AnalysisResponseErrorFactory,
+): number[] {
+  if (
+    !Array.isArray(values) ||
+    values.length !== dimensions ||
+    values.some((value) => typeof value !== "number" || !Number.isFinite(value))
+  ) {
+    throw fail(`${providerName} embedding must contain exactly ${dimensions} finite values`);
+  }
+
+  const vector = values as number[];
+  if (!vector.some((value) => value !== 0)) {
+    throw fail(`${providerName} returned a zero-magnitude embedding`);
+  }
+  return vector;
+}
+
+export function extractApiErrorMessage(responseBody: string, fallback: string): string {
+  try {
+    const parsed: unknown = JSON.parse(responseBody);
+    if (isObject(parsed) && isObject(parsed.error) && typeof parsed.error.message === "string") {
+      return parsed.error.message;
+    }
+    // Ollama and llama.cpp report `{ "error": "..." }`.
+    if (isObject(parsed) && typeof parsed.error === "string") return parsed.error;
+  } catch {
+    // Fall through to the HTTP status text.
+  }
+  return fallback;
+}
+
+/** Text embedded for providers whose embedding model cannot read images. */
+export function analysisEmbeddingText(analysis: { caption: string; tags: readonly string[] }): string {
+  return [analysis.caption, analysis.tags.join(", ")].filter(Boolean).join("\n");
+}
+
+/** POSTs JSON to an OpenAI-compatible, Ollama or CompreFace endpoint. */
+export async function postProviderJson(options: {
+  provider: PhotoAiProviderName | FaceDetectionProviderName;
+  providerName: string;
+  fetch: FetchImplementation;
+  url: string;
+  body: unknown;
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+}): Promise<unknown> {
+  const { provider, providerName } = options;
+  let response: Response;
+  try {
+    response = await options.fetch(options.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...options.headers },
+      body: JSON.stringify(options.body),
+      signal: options.signal,
+    });
+  } catch (cause) {
+    throw new AiProviderRequestError(`${providerName} request could not be completed`, {
+      provider,
+      status: 0,
+      retryable: true,
+      cause,
+    });
+  }
+
+  if (!response.ok) {
+    const responseBody = (await response.text()).slice(0, MAX_ERROR_BODY_LENGTH);
+    throw new AiProviderRequestError(
+      extractApiErrorMessage(
+        responseBody,
+        `${providerName} request failed with HTTP ${response.status}`,
+      ),
+      { provider, status: response.status, responseBody },
+    );
+  }
+
+  try {
+    return await response.json();
+  } catch (cause) {
+    throw new AiProviderResponseError(`${providerName} returned invalid response JSON`, {
+      provider,
+      cause,
+    });
+  }
+}
+
+/** Local and OpenAI-compatible embedding models only accept text. */
+export function rejectImageEmbedding(providerName: string): never {
+  throw new AiDataValidationError(
+    `${providerName} embeddings are text-only; embed the photo's analysis instead`,
+    "image",
+  );
+}
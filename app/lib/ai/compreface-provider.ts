@@ -0,0 +1,124 @@
+import { AiConfigurationError, AiProviderResponseError } from "./errors";
+import {
+  bindFetch,
+  encodeBase64,
+  isObject,
+  postProviderJson,
+  readEmbeddingVector,
+  type FetchImplementation,
+} from "./analysis-contract";
+import type {
+  DetectedFace,
+  DetectFacesInput,
+  FaceBox,
+  FaceDetectionProvider,
+} from "./types";
+
+/** CompreFace's `calculator` plugin ships FaceNet, which returns 128 values. */
+export const DEFAULT_COMPREFACE_EMBEDDING_DIMENSIONS = 128;
+export const DEFAULT_COMPREFACE_MIN_CONFIDENCE = 0.8;
+
+const PROVIDER_NAME = "CompreFace";
+
+export interface CompreFaceFaceDetectionProviderOptions {
+  /** Server root, e.g. `http://compreface.lan:8000`. */
+  apiBaseUrl: string;
+  /** Key of a CompreFace detection service. */
+  apiKey: string;
+  fetch?: FetchImplementation;
+  embeddingDimensions?: number;
+  /** Faces the detector is less sure about are ignored. */
+  minConfidence?: number;
+  matchThreshold?: number;
+}
+
+const compreFaceResponseError = (
+  message: string,
+  options?: { finishReason?: string; cause?: unknown },
+) => new AiProviderResponseError(message, { provider: "compreface", ...options });
+
+function clampFraction(value: number): number {
+  return Number(Math.min(1, Math.max(0, value)).toFixed(4));
+}
+
+function readBox(value: unknown, width: number, height: number): (FaceBox & { probability: number }) | null {
+  if (!isObject(value)) return null;
+  const { x_min: left, y_min: top, x_max: right, y_max: bottom, probability } = value;
+  if (
+    typeof left !== "number" || typeof top !== "number" ||
+    typeof right !== "number" || typeof bottom !== "number" ||
+    right <= left || bottom <= top
+  ) {
+    return null;
+  }
+  return {
+    x: clampFraction(left / width),
+    y: clampFraction(top / height),
+    width: clampFraction((right - left) / width),
+    height: clampFraction((bottom - top) / height),
+    probability: typeof probability === "number" ? clampFraction(probability) : 1,
+  };
+}
+
+/**
+ * Detects and embeds faces with a self-hosted CompreFace server, so portraits
+ * are never sent to a hosted model. Only the detection service is used;
+ * recognition collections stay empty because VictoPress clusters the faces.
+ */
+export class CompreFaceFaceDetectionProvider implements FaceDetectionProvider {
+  readonly name = "compreface";
+  readonly model: string;
+  readonly embeddingDimensions: number;
+  readonly matchThreshold: number;
+
+  private readonly apiBaseUrl: string;
+  private readonly apiKey: string;
+  private readonly fetchImplementation: FetchImplementation;
+  private readonly minConfidence: number;
+
+  constructor(options: CompreFaceFaceDetectionProviderOptions) {
+    this.apiBaseUrl = options.apiBaseUrl?.trim().replace(/\/+$/, "") ?? "";
+    this.apiKey = options.apiKey?.trim() ?? "";
+    if (!this.apiBaseUrl || !this.apiKey) {
+      throw new AiConfigurationError("CompreFace needs COMPREFACE_BASE_URL and COMPREFACE_API_KEY");
+    }
+    this.fetchImplementation = bindFetch(options.fetch);
+    this.embeddingDimensions =
+      options.embeddingDimensions ?? DEFAULT_COMPREFACE_EMBEDDING_DIMENSIONS;
+    this.model = `compreface-calculator:${this.embeddingDimensions}`;
+    this.minConfidence = options.minConfidence ?? DEFAULT_COMPREFACE_MIN_CONFIDENCE;
+    this.matchThreshold = options.matchThreshold ?? 0.7;
+  }
+
+  async detectFaces(input: DetectFacesInput): Promise<DetectedFace[]> {
+    const response = await postProviderJson({
+      provider: "compreface",
+      providerName: PROVIDER_NAME,
+      fetch: this.fetchImplementation,
+      url: `${this.apiBaseUrl}/api/v1/detection/detect?face_plugins=calculator&det_prob_threshold=${this.minConfidence}`,
+      body: { file: encodeBase64(input.image) },
+      headers: { "x-api-key": this.apiKey },
+      signal: input.signal,
+    });
+    if (!isObject(response) || !Array.isArray(response.result)) {
+      throw compreFaceResponseError("CompreFace response did not contain a result list");
+    }
+
+    return response.result.flatMap((face): DetectedFace[] => {
+      if (!isObject(face)) return [];
+      const box = readBox(face.box, input.width, input.height);
+      if (!box || box.probability < this.minConfidence) return [];
+      const { probability, ...faceBox } = box;
+      return [{
+        box: faceBox,
+        confidence: probability,
+        embedding: readEmbeddingVector(
+          face.embedding,
+          this.embeddingDimensions,
+          PROVIDER_NAME,
+          compreFaceResponseError,
+        ),
+      }];
+    });
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * Groups exact and near-duplicate photos. Exact duplicates share the canonical
+ * source fingerprint; near duplicates need a close perceptual hash and, when
+ * both photos are embedded, a close embedding as well.
+ */
+
+/** dHash compares neighbours in a 9×8 grayscale thumbnail: 64 bits. */
+export const DIFFERENCE_HASH_WIDTH = 9;
+export const DIFFERENCE_HASH_HEIGHT = 8;
+
+/** Bits two hashes may differ by while still looking like the same frame. */
+export const DEFAULT_MAX_HASH_DISTANCE = 10;
+/** Without embeddings the hash alone must be much closer. */
+export const DEFAULT_HASH_ONLY_DISTANCE = 4;
+export const DEFAULT_MIN_EMBEDDING_SIMILARITY = 0.92;
+/** Without hashes, e.g. before a scan, only near-identical embeddings match. */
+export const DEFAULT_EMBEDDING_ONLY_SIMILARITY = 0.98;
+/** Frames taken this close together by one camera are reported as a burst. */
+export const BURST_WINDOW_MS = 5_000;
+
+export interface DuplicateCandidate {
+  path: string;
+  galleryPath: string;
+  gallerySlug: string;
+  filename: string;
+  sourceFingerprint?: string;
+  /** 16 hex characters from `differenceHashFromPixels`. */
+  perceptualHash?: string;
+  /** Embedding values, compared with cosine similarity. */
+  embedding?: readonly number[];
+  width?: number;
+  height?: number;
+  rating?: number;
+  dateTaken?: string;
+  camera?: string;
+  hidden: boolean;
+  size?: number;
+}
+
+export type DuplicateGroupKind = "exact" | "near" | "burst";
+
+export interface DuplicateGroup {
+  id: string;
+  kind: DuplicateGroupKind;
+  /** Best frame first. */
+  photos: DuplicateCandidate[];
+  keepPath: string;
+}
+
+export interface DuplicateDetectionOptions {
+  maxHashDistance?: number;
+  hashOnlyDistance?: number;
+  minEmbeddingSimilarity?: number;
+  embeddingOnlySimilarity?: number;
+}
+
+/**
+ * Builds a difference hash from RGBA pixels of a 9×8 thumbnail. Each bit says
+ * whether a pixel is brighter than its right neighbour, which survives
+ * re-encoding, resizing and small exposure changes.
+ */
+export function differenceHashFromPixels(rgba: ArrayLike<number>): string {
+  const expected = DIFFERENCE_HASH_WIDTH * DIFFERENCE_HASH_HEIGHT * 4;
+  if (rgba.length !== expected) {
+    throw new Error(`Difference hash needs ${expected} RGBA values, got ${rgba.length}`);
+  }
+  const luma = (pixel: number) =>
+    0.299 * rgba[pixel * 4] + 0.587 * rgba[pixel * 4 + 1] + 0.114 * rgba[pixel * 4 + 2];
+
+  let hash = "";
+  for (let row = 0; row < DIFFERENCE_HASH_HEIGHT; row += 1) {
+    let nibble = 0;
+    for (let column = 0; column < DIFFERENCE_HASH_WIDTH - 1; column += 1) {
+      const pixel = row * DIFFERENCE_HASH_WIDTH + column;
+      nibble = (nibble << 1) | (luma(pixel) > luma(pixel + 1) ? 1 : 0);
+      if (column % 4 === 3) {
+        hash += nibble.toString(16);
+        nibble = 0;
+      }
+    }
+  }
+  return hash;
+}
+
+export function hammingDistance(left: string, right: string): number {
+  if (left.length !== right.length) return Number.POSITIVE_INFINITY;
+  let distance = 0;
+  for (let index = 0; index < left.length; index += 1) {
+    let bits = parseInt(left[index], 16) ^ parseInt(right[index], 16);
+    while (bits) {
+      distance += bits & 1;
+      bits >>= 1;
+    }
+  }
+  return distance;
+}
+
+function cosine(left: readonly number[], right: readonly number[]): number {
+  if (left.length !== right.length || left.length === 0) return 0;
+  let dot = 0;
+  let leftMagnitude = 0;
+  let rightMagnitude = 0;
+  for (let index = 0; index < left.length; index += 1) {
+    dot += left[index] * right[index];
+    leftMagnitude += left[index] * left[index];
+    rightMagnitude += right[index] * right[index];
+  }
+  return leftMagnitude && rightMagnitude ? dot / Math.sqrt(leftMagnitude * rightMagnitude) : 0;
+}
+
+function isNearDuplicate(
+  left: DuplicateCandidate,
+  right: DuplicateCandidate,
+  options: Required<DuplicateDetectionOptions>,
+): boolean {
+  const hasEmbeddings = Boolean(left.embedding && right.embedding);
+  if (left.perceptualHash && right.perceptualHash) {
+    // The cheap hash comparison rules out almost every pair first.
+    const distance = hammingDistance(left.perceptualHash, right.perceptualHash);
+    if (!hasEmbeddings) return distance <= options.hashOnlyDistance;
+    return distance <= options.maxHashDistance &&
+      cosine(left.embedding!, right.embedding!) >= options.minEmbeddingSimilarity;
+  }
+  return hasEmbeddings && cosine(left.embedding!, right.embedding!) >= options.embeddingOnlySimilarity;
+}
+
+/**
+ * The frame to keep: highest rating, then most pixels, then a visible photo,
+ * then the largest file. Ties fall back to the path so the choice is stable.
+ */
+export function compareDuplicateKeepers(left: DuplicateCandidate, right: DuplicateCandidate): number {
+  const pixels = (photo: DuplicateCandidate) => (photo.width ?? 0) * (photo.height ?? 0);
+  return (
+    (right.rating ?? 0) - (left.rating ?? 0) ||
+    pixels(right) - pixels(left) ||
+    Number(left.hidden) - Number(right.hidden) ||
+    (right.size ?? 0) - (left.size ?? 0) ||
+    left.path.localeCompare(right.path)
+  );
+}
+
+function isBurst(photos: readonly DuplicateCandidate[]): boolean {
+  const times = photos.map((photo) => (photo.dateTaken ? Date.parse(photo.dateTaken) : Number.NaN));
+  if (times.some(Number.isNaN)) return false;
+  const cameras = new Set(photos.map((photo) => photo.camera ?? ""));
+  return cameras.size === 1 && Math.max(...times) - Math.min(...times) <= BURST_WINDOW_MS;
+}
+
+/**
+ * Groups photos transitively: if A matches B and B matches C, all three are
+ * one group. Comparison is pairwise; the hash check rules out most pairs
+ * before any embedding is compared.
+ */
+export function groupDuplicatePhotos(
+  candidates: readonly DuplicateCandidate[],
+  options: DuplicateDetectionOptions = {},
+): DuplicateGroup[] {
+  const settings: Required<DuplicateDetectionOptions> = {
+    maxHashDistance: options.maxHashDistance ?? DEFAULT_MAX_HASH_DISTANCE,
+    hashOnlyDistance: options.hashOnlyDistance ?? DEFAULT_HASH_ONLY_DISTANCE,
+    minEmbeddingSimilarity: options.minEmbeddingSimilarity ?? DEFAULT_MIN_EMBEDDING_SIMILARITY,
+    embeddingOnlySimilarity: options.embeddingOnlySimilarity ?? DEFAULT_EMBEDDING_ONLY_SIMILARITY,
+  };
+  const photos = [...candidates].sort((left, right) => left.path.localeCompare(right.path));
+  const parent = photos.map((_, index) => index);
+  const find = (index: number): number => {
+    while (parent[index] !== index) {
+      parent[index] = parent[parent[index]];
+      index = parent[index];
+    }
+    return index;
+  };
+  const union = (left: number, right: number) => {
+    const leftRoot = find(left);
+    const rightRoot = find(right);
+    if (leftRoot !== rightRoot) parent[Math.max(leftRoot, rightRoot)] = Math.min(leftRoot, rightRoot);
+  };
+
+  const byFingerprint = new Map<string, number>();
+  photos.forEach((photo, index) => {
+    if (!photo.sourceFingerprint) return;
+    const first = byFingerprint.get(photo.sourceFingerprint);
+    if (first === undefined) byFingerprint.set(photo.sourceFingerprint, index);
+    else union(first, index);
+  });
+
+  for (let left = 0; left < photos.length; left += 1) {
+    for (let right = left + 1; right < photos.length; right += 1) {
+      if (find(left) === find(right)) continue;
+      if (isNearDuplicate(photos[left], photos[right], settings)) union(left, right);
+    }
+  }
+
+  const members = new Map<number, DuplicateCandidate[]>();
+  photos.forEach((photo, index) => {
+    const root = find(index);
+    members.set(root, [...(members.get(root) ?? []), photo]);
+  });
+
+  return Array.from(members.values())
+    .filter((group) => group.length > 1)
+    .map((group): DuplicateGroup => {
+      const ranked = [...group].sort(compareDuplicateKeepers);
+      const fingerprints = new Set(group.map((photo) => photo.sourceFingerprint));
+      const kind: DuplicateGroupKind =
+        fingerprints.size === 1 && !fingerprints.has(undefined)
+          ? "exact"
+          : isBurst(group)
+            ? "burst"
+            : "near";
+      return {
+        id: group[0].path,
+        kind,
+        photos: ranked,
+        keepPath: ranked[0].path,
+      };
+    })
+    .sort((left, right) => right.photos.length - left.photos.length || left.id.localeCompare(right.id));
+}
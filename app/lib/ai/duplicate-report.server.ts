@@ -0,0 +1,231 @@
+/**
+ * Admin report of exact and near-duplicate photos.
+ *
+ * Perceptual hashes are computed in resumable batches and cached by source
+ * fingerprint, so re-running the report only decodes new or changed photos.
+ * Embeddings come from the existing vector index; no provider is called.
+ */
+
+import {
+  getContentIndex,
+  getStorage,
+  readPhotoAnalysisImage,
+  usesPhotoRendition,
+} from "../content-engine";
+import type { GalleryDataEntry, GalleryPhotoEntry } from "../content-engine/content-index";
+import type { StorageAdapter } from "../content-engine/types";
+import { computeImageDifferenceHash } from "../image-optimizer.server";
+import {
+  groupDuplicatePhotos,
+  type DuplicateCandidate,
+  type DuplicateGroup,
+} from "./duplicate-detection";
+import { AiRecordStore } from "./record-store";
+import type { PhotoEmbeddingReference } from "./types";
+import { createPhotoVectorIndex, type PhotoVectorEnv } from "./vector-index";
+
+export const PHOTO_PERCEPTUAL_HASHES_KEY = ".victopress/ai/perceptual-hashes.json";
+const PERCEPTUAL_HASHES_VERSION = 1 as const;
+/** Cloudflare Vectorize returns at most 20 vectors per lookup. */
+const VECTOR_LOOKUP_BATCH_SIZE = 20;
+
+interface PerceptualHashFile {
+  version: typeof PERCEPTUAL_HASHES_VERSION;
+  updatedAt: string;
+  /** Keyed by source fingerprint, or by path and mtime for unfingerprinted files. */
+  hashes: Record<string, string>;
+}
+
+export interface DuplicateReportContext {
+  cloudflare?: { env?: unknown };
+}
+
+export interface PerceptualHashScanResult {
+  offset: number;
+  nextOffset: number;
+  total: number;
+  hashed: number;
+  /** Photos that could not be decoded here, e.g. outside the Workers runtime. */
+  unavailable: number;
+  done: boolean;
+}
+
+export type DuplicateReportPhoto = Omit<DuplicateCandidate, "embedding">;
+
+export interface DuplicateReport {
+  /** Embedding values stay on the server. */
+  groups: Array<Omit<DuplicateGroup, "photos"> & { photos: DuplicateReportPhoto[] }>;
+  total: number;
+  hashed: number;
+  embedded: number;
+}
+
+function envRecord(context: DuplicateReportContext): Record<string, unknown> {
+  return (context.cloudflare?.env ?? {}) as Record<string, unknown>;
+}
+
+function hashKey(photo: GalleryPhotoEntry): string {
+  return photo.sourceFingerprint ?? `${photo.path}@${photo.lastModified ?? ""}`;
+}
+
+async function readHashFile(storage: StorageAdapter): Promise<PerceptualHashFile> {
+  const raw = await storage.getText(PHOTO_PERCEPTUAL_HASHES_KEY);
+  if (raw) {
+    try {
+      const parsed = JSON.parse(raw) as Partial<PerceptualHashFile>;
+      if (parsed.version === PERCEPTUAL_HASHES_VERSION && parsed.hashes && typeof parsed.hashes === "object") {
+        return parsed as PerceptualHashFile;
+      }
+    } catch {
+      // A corrupt cache is rebuilt by the next scan.
+    }
+  }
+  return { version: PERCEPTUAL_HASHES_VERSION, updatedAt: new Date(0).toISOString(), hashes: {} };
+}
+
+/** Physical photos only; logical memberships point at a file listed elsewhere. */
+function physicalPhotos(galleries: readonly GalleryDataEntry[]) {
+  return galleries
+    .flatMap((gallery) =>
+      gallery.photos
+        .filter((photo) => !photo.isReference)
+        .map((photo) => ({ gallery, photo })),
+    )
+    .sort((left, right) => left.photo.path.localeCompare(right.photo.path));
+}
+
+/** Hashes the next slice of the library; already-hashed photos are skipped. */
+export async function scanPhotoPerceptualHashes(
+  context: DuplicateReportContext,
+  offset: number,
+  limit: number,
+): Promise<PerceptualHashScanResult> {
+  const storage = getStorage(context as Parameters<typeof getStorage>[0]);
+  const content = await getContentIndex(storage);
+  const photos = physicalPhotos(content.galleryData);
+  const batch = photos.slice(offset, offset + Math.max(1, limit));
+  const file = await readHashFile(storage);
+  let hashed = 0;
+  let unavailable = 0;
+
+  for (const { photo } of batch) {
+    const key = hashKey(photo);
+    if (file.hashes[key]) continue;
+    // HEIC, AVIF and RAW originals are hashed through their JPEG rendition
+    const bytes = usesPhotoRendition(photo.path)
+      ? (await readPhotoAnalysisImage(storage, photo.path))?.bytes
+      : await storage.get(photo.path);
+    const hash = bytes ? await computeImageDifferenceHash(bytes) : null;
+    if (!hash) {
+      unavailable += 1;
+      continue;
+    }
+    file.hashes[key] = hash;
+    hashed += 1;
+  }
+
+  if (hashed > 0) {
+    file.updatedAt = new Date().toISOString();
+    await storage.put(PHOTO_PERCEPTUAL_HASHES_KEY, JSON.stringify(file), "application/json");
+  }
+  const nextOffset = offset + batch.length;
+  return {
+    offset,
+    nextOffset,
+    total: photos.length,
+    hashed,
+    unavailable,
+    done: nextOffset >= photos.length,
+  };
+}
+
+/**
+ * Loads the stored vectors of the most common embedding space. Vectors from
+ * different models cannot be compared, so photos embedded elsewhere are
+ * matched by hash alone until they are analyzed again.
+ */
+async function loadEmbeddings(
+  context: DuplicateReportContext,
+  storage: StorageAdapter,
+  embeddings: ReadonlyMap<string, PhotoEmbeddingReference>,
+): Promise<Map<string, number[]>> {
+  const spaces = new Map<string, Array<[string, PhotoEmbeddingReference]>>();
+  for (const entry of embeddings) {
+    const space = `${entry[1].model}:${entry[1].dimensions}`;
+    spaces.set(space, [...(spaces.get(space) ?? []), entry]);
+  }
+  const [modelSpace, entries] = Array.from(spaces.entries())
+    .sort((left, right) => right[1].length - left[1].length)[0] ?? [];
+  const values = new Map<string, number[]>();
+  if (!modelSpace || !entries) return values;
+
+  const index = createPhotoVectorIndex(envRecord(context) as PhotoVectorEnv, storage, {
+    dimensions: entries[0][1].dimensions,
+    defaultModelSpace: modelSpace,
+    defaultNamespace: "photos",
+  });
+  const pathByVectorId = new Map(entries.map(([path, embedding]) => [embedding.vectorId, path]));
+  const vectorIds = Array.from(pathByVectorId.keys());
+  for (let start = 0; start < vectorIds.length; start += VECTOR_LOOKUP_BATCH_SIZE) {
+    const vectors = await index.getByIds(vectorIds.slice(start, start + VECTOR_LOOKUP_BATCH_SIZE), {
+      includeMetadata: false,
+      includeValues: true,
+    });
+    for (const vector of vectors) {
+      const path = pathByVectorId.get(vector.id);
+      if (path && vector.values) values.set(path, vector.values);
+    }
+  }
+  return values;
+}
+
+export async function getDuplicateReport(context: DuplicateReportContext): Promise<DuplicateReport> {
+  const storage = getStorage(context as Parameters<typeof getStorage>[0]);
+  const content = await getContentIndex(storage);
+  const photos = physicalPhotos(content.galleryData);
+  const hashes = (await readHashFile(storage)).hashes;
+
+  const recordStore = new AiRecordStore(storage);
+  const records = await Promise.all(
+    content.galleryData.map((gallery) => recordStore.listGalleryRecords(gallery.slug)),
+  );
+  const embeddingReferences = new Map<string, PhotoEmbeddingReference>();
+  for (const record of records.flat()) {
+    if (record.embedding?.status === "ready") {
+      embeddingReferences.set(record.asset.sourcePath, record.embedding);
+    }
+  }
+  let embeddings = new Map<string, number[]>();
+  try {
+    embeddings = await loadEmbeddings(context, storage, embeddingReferences);
+  } catch (error) {
+    // The report still finds exact and hash matches without the vector index.
+    console.warn("[Duplicates] Could not load photo embeddings", error);
+  }
+
+  const candidates = photos.map(({ gallery, photo }): DuplicateCandidate => ({
+    path: photo.path,
+    galleryPath: gallery.path,
+    gallerySlug: gallery.slug,
+    filename: photo.filename,
+    sourceFingerprint: photo.sourceFingerprint,
+    perceptualHash: hashes[hashKey(photo)],
+    embedding: embeddings.get(photo.path),
+    width: photo.exif?.width,
+    height: photo.exif?.height,
+    rating: photo.exif?.rating,
+    dateTaken: photo.dateTaken ?? photo.exif?.dateTaken,
+    camera: photo.exif?.camera,
+    hidden: photo.hidden === true,
+  }));
+
+  return {
+    groups: groupDuplicatePhotos(candidates).map((group) => ({
+      ...group,
+      photos: group.photos.map(({ embedding: _embedding, ...photo }) => photo),
+    })),
+    total: photos.length,
+    hashed: candidates.filter((candidate) => candidate.perceptualHash).length,
+    embedded: embeddings.size,
+  };
+}
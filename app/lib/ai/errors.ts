@@ -4,7 +4,9 @@ export type AiErrorCode =
   | "AI_VALIDATION_ERROR"
   | "AI_STORAGE_ERROR"
   | "GEMINI_REQUEST_ERROR"
-  | "GEMINI_RESPONSE_ERROR";
+  | "GEMINI_RESPONSE_ERROR"
+  | "AI_PROVIDER_REQUEST_ERROR"
+  | "AI_PROVIDER_RESPONSE_ERROR";
 
 export class AiCoreError extends Error {
   readonly code: AiErrorCode;
@@ -79,3 +81,46 @@ export class GeminiResponseError extends AiCoreError {
     this.finishReason = options?.finishReason;
   }
 }
+
+/** HTTP failures from OpenAI-compatible and Ollama endpoints. */
+export class AiProviderRequestError extends AiCoreError {
+  readonly provider: string;
+  readonly status: number;
+  readonly retryable: boolean;
+  readonly responseBody?: string;
+
+  constructor(
+    message: string,
+    options: {
+      provider: string;
+      status: number;
+      responseBody?: string;
+      retryable?: boolean;
+      cause?: unknown;
+    },
+  ) {
+    super("AI_PROVIDER_REQUEST_ERROR", message, { cause: options.cause });
+    this.name = "AiProviderRequestError";
+    this.provider = options.provider;
+    this.status = options.status;
+    this.retryable =
+      options.retryable ??
+      (options.status === 408 || options.status === 429 || options.status >= 500);
+    this.responseBody = options.responseBody;
+  }
+}
+
+export class AiProviderResponseError extends AiCoreError {
+  readonly provider: string;
+  readonly finishReason?: string;
+
+  constructor(
+    message: string,
+    options: { provider: string; finishReason?: string; cause?: unknown },
+  ) {
+    super("AI_PROVIDER_RESPONSE_ERROR", message, { cause: options.cause });
+    this.name = "AiProviderResponseError";
+    this.provider = options.provider;
+    this.finishReason = options.finishReason;
+  }
+}
@@ -0,0 +1,270 @@
+/**
+ * Automatic gallery assignment from AI suggestions.
+ *
+ * Rules run after every analysis batch and can be previewed across the whole
+ * library without changing anything. Every automatic decision is logged with
+ * enough state to undo it.
+ */
+
+import {
+  assignPhotosToGalleryInIndex,
+  getContentIndex,
+  getStorage,
+  unassignPhotosFromGalleryInIndex,
+} from "../content-engine";
+import type { GalleryDataEntry } from "../content-engine/content-index";
+import type { StorageAdapter } from "../content-engine/types";
+import { AiDataValidationError } from "./errors";
+import {
+  classificationHintExclusions,
+  evaluateGalleryRules,
+  normalizeGalleryRule,
+  readGalleryRuleLog,
+  readGalleryRules,
+  writeGalleryRuleLog,
+  writeGalleryRules,
+  type GalleryAutoAcceptRule,
+  type GalleryRuleDecision,
+  type GalleryRuleEvaluation,
+} from "./gallery-rules";
+import { enqueuePhotoMetadataWritebacks } from "./photo-metadata-writeback.server";
+import { AiRecordStore } from "./record-store";
+import { readPhotoAiSearchIndex, writePhotoAiSearchIndex } from "./search-index";
+import type { PhotoAiRecord } from "./types";
+
+/** The dashboard lists this many recent decisions. */
+const DECISION_LOG_PREVIEW = 100;
+
+export interface GalleryRulesContext {
+  cloudflare?: {
+    env?: unknown;
+    ctx?: { waitUntil?: (promise: Promise<unknown>) => void };
+  };
+}
+
+export interface GalleryRulesDashboard {
+  galleries: Array<{
+    slug: string;
+    title: string;
+    classificationHint?: string;
+    hintExclusions: string[];
+  }>;
+  rules: GalleryAutoAcceptRule[];
+  decisions: GalleryRuleDecision[];
+}
+
+export interface GalleryRulesRun {
+  dryRun: boolean;
+  evaluated: number;
+  accepted: GalleryRuleEvaluation[];
+  blocked: Record<"confidence" | "required-tags" | "excluded", number>;
+  /** Accepted suggestions whose membership could not be added. */
+  errors: Array<{ photoPath: string; gallerySlug: string; error: string }>;
+}
+
+function storageFor(context: GalleryRulesContext): StorageAdapter {
+  return getStorage(context as Parameters<typeof getStorage>[0]);
+}
+
+/** Galleries that can receive photos directly. */
+function assignableGalleries(galleries: readonly GalleryDataEntry[]): GalleryDataEntry[] {
+  return galleries.filter(
+    (gallery) => !(gallery.isParentGallery && gallery.hasChildren) && !gallery.query,
+  );
+}
+
+async function syncSearchSuggestion(
+  storage: StorageAdapter,
+  records: readonly PhotoAiRecord[],
+): Promise<void> {
+  const index = await readPhotoAiSearchIndex(storage);
+  let changed = false;
+  for (const record of records) {
+    const document = index.documents[record.asset.assetId];
+    if (!document) continue;
+    document.gallerySuggestions = (record.analysis?.gallerySuggestions ?? []).map((suggestion) => ({
+      slug: suggestion.gallerySlug,
+      confidence: suggestion.confidence,
+      status: suggestion.status,
+      alreadyCurrent: suggestion.alreadyCurrent,
+    }));
+    changed = true;
+  }
+  if (changed) await writePhotoAiSearchIndex(storage, index);
+}
+
+export async function getGalleryRulesDashboard(
+  context: GalleryRulesContext,
+): Promise<GalleryRulesDashboard> {
+  const storage = storageFor(context);
+  const [content, rules, decisions] = await Promise.all([
+    getContentIndex(storage),
+    readGalleryRules(storage),
+    readGalleryRuleLog(storage),
+  ]);
+  return {
+    galleries: assignableGalleries(content.galleryData)
+      .map((gallery) => ({
+        slug: gallery.slug,
+        title: gallery.title,
+        classificationHint: gallery.classificationHint,
+        hintExclusions: classificationHintExclusions(gallery.classificationHint),
+      }))
+      .sort((left, right) => left.title.localeCompare(right.title)),
+    rules: Object.values(rules).sort((left, right) => left.gallerySlug.localeCompare(right.gallerySlug)),
+    decisions: decisions.slice(0, DECISION_LOG_PREVIEW),
+  };
+}
+
+export async function saveGalleryRule(
+  context: GalleryRulesContext,
+  input: Partial<GalleryAutoAcceptRule> & { gallerySlug: string },
+): Promise<GalleryAutoAcceptRule> {
+  const storage = storageFor(context);
+  const content = await getContentIndex(storage);
+  const rule = normalizeGalleryRule(input);
+  if (!assignableGalleries(content.galleryData).some((gallery) => gallery.slug === rule.gallerySlug)) {
+    throw new AiDataValidationError("This gallery cannot receive photos directly", "gallerySlug");
+  }
+  const rules = await readGalleryRules(storage);
+  rules[rule.gallerySlug] = rule;
+  await writeGalleryRules(storage, rules);
+  return rule;
+}
+
+/**
+ * Runs the enabled rules over the analyzed photos, or only over `paths` when
+ * given. A dry run returns the same report and changes nothing.
+ */
+export async function applyGalleryRules(
+  context: GalleryRulesContext,
+  options: { dryRun?: boolean; paths?: readonly string[] } = {},
+): Promise<GalleryRulesRun> {
+  const storage = storageFor(context);
+  const dryRun = options.dryRun === true;
+  const rules = await readGalleryRules(storage);
+  const run: GalleryRulesRun = {
+    dryRun,
+    evaluated: 0,
+    accepted: [],
+    blocked: { confidence: 0, "required-tags": 0, excluded: 0 },
+    errors: [],
+  };
+  if (!Object.values(rules).some((rule) => rule.enabled)) return run;
+
+  const content = await getContentIndex(storage);
+  const recordStore = new AiRecordStore(storage);
+  const scope = options.paths ? new Set(options.paths) : null;
+  const records = (
+    await Promise.all(content.galleryData.map((gallery) => recordStore.listGalleryRecords(gallery.slug)))
+  ).flat().filter((record) => !scope || scope.has(record.asset.sourcePath));
+  const assignable = new Map(
+    assignableGalleries(content.galleryData).map((gallery) => [gallery.slug, gallery]),
+  );
+  const evaluations = evaluateGalleryRules(
+    records,
+    rules,
+    new Map(content.galleryData.map((gallery) => [gallery.slug, gallery.classificationHint])),
+  ).filter((evaluation) => assignable.has(evaluation.gallerySlug));
+
+  run.evaluated = evaluations.length;
+  for (const evaluation of evaluations) {
+    if (evaluation.blockedBy) run.blocked[evaluation.blockedBy] += 1;
+  }
+  const accepted = evaluations.filter((evaluation) => evaluation.accepted);
+  if (dryRun || accepted.length === 0) {
+    run.accepted = accepted;
+    return run;
+  }
+
+  const bySlug = new Map<string, GalleryRuleEvaluation[]>();
+  for (const evaluation of accepted) {
+    bySlug.set(evaluation.gallerySlug, [...(bySlug.get(evaluation.gallerySlug) ?? []), evaluation]);
+  }
+  const decisions: GalleryRuleDecision[] = [];
+  const reviewed: PhotoAiRecord[] = [];
+  const addedPaths: string[] = [];
+  const appliedAt = new Date().toISOString();
+
+  for (const [gallerySlug, group] of bySlug) {
+    const existing = new Set(assignable.get(gallerySlug)!.photos.map((photo) => photo.path));
+    const result = await assignPhotosToGalleryInIndex(
+      storage,
+      group.map((evaluation) => evaluation.photoPath),
+      gallerySlug,
+    );
+    const failed = new Map(result.errors.map((error) => [error.path, error.error]));
+    for (const evaluation of group) {
+      const error = failed.get(evaluation.photoPath);
+      if (error) {
+        run.errors.push({ photoPath: evaluation.photoPath, gallerySlug, error });
+        continue;
+      }
+      reviewed.push(await recordStore.reviewGallerySuggestion(
+        evaluation.sourceGallerySlug,
+        evaluation.assetId,
+        gallerySlug,
+        "accepted",
+      ));
+      const membershipAdded = !existing.has(evaluation.photoPath);
+      if (membershipAdded) addedPaths.push(evaluation.photoPath);
+      decisions.push({
+        id: `${appliedAt}:${evaluation.assetId}:${gallerySlug}`,
+        assetId: evaluation.assetId,
+        photoPath: evaluation.photoPath,
+        sourceGallerySlug: evaluation.sourceGallerySlug,
+        gallerySlug,
+        confidence: evaluation.confidence,
+        appliedAt,
+        membershipAdded,
+      });
+      run.accepted.push(evaluation);
+    }
+  }
+
+  if (decisions.length > 0) {
+    await writeGalleryRuleLog(storage, [...decisions, ...(await readGalleryRuleLog(storage))]);
+    await syncSearchSuggestion(storage, reviewed);
+  }
+  if (addedPaths.length > 0) {
+    await enqueuePhotoMetadataWritebacks(context, addedPaths, "gallery-membership");
+  }
+  return run;
+}
+
+/**
+ * Reverts one automatic decision. The suggestion is marked rejected so the
+ * rules do not accept it again on the next run.
+ */
+export async function undoGalleryRuleDecision(
+  context: GalleryRulesContext,
+  decisionId: string,
+): Promise<GalleryRuleDecision> {
+  const storage = storageFor(context);
+  const decisions = await readGalleryRuleLog(storage);
+  const decision = decisions.find((candidate) => candidate.id === decisionId);
+  if (!decision) throw new AiDataValidationError("Automatic decision was not found", "decisionId");
+  if (decision.undoneAt) return decision;
+
+  if (decision.membershipAdded) {
+    await unassignPhotosFromGalleryInIndex(storage, [decision.photoPath], decision.gallerySlug);
+  }
+  try {
+    const record = await new AiRecordStore(storage).reviewGallerySuggestion(
+      decision.sourceGallerySlug,
+      decision.assetId,
+      decision.gallerySlug,
+      "rejected",
+    );
+    await syncSearchSuggestion(storage, [record]);
+  } catch (error) {
+    // A re-analyzed or deleted photo no longer has this suggestion to reject.
+    if (!(error instanceof AiDataValidationError)) throw error;
+  }
+  decision.undoneAt = new Date().toISOString();
+  await writeGalleryRuleLog(storage, decisions);
+  if (decision.membershipAdded) {
+    await enqueuePhotoMetadataWritebacks(context, [decision.photoPath], "gallery-membership");
+  }
+  return decision;
+}
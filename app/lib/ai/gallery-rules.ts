@@ -0,0 +1,246 @@
+import type { StorageAdapter } from "../content-engine/types";
+import { AiDataValidationError } from "./errors";
+import type { PhotoAiRecord } from "./types";
+
+export const GALLERY_RULES_KEY = ".victopress/ai/gallery-rules.json";
+export const GALLERY_RULE_LOG_KEY = ".victopress/ai/gallery-rule-log.json";
+const GALLERY_RULES_VERSION = 1 as const;
+/** Oldest decisions fall off the log; their memberships stay in place. */
+export const MAX_GALLERY_RULE_LOG_ENTRIES = 1_000;
+export const DEFAULT_RULE_MIN_CONFIDENCE = 0.85;
+
+/**
+ * Accepts a gallery's pending AI suggestions without review when they clear
+ * the threshold, carry every required tag and mention no excluded term.
+ */
+export interface GalleryAutoAcceptRule {
+  gallerySlug: string;
+  enabled: boolean;
+  /** 0–1, compared with the suggestion's confidence. */
+  minConfidence: number;
+  requiredTags: string[];
+  /** Matched against the photo's AI tags and caption. */
+  excludedTerms: string[];
+  /** Also excludes the terms listed in "do not" sentences of the gallery's classification hint. */
+  useHintExclusions: boolean;
+  updatedAt: string;
+}
+
+/** One automatic decision; undo removes the membership and rejects the suggestion. */
+export interface GalleryRuleDecision {
+  id: string;
+  assetId: string;
+  photoPath: string;
+  sourceGallerySlug: string;
+  gallerySlug: string;
+  confidence: number;
+  appliedAt: string;
+  /** False when the photo already belonged there, so undo must not remove it. */
+  membershipAdded: boolean;
+  undoneAt?: string;
+}
+
+interface GalleryRulesFile {
+  version: typeof GALLERY_RULES_VERSION;
+  updatedAt: string;
+  rules: Record<string, GalleryAutoAcceptRule>;
+}
+
+interface GalleryRuleLogFile {
+  version: typeof GALLERY_RULES_VERSION;
+  updatedAt: string;
+  decisions: GalleryRuleDecision[];
+}
+
+export type GalleryRuleBlock = "confidence" | "required-tags" | "excluded";
+
+export interface GalleryRuleEvaluation {
+  assetId: string;
+  photoPath: string;
+  sourceGallerySlug: string;
+  gallerySlug: string;
+  confidence: number;
+  accepted: boolean;
+  blockedBy?: GalleryRuleBlock;
+  /** The missing tag or matched exclusion. */
+  term?: string;
+}
+
+const HINT_NEGATION = /^(?:do not|don't|never|avoid|exclude)\b/i;
+const HINT_STOPWORDS = new Set([
+  "a", "an", "and", "any", "are", "as", "at", "be", "because", "by", "for", "from",
+  "image", "images", "in", "inside", "is", "it", "merely", "of", "on", "only", "or",
+  "outside", "photo", "photograph", "photos", "shows", "suggest", "that", "the",
+  "this", "to", "viewed", "when", "with",
+]);
+
+function normalizeTerm(value: string): string {
+  return value.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+function normalizeTerms(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return Array.from(
+    new Set(value.filter((item): item is string => typeof item === "string").map(normalizeTerm).filter(Boolean)),
+  ).slice(0, 50);
+}
+
+/**
+ * Terms from enumerations in the hint's "do not" sentences, e.g. "Do not
+ * suggest it merely because the image shows travellers, stations, or roads".
+ * Only lists of three or more are read, so ordinary prose is left alone.
+ */
+export function classificationHintExclusions(hint: string | undefined): string[] {
+  if (!hint) return [];
+  const terms = new Set<string>();
+  for (const sentence of hint.split(/(?<=[.;!?])\s+|\n+/)) {
+    if (!HINT_NEGATION.test(sentence.trim())) continue;
+    const items = sentence.replace(/[.;!?]+\s*$/, "").split(/,\s*/);
+    if (items.length < 3) continue;
+    items.forEach((item, index) => {
+      const words = normalizeTerm(item)
+        .split(/[^\p{L}\p{N}-]+/u)
+        .filter((word) => word.length > 2 && !HINT_STOPWORDS.has(word));
+      // The listed noun ends the first item ("...shows travellers") and
+      // starts the others ("or vehicles viewed from outside").
+      const term = index === 0 ? words.at(-1) : words[0];
+      if (term) terms.add(term);
+    });
+  }
+  return Array.from(terms);
+}
+
+export function normalizeGalleryRule(
+  input: Partial<GalleryAutoAcceptRule> & { gallerySlug: string },
+  now = new Date().toISOString(),
+): GalleryAutoAcceptRule {
+  const gallerySlug = input.gallerySlug.trim();
+  if (!gallerySlug) throw new AiDataValidationError("Gallery slug cannot be empty", "gallerySlug");
+  const minConfidence = Number(input.minConfidence ?? DEFAULT_RULE_MIN_CONFIDENCE);
+  if (!Number.isFinite(minConfidence) || minConfidence < 0 || minConfidence > 1) {
+    throw new AiDataValidationError("Minimum confidence must be between 0 and 1", "minConfidence");
+  }
+  return {
+    gallerySlug,
+    enabled: input.enabled === true,
+    minConfidence,
+    requiredTags: normalizeTerms(input.requiredTags),
+    excludedTerms: normalizeTerms(input.excludedTerms),
+    useHintExclusions: input.useHintExclusions === true,
+    updatedAt: now,
+  };
+}
+
+function containsTerm(text: string, term: string): boolean {
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(?:^|[^\\p{L}\\p{N}])${escaped}(?:$|[^\\p{L}\\p{N}])`, "u").test(text);
+}
+
+/**
+ * Evaluates every pending suggestion that has an enabled rule. Reviewed
+ * suggestions are never revisited, so an undone decision stays undone.
+ */
+export function evaluateGalleryRules(
+  records: readonly PhotoAiRecord[],
+  rules: Readonly<Record<string, GalleryAutoAcceptRule>>,
+  classificationHints: ReadonlyMap<string, string | undefined> = new Map(),
+): GalleryRuleEvaluation[] {
+  const exclusions = new Map(
+    Object.values(rules).map((rule) => [
+      rule.gallerySlug,
+      Array.from(new Set([
+        ...rule.excludedTerms,
+        ...(rule.useHintExclusions
+          ? classificationHintExclusions(classificationHints.get(rule.gallerySlug))
+          : []),
+      ])),
+    ]),
+  );
+  const evaluations: GalleryRuleEvaluation[] = [];
+
+  for (const record of records) {
+    if (!record.analysis) continue;
+    const tags = new Set(record.analysis.tags.map(normalizeTerm));
+    const text = [record.analysis.caption, ...record.analysis.tags].map(normalizeTerm).join(" · ");
+    for (const suggestion of record.analysis.gallerySuggestions) {
+      const rule = rules[suggestion.gallerySlug];
+      if (!rule?.enabled || suggestion.status !== "pending" || suggestion.alreadyCurrent) continue;
+      const base = {
+        assetId: record.asset.assetId,
+        photoPath: record.asset.sourcePath,
+        sourceGallerySlug: record.asset.gallerySlug,
+        gallerySlug: suggestion.gallerySlug,
+        confidence: suggestion.confidence,
+      };
+      const missingTag = rule.requiredTags.find((tag) => !tags.has(tag));
+      const excluded = exclusions.get(rule.gallerySlug)?.find((term) => containsTerm(text, term));
+      if (suggestion.confidence < rule.minConfidence) {
+        evaluations.push({ ...base, accepted: false, blockedBy: "confidence" });
+      } else if (missingTag) {
+        evaluations.push({ ...base, accepted: false, blockedBy: "required-tags", term: missingTag });
+      } else if (excluded) {
+        evaluations.push({ ...base, accepted: false, blockedBy: "excluded", term: excluded });
+      } else {
+        evaluations.push({ ...base, accepted: true });
+      }
+    }
+  }
+  return evaluations.sort(
+    (left, right) =>
+      left.gallerySlug.localeCompare(right.gallerySlug) ||
+      right.confidence - left.confidence ||
+      left.photoPath.localeCompare(right.photoPath),
+  );
+}
+
+export async function readGalleryRules(
+  storage: StorageAdapter,
+): Promise<Record<string, GalleryAutoAcceptRule>> {
+  const raw = await storage.getText(GALLERY_RULES_KEY);
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw) as Partial<GalleryRulesFile>;
+    if (parsed.version !== GALLERY_RULES_VERSION || !parsed.rules) return {};
+    return parsed.rules;
+  } catch {
+    return {};
+  }
+}
+
+export async function writeGalleryRules(
+  storage: StorageAdapter,
+  rules: Record<string, GalleryAutoAcceptRule>,
+): Promise<void> {
+  const file: GalleryRulesFile = {
+    version: GALLERY_RULES_VERSION,
+    updatedAt: new Date().toISOString(),
+    rules,
+  };
+  await storage.put(GALLERY_RULES_KEY, JSON.stringify(file, null, 2), "application/json");
+}
+
+/** Newest decision first. */
+export async function readGalleryRuleLog(storage: StorageAdapter): Promise<GalleryRuleDecision[]> {
+  const raw = await storage.getText(GALLERY_RULE_LOG_KEY);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw) as Partial<GalleryRuleLogFile>;
+    return parsed.version === GALLERY_RULES_VERSION && Array.isArray(parsed.decisions)
+      ? parsed.decisions
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function writeGalleryRuleLog(
+  storage: StorageAdapter,
+  decisions: readonly GalleryRuleDecision[],
+): Promise<void> {
+  const file: GalleryRuleLogFile = {
+    version: GALLERY_RULES_VERSION,
+    updatedAt: new Date().toISOString(),
+    decisions: decisions.slice(0, MAX_GALLERY_RULE_LOG_ENTRIES),
+  };
+  await storage.put(GALLERY_RULE_LOG_KEY, JSON.stringify(file), "application/json");
+}
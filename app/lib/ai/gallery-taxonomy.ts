@@ -44,7 +44,7 @@ export function buildGalleryTaxonomyEntries(
       path: gallery.path.trim(),
       isProtected: gallery.isProtected,
       isParentGallery: gallery.isParentGallery === true,
-      acceptsDirectPhotos: gallery.isParentGallery !== true,
+      acceptsDirectPhotos: gallery.isParentGallery !== true && !gallery.query,
       photoCount: Math.max(0, Math.trunc(gallery.photoCount)),
     }))
     .sort((a, b) => compareStrings(a.slug, b.slug));
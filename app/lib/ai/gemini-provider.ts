@@ -4,37 +4,44 @@ import {
   GeminiRequestError,
   GeminiResponseError,
 } from "./errors";
-import { serializeGalleryTaxonomyForPrompt } from "./gallery-taxonomy";
+import {
+  ANALYSIS_SYSTEM_INSTRUCTION,
+  bindFetch,
+  buildAnalysisPrompt,
+  buildAnalysisSchema,
+  DEFAULT_MAX_GALLERY_SUGGESTIONS,
+  DEFAULT_PROMPT_VERSION,
+  encodeBase64,
+  extractApiErrorMessage,
+  isObject,
+  MAX_ERROR_BODY_LENGTH,
+  normalizeEmbeddingDimensions,
+  normalizeMaxGallerySuggestions,
+  normalizeModelName,
+  prepareAnalysisInput,
+  readAnalysisOutput,
+  readEmbeddingVector,
+  toUint8Array,
+  type FetchImplementation,
+} from "./analysis-contract";
 import {
   DEFAULT_ANALYSIS_MODEL,
   DEFAULT_EMBEDDING_DIMENSIONS,
   DEFAULT_EMBEDDING_MODEL,
   type AiUsageMetadata,
   type AnalyzePhotoInput,
+  type ConfiguredPhotoAiProvider,
   type EmbedImageInput,
   type EmbeddingResult,
   type EmbedTextInput,
-  type GallerySuggestion,
-  type PhotoAiProvider,
   type PhotoAnalysis,
 } from "./types";
 
+export { encodeBase64 };
+
 const DEFAULT_API_BASE_URL = "https://generativelanguage.googleapis.com/v1beta";
-const DEFAULT_PROMPT_VERSION = "gallery-taxonomy-v2";
-const DEFAULT_MAX_GALLERY_SUGGESTIONS = 8;
-const MAX_ERROR_BODY_LENGTH = 4_000;
-const ANALYSIS_IMAGE_MIME_TYPES = new Set([
-  "image/jpeg",
-  "image/png",
-  "image/webp",
-  "image/heic",
-  "image/heif",
-]);
 const EMBEDDING_IMAGE_MIME_TYPES = new Set(["image/jpeg", "image/png"]);
 
-type FetchImplementation = typeof fetch;
-type JsonObject = Record<string, unknown>;
-
 export interface GeminiPhotoAiProviderOptions {
   apiKey: string;
   fetch?: FetchImplementation;
@@ -47,91 +54,10 @@ export interface GeminiPhotoAiProviderOptions {
   now?: () => string;
 }
 
-function isObject(value: unknown): value is JsonObject {
-  return typeof value === "object" && value !== null && !Array.isArray(value);
-}
-
-function normalizeModelName(model: string, field: string): string {
-  const normalized = model.trim().replace(/^models\//, "");
-  if (!normalized) throw new AiConfigurationError(`${field} cannot be empty`);
-  return normalized;
-}
-
-function toUint8Array(value: ArrayBuffer | Uint8Array): Uint8Array {
-  return value instanceof Uint8Array ? value : new Uint8Array(value);
-}
-
-/** Cloudflare Workers has btoa but not Node's Buffer global. */
-export function encodeBase64(value: ArrayBuffer | Uint8Array): string {
-  const bytes = toUint8Array(value);
-  const chunkSize = 0x8000;
-  let binary = "";
-  for (let offset = 0; offset < bytes.length; offset += chunkSize) {
-    binary += String.fromCharCode(...bytes.subarray(offset, offset + chunkSize));
-  }
-  return btoa(binary);
-}
-
-function buildAnalysisSchema(gallerySlugs: readonly string[], maxItems: number): JsonObject {
-  const gallerySlugSchema: JsonObject = { type: "string" };
-  if (gallerySlugs.length > 0) gallerySlugSchema.enum = gallerySlugs;
-
-  return {
-    type: "object",
-    additionalProperties: false,
-    properties: {
-      caption: {
-        type: "string",
-        description: "A concise factual caption for the photograph.",
-      },
-      tags: {
-        type: "array",
-        maxItems: 24,
-        items: { type: "string" },
-        description: "Concrete reusable visual search tags.",
-      },
-      gallerySuggestions: {
-        type: "array",
-        maxItems: gallerySlugs.length === 0 ? 0 : maxItems,
-        items: {
-          type: "object",
-          additionalProperties: false,
-          properties: {
-            gallerySlug: gallerySlugSchema,
-            confidence: { type: "number", minimum: 0, maximum: 1 },
-            reason: {
-              type: "string",
-              description: "Short visual reason for this classification.",
-            },
-          },
-          required: ["gallerySlug", "confidence", "reason"],
-        },
-      },
-    },
-    required: ["caption", "tags", "gallerySuggestions"],
-  };
-}
-
-function buildAnalysisPrompt(input: AnalyzePhotoInput): string {
-  const language = input.language?.trim() || "es";
-  const current = Array.from(
-    new Set(input.currentGallerySlugs.map((slug) => slug.trim()).filter(Boolean)),
-  );
-
-  return [
-    "Analyze the attached photograph for a files-first photography CMS.",
-    `Write the caption, tags and reasons in language: ${language}.`,
-    "Suggest zero, one, or several galleries when the visible content genuinely fits.",
-    "Treat each classificationHint as a strict editorial inclusion/exclusion rule, not as optional flavor text.",
-    "Only suggest a gallery when the visible photograph satisfies its classificationHint; uncertainty means do not suggest it.",
-    "A current physical gallery is context only and never overrides a classificationHint.",
-    "A gallery suggestion is editorial advice only: never imply that a file was moved or published.",
-    "Use only exact gallery slugs from the supplied taxonomy. Do not invent galleries.",
-    "Prefer precise visual evidence over assumptions about identity, location, or intent.",
-    `Current physical gallery slugs (context only): ${JSON.stringify(current)}.`,
-    `Existing gallery taxonomy: ${serializeGalleryTaxonomyForPrompt(input.taxonomy)}`,
-  ].join("\n");
-}
+const geminiResponseError = (
+  message: string,
+  options?: { finishReason?: string; cause?: unknown },
+) => new GeminiResponseError(message, options);
 
 function readCandidateText(response: unknown): { text: string; finishReason?: string } {
   if (!isObject(response)) {
@@ -170,87 +96,6 @@ function readCandidateText(response: unknown): { text: string; finishReason?: st
   return { text, finishReason };
 }
 
-function parseJsonText(text: string, finishReason?: string): unknown {
-  const withoutFence = text
-    .replace(/^```(?:json)?\s*/i, "")
-    .replace(/\s*```$/, "")
-    .trim();
-  try {
-    return JSON.parse(withoutFence);
-  } catch (cause) {
-    throw new GeminiResponseError("Gemini returned malformed analysis JSON", {
-      finishReason,
-      cause,
-    });
-  }
-}
-
-function normalizeTags(value: unknown): string[] {
-  if (!Array.isArray(value) || value.some((tag) => typeof tag !== "string")) {
-    throw new GeminiResponseError("Gemini analysis contained invalid tags");
-  }
-
-  const seen = new Set<string>();
-  const tags: string[] = [];
-  for (const candidate of value) {
-    const tag = candidate.trim().slice(0, 80);
-    const key = tag.toLocaleLowerCase();
-    if (!tag || seen.has(key)) continue;
-    seen.add(key);
-    tags.push(tag);
-    if (tags.length === 24) break;
-  }
-  return tags;
-}
-
-function normalizeSuggestions(
-  value: unknown,
-  allowedGallerySlugs: ReadonlySet<string>,
-  currentGallerySlugs: ReadonlySet<string>,
-  maxSuggestions: number,
-): GallerySuggestion[] {
-  if (!Array.isArray(value)) {
-    throw new GeminiResponseError("Gemini analysis contained invalid gallery suggestions");
-  }
-
-  const bySlug = new Map<string, GallerySuggestion>();
-  for (const candidate of value) {
-    if (!isObject(candidate)) continue;
-    const gallerySlug =
-      typeof candidate.gallerySlug === "string" ? candidate.gallerySlug.trim() : "";
-    const reason = typeof candidate.reason === "string" ? candidate.reason.trim() : "";
-    const confidence = candidate.confidence;
-
-    // Unknown slugs and malformed optional entries are ignored, never persisted.
-    if (
-      !allowedGallerySlugs.has(gallerySlug) ||
-      !reason ||
-      typeof confidence !== "number" ||
-      !Number.isFinite(confidence) ||
-      confidence < 0 ||
-      confidence > 1
-    ) {
-      continue;
-    }
-
-    const suggestion: GallerySuggestion = {
-      gallerySlug,
-      confidence,
-      reason: reason.slice(0, 500),
-      alreadyCurrent: currentGallerySlugs.has(gallerySlug),
-      status: "pending",
-    };
-    const previous = bySlug.get(gallerySlug);
-    if (!previous || suggestion.confidence > previous.confidence) {
-      bySlug.set(gallerySlug, suggestion);
-    }
-  }
-
-  return Array.from(bySlug.values())
-    .sort((a, b) => b.confidence - a.confidence || a.gallerySlug.localeCompare(b.gallerySlug))
-    .slice(0, maxSuggestions);
-}
-
 function readUsageMetadata(response: unknown): AiUsageMetadata | undefined {
   if (!isObject(response) || !isObject(response.usageMetadata)) return undefined;
   const source = response.usageMetadata;
@@ -284,40 +129,12 @@ function readEmbeddingValues(response: unknown, dimensions: number): number[] {
     values = response.embeddings[0].values;
   }
 
-  if (
-    !Array.isArray(values) ||
-    values.length !== dimensions ||
-    values.some((value) => typeof value !== "number" || !Number.isFinite(value))
-  ) {
-    throw new GeminiResponseError(
-      `Gemini embedding must contain exactly ${dimensions} finite values`,
-    );
-  }
-
-  const vector = values as number[];
-  if (!vector.some((value) => value !== 0)) {
-    throw new GeminiResponseError("Gemini returned a zero-magnitude embedding");
-  }
-  return vector;
+  return readEmbeddingVector(values, dimensions, "Gemini", geminiResponseError);
 }
 
-function extractApiErrorMessage(responseBody: string, fallback: string): string {
-  try {
-    const parsed: unknown = JSON.parse(responseBody);
-    if (
-      isObject(parsed) &&
-      isObject(parsed.error) &&
-      typeof parsed.error.message === "string"
-    ) {
-      return parsed.error.message;
-    }
-  } catch {
-    // Fall through to the HTTP status text.
-  }
-  return fallback;
-}
-
-export class GeminiPhotoAiProvider implements PhotoAiProvider {
+export class GeminiPhotoAiProvider implements ConfiguredPhotoAiProvider {
+  readonly name = "gemini";
+  readonly embedsImages = true;
   readonly analysisModel: string;
   readonly embeddingModel: string;
   readonly embeddingDimensions: number;
@@ -333,13 +150,7 @@ export class GeminiPhotoAiProvider implements PhotoAiProvider {
     this.apiKey = options.apiKey.trim();
     if (!this.apiKey) throw new AiConfigurationError("Gemini API key cannot be empty");
 
-    // Cloudflare Workers requires the native fetch receiver to be globalThis.
-    // Calling a stored native function as `this.fetchImplementation(...)`
-    // otherwise binds the provider instance and fails before any request is sent.
-    const customFetch = options.fetch;
-    this.fetchImplementation = customFetch
-      ? (input, init) => customFetch(input, init)
-      : (input, init) => globalThis.fetch(input, init);
+    this.fetchImplementation = bindFetch(options.fetch);
     this.apiBaseUrl = (options.apiBaseUrl ?? DEFAULT_API_BASE_URL).replace(/\/+$/, "");
     this.analysisModel = normalizeModelName(
       options.analysisModel ?? DEFAULT_ANALYSIS_MODEL,
@@ -349,63 +160,23 @@ export class GeminiPhotoAiProvider implements PhotoAiProvider {
       options.embeddingModel ?? DEFAULT_EMBEDDING_MODEL,
       "Embedding model",
     );
-    this.embeddingDimensions =
-      options.embeddingDimensions ?? DEFAULT_EMBEDDING_DIMENSIONS;
-    if (
-      !Number.isSafeInteger(this.embeddingDimensions) ||
-      this.embeddingDimensions < 1 ||
-      this.embeddingDimensions > 3_072
-    ) {
-      throw new AiConfigurationError(
-        "Embedding dimensions must be an integer between 1 and 3072",
-      );
-    }
+    this.embeddingDimensions = normalizeEmbeddingDimensions(
+      options.embeddingDimensions ?? DEFAULT_EMBEDDING_DIMENSIONS,
+    );
     this.promptVersion = options.promptVersion?.trim() || DEFAULT_PROMPT_VERSION;
-    this.maxGallerySuggestions =
-      options.maxGallerySuggestions ?? DEFAULT_MAX_GALLERY_SUGGESTIONS;
-    if (
-      !Number.isSafeInteger(this.maxGallerySuggestions) ||
-      this.maxGallerySuggestions < 1 ||
-      this.maxGallerySuggestions > 25
-    ) {
-      throw new AiConfigurationError(
-        "Maximum gallery suggestions must be an integer between 1 and 25",
-      );
-    }
+    this.maxGallerySuggestions = normalizeMaxGallerySuggestions(
+      options.maxGallerySuggestions ?? DEFAULT_MAX_GALLERY_SUGGESTIONS,
+    );
     this.now = options.now ?? (() => new Date().toISOString());
   }
 
   async analyzePhoto(input: AnalyzePhotoInput): Promise<PhotoAnalysis> {
-    if (toUint8Array(input.image).byteLength === 0) {
-      throw new AiDataValidationError("Image cannot be empty", "image");
-    }
-    if (!ANALYSIS_IMAGE_MIME_TYPES.has(input.mimeType)) {
-      throw new AiDataValidationError(
-        `Unsupported analysis image MIME type: ${String(input.mimeType)}`,
-        "mimeType",
-      );
-    }
-    if (
-      !input.taxonomy ||
-      !Array.isArray(input.taxonomy.entries) ||
-      typeof input.taxonomy.version !== "string" ||
-      !input.taxonomy.version.trim()
-    ) {
-      throw new AiDataValidationError("Invalid gallery taxonomy catalog", "taxonomy");
-    }
-
-    const eligibleGalleries = input.taxonomy.entries.filter(
-      (entry) => entry.acceptsDirectPhotos && !entry.isProtected,
-    );
-    const allowedGallerySlugs = new Set(eligibleGalleries.map((entry) => entry.slug));
-    const currentGallerySlugs = new Set(
-      input.currentGallerySlugs.map((slug) => slug.trim()).filter(Boolean),
-    );
+    const { allowedGallerySlugs, currentGallerySlugs } = prepareAnalysisInput(input);
     const body = {
       systemInstruction: {
         parts: [
           {
-            text: "You classify photographs using only the supplied VictoPress gallery taxonomy. Return factual, concise JSON and never claim to mutate CMS content.",
+            text: ANALYSIS_SYSTEM_INSTRUCTION,
           },
         ],
       },
@@ -428,6 +199,7 @@ export class GeminiPhotoAiProvider implements PhotoAiProvider {
         responseJsonSchema: buildAnalysisSchema(
           Array.from(allowedGallerySlugs),
           this.maxGallerySuggestions,
+          input.altTextLocales,
         ),
         thinkingConfig: { thinkingLevel: "minimal" },
         temperature: 0.1,
@@ -440,29 +212,21 @@ export class GeminiPhotoAiProvider implements PhotoAiProvider {
       input.signal,
     );
     const candidate = readCandidateText(response);
-    const payload = parseJsonText(candidate.text, candidate.finishReason);
-    if (!isObject(payload)) {
-      throw new GeminiResponseError("Gemini analysis JSON must be an object", {
-        finishReason: candidate.finishReason,
-      });
-    }
-
-    const caption = typeof payload.caption === "string" ? payload.caption.trim() : "";
-    if (!caption) throw new GeminiResponseError("Gemini analysis did not include a caption");
 
     return {
       model: this.analysisModel,
       promptVersion: this.promptVersion,
       taxonomyVersion: input.taxonomy.version,
       generatedAt: this.now(),
-      caption: caption.slice(0, 2_000),
-      tags: normalizeTags(payload.tags),
-      gallerySuggestions: normalizeSuggestions(
-        payload.gallerySuggestions,
+      ...readAnalysisOutput(candidate.text, {
+        providerName: "Gemini",
+        fail: geminiResponseError,
+        finishReason: candidate.finishReason,
         allowedGallerySlugs,
         currentGallerySlugs,
-        this.maxGallerySuggestions,
-      ),
+        maxGallerySuggestions: this.maxGallerySuggestions,
+        altTextLocales: input.altTextLocales,
+      }),
       usage: readUsageMetadata(response),
     };
   }
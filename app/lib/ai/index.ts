@@ -5,6 +5,8 @@ export {
   AiStorageError,
   GeminiRequestError,
   GeminiResponseError,
+  AiProviderRequestError,
+  AiProviderResponseError,
 } from "./errors";
 export type { AiErrorCode } from "./errors";
 
@@ -28,6 +30,7 @@ export {
   validatePhotoAiRecord,
   createPhotoAiRecord,
   mergeGallerySuggestionReviews,
+  mergeAltTextReviews,
   galleryAiRecordStorageKey,
 } from "./record-store";
 export type { AiRecordStoreOptions } from "./record-store";
@@ -38,12 +41,50 @@ export {
 } from "./gemini-provider";
 export type { GeminiPhotoAiProviderOptions } from "./gemini-provider";
 
+export {
+  OpenAiCompatiblePhotoAiProvider,
+  OPENAI_API_BASE_URL,
+  DEFAULT_OPENAI_ANALYSIS_MODEL,
+  DEFAULT_OPENAI_EMBEDDING_MODEL,
+} from "./openai-compatible-provider";
+export type { OpenAiCompatiblePhotoAiProviderOptions } from "./openai-compatible-provider";
+
+export {
+  OllamaPhotoAiProvider,
+  OLLAMA_API_BASE_URL,
+  DEFAULT_OLLAMA_ANALYSIS_MODEL,
+  DEFAULT_OLLAMA_EMBEDDING_MODEL,
+} from "./ollama-provider";
+export type { OllamaPhotoAiProviderOptions } from "./ollama-provider";
+
+export {
+  CompreFaceFaceDetectionProvider,
+  DEFAULT_COMPREFACE_EMBEDDING_DIMENSIONS,
+} from "./compreface-provider";
+export type { CompreFaceFaceDetectionProviderOptions } from "./compreface-provider";
+
+export { LocalFaceDetectionProvider, LOCAL_FACE_MODEL } from "./local-face-provider";
+export type { LocalFaceDetectionProviderOptions } from "./local-face-provider";
+
+export {
+  createPhotoAiProvider,
+  createFaceDetectionProvider,
+  defaultPhotoAiModels,
+  isFaceDetectionProviderName,
+  isPhotoAiProviderName,
+} from "./provider-factory";
+export type { FaceDetectionProviderSettings, PhotoAiProviderSettings } from "./provider-factory";
+
+export { analysisEmbeddingText } from "./analysis-contract";
+
 export {
   AI_RECORD_SCHEMA_VERSION,
   GALLERY_TAXONOMY_SCHEMA_VERSION,
   DEFAULT_ANALYSIS_MODEL,
   DEFAULT_EMBEDDING_MODEL,
   DEFAULT_EMBEDDING_DIMENSIONS,
+  PHOTO_AI_PROVIDER_NAMES,
+  FACE_DETECTION_PROVIDER_NAMES,
 } from "./types";
 export type {
   AssetId,
@@ -51,10 +92,15 @@ export type {
   PhotoAssetIdentity,
   GallerySuggestionReviewStatus,
   GallerySuggestion,
+  AltTextReviewStatus,
+  PhotoAltTextSuggestion,
   AiUsageMetadata,
   PhotoAnalysis,
   AiProjectionStatus,
   PhotoEmbeddingReference,
+  FaceBox,
+  PhotoFace,
+  PhotoFacesProjection,
   PhotoAiRecord,
   GalleryAiRecordFile,
   GalleryTaxonomyEntry,
@@ -66,4 +112,10 @@ export type {
   EmbedTextInput,
   EmbeddingResult,
   PhotoAiProvider,
+  PhotoAiProviderName,
+  ConfiguredPhotoAiProvider,
+  FaceDetectionProviderName,
+  DetectFacesInput,
+  DetectedFace,
+  FaceDetectionProvider,
 } from "./types";
@@ -0,0 +1,116 @@
+import { toUint8Array } from "./analysis-contract";
+import type {
+  DetectedFace,
+  DetectFacesInput,
+  FaceDetectionProvider,
+} from "./types";
+
+export const LOCAL_FACE_MODEL = "victopress-local-faces-v1";
+
+export interface LocalFaceDetectionProviderOptions {
+  /** Size of the made-up population photos are drawn from. */
+  identities?: number;
+  maxFacesPerPhoto?: number;
+  embeddingDimensions?: number;
+  /**
+   * Names the people in a photo. Tests use it to stage known groupings; by
+   * default people are picked from a hash of the image bytes.
+   */
+  identify?: (input: DetectFacesInput) => readonly string[];
+}
+
+/** FNV-1a, enough to seed the generator from bytes or identity keys. */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index += 1) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function hashBytes(bytes: Uint8Array): number {
+  let hash = 0x811c9dc5;
+  for (const byte of bytes) {
+    hash ^= byte;
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** mulberry32: small, fast and identical on every runtime. */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function normalize(values: number[]): number[] {
+  const length = Math.hypot(...values) || 1;
+  return values.map((value) => Number((value / length).toFixed(6)));
+}
+
+/**
+ * Offline stand-in for a face service. It detects nothing: each photo gets
+ * a deterministic set of people, and every person has a fixed embedding with
+ * a little per-photo noise, so clustering behaves as it would on real faces.
+ * Meant for development and tests, never for a published site.
+ */
+export class LocalFaceDetectionProvider implements FaceDetectionProvider {
+  readonly name = "local";
+  readonly model = LOCAL_FACE_MODEL;
+  readonly embeddingDimensions: number;
+  readonly matchThreshold = 0.8;
+
+  private readonly identities: number;
+  private readonly maxFacesPerPhoto: number;
+  private readonly identify?: (input: DetectFacesInput) => readonly string[];
+
+  constructor(options: LocalFaceDetectionProviderOptions = {}) {
+    this.identities = Math.max(1, Math.floor(options.identities ?? 6));
+    this.maxFacesPerPhoto = Math.max(0, Math.floor(options.maxFacesPerPhoto ?? 3));
+    this.embeddingDimensions = Math.max(2, Math.floor(options.embeddingDimensions ?? 64));
+    this.identify = options.identify;
+  }
+
+  async detectFaces(input: DetectFacesInput): Promise<DetectedFace[]> {
+    const imageSeed = hashBytes(toUint8Array(input.image));
+    const people = this.identify?.(input) ?? this.pickPeople(imageSeed);
+
+    return people.map((person, index) => {
+      const identity = seededRandom(hashString(person));
+      const noise = seededRandom(imageSeed + index * 7919);
+      const embedding = normalize(
+        Array.from({ length: this.embeddingDimensions }, () =>
+          identity() * 2 - 1 + (noise() * 2 - 1) * 0.15,
+        ),
+      );
+      const width = 0.8 / Math.max(people.length, 1);
+      return {
+        box: {
+          x: Number((0.1 + index * width).toFixed(4)),
+          y: 0.2,
+          width: Number((width * 0.8).toFixed(4)),
+          height: 0.35,
+        },
+        confidence: 0.99,
+        embedding,
+      };
+    });
+  }
+
+  private pickPeople(imageSeed: number): string[] {
+    const random = seededRandom(imageSeed);
+    const count = Math.floor(random() * (this.maxFacesPerPhoto + 1));
+    const people = new Set<string>();
+    for (let index = 0; index < count; index += 1) {
+      people.add(`person-${Math.floor(random() * this.identities)}`);
+    }
+    return Array.from(people);
+  }
+}
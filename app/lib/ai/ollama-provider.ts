@@ -0,0 +1,204 @@
+import { AiDataValidationError, AiProviderResponseError } from "./errors";
+import {
+  ANALYSIS_SYSTEM_INSTRUCTION,
+  bindFetch,
+  buildAnalysisPrompt,
+  buildAnalysisSchema,
+  DEFAULT_MAX_GALLERY_SUGGESTIONS,
+  DEFAULT_PROMPT_VERSION,
+  encodeBase64,
+  isObject,
+  normalizeEmbeddingDimensions,
+  normalizeMaxGallerySuggestions,
+  normalizeModelName,
+  postProviderJson,
+  prepareAnalysisInput,
+  readAnalysisOutput,
+  readEmbeddingVector,
+  rejectImageEmbedding,
+  type FetchImplementation,
+} from "./analysis-contract";
+import {
+  DEFAULT_EMBEDDING_DIMENSIONS,
+  type AiUsageMetadata,
+  type AnalyzePhotoInput,
+  type ConfiguredPhotoAiProvider,
+  type EmbedImageInput,
+  type EmbeddingResult,
+  type EmbedTextInput,
+  type PhotoAnalysis,
+} from "./types";
+
+export const OLLAMA_API_BASE_URL = "http://localhost:11434";
+export const DEFAULT_OLLAMA_ANALYSIS_MODEL = "qwen2.5vl";
+/** nomic-embed-text produces 768-dimension vectors, the VictoPress default. */
+export const DEFAULT_OLLAMA_EMBEDDING_MODEL = "nomic-embed-text";
+
+const PROVIDER_NAME = "Ollama";
+
+export interface OllamaPhotoAiProviderOptions {
+  /** Server root, without `/api`. */
+  apiBaseUrl?: string;
+  fetch?: FetchImplementation;
+  analysisModel?: string;
+  embeddingModel?: string;
+  embeddingDimensions?: number;
+  promptVersion?: string;
+  maxGallerySuggestions?: number;
+  now?: () => string;
+}
+
+const ollamaResponseError = (
+  message: string,
+  options?: { finishReason?: string; cause?: unknown },
+) => new AiProviderResponseError(message, { provider: "ollama", ...options });
+
+function readMessageText(response: unknown): { text: string; finishReason?: string } {
+  if (!isObject(response) || !isObject(response.message)) {
+    throw ollamaResponseError("Ollama response did not contain a message");
+  }
+  const finishReason =
+    typeof response.done_reason === "string" ? response.done_reason : undefined;
+  const text =
+    typeof response.message.content === "string" ? response.message.content.trim() : "";
+  if (!text) {
+    throw ollamaResponseError("Ollama message did not contain JSON text", { finishReason });
+  }
+  return { text, finishReason };
+}
+
+function readUsage(response: unknown): AiUsageMetadata | undefined {
+  if (!isObject(response)) return undefined;
+  const usage: AiUsageMetadata = {};
+  if (typeof response.prompt_eval_count === "number") {
+    usage.promptTokenCount = response.prompt_eval_count;
+  }
+  if (typeof response.eval_count === "number") {
+    usage.candidatesTokenCount = response.eval_count;
+  }
+  if (usage.promptTokenCount !== undefined && usage.candidatesTokenCount !== undefined) {
+    usage.totalTokenCount = usage.promptTokenCount + usage.candidatesTokenCount;
+  }
+  return Object.keys(usage).length > 0 ? usage : undefined;
+}
+
+/**
+ * Runs analysis and embeddings on an Ollama server, so photos never leave
+ * the network it runs on. Ollama embedding models are text-only, so photos
+ * are embedded through their analysis.
+ */
+export class OllamaPhotoAiProvider implements ConfiguredPhotoAiProvider {
+  readonly name = "ollama";
+  readonly embedsImages = false;
+  readonly analysisModel: string;
+  readonly embeddingModel: string;
+  readonly embeddingDimensions: number;
+  readonly promptVersion: string;
+
+  private readonly fetchImplementation: FetchImplementation;
+  private readonly apiBaseUrl: string;
+  private readonly maxGallerySuggestions: number;
+  private readonly now: () => string;
+
+  constructor(options: OllamaPhotoAiProviderOptions = {}) {
+    this.apiBaseUrl = (options.apiBaseUrl?.trim() || OLLAMA_API_BASE_URL)
+      .replace(/\/+$/, "")
+      .replace(/\/api$/, "");
+    this.fetchImplementation = bindFetch(options.fetch);
+    this.analysisModel = normalizeModelName(
+      options.analysisModel ?? DEFAULT_OLLAMA_ANALYSIS_MODEL,
+      "Analysis model",
+    );
+    this.embeddingModel = normalizeModelName(
+      options.embeddingModel ?? DEFAULT_OLLAMA_EMBEDDING_MODEL,
+      "Embedding model",
+    );
+    this.embeddingDimensions = normalizeEmbeddingDimensions(
+      options.embeddingDimensions ?? DEFAULT_EMBEDDING_DIMENSIONS,
+    );
+    this.promptVersion = options.promptVersion?.trim() || DEFAULT_PROMPT_VERSION;
+    this.maxGallerySuggestions = normalizeMaxGallerySuggestions(
+      options.maxGallerySuggestions ?? DEFAULT_MAX_GALLERY_SUGGESTIONS,
+    );
+    this.now = options.now ?? (() => new Date().toISOString());
+  }
+
+  async analyzePhoto(input: AnalyzePhotoInput): Promise<PhotoAnalysis> {
+    const { allowedGallerySlugs, currentGallerySlugs } = prepareAnalysisInput(input);
+    const response = await this.requestJson("/api/chat", {
+      model: this.analysisModel,
+      stream: false,
+      format: buildAnalysisSchema(
+        Array.from(allowedGallerySlugs),
+        this.maxGallerySuggestions,
+        input.altTextLocales,
+      ),
+      options: { temperature: 0.1 },
+      messages: [
+        { role: "system", content: ANALYSIS_SYSTEM_INSTRUCTION },
+        {
+          role: "user",
+          content: buildAnalysisPrompt(input),
+          images: [encodeBase64(input.image)],
+        },
+      ],
+    }, input.signal);
+    const message = readMessageText(response);
+
+    return {
+      model: this.analysisModel,
+      promptVersion: this.promptVersion,
+      taxonomyVersion: input.taxonomy.version,
+      generatedAt: this.now(),
+      ...readAnalysisOutput(message.text, {
+        providerName: PROVIDER_NAME,
+        fail: ollamaResponseError,
+        finishReason: message.finishReason,
+        allowedGallerySlugs,
+        currentGallerySlugs,
+        maxGallerySuggestions: this.maxGallerySuggestions,
+        altTextLocales: input.altTextLocales,
+      }),
+      usage: readUsage(response),
+    };
+  }
+
+  async embedImage(_input: EmbedImageInput): Promise<EmbeddingResult> {
+    return rejectImageEmbedding(PROVIDER_NAME);
+  }
+
+  async embedText(input: EmbedTextInput): Promise<EmbeddingResult> {
+    const text = input.text.trim();
+    if (!text) throw new AiDataValidationError("Embedding text cannot be empty", "text");
+
+    const response = await this.requestJson("/api/embed", {
+      model: this.embeddingModel,
+      input: input.instruction?.trim() ? `${input.instruction.trim()}\n\n${text}` : text,
+    }, input.signal);
+    const embeddings = isObject(response) && Array.isArray(response.embeddings)
+      ? response.embeddings
+      : [];
+
+    return {
+      model: this.embeddingModel,
+      dimensions: this.embeddingDimensions,
+      values: readEmbeddingVector(
+        embeddings[0],
+        this.embeddingDimensions,
+        PROVIDER_NAME,
+        ollamaResponseError,
+      ),
+    };
+  }
+
+  private requestJson(path: string, body: unknown, signal?: AbortSignal): Promise<unknown> {
+    return postProviderJson({
+      provider: "ollama",
+      providerName: PROVIDER_NAME,
+      fetch: this.fetchImplementation,
+      url: `${this.apiBaseUrl}${path}`,
+      body,
+      signal,
+    });
+  }
+}
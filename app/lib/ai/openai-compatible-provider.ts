@@ -0,0 +1,241 @@
+import { AiConfigurationError, AiDataValidationError, AiProviderResponseError } from "./errors";
+import {
+  ANALYSIS_SYSTEM_INSTRUCTION,
+  bindFetch,
+  buildAnalysisPrompt,
+  buildAnalysisSchema,
+  DEFAULT_MAX_GALLERY_SUGGESTIONS,
+  DEFAULT_PROMPT_VERSION,
+  encodeBase64,
+  isObject,
+  normalizeEmbeddingDimensions,
+  normalizeMaxGallerySuggestions,
+  normalizeModelName,
+  postProviderJson,
+  prepareAnalysisInput,
+  readAnalysisOutput,
+  readEmbeddingVector,
+  rejectImageEmbedding,
+  type FetchImplementation,
+} from "./analysis-contract";
+import {
+  DEFAULT_EMBEDDING_DIMENSIONS,
+  type AiUsageMetadata,
+  type AnalyzePhotoInput,
+  type ConfiguredPhotoAiProvider,
+  type EmbedImageInput,
+  type EmbeddingResult,
+  type EmbedTextInput,
+  type PhotoAnalysis,
+} from "./types";
+
+export const OPENAI_API_BASE_URL = "https://api.openai.com/v1";
+export const DEFAULT_OPENAI_ANALYSIS_MODEL = "gpt-4.1-mini";
+export const DEFAULT_OPENAI_EMBEDDING_MODEL = "text-embedding-3-small";
+
+const PROVIDER_NAME = "OpenAI-compatible endpoint";
+
+export interface OpenAiCompatiblePhotoAiProviderOptions {
+  /** Optional for self-hosted servers such as llama.cpp, vLLM or LM Studio. */
+  apiKey?: string;
+  /** Base URL that serves `/chat/completions` and `/embeddings`. */
+  apiBaseUrl?: string;
+  fetch?: FetchImplementation;
+  analysisModel?: string;
+  embeddingModel?: string;
+  embeddingDimensions?: number;
+  /**
+   * Sends `dimensions` with embedding requests. Only OpenAI's v3 models
+   * shorten vectors on request; other servers return their native size.
+   */
+  requestDimensions?: boolean;
+  promptVersion?: string;
+  maxGallerySuggestions?: number;
+  now?: () => string;
+}
+
+const openAiResponseError = (
+  message: string,
+  options?: { finishReason?: string; cause?: unknown },
+) => new AiProviderResponseError(message, { provider: "openai", ...options });
+
+function readChoiceText(response: unknown): { text: string; finishReason?: string } {
+  if (!isObject(response) || !Array.isArray(response.choices) || !isObject(response.choices[0])) {
+    throw openAiResponseError(`${PROVIDER_NAME} response did not contain a choice`);
+  }
+
+  const choice = response.choices[0];
+  const finishReason =
+    typeof choice.finish_reason === "string" ? choice.finish_reason : undefined;
+  const message = isObject(choice.message) ? choice.message : {};
+  if (typeof message.refusal === "string" && message.refusal.trim()) {
+    throw openAiResponseError(`${PROVIDER_NAME} refused the analysis: ${message.refusal}`, {
+      finishReason,
+    });
+  }
+
+  const text = typeof message.content === "string" ? message.content.trim() : "";
+  if (!text) {
+    throw openAiResponseError(`${PROVIDER_NAME} choice did not contain JSON text`, {
+      finishReason,
+    });
+  }
+  return { text, finishReason };
+}
+
+function readUsage(response: unknown): AiUsageMetadata | undefined {
+  if (!isObject(response) || !isObject(response.usage)) return undefined;
+  const source = response.usage;
+  const usage: AiUsageMetadata = {};
+  const fields = [
+    ["prompt_tokens", "promptTokenCount"],
+    ["completion_tokens", "candidatesTokenCount"],
+    ["total_tokens", "totalTokenCount"],
+  ] as const;
+  for (const [from, to] of fields) {
+    if (typeof source[from] === "number" && Number.isFinite(source[from])) {
+      usage[to] = source[from];
+    }
+  }
+  return Object.keys(usage).length > 0 ? usage : undefined;
+}
+
+/**
+ * Talks to any server that implements OpenAI's chat completions and
+ * embeddings APIs: OpenAI itself, or a llama.cpp, vLLM or LM Studio server on
+ * the local network. The embedding model is text-only, so photos are
+ * embedded through their analysis.
+ */
+export class OpenAiCompatiblePhotoAiProvider implements ConfiguredPhotoAiProvider {
+  readonly name = "openai";
+  readonly embedsImages = false;
+  readonly analysisModel: string;
+  readonly embeddingModel: string;
+  readonly embeddingDimensions: number;
+  readonly promptVersion: string;
+
+  private readonly apiKey?: string;
+  private readonly fetchImplementation: FetchImplementation;
+  private readonly apiBaseUrl: string;
+  private readonly requestDimensions: boolean;
+  private readonly maxGallerySuggestions: number;
+  private readonly now: () => string;
+
+  constructor(options: OpenAiCompatiblePhotoAiProviderOptions = {}) {
+    this.apiKey = options.apiKey?.trim() || undefined;
+    this.apiBaseUrl = (options.apiBaseUrl?.trim() || OPENAI_API_BASE_URL).replace(/\/+$/, "");
+    if (!this.apiKey && this.apiBaseUrl === OPENAI_API_BASE_URL) {
+      throw new AiConfigurationError("OpenAI API key cannot be empty");
+    }
+
+    this.fetchImplementation = bindFetch(options.fetch);
+    this.analysisModel = normalizeModelName(
+      options.analysisModel ?? DEFAULT_OPENAI_ANALYSIS_MODEL,
+      "Analysis model",
+    );
+    this.embeddingModel = normalizeModelName(
+      options.embeddingModel ?? DEFAULT_OPENAI_EMBEDDING_MODEL,
+      "Embedding model",
+    );
+    this.embeddingDimensions = normalizeEmbeddingDimensions(
+      options.embeddingDimensions ?? DEFAULT_EMBEDDING_DIMENSIONS,
+    );
+    this.requestDimensions =
+      options.requestDimensions ?? this.apiBaseUrl === OPENAI_API_BASE_URL;
+    this.promptVersion = options.promptVersion?.trim() || DEFAULT_PROMPT_VERSION;
+    this.maxGallerySuggestions = normalizeMaxGallerySuggestions(
+      options.maxGallerySuggestions ?? DEFAULT_MAX_GALLERY_SUGGESTIONS,
+    );
+    this.now = options.now ?? (() => new Date().toISOString());
+  }
+
+  async analyzePhoto(input: AnalyzePhotoInput): Promise<PhotoAnalysis> {
+    const { allowedGallerySlugs, currentGallerySlugs } = prepareAnalysisInput(input);
+    const response = await this.requestJson("/chat/completions", {
+      model: this.analysisModel,
+      temperature: 0.1,
+      messages: [
+        { role: "system", content: ANALYSIS_SYSTEM_INSTRUCTION },
+        {
+          role: "user",
+          content: [
+            { type: "text", text: buildAnalysisPrompt(input) },
+            {
+              type: "image_url",
+              image_url: { url: `data:${input.mimeType};base64,${encodeBase64(input.image)}` },
+            },
+          ],
+        },
+      ],
+      response_format: {
+        type: "json_schema",
+        json_schema: {
+          name: "photo_analysis",
+          schema: buildAnalysisSchema(
+            Array.from(allowedGallerySlugs),
+            this.maxGallerySuggestions,
+            input.altTextLocales,
+          ),
+        },
+      },
+    }, input.signal);
+    const choice = readChoiceText(response);
+
+    return {
+      model: this.analysisModel,
+      promptVersion: this.promptVersion,
+      taxonomyVersion: input.taxonomy.version,
+      generatedAt: this.now(),
+      ...readAnalysisOutput(choice.text, {
+        providerName: PROVIDER_NAME,
+        fail: openAiResponseError,
+        finishReason: choice.finishReason,
+        allowedGallerySlugs,
+        currentGallerySlugs,
+        maxGallerySuggestions: this.maxGallerySuggestions,
+        altTextLocales: input.altTextLocales,
+      }),
+      usage: readUsage(response),
+    };
+  }
+
+  async embedImage(_input: EmbedImageInput): Promise<EmbeddingResult> {
+    return rejectImageEmbedding(PROVIDER_NAME);
+  }
+
+  async embedText(input: EmbedTextInput): Promise<EmbeddingResult> {
+    const text = input.text.trim();
+    if (!text) throw new AiDataValidationError("Embedding text cannot be empty", "text");
+
+    const response = await this.requestJson("/embeddings", {
+      model: this.embeddingModel,
+      input: input.instruction?.trim() ? `${input.instruction.trim()}\n\n${text}` : text,
+      encoding_format: "float",
+      ...(this.requestDimensions ? { dimensions: this.embeddingDimensions } : {}),
+    }, input.signal);
+    const data = isObject(response) && Array.isArray(response.data) ? response.data[0] : undefined;
+
+    return {
+      model: this.embeddingModel,
+      dimensions: this.embeddingDimensions,
+      values: readEmbeddingVector(
+        isObject(data) ? data.embedding : undefined,
+        this.embeddingDimensions,
+        PROVIDER_NAME,
+        openAiResponseError,
+      ),
+    };
+  }
+
+  private requestJson(path: string, body: unknown, signal?: AbortSignal): Promise<unknown> {
+    return postProviderJson({
+      provider: "openai",
+      providerName: PROVIDER_NAME,
+      fetch: this.fetchImplementation,
+      url: `${this.apiBaseUrl}${path}`,
+      body,
+      headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : undefined,
+      signal,
+    });
+  }
+}
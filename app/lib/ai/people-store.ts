@@ -0,0 +1,241 @@
+import type { StorageAdapter } from "../content-engine/types";
+import { AiDataValidationError } from "./errors";
+import type { PhotoFace } from "./types";
+
+export const PHOTO_AI_PEOPLE_KEY = ".victopress/ai/people.json";
+export const PHOTO_AI_PEOPLE_VERSION = 1 as const;
+
+/**
+ * One cluster of faces believed to be the same person. Clusters are private:
+ * only a named, unsuppressed person the admin marked public is ever shown
+ * outside the admin.
+ */
+export interface PhotoPerson {
+  personId: string;
+  name?: string;
+  /** Suppressed clusters keep absorbing matching faces but are never shown. */
+  suppressed: boolean;
+  public: boolean;
+  faceIds: string[];
+  centroid: number[];
+  coverFaceId?: string;
+  updatedAt: string;
+}
+
+export interface PhotoPeopleIndex {
+  version: typeof PHOTO_AI_PEOPLE_VERSION;
+  /** Face model the centroids were computed with. */
+  model: string;
+  updatedAt: string;
+  people: Record<string, PhotoPerson>;
+}
+
+export type ClusterableFace = Pick<PhotoFace, "faceId" | "confidence" | "embedding">;
+
+export interface PhotoPersonUpdate {
+  name?: string;
+  suppressed?: boolean;
+  public?: boolean;
+}
+
+function isPeopleIndex(value: unknown): value is PhotoPeopleIndex {
+  if (!value || typeof value !== "object") return false;
+  const index = value as Partial<PhotoPeopleIndex>;
+  return (
+    index.version === PHOTO_AI_PEOPLE_VERSION &&
+    typeof index.model === "string" &&
+    typeof index.people === "object" &&
+    index.people !== null
+  );
+}
+
+export async function readPhotoPeopleIndex(
+  storage: StorageAdapter,
+): Promise<PhotoPeopleIndex | null> {
+  const raw = await storage.getText(PHOTO_AI_PEOPLE_KEY);
+  if (!raw) return null;
+
+  try {
+    const value: unknown = JSON.parse(raw);
+    return isPeopleIndex(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function writePhotoPeopleIndex(
+  storage: StorageAdapter,
+  index: PhotoPeopleIndex,
+): Promise<void> {
+  index.updatedAt = new Date().toISOString();
+  await storage.put(PHOTO_AI_PEOPLE_KEY, JSON.stringify(index, null, 2), "application/json");
+}
+
+function cosine(left: readonly number[], right: readonly number[]): number {
+  if (left.length !== right.length || left.length === 0) return 0;
+  let dot = 0;
+  let leftMagnitude = 0;
+  let rightMagnitude = 0;
+  for (let index = 0; index < left.length; index += 1) {
+    dot += left[index] * right[index];
+    leftMagnitude += left[index] * left[index];
+    rightMagnitude += right[index] * right[index];
+  }
+  return leftMagnitude && rightMagnitude
+    ? dot / Math.sqrt(leftMagnitude * rightMagnitude)
+    : 0;
+}
+
+function centroidOf(faces: readonly ClusterableFace[]): number[] {
+  if (faces.length === 0) return [];
+  const sum = new Array<number>(faces[0].embedding.length).fill(0);
+  for (const face of faces) {
+    const length = Math.hypot(...face.embedding) || 1;
+    face.embedding.forEach((value, index) => {
+      sum[index] += value / length;
+    });
+  }
+  const length = Math.hypot(...sum) || 1;
+  return sum.map((value) => Number((value / length).toFixed(6)));
+}
+
+function coverFaceFor(
+  faceIds: readonly string[],
+  faces: ReadonlyMap<string, ClusterableFace>,
+  previous?: string,
+): string | undefined {
+  if (previous && faceIds.includes(previous)) return previous;
+  return [...faceIds].sort((left, right) =>
+    (faces.get(right)?.confidence ?? 0) - (faces.get(left)?.confidence ?? 0) ||
+    left.localeCompare(right),
+  )[0];
+}
+
+function personIdForSeed(faceId: string): string {
+  return `person-${faceId.replace(/[^a-z0-9]+/gi, "-")}`;
+}
+
+/**
+ * Groups faces into people. Clustering is incremental and deterministic:
+ * existing people keep the faces that still exist, and only unassigned faces
+ * are matched, in `faceId` order, against the nearest centroid. A face below
+ * the threshold starts a new person whose id comes from that face, so ids,
+ * names and suppressions survive re-clustering.
+ */
+export function clusterPhotoFaces(
+  previous: PhotoPeopleIndex | null,
+  faces: readonly ClusterableFace[],
+  options: { model: string; matchThreshold: number; now?: string },
+): PhotoPeopleIndex {
+  const now = options.now ?? new Date().toISOString();
+  const facesById = new Map(faces.map((face) => [face.faceId, face]));
+  // Centroids from another model live in a different space.
+  const sameModel = previous?.model === options.model;
+  const claimed = new Set<string>();
+  const people = new Map<string, PhotoPerson & { members: ClusterableFace[] }>();
+
+  for (const person of Object.values(previous?.people ?? {})) {
+    const members = person.faceIds
+      .filter((faceId) => facesById.has(faceId) && !claimed.has(faceId))
+      .map((faceId) => facesById.get(faceId)!);
+    for (const member of members) claimed.add(member.faceId);
+    const hasDecision = Boolean(person.name) || person.suppressed || person.public;
+    if (members.length === 0 && !hasDecision) continue;
+    people.set(person.personId, {
+      ...person,
+      faceIds: members.map((member) => member.faceId),
+      centroid: members.length > 0 ? centroidOf(members) : sameModel ? person.centroid : [],
+      members,
+    });
+  }
+
+  const unassigned = faces
+    .filter((face) => !claimed.has(face.faceId))
+    .sort((left, right) => left.faceId.localeCompare(right.faceId));
+  for (const face of unassigned) {
+    let best: { personId: string; score: number } | undefined;
+    for (const person of people.values()) {
+      const score = cosine(face.embedding, person.centroid);
+      if (score >= options.matchThreshold && (!best || score > best.score)) {
+        best = { personId: person.personId, score };
+      }
+    }
+
+    if (best) {
+      const person = people.get(best.personId)!;
+      person.members.push(face);
+      person.faceIds.push(face.faceId);
+      person.centroid = centroidOf(person.members);
+      continue;
+    }
+    const personId = personIdForSeed(face.faceId);
+    people.set(personId, {
+      personId,
+      suppressed: false,
+      public: false,
+      faceIds: [face.faceId],
+      centroid: centroidOf([face]),
+      updatedAt: now,
+      members: [face],
+    });
+  }
+
+  const result: Record<string, PhotoPerson> = {};
+  for (const { members: _members, ...person } of people.values()) {
+    const before = previous?.people[person.personId];
+    const changed = !before || before.faceIds.join(",") !== person.faceIds.join(",");
+    result[person.personId] = {
+      ...person,
+      coverFaceId: coverFaceFor(person.faceIds, facesById, person.coverFaceId),
+      updatedAt: changed ? now : before.updatedAt,
+    };
+  }
+
+  return {
+    version: PHOTO_AI_PEOPLE_VERSION,
+    model: options.model,
+    updatedAt: now,
+    people: result,
+  };
+}
+
+/**
+ * Applies an admin decision. Naming a cluster after an existing person merges
+ * it into that person, which is how a person split across clusters is joined.
+ */
+export function updatePhotoPerson(
+  index: PhotoPeopleIndex,
+  personId: string,
+  update: PhotoPersonUpdate,
+  now = new Date().toISOString(),
+): PhotoPerson {
+  const person = index.people[personId];
+  if (!person) throw new AiDataValidationError("Person was not found", "personId");
+
+  const name = update.name === undefined ? person.name : update.name.trim().slice(0, 120) || undefined;
+  const namesake = name
+    ? Object.values(index.people).find((candidate) =>
+        candidate.personId !== personId &&
+        candidate.name?.toLocaleLowerCase() === name.toLocaleLowerCase(),
+      )
+    : undefined;
+  const target = namesake ?? person;
+  if (namesake) {
+    target.faceIds = Array.from(new Set([...namesake.faceIds, ...person.faceIds]));
+    if (namesake.centroid.length === 0) target.centroid = person.centroid;
+    delete index.people[personId];
+  }
+
+  target.name = name;
+  if (update.suppressed !== undefined) target.suppressed = update.suppressed;
+  if (update.public !== undefined) target.public = update.public;
+  // A person can only be public once they have a name and are not suppressed.
+  if (!target.name || target.suppressed) target.public = false;
+  target.updatedAt = now;
+  return target;
+}
+
+/** Whether a person may be shown on public pages. */
+export function isPublicPhotoPerson(person: PhotoPerson): boolean {
+  return person.public && !person.suppressed && Boolean(person.name);
+}
@@ -1,22 +1,42 @@
 import type { GalleryDataEntry, GalleryPhotoEntry } from "../content-engine/content-index";
-import { getContentIndex } from "../content-engine/content-index";
+import { getContentIndex, refreshSmartGalleriesInIndex } from "../content-engine/content-index";
+import {
+  readSmartGalleryMatches,
+  writeSmartGalleryMatches,
+  type SmartGallerySemanticMatches,
+} from "../content-engine/smart-galleries";
+import { isPublicPhotoGallery } from "../content-engine/publishing";
 import { getStorage } from "../content-engine/storage";
 import type { StorageAdapter } from "../content-engine/types";
+import { extractImageMetadata } from "../content-engine/exif";
+import { readPhotoAnalysisImage } from "../content-engine/photo-renditions";
+import { DEFAULT_LOCALE, siteLocales } from "../i18n";
+import { readSiteLanguageSettings } from "../site-languages.server";
 import {
   AiConfigurationError,
   AiRecordStore,
+  analysisEmbeddingText,
   buildGalleryTaxonomyCatalog,
+  createFaceDetectionProvider,
+  createPhotoAiProvider,
   createPhotoAiRecord,
   createPhotoAssetIdentity,
-  DEFAULT_ANALYSIS_MODEL,
   DEFAULT_EMBEDDING_DIMENSIONS,
-  DEFAULT_EMBEDDING_MODEL,
-  GeminiPhotoAiProvider,
+  defaultPhotoAiModels,
+  isFaceDetectionProviderName,
+  isPhotoAiProviderName,
+  type ConfiguredPhotoAiProvider,
+  type FaceBox,
+  type FaceDetectionProvider,
+  type FaceDetectionProviderName,
   type GalleryTaxonomyCatalog,
+  type PhotoAiProviderName,
   type PhotoAnalysis,
   type PhotoAiRecord,
+  type PhotoAltTextSuggestion,
   type PhotoAssetIdentity,
   type PhotoEmbeddingReference,
+  type PhotoFacesProjection,
 } from "./index";
 import {
   createPhotoAiJob,
@@ -39,19 +59,58 @@ import {
 } from "./search-index";
 import {
   createPhotoVectorIndex,
+  FILES_FIRST_VECTOR_INDEX_KEY,
   type PhotoVectorEnv,
   type VectorIndex,
   type VectorUpsertInput,
 } from "./vector-index";
 import { projectEmbeddingMap } from "./embedding-map";
+import {
+  countPhotoSearchFacets,
+  matchesPhotoSearchFilters,
+  normalizePhotoSearchFilters,
+  type PhotoSearchFilters,
+} from "./search-facets";
+import {
+  buildPhotoSearchTermIndex,
+  fuseRankings,
+  loadPhotoSearchTermIndex,
+  scorePhotoSearchTerms,
+  type PhotoSearchTermIndex,
+} from "./search-inverted-index";
 import { enqueuePhotoMetadataWritebacks } from "./photo-metadata-writeback.server";
+import { applyGalleryRules } from "./gallery-rules.server";
+import {
+  clusterPhotoFaces,
+  isPublicPhotoPerson,
+  readPhotoPeopleIndex,
+  updatePhotoPerson,
+  writePhotoPeopleIndex,
+  type ClusterableFace,
+  type PhotoPeopleIndex,
+  type PhotoPerson,
+  type PhotoPersonUpdate,
+} from "./people-store";
 
 export interface PhotoAiEnv extends PhotoVectorEnv {
   PHOTO_AI_ENABLED?: string | boolean;
+  /** `gemini` (default), `openai` for any OpenAI-compatible server, or `ollama`. */
+  PHOTO_AI_PROVIDER?: string;
+  PHOTO_AI_ANALYSIS_MODEL?: string;
+  PHOTO_AI_EMBEDDING_MODEL?: string;
+  PHOTO_AI_EMBEDDING_DIMENSIONS?: string | number;
   GEMINI_API_KEY?: string;
   GEMINI_ANALYSIS_MODEL?: string;
   GEMINI_EMBEDDING_MODEL?: string;
   GEMINI_EMBEDDING_DIMENSIONS?: string | number;
+  OPENAI_API_KEY?: string;
+  OPENAI_BASE_URL?: string;
+  OLLAMA_BASE_URL?: string;
+  /** Opt-in face detection: `compreface`, or `local` for offline development. */
+  FACE_AI_PROVIDER?: string;
+  FACE_AI_EMBEDDING_DIMENSIONS?: string | number;
+  COMPREFACE_BASE_URL?: string;
+  COMPREFACE_API_KEY?: string;
 }
 
 export interface PhotoAiContext {
@@ -71,7 +130,9 @@ interface PhotoAiRuntime {
   env: PhotoAiEnv;
   recordStore: AiRecordStore;
   vectorIndex: VectorIndex;
-  provider: GeminiPhotoAiProvider;
+  provider: ConfiguredPhotoAiProvider;
+  /** Only set when face detection is configured. */
+  faceProvider?: FaceDetectionProvider;
 }
 
 interface PreparedPhotoAnalysis {
@@ -80,6 +141,9 @@ interface PreparedPhotoAnalysis {
   analysis: PhotoAnalysis;
   embeddingReference: PhotoEmbeddingReference;
   vector?: VectorUpsertInput;
+  /** The vector this analysis replaces when it came from another model space. */
+  replacedVector?: { id: string; modelSpace: string };
+  faces?: PhotoFacesProjection;
   taxonomyVersion: string;
 }
 
@@ -256,68 +320,217 @@ function readEnvString(
   return processValue?.trim() || undefined;
 }
 
+export type PhotoAiConfiguration = ReturnType<typeof getPhotoAiConfiguration>;
+
+function readDimensions(context: PhotoAiContext, name: keyof PhotoAiEnv): number | undefined {
+  const value = readEnvString(context, name) ?? envRecord(context)[name];
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  return Number.isSafeInteger(parsed) ? parsed : undefined;
+}
+
 export function getPhotoAiConfiguration(context: PhotoAiContext) {
-  const apiKey = readEnvString(context, "GEMINI_API_KEY");
+  const requestedProvider = readEnvString(context, "PHOTO_AI_PROVIDER")?.toLowerCase() ?? "gemini";
+  // An unknown provider never falls back to a hosted one.
+  const invalidProvider = isPhotoAiProviderName(requestedProvider) ? undefined : requestedProvider;
+  const provider: PhotoAiProviderName = isPhotoAiProviderName(requestedProvider)
+    ? requestedProvider
+    : "gemini";
+  const isGemini = provider === "gemini";
+  const apiKey = isGemini
+    ? readEnvString(context, "GEMINI_API_KEY")
+    : provider === "openai"
+      ? readEnvString(context, "OPENAI_API_KEY")
+      : undefined;
+  const apiBaseUrl = provider === "openai"
+    ? readEnvString(context, "OPENAI_BASE_URL")
+    : provider === "ollama"
+      ? readEnvString(context, "OLLAMA_BASE_URL")
+      : undefined;
+  // Gemini and OpenAI need the user's own key; a self-hosted server only needs its URL.
+  const ready = provider === "ollama" || Boolean(apiKey) || (provider === "openai" && Boolean(apiBaseUrl));
   const enabledValue = readEnvString(context, "PHOTO_AI_ENABLED");
   const explicitlyDisabled = /^(0|false|no|off)$/i.test(enabledValue ?? "");
-  const enabled = Boolean(apiKey) && !explicitlyDisabled;
-  const dimensionValue =
-    readEnvString(context, "GEMINI_EMBEDDING_DIMENSIONS") ??
-    envRecord(context).GEMINI_EMBEDDING_DIMENSIONS;
-  const parsedDimensions = Number(dimensionValue ?? DEFAULT_EMBEDDING_DIMENSIONS);
+  const enabled = ready && !invalidProvider && !explicitlyDisabled;
+  const defaults = defaultPhotoAiModels(provider);
   return {
+    provider,
+    invalidProvider,
     enabled,
     apiKey,
-    analysisModel: readEnvString(context, "GEMINI_ANALYSIS_MODEL") ?? DEFAULT_ANALYSIS_MODEL,
-    embeddingModel: readEnvString(context, "GEMINI_EMBEDDING_MODEL") ?? DEFAULT_EMBEDDING_MODEL,
-    embeddingDimensions: Number.isSafeInteger(parsedDimensions)
-      ? parsedDimensions
-      : DEFAULT_EMBEDDING_DIMENSIONS,
+    apiBaseUrl,
+    analysisModel:
+      readEnvString(context, "PHOTO_AI_ANALYSIS_MODEL") ??
+      (isGemini ? readEnvString(context, "GEMINI_ANALYSIS_MODEL") : undefined) ??
+      defaults.analysisModel,
+    embeddingModel:
+      readEnvString(context, "PHOTO_AI_EMBEDDING_MODEL") ??
+      (isGemini ? readEnvString(context, "GEMINI_EMBEDDING_MODEL") : undefined) ??
+      defaults.embeddingModel,
+    embeddingDimensions:
+      readDimensions(context, "PHOTO_AI_EMBEDDING_DIMENSIONS") ??
+      (isGemini ? readDimensions(context, "GEMINI_EMBEDDING_DIMENSIONS") : undefined) ??
+      DEFAULT_EMBEDDING_DIMENSIONS,
   };
 }
 
+function disabledReason(config: PhotoAiConfiguration): string {
+  if (config.invalidProvider) {
+    return `Unknown PHOTO_AI_PROVIDER "${config.invalidProvider}". Use gemini, openai or ollama`;
+  }
+  if (config.provider === "openai" && !config.apiKey && !config.apiBaseUrl) {
+    return "Photo AI is disabled. Add OPENAI_API_KEY, or OPENAI_BASE_URL for a self-hosted server";
+  }
+  if (config.provider === "gemini" && !config.apiKey) {
+    return "Photo AI is disabled. Add your own GEMINI_API_KEY to enable this optional feature";
+  }
+  return "Photo AI is disabled by PHOTO_AI_ENABLED";
+}
+
+function embeddingModelSpace(config: Pick<PhotoAiConfiguration, "embeddingModel" | "embeddingDimensions">): string {
+  return `${config.embeddingModel}:${config.embeddingDimensions}`;
+}
+
 /** Photo AI is opt-in: a user-supplied key enables it unless explicitly disabled. */
 export function isPhotoAiEnabled(context: PhotoAiContext): boolean {
   return getPhotoAiConfiguration(context).enabled;
 }
 
+export type FaceAiConfiguration = ReturnType<typeof getFaceAiConfiguration>;
+
+/** Faces are only detected when FACE_AI_PROVIDER names a provider. */
+export function getFaceAiConfiguration(context: PhotoAiContext) {
+  const requestedProvider = readEnvString(context, "FACE_AI_PROVIDER")?.toLowerCase();
+  const provider: FaceDetectionProviderName | undefined = isFaceDetectionProviderName(requestedProvider)
+    ? requestedProvider
+    : undefined;
+  const apiBaseUrl = provider === "compreface" ? readEnvString(context, "COMPREFACE_BASE_URL") : undefined;
+  const apiKey = provider === "compreface" ? readEnvString(context, "COMPREFACE_API_KEY") : undefined;
+  return {
+    provider,
+    invalidProvider: requestedProvider && !provider ? requestedProvider : undefined,
+    enabled: provider === "local" || (provider === "compreface" && Boolean(apiBaseUrl && apiKey)),
+    apiBaseUrl,
+    apiKey,
+    embeddingDimensions: readDimensions(context, "FACE_AI_EMBEDDING_DIMENSIONS"),
+  };
+}
+
+function faceSetupMessage(config: FaceAiConfiguration): string | undefined {
+  if (config.invalidProvider) {
+    return `Unknown FACE_AI_PROVIDER "${config.invalidProvider}". Use compreface or local`;
+  }
+  if (config.provider === "compreface" && !config.enabled) {
+    return "Face detection needs COMPREFACE_BASE_URL and COMPREFACE_API_KEY";
+  }
+  return undefined;
+}
+
 function getPhotoAiEnv(context: PhotoAiContext): PhotoAiEnv {
   return envRecord(context) as PhotoAiEnv;
 }
 
-function createRuntime(context: PhotoAiContext, requireGemini = true): PhotoAiRuntime {
+function createRuntime(context: PhotoAiContext, requireProvider = true): PhotoAiRuntime {
   const storage = getStorage(context as Parameters<typeof getStorage>[0]);
   const config = getPhotoAiConfiguration(context);
-  if (requireGemini && !config.enabled) {
-    throw new AiConfigurationError(
-      "Photo AI is disabled. Add your own GEMINI_API_KEY to enable this optional feature",
-    );
-  }
-  if (requireGemini && !config.apiKey) {
-    throw new AiConfigurationError("GEMINI_API_KEY is not configured");
+  if (requireProvider && !config.enabled) {
+    throw new AiConfigurationError(disabledReason(config));
   }
 
   // A placeholder is safe only for operations that never invoke the provider.
-  const provider = new GeminiPhotoAiProvider({
-    apiKey: config.apiKey ?? "not-configured-for-read-only-operation",
+  const provider = createPhotoAiProvider({
+    provider: config.provider,
+    apiKey: config.apiKey ??
+      (config.provider === "ollama" || config.apiBaseUrl ? undefined : "not-configured-for-read-only-operation"),
+    apiBaseUrl: config.apiBaseUrl,
     analysisModel: config.analysisModel,
     embeddingModel: config.embeddingModel,
     embeddingDimensions: config.embeddingDimensions,
   });
+  const faceConfig = getFaceAiConfiguration(context);
+  const faceProvider = faceConfig.enabled && faceConfig.provider
+    ? createFaceDetectionProvider({
+        provider: faceConfig.provider,
+        apiBaseUrl: faceConfig.apiBaseUrl,
+        apiKey: faceConfig.apiKey,
+        embeddingDimensions: faceConfig.embeddingDimensions,
+      })
+    : undefined;
   const env = getPhotoAiEnv(context);
   return {
     storage,
     env,
     provider,
+    faceProvider,
     recordStore: new AiRecordStore(storage),
     vectorIndex: createPhotoVectorIndex(env, storage, {
       dimensions: config.embeddingDimensions,
-      defaultModelSpace: `${config.embeddingModel}:${config.embeddingDimensions}`,
+      defaultModelSpace: embeddingModelSpace(config),
       defaultNamespace: "photos",
     }),
   };
 }
 
+/**
+ * Compares the vector index with the configured embedding size. Vectors of
+ * different models already live in separate model spaces; a different size
+ * needs an index built for it.
+ */
+async function describeVectorCompatibility(runtime: PhotoAiRuntime): Promise<{
+  backend: string;
+  dimensions?: number;
+  mismatch?: string;
+}> {
+  const expected = runtime.provider.embeddingDimensions;
+  const description = await runtime.vectorIndex.describe();
+  if (description.dimensions === expected) {
+    return { backend: description.backend, dimensions: description.dimensions };
+  }
+  return {
+    backend: description.backend,
+    dimensions: description.dimensions,
+    mismatch: description.backend === "cloudflare-vectorize"
+      ? `The PHOTO_VECTORS index stores ${description.dimensions}-dimension vectors, but ${runtime.provider.embeddingModel} is configured for ${expected}. Bind a Vectorize index with ${expected} dimensions, or set PHOTO_AI_EMBEDDING_DIMENSIONS=${description.dimensions}.`
+      : `The files-first vector index stores ${description.dimensions}-dimension vectors, but ${runtime.provider.embeddingModel} is configured for ${expected}. Analyzing photos rebuilds it.`,
+  };
+}
+
+/**
+ * Runs before any photo is embedded. The rebuildable files-first index is
+ * cleared so every photo is re-embedded at the new size; Vectorize indexes
+ * have a fixed size, so work stops until a matching index is bound.
+ */
+async function prepareVectorIndexForEmbedding(runtime: PhotoAiRuntime): Promise<void> {
+  const compatibility = await describeVectorCompatibility(runtime);
+  if (!compatibility.mismatch) return;
+  if (compatibility.backend !== "files-first") {
+    throw new AiConfigurationError(compatibility.mismatch);
+  }
+  console.info(
+    `[Photo AI] Rebuilding the files-first vector index at ${runtime.provider.embeddingDimensions} dimensions`,
+  );
+  await runtime.storage.delete(FILES_FIRST_VECTOR_INDEX_KEY);
+}
+
+/** Drops vectors left in an older model space before their replacements are written. */
+async function deleteReplacedVectors(
+  runtime: PhotoAiRuntime,
+  prepared: ReadonlyArray<PreparedPhotoAnalysis | undefined>,
+): Promise<void> {
+  const idsBySpace = new Map<string, string[]>();
+  for (const replaced of prepared.map((item) => item?.replacedVector)) {
+    if (!replaced) continue;
+    idsBySpace.set(replaced.modelSpace, [...(idsBySpace.get(replaced.modelSpace) ?? []), replaced.id]);
+  }
+  for (const [modelSpace, ids] of idsBySpace) {
+    try {
+      await runtime.vectorIndex.delete(ids, { modelSpace, namespace: "photos" });
+    } catch (error) {
+      console.warn("[Photo AI] Could not remove vectors from a previous model", error);
+    }
+  }
+}
+
 function flattenPhotoSources(galleries: readonly GalleryDataEntry[]): IndexedPhotoSource[] {
   return galleries.flatMap((gallery) =>
     gallery.photos
@@ -333,12 +546,6 @@ function findPhotoSource(
   return flattenPhotoSources(galleries).find((source) => source.photo.path === path);
 }
 
-function imageMimeType(path: string): "image/jpeg" | "image/png" {
-  if (/\.png$/i.test(path)) return "image/png";
-  if (/\.jpe?g$/i.test(path)) return "image/jpeg";
-  throw new Error(`Gemini Embedding 2 cannot index this image format: ${path}`);
-}
-
 async function loadRecordMap(
   store: AiRecordStore,
   galleries: readonly GalleryDataEntry[],
@@ -349,12 +556,23 @@ async function loadRecordMap(
   return new Map(files.flat().map((record) => [record.asset.sourcePath, record]));
 }
 
+function hasCurrentFaces(
+  record: PhotoAiRecord,
+  faceProvider: FaceDetectionProvider | undefined,
+): boolean {
+  return !faceProvider || (
+    record.faces?.model === faceProvider.model &&
+    record.faces.sourceFingerprint === record.asset.sourceFingerprint
+  );
+}
+
 function isCurrentRecord(
   record: PhotoAiRecord | undefined,
   source: IndexedPhotoSource,
   taxonomyVersion: string,
-  config: ReturnType<typeof getPhotoAiConfiguration>,
+  config: Pick<PhotoAiConfiguration, "analysisModel" | "embeddingModel" | "embeddingDimensions">,
   promptVersion: string,
+  faceProvider?: FaceDetectionProvider,
 ): boolean {
   if (!record?.analysis || !record.embedding) return false;
   const sourceIdentityIsCurrent = source.photo.sourceFingerprint
@@ -368,7 +586,8 @@ function isCurrentRecord(
     record.analysis.taxonomyVersion === taxonomyVersion &&
     record.embedding.status === "ready" &&
     record.embedding.model === config.embeddingModel &&
-    record.embedding.dimensions === config.embeddingDimensions
+    record.embedding.dimensions === config.embeddingDimensions &&
+    hasCurrentFaces(record, faceProvider)
   );
 }
 
@@ -388,6 +607,7 @@ export async function startPhotoAiJob(context: PhotoAiContext): Promise<{
   remaining: number;
 }> {
   const runtime = createRuntime(context);
+  await prepareVectorIndexForEmbedding(runtime);
   const content = await getContentIndex(runtime.storage);
   const taxonomy = await buildGalleryTaxonomyCatalog(content.galleryData);
   const records = await loadRecordMap(runtime.recordStore, content.galleryData);
@@ -402,6 +622,7 @@ export async function startPhotoAiJob(context: PhotoAiContext): Promise<{
       taxonomy.version,
       config,
       runtime.provider.promptVersion,
+      runtime.faceProvider,
     ),
   );
   const job = createPhotoAiJob({
@@ -439,24 +660,68 @@ async function preparePhotoSourceAnalysis(
   const currentGallerySlugs = galleries
     .filter((gallery) => gallery.photos.some((photo) => photo.path === source.photo.path))
     .map((gallery) => gallery.slug);
-  const mimeType = imageMimeType(source.photo.path);
+  // Identity follows the original; models see its JPEG rendition if it has one
+  const image = await readPhotoAnalysisImage(runtime.storage, source.photo.path, bytes);
+  if (!image) throw new Error(`Photo AI cannot index this image format: ${source.photo.path}`);
+  const { mimeType } = image;
+  const isRendition = image.bytes !== bytes;
+  const { provider } = runtime;
+  const previousEmbedding = existingRecord?.embedding?.status === "ready"
+    ? existingRecord.embedding
+    : undefined;
+  const isSameModelSpace =
+    previousEmbedding?.model === provider.embeddingModel &&
+    previousEmbedding.dimensions === provider.embeddingDimensions;
+  const facesAreStale = Boolean(
+    runtime.faceProvider && existingRecord && !hasCurrentFaces(existingRecord, runtime.faceProvider),
+  );
+  const faces = await detectPhotoFaces(
+    runtime,
+    source,
+    identity,
+    image.bytes,
+    mimeType,
+    isRendition,
+    existingRecord,
+  );
+  // A record that was only missing faces keeps its analysis and embedding.
+  if (
+    facesAreStale &&
+    existingRecord?.analysis &&
+    isCurrentRecord(existingRecord, source, taxonomy.version, provider, provider.promptVersion)
+  ) {
+    return {
+      source,
+      identity,
+      analysis: existingRecord.analysis,
+      embeddingReference: existingRecord.embedding!,
+      faces,
+      taxonomyVersion: taxonomy.version,
+    };
+  }
+
+  // Caption embeddings follow the new analysis, so only image embeddings are reused.
   const canReuseEmbedding =
-    existingRecord?.embedding?.status === "ready" &&
-    existingRecord.embedding.model === runtime.provider.embeddingModel &&
-    existingRecord.embedding.dimensions === runtime.provider.embeddingDimensions &&
-    existingRecord.embedding.sourceFingerprint === identity.sourceFingerprint;
-  const [analysis, embedding] = await Promise.all([
-    runtime.provider.analyzePhoto({
-      image: bytes,
+    provider.embedsImages &&
+    isSameModelSpace &&
+    previousEmbedding?.sourceFingerprint === identity.sourceFingerprint;
+  const altTextLocales = siteLocales(await readSiteLanguageSettings(runtime.storage));
+  const [analysis, imageEmbedding] = await Promise.all([
+    provider.analyzePhoto({
+      image: image.bytes,
       mimeType,
       taxonomy,
       currentGallerySlugs,
       language: "es",
+      altTextLocales,
     }),
-    canReuseEmbedding
+    canReuseEmbedding || !provider.embedsImages
       ? Promise.resolve(null)
-      : runtime.provider.embedImage({ image: bytes, mimeType }),
+      : provider.embedImage({ image: image.bytes, mimeType }),
   ]);
+  const embedding = provider.embedsImages
+    ? imageEmbedding
+    : await provider.embedText({ text: analysisEmbeddingText(analysis) });
 
   const embeddingReference = embedding
     ? {
@@ -474,7 +739,14 @@ async function preparePhotoSourceAnalysis(
     identity,
     analysis,
     embeddingReference,
+    faces,
     taxonomyVersion: taxonomy.version,
+    replacedVector: embedding && previousEmbedding && !isSameModelSpace
+      ? {
+          id: previousEmbedding.vectorId,
+          modelSpace: `${previousEmbedding.model}:${previousEmbedding.dimensions}`,
+        }
+      : undefined,
     vector: embedding
       ? {
           id: identity.assetId,
@@ -491,6 +763,54 @@ async function preparePhotoSourceAnalysis(
   };
 }
 
+async function readImageSize(
+  source: IndexedPhotoSource,
+  bytes: ArrayBuffer,
+  isRendition: boolean,
+): Promise<{ width: number; height: number }> {
+  // A rendition (e.g. a RAW preview) need not match the original's size
+  const { width, height } = (isRendition ? undefined : source.photo.exif) ?? {};
+  if (width && height) return { width, height };
+  const metadata = await extractImageMetadata(bytes);
+  if (metadata?.exif.imageWidth && metadata.exif.imageHeight) {
+    return { width: metadata.exif.imageWidth, height: metadata.exif.imageHeight };
+  }
+  throw new Error(`Photo size is unknown, so face boxes cannot be placed: ${source.photo.path}`);
+}
+
+/**
+ * Faces are detected once per source fingerprint and face model. Without a
+ * face provider, faces found earlier stay in the record untouched.
+ */
+async function detectPhotoFaces(
+  runtime: PhotoAiRuntime,
+  source: IndexedPhotoSource,
+  identity: PhotoAssetIdentity,
+  bytes: ArrayBuffer,
+  mimeType: "image/jpeg" | "image/png",
+  isRendition: boolean,
+  existingRecord: PhotoAiRecord | null | undefined,
+): Promise<PhotoFacesProjection | undefined> {
+  const { faceProvider } = runtime;
+  if (!faceProvider || (existingRecord && hasCurrentFaces(existingRecord, faceProvider))) {
+    return existingRecord?.faces;
+  }
+  const { width, height } = await readImageSize(source, bytes, isRendition);
+  const detected = await faceProvider.detectFaces({ image: bytes, mimeType, width, height });
+  return {
+    model: faceProvider.model,
+    dimensions: faceProvider.embeddingDimensions,
+    sourceFingerprint: identity.sourceFingerprint,
+    generatedAt: new Date().toISOString(),
+    faces: detected.map((face, index) => ({
+      faceId: `${identity.assetId}#${index}`,
+      box: face.box,
+      confidence: face.confidence,
+      embedding: face.embedding,
+    })),
+  };
+}
+
 function createPreparedPhotoRecord(
   prepared: PreparedPhotoAnalysis,
 ): PhotoAiRecord {
@@ -498,6 +818,7 @@ function createPreparedPhotoRecord(
     asset: prepared.identity,
     analysis: prepared.analysis,
     embedding: prepared.embeddingReference,
+    faces: prepared.faces,
   });
 }
 
@@ -520,6 +841,10 @@ function createPreparedSearchDocument(
     aiTags: [...(record.analysis?.tags ?? [])],
     tags: mergeSearchTags(source.photo.tags, record.analysis?.tags),
     year: source.photo.year,
+    camera: source.photo.exif?.camera,
+    lens: source.photo.exif?.lens,
+    country: source.photo.exif?.country,
+    city: source.photo.exif?.city,
     hidden: source.photo.hidden === true,
     protected: source.gallery.isProtected,
     vectorId: identity.assetId,
@@ -557,6 +882,7 @@ async function analyzePhotoSource(
 ): Promise<{ record: PhotoAiRecord; document: PhotoAiSearchDocument }> {
   const taxonomy = await buildGalleryTaxonomyCatalog(galleries);
   const prepared = await preparePhotoSourceAnalysis(runtime, source, galleries, taxonomy);
+  await deleteReplacedVectors(runtime, [prepared]);
   if (prepared.vector) await runtime.vectorIndex.upsert([prepared.vector]);
   const stored = await storePreparedPhotoAnalysis(runtime, prepared);
   await upsertPhotoAiSearchDocument(runtime.storage, stored.document);
@@ -571,6 +897,8 @@ export async function processPhotoAiJobBatch(
   processed: number;
   done: boolean;
   remaining: number;
+  /** Suggestions the gallery rules accepted in this batch. */
+  autoAccepted: number;
 }> {
   const runtime = createRuntime(context);
   const content = await getContentIndex(runtime.storage);
@@ -578,8 +906,17 @@ export async function processPhotoAiJobBatch(
   if (!job) job = (await startPhotoAiJob(context)).job;
 
   const taxonomy = await buildGalleryTaxonomyCatalog(content.galleryData);
-  if (job.taxonomyVersion !== taxonomy.version) {
+  // A provider or model switch restarts the job, so every photo is re-embedded
+  // into the new model space instead of mixing vectors from two models.
+  if (
+    job.taxonomyVersion !== taxonomy.version ||
+    job.analysisModel !== runtime.provider.analysisModel ||
+    job.embeddingModel !== runtime.provider.embeddingModel ||
+    job.embeddingDimensions !== runtime.provider.embeddingDimensions
+  ) {
     job = (await startPhotoAiJob(context)).job;
+  } else {
+    await prepareVectorIndexForEmbedding(runtime);
   }
 
   const items = nextPendingPhotoAiItems(job, batchSize);
@@ -618,6 +955,7 @@ export async function processPhotoAiJobBatch(
   }
 
   const vectorResults = preparedResults.filter((result) => result.prepared?.vector);
+  await deleteReplacedVectors(runtime, vectorResults.map((result) => result.prepared));
   if (vectorResults.length > 0) {
     try {
       await runtime.vectorIndex.upsert(
@@ -693,17 +1031,33 @@ export async function processPhotoAiJobBatch(
   const summary = summarizePhotoAiJob(job);
   job.status = summary.done ? "completed" : "running";
   await writePhotoAiJob(runtime.storage, job);
+  if (summary.done && runtime.faceProvider && items.length > 0) {
+    try {
+      await clusterStoredFaces(runtime, content.galleryData);
+    } catch (error) {
+      // People can be re-clustered from the admin; the analysis itself succeeded.
+      console.warn("[Photo AI] Could not cluster faces", error);
+    }
+  }
   const completedPaths = storedResults
     .filter((result) => result.item.status === "completed")
     .map((result) => result.item.path);
+  let autoAccepted = 0;
   if (completedPaths.length > 0) {
     await enqueuePhotoMetadataWritebacks(context, completedPaths, "ai-analysis");
+    try {
+      autoAccepted = (await applyGalleryRules(context, { paths: completedPaths })).accepted.length;
+    } catch (error) {
+      // Rules can be applied again from the admin; the analysis itself succeeded.
+      console.warn("[Photo AI] Could not apply gallery rules", error);
+    }
   }
   return {
     job,
     processed: items.length,
     done: summary.done,
     remaining: summary.pending,
+    autoAccepted,
   };
 }
 
@@ -715,6 +1069,7 @@ export async function analyzePhotoByPath(
   const content = await getContentIndex(runtime.storage);
   const source = findPhotoSource(content.galleryData, path);
   if (!source) throw new Error("Photo was not found");
+  await prepareVectorIndexForEmbedding(runtime);
   const record = (await analyzePhotoSource(runtime, source, content.galleryData)).record;
   await enqueuePhotoMetadataWritebacks(context, [path], "ai-analysis");
   return record;
@@ -763,6 +1118,52 @@ export async function reviewPhotoGallerySuggestion(
   return record;
 }
 
+async function findPhotoRecordByPath(
+  runtime: PhotoAiRuntime,
+  path: string,
+): Promise<{ source: IndexedPhotoSource; record?: PhotoAiRecord }> {
+  const content = await getContentIndex(runtime.storage);
+  const source = findPhotoSource(content.galleryData, path);
+  if (!source) throw new Error("Photo was not found");
+  const records = await runtime.recordStore.listGalleryRecords(source.gallery.slug);
+  return { source, record: records.find((record) => record.asset.sourcePath === path) };
+}
+
+/** Generated alt text of one photo for the admin photo editor. */
+export async function getPhotoAltTextSuggestions(
+  context: PhotoAiContext,
+  path: string,
+): Promise<PhotoAltTextSuggestion[]> {
+  const runtime = createRuntime(context, false);
+  const { record } = await findPhotoRecordByPath(runtime, path);
+  return record?.analysis?.altText ?? [];
+}
+
+/**
+ * Records the review of one locale's alt text. Approval only marks the
+ * suggestion; the photo editor saves the approved text to photos.yaml.
+ */
+export async function reviewPhotoAltText(
+  context: PhotoAiContext,
+  path: string,
+  locale: string,
+  decision: "approved" | "rejected",
+  text?: string,
+): Promise<PhotoAiRecord> {
+  const runtime = createRuntime(context, false);
+  const { source, record } = await findPhotoRecordByPath(runtime, path);
+  if (!record) throw new Error("Analyzed photo was not found");
+  const reviewed = await runtime.recordStore.reviewAltText(
+    source.gallery.slug,
+    record.asset.assetId,
+    locale,
+    decision,
+    text,
+  );
+  await enqueuePhotoMetadataWritebacks(context, [path], "ai-review");
+  return reviewed;
+}
+
 export async function getPhotoAiDashboard(context: PhotoAiContext) {
   const runtime = createRuntime(context, false);
   const config = getPhotoAiConfiguration(context);
@@ -785,16 +1186,21 @@ export async function getPhotoAiDashboard(context: PhotoAiContext) {
       taxonomy.version,
       config,
       runtime.provider.promptVersion,
+      runtime.faceProvider,
     ),
   );
 
   let vectorBackend = "files-first";
+  let vectorMismatch: string | undefined;
   try {
-    vectorBackend = (await runtime.vectorIndex.describe()).backend;
+    const compatibility = await describeVectorCompatibility(runtime);
+    vectorBackend = compatibility.backend;
+    vectorMismatch = compatibility.mismatch;
   } catch {
     // The dashboard remains usable while a remote vector binding is unavailable.
   }
 
+  const people = await getPhotoPeopleDashboard(runtime, context, content.galleryData);
   const records: PhotoAiDashboardRecord[] = [];
   for (const [path, record] of recordMap) {
     const source = findPhotoSource(content.galleryData, path);
@@ -815,6 +1221,7 @@ export async function getPhotoAiDashboard(context: PhotoAiContext) {
             taxonomy.version,
             config,
             runtime.provider.promptVersion,
+            runtime.faceProvider,
           )
           ? "completed"
           : "pending",
@@ -834,10 +1241,13 @@ export async function getPhotoAiDashboard(context: PhotoAiContext) {
   const failed = failureByPath.size;
   return {
     enabled: config.enabled,
-    configured: config.enabled && Boolean(config.apiKey),
+    configured: config.enabled,
+    provider: config.provider,
+    setupMessage: config.enabled ? undefined : disabledReason(config),
     model: config.analysisModel,
     embeddingModel: `${config.embeddingModel} (${config.embeddingDimensions}d)`,
     vectorBackend,
+    vectorMismatch,
     summary: {
       total: sources.length,
       eligible: eligibleSources.length,
@@ -847,9 +1257,175 @@ export async function getPhotoAiDashboard(context: PhotoAiContext) {
       skippedProtected: sources.length - eligibleSources.length,
     },
     records,
+    people,
+  };
+}
+
+interface StoredPhotoFace extends ClusterableFace {
+  path: string;
+  gallerySlug: string;
+  box: FaceBox;
+}
+
+async function loadStoredFaces(
+  runtime: PhotoAiRuntime,
+  galleries: readonly GalleryDataEntry[],
+  model: string,
+): Promise<Map<string, StoredPhotoFace>> {
+  const records = await loadRecordMap(runtime.recordStore, galleries);
+  const faces = new Map<string, StoredPhotoFace>();
+  for (const [path, record] of records) {
+    // Faces from another model cannot be compared with the current ones.
+    if (record.faces?.model !== model) continue;
+    for (const face of record.faces.faces) {
+      faces.set(face.faceId, { ...face, path, gallerySlug: record.asset.gallerySlug });
+    }
+  }
+  return faces;
+}
+
+async function clusterStoredFaces(
+  runtime: PhotoAiRuntime,
+  galleries: readonly GalleryDataEntry[],
+): Promise<PhotoPeopleIndex> {
+  const faceProvider = runtime.faceProvider!;
+  const [faces, previous] = await Promise.all([
+    loadStoredFaces(runtime, galleries, faceProvider.model),
+    readPhotoPeopleIndex(runtime.storage),
+  ]);
+  const people = clusterPhotoFaces(previous, Array.from(faces.values()), {
+    model: faceProvider.model,
+    matchThreshold: faceProvider.matchThreshold,
+  });
+  await writePhotoPeopleIndex(runtime.storage, people);
+  return people;
+}
+
+function requireFaceProvider(runtime: PhotoAiRuntime, context: PhotoAiContext): FaceDetectionProvider {
+  if (!runtime.faceProvider) {
+    throw new AiConfigurationError(
+      faceSetupMessage(getFaceAiConfiguration(context)) ??
+        "Face detection is disabled. Set FACE_AI_PROVIDER to enable this optional feature",
+    );
+  }
+  return runtime.faceProvider;
+}
+
+/** Re-clusters every stored face; names and suppressions are kept. */
+export async function reclusterPhotoFaces(context: PhotoAiContext): Promise<{ people: number }> {
+  const runtime = createRuntime(context, false);
+  requireFaceProvider(runtime, context);
+  const content = await getContentIndex(runtime.storage);
+  const people = await clusterStoredFaces(runtime, content.galleryData);
+  return { people: Object.keys(people.people).length };
+}
+
+export async function updatePhotoPersonByAdmin(
+  context: PhotoAiContext,
+  personId: string,
+  update: PhotoPersonUpdate,
+): Promise<PhotoPerson> {
+  const runtime = createRuntime(context, false);
+  const people = await readPhotoPeopleIndex(runtime.storage);
+  if (!people) throw new Error("Faces have not been clustered yet");
+  const person = updatePhotoPerson(people, personId, update);
+  await writePhotoPeopleIndex(runtime.storage, people);
+  return person;
+}
+
+export interface PhotoPeopleDashboardPerson {
+  personId: string;
+  name?: string;
+  suppressed: boolean;
+  public: boolean;
+  photoCount: number;
+  cover?: { path: string; box: FaceBox };
+}
+
+/** Admin-only view of the people clusters; embeddings are never returned. */
+async function getPhotoPeopleDashboard(
+  runtime: PhotoAiRuntime,
+  context: PhotoAiContext,
+  galleries: readonly GalleryDataEntry[],
+) {
+  const faceConfig = getFaceAiConfiguration(context);
+  const people = await readPhotoPeopleIndex(runtime.storage);
+  const faces = people
+    ? await loadStoredFaces(runtime, galleries, people.model)
+    : new Map<string, StoredPhotoFace>();
+  const persons: PhotoPeopleDashboardPerson[] = Object.values(people?.people ?? {}).map((person) => {
+    const cover = person.coverFaceId ? faces.get(person.coverFaceId) : undefined;
+    return {
+      personId: person.personId,
+      name: person.name,
+      suppressed: person.suppressed,
+      public: isPublicPhotoPerson(person),
+      photoCount: new Set(person.faceIds.map((faceId) => faces.get(faceId)?.path).filter(Boolean)).size,
+      cover: cover ? { path: cover.path, box: cover.box } : undefined,
+    };
+  });
+  persons.sort((left, right) =>
+    Number(left.suppressed) - Number(right.suppressed) ||
+    right.photoCount - left.photoCount ||
+    left.personId.localeCompare(right.personId),
+  );
+  return {
+    enabled: Boolean(runtime.faceProvider),
+    provider: faceConfig.provider,
+    model: runtime.faceProvider?.model ?? people?.model,
+    setupMessage: faceSetupMessage(faceConfig),
+    people: persons,
   };
 }
 
+export interface PublicPhotoPerson {
+  personId: string;
+  name: string;
+  photos: Array<{ path: string; gallerySlug: string; filename: string }>;
+}
+
+/**
+ * Published people with the photos they may be shown in. Faces in hidden
+ * photos or in protected, private or unpublished galleries never reveal that
+ * a person appears there.
+ */
+export function collectPublicPhotoPeople(
+  people: readonly PhotoPerson[],
+  faces: ReadonlyMap<string, { path: string }>,
+  galleries: readonly GalleryDataEntry[],
+  now: Date = new Date(),
+): PublicPhotoPerson[] {
+  return people.filter(isPublicPhotoPerson).flatMap((person): PublicPhotoPerson[] => {
+    const photos = new Map<string, PublicPhotoPerson["photos"][number]>();
+    for (const faceId of person.faceIds) {
+      const face = faces.get(faceId);
+      const source = face ? findPhotoSource(galleries, face.path) : undefined;
+      if (!source || source.photo.hidden || !isPublicPhotoGallery(source.gallery, now)) continue;
+      photos.set(source.photo.path, {
+        path: source.photo.path,
+        gallerySlug: source.gallery.slug,
+        filename: source.photo.filename,
+      });
+    }
+    return photos.size > 0
+      ? [{ personId: person.personId, name: person.name!, photos: Array.from(photos.values()) }]
+      : [];
+  }).sort((left, right) => left.name.localeCompare(right.name));
+}
+
+/** People the admin chose to publish, with their public photos only. */
+export async function getPublicPhotoPeople(context: PhotoAiContext): Promise<PublicPhotoPerson[]> {
+  const runtime = createRuntime(context, false);
+  const people = await readPhotoPeopleIndex(runtime.storage);
+  if (!people) return [];
+  const published = Object.values(people.people).filter(isPublicPhotoPerson);
+  if (published.length === 0) return [];
+
+  const content = await getContentIndex(runtime.storage);
+  const faces = await loadStoredFaces(runtime, content.galleryData, people.model);
+  return collectPublicPhotoPeople(published, faces, content.galleryData);
+}
+
 /** Builds a server-side 2D projection; raw embeddings are never returned. */
 export async function getPhotoAiMap(context: PhotoAiContext): Promise<PhotoAiMapData> {
   const runtime = createRuntime(context, false);
@@ -965,7 +1541,7 @@ export async function enqueueUploadedPhotosForAi(
 ): Promise<void> {
   if (paths.length === 0) return;
   const feature = getPhotoAiConfiguration(context);
-  if (!feature.enabled || !feature.apiKey) return;
+  if (!feature.enabled) return;
   const runtime = createRuntime(context, false);
   const content = await getContentIndex(runtime.storage);
   const taxonomy = await buildGalleryTaxonomyCatalog(content.galleryData);
@@ -980,6 +1556,7 @@ export async function enqueueUploadedPhotosForAi(
     !job ||
     job.analysisModel !== config.analysisModel ||
     job.embeddingModel !== config.embeddingModel ||
+    job.embeddingDimensions !== config.embeddingDimensions ||
     job.taxonomyVersion !== taxonomy.version
   ) {
     job = createPhotoAiJob({
@@ -1040,7 +1617,7 @@ export async function removePhotoAiProjectionsByPaths(
   }
 }
 
-/** Keeps hidden photos out of public AI results without re-running Gemini. */
+/** Keeps hidden photos out of public AI results without re-running the model. */
 export async function setPhotoAiVisibilityByPaths(
   context: PhotoAiContext,
   paths: readonly string[],
@@ -1110,10 +1687,12 @@ export async function getSimilarPhotoDocuments(
   const index = await readPhotoAiSearchIndex(runtime.storage);
   const source = findPhotoAiSearchDocumentByPath(index, path);
   if (!source || source.hidden || source.protected) return [];
+  // Photos analyzed by a previous model have no neighbours until re-embedded.
+  if (source.model !== runtime.provider.embeddingModel) return [];
 
   const result = await runtime.vectorIndex.queryById(source.vectorId, {
     topK: Math.min(50, Math.max(1, limit + 1)),
-    modelSpace: `${source.model}:${getPhotoAiConfiguration(context).embeddingDimensions}`,
+    modelSpace: embeddingModelSpace(runtime.provider),
     namespace: "photos",
     filter: { hidden: false, protected: false },
     includeQueryVector: false,
@@ -1126,82 +1705,106 @@ export async function getSimilarPhotoDocuments(
     .slice(0, limit);
 }
 
-const PHOTO_SEARCH_ALIASES = [
-  ["hat", "hats", "sombrero", "sombreros", "montera"],
-  ["man", "men", "hombre", "hombres"],
-  ["woman", "women", "mujer", "mujeres"],
-  ["child", "children", "kid", "kids", "nino", "nina", "ninos", "ninas"],
-  ["street", "streets", "calle", "calles"],
-  ["city", "cities", "ciudad", "ciudades"],
-  ["night", "nights", "noche", "noches"],
-  ["sunset", "sunsets", "atardecer", "atardeceres"],
-  ["wedding", "weddings", "boda", "bodas"],
-  ["portrait", "portraits", "retrato", "retratos"],
-] as const;
-
-const PHOTO_SEARCH_ALIAS_LOOKUP: ReadonlyMap<string, readonly string[]> = new Map(
-  PHOTO_SEARCH_ALIASES.flatMap((group) => group.map((token) => [token, group] as const)),
-);
-
-function normalizeSearchText(value: string): string {
-  return value
-    .normalize("NFD")
-    .replace(/\p{Diacritic}/gu, "")
-    .toLocaleLowerCase();
-}
-
-function searchTokens(value: string): string[] {
-  return normalizeSearchText(value).match(/[\p{L}\p{N}]+/gu) ?? [];
-}
-
-function lexicalScore(document: PhotoAiSearchDocument, query: string): number {
-  const queryTokens = searchTokens(query).filter((token) => token.length > 1);
-  if (queryTokens.length === 0) return 0;
-  const haystack = new Set(searchTokens([
-    document.title,
-    document.description,
-    document.aiDescription,
-    document.caption,
-    document.galleryTitle,
-    ...document.tags,
-  ].filter(Boolean).join(" ")));
-  const matchedTokens = queryTokens.filter((token) => {
-    const aliases = PHOTO_SEARCH_ALIAS_LOOKUP.get(token) ?? [token];
-    return aliases.some((alias) => haystack.has(alias));
+/**
+ * Resolves the `text` of every smart gallery against the vector index and
+ * re-materializes the smart galleries. Each text keeps its 50 nearest photos.
+ */
+export async function refreshSmartGalleryMatches(
+  context: PhotoAiContext,
+): Promise<{ galleries: number }> {
+  const storage = getStorage(context as Parameters<typeof getStorage>[0]);
+  const content = await getContentIndex(storage);
+  const smartGalleries = content.galleryData.filter((gallery) => gallery.query?.text);
+  const previous = await readSmartGalleryMatches(storage);
+  if (smartGalleries.length === 0 && Object.keys(previous).length === 0) return { galleries: 0 };
+
+  const matches: Record<string, SmartGallerySemanticMatches> = {};
+  if (smartGalleries.length > 0) {
+    const runtime = createRuntime(context);
+    const index = await readPhotoAiSearchIndex(storage);
+    for (const gallery of smartGalleries) {
+      const text = gallery.query!.text!;
+      const embedding = await runtime.provider.embedText({ text });
+      const result = await runtime.vectorIndex.query(embedding.values, {
+        topK: 50,
+        modelSpace: `${embedding.model}:${embedding.dimensions}`,
+        namespace: "photos",
+        filter: { hidden: false, protected: false },
+      });
+      matches[gallery.slug] = {
+        text,
+        updatedAt: new Date().toISOString(),
+        matches: result.matches
+          .map((match) => ({ document: index.documents[match.id], score: match.score }))
+          .filter((item) => item.document && isPublicSearchDocument(item.document))
+          .map((item) => ({ path: item.document.path, score: item.score })),
+      };
+    }
+  }
+  await writeSmartGalleryMatches(storage, matches);
+  await refreshSmartGalleriesInIndex(storage);
+  return { galleries: smartGalleries.length };
+}
+
+export interface PhotoSearchOptions {
+  /** Shorthand for a single `gallery` facet filter. */
+  gallerySlug?: string;
+  filters?: PhotoSearchFilters;
+  /** Site locale whose stemmer reads the query. */
+  locale?: string;
+  limit?: number;
+}
+
+function isPublicSearchDocument(document: PhotoAiSearchDocument): boolean {
+  return !document.hidden && !document.protected;
+}
+
+function searchFilters(options: PhotoSearchOptions): PhotoSearchFilters {
+  const gallerySlug = options.gallerySlug?.trim();
+  return normalizePhotoSearchFilters({
+    ...options.filters,
+    gallery: [...(options.filters?.gallery ?? []), ...(gallerySlug ? [gallerySlug] : [])],
   });
-  return matchedTokens.length / queryTokens.length;
 }
 
-function matchesSearchGallery(
-  document: PhotoAiSearchDocument,
-  gallerySlug: string | undefined,
-): boolean {
-  if (!gallerySlug) return true;
-  return (
-    document.gallerySlug === gallerySlug ||
-    document.gallerySuggestions.some(
-      (suggestion) => suggestion.slug === gallerySlug && suggestion.status === "accepted",
-    )
-  );
+function searchLimit(limit: number | undefined): number {
+  return Math.min(50, Math.max(1, limit ?? 40));
 }
 
-export function rankPhotoDocumentsLexically(
+function rankByTerms(
+  terms: PhotoSearchTermIndex,
   documents: readonly PhotoAiSearchDocument[],
   query: string,
-  options: { gallerySlug?: string; limit?: number } = {},
+  locale: string,
 ): Array<{ document: PhotoAiSearchDocument; score: number }> {
-  const gallerySlug = options.gallerySlug?.trim();
-  const limit = Math.min(50, Math.max(1, options.limit ?? 40));
+  const scores = scorePhotoSearchTerms(terms, query, locale);
   return documents
-    .filter((document) =>
-      !document.hidden &&
-      !document.protected &&
-      matchesSearchGallery(document, gallerySlug),
-    )
-    .map((document) => ({ document, score: lexicalScore(document, query) }))
-    .filter((item) => item.score > 0)
-    .sort((a, b) => b.score - a.score || a.document.path.localeCompare(b.document.path))
-    .slice(0, limit);
+    .flatMap((document) => {
+      const score = scores.get(document.assetId);
+      return score ? [{ document, score }] : [];
+    })
+    .sort((a, b) => b.score - a.score || a.document.path.localeCompare(b.document.path));
+}
+
+/** BM25 ranking over an in-memory term index, without the persisted copy. */
+export function rankPhotoDocumentsLexically(
+  documents: readonly PhotoAiSearchDocument[],
+  query: string,
+  options: PhotoSearchOptions = {},
+): Array<{ document: PhotoAiSearchDocument; score: number }> {
+  const locale = options.locale ?? DEFAULT_LOCALE;
+  const terms = buildPhotoSearchTermIndex(
+    {
+      documents: Object.fromEntries(documents.map((document) => [document.assetId, document])),
+      updatedAt: "",
+    },
+    [locale],
+  );
+  const filters = searchFilters(options);
+  const candidates = documents.filter((document) =>
+    isPublicSearchDocument(document) && matchesPhotoSearchFilters(document, filters),
+  );
+  return rankByTerms(terms, candidates, query, locale).slice(0, searchLimit(options.limit));
 }
 
 function searchableErrorDetails(error: unknown): Record<string, unknown> {
@@ -1225,15 +1828,37 @@ function searchableErrorDetails(error: unknown): Record<string, unknown> {
 export async function searchPhotoDocuments(
   context: PhotoAiContext,
   query: string,
-  options: { gallerySlug?: string; limit?: number } = {},
+  options: PhotoSearchOptions = {},
 ) {
   const normalizedQuery = query.trim().slice(0, 500);
-  if (!normalizedQuery) return { photos: [], galleries: [], mode: "lexical" as const };
+  const filters = searchFilters(options);
+  if (!normalizedQuery) {
+    return {
+      photos: [],
+      galleries: [],
+      facets: countPhotoSearchFacets([], filters),
+      mode: "lexical" as const,
+    };
+  }
   const runtime = createRuntime(context);
-  const index = await readPhotoAiSearchIndex(runtime.storage);
-  const gallerySlug = options.gallerySlug?.trim();
+  const [index, languages] = await Promise.all([
+    readPhotoAiSearchIndex(runtime.storage),
+    readSiteLanguageSettings(runtime.storage),
+  ]);
+  const locales = siteLocales(languages);
+  const locale = options.locale && locales.includes(options.locale)
+    ? options.locale
+    : languages.defaultLocale;
+  const terms = await loadPhotoSearchTermIndex(runtime.storage, index, locales);
+  const lexical = rankByTerms(
+    terms,
+    Object.values(index.documents).filter(isPublicSearchDocument),
+    normalizedQuery,
+    locale,
+  );
+
   let mode: "semantic" | "lexical" = "semantic";
-  let photos: Array<{ document: PhotoAiSearchDocument; score: number }>;
+  let scores: Map<string, number>;
   try {
     const embedding = await runtime.provider.embedText({ text: normalizedQuery });
     const result = await runtime.vectorIndex.query(embedding.values, {
@@ -1242,39 +1867,35 @@ export async function searchPhotoDocuments(
       namespace: "photos",
       filter: { hidden: false, protected: false },
     });
-
-    photos = result.matches
-      .map((match) => ({ document: index.documents[match.id], vectorScore: match.score }))
-      .filter((item): item is { document: PhotoAiSearchDocument; vectorScore: number } =>
-        Boolean(
-          item.document &&
-          !item.document.hidden &&
-          !item.document.protected &&
-          matchesSearchGallery(item.document, gallerySlug),
-        ),
-      )
-      .map(({ document, vectorScore }) => ({
-        document,
-        score: vectorScore * 0.85 + lexicalScore(document, normalizedQuery) * 0.15,
-      }))
-      .sort((a, b) => b.score - a.score)
-      .slice(0, Math.min(50, Math.max(1, options.limit ?? 40)));
+    const semantic = result.matches
+      .map((match) => index.documents[match.id])
+      .filter((document): document is PhotoAiSearchDocument =>
+        Boolean(document && isPublicSearchDocument(document)),
+      );
+    scores = fuseRankings([
+      semantic.map((document) => document.assetId),
+      lexical.map(({ document }) => document.assetId),
+    ]);
   } catch (error) {
     mode = "lexical";
     console.warn(
       "[Photo AI] Semantic search unavailable; using lexical fallback",
       searchableErrorDetails(error),
     );
-    photos = rankPhotoDocumentsLexically(
-      Object.values(index.documents),
-      normalizedQuery,
-      options,
-    );
+    scores = new Map(lexical.map(({ document, score }) => [document.assetId, score]));
   }
 
+  // Facets count every photo the query matched; results also apply the filters.
+  const matched = Array.from(scores.keys()).map((assetId) => index.documents[assetId]);
+  const photos = matched
+    .filter((document) => matchesPhotoSearchFilters(document, filters))
+    .map((document) => ({ document, score: scores.get(document.assetId) ?? 0 }))
+    .sort((a, b) => b.score - a.score || a.document.path.localeCompare(b.document.path))
+    .slice(0, searchLimit(options.limit));
+
   const galleryCounts = new Map<string, { slug: string; title: string; count: number }>();
   for (const document of Object.values(index.documents)) {
-    if (document.hidden || document.protected) continue;
+    if (!isPublicSearchDocument(document)) continue;
     const current = galleryCounts.get(document.gallerySlug) ?? {
       slug: document.gallerySlug,
       title: document.galleryTitle,
@@ -1286,6 +1907,7 @@ export async function searchPhotoDocuments(
   return {
     photos,
     galleries: Array.from(galleryCounts.values()).sort((a, b) => a.title.localeCompare(b.title)),
+    facets: countPhotoSearchFacets(matched, filters),
     mode,
   };
 }
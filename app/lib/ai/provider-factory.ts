@@ -0,0 +1,112 @@
+import { CompreFaceFaceDetectionProvider } from "./compreface-provider";
+import { GeminiPhotoAiProvider } from "./gemini-provider";
+import { LocalFaceDetectionProvider } from "./local-face-provider";
+import {
+  DEFAULT_OLLAMA_ANALYSIS_MODEL,
+  DEFAULT_OLLAMA_EMBEDDING_MODEL,
+  OllamaPhotoAiProvider,
+} from "./ollama-provider";
+import {
+  DEFAULT_OPENAI_ANALYSIS_MODEL,
+  DEFAULT_OPENAI_EMBEDDING_MODEL,
+  OpenAiCompatiblePhotoAiProvider,
+} from "./openai-compatible-provider";
+import {
+  DEFAULT_ANALYSIS_MODEL,
+  DEFAULT_EMBEDDING_MODEL,
+  FACE_DETECTION_PROVIDER_NAMES,
+  PHOTO_AI_PROVIDER_NAMES,
+  type ConfiguredPhotoAiProvider,
+  type FaceDetectionProvider,
+  type FaceDetectionProviderName,
+  type PhotoAiProviderName,
+} from "./types";
+
+export interface PhotoAiProviderSettings {
+  provider: PhotoAiProviderName;
+  apiKey?: string;
+  apiBaseUrl?: string;
+  analysisModel: string;
+  embeddingModel: string;
+  embeddingDimensions: number;
+  fetch?: typeof fetch;
+}
+
+export function isPhotoAiProviderName(value: unknown): value is PhotoAiProviderName {
+  return PHOTO_AI_PROVIDER_NAMES.includes(value as PhotoAiProviderName);
+}
+
+export function defaultPhotoAiModels(provider: PhotoAiProviderName): {
+  analysisModel: string;
+  embeddingModel: string;
+} {
+  switch (provider) {
+    case "openai":
+      return {
+        analysisModel: DEFAULT_OPENAI_ANALYSIS_MODEL,
+        embeddingModel: DEFAULT_OPENAI_EMBEDDING_MODEL,
+      };
+    case "ollama":
+      return {
+        analysisModel: DEFAULT_OLLAMA_ANALYSIS_MODEL,
+        embeddingModel: DEFAULT_OLLAMA_EMBEDDING_MODEL,
+      };
+    default:
+      return { analysisModel: DEFAULT_ANALYSIS_MODEL, embeddingModel: DEFAULT_EMBEDDING_MODEL };
+  }
+}
+
+/** Builds the configured provider behind the common PhotoAiProvider contract. */
+export function createPhotoAiProvider(settings: PhotoAiProviderSettings): ConfiguredPhotoAiProvider {
+  const models = {
+    analysisModel: settings.analysisModel,
+    embeddingModel: settings.embeddingModel,
+    embeddingDimensions: settings.embeddingDimensions,
+    fetch: settings.fetch,
+  };
+  switch (settings.provider) {
+    case "openai":
+      return new OpenAiCompatiblePhotoAiProvider({
+        ...models,
+        apiKey: settings.apiKey,
+        apiBaseUrl: settings.apiBaseUrl,
+      });
+    case "ollama":
+      return new OllamaPhotoAiProvider({ ...models, apiBaseUrl: settings.apiBaseUrl });
+    default:
+      return new GeminiPhotoAiProvider({
+        ...models,
+        apiKey: settings.apiKey ?? "",
+        apiBaseUrl: settings.apiBaseUrl,
+      });
+  }
+}
+
+export interface FaceDetectionProviderSettings {
+  provider: FaceDetectionProviderName;
+  apiKey?: string;
+  apiBaseUrl?: string;
+  embeddingDimensions?: number;
+  fetch?: typeof fetch;
+}
+
+export function isFaceDetectionProviderName(value: unknown): value is FaceDetectionProviderName {
+  return FACE_DETECTION_PROVIDER_NAMES.includes(value as FaceDetectionProviderName);
+}
+
+/** Face detection is separate from photo analysis so it can stay self-hosted. */
+export function createFaceDetectionProvider(
+  settings: FaceDetectionProviderSettings,
+): FaceDetectionProvider {
+  switch (settings.provider) {
+    case "compreface":
+      return new CompreFaceFaceDetectionProvider({
+        apiBaseUrl: settings.apiBaseUrl ?? "",
+        apiKey: settings.apiKey ?? "",
+        embeddingDimensions: settings.embeddingDimensions,
+        fetch: settings.fetch,
+      });
+    default:
+      return new LocalFaceDetectionProvider({ embeddingDimensions: settings.embeddingDimensions });
+  }
+}
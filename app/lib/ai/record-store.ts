@@ -2,14 +2,17 @@ import type { StorageAdapter } from "../content-engine/types";
 import { AiDataValidationError, AiStorageError } from "./errors";
 import {
   AI_RECORD_SCHEMA_VERSION,
+  type AltTextReviewStatus,
   type AssetId,
   type GalleryAiRecordFile,
   type GallerySuggestion,
   type GallerySuggestionReviewStatus,
   type PhotoAiRecord,
+  type PhotoAltTextSuggestion,
   type PhotoAnalysis,
   type PhotoAssetIdentity,
   type PhotoEmbeddingReference,
+  type PhotoFacesProjection,
 } from "./types";
 
 export const AI_GALLERY_RECORDS_PREFIX = ".victopress/ai/galleries";
@@ -85,6 +88,22 @@ function validateGallerySuggestion(value: unknown, path: string): void {
   }
 }
 
+function validateAltTextSuggestion(value: unknown, path: string): void {
+  assert(isObject(value), "Alt text suggestion must be an object", path);
+  assert(isNonEmptyString(value.locale), "Missing alt text locale", `${path}.locale`);
+  assert(isNonEmptyString(value.text), "Missing alt text", `${path}.text`);
+  assert(
+    value.status === "pending" ||
+      value.status === "approved" ||
+      value.status === "rejected",
+    "Invalid review status",
+    `${path}.status`,
+  );
+  if (value.reviewedAt !== undefined) {
+    assert(isNonEmptyString(value.reviewedAt), "Invalid reviewedAt", `${path}.reviewedAt`);
+  }
+}
+
 function validateAnalysis(analysis: unknown, path: string): void {
   assert(isObject(analysis), "Analysis must be an object", path);
   assert(isNonEmptyString(analysis.model), "Missing analysis model", `${path}.model`);
@@ -101,6 +120,12 @@ function validateAnalysis(analysis: unknown, path: string): void {
   analysis.gallerySuggestions.forEach((suggestion, index) =>
     validateGallerySuggestion(suggestion, `${path}.gallerySuggestions[${index}]`),
   );
+  if (analysis.altText !== undefined) {
+    assert(Array.isArray(analysis.altText), "Invalid alt text", `${path}.altText`);
+    analysis.altText.forEach((suggestion, index) =>
+      validateAltTextSuggestion(suggestion, `${path}.altText[${index}]`),
+    );
+  }
 }
 
 function validateEmbedding(embedding: unknown, path: string): void {
@@ -135,6 +160,46 @@ function validateEmbedding(embedding: unknown, path: string): void {
   }
 }
 
+function isUnitFraction(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= 0 && value <= 1;
+}
+
+function validateFaces(faces: unknown, path: string): void {
+  assert(isObject(faces), "Faces must be an object", path);
+  assert(isNonEmptyString(faces.model), "Missing face model", `${path}.model`);
+  assert(
+    typeof faces.dimensions === "number" &&
+      Number.isSafeInteger(faces.dimensions) &&
+      faces.dimensions > 0,
+    "Invalid face embedding dimensions",
+    `${path}.dimensions`,
+  );
+  assert(isNonEmptyString(faces.generatedAt), "Missing generatedAt", `${path}.generatedAt`);
+  assert(Array.isArray(faces.faces), "Invalid faces", `${path}.faces`);
+  faces.faces.forEach((face, index) => {
+    const facePath = `${path}.faces[${index}]`;
+    assert(isObject(face), "Face must be an object", facePath);
+    assert(isNonEmptyString(face.faceId), "Missing face id", `${facePath}.faceId`);
+    assert(
+      isObject(face.box) &&
+        isUnitFraction(face.box.x) &&
+        isUnitFraction(face.box.y) &&
+        isUnitFraction(face.box.width) &&
+        isUnitFraction(face.box.height),
+      "Face box must use fractions of the image size",
+      `${facePath}.box`,
+    );
+    assert(isUnitFraction(face.confidence), "Confidence must be between 0 and 1", `${facePath}.confidence`);
+    assert(
+      Array.isArray(face.embedding) &&
+        face.embedding.length === faces.dimensions &&
+        face.embedding.every((value) => typeof value === "number" && Number.isFinite(value)),
+      "Invalid face embedding",
+      `${facePath}.embedding`,
+    );
+  });
+}
+
 export function validatePhotoAiRecord(
   value: unknown,
   path = "record",
@@ -166,6 +231,16 @@ export function validatePhotoAiRecord(
       `${path}.embedding.sourceFingerprint`,
     );
   }
+  if (value.faces !== undefined) {
+    validateFaces(value.faces, `${path}.faces`);
+    assert(
+      isObject(value.asset) &&
+        isObject(value.faces) &&
+        value.faces.sourceFingerprint === value.asset.sourceFingerprint,
+      "Face fingerprint must match the source asset",
+      `${path}.faces.sourceFingerprint`,
+    );
+  }
 }
 
 export function createPhotoAiRecord(
@@ -173,6 +248,7 @@ export function createPhotoAiRecord(
     asset: PhotoAssetIdentity;
     analysis?: PhotoAnalysis;
     embedding?: PhotoEmbeddingReference;
+    faces?: PhotoFacesProjection;
   },
   now = new Date().toISOString(),
 ): PhotoAiRecord {
@@ -184,6 +260,7 @@ export function createPhotoAiRecord(
     asset: input.asset,
     analysis: input.analysis,
     embedding: input.embedding,
+    faces: input.faces,
   };
   validatePhotoAiRecord(record);
   return record;
@@ -209,6 +286,25 @@ export function mergeGallerySuggestionReviews(
   });
 }
 
+/**
+ * Keeps reviewed alt text across re-analysis. The approved text already lives
+ * in photos.yaml, so asking again would only repeat the review.
+ */
+export function mergeAltTextReviews(
+  previous: readonly PhotoAltTextSuggestion[],
+  next: readonly PhotoAltTextSuggestion[],
+): PhotoAltTextSuggestion[] {
+  const previousByLocale = new Map(previous.map((suggestion) => [suggestion.locale, suggestion]));
+
+  return next.map((suggestion) => {
+    const reviewed = previousByLocale.get(suggestion.locale);
+    if (!reviewed || reviewed.status === "pending" || suggestion.status !== "pending") {
+      return { ...suggestion };
+    }
+    return { ...reviewed };
+  });
+}
+
 function mergeRecordReviewState(
   previous: PhotoAiRecord | undefined,
   next: PhotoAiRecord,
@@ -223,6 +319,9 @@ function mergeRecordReviewState(
         previous.analysis.gallerySuggestions,
         next.analysis.gallerySuggestions,
       ),
+      ...(next.analysis.altText
+        ? { altText: mergeAltTextReviews(previous.analysis.altText ?? [], next.analysis.altText) }
+        : {}),
     },
   };
 }
@@ -412,6 +511,38 @@ export class AiRecordStore {
     });
   }
 
+  /** Records the admin's decision on one locale's alt text; `text` keeps an edit. */
+  async reviewAltText(
+    sourceGallerySlug: string,
+    assetId: AssetId | string,
+    locale: string,
+    status: AltTextReviewStatus,
+    text?: string,
+  ): Promise<PhotoAiRecord> {
+    if (status !== "pending" && status !== "approved" && status !== "rejected") {
+      throw new AiDataValidationError("Invalid review status", "status");
+    }
+    return this.withGalleryLock(sourceGallerySlug, async () => {
+      const file = await this.readGallery(sourceGallerySlug);
+      const record = file.records[assetId];
+      const suggestion = record?.analysis?.altText?.find((candidate) => candidate.locale === locale);
+      if (!record || !suggestion) {
+        throw new AiDataValidationError("Alt text suggestion was not found", locale);
+      }
+
+      const now = this.now();
+      const edited = text?.trim();
+      if (edited) suggestion.text = edited;
+      suggestion.status = status;
+      suggestion.reviewedAt = status === "pending" ? undefined : now;
+      record.revision += 1;
+      record.updatedAt = now;
+      file.updatedAt = now;
+      await this.writeGallery(file);
+      return record;
+    });
+  }
+
   async deleteRecord(
     gallerySlug: string,
     assetId: AssetId | string,
@@ -0,0 +1,139 @@
+import type { PhotoAiSearchDocument } from "./search-index";
+import { normalizeSearchText } from "./search-inverted-index";
+
+export const PHOTO_SEARCH_FACETS = [
+  "year",
+  "camera",
+  "lens",
+  "country",
+  "city",
+  "tag",
+  "gallery",
+] as const;
+
+export type PhotoSearchFacet = (typeof PHOTO_SEARCH_FACETS)[number];
+
+/** Values are OR-ed within a facet and facets are AND-ed together. */
+export type PhotoSearchFilters = Partial<Record<PhotoSearchFacet, readonly string[]>>;
+
+export interface PhotoSearchFacetValue {
+  value: string;
+  label: string;
+  count: number;
+}
+
+export type PhotoSearchFacetCounts = Record<PhotoSearchFacet, PhotoSearchFacetValue[]>;
+
+const MAX_FACET_VALUES = 30;
+
+/** Case- and accent-insensitive key used to compare facet values. */
+export function facetKey(value: string): string {
+  return normalizeSearchText(value.trim());
+}
+
+function facetEntries(
+  document: PhotoAiSearchDocument,
+  facet: PhotoSearchFacet,
+): Array<{ value: string; label: string }> {
+  const single = (value: string | number | undefined) =>
+    value === undefined || String(value).trim() === ""
+      ? []
+      : [{ value: String(value).trim(), label: String(value).trim() }];
+
+  switch (facet) {
+    case "year":
+      return single(document.year);
+    case "camera":
+      return single(document.camera);
+    case "lens":
+      return single(document.lens);
+    case "country":
+      return single(document.country);
+    case "city":
+      return single(document.city);
+    case "tag":
+      return document.tags.map((tag) => ({ value: tag, label: tag }));
+    case "gallery":
+      // Accepted AI suggestions are logical memberships, as in the gallery filter.
+      return [
+        { value: document.gallerySlug, label: document.galleryTitle },
+        ...document.gallerySuggestions
+          .filter((suggestion) => suggestion.status === "accepted")
+          .map((suggestion) => ({ value: suggestion.slug, label: suggestion.slug })),
+      ];
+  }
+}
+
+/** Drops empty facets and de-duplicates values by their comparison key. */
+export function normalizePhotoSearchFilters(filters: PhotoSearchFilters = {}): PhotoSearchFilters {
+  const normalized: PhotoSearchFilters = {};
+  for (const facet of PHOTO_SEARCH_FACETS) {
+    const values = Array.from(new Set(
+      (filters[facet] ?? []).map((value) => value.trim()).filter(Boolean),
+    ));
+    if (values.length > 0) normalized[facet] = values;
+  }
+  return normalized;
+}
+
+function matchesFacet(
+  document: PhotoAiSearchDocument,
+  facet: PhotoSearchFacet,
+  values: readonly string[] | undefined,
+): boolean {
+  if (!values?.length) return true;
+  const wanted = new Set(values.map(facetKey));
+  return facetEntries(document, facet).some((entry) => wanted.has(facetKey(entry.value)));
+}
+
+export function matchesPhotoSearchFilters(
+  document: PhotoAiSearchDocument,
+  filters: PhotoSearchFilters,
+  except?: PhotoSearchFacet,
+): boolean {
+  return PHOTO_SEARCH_FACETS.every((facet) =>
+    facet === except || matchesFacet(document, facet, filters[facet]),
+  );
+}
+
+/**
+ * Counts facet values over the documents matching the query. Each facet
+ * ignores its own filter, so picking one camera still lists the others with
+ * the number of photos that choosing them instead would return.
+ */
+export function countPhotoSearchFacets(
+  documents: readonly PhotoAiSearchDocument[],
+  filters: PhotoSearchFilters,
+): PhotoSearchFacetCounts {
+  const counts = {} as PhotoSearchFacetCounts;
+  for (const facet of PHOTO_SEARCH_FACETS) {
+    const values = new Map<string, PhotoSearchFacetValue>();
+    for (const document of documents) {
+      if (!matchesPhotoSearchFilters(document, filters, facet)) continue;
+      const seen = new Set<string>();
+      for (const entry of facetEntries(document, facet)) {
+        const key = facetKey(entry.value);
+        if (seen.has(key)) continue;
+        seen.add(key);
+        const current = values.get(key);
+        values.set(key, {
+          value: current?.value ?? entry.value,
+          label: current?.label ?? entry.label,
+          count: (current?.count ?? 0) + 1,
+        });
+      }
+    }
+
+    const selected = new Set((filters[facet] ?? []).map(facetKey));
+    const sorted = Array.from(values.entries()).sort(([, left], [, right]) =>
+      facet === "year"
+        ? Number(right.value) - Number(left.value)
+        : right.count - left.count || left.label.localeCompare(right.label),
+    );
+    // Selected values stay listed even when they fall outside the top values.
+    counts[facet] = sorted
+      .filter(([key], position) => position < MAX_FACET_VALUES || selected.has(key))
+      .map(([, value]) => value);
+  }
+  return counts;
+}
@@ -29,6 +29,11 @@ export interface PhotoAiSearchDocument {
   /** Derived union used only for search; never written back as editorial tags. */
   tags: string[];
   year?: number;
+  /** Camera, lens and place from embedded metadata, used as search facets. */
+  camera?: string;
+  lens?: string;
+  country?: string;
+  city?: string;
   hidden: boolean;
   protected: boolean;
   vectorId: string;
@@ -0,0 +1,237 @@
+import type { StorageAdapter } from "../content-engine/types";
+import type { PhotoAiSearchDocument, PhotoAiSearchIndex } from "./search-index";
+import { searchStemmerFor } from "./search-stemmers";
+
+export const PHOTO_AI_SEARCH_TERMS_KEY = ".victopress/ai/search-terms.json";
+export const PHOTO_AI_SEARCH_TERMS_VERSION = 1 as const;
+
+/** BM25 saturation and length normalization, the usual Lucene defaults. */
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+/** Reciprocal-rank fusion damping; 60 is the value from the original paper. */
+const RRF_K = 60;
+
+/**
+ * A posting is `[assetId, weighted term frequency]`. Tuples keep the persisted
+ * index compact for archives with tens of thousands of photos.
+ */
+export type PhotoSearchPosting = [string, number];
+
+/**
+ * Derived BM25 index over the AI search documents. It is rebuilt whenever the
+ * search index or the site's locales change, and never edited directly.
+ */
+export interface PhotoSearchTermIndex {
+  version: typeof PHOTO_AI_SEARCH_TERMS_VERSION;
+  /** `updatedAt` of the search index these postings were built from. */
+  sourceUpdatedAt: string;
+  /** Site locales; each one has its own stemmed postings. */
+  locales: string[];
+  /** Field-weighted token count per asset. */
+  lengths: Record<string, number>;
+  averageLength: number;
+  postings: Record<string, Record<string, PhotoSearchPosting[]>>;
+}
+
+/** Title and tags describe a photo more precisely than a generated caption. */
+const FIELD_WEIGHTS: ReadonlyArray<[number, (document: PhotoAiSearchDocument) => unknown]> = [
+  [3, (document) => document.title],
+  [2, (document) => document.tags.join(" ")],
+  [1, (document) => document.description],
+  [1, (document) => document.aiDescription || document.caption],
+  [1, (document) => document.galleryTitle],
+  [1, (document) => [document.city, document.country].filter(Boolean).join(" ")],
+];
+
+const PHOTO_SEARCH_ALIASES = [
+  ["hat", "hats", "sombrero", "sombreros", "montera"],
+  ["man", "men", "hombre", "hombres"],
+  ["woman", "women", "mujer", "mujeres"],
+  ["child", "children", "kid", "kids", "nino", "nina", "ninos", "ninas"],
+  ["street", "streets", "calle", "calles"],
+  ["city", "cities", "ciudad", "ciudades"],
+  ["night", "nights", "noche", "noches"],
+  ["sunset", "sunsets", "atardecer", "atardeceres"],
+  ["wedding", "weddings", "boda", "bodas"],
+  ["portrait", "portraits", "retrato", "retratos"],
+] as const;
+
+const PHOTO_SEARCH_ALIAS_LOOKUP: ReadonlyMap<string, readonly string[]> = new Map(
+  PHOTO_SEARCH_ALIASES.flatMap((group) => group.map((token) => [token, group] as const)),
+);
+
+export function normalizeSearchText(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/\p{Diacritic}/gu, "")
+    .toLocaleLowerCase();
+}
+
+/** Lowercase, accent-free word tokens; single characters carry no meaning. */
+export function searchTokens(value: string): string[] {
+  return (normalizeSearchText(value).match(/[\p{L}\p{N}]+/gu) ?? []).filter(
+    (token) => token.length > 1,
+  );
+}
+
+function documentTermFrequencies(
+  document: PhotoAiSearchDocument,
+  stem: (token: string) => string,
+): { frequencies: Map<string, number>; length: number } {
+  const frequencies = new Map<string, number>();
+  let length = 0;
+  for (const [weight, read] of FIELD_WEIGHTS) {
+    const value = read(document);
+    if (typeof value !== "string" || !value) continue;
+    for (const token of searchTokens(value)) {
+      const term = stem(token);
+      frequencies.set(term, (frequencies.get(term) ?? 0) + weight);
+      length += weight;
+    }
+  }
+  return { frequencies, length };
+}
+
+export function buildPhotoSearchTermIndex(
+  index: Pick<PhotoAiSearchIndex, "documents" | "updatedAt">,
+  locales: readonly string[],
+): PhotoSearchTermIndex {
+  const documents = Object.values(index.documents);
+  const uniqueLocales = Array.from(new Set(locales));
+  const lengths: Record<string, number> = {};
+  const postings: PhotoSearchTermIndex["postings"] = {};
+
+  for (const locale of uniqueLocales) {
+    const stem = searchStemmerFor(locale);
+    const terms: Record<string, PhotoSearchPosting[]> = {};
+    for (const document of documents) {
+      const { frequencies, length } = documentTermFrequencies(document, stem);
+      lengths[document.assetId] = length;
+      for (const [term, frequency] of frequencies) {
+        (terms[term] ??= []).push([document.assetId, frequency]);
+      }
+    }
+    postings[locale] = terms;
+  }
+
+  const totalLength = Object.values(lengths).reduce((sum, length) => sum + length, 0);
+  return {
+    version: PHOTO_AI_SEARCH_TERMS_VERSION,
+    sourceUpdatedAt: index.updatedAt,
+    locales: uniqueLocales,
+    lengths,
+    averageLength: documents.length > 0 ? totalLength / documents.length : 0,
+    postings,
+  };
+}
+
+function isCurrentTermIndex(
+  value: unknown,
+  sourceUpdatedAt: string,
+  locales: readonly string[],
+): value is PhotoSearchTermIndex {
+  if (!value || typeof value !== "object") return false;
+  const candidate = value as Partial<PhotoSearchTermIndex>;
+  return (
+    candidate.version === PHOTO_AI_SEARCH_TERMS_VERSION &&
+    candidate.sourceUpdatedAt === sourceUpdatedAt &&
+    Array.isArray(candidate.locales) &&
+    candidate.locales.join(",") === Array.from(new Set(locales)).join(",") &&
+    typeof candidate.lengths === "object" &&
+    typeof candidate.postings === "object"
+  );
+}
+
+/**
+ * Returns the persisted term index for the current search index, rebuilding
+ * and storing it when the documents or the site's locales have changed.
+ */
+export async function loadPhotoSearchTermIndex(
+  storage: StorageAdapter,
+  index: PhotoAiSearchIndex,
+  locales: readonly string[],
+): Promise<PhotoSearchTermIndex> {
+  const raw = await storage.getText(PHOTO_AI_SEARCH_TERMS_KEY);
+  if (raw) {
+    try {
+      const parsed: unknown = JSON.parse(raw);
+      if (isCurrentTermIndex(parsed, index.updatedAt, locales)) return parsed;
+    } catch {
+      // Rebuild below.
+    }
+  }
+
+  const terms = buildPhotoSearchTermIndex(index, locales);
+  try {
+    await storage.put(PHOTO_AI_SEARCH_TERMS_KEY, JSON.stringify(terms), "application/json");
+  } catch (error) {
+    // The index is derived; a read-only or failing store only costs a rebuild.
+    console.warn("[Photo AI] Could not store the search term index", error);
+  }
+  return terms;
+}
+
+/** Query terms for one locale, each expanded with its Spanish/English aliases. */
+function queryTermGroups(query: string, locale: string): string[][] {
+  const stem = searchStemmerFor(locale);
+  const seen = new Set<string>();
+  const groups: string[][] = [];
+  for (const token of searchTokens(query)) {
+    if (seen.has(token)) continue;
+    seen.add(token);
+    const aliases = PHOTO_SEARCH_ALIAS_LOOKUP.get(token) ?? [token];
+    groups.push(Array.from(new Set(aliases.map(stem))));
+  }
+  return groups;
+}
+
+/**
+ * Scores every document matching at least one query term with BM25. Aliases
+ * of a query word count as the same term, so "hat" and "sombrero" share one
+ * document frequency instead of double-counting.
+ */
+export function scorePhotoSearchTerms(
+  terms: PhotoSearchTermIndex,
+  query: string,
+  locale: string,
+): Map<string, number> {
+  const indexLocale = terms.locales.includes(locale) ? locale : terms.locales[0];
+  const postings = indexLocale ? terms.postings[indexLocale] ?? {} : {};
+  const documentCount = Object.keys(terms.lengths).length;
+  const averageLength = terms.averageLength || 1;
+  const scores = new Map<string, number>();
+
+  for (const group of queryTermGroups(query, indexLocale ?? locale)) {
+    const frequencies = new Map<string, number>();
+    for (const term of group) {
+      for (const [assetId, frequency] of postings[term] ?? []) {
+        frequencies.set(assetId, (frequencies.get(assetId) ?? 0) + frequency);
+      }
+    }
+    if (frequencies.size === 0) continue;
+
+    const idf = Math.log(1 + (documentCount - frequencies.size + 0.5) / (frequencies.size + 0.5));
+    for (const [assetId, frequency] of frequencies) {
+      const length = terms.lengths[assetId] ?? averageLength;
+      const saturation =
+        (frequency * (BM25_K1 + 1)) /
+        (frequency + BM25_K1 * (1 - BM25_B + (BM25_B * length) / averageLength));
+      scores.set(assetId, (scores.get(assetId) ?? 0) + idf * saturation);
+    }
+  }
+  return scores;
+}
+
+/**
+ * Reciprocal-rank fusion of ranked id lists. Only positions matter, so BM25
+ * and cosine scores can be merged without calibrating one against the other.
+ */
+export function fuseRankings(rankings: ReadonlyArray<readonly string[]>): Map<string, number> {
+  const scores = new Map<string, number>();
+  for (const ranking of rankings) {
+    ranking.forEach((id, position) => {
+      scores.set(id, (scores.get(id) ?? 0) + 1 / (RRF_K + position + 1));
+    });
+  }
+  return scores;
+}
@@ -0,0 +1,75 @@
+/**
+ * Light, dictionary-free stemmers for photo search. They only fold plural and
+ * gender endings (and the most common English verb suffixes), which keeps
+ * short visual vocabulary such as "calles"/"calle" or "nights"/"night"
+ * together without the over-stemming of a full Porter/Snowball pass.
+ *
+ * Input tokens are expected to be lowercase with diacritics removed.
+ */
+
+export type SearchStemmer = (token: string) => string;
+
+const MIN_STEM_LENGTH = 3;
+
+function stripSuffix(token: string, suffix: string, replacement = ""): string | null {
+  if (!token.endsWith(suffix)) return null;
+  const stem = token.slice(0, token.length - suffix.length) + replacement;
+  return stem.length >= MIN_STEM_LENGTH ? stem : null;
+}
+
+function stemEnglish(token: string): string {
+  let stem = token.replace(/'s$/, "");
+  stem =
+    stripSuffix(stem, "ies", "y") ??
+    stripSuffix(stem, "sses", "ss") ??
+    (/(?:ch|sh|[sxz])es$/.test(stem) ? stripSuffix(stem, "es") : null) ??
+    (/[^su]s$/.test(stem) ? stripSuffix(stem, "s") : null) ??
+    stem;
+  if (stem.length > 5) {
+    stem = stripSuffix(stem, "ing") ?? stripSuffix(stem, "ed") ?? stem;
+  }
+  return stem;
+}
+
+/** Romance languages: drop the plural, then the gender vowel. */
+function romanceStemmer(vowels: RegExp, pluralRules: ReadonlyArray<[string, string]> = []) {
+  return (token: string): string => {
+    const plural = pluralRules.find(([suffix]) => token.endsWith(suffix));
+    const stem =
+      (plural ? stripSuffix(token, plural[0], plural[1]) : null) ??
+      stripSuffix(token, "s") ??
+      token;
+    return vowels.test(stem) ? stripSuffix(stem, stem.slice(-1)) ?? stem : stem;
+  };
+}
+
+function stemGerman(token: string): string {
+  for (const suffix of ["ern", "en", "er", "es", "e", "n", "s"]) {
+    const stem = token.length > 4 ? stripSuffix(token, suffix) : null;
+    if (stem) return stem;
+  }
+  return token;
+}
+
+function stemDutch(token: string): string {
+  return (token.length > 4 ? stripSuffix(token, "en") ?? stripSuffix(token, "s") : null) ?? token;
+}
+
+const STEMMERS: Record<string, SearchStemmer> = {
+  en: stemEnglish,
+  es: romanceStemmer(/[aeo]$/, [["ces", "z"]]),
+  pt: romanceStemmer(/[aeo]$/, [["oes", "ao"], ["aes", "ao"], ["ns", "m"]]),
+  gl: romanceStemmer(/[aeo]$/),
+  ca: romanceStemmer(/[aeo]$/, [["ques", "ca"], ["gues", "ga"]]),
+  it: romanceStemmer(/[aeio]$/),
+  fr: romanceStemmer(/e$/, [["aux", "al"], ["eux", "eu"]]),
+  de: stemGerman,
+  nl: stemDutch,
+};
+
+const identity: SearchStemmer = (token) => token;
+
+/** Stemmer for a site locale; unknown languages are matched unstemmed. */
+export function searchStemmerFor(locale: string): SearchStemmer {
+  return STEMMERS[locale] ?? identity;
+}
@@ -47,6 +47,20 @@ export interface GallerySuggestion {
   reviewedAt?: string;
 }
 
+export type AltTextReviewStatus = "pending" | "approved" | "rejected";
+
+/**
+ * Generated accessibility text for one locale. It is a suggestion until the
+ * admin approves it; approved text is copied into the photo's edition in
+ * photos.yaml, which is the only place public pages read it from.
+ */
+export interface PhotoAltTextSuggestion {
+  locale: string;
+  text: string;
+  status: AltTextReviewStatus;
+  reviewedAt?: string;
+}
+
 export interface AiUsageMetadata {
   promptTokenCount?: number;
   candidatesTokenCount?: number;
@@ -62,6 +76,8 @@ export interface PhotoAnalysis {
   caption: string;
   tags: string[];
   gallerySuggestions: GallerySuggestion[];
+  /** One entry per site locale requested when the photo was analyzed. */
+  altText?: PhotoAltTextSuggestion[];
   usage?: AiUsageMetadata;
 }
 
@@ -78,6 +94,34 @@ export interface PhotoEmbeddingReference {
   error?: string;
 }
 
+/** Face box as fractions of the image width and height, from the top-left corner. */
+export interface FaceBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** `faceId` is `<assetId>#<index>`, stable while the source pixels are unchanged. */
+export interface PhotoFace {
+  faceId: string;
+  box: FaceBox;
+  confidence: number;
+  embedding: number[];
+}
+
+/**
+ * Faces found in one photo. Face embeddings are small enough to keep in the
+ * record, and they never leave the private AI sidecar.
+ */
+export interface PhotoFacesProjection {
+  model: string;
+  dimensions: number;
+  sourceFingerprint: SourceFingerprint;
+  generatedAt: string;
+  faces: PhotoFace[];
+}
+
 export interface PhotoAiRecord {
   schemaVersion: typeof AI_RECORD_SCHEMA_VERSION;
   revision: number;
@@ -86,6 +130,7 @@ export interface PhotoAiRecord {
   asset: PhotoAssetIdentity;
   analysis?: PhotoAnalysis;
   embedding?: PhotoEmbeddingReference;
+  faces?: PhotoFacesProjection;
 }
 
 export interface GalleryAiRecordFile {
@@ -109,7 +154,7 @@ export interface GalleryTaxonomyEntry {
   ancestorSlugs: string[];
   isProtected: boolean;
   isParentGallery: boolean;
-  /** Parent/container galleries stay visible in context but are not suggested. */
+  /** Parent/container and smart galleries stay visible in context but are not suggested. */
   acceptsDirectPhotos: boolean;
   photoCount: number;
 }
@@ -136,6 +181,8 @@ export interface AnalyzePhotoInput {
   taxonomy: GalleryTaxonomyCatalog;
   currentGallerySlugs: readonly string[];
   language?: string;
+  /** Locales to write alt text for; none skips alt text. */
+  altTextLocales?: readonly string[];
   signal?: AbortSignal;
 }
 
@@ -163,3 +210,48 @@ export interface PhotoAiProvider {
   embedImage(input: EmbedImageInput): Promise<EmbeddingResult>;
   embedText(input: EmbedTextInput): Promise<EmbeddingResult>;
 }
+
+export const PHOTO_AI_PROVIDER_NAMES = ["gemini", "openai", "ollama"] as const;
+export type PhotoAiProviderName = (typeof PHOTO_AI_PROVIDER_NAMES)[number];
+
+/** A provider together with the model settings that identify its output. */
+export interface ConfiguredPhotoAiProvider extends PhotoAiProvider {
+  readonly name: PhotoAiProviderName;
+  readonly analysisModel: string;
+  readonly embeddingModel: string;
+  readonly embeddingDimensions: number;
+  readonly promptVersion: string;
+  /**
+   * False when the embedding model only reads text. Photos are then embedded
+   * through their generated caption and tags, in the same space as queries.
+   */
+  readonly embedsImages: boolean;
+}
+
+export const FACE_DETECTION_PROVIDER_NAMES = ["compreface", "local"] as const;
+export type FaceDetectionProviderName = (typeof FACE_DETECTION_PROVIDER_NAMES)[number];
+
+export interface DetectFacesInput {
+  image: ArrayBuffer | Uint8Array;
+  mimeType: GeminiEmbeddingImageMimeType;
+  /** Pixel size of the image, used to express boxes as fractions. */
+  width: number;
+  height: number;
+  signal?: AbortSignal;
+}
+
+export interface DetectedFace {
+  box: FaceBox;
+  confidence: number;
+  embedding: number[];
+}
+
+/** Finds faces and embeds each one; people clustering happens in VictoPress. */
+export interface FaceDetectionProvider {
+  readonly name: FaceDetectionProviderName;
+  readonly model: string;
+  readonly embeddingDimensions: number;
+  /** Cosine similarity at which two faces are treated as the same person. */
+  readonly matchThreshold: number;
+  detectFaces(input: DetectFacesInput): Promise<DetectedFace[]>;
+}
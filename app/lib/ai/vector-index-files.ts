@@ -177,7 +177,16 @@ export class FilesFirstVectorIndex implements VectorIndex {
   }
 
   async describe(): Promise<VectorIndexDescription> {
-    const file = await this.read();
+    let file: Pick<StoredVectorFile, "dimensions" | "vectors">;
+    try {
+      file = await this.read();
+    } catch (error) {
+      // A file written for another embedding size cannot be queried, but its
+      // size is still reported so callers can detect the mismatch.
+      const stored = await this.readStoredShape();
+      if (!stored) throw error;
+      file = stored;
+    }
     return {
       backend: "files-first",
       dimensions: file.dimensions,
@@ -187,6 +196,21 @@ export class FilesFirstVectorIndex implements VectorIndex {
     };
   }
 
+  private async readStoredShape(): Promise<Pick<StoredVectorFile, "dimensions" | "vectors"> | null> {
+    try {
+      const parsed = JSON.parse((await this.storage.getText(this.storageKey)) ?? "null") as
+        Partial<StoredVectorFile> | null;
+      return parsed &&
+        typeof parsed.dimensions === "number" &&
+        parsed.vectors &&
+        typeof parsed.vectors === "object"
+        ? { dimensions: parsed.dimensions, vectors: parsed.vectors }
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
   private async read(): Promise<StoredVectorFile> {
     if (!this.readCache) {
       this.readCache = this.readFromStorage();
@@ -3,6 +3,7 @@ import { normalizeLocale } from "../i18n";
 import type { PostIndexEntry } from "./content-index";
 import type { BlogPost, BlogPostTranslation } from "./types";
 import { normalizeBlogCategories } from "../blog-categories";
+import { scheduleIso } from "./publishing";
 
 function indexDate(value: BlogPost["date"]): string | undefined {
   if (!value) return undefined;
@@ -34,6 +35,8 @@ export function blogPostToIndexEntry(post: BlogPost): PostIndexEntry {
     excerpt: post.excerpt,
     date: indexDate(post.date),
     draft: post.draft === true,
+    publishAt: scheduleIso(post.publishAt),
+    unpublishAt: scheduleIso(post.unpublishAt),
     coverImage: post.cover,
     coverInBody: post.coverInBody === true,
     tags: post.tags,
@@ -96,6 +99,8 @@ export function blogPostFromIndexEntry(entry: PostIndexEntry): BlogPost {
     tags: entry.tags ?? translation?.tags,
     categories: normalizeBlogCategories(entry.categories),
     draft: entry.draft,
+    publishAt: postDate(entry.publishAt),
+    unpublishAt: postDate(entry.unpublishAt),
     cover: entry.coverImage,
     coverInBody: entry.coverInBody === true,
     format: entry.format || translation?.format || "markdown",
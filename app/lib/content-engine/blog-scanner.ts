@@ -16,7 +16,7 @@ import type {
 import {
   normalizeLocale,
   resolveTranslation,
-  SUPPORTED_LOCALES,
+  DEFAULT_LOCALES,
   type Locale,
 } from "~/lib/i18n";
 import { normalizeBlogCategories } from "~/lib/blog-categories";
@@ -29,6 +29,7 @@ import {
   calculateReadingTime,
   generateExcerpt,
 } from "./utils";
+import { isPostPublished, scheduleTime } from "./publishing";
 
 const BLOG_PATH = "blog";
 
@@ -57,8 +58,10 @@ export function normalizeBlogSlug(slug: string): string | null {
  *
  * CMS-created posts and migrated historical posts both use
  * blog/<slug>/index.md. Reading the source and localized variants in parallel
- * keeps an editor navigation to one storage round trip. Unusual legacy layouts
- * still fall back to the generic folder/file scanners below.
+ * keeps an editor navigation to one storage round trip. Editions beyond the
+ * default pair are discovered from the folder listing and read afterwards.
+ * Unusual legacy layouts still fall back to the generic folder/file scanners
+ * below.
  */
 export async function scanBlogPost(
   storage: StorageAdapter,
@@ -68,12 +71,12 @@ export async function scanBlogPost(
   if (!normalizedSlug) return null;
 
   const folderPath = `${BLOG_PATH}/${normalizedSlug}`;
-  const localizedFiles = SUPPORTED_LOCALES.map((locale) => ({
+  const localizedFiles = DEFAULT_LOCALES.map((locale) => ({
     locale,
     name: `index.${locale}.md`,
     path: `${folderPath}/index.${locale}.md`,
   }));
-  const [items, sourceContent, localizedContents] = await Promise.all([
+  const [items, sourceContent, defaultLocalizedContents] = await Promise.all([
     storage.list(folderPath),
     storage.getText(`${folderPath}/index.md`),
     Promise.all(
@@ -85,6 +88,24 @@ export async function scanBlogPost(
   ]);
 
   if (sourceContent) {
+    const extraLocalizedContents = await Promise.all(
+      items
+        .filter((item) => !item.isDirectory)
+        .map((item) => ({ item, locale: localeFromVariantFilename(item.name) }))
+        .filter(
+          (entry): entry is { item: typeof entry.item; locale: Locale } =>
+            entry.locale !== null &&
+            !DEFAULT_LOCALES.includes(entry.locale) &&
+            entry.item.name.toLowerCase() === `index.${entry.locale}.md`,
+        )
+        .map(async ({ item, locale }) => ({
+          locale,
+          name: item.name,
+          path: item.path,
+          content: await storage.getText(item.path),
+        })),
+    );
+    const localizedContents = [...defaultLocalizedContents, ...extraLocalizedContents];
     const images = items
       .filter((item) => !item.isDirectory && isImageFile(item.name))
       .map((item) => item.path);
@@ -270,7 +291,7 @@ function findMainMarkdownFile(files: FileInfo[]): FileInfo | null {
 
 function localeFromVariantFilename(filename: string): Locale | null {
   const basename = filename.split("/").pop() || filename;
-  const match = basename.match(/\.(es|en)\.md$/i);
+  const match = basename.match(/\.([a-z]{2})\.md$/i);
   return normalizeLocale(match?.[1]);
 }
 
@@ -320,6 +341,11 @@ async function attachTranslations(
   return { ...post, locale: sourceLocale, translations };
 }
 
+function scheduleDate(value: Date | string | undefined): Date | undefined {
+  const time = scheduleTime(value);
+  return time === null ? undefined : new Date(time);
+}
+
 /**
  * Parse markdown content with frontmatter
  */
@@ -376,6 +402,9 @@ function parseMarkdownPost(
     tags: frontmatter.tags,
     categories: normalizeBlogCategories(frontmatter.categories),
     draft: frontmatter.draft || false,
+    publishAt: scheduleDate(frontmatter.publishAt),
+    unpublishAt: scheduleDate(frontmatter.unpublishAt),
+    newsletter: frontmatter.newsletter === true ? true : undefined,
     cover,
     coverInBody: frontmatter.coverInBody,
     format: frontmatter.format,
@@ -417,8 +446,8 @@ export function localizeBlogPost(post: BlogPost, locale: Locale): LocalizedBlogP
 }
 
 /**
- * Filter out draft posts for public listing
+ * Filter out drafts and posts outside their publication window
  */
-export function filterPublishedPosts(posts: BlogPost[]): BlogPost[] {
-  return posts.filter((post) => !post.draft);
+export function filterPublishedPosts(posts: BlogPost[], now: Date = new Date()): BlogPost[] {
+  return posts.filter((post) => isPostPublished(post, now));
 }
@@ -27,7 +27,11 @@ import {
   buildBlogPostIndexEntries,
 } from "./blog-index";
 import { scanPages } from "./page-scanner";
-import { addGalleryMemberships, readGalleryMemberships } from "./gallery-memberships";
+import {
+  addGalleryMemberships,
+  readGalleryMemberships,
+  removeGalleryMemberships,
+} from "./gallery-memberships";
 import { readGalleryOrders, sortPhotosByGalleryOrder } from "./gallery-orders";
 import { buildNavigation } from "../../utils/navigation";
 import type { NavItem } from "../../components/Sidebar";
@@ -39,11 +43,44 @@ import {
 } from "~/lib/i18n";
 import { extractImageMetadata, toImageMetadataSummary } from "./exif";
 import { writePhotoMetadata } from "./photo-metadata-store";
+import {
+  extractEmbeddedJpegPreview,
+  isCameraRawFile,
+  writePhotoRendition,
+} from "./photo-renditions";
 import { createCanonicalImageSourceFingerprint } from "./victopress-xmp";
-import type { GalleryThumbnailAspectRatio } from "./gallery-layout";
+import {
+  normalizeGalleryThumbnailAspectRatio,
+  type GalleryThumbnailAspectRatio,
+} from "./gallery-layout";
+import {
+  normalizeGalleryDownloadPolicy,
+  type GalleryDownloadPolicy,
+} from "./gallery-downloads";
+import { isPublicPhotoGallery, isWithinPublicationWindow, scheduleIso } from "./publishing";
+import {
+  materializeSmartGalleries,
+  readSmartGalleryMatches,
+  type SmartGalleryQuery,
+} from "./smart-galleries";
+import {
+  buildEquipmentStats,
+  matchesEquipmentFilter,
+  mergeEquipmentStats,
+  summarizeEquipmentStats,
+  type EquipmentFilter,
+  type EquipmentStatsIndex,
+  type EquipmentStatsSummary,
+} from "./equipment-stats";
+import {
+  buildPhotoTimeline,
+  mergePhotoTimeline,
+  photoCaptureDay,
+  type PhotoTimelineIndex,
+} from "./timeline";
 
 const INDEX_FILE = "_content-index.json";
-const INDEX_VERSION = 11; // Blog categories; embedded/layout fields remain optional
+const INDEX_VERSION = 12; // Publication windows; embedded/layout fields remain optional
 
 /** Number of photos to store per gallery for home page */
 const PHOTOS_PER_GALLERY = 6;
@@ -83,6 +120,8 @@ export interface PhotoIndexEntry {
   description?: string;
   locale?: Locale;
   translations?: TranslationMap<PhotoTranslation>;
+  /** Approved alt text of the localized edition, set by the locale helpers. */
+  alt?: string;
   gallerySlug: string;
   galleryTitle: string;
   galleryLocale?: Locale;
@@ -112,6 +151,8 @@ export interface GalleryDataEntry {
   photoCount: number;
   isProtected: boolean;
   password?: string;
+  /** Hidden from public listings (`private: true` in gallery.yaml) */
+  private?: boolean;
   order?: number;
   category?: string;
   tags?: string[];
@@ -120,8 +161,17 @@ export interface GalleryDataEntry {
   includeNestedPhotos?: boolean;
   /** Uniform 3:2 crop by default; `original` preserves each source frame. */
   thumbnailAspectRatio?: GalleryThumbnailAspectRatio;
+  /** Visitor downloads; absent means none. */
+  downloads?: GalleryDownloadPolicy;
+  /** Publication window (ISO timestamps) */
+  publishAt?: string;
+  unpublishAt?: string;
   /** Whether this is a parent/container gallery (has config but no direct photos) */
   isParentGallery?: boolean;
+  /** Smart gallery query; its matches are references materialized on rebuild */
+  query?: SmartGalleryQuery;
+  /** Coarsens the map coordinates of its photos */
+  hideExactLocation?: boolean;
   /** All photos in this gallery */
   photos: GalleryPhotoEntry[];
 }
@@ -138,6 +188,8 @@ export interface GalleryPhotoEntry {
   description?: string;
   locale?: Locale;
   translations?: TranslationMap<PhotoTranslation>;
+  /** Approved alt text of the localized edition, set by the locale helpers. */
+  alt?: string;
   hidden?: boolean;
   order?: number;
   year?: number;
@@ -170,6 +222,10 @@ export interface ContentIndex {
   parentMetadata: ParentMetadataEntry[];
   /** First N photos from each gallery for home page grid */
   featuredPhotos: PhotoIndexEntry[];
+  /** Capture-date counts per gallery; absent in indexes built before the timeline */
+  timeline?: PhotoTimelineIndex;
+  /** Camera, lens and exposure counts per gallery */
+  equipment?: EquipmentStatsIndex;
   stats: {
     totalGalleries: number;
     totalPhotos: number;
@@ -200,6 +256,7 @@ function applyGalleryMembershipsToEntries(
       const target = galleriesBySlug.get(targetSlug);
       if (
         !target ||
+        target.query ||
         (target.isParentGallery && target.hasChildren) ||
         target.slug === source.gallery.slug
       ) continue;
@@ -227,6 +284,21 @@ function applyGalleryMembershipsToEntries(
   }
 }
 
+/** Copies the fields memberships and smart queries change onto the light entries. */
+function syncGalleryIndexEntries(
+  entries: GalleryIndexEntry[],
+  galleries: readonly GalleryDataEntry[],
+): void {
+  for (const entry of entries) {
+    const fullGallery = galleries.find((gallery) => gallery.slug === entry.slug);
+    if (fullGallery) {
+      entry.photoCount = fullGallery.photoCount;
+      entry.isParentGallery = fullGallery.isParentGallery;
+      entry.cover = fullGallery.cover;
+    }
+  }
+}
+
 function recoverEmbeddedGalleryOrganization(galleries: readonly Gallery[]): {
   memberships: Record<string, string[]>;
   orders: Record<string, string[]>;
@@ -281,6 +353,9 @@ export interface GalleryIndexEntry {
   path: string;
   hasChildren: boolean;
   childCount: number;
+  /** Publication window (ISO timestamps) */
+  publishAt?: string;
+  unpublishAt?: string;
   /** Whether this is a parent/container gallery (has config but no direct photos) */
   isParentGallery?: boolean;
 }
@@ -295,6 +370,9 @@ export interface PostIndexEntry {
   excerpt?: string;
   date?: string;
   draft: boolean;
+  /** Publication window (ISO timestamps) */
+  publishAt?: string;
+  unpublishAt?: string;
   coverImage?: string;
   coverInBody?: boolean;
   tags?: string[];
@@ -509,13 +587,14 @@ export async function rebuildContentIndex(storage: StorageAdapter, skipCache = f
   }
   
   // Scan all content in parallel (with EXIF cache for galleries)
-  const [galleries, posts, pages, parentMeta, galleryMemberships, galleryOrders] = await Promise.all([
+  const [galleries, posts, pages, parentMeta, galleryMemberships, galleryOrders, smartGalleryMatches] = await Promise.all([
     scanGalleries(storage, photoCache),
     scanBlog(storage),
     scanPages(storage),
     scanParentMetadata(storage),
     readGalleryMemberships(storage),
     readGalleryOrders(storage),
+    readSmartGalleryMatches(storage),
   ]);
   const embeddedOrganization = recoverEmbeddedGalleryOrganization(galleries);
   const effectiveGalleryMemberships = Object.keys(galleryMemberships).length > 0
@@ -541,6 +620,8 @@ export async function rebuildContentIndex(storage: StorageAdapter, skipCache = f
     path: g.path,
     hasChildren: (g.children?.length ?? 0) > 0,
     childCount: g.children?.length ?? 0,
+    publishAt: scheduleIso(g.publishAt),
+    unpublishAt: scheduleIso(g.unpublishAt),
     isParentGallery: g.isParentGallery,
   }));
   
@@ -596,6 +677,7 @@ export async function rebuildContentIndex(storage: StorageAdapter, skipCache = f
       photoCount: g.photoCount,
       isProtected: !!g.password,
       password: g.password,
+      private: g.private || undefined,
       order: g.order,
       category: g.category,
       tags: g.tags,
@@ -603,7 +685,12 @@ export async function rebuildContentIndex(storage: StorageAdapter, skipCache = f
       childCount: g.children?.length ?? 0,
       includeNestedPhotos: g.includeNestedPhotos,
       thumbnailAspectRatio: g.thumbnailAspectRatio,
+      downloads: g.downloads,
+      publishAt: scheduleIso(g.publishAt),
+      unpublishAt: scheduleIso(g.unpublishAt),
       isParentGallery: g.isParentGallery,
+      query: g.query,
+      hideExactLocation: g.hideExactLocation,
       photos,
     };
   });
@@ -617,13 +704,9 @@ export async function rebuildContentIndex(storage: StorageAdapter, skipCache = f
       gallery.photos = sortPhotosByGalleryOrder(gallery.photos, orderedPaths);
     }
   }
-  for (const entry of galleryEntries) {
-    const fullGallery = galleryDataEntries.find((gallery) => gallery.slug === entry.slug);
-    if (fullGallery) {
-      entry.photoCount = fullGallery.photoCount;
-      entry.isParentGallery = fullGallery.isParentGallery;
-    }
-  }
+  // Smart galleries keep the order of their query.
+  materializeSmartGalleries(galleryDataEntries, smartGalleryMatches);
+  syncGalleryIndexEntries(galleryEntries, galleryDataEntries);
   
   const postEntries = buildBlogPostIndexEntries(posts);
   
@@ -701,6 +784,8 @@ export async function rebuildContentIndex(storage: StorageAdapter, skipCache = f
     pages: pageEntries,
     parentMetadata: parentMetadataEntries,
     featuredPhotos,
+    timeline: buildPhotoTimeline(galleryDataEntries),
+    equipment: buildEquipmentStats(galleryDataEntries),
     stats: {
       totalGalleries: galleries.length,
       totalPhotos,
@@ -793,6 +878,39 @@ export async function invalidateContentIndex(storage: StorageAdapter): Promise<v
   }
 }
 
+export type GalleryMetadataIndexUpdates = Parameters<typeof updateGalleryMetadataInIndex>[2];
+
+/**
+ * Map a parsed gallery.yaml document to the fields kept in the index.
+ * Missing optional values are reported as empty so stale index data is cleared.
+ */
+export function galleryMetadataIndexUpdates(
+  metadata: Record<string, unknown>,
+): GalleryMetadataIndexUpdates {
+  return {
+    title: metadata.title as string | undefined,
+    description: metadata.description as string | undefined,
+    classificationHint:
+      typeof metadata.classificationHint === "string"
+        ? metadata.classificationHint
+        : "",
+    order: metadata.order as number | undefined,
+    private: metadata.private as boolean | undefined,
+    hideExactLocation: metadata.hideExactLocation === true,
+    password: metadata.password as string | undefined,
+    tags: metadata.tags as string[] | undefined,
+    includeNestedPhotos: metadata.includeNestedPhotos as boolean | undefined,
+    locale: normalizeLocale(metadata.locale) || "en",
+    translations: metadata.translations as TranslationMap<GalleryTranslation> | undefined,
+    thumbnailAspectRatio: normalizeGalleryThumbnailAspectRatio(
+      metadata.thumbnailAspectRatio,
+    ),
+    downloads: normalizeGalleryDownloadPolicy(metadata.downloads),
+    publishAt: scheduleIso(metadata.publishAt as string | Date | undefined) ?? "",
+    unpublishAt: scheduleIso(metadata.unpublishAt as string | Date | undefined) ?? "",
+  };
+}
+
 /**
  * Update only the gallery metadata (title, description, order, etc.) in the index
  * This is INSTANT compared to a full rebuild - just updates the JSON file
@@ -807,12 +925,17 @@ export async function updateGalleryMetadataInIndex(
     classificationHint?: string;
     order?: number;
     private?: boolean;
+    hideExactLocation?: boolean;
     password?: string;
     tags?: string[];
     includeNestedPhotos?: boolean;
     locale?: Locale;
     translations?: TranslationMap<GalleryTranslation>;
     thumbnailAspectRatio?: GalleryThumbnailAspectRatio;
+    downloads?: GalleryDownloadPolicy;
+    /** ISO timestamp; an empty string clears the schedule */
+    publishAt?: string;
+    unpublishAt?: string;
   }
 ): Promise<{ success: boolean; message: string }> {
   const startTime = Date.now();
@@ -842,7 +965,13 @@ export async function updateGalleryMetadataInIndex(
       gallery.classificationHint = updates.classificationHint || undefined;
     }
     if (updates.order !== undefined) gallery.order = updates.order;
-    if (updates.private !== undefined) gallery.isProtected = updates.private;
+    if (updates.private !== undefined) {
+      gallery.isProtected = updates.private;
+      gallery.private = updates.private || undefined;
+    }
+    if (updates.hideExactLocation !== undefined) {
+      gallery.hideExactLocation = updates.hideExactLocation || undefined;
+    }
     if (updates.password !== undefined) gallery.password = updates.password || undefined;
     if (updates.tags !== undefined) gallery.tags = updates.tags.length > 0 ? updates.tags : undefined;
     if (updates.includeNestedPhotos !== undefined) gallery.includeNestedPhotos = updates.includeNestedPhotos;
@@ -851,6 +980,11 @@ export async function updateGalleryMetadataInIndex(
     if (updates.thumbnailAspectRatio !== undefined) {
       gallery.thumbnailAspectRatio = updates.thumbnailAspectRatio;
     }
+    if (updates.downloads !== undefined) {
+      gallery.downloads = updates.downloads.size === "none" ? undefined : updates.downloads;
+    }
+    if (updates.publishAt !== undefined) gallery.publishAt = updates.publishAt || undefined;
+    if (updates.unpublishAt !== undefined) gallery.unpublishAt = updates.unpublishAt || undefined;
     
     // Also update the light gallery entry (for navigation)
     const lightIdx = index.galleries.findIndex(g => g.path === galleryPath);
@@ -863,7 +997,12 @@ export async function updateGalleryMetadataInIndex(
       if (updates.tags !== undefined) light.tags = updates.tags.length > 0 ? updates.tags : undefined;
       if (updates.locale !== undefined) light.locale = updates.locale;
       if (updates.translations !== undefined) light.translations = updates.translations;
+      if (updates.publishAt !== undefined) light.publishAt = updates.publishAt || undefined;
+      if (updates.unpublishAt !== undefined) light.unpublishAt = updates.unpublishAt || undefined;
     }
+
+    // A gallery that turned private or closed its window stops feeding smart galleries
+    await rematerializeSmartGalleries(storage, index);
     
     // Update timestamp
     index.updatedAt = new Date().toISOString();
@@ -918,6 +1057,9 @@ export async function assignPhotosToGalleryInIndex(
   if (target.isParentGallery && target.hasChildren) {
     throw new Error("Container galleries cannot receive photos directly");
   }
+  if (target.query) {
+    throw new Error("Smart galleries are filled by their query");
+  }
 
   const physicalPhotos = new Map<string, { gallery: GalleryDataEntry; photo: GalleryPhotoEntry }>();
   for (const gallery of index.galleryData) {
@@ -980,6 +1122,67 @@ export async function assignPhotosToGalleryInIndex(
   };
 }
 
+/**
+ * Removes logical memberships from a gallery. Photos stored in the gallery
+ * itself are never touched; deleting those goes through the photo API.
+ */
+export async function unassignPhotosFromGalleryInIndex(
+  storage: StorageAdapter,
+  photoPaths: readonly string[],
+  gallerySlug: string,
+): Promise<{ removed: number }> {
+  const targetSlug = gallerySlug.trim();
+  const requestedPaths = new Set(photoPaths.map((path) => path.trim()).filter(Boolean));
+  const index = await getContentIndex(storage);
+  const target = index.galleryData.find((gallery) => gallery.slug === targetSlug);
+  if (!target) throw new Error("Gallery was not found");
+
+  const references = target.photos.filter(
+    (photo) => photo.isReference && requestedPaths.has(photo.path),
+  );
+  if (references.length === 0) return { removed: 0 };
+
+  await removeGalleryMemberships(storage, references.map((photo) => photo.path), targetSlug);
+  target.photos = target.photos.filter((photo) => !references.includes(photo));
+  target.photoCount = target.photos.filter((photo) => !photo.hidden).length;
+  const light = index.galleries.find((gallery) => gallery.slug === targetSlug);
+  if (light) light.photoCount = target.photoCount;
+  index.updatedAt = new Date().toISOString();
+  await writeContentIndex(storage, index);
+  return { removed: references.length };
+}
+
+/**
+ * Re-materializes smart galleries from the photos already in the index, after
+ * their semantic matches change or a publication window opens or closes.
+ */
+export async function refreshSmartGalleriesInIndex(
+  storage: StorageAdapter,
+  now: Date = new Date(),
+): Promise<{ galleries: number }> {
+  const index = await readContentIndex(storage);
+  if (!index) return { galleries: 0 };
+  const galleries = await rematerializeSmartGalleries(storage, index, now);
+  if (galleries > 0) {
+    index.updatedAt = new Date().toISOString();
+    await writeContentIndex(storage, index);
+  }
+  return { galleries };
+}
+
+/** Keeps smart galleries in step with an in-place index edit; returns how many there are. */
+async function rematerializeSmartGalleries(
+  storage: StorageAdapter,
+  index: ContentIndex,
+  now: Date = new Date(),
+): Promise<number> {
+  const count = index.galleryData.filter((gallery) => gallery.query).length;
+  if (count === 0) return 0;
+  materializeSmartGalleries(index.galleryData, await readSmartGalleryMatches(storage), now);
+  syncGalleryIndexEntries(index.galleries, index.galleryData);
+  return count;
+}
+
 /**
  * Update only the YAML-based metadata for photos in a gallery
  * This is MUCH faster than a full rebuild because it doesn't re-read images
@@ -1020,10 +1223,15 @@ export async function updateGalleryPhotosInIndex(
       index.galleries[lightIdx].photoCount = gallery.photoCount;
     }
     
+    // Hidden or removed photos must leave the smart galleries too
+    await rematerializeSmartGalleries(storage, index);
+
     // Recalculate stats
     index.stats.totalPhotos = index.galleryData.reduce(
       (sum, g) => sum + g.photos.filter((photo) => !photo.isReference).length, 0
     );
+    index.timeline = buildPhotoTimeline(index.galleryData);
+    index.equipment = buildEquipmentStats(index.galleryData);
     
     // Update timestamp
     index.updatedAt = new Date().toISOString();
@@ -1045,12 +1253,16 @@ export async function updateGalleryPhotosInIndex(
 
 /**
  * Add new photos to a gallery in the index
- * Only reads EXIF from the new files, not all files in the gallery
+ * Only reads EXIF from the new files, not all files in the gallery.
+ * With `replace`, photos already in the gallery get their embedded metadata
+ * and fingerprint refreshed from the new bytes while titles, tags, order and
+ * visibility stay as they were.
  */
 export async function addPhotosToGalleryIndex(
   storage: StorageAdapter,
   galleryPath: string,
-  newPhotoPaths: string[]
+  newPhotoPaths: string[],
+  options: { replace?: boolean } = {},
 ): Promise<{ success: boolean; message: string }> {
   const startTime = Date.now();
   
@@ -1075,7 +1287,8 @@ export async function addPhotosToGalleryIndex(
       const filename = photoPath.split('/').pop() || photoPath;
       
       // Check if already exists
-      if (gallery.photos.some(p => p.filename === filename)) {
+      const existing = gallery.photos.find(p => p.filename === filename && !p.isReference);
+      if (existing && !options.replace) {
         continue;
       }
       
@@ -1093,6 +1306,15 @@ export async function addPhotosToGalleryIndex(
             createCanonicalImageSourceFingerprint(buffer),
           ]);
           sourceFingerprint = fingerprint;
+          const preview = isCameraRawFile(filename) ? extractEmbeddedJpegPreview(buffer) : null;
+          if (preview) {
+            try {
+              await writePhotoRendition(storage, photoPath, preview);
+            } catch (error) {
+              // Image delivery cuts the preview out per request meanwhile
+              console.error(`[Rendition] Failed to store preview for ${photoPath}:`, error);
+            }
+          }
           if (extracted) {
             exifCache = toImageMetadataSummary(extracted.exif);
             if (exifCache.dateTaken) {
@@ -1119,6 +1341,18 @@ export async function addPhotosToGalleryIndex(
         console.warn(`Failed to extract embedded metadata from ${photoPath}:`, error);
       }
       
+      if (existing) {
+        // A replacement without embedded metadata keeps the previous EXIF
+        existing.lastModified = lastModified;
+        existing.sourceFingerprint = sourceFingerprint ?? existing.sourceFingerprint;
+        if (exifCache) {
+          existing.exif = exifCache;
+          existing.dateTaken = exifCache.dateTaken ?? existing.dateTaken;
+          existing.year = year ?? existing.year;
+        }
+        continue;
+      }
+
       // Add the new photo
       gallery.photos.push({
         id: filename.replace(/\.[^.]+$/, ''),
@@ -1147,6 +1381,8 @@ export async function addPhotosToGalleryIndex(
     index.stats.totalPhotos = index.galleryData.reduce(
       (sum, g) => sum + g.photos.filter((photo) => !photo.isReference).length, 0
     );
+    index.timeline = buildPhotoTimeline(index.galleryData);
+    index.equipment = buildEquipmentStats(index.galleryData);
     
     index.updatedAt = new Date().toISOString();
     await writeContentIndex(storage, index);
@@ -1168,23 +1404,28 @@ function localizedText<T extends {
   title?: string;
   description?: string;
   tags?: string[];
+  alt?: string;
   locale?: Locale;
-  translations?: TranslationMap<{ title?: string; description?: string; tags?: string[] }>;
+  translations?: TranslationMap<{ title?: string; description?: string; tags?: string[]; alt?: string }>;
 }>(entry: T, locale: Locale): T {
   const sourceLocale = normalizeLocale(entry.locale) || "en";
   const base = {
     title: entry.title,
     description: entry.description,
     tags: entry.tags,
+    alt: entry.translations?.[sourceLocale]?.alt,
   };
   const resolution = resolveTranslation(base, sourceLocale, entry.translations, locale);
   const translated = resolution.value;
+  // Alt text follows the resolved edition, so it is in the same language as the title.
+  const alt = translated.alt || undefined;
 
   return {
     ...entry,
     title: translated.title || entry.title,
     description: translated.description ?? entry.description,
     tags: translated.tags || entry.tags,
+    ...(alt ? { alt } : {}),
   };
 }
 
@@ -1226,8 +1467,10 @@ export async function getNavigationFromIndex(
   const index = await getContentIndex(storage);
   
   // Filter public galleries and sort by order
+  const now = new Date();
   const publicGalleries = index.galleries
     .filter(g => !g.isProtected || g.photoCount > 0) // Include protected if has photos
+    .filter(g => isWithinPublicationWindow(g, now))
     .sort((a, b) => (a.order ?? 999) - (b.order ?? 999));
   
   const galleries = locale
@@ -1259,6 +1502,14 @@ export async function getHomePhotosFromIndex(
   locale?: Locale,
 ): Promise<HomePhoto[]> {
   const index = await getContentIndex(storage);
+  // Featured photos are collected at build time; scheduled galleries are
+  // filtered here so they appear and disappear without a rebuild.
+  const now = new Date();
+  const offlineGalleries = new Set(
+    index.galleryData
+      .filter((gallery) => !isWithinPublicationWindow(gallery, now))
+      .map((gallery) => gallery.slug),
+  );
 
   // Older indexes may lack dimensions on featuredPhotos while the same values
   // already live in galleryData. Enrich at read time so the home grid is stable
@@ -1280,7 +1531,7 @@ export async function getHomePhotosFromIndex(
       const gallery = index.galleryData.find((entry) => entry.slug === config.gallery);
       const photo = gallery?.photos.find((entry) => entry.filename === config.filename);
 
-      if (gallery && photo && !photo.hidden) {
+      if (gallery && photo && !photo.hidden && !offlineGalleries.has(gallery.slug)) {
         const homePhoto: HomePhoto = {
           id: photo.id,
           path: photo.path,
@@ -1307,7 +1558,7 @@ export async function getHomePhotosFromIndex(
   
   // Default: use all featured photos in order
   const photos = index.featuredPhotos
-    .filter(p => !p.hidden)
+    .filter(p => !p.hidden && !offlineGalleries.has(p.gallerySlug))
     .map((photo, idx) => ({
       ...photo,
       width: photo.width ?? dimensionsByPath.get(photo.path)?.width,
@@ -1319,6 +1570,104 @@ export async function getHomePhotosFromIndex(
     : photos;
 }
 
+// ==================== Timeline & Equipment Helpers ====================
+
+export interface PublicPhotoEntry extends GalleryPhotoEntry {
+  gallerySlug: string;
+  galleryTitle: string;
+}
+
+export interface TimelinePhoto extends PublicPhotoEntry {
+  /** `YYYY-MM-DD` capture day */
+  day: string;
+}
+
+/** Galleries whose photos appear on the timeline and equipment statistics. */
+function publicPhotoGalleries(index: ContentIndex, now: Date): GalleryDataEntry[] {
+  return index.galleryData.filter((gallery) => isPublicPhotoGallery(gallery, now));
+}
+
+/**
+ * Capture-date counts (`YYYY-MM-DD` → photos) across the public galleries.
+ * Built at rebuild time; privacy and publication windows apply here.
+ */
+export async function getPhotoTimelineFromIndex(
+  storage: StorageAdapter,
+  now: Date = new Date(),
+): Promise<Record<string, number>> {
+  const index = await getContentIndex(storage);
+  const timeline = index.timeline ?? buildPhotoTimeline(index.galleryData);
+  return mergePhotoTimeline(
+    timeline,
+    publicPhotoGalleries(index, now).map((gallery) => gallery.slug),
+  );
+}
+
+/**
+ * Visible photos of the public galleries taken within any of the given
+ * periods (`YYYY`, `YYYY-MM` or `YYYY-MM-DD`), oldest first
+ */
+export async function getTimelinePhotosFromIndex(
+  storage: StorageAdapter,
+  periods: readonly string[],
+  locale?: Locale,
+  now: Date = new Date(),
+): Promise<TimelinePhoto[]> {
+  if (periods.length === 0) return [];
+  const index = await getContentIndex(storage);
+  const photos: TimelinePhoto[] = [];
+  for (const entry of publicPhotoGalleries(index, now)) {
+    const gallery = locale ? localizeGalleryDataEntry(entry, locale) : entry;
+    for (const photo of gallery.photos) {
+      if (photo.hidden || photo.isReference) continue;
+      const day = photoCaptureDay(photo);
+      if (!day || !periods.some((period) => day.startsWith(period))) continue;
+      photos.push({ ...photo, gallerySlug: gallery.slug, galleryTitle: gallery.title, day });
+    }
+  }
+  return photos.sort((left, right) =>
+    (left.dateTaken ?? left.exif?.dateTaken ?? "").localeCompare(right.dateTaken ?? right.exif?.dateTaken ?? ""),
+  );
+}
+
+/**
+ * Camera, lens and exposure statistics across the public galleries
+ */
+export async function getEquipmentStatsFromIndex(
+  storage: StorageAdapter,
+  now: Date = new Date(),
+): Promise<EquipmentStatsSummary> {
+  const index = await getContentIndex(storage);
+  const stats = index.equipment ?? buildEquipmentStats(index.galleryData);
+  return summarizeEquipmentStats(
+    mergeEquipmentStats(stats, publicPhotoGalleries(index, now).map((gallery) => gallery.slug)),
+  );
+}
+
+/**
+ * Visible photos of the public galleries matching an equipment filter,
+ * newest first
+ */
+export async function getEquipmentPhotosFromIndex(
+  storage: StorageAdapter,
+  filter: EquipmentFilter,
+  locale?: Locale,
+  now: Date = new Date(),
+): Promise<PublicPhotoEntry[]> {
+  const index = await getContentIndex(storage);
+  const photos: PublicPhotoEntry[] = [];
+  for (const entry of publicPhotoGalleries(index, now)) {
+    const gallery = locale ? localizeGalleryDataEntry(entry, locale) : entry;
+    for (const photo of gallery.photos) {
+      if (photo.hidden || photo.isReference || !matchesEquipmentFilter(photo, filter)) continue;
+      photos.push({ ...photo, gallerySlug: gallery.slug, galleryTitle: gallery.title });
+    }
+  }
+  return photos.sort((left, right) =>
+    (right.dateTaken ?? right.exif?.dateTaken ?? "").localeCompare(left.dateTaken ?? left.exif?.dateTaken ?? ""),
+  );
+}
+
 // ==================== Gallery Data Helpers ====================
 
 /**
@@ -1421,6 +1770,8 @@ export async function updateGalleryInIndex(
     path: gallery.path,
     hasChildren: (gallery.children?.length ?? 0) > 0,
     childCount: gallery.children?.length ?? 0,
+    publishAt: scheduleIso(gallery.publishAt),
+    unpublishAt: scheduleIso(gallery.unpublishAt),
   };
   
   // Find and update or add
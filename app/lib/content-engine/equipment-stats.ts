@@ -0,0 +1,279 @@
+/**
+ * Equipment Statistics
+ *
+ * Camera, lens and exposure counts from the EXIF summary of every photo,
+ * built into the content index on each rebuild. As with the timeline, counts
+ * are kept per gallery so privacy and publication windows apply at request
+ * time by merging a handful of small maps.
+ */
+
+import type { GalleryDataEntry, GalleryPhotoEntry } from "./content-index";
+import { photoCaptureDay } from "./timeline";
+
+/** Year key for photos without a capture date. */
+const UNDATED = "undated";
+
+export interface GalleryEquipmentStats {
+  /** Visible photos counted, with or without EXIF. */
+  photos: number;
+  /** camera → capture year → photos */
+  cameras: Record<string, Record<string, number>>;
+  /** lens → capture year → photos */
+  lenses: Record<string, Record<string, number>>;
+  /** rounded millimetres → photos */
+  focalLengths: Record<string, number>;
+  /** f-number → photos */
+  apertures: Record<string, number>;
+  isos: Record<string, number>;
+  shutterSpeeds: Record<string, number>;
+}
+
+export interface EquipmentStatsIndex {
+  galleries: Record<string, GalleryEquipmentStats>;
+}
+
+export interface EquipmentUsage {
+  name: string;
+  count: number;
+  /** Oldest first; `undated` last. */
+  years: Array<{ year: string; count: number }>;
+}
+
+export interface EquipmentValueCount {
+  value: string;
+  count: number;
+}
+
+export interface FocalLengthBucket {
+  /** `24-35`, or `600-` for the open-ended last bucket. */
+  range: string;
+  min: number;
+  max: number | null;
+  count: number;
+}
+
+export interface EquipmentStatsSummary {
+  totalPhotos: number;
+  /** Photos with a camera in their EXIF. */
+  photosWithExif: number;
+  cameras: EquipmentUsage[];
+  lenses: EquipmentUsage[];
+  focalLengths: FocalLengthBucket[];
+  apertures: EquipmentValueCount[];
+  isos: EquipmentValueCount[];
+  shutterSpeeds: EquipmentValueCount[];
+}
+
+/** Narrows a photo list; every given criterion must match. */
+export interface EquipmentFilter {
+  camera?: string;
+  lens?: string;
+  /** Inclusive millimetre bounds. */
+  focalMin?: number;
+  focalMax?: number;
+  aperture?: number;
+  iso?: number;
+  shutterSpeed?: string;
+  year?: string;
+}
+
+/** Upper bounds of the focal-length histogram, in 35mm-style focal lengths. */
+const FOCAL_LENGTH_BREAKS = [14, 20, 28, 35, 50, 85, 135, 200, 400, 600];
+
+function emptyStats(): GalleryEquipmentStats {
+  return { photos: 0, cameras: {}, lenses: {}, focalLengths: {}, apertures: {}, isos: {}, shutterSpeeds: {} };
+}
+
+function increment(counts: Record<string, number>, key: string, amount = 1): void {
+  counts[key] = (counts[key] ?? 0) + amount;
+}
+
+function incrementYear(
+  counts: Record<string, Record<string, number>>,
+  name: string,
+  year: string,
+  amount = 1,
+): void {
+  increment((counts[name] ??= {}), year, amount);
+}
+
+function cleanName(value: string | undefined): string | null {
+  const name = value?.replace(/\s+/g, " ").trim();
+  return name ? name : null;
+}
+
+/** Camera body as shown on the stats page. */
+export function photoCamera(photo: Pick<GalleryPhotoEntry, "exif">): string | null {
+  return cleanName(photo.exif?.camera) ?? cleanName(photo.exif?.model);
+}
+
+export function photoLens(photo: Pick<GalleryPhotoEntry, "exif">): string | null {
+  return cleanName(photo.exif?.lens);
+}
+
+function positive(value: number | undefined): number | null {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : null;
+}
+
+/** `2.8` rather than `2.799999952316284`. */
+function formatAperture(value: number): string {
+  return String(Math.round(value * 10) / 10);
+}
+
+function photoYear(photo: GalleryPhotoEntry): string {
+  return photoCaptureDay(photo)?.slice(0, 4) ?? UNDATED;
+}
+
+/**
+ * Counts visible photos by the gallery that stores them; logical references
+ * and smart galleries are left out so each photo is counted once.
+ */
+export function buildEquipmentStats(galleries: readonly GalleryDataEntry[]): EquipmentStatsIndex {
+  const index: EquipmentStatsIndex = { galleries: {} };
+  for (const gallery of galleries) {
+    const stats = emptyStats();
+    for (const photo of gallery.photos) {
+      if (photo.hidden || photo.isReference) continue;
+      stats.photos += 1;
+      const year = photoYear(photo);
+      const camera = photoCamera(photo);
+      const lens = photoLens(photo);
+      const focalLength = positive(photo.exif?.focalLength);
+      const aperture = positive(photo.exif?.aperture);
+      const iso = positive(photo.exif?.iso);
+      if (camera) incrementYear(stats.cameras, camera, year);
+      if (lens) incrementYear(stats.lenses, lens, year);
+      if (focalLength) increment(stats.focalLengths, String(Math.round(focalLength)));
+      if (aperture) increment(stats.apertures, formatAperture(aperture));
+      if (iso) increment(stats.isos, String(Math.round(iso)));
+      if (photo.exif?.shutterSpeed) increment(stats.shutterSpeeds, photo.exif.shutterSpeed);
+    }
+    if (stats.photos > 0) index.galleries[gallery.slug] = stats;
+  }
+  return index;
+}
+
+/** Counts summed over the given galleries. */
+export function mergeEquipmentStats(
+  index: EquipmentStatsIndex,
+  gallerySlugs: Iterable<string>,
+): GalleryEquipmentStats {
+  const merged = emptyStats();
+  for (const slug of gallerySlugs) {
+    const stats = index.galleries[slug];
+    if (!stats) continue;
+    merged.photos += stats.photos;
+    for (const key of ["cameras", "lenses"] as const) {
+      for (const [name, years] of Object.entries(stats[key])) {
+        for (const [year, count] of Object.entries(years)) incrementYear(merged[key], name, year, count);
+      }
+    }
+    for (const key of ["focalLengths", "apertures", "isos", "shutterSpeeds"] as const) {
+      for (const [value, count] of Object.entries(stats[key])) increment(merged[key], value, count);
+    }
+  }
+  return merged;
+}
+
+function usage(counts: Record<string, Record<string, number>>): EquipmentUsage[] {
+  return Object.entries(counts)
+    .map(([name, years]) => ({
+      name,
+      count: Object.values(years).reduce((sum, count) => sum + count, 0),
+      years: Object.entries(years)
+        .map(([year, count]) => ({ year, count }))
+        .sort((left, right) =>
+          left.year === UNDATED ? 1 : right.year === UNDATED ? -1 : left.year.localeCompare(right.year),
+        ),
+    }))
+    .sort((left, right) => right.count - left.count || left.name.localeCompare(right.name));
+}
+
+function mostUsed(counts: Record<string, number>): EquipmentValueCount[] {
+  return Object.entries(counts)
+    .map(([value, count]) => ({ value, count }))
+    .sort((left, right) => right.count - left.count || left.value.localeCompare(right.value, undefined, { numeric: true }));
+}
+
+function focalLengthHistogram(counts: Record<string, number>): FocalLengthBucket[] {
+  const buckets: FocalLengthBucket[] = FOCAL_LENGTH_BREAKS.map((max, index) => {
+    const min = index === 0 ? 1 : FOCAL_LENGTH_BREAKS[index - 1] + 1;
+    return { range: `${min}-${max}`, min, max, count: 0 };
+  });
+  const last = FOCAL_LENGTH_BREAKS[FOCAL_LENGTH_BREAKS.length - 1] + 1;
+  buckets.push({ range: `${last}-`, min: last, max: null, count: 0 });
+  for (const [value, count] of Object.entries(counts)) {
+    const focalLength = Number(value);
+    const bucket = buckets.find((item) => focalLength >= item.min && (item.max === null || focalLength <= item.max));
+    if (bucket) bucket.count += count;
+  }
+  return buckets;
+}
+
+export function summarizeEquipmentStats(stats: GalleryEquipmentStats): EquipmentStatsSummary {
+  const cameras = usage(stats.cameras);
+  return {
+    totalPhotos: stats.photos,
+    photosWithExif: cameras.reduce((sum, camera) => sum + camera.count, 0),
+    cameras,
+    lenses: usage(stats.lenses),
+    focalLengths: focalLengthHistogram(stats.focalLengths),
+    apertures: mostUsed(stats.apertures),
+    isos: mostUsed(stats.isos),
+    shutterSpeeds: mostUsed(stats.shutterSpeeds),
+  };
+}
+
+function positiveNumber(value: string | null): number | undefined {
+  const number = value ? Number(value) : NaN;
+  return Number.isFinite(number) && number > 0 ? number : undefined;
+}
+
+/**
+ * Filter from query parameters: `camera`, `lens`, `focal` (`35` or a
+ * `24-35` range, open-ended as `600-`), `aperture`, `iso`, `shutter`, `year`.
+ */
+export function parseEquipmentFilter(params: URLSearchParams): EquipmentFilter | null {
+  const filter: EquipmentFilter = {};
+  const camera = cleanName(params.get("camera") ?? undefined);
+  const lens = cleanName(params.get("lens") ?? undefined);
+  if (camera) filter.camera = camera;
+  if (lens) filter.lens = lens;
+
+  const focal = params.get("focal")?.match(/^(\d+(?:\.\d+)?)(?:(-)(\d+(?:\.\d+)?)?)?$/);
+  if (focal) {
+    filter.focalMin = Number(focal[1]);
+    if (!focal[2]) filter.focalMax = Number(focal[1]);
+    else if (focal[3]) filter.focalMax = Number(focal[3]);
+  }
+  const aperture = positiveNumber(params.get("aperture"));
+  const iso = positiveNumber(params.get("iso"));
+  if (aperture) filter.aperture = aperture;
+  if (iso) filter.iso = iso;
+  const shutterSpeed = params.get("shutter")?.trim();
+  if (shutterSpeed) filter.shutterSpeed = shutterSpeed;
+  const year = params.get("year");
+  if (year && (/^\d{4}$/.test(year) || year === UNDATED)) filter.year = year;
+
+  return Object.keys(filter).length > 0 ? filter : null;
+}
+
+export function matchesEquipmentFilter(photo: GalleryPhotoEntry, filter: EquipmentFilter): boolean {
+  const exif = photo.exif;
+  const focalLength = positive(exif?.focalLength);
+  const aperture = positive(exif?.aperture);
+  const iso = positive(exif?.iso);
+  return (
+    (!filter.camera || photoCamera(photo) === filter.camera) &&
+    (!filter.lens || photoLens(photo) === filter.lens) &&
+    (filter.focalMin === undefined ||
+      (focalLength !== null && Math.round(focalLength) >= filter.focalMin)) &&
+    (filter.focalMax === undefined ||
+      (focalLength !== null && Math.round(focalLength) <= filter.focalMax)) &&
+    (filter.aperture === undefined ||
+      (aperture !== null && formatAperture(aperture) === formatAperture(filter.aperture))) &&
+    (filter.iso === undefined || (iso !== null && Math.round(iso) === Math.round(filter.iso))) &&
+    (!filter.shutterSpeed || exif?.shutterSpeed === filter.shutterSpeed) &&
+    (!filter.year || photoYear(photo) === filter.year)
+  );
+}
@@ -13,6 +13,7 @@ import type {
   ExifData,
   ImageMetadataSummary,
 } from "./types";
+import { extractEmbeddedJpegPreview } from "./photo-renditions";
 
 export const IMAGE_METADATA_VERSION = 1;
 
@@ -48,9 +49,21 @@ async function getExifrParse() {
  * MakerNote and embedded thumbnail blobs are deliberately not duplicated in
  * the sidecar: they can be very large, are not decoded by exifr, and remain in
  * the untouched original. Decoded ICC binary values are retained as base64.
+ * RAW containers exifr cannot open (RAF, CR3) are read through the JPEG
+ * preview the camera embedded, which carries the same EXIF block.
  */
 export async function extractImageMetadata(
   buffer: ArrayBuffer,
+): Promise<ExtractedImageMetadata | null> {
+  const metadata = await decodeImageMetadata(buffer);
+  if (metadata) return metadata;
+
+  const preview = extractEmbeddedJpegPreview(buffer);
+  return preview ? decodeImageMetadata(preview) : null;
+}
+
+async function decodeImageMetadata(
+  buffer: ArrayBuffer,
 ): Promise<ExtractedImageMetadata | null> {
   const rasterDimensions = readJpegDimensions(buffer);
 
@@ -0,0 +1,49 @@
+export const GALLERY_DOWNLOAD_SIZES = ["none", "web-size", "original"] as const;
+
+export type GalleryDownloadSize = (typeof GALLERY_DOWNLOAD_SIZES)[number];
+
+/**
+ * What visitors may download from a gallery. In gallery.yaml either a bare
+ * size (`downloads: original`) or `{ size, watermark }`.
+ */
+export interface GalleryDownloadPolicy {
+  size: GalleryDownloadSize;
+  /** Only hand out watermarked web-size variants, never the clean source. */
+  watermark?: boolean;
+}
+
+export const DEFAULT_GALLERY_DOWNLOAD_POLICY: GalleryDownloadPolicy = { size: "none" };
+
+export function isGalleryDownloadSize(value: unknown): value is GalleryDownloadSize {
+  return GALLERY_DOWNLOAD_SIZES.includes(value as GalleryDownloadSize);
+}
+
+export function normalizeGalleryDownloadPolicy(value: unknown): GalleryDownloadPolicy {
+  if (isGalleryDownloadSize(value)) return { size: value };
+  if (value && typeof value === "object") {
+    const { size, watermark } = value as Record<string, unknown>;
+    if (isGalleryDownloadSize(size)) {
+      return watermark === true ? { size, watermark: true } : { size };
+    }
+  }
+  return { ...DEFAULT_GALLERY_DOWNLOAD_POLICY };
+}
+
+/** The gallery.yaml form of a policy; undefined when downloads are off. */
+export function serializeGalleryDownloadPolicy(
+  policy: GalleryDownloadPolicy,
+): GalleryDownloadSize | GalleryDownloadPolicy | undefined {
+  if (policy.size === "none") return undefined;
+  return policy.watermark ? { size: policy.size, watermark: true } : policy.size;
+}
+
+/**
+ * The file size actually served. A watermark requirement caps downloads at
+ * web size because originals are never stamped.
+ */
+export function effectiveGalleryDownloadSize(
+  policy: GalleryDownloadPolicy | undefined,
+): GalleryDownloadSize {
+  const { size, watermark } = policy ?? DEFAULT_GALLERY_DOWNLOAD_POLICY;
+  return size === "original" && watermark ? "web-size" : size;
+}
@@ -71,6 +71,25 @@ export async function addGalleryMemberships(
   await writeGalleryMemberships(storage, memberships);
 }
 
+/** Removes photos from one logical gallery; their other memberships are kept. */
+export async function removeGalleryMemberships(
+  storage: StorageAdapter,
+  photoPaths: readonly string[],
+  gallerySlug: string,
+): Promise<void> {
+  const target = gallerySlug.trim();
+  if (!target) throw new Error("Gallery slug is required");
+  const memberships = await readGalleryMemberships(storage);
+  let changed = false;
+  for (const path of photoPaths) {
+    const current = memberships[path];
+    if (!current?.includes(target)) continue;
+    memberships[path] = current.filter((slug) => slug !== target);
+    changed = true;
+  }
+  if (changed) await writeGalleryMemberships(storage, memberships);
+}
+
 export async function removeGalleryMembershipsForPhotos(
   storage: StorageAdapter,
   photoPaths: readonly string[],
@@ -25,7 +25,7 @@ import {
   sortPhotosAlphabetically,
 } from "./utils";
 import { extractImageMetadata, fromImageMetadataSummary } from "./exif";
-import { normalizeLocale, type TranslationMap } from "~/lib/i18n";
+import { normalizeLocale, type Locale, type TranslationMap } from "~/lib/i18n";
 import type { GalleryTranslation, PhotoTranslation } from "./types";
 import {
   createCanonicalImageSourceFingerprint,
@@ -33,6 +33,9 @@ import {
   type VictoPressEmbeddedMetadata,
 } from "./victopress-xmp";
 import { normalizeGalleryThumbnailAspectRatio } from "./gallery-layout";
+import { normalizeGalleryDownloadPolicy } from "./gallery-downloads";
+import { scheduleTime } from "./publishing";
+import { normalizeSmartGalleryQuery } from "./smart-galleries";
 
 const GALLERIES_PATH = "galleries";
 
@@ -185,6 +188,8 @@ async function scanGalleryFolder(
     tags: yamlMetadata?.tags || collectTagsFromPhotos(sortedPhotos),
     category: derivedCategory || undefined,
     private: yamlMetadata?.private || false,
+    publishAt: yamlMetadata?.publishAt,
+    unpublishAt: yamlMetadata?.unpublishAt,
     password: yamlMetadata?.password,
     order: yamlMetadata?.order,
     hasCustomMetadata: !!yamlMetadata,
@@ -192,6 +197,11 @@ async function scanGalleryFolder(
     thumbnailAspectRatio: normalizeGalleryThumbnailAspectRatio(
       yamlMetadata?.thumbnailAspectRatio,
     ),
+    downloads: yamlMetadata?.downloads === undefined
+      ? undefined
+      : normalizeGalleryDownloadPolicy(yamlMetadata.downloads),
+    query: normalizeSmartGalleryQuery(yamlMetadata?.query),
+    hideExactLocation: yamlMetadata?.hideExactLocation === true || undefined,
     isParentGallery,
   };
 
@@ -219,6 +229,10 @@ async function loadGalleryYaml(
     if (typeof data.date === "string") {
       data.date = new Date(data.date);
     }
+    for (const key of ["publishAt", "unpublishAt"] as const) {
+      const time = scheduleTime(data[key]);
+      data[key] = time === null ? undefined : new Date(time);
+    }
     
     return data;
   } catch (error) {
@@ -270,7 +284,7 @@ interface PhotoYamlEntry {
   tags?: string[];
   hidden?: boolean;
   order?: number;
-  locale?: "es" | "en";
+  locale?: Locale;
   translations?: TranslationMap<PhotoTranslation>;
   date?: string;
 }
@@ -520,7 +534,7 @@ export interface ParentGalleryMetadata {
   slug: string;
   title?: string;
   order?: number;
-  locale?: "es" | "en";
+  locale?: Locale;
   translations?: TranslationMap<GalleryTranslation>;
 }
 
@@ -33,6 +33,7 @@ export type {
   Tag,
   ContentIndex,
   FileInfo,
+  MultipartUploadPart,
   StorageAdapter,
 } from "./types";
 
@@ -61,6 +62,24 @@ export {
   isHydratedBlogPostIndex,
 } from "./blog-index";
 export { scanPages, filterVisiblePages, getPageBySlug, localizePage } from "./page-scanner";
+
+// Scheduled publishing
+export {
+  filterPublishedGalleries,
+  isPostPublished,
+  isPublicPhotoGallery,
+  isScheduled,
+  isWithinPublicationWindow,
+  publicationWindowError,
+  scheduleIso,
+  scheduleTime,
+} from "./publishing";
+export type { PublicationWindow } from "./publishing";
+export {
+  runScheduledPublishing,
+  SCHEDULED_PUBLISHING_STATE_KEY,
+} from "./scheduled-publishing";
+export type { ScheduledPublishingResult } from "./scheduled-publishing";
 export type { LocalizedPage } from "./page-scanner";
 
 // Tag system
@@ -96,9 +115,16 @@ export {
   removePageFromIndex,
   // Partial update functions (fast, YAML-only changes)
   updateGalleryMetadataInIndex,
+  galleryMetadataIndexUpdates,
   updateGalleryPhotosInIndex,
   addPhotosToGalleryIndex,
   assignPhotosToGalleryInIndex,
+  unassignPhotosFromGalleryInIndex,
+  refreshSmartGalleriesInIndex,
+  getPhotoTimelineFromIndex,
+  getTimelinePhotosFromIndex,
+  getEquipmentStatsFromIndex,
+  getEquipmentPhotosFromIndex,
 } from "./content-index";
 
 export {
@@ -108,6 +134,92 @@ export {
   normalizeGalleryThumbnailAspectRatio,
 } from "./gallery-layout";
 export type { GalleryThumbnailAspectRatio } from "./gallery-layout";
+export {
+  DEFAULT_GALLERY_DOWNLOAD_POLICY,
+  GALLERY_DOWNLOAD_SIZES,
+  effectiveGalleryDownloadSize,
+  isGalleryDownloadSize,
+  normalizeGalleryDownloadPolicy,
+  serializeGalleryDownloadPolicy,
+} from "./gallery-downloads";
+export type { GalleryDownloadPolicy, GalleryDownloadSize } from "./gallery-downloads";
+export {
+  DEFAULT_WATERMARK_SETTINGS,
+  WATERMARK_POSITIONS,
+  fadeWatermarkPixels,
+  isWatermarkPosition,
+  normalizeWatermarkSettings,
+  resolveWatermarkSettings,
+  watermarkAppliesToWidth,
+  watermarkLogoWidth,
+  watermarkPlacement,
+  watermarkTextBox,
+} from "./watermark";
+export type { WatermarkOverride, WatermarkPosition, WatermarkSettings } from "./watermark";
+export {
+  SMART_GALLERY_MATCHES_KEY,
+  SMART_GALLERY_SORTS,
+  matchesSmartGalleryQuery,
+  materializeSmartGalleries,
+  normalizeSmartGalleryQuery,
+  readSmartGalleryMatches,
+  writeSmartGalleryMatches,
+} from "./smart-galleries";
+export type {
+  SmartGalleryQuery,
+  SmartGallerySemanticMatches,
+  SmartGallerySort,
+} from "./smart-galleries";
+export {
+  buildPhotoTimeline,
+  normalizeTimelinePeriod,
+  photoCaptureDay,
+  photoTimelineOnThisDay,
+  photoTimelinePeriods,
+  timelinePeriodGranularity,
+} from "./timeline";
+export type {
+  PhotoTimelineGranularity,
+  PhotoTimelineIndex,
+  PhotoTimelinePeriod,
+} from "./timeline";
+export {
+  buildEquipmentStats,
+  matchesEquipmentFilter,
+  parseEquipmentFilter,
+  photoCamera,
+  photoLens,
+  summarizeEquipmentStats,
+} from "./equipment-stats";
+export type {
+  EquipmentFilter,
+  EquipmentStatsIndex,
+  EquipmentStatsSummary,
+  EquipmentUsage,
+  EquipmentValueCount,
+  FocalLengthBucket,
+} from "./equipment-stats";
+export {
+  abortUploadSession,
+  collisionFilename,
+  completeUploadSession,
+  isUploadCollisionPolicy,
+  listUploadSessions,
+  missingUploadParts,
+  readUploadSession,
+  startUploadSession,
+  uploadPartCount,
+  uploadSessionPart,
+  uploadSessionRendition,
+  UploadSessionError,
+  UPLOAD_CHUNK_SIZE,
+  UPLOAD_COLLISION_POLICIES,
+} from "./uploads";
+export type {
+  UploadCollisionPolicy,
+  UploadSession,
+  UploadStartResult,
+} from "./uploads";
 export type {
   ContentIndex as ContentIndexData,
   GalleryIndexEntry,
@@ -119,10 +231,35 @@ export type {
   PhotoIndexEntry,
   HomePhoto,
   GalleryMembershipAssignmentResult,
+  GalleryMetadataIndexUpdates,
+  TimelinePhoto,
+  PublicPhotoEntry,
 } from "./content-index";
 
+export {
+  REVISIONS_PREFIX,
+  MAX_REVISIONS_PER_TARGET,
+  createUnifiedDiff,
+  getContentRevision,
+  isRevisionTargetKind,
+  listContentRevisions,
+  recordContentRevision,
+  restoreContentRevision,
+  revisionLogKey,
+  revisionPathsInFolder,
+  withContentRevision,
+  RevisionNotFoundError,
+} from "./revisions";
+export type {
+  ContentRevision,
+  RevisionFile,
+  RevisionTarget,
+  RevisionTargetKind,
+} from "./revisions";
+
 export {
   readGalleryMemberships,
+  removeGalleryMemberships,
   removeGalleryMembershipsForPhotos,
   moveGalleryMemberships,
 } from "./gallery-memberships";
@@ -159,6 +296,23 @@ export type {
   StoredPhotoMetadata,
   PhotoMetadataSourceInfo,
 } from "./photo-metadata-store";
+export {
+  CAMERA_RAW_EXTENSIONS,
+  HEIF_EXTENSIONS,
+  PHOTO_RENDITIONS_PREFIX,
+  deletePhotoRendition,
+  extractEmbeddedJpegPreview,
+  getPhotoRenditionStorageKey,
+  isCameraRawFile,
+  isHeifFile,
+  movePhotoRendition,
+  readPhotoAnalysisImage,
+  readPhotoRendition,
+  servesPhotoRendition,
+  usesPhotoRendition,
+  writePhotoRendition,
+} from "./photo-renditions";
+export type { PhotoAnalysisImage } from "./photo-renditions";
 export {
   VICTOPRESS_EMBEDDED_METADATA_VERSION,
   VICTOPRESS_XMP_NAMESPACE,
@@ -179,9 +333,13 @@ export type {
 // Storage adapters
 export { R2StorageAdapter } from "./storage/r2-adapter";
 export { LocalStorageAdapter } from "./storage/local-adapter";
+export { S3StorageAdapter } from "./storage/s3-adapter";
+export type { S3StorageConfig } from "./storage/s3-adapter";
 export { 
   createStorageAdapter, 
   getStorage, 
+  getS3Config,
+  getS3ConfigFromProcessEnv,
   getStorageMode, 
   getAdapterPreference,
   isDemoMode,
@@ -192,7 +350,7 @@ export {
   needsSetup,
   StorageNotConfiguredError,
 } from "./storage";
-export type { StorageMode, StorageAdapterPreference } from "./storage";
+export type { StorageMode, StorageAdapterPreference, S3StorageEnv } from "./storage";
 
 // Utilities
 export {
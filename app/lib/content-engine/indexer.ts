@@ -14,6 +14,7 @@ import {
   normalizeBlogSlug,
 } from "./blog-scanner";
 import { buildTagIndex } from "./tag-indexer";
+import { filterPublishedGalleries } from "./publishing";
 import { sortByDateDesc } from "./utils";
 
 /**
@@ -29,7 +30,7 @@ export async function generateContentIndex(
   ]);
 
   // Filter for public content
-  const publicGalleries = allGalleries.filter((g) => !g.private);
+  const publicGalleries = filterPublishedGalleries(allGalleries).filter((g) => !g.private);
   const publishedPosts = filterPublishedPosts(allPosts);
 
   // Sort by date (most recent first)
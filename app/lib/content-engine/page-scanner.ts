@@ -207,7 +207,7 @@ async function scanPageFile(
 }
 
 function localeFromVariantFilename(filename: string): Locale | null {
-  const match = filename.match(/\.(es|en)\.(?:md|html?)$/i);
+  const match = filename.match(/\.([a-z]{2})\.(?:md|html?)$/i);
   return normalizeLocale(match?.[1]);
 }
 
@@ -0,0 +1,208 @@
+/**
+ * Display renditions for originals browsers and models cannot read.
+ *
+ * HEIC/HEIF and camera RAW files (plus AVIF for the AI pipeline) are kept
+ * untouched as the downloadable original. Next to them a private JPEG
+ * rendition is stored: RAW files carry a full-size JPEG preview from the
+ * camera, which is cut out on the server; HEIC and AVIF are decoded by the
+ * uploading browser. Image delivery, WebP variants and Photo AI all read the
+ * rendition instead of the original.
+ */
+
+import type { StorageAdapter } from "./types";
+
+export const PHOTO_RENDITIONS_PREFIX = "_photo-renditions/v1";
+
+export const CAMERA_RAW_EXTENSIONS = [
+  "dng",
+  "raf",
+  "cr2",
+  "cr3",
+  "nef",
+  "arw",
+  "orf",
+  "rw2",
+  "pef",
+  "srw",
+] as const;
+
+export const HEIF_EXTENSIONS = ["heic", "heif"] as const;
+
+function extensionOf(filename: string): string {
+  return filename.toLowerCase().split(".").pop() || "";
+}
+
+export function isCameraRawFile(filename: string): boolean {
+  return (CAMERA_RAW_EXTENSIONS as readonly string[]).includes(extensionOf(filename));
+}
+
+export function isHeifFile(filename: string): boolean {
+  return (HEIF_EXTENSIONS as readonly string[]).includes(extensionOf(filename));
+}
+
+/** Originals that browsers cannot show, so image delivery serves the rendition. */
+export function servesPhotoRendition(filename: string): boolean {
+  return isCameraRawFile(filename) || isHeifFile(filename);
+}
+
+/** Originals that get a JPEG rendition: everything above plus AVIF for AI. */
+export function usesPhotoRendition(filename: string): boolean {
+  return servesPhotoRendition(filename) || extensionOf(filename) === "avif";
+}
+
+/** Deterministic private object key for a physical photo path. */
+export function getPhotoRenditionStorageKey(photoPath: string): string {
+  return `${PHOTO_RENDITIONS_PREFIX}/${encodeURIComponent(photoPath)}.jpg`;
+}
+
+export async function readPhotoRendition(
+  storage: Pick<StorageAdapter, "get">,
+  photoPath: string,
+): Promise<ArrayBuffer | null> {
+  return storage.get(getPhotoRenditionStorageKey(photoPath));
+}
+
+export async function writePhotoRendition(
+  storage: StorageAdapter,
+  photoPath: string,
+  jpeg: ArrayBuffer,
+): Promise<void> {
+  await storage.put(getPhotoRenditionStorageKey(photoPath), jpeg, "image/jpeg");
+}
+
+export async function deletePhotoRendition(
+  storage: StorageAdapter,
+  photoPath: string,
+): Promise<void> {
+  await storage.delete(getPhotoRenditionStorageKey(photoPath));
+}
+
+export async function movePhotoRendition(
+  storage: StorageAdapter,
+  fromPath: string,
+  toPath: string,
+): Promise<void> {
+  const from = getPhotoRenditionStorageKey(fromPath);
+  if (!(await storage.exists(from))) return;
+  await storage.move(from, getPhotoRenditionStorageKey(toPath));
+}
+
+function isRestartMarker(marker: number): boolean {
+  return marker >= 0xd0 && marker <= 0xd7;
+}
+
+/**
+ * End offset of a baseline or progressive JPEG starting at `start`, or null.
+ * Lossless JPEG (SOF3 and friends) is rejected: RAW containers use it for the
+ * sensor data itself, which is not a picture a browser can show.
+ */
+function displayableJpegEnd(bytes: Uint8Array, start: number): number | null {
+  let offset = start + 2;
+  let displayable = false;
+  let scanned = false;
+
+  while (offset + 1 < bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    if (marker === 0xff) {
+      offset++;
+      continue;
+    }
+    if (marker === 0xd9) return displayable && scanned ? offset + 2 : null;
+    if (isRestartMarker(marker) || marker === 0x01) {
+      offset += 2;
+      continue;
+    }
+    if (offset + 3 >= bytes.length) return null;
+
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      if (marker > 0xc2) return null;
+      displayable = true;
+    }
+
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    if (length < 2) return null;
+    offset += 2 + length;
+
+    if (marker === 0xda) {
+      scanned = true;
+      // Entropy-coded data runs until a marker that is not stuffing or a restart
+      while (offset + 1 < bytes.length) {
+        const next = bytes[offset + 1];
+        if (bytes[offset] === 0xff && next !== 0x00 && next !== 0xff && !isRestartMarker(next)) break;
+        offset++;
+      }
+    }
+  }
+
+  return null;
+}
+
+function hasAscii(bytes: Uint8Array, offset: number, value: string): boolean {
+  if (bytes.length < offset + value.length) return false;
+  for (let index = 0; index < value.length; index++) {
+    if (bytes[offset + index] !== value.charCodeAt(index)) return false;
+  }
+  return true;
+}
+
+/**
+ * The largest JPEG preview a camera embedded in a RAW file. Fujifilm RAF
+ * records its location in the header; the TIFF- and ISO-based containers
+ * (DNG, CR2, CR3, NEF, ARW…) are searched for complete JPEG streams.
+ */
+export function extractEmbeddedJpegPreview(buffer: ArrayBuffer): ArrayBuffer | null {
+  const bytes = new Uint8Array(buffer);
+
+  if (hasAscii(bytes, 0, "FUJIFILMCCD-RAW") && bytes.length >= 92) {
+    const view = new DataView(buffer);
+    const offset = view.getUint32(84);
+    const length = view.getUint32(88);
+    if (offset + length <= bytes.length && displayableJpegEnd(bytes, offset) !== null) {
+      return buffer.slice(offset, offset + length);
+    }
+  }
+
+  let best: { start: number; end: number } | null = null;
+  for (let index = 0; index + 2 < bytes.length; index++) {
+    if (bytes[index] !== 0xff || bytes[index + 1] !== 0xd8 || bytes[index + 2] !== 0xff) continue;
+    const end = displayableJpegEnd(bytes, index);
+    if (end === null) continue;
+    if (!best || end - index > best.end - best.start) best = { start: index, end };
+    // Thumbnails nested inside this preview's EXIF block are smaller anyway
+    index = end - 1;
+  }
+
+  return best ? buffer.slice(best.start, best.end) : null;
+}
+
+export interface PhotoAnalysisImage {
+  bytes: ArrayBuffer;
+  mimeType: "image/jpeg" | "image/png";
+}
+
+/**
+ * JPEG or PNG bytes that stand in for a photo wherever only those formats can
+ * be read (Photo AI, perceptual duplicate hashes). Null when the photo has no
+ * readable rendition yet.
+ */
+export async function readPhotoAnalysisImage(
+  storage: Pick<StorageAdapter, "get">,
+  photoPath: string,
+  original?: ArrayBuffer,
+): Promise<PhotoAnalysisImage | null> {
+  const extension = extensionOf(photoPath);
+  if (extension === "png" || extension === "jpg" || extension === "jpeg") {
+    const bytes = original ?? await storage.get(photoPath);
+    return bytes ? { bytes, mimeType: extension === "png" ? "image/png" : "image/jpeg" } : null;
+  }
+  if (!usesPhotoRendition(photoPath)) return null;
+
+  const rendition = await readPhotoRendition(storage, photoPath);
+  if (rendition) return { bytes: rendition, mimeType: "image/jpeg" };
+
+  if (!isCameraRawFile(photoPath)) return null;
+  const raw = original ?? await storage.get(photoPath);
+  const preview = raw ? extractEmbeddedJpegPreview(raw) : null;
+  return preview ? { bytes: preview, mimeType: "image/jpeg" } : null;
+}
@@ -0,0 +1,90 @@
+/**
+ * Publication Windows
+ *
+ * Posts and galleries may carry `publishAt` and `unpublishAt` timestamps.
+ * Public listings evaluate the window at request time, so content goes live
+ * at its publishAt even before the scheduled run refreshes the index.
+ */
+
+export interface PublicationWindow {
+  publishAt?: Date | string;
+  unpublishAt?: Date | string;
+}
+
+/** Milliseconds since the epoch, or null for a missing or invalid value. */
+export function scheduleTime(value: Date | string | undefined | null): number | null {
+  if (!value) return null;
+  const time = value instanceof Date ? value.getTime() : new Date(value).getTime();
+  return Number.isNaN(time) ? null : time;
+}
+
+/** ISO timestamp suitable for frontmatter, YAML and the content index. */
+export function scheduleIso(value: Date | string | undefined | null): string | undefined {
+  const time = scheduleTime(value);
+  return time === null ? undefined : new Date(time).toISOString();
+}
+
+export function isWithinPublicationWindow(
+  window: PublicationWindow,
+  now: Date = new Date(),
+): boolean {
+  const current = now.getTime();
+  const publishAt = scheduleTime(window.publishAt);
+  const unpublishAt = scheduleTime(window.unpublishAt);
+  if (publishAt !== null && current < publishAt) return false;
+  if (unpublishAt !== null && current >= unpublishAt) return false;
+  return true;
+}
+
+/** A post is public when it is not a draft and its window is open. */
+export function isPostPublished(
+  post: PublicationWindow & { draft?: boolean },
+  now: Date = new Date(),
+): boolean {
+  return !post.draft && isWithinPublicationWindow(post, now);
+}
+
+/** Scheduled but not yet live; used by the admin to label posts and galleries. */
+export function isScheduled(window: PublicationWindow, now: Date = new Date()): boolean {
+  const publishAt = scheduleTime(window.publishAt);
+  return publishAt !== null && now.getTime() < publishAt;
+}
+
+/**
+ * Validate the window submitted from the admin. Returns a message for the
+ * editor, or null when the window is acceptable.
+ */
+export function publicationWindowError(
+  publishAt: string,
+  unpublishAt: string,
+): string | null {
+  if (publishAt && scheduleTime(publishAt) === null) return "Publish date is not a valid date";
+  if (unpublishAt && scheduleTime(unpublishAt) === null) return "Unpublish date is not a valid date";
+  const start = scheduleTime(publishAt);
+  const end = scheduleTime(unpublishAt);
+  if (start !== null && end !== null && end <= start) {
+    return "Unpublish date must be after the publish date";
+  }
+  return null;
+}
+
+/** Galleries whose publication window is open; private flags are separate. */
+export function filterPublishedGalleries<T extends PublicationWindow>(
+  galleries: readonly T[],
+  now: Date = new Date(),
+): T[] {
+  return galleries.filter((gallery) => isWithinPublicationWindow(gallery, now));
+}
+
+/**
+ * Galleries whose photos may appear on pages that gather photos across
+ * galleries (timeline, equipment stats, map, people): live, not private and
+ * not protected unless the visitor has unlocked them.
+ */
+export function isPublicPhotoGallery(
+  gallery: PublicationWindow & { isProtected?: boolean; private?: boolean },
+  now: Date = new Date(),
+  includeProtected = false,
+): boolean {
+  return (includeProtected || !gallery.isProtected) && !gallery.private && isWithinPublicationWindow(gallery, now);
+}
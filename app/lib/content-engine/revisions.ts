@@ -0,0 +1,502 @@
+/**
+ * Content revision history
+ *
+ * Every admin write to a gallery.yaml, photos.yaml, blog Markdown file or page
+ * source is snapshotted under `.victopress/revisions/`, one log per edited
+ * gallery, photo, post or page. A revision keeps the full text of each file
+ * before and after the write plus a unified diff, so any revision can be
+ * restored without replaying the history.
+ */
+
+import { parse, stringify } from "yaml";
+import type { StorageAdapter } from "./types";
+import {
+  galleryMetadataIndexUpdates,
+  removePageFromIndex,
+  removePostFromIndex,
+  updateGalleryMetadataInIndex,
+  updateGalleryPhotosInIndex,
+  updatePageInIndex,
+  updatePostInIndex,
+} from "./content-index";
+import { scanBlogPost } from "./blog-scanner";
+import { scanPages } from "./page-scanner";
+import { normalizeLocale } from "~/lib/i18n";
+
+export const REVISIONS_PREFIX = ".victopress/revisions";
+export const REVISION_LOG_VERSION = 1 as const;
+/** Older revisions are dropped once a log grows past this many entries. */
+export const MAX_REVISIONS_PER_TARGET = 50;
+
+export type RevisionTargetKind = "gallery" | "photo" | "post" | "page";
+
+/**
+ * What a revision belongs to. `id` is the gallery path (`galleries/japan`),
+ * the photo path (`galleries/japan/tokyo.jpg`), or the post/page slug.
+ */
+export interface RevisionTarget {
+  kind: RevisionTargetKind;
+  id: string;
+}
+
+export interface RevisionFile {
+  path: string;
+  /** File text before the write; null when the write created the file. */
+  before: string | null;
+  /** File text after the write; null when the write deleted the file. */
+  after: string | null;
+  diff: string;
+}
+
+export interface ContentRevision {
+  id: string;
+  action: string;
+  author: string;
+  createdAt: string;
+  files: RevisionFile[];
+  /** Set on revisions created by restoring an earlier revision. */
+  restoredFrom?: string;
+}
+
+interface RevisionLog {
+  version: typeof REVISION_LOG_VERSION;
+  target: RevisionTarget;
+  revisions: ContentRevision[];
+}
+
+const TARGET_KINDS: readonly RevisionTargetKind[] = ["gallery", "photo", "post", "page"];
+
+export function isRevisionTargetKind(value: unknown): value is RevisionTargetKind {
+  return TARGET_KINDS.includes(value as RevisionTargetKind);
+}
+
+export function revisionLogKey(target: RevisionTarget): string {
+  return `${REVISIONS_PREFIX}/${target.kind}/${encodeURIComponent(target.id)}.json`;
+}
+
+function isRevisionLog(value: unknown): value is RevisionLog {
+  if (!value || typeof value !== "object") return false;
+  const log = value as Partial<RevisionLog>;
+  return (
+    log.version === REVISION_LOG_VERSION &&
+    Boolean(log.target) &&
+    isRevisionTargetKind(log.target?.kind) &&
+    Array.isArray(log.revisions)
+  );
+}
+
+async function readRevisionLog(
+  storage: StorageAdapter,
+  target: RevisionTarget,
+): Promise<RevisionLog> {
+  const raw = await storage.getText(revisionLogKey(target));
+  if (raw) {
+    try {
+      const value: unknown = JSON.parse(raw);
+      if (isRevisionLog(value)) return value;
+    } catch {
+      // A corrupt log is replaced by the next revision.
+    }
+  }
+  return { version: REVISION_LOG_VERSION, target, revisions: [] };
+}
+
+// ==================== Diff ====================
+
+type DiffLine = { type: " " | "-" | "+"; text: string };
+
+function splitLines(text: string | null): string[] {
+  if (!text) return [];
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+function diffLines(before: string[], after: string[]): DiffLine[] {
+  // Trim the shared prefix and suffix first; admin edits usually touch a few
+  // lines, which keeps the LCS table small even for long photos.yaml files.
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) {
+    start += 1;
+  }
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore -= 1;
+    endAfter -= 1;
+  }
+
+  const left = before.slice(start, endBefore);
+  const right = after.slice(start, endAfter);
+  const table: number[][] = Array.from({ length: left.length + 1 }, () =>
+    new Array<number>(right.length + 1).fill(0),
+  );
+  for (let i = left.length - 1; i >= 0; i -= 1) {
+    for (let j = right.length - 1; j >= 0; j -= 1) {
+      table[i][j] = left[i] === right[j]
+        ? table[i + 1][j + 1] + 1
+        : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < left.length && j < right.length) {
+    if (left[i] === right[j]) {
+      middle.push({ type: " ", text: left[i] });
+      i += 1;
+      j += 1;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      middle.push({ type: "-", text: left[i++] });
+    } else {
+      middle.push({ type: "+", text: right[j++] });
+    }
+  }
+  while (i < left.length) middle.push({ type: "-", text: left[i++] });
+  while (j < right.length) middle.push({ type: "+", text: right[j++] });
+
+  return [
+    ...before.slice(0, start).map((text) => ({ type: " " as const, text })),
+    ...middle,
+    ...before.slice(endBefore).map((text) => ({ type: " " as const, text })),
+  ];
+}
+
+/**
+ * Unified diff between two versions of a text file, with three lines of
+ * context around each change. Returns an empty string when nothing changed.
+ */
+export function createUnifiedDiff(
+  path: string,
+  before: string | null,
+  after: string | null,
+  context = 3,
+): string {
+  if (before === after) return "";
+  const lines = diffLines(splitLines(before), splitLines(after));
+  const changed = lines
+    .map((line, index) => (line.type === " " ? -1 : index))
+    .filter((index) => index >= 0);
+  if (changed.length === 0) return "";
+
+  const output = [
+    `--- ${before === null ? "/dev/null" : `a/${path}`}`,
+    `+++ ${after === null ? "/dev/null" : `b/${path}`}`,
+  ];
+  let cursor = 0;
+  while (cursor < changed.length) {
+    const hunkStart = Math.max(0, changed[cursor] - context);
+    let hunkEnd = Math.min(lines.length, changed[cursor] + context + 1);
+    cursor += 1;
+    while (cursor < changed.length && changed[cursor] - context <= hunkEnd) {
+      hunkEnd = Math.min(lines.length, changed[cursor] + context + 1);
+      cursor += 1;
+    }
+
+    let oldStart = 1;
+    let newStart = 1;
+    for (const line of lines.slice(0, hunkStart)) {
+      if (line.type !== "+") oldStart += 1;
+      if (line.type !== "-") newStart += 1;
+    }
+    const hunk = lines.slice(hunkStart, hunkEnd);
+    const oldCount = hunk.filter((line) => line.type !== "+").length;
+    const newCount = hunk.filter((line) => line.type !== "-").length;
+    output.push(
+      `@@ -${oldCount === 0 ? oldStart - 1 : oldStart},${oldCount} +${newCount === 0 ? newStart - 1 : newStart},${newCount} @@`,
+    );
+    for (const line of hunk) output.push(`${line.type}${line.text}`);
+  }
+  return output.join("\n");
+}
+
+// ==================== Recording ====================
+
+export interface RecordRevisionInput {
+  targets: readonly RevisionTarget[];
+  action: string;
+  author: string;
+  files: ReadonlyArray<{ path: string; before: string | null; after: string | null }>;
+  restoredFrom?: string;
+  now?: Date;
+}
+
+/**
+ * Append a revision to the log of every target it touches. Files whose text
+ * did not change are skipped; a write that changed nothing records nothing.
+ */
+export async function recordContentRevision(
+  storage: StorageAdapter,
+  input: RecordRevisionInput,
+): Promise<ContentRevision | null> {
+  const files = input.files
+    .filter((file) => file.before !== file.after)
+    .map((file) => ({
+      ...file,
+      diff: createUnifiedDiff(file.path, file.before, file.after),
+    }));
+  if (files.length === 0 || input.targets.length === 0) return null;
+
+  const revision: ContentRevision = {
+    id: crypto.randomUUID(),
+    action: input.action,
+    author: input.author,
+    createdAt: (input.now ?? new Date()).toISOString(),
+    files,
+    ...(input.restoredFrom ? { restoredFrom: input.restoredFrom } : {}),
+  };
+
+  for (const target of input.targets) {
+    const log = await readRevisionLog(storage, target);
+    log.revisions = [revision, ...log.revisions].slice(0, MAX_REVISIONS_PER_TARGET);
+    await storage.put(revisionLogKey(target), JSON.stringify(log), "application/json");
+  }
+  console.log(
+    `[Revisions] 📝 ${input.action} by ${input.author}: ${files.map((file) => file.path).join(", ")}`,
+  );
+  return revision;
+}
+
+async function readTexts(
+  storage: StorageAdapter,
+  paths: readonly string[],
+): Promise<Map<string, string | null>> {
+  const entries = await Promise.all(
+    paths.map(async (path) => [path, await storage.getText(path)] as const),
+  );
+  return new Map(entries);
+}
+
+/**
+ * Run an admin write and record the files it changed. `paths` may be a
+ * function so sidecars created or removed by the write are picked up; it is
+ * evaluated before and after the write. Recording failures are logged and
+ * never fail the write itself.
+ */
+export async function withContentRevision<T>(
+  storage: StorageAdapter,
+  options: {
+    targets: readonly RevisionTarget[];
+    action: string;
+    author: string;
+    paths: readonly string[] | (() => Promise<string[]>);
+  },
+  write: () => Promise<T>,
+): Promise<T> {
+  const resolvePaths = async () =>
+    typeof options.paths === "function" ? options.paths() : [...options.paths];
+
+  let beforePaths: string[] = [];
+  let before = new Map<string, string | null>();
+  try {
+    beforePaths = await resolvePaths();
+    before = await readTexts(storage, beforePaths);
+  } catch (error) {
+    console.error("[Revisions] Could not snapshot files before write", error);
+  }
+
+  const result = await write();
+
+  try {
+    const afterPaths = await resolvePaths();
+    const paths = [...new Set([...beforePaths, ...afterPaths])];
+    const after = await readTexts(storage, paths);
+    await recordContentRevision(storage, {
+      targets: options.targets,
+      action: options.action,
+      author: options.author,
+      files: paths.map((path) => ({
+        path,
+        before: before.get(path) ?? null,
+        after: after.get(path) ?? null,
+      })),
+    });
+  } catch (error) {
+    console.error("[Revisions] Could not record revision", error);
+  }
+
+  return result;
+}
+
+/**
+ * Text files that make up a post or page folder (Markdown/HTML editions and
+ * YAML sidecars). Images are not versioned.
+ */
+export async function revisionPathsInFolder(
+  storage: StorageAdapter,
+  folder: string,
+): Promise<string[]> {
+  const files = await storage.list(folder);
+  return files
+    .filter((file) => !file.isDirectory && /\.(md|markdown|html?|ya?ml)$/i.test(file.name))
+    .map((file) => file.path)
+    .sort();
+}
+
+// ==================== Browsing ====================
+
+export async function listContentRevisions(
+  storage: StorageAdapter,
+  target: RevisionTarget,
+): Promise<ContentRevision[]> {
+  return (await readRevisionLog(storage, target)).revisions;
+}
+
+export async function getContentRevision(
+  storage: StorageAdapter,
+  target: RevisionTarget,
+  revisionId: string,
+): Promise<ContentRevision | null> {
+  const revisions = await listContentRevisions(storage, target);
+  return revisions.find((revision) => revision.id === revisionId) ?? null;
+}
+
+// ==================== Restoring ====================
+
+export class RevisionNotFoundError extends Error {
+  constructor(revisionId: string) {
+    super(`Revision ${revisionId} was not found`);
+    this.name = "RevisionNotFoundError";
+  }
+}
+
+type PhotoYamlEntry = { filename: string; [key: string]: unknown };
+
+function parsePhotoEntries(text: string | null): PhotoYamlEntry[] {
+  if (!text) return [];
+  try {
+    const parsed = parse(text);
+    const entries = Array.isArray(parsed)
+      ? parsed
+      : Array.isArray(parsed?.photos) ? parsed.photos : [];
+    return entries.filter(
+      (entry: unknown): entry is PhotoYamlEntry =>
+        Boolean(entry) && typeof (entry as PhotoYamlEntry).filename === "string",
+    );
+  } catch {
+    return [];
+  }
+}
+
+function splitPhotoPath(photoPath: string): { galleryPath: string; filename: string } {
+  const slash = photoPath.lastIndexOf("/");
+  return {
+    galleryPath: photoPath.slice(0, slash),
+    filename: photoPath.slice(slash + 1),
+  };
+}
+
+/**
+ * photos.yaml is shared by every photo in a gallery, so restoring one photo
+ * only swaps that photo's entry and leaves its neighbours' current metadata.
+ */
+function restorePhotoEntry(
+  current: string | null,
+  snapshot: string | null,
+  filename: string,
+): string {
+  const entries = parsePhotoEntries(current);
+  const restored = parsePhotoEntries(snapshot).find((entry) => entry.filename === filename);
+  const index = entries.findIndex((entry) => entry.filename === filename);
+  if (restored && index >= 0) entries[index] = restored;
+  else if (restored) entries.push(restored);
+  else if (index >= 0) entries.splice(index, 1);
+  return stringify(entries);
+}
+
+async function refreshIndexForTarget(
+  storage: StorageAdapter,
+  target: RevisionTarget,
+): Promise<void> {
+  switch (target.kind) {
+    case "gallery": {
+      const text = await storage.getText(`${target.id}/gallery.yaml`);
+      let metadata: Record<string, unknown> = {};
+      try {
+        metadata = (text ? parse(text) : null) || {};
+      } catch {
+        metadata = {};
+      }
+      await updateGalleryMetadataInIndex(storage, target.id, galleryMetadataIndexUpdates(metadata));
+      return;
+    }
+    case "photo": {
+      const { galleryPath, filename } = splitPhotoPath(target.id);
+      const entry = parsePhotoEntries(await storage.getText(`${galleryPath}/photos.yaml`))
+        .find((candidate) => candidate.filename === filename);
+      await updateGalleryPhotosInIndex(storage, galleryPath, (photos) =>
+        photos.map((photo) => {
+          if (photo.filename !== filename) return photo;
+          return {
+            ...photo,
+            title: entry?.title as string | undefined,
+            description: entry?.description as string | undefined,
+            locale: normalizeLocale(entry?.locale) || photo.locale,
+            translations: entry?.translations as typeof photo.translations,
+            tags: entry?.tags as string[] | undefined,
+            order: entry?.order as number | undefined,
+            hidden: entry?.hidden === true,
+            dateTaken: (entry?.date as string | undefined) ?? photo.dateTaken,
+          };
+        }),
+      );
+      return;
+    }
+    case "post": {
+      const post = await scanBlogPost(storage, target.id);
+      if (post) await updatePostInIndex(storage, post);
+      else await removePostFromIndex(storage, target.id);
+      return;
+    }
+    case "page": {
+      const page = (await scanPages(storage)).find((candidate) => candidate.slug === target.id);
+      if (page) await updatePageInIndex(storage, page);
+      else await removePageFromIndex(storage, target.id);
+      return;
+    }
+  }
+}
+
+/**
+ * Restore the files of a revision and refresh the content index.
+ *
+ * `side: "after"` (the default) brings back the content as that revision saved
+ * it; `side: "before"` brings back what it replaced. The restore is itself
+ * recorded, so it can be undone the same way.
+ */
+export async function restoreContentRevision(
+  storage: StorageAdapter,
+  target: RevisionTarget,
+  revisionId: string,
+  options: { author: string; side?: "before" | "after"; now?: Date },
+): Promise<ContentRevision | null> {
+  const revision = await getContentRevision(storage, target, revisionId);
+  if (!revision) throw new RevisionNotFoundError(revisionId);
+  const side = options.side ?? "after";
+
+  const changes: Array<{ path: string; before: string | null; after: string | null }> = [];
+  for (const file of revision.files) {
+    const current = await storage.getText(file.path);
+    const snapshot = side === "after" ? file.after : file.before;
+    const next = target.kind === "photo" && file.path.endsWith("/photos.yaml")
+      ? restorePhotoEntry(current, snapshot, splitPhotoPath(target.id).filename)
+      : snapshot;
+
+    if (next === current) continue;
+    if (next === null) await storage.delete(file.path);
+    else await storage.put(file.path, next);
+    changes.push({ path: file.path, before: current, after: next });
+  }
+
+  await refreshIndexForTarget(storage, target);
+
+  return recordContentRevision(storage, {
+    targets: [target],
+    action: "restore",
+    author: options.author,
+    files: changes,
+    restoredFrom: revision.id,
+    now: options.now,
+  });
+}
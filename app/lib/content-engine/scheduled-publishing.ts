@@ -0,0 +1,140 @@
+/**
+ * Scheduled Publishing Run
+ *
+ * Invoked by the cron trigger. Refreshes the index entries whose publication
+ * window opened or closed since the previous run and reports newly published
+ * posts so the caller can announce them.
+ */
+
+import { parse } from "yaml";
+import type { BlogPost, StorageAdapter } from "./types";
+import {
+  galleryMetadataIndexUpdates,
+  readContentIndex,
+  removePostFromIndex,
+  updateGalleryMetadataInIndex,
+  updatePostInIndex,
+} from "./content-index";
+import { scanBlogPost } from "./blog-scanner";
+import {
+  isPostPublished,
+  isWithinPublicationWindow,
+  scheduleTime,
+  type PublicationWindow,
+} from "./publishing";
+
+export const SCHEDULED_PUBLISHING_STATE_KEY = ".victopress/scheduled-publishing.json";
+
+interface ScheduledPublishingState {
+  version: 1;
+  lastRunAt: string;
+}
+
+async function readState(storage: StorageAdapter): Promise<ScheduledPublishingState | null> {
+  try {
+    const text = await storage.getText(SCHEDULED_PUBLISHING_STATE_KEY);
+    if (!text) return null;
+    const state = JSON.parse(text) as ScheduledPublishingState;
+    return state?.version === 1 && scheduleTime(state.lastRunAt) !== null ? state : null;
+  } catch {
+    return null;
+  }
+}
+
+export interface ScheduledPublishingResult {
+  ranAt: string;
+  /** Start of the window that was evaluated; null on the first run. */
+  since: string | null;
+  publishedPosts: string[];
+  unpublishedPosts: string[];
+  publishedGalleries: string[];
+  unpublishedGalleries: string[];
+}
+
+/** Whether a scheduled instant fell inside (since, now]. */
+function transitioned(value: string | undefined, since: number | null, now: number): boolean {
+  const time = scheduleTime(value);
+  return time !== null && time <= now && (since === null || time > since);
+}
+
+/**
+ * Refresh the index entries whose publication window changed since the last
+ * run. The first run only catches the index up: `onPostPublished` is called
+ * for transitions after a previous run, so enabling the cron never announces
+ * a backlog of old posts.
+ */
+export async function runScheduledPublishing(
+  storage: StorageAdapter,
+  options: {
+    now?: Date;
+    onPostPublished?: (post: BlogPost) => Promise<void>;
+  } = {},
+): Promise<ScheduledPublishingResult> {
+  const now = options.now ?? new Date();
+  const state = await readState(storage);
+  const since = state ? scheduleTime(state.lastRunAt) : null;
+  const current = now.getTime();
+  const result: ScheduledPublishingResult = {
+    ranAt: now.toISOString(),
+    since: state?.lastRunAt ?? null,
+    publishedPosts: [],
+    unpublishedPosts: [],
+    publishedGalleries: [],
+    unpublishedGalleries: [],
+  };
+
+  const index = await readContentIndex(storage);
+  if (index) {
+    for (const entry of index.posts) {
+      const published = transitioned(entry.publishAt, since, current);
+      const unpublished = transitioned(entry.unpublishAt, since, current);
+      if (!published && !unpublished) continue;
+
+      const post = await scanBlogPost(storage, entry.slug);
+      if (post) await updatePostInIndex(storage, post);
+      else await removePostFromIndex(storage, entry.slug);
+
+      if (post && isPostPublished(post, now)) {
+        result.publishedPosts.push(entry.slug);
+        if (since !== null && options.onPostPublished) {
+          try {
+            await options.onPostPublished(post);
+          } catch (error) {
+            console.error(`[Scheduler] Announcing ${entry.slug} failed`, error);
+          }
+        }
+      } else if (unpublished) {
+        result.unpublishedPosts.push(entry.slug);
+      }
+    }
+
+    for (const entry of index.galleryData) {
+      const published = transitioned(entry.publishAt, since, current);
+      const unpublished = transitioned(entry.unpublishAt, since, current);
+      if (!published && !unpublished) continue;
+
+      const text = await storage.getText(`${entry.path}/gallery.yaml`);
+      let metadata: Record<string, unknown> = {};
+      try {
+        metadata = (text ? parse(text) : null) || {};
+      } catch {
+        metadata = {};
+      }
+      await updateGalleryMetadataInIndex(storage, entry.path, galleryMetadataIndexUpdates(metadata));
+
+      if (isWithinPublicationWindow(metadata as PublicationWindow, now)) {
+        result.publishedGalleries.push(entry.slug);
+      } else {
+        result.unpublishedGalleries.push(entry.slug);
+      }
+    }
+  }
+
+  const nextState: ScheduledPublishingState = { version: 1, lastRunAt: now.toISOString() };
+  await storage.put(SCHEDULED_PUBLISHING_STATE_KEY, JSON.stringify(nextState), "application/json");
+  console.log(
+    `[Scheduler] ⏰ ${result.publishedPosts.length} posts and ${result.publishedGalleries.length} galleries published, ` +
+      `${result.unpublishedPosts.length + result.unpublishedGalleries.length} unpublished`,
+  );
+  return result;
+}
@@ -0,0 +1,293 @@
+/**
+ * Smart Galleries
+ *
+ * A gallery.yaml with a `query:` block is filled by the photos of other public
+ * galleries that match it. Matches are materialized into the content index as
+ * logical references on every rebuild, so the public gallery, photo and
+ * sitemap routes treat them like any other gallery.
+ *
+ * @example
+ * ```yaml
+ * title: Best of Japan
+ * query:
+ *   country: JP
+ *   minRating: 4
+ *   from: 2019
+ *   text: quiet streets at night
+ * ```
+ *
+ * The semantic `text` is resolved against the photo vector index by the AI
+ * module, which stores its ranked matches in SMART_GALLERY_MATCHES_KEY.
+ */
+
+import type { GalleryDataEntry, GalleryPhotoEntry } from "./content-index";
+import { isWithinPublicationWindow } from "./publishing";
+import type { StorageAdapter } from "./types";
+
+export const SMART_GALLERY_MATCHES_KEY = ".victopress/smart-gallery-matches.json";
+const SMART_GALLERY_MATCHES_VERSION = 1 as const;
+export const SMART_GALLERY_SORTS = ["date-desc", "date-asc", "rating", "relevance"] as const;
+export const DEFAULT_SMART_GALLERY_LIMIT = 500;
+const MAX_SMART_GALLERY_LIMIT = 2_000;
+
+export type SmartGallerySort = (typeof SMART_GALLERY_SORTS)[number];
+
+/** Every given criterion must match; list values match any of their items. */
+export interface SmartGalleryQuery {
+  /** The photo carries all of these tags or keywords. */
+  tags?: string[];
+  excludeTags?: string[];
+  /** Inclusive ISO bounds on the capture date. */
+  from?: string;
+  to?: string;
+  /** Case-insensitive substrings of the camera and lens names. */
+  camera?: string;
+  lens?: string;
+  /** Country names or ISO codes. */
+  country?: string[];
+  city?: string[];
+  minRating?: number;
+  /** Source galleries, including their child galleries. */
+  galleries?: string[];
+  /** Semantic description matched against the photo vector index. */
+  text?: string;
+  /** Defaults to relevance with `text`, newest first otherwise. */
+  sort?: SmartGallerySort;
+  limit?: number;
+}
+
+/** Ranked vector matches for one smart gallery's `text`. */
+export interface SmartGallerySemanticMatches {
+  text: string;
+  updatedAt: string;
+  matches: Array<{ path: string; score: number }>;
+}
+
+interface SmartGalleryMatchesFile {
+  version: typeof SMART_GALLERY_MATCHES_VERSION;
+  updatedAt: string;
+  galleries: Record<string, SmartGallerySemanticMatches>;
+}
+
+function normalizeTerm(value: string): string {
+  return value.normalize("NFD").replace(/\p{M}/gu, "").toLowerCase().replace(/\s+/g, " ").trim();
+}
+
+function normalizeList(value: unknown): string[] | undefined {
+  const items = (Array.isArray(value) ? value : [value])
+    .filter((item): item is string | number => typeof item === "string" || typeof item === "number")
+    .map((item) => String(item).trim())
+    .filter(Boolean);
+  return items.length > 0 ? Array.from(new Set(items)) : undefined;
+}
+
+function normalizeText(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * A year (`2019`), a date (`2019-06-01`) or a full timestamp. Years and dates
+ * used as the upper bound cover their whole span.
+ */
+function normalizeBound(value: unknown, end: boolean): string | undefined {
+  if (typeof value === "number" && Number.isInteger(value)) {
+    return end ? `${value}-12-31T23:59:59.999Z` : `${value}-01-01T00:00:00.000Z`;
+  }
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? undefined : value.toISOString();
+  }
+  if (typeof value !== "string" || !value.trim()) return undefined;
+  const text = value.trim();
+  if (/^\d{4}$/.test(text)) return normalizeBound(Number(text), end);
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(text);
+  const time = new Date(dateOnly ? `${text}T00:00:00.000Z` : text).getTime();
+  if (Number.isNaN(time)) return undefined;
+  return new Date(dateOnly && end ? time + 86_400_000 - 1 : time).toISOString();
+}
+
+/** The `query:` block of a gallery.yaml, or undefined when it sets no criterion. */
+export function normalizeSmartGalleryQuery(value: unknown): SmartGalleryQuery | undefined {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return undefined;
+  const raw = value as Record<string, unknown>;
+  const minRating = Number(raw.minRating);
+  const query: SmartGalleryQuery = {
+    tags: normalizeList(raw.tags),
+    excludeTags: normalizeList(raw.excludeTags),
+    from: normalizeBound(raw.from, false),
+    to: normalizeBound(raw.to, true),
+    camera: normalizeText(raw.camera),
+    lens: normalizeText(raw.lens),
+    country: normalizeList(raw.country),
+    city: normalizeList(raw.city),
+    minRating: raw.minRating !== undefined && Number.isFinite(minRating) ? minRating : undefined,
+    galleries: normalizeList(raw.galleries)?.map((slug) => slug.replace(/^\/+|\/+$/g, "")),
+    text: normalizeText(raw.text)?.slice(0, 500),
+  };
+  const criteria = Object.fromEntries(
+    Object.entries(query).filter(([, criterion]) => criterion !== undefined),
+  ) as SmartGalleryQuery;
+  if (Object.keys(criteria).length === 0) return undefined;
+
+  if (SMART_GALLERY_SORTS.includes(raw.sort as SmartGallerySort)) {
+    criteria.sort = raw.sort as SmartGallerySort;
+  }
+  const limit = Number(raw.limit);
+  if (raw.limit !== undefined && Number.isInteger(limit) && limit > 0) {
+    criteria.limit = Math.min(limit, MAX_SMART_GALLERY_LIMIT);
+  }
+  return criteria;
+}
+
+function photoTime(photo: GalleryPhotoEntry): number | null {
+  const value = photo.dateTaken ?? photo.exif?.dateTaken;
+  const time = value ? new Date(value).getTime() : Number.NaN;
+  if (!Number.isNaN(time)) return time;
+  return photo.year ? Date.UTC(photo.year, 0, 1) : null;
+}
+
+function includesName(candidates: Array<string | undefined>, wanted: readonly string[]): boolean {
+  const names = new Set(candidates.filter((name): name is string => !!name).map(normalizeTerm));
+  return wanted.some((name) => names.has(normalizeTerm(name)));
+}
+
+/** Whether a photo stored in `sourceSlug` matches every non-semantic criterion. */
+export function matchesSmartGalleryQuery(
+  photo: GalleryPhotoEntry,
+  sourceSlug: string,
+  query: SmartGalleryQuery,
+): boolean {
+  const exif = photo.exif;
+  const tags = new Set([...(photo.tags ?? []), ...(exif?.keywords ?? [])].map(normalizeTerm));
+  if (query.tags && !query.tags.every((tag) => tags.has(normalizeTerm(tag)))) return false;
+  if (query.excludeTags?.some((tag) => tags.has(normalizeTerm(tag)))) return false;
+
+  if (query.from || query.to) {
+    const time = photoTime(photo);
+    if (time === null) return false;
+    if (query.from && time < new Date(query.from).getTime()) return false;
+    if (query.to && time > new Date(query.to).getTime()) return false;
+  }
+
+  const camera = normalizeTerm(exif?.camera ?? [exif?.make, exif?.model].filter(Boolean).join(" "));
+  if (query.camera && !camera.includes(normalizeTerm(query.camera))) return false;
+  if (query.lens && !normalizeTerm(exif?.lens ?? "").includes(normalizeTerm(query.lens))) return false;
+  if (query.country && !includesName([exif?.country, exif?.countryCode], query.country)) return false;
+  if (query.city && !includesName([exif?.city], query.city)) return false;
+  if (query.minRating !== undefined && (exif?.rating ?? 0) < query.minRating) return false;
+  if (
+    query.galleries &&
+    !query.galleries.some((slug) => sourceSlug === slug || sourceSlug.startsWith(`${slug}/`))
+  ) return false;
+  return true;
+}
+
+function sortMatches(
+  matches: Array<{ photo: GalleryPhotoEntry; score: number }>,
+  sort: SmartGallerySort,
+): void {
+  const newestFirst = (left: GalleryPhotoEntry, right: GalleryPhotoEntry) =>
+    (photoTime(right) ?? -Infinity) - (photoTime(left) ?? -Infinity);
+  matches.sort((left, right) => {
+    const byDate = newestFirst(left.photo, right.photo);
+    const order =
+      sort === "date-asc" ? -byDate
+      : sort === "rating" ? (right.photo.exif?.rating ?? 0) - (left.photo.exif?.rating ?? 0) || byDate
+      : sort === "relevance" ? right.score - left.score || byDate
+      : byDate;
+    return order || left.photo.path.localeCompare(right.photo.path);
+  });
+}
+
+/**
+ * Replaces the references of every smart gallery with the photos its query
+ * matches now. Sources are the stored photos of public galleries whose
+ * publication window is open; the scheduled run re-materializes when a window
+ * opens or closes. A smart gallery's own stored photos are kept first.
+ */
+export function materializeSmartGalleries(
+  galleries: GalleryDataEntry[],
+  semanticMatches: Readonly<Record<string, SmartGallerySemanticMatches>>,
+  now: Date = new Date(),
+): void {
+  const candidates = new Map<string, { gallery: GalleryDataEntry; photo: GalleryPhotoEntry }>();
+  for (const gallery of galleries) {
+    if (gallery.query || gallery.isProtected || gallery.private) continue;
+    if (!isWithinPublicationWindow(gallery, now)) continue;
+    for (const photo of gallery.photos) {
+      if (!photo.isReference && !photo.hidden) candidates.set(photo.path, { gallery, photo });
+    }
+  }
+
+  for (const gallery of galleries) {
+    const query = gallery.query;
+    if (!query) continue;
+    if (gallery.hasChildren) {
+      console.warn(`[Smart Galleries] Skipped ${gallery.slug}: galleries with child galleries cannot have a query`);
+      continue;
+    }
+
+    const ownPhotos = gallery.photos.filter((photo) => !photo.isReference);
+    const semantic = semanticMatches[gallery.slug];
+    const scores = query.text && semantic?.text === query.text
+      ? new Map(semantic.matches.map((match) => [match.path, match.score]))
+      : null;
+    const matches: Array<{ gallery: GalleryDataEntry; photo: GalleryPhotoEntry; score: number }> = [];
+    for (const [path, candidate] of candidates) {
+      // Until the AI module has resolved the text, a semantic query matches nothing.
+      if (query.text && !scores?.has(path)) continue;
+      if (!matchesSmartGalleryQuery(candidate.photo, candidate.gallery.slug, query)) continue;
+      matches.push({ ...candidate, score: scores?.get(path) ?? 0 });
+    }
+    sortMatches(matches, query.sort ?? (query.text ? "relevance" : "date-desc"));
+
+    const filenames = new Set(ownPhotos.map((photo) => photo.filename));
+    const references: GalleryPhotoEntry[] = [];
+    for (const match of matches) {
+      if (references.length >= (query.limit ?? DEFAULT_SMART_GALLERY_LIMIT)) break;
+      if (filenames.has(match.photo.filename)) {
+        console.warn(
+          `[Smart Galleries] Skipped ${match.photo.path} in ${gallery.slug}: filename collision`,
+        );
+        continue;
+      }
+      filenames.add(match.photo.filename);
+      references.push({ ...match.photo, isReference: true, sourceGallerySlug: match.gallery.slug });
+    }
+
+    gallery.photos = [...ownPhotos, ...references];
+    gallery.photoCount = gallery.photos.filter((photo) => !photo.hidden).length;
+    gallery.isParentGallery = false;
+    // gallery.yaml may name a matched photo by filename as the cover.
+    const coverName = gallery.cover?.split("/").pop();
+    if (!gallery.cover || !gallery.photos.some((photo) => photo.path === gallery.cover)) {
+      gallery.cover =
+        gallery.photos.find((photo) => photo.filename === coverName)?.path ??
+        gallery.photos.find((photo) => !photo.hidden)?.path;
+    }
+  }
+}
+
+export async function readSmartGalleryMatches(
+  storage: StorageAdapter,
+): Promise<Record<string, SmartGallerySemanticMatches>> {
+  const raw = await storage.getText(SMART_GALLERY_MATCHES_KEY);
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw) as Partial<SmartGalleryMatchesFile>;
+    return parsed.version === SMART_GALLERY_MATCHES_VERSION && parsed.galleries ? parsed.galleries : {};
+  } catch {
+    return {};
+  }
+}
+
+export async function writeSmartGalleryMatches(
+  storage: StorageAdapter,
+  galleries: Record<string, SmartGallerySemanticMatches>,
+): Promise<void> {
+  const file: SmartGalleryMatchesFile = {
+    version: SMART_GALLERY_MATCHES_VERSION,
+    updatedAt: new Date().toISOString(),
+    galleries,
+  };
+  await storage.put(SMART_GALLERY_MATCHES_KEY, JSON.stringify(file), "application/json");
+}
@@ -3,32 +3,47 @@
  * 
  * Automatically selects the right storage adapter based on environment.
  * - Development: Local filesystem (default) or REAL R2 if STORAGE_ADAPTER=r2 with credentials
- * - Production: Cloudflare R2 binding (REQUIRED - no fallback)
+ * - Production: Cloudflare R2 binding, or an S3-compatible bucket when self-hosting
  */
 
 import type { StorageAdapter } from "../types";
 import { R2StorageAdapter } from "./r2-adapter";
 import { R2ApiAdapter, type R2ApiConfig } from "./r2-api-adapter";
 import { LocalStorageAdapter } from "./local-adapter";
+import { S3StorageAdapter, type S3StorageConfig } from "./s3-adapter";
 
 export interface StorageConfig {
   /** R2 bucket binding (for Cloudflare Workers) */
   bucket?: R2Bucket;
+  /** S3-compatible bucket (MinIO, Backblaze B2, Wasabi...) */
+  s3?: S3StorageConfig;
   /** Local content path (for development) */
   localPath?: string;
   /** Force a specific adapter */
-  forceAdapter?: "r2" | "local";
+  forceAdapter?: "r2" | "s3" | "local";
 }
 
-export type StorageMode = "r2" | "local" | "unconfigured";
-export type StorageAdapterPreference = "auto" | "local" | "r2";
+export type StorageMode = "r2" | "s3" | "local" | "unconfigured";
+export type StorageAdapterPreference = "auto" | "local" | "r2" | "s3";
+
+/**
+ * Environment variables for an S3-compatible bucket
+ */
+export interface S3StorageEnv {
+  S3_ENDPOINT?: string;
+  S3_REGION?: string;
+  S3_ACCESS_KEY_ID?: string;
+  S3_SECRET_ACCESS_KEY?: string;
+  S3_BUCKET_NAME?: string;
+  S3_FORCE_PATH_STYLE?: string;
+}
 
 /**
  * Error thrown when R2 is not configured in production
  */
 export class StorageNotConfiguredError extends Error {
   constructor() {
-    super("R2 Storage is not configured. Please connect an R2 bucket to use VictoPress in production.");
+    super("Storage is not configured. Please connect an R2 bucket or an S3-compatible bucket to use VictoPress in production.");
     this.name = "StorageNotConfiguredError";
   }
 }
@@ -46,10 +61,18 @@ export function createStorageAdapter(config: StorageConfig): StorageAdapter {
     return new R2StorageAdapter(config.bucket);
   }
 
-  // Auto-detect: prefer R2 in production, local in development
+  if (config.forceAdapter === "s3" && config.s3) {
+    return new S3StorageAdapter(config.s3);
+  }
+
+  // Auto-detect: prefer R2 in production, then S3, local in development
   if (config.bucket) {
     return new R2StorageAdapter(config.bucket);
   }
+
+  if (config.s3) {
+    return new S3StorageAdapter(config.s3);
+  }
   
   if (config.localPath) {
     return new LocalStorageAdapter(config.localPath);
@@ -59,8 +82,10 @@ export function createStorageAdapter(config: StorageConfig): StorageAdapter {
   throw new StorageNotConfiguredError();
 }
 
-// Singleton for R2 API adapter to avoid creating multiple clients
+// Singletons for API adapters to avoid creating multiple clients
 let r2ApiAdapterInstance: R2ApiAdapter | null = null;
+let s3AdapterInstance: S3StorageAdapter | null = null;
+let s3AdapterKey = "";
 
 /**
  * Get storage adapter for the current request context
@@ -68,10 +93,11 @@ let r2ApiAdapterInstance: R2ApiAdapter | null = null;
  *   - STORAGE_ADAPTER=local → Local filesystem
  *   - STORAGE_ADAPTER=r2 + R2 credentials → REAL R2 via S3 API (direct connection!)
  *   - STORAGE_ADAPTER=r2 without credentials → Wrangler R2 binding (local emulation)
- * In production: R2 binding is required
+ *   - STORAGE_ADAPTER=s3 + S3 credentials → S3-compatible bucket (MinIO, B2, Wasabi)
+ * In production: R2 binding, or S3 credentials when self-hosting outside Cloudflare
  */
 export function getStorage(context: {
-  cloudflare?: { env?: { 
+  cloudflare?: { env?: S3StorageEnv & { 
     CONTENT_BUCKET?: R2Bucket; 
     STORAGE_ADAPTER?: string;
     R2_ACCOUNT_ID?: string;
@@ -118,6 +144,16 @@ export function getStorage(context: {
       // R2 requested but no credentials or binding
       console.warn(`[Storage] ⚠️  R2 requested but not configured. Add R2 credentials to .dev.vars. Falling back to local.`);
     }
+
+    if (adapterPreference === "s3") {
+      const s3Config = getS3Config(env) || getS3ConfigFromProcessEnv();
+      if (s3Config) {
+        console.log(`[Storage] 🪣 S3 adapter | route: ${requestUrl} | bucket: ${s3Config.bucketName}`);
+        return getS3Adapter(s3Config);
+      }
+
+      console.warn(`[Storage] ⚠️  S3 requested but not configured. Add S3_ENDPOINT and S3 credentials to .dev.vars. Falling back to local.`);
+    }
     
     // Default to local in development
     const reason = adapterPreference === "local" 
@@ -133,10 +169,66 @@ export function getStorage(context: {
     return new R2StorageAdapter(bucket);
   }
 
-  // No R2 in production = error (no demo mode fallback)
+  // Self-hosted outside Cloudflare: S3-compatible bucket
+  const s3Config = getS3Config(env) || getS3ConfigFromProcessEnv();
+  if (s3Config) {
+    console.log(`[Storage] 🪣 S3 adapter | route: ${requestUrl} | production mode`);
+    return getS3Adapter(s3Config);
+  }
+
+  // No bucket in production = error (no demo mode fallback)
   throw new StorageNotConfiguredError();
 }
 
+/**
+ * Reuse the S3 client while the configuration stays the same
+ */
+function getS3Adapter(config: S3StorageConfig): S3StorageAdapter {
+  if (!s3AdapterInstance || s3AdapterKey !== JSON.stringify(config)) {
+    s3AdapterInstance = new S3StorageAdapter(config);
+    s3AdapterKey = JSON.stringify(config);
+  }
+  return s3AdapterInstance;
+}
+
+/**
+ * Extract S3 config from the Cloudflare context or process.env.
+ * Endpoint, bucket and both keys are required.
+ */
+export function getS3Config(env?: S3StorageEnv): S3StorageConfig | null {
+  const endpoint = env?.S3_ENDPOINT;
+  const accessKeyId = env?.S3_ACCESS_KEY_ID;
+  const secretAccessKey = env?.S3_SECRET_ACCESS_KEY;
+  const bucketName = env?.S3_BUCKET_NAME;
+
+  if (endpoint && accessKeyId && secretAccessKey && bucketName) {
+    return {
+      endpoint,
+      accessKeyId,
+      secretAccessKey,
+      bucketName,
+      region: env?.S3_REGION || undefined,
+      forcePathStyle: env?.S3_FORCE_PATH_STYLE !== "false",
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Extract S3 config from process.env (for .dev.vars or a Node host)
+ */
+export function getS3ConfigFromProcessEnv(): S3StorageConfig | null {
+  return getS3Config({
+    S3_ENDPOINT: process.env.S3_ENDPOINT,
+    S3_REGION: process.env.S3_REGION,
+    S3_ACCESS_KEY_ID: process.env.S3_ACCESS_KEY_ID,
+    S3_SECRET_ACCESS_KEY: process.env.S3_SECRET_ACCESS_KEY,
+    S3_BUCKET_NAME: process.env.S3_BUCKET_NAME,
+    S3_FORCE_PATH_STYLE: process.env.S3_FORCE_PATH_STYLE,
+  });
+}
+
 /**
  * Extract R2 API config from Cloudflare context environment
  */
@@ -180,7 +272,7 @@ function getR2ApiConfigFromProcessEnv(): R2ApiConfig | null {
  * Uses STORAGE_ADAPTER from .dev.vars in development
  */
 export function getStorageMode(context: {
-  cloudflare?: { env?: { 
+  cloudflare?: { env?: S3StorageEnv & { 
     CONTENT_BUCKET?: R2Bucket; 
     STORAGE_ADAPTER?: string;
     R2_ACCOUNT_ID?: string;
@@ -202,6 +294,9 @@ export function getStorageMode(context: {
         return "r2";
       }
     }
+    if (adapterPreference === "s3" && (getS3Config(env) || getS3ConfigFromProcessEnv())) {
+      return "s3";
+    }
     return "local";
   }
   
@@ -209,7 +304,11 @@ export function getStorageMode(context: {
     return "r2";
   }
 
-  // Production without R2 = unconfigured
+  if (getS3Config(env) || getS3ConfigFromProcessEnv()) {
+    return "s3";
+  }
+
+  // Production without a bucket = unconfigured
   return "unconfigured";
 }
 
@@ -220,7 +319,7 @@ export function getAdapterPreference(context: {
   cloudflare?: { env?: { STORAGE_ADAPTER?: string } };
 }): StorageAdapterPreference {
   const pref = context.cloudflare?.env?.STORAGE_ADAPTER;
-  if (pref === "r2" || pref === "local") {
+  if (pref === "r2" || pref === "s3" || pref === "local") {
     return pref;
   }
   return "auto";
@@ -241,14 +340,15 @@ export function isDemoMode(context: {
  * Check if storage is properly configured
  */
 export function isStorageConfigured(context: {
-  cloudflare?: { env?: { CONTENT_BUCKET?: R2Bucket } };
+  cloudflare?: { env?: S3StorageEnv & { CONTENT_BUCKET?: R2Bucket } };
 }): boolean {
   // In development, always configured (uses local)
   if (isDevelopment()) {
     return true;
   }
-  // In production, R2 is required
-  return !!context.cloudflare?.env?.CONTENT_BUCKET;
+  // In production, an R2 binding or an S3-compatible bucket is required
+  const env = context.cloudflare?.env;
+  return !!env?.CONTENT_BUCKET || !!(getS3Config(env) || getS3ConfigFromProcessEnv());
 }
 
 /**
@@ -296,4 +396,6 @@ export function needsSetup(context: {
 
 export { R2StorageAdapter } from "./r2-adapter";
 export { R2ApiAdapter } from "./r2-api-adapter";
+export { S3StorageAdapter } from "./s3-adapter";
+export type { S3StorageConfig } from "./s3-adapter";
 export { LocalStorageAdapter } from "./local-adapter";
@@ -8,7 +8,7 @@
  * In Cloudflare Workers, use R2StorageAdapter instead.
  */
 
-import type { StorageAdapter, FileInfo } from "../types";
+import type { StorageAdapter, FileInfo, MultipartUploadPart } from "../types";
 
 export class LocalStorageAdapter implements StorageAdapter {
   private basePath: string;
@@ -148,6 +148,79 @@ export class LocalStorageAdapter implements StorageAdapter {
     }
   }
 
+  /** Parts wait here until the upload is completed or aborted. */
+  private multipartDir(uploadId: string): string {
+    if (!/^[a-z0-9-]+$/i.test(uploadId)) {
+      throw new Error(`Invalid upload id: ${uploadId}`);
+    }
+    return `${this.basePath}/.victopress/multipart/${uploadId}`;
+  }
+
+  async createMultipartUpload(key: string, _contentType?: string): Promise<string> {
+    const fs = await import("node:fs/promises");
+
+    const uploadId = crypto.randomUUID();
+    console.log(`[LocalStorage] 📁 MULTIPART START ${key} (${uploadId})`);
+    await fs.mkdir(this.multipartDir(uploadId), { recursive: true });
+    return uploadId;
+  }
+
+  async uploadPart(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    data: ArrayBuffer,
+  ): Promise<string> {
+    const fs = await import("node:fs/promises");
+
+    const dir = this.multipartDir(uploadId);
+    try {
+      await fs.access(dir);
+    } catch {
+      throw new Error(`Unknown multipart upload ${uploadId} for ${key}`);
+    }
+    console.log(`[LocalStorage] 📁 MULTIPART PART ${key} #${partNumber} (${(data.byteLength / 1024).toFixed(1)} KB)`);
+    await fs.writeFile(`${dir}/${partNumber}.part`, Buffer.from(data));
+    return `"${partNumber}-${data.byteLength}"`;
+  }
+
+  async completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    parts: MultipartUploadPart[],
+  ): Promise<void> {
+    const fs = await import("node:fs/promises");
+    const path = await import("node:path");
+
+    const dir = this.multipartDir(uploadId);
+    const fullPath = this.resolvePath(key);
+    // Assemble beside the parts so a reader never sees half a file
+    const assembling = `${dir}/assembled`;
+    console.log(`[LocalStorage] 📁 MULTIPART COMPLETE ${key} (${parts.length} parts)`);
+
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+    try {
+      await fs.writeFile(assembling, new Uint8Array(0));
+      const ordered = [...parts].sort((left, right) => left.partNumber - right.partNumber);
+      for (const part of ordered) {
+        await fs.appendFile(assembling, await fs.readFile(`${dir}/${part.partNumber}.part`));
+      }
+      await fs.rename(assembling, fullPath);
+    } catch (error) {
+      // Keep the parts so the upload can be completed again
+      await fs.rm(assembling, { force: true });
+      throw error;
+    }
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    const fs = await import("node:fs/promises");
+
+    console.log(`[LocalStorage] 📁 MULTIPART ABORT ${key}`);
+    await fs.rm(this.multipartDir(uploadId), { recursive: true, force: true });
+  }
+
   async delete(key: string): Promise<void> {
     const fs = await import("node:fs/promises");
     
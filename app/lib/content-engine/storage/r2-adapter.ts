@@ -4,7 +4,7 @@
  * Implements StorageAdapter for Cloudflare R2.
  */
 
-import type { StorageAdapter, FileInfo } from "../types";
+import type { StorageAdapter, FileInfo, MultipartUploadPart } from "../types";
 
 export class R2StorageAdapter implements StorageAdapter {
   private bucket: R2Bucket;
@@ -196,6 +196,44 @@ export class R2StorageAdapter implements StorageAdapter {
     });
   }
 
+  async createMultipartUpload(key: string, contentType?: string): Promise<string> {
+    console.log(`[R2Storage] ☁️  MULTIPART START ${key}`);
+    const upload = await this.bucket.createMultipartUpload(
+      key,
+      contentType ? { httpMetadata: { contentType } } : undefined,
+    );
+    return upload.uploadId;
+  }
+
+  async uploadPart(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    data: ArrayBuffer,
+  ): Promise<string> {
+    console.log(`[R2Storage] ☁️  MULTIPART PART ${key} #${partNumber} (${(data.byteLength / 1024).toFixed(1)} KB)`);
+    const part = await this.bucket
+      .resumeMultipartUpload(key, uploadId)
+      .uploadPart(partNumber, data);
+    return part.etag;
+  }
+
+  async completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    parts: MultipartUploadPart[],
+  ): Promise<void> {
+    console.log(`[R2Storage] ☁️  MULTIPART COMPLETE ${key} (${parts.length} parts)`);
+    await this.bucket
+      .resumeMultipartUpload(key, uploadId)
+      .complete([...parts].sort((left, right) => left.partNumber - right.partNumber));
+  }
+
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    console.log(`[R2Storage] ☁️  MULTIPART ABORT ${key}`);
+    await this.bucket.resumeMultipartUpload(key, uploadId).abort();
+  }
+
   async delete(key: string): Promise<void> {
     console.log(`[R2Storage] ☁️  DELETE ${key}`);
     await this.bucket.delete(key);
@@ -16,9 +16,13 @@ import {
   DeleteObjectCommand,
   CopyObjectCommand,
   HeadObjectCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
 } from "@aws-sdk/client-s3";
 import type { HeadObjectCommandOutput } from "@aws-sdk/client-s3";
-import type { StorageAdapter, FileInfo } from "../types";
+import type { StorageAdapter, FileInfo, MultipartUploadPart } from "../types";
 
 export interface R2ApiConfig {
   accountId: string;
@@ -235,6 +239,69 @@ export class R2ApiAdapter implements StorageAdapter {
     }));
   }
 
+  async createMultipartUpload(key: string, contentType?: string): Promise<string> {
+    console.log(`[R2Api] ☁️  MULTIPART START ${key}`);
+    const response = await this.client.send(new CreateMultipartUploadCommand({
+      Bucket: this.bucketName,
+      Key: key,
+      ContentType: contentType,
+    }));
+    if (!response.UploadId) throw new Error(`No upload id returned for ${key}`);
+    return response.UploadId;
+  }
+
+  async uploadPart(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    data: ArrayBuffer,
+  ): Promise<string> {
+    console.log(`[R2Api] ☁️  MULTIPART PART ${key} #${partNumber} (${(data.byteLength / 1024).toFixed(1)} KB)`);
+    const response = await this.client.send(new UploadPartCommand({
+      Bucket: this.bucketName,
+      Key: key,
+      UploadId: uploadId,
+      PartNumber: partNumber,
+      Body: new Uint8Array(data),
+    }));
+    if (!response.ETag) throw new Error(`No ETag returned for part ${partNumber} of ${key}`);
+    return response.ETag;
+  }
+
+  async completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    parts: MultipartUploadPart[],
+  ): Promise<void> {
+    console.log(`[R2Api] ☁️  MULTIPART COMPLETE ${key} (${parts.length} parts)`);
+    await this.client.send(new CompleteMultipartUploadCommand({
+      Bucket: this.bucketName,
+      Key: key,
+      UploadId: uploadId,
+      MultipartUpload: {
+        Parts: [...parts]
+          .sort((left, right) => left.partNumber - right.partNumber)
+          .map((part) => ({ PartNumber: part.partNumber, ETag: part.etag })),
+      },
+    }));
+  }
+
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    console.log(`[R2Api] ☁️  MULTIPART ABORT ${key}`);
+    try {
+      await this.client.send(new AbortMultipartUploadCommand({
+        Bucket: this.bucketName,
+        Key: key,
+        UploadId: uploadId,
+      }));
+    } catch (error) {
+      // Already completed or aborted
+      const status = (error as { $metadata?: { httpStatusCode?: number } })
+        .$metadata?.httpStatusCode;
+      if (status !== 404) throw error;
+    }
+  }
+
   async delete(key: string): Promise<void> {
     console.log(`[R2Api] 🗑️  DELETE ${key}`);
     
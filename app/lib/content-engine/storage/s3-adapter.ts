@@ -0,0 +1,429 @@
+/**
+ * S3 Storage Adapter
+ *
+ * Connects to any S3-compatible bucket (MinIO, Backblaze B2, Wasabi, AWS S3)
+ * so VictoPress can be self-hosted outside Cloudflare. Compare-and-swap
+ * writes use ETags with conditional `If-Match`/`If-None-Match` requests.
+ */
+
+import {
+  S3Client,
+  ListObjectsV2Command,
+  GetObjectCommand,
+  PutObjectCommand,
+  DeleteObjectCommand,
+  DeleteObjectsCommand,
+  CopyObjectCommand,
+  HeadObjectCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+} from "@aws-sdk/client-s3";
+import type { HeadObjectCommandOutput } from "@aws-sdk/client-s3";
+import type { StorageAdapter, FileInfo, MultipartUploadPart } from "../types";
+
+export interface S3StorageConfig {
+  /** Service endpoint, e.g. http://localhost:9000 for MinIO */
+  endpoint: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  bucketName: string;
+  /** Defaults to "us-east-1", which MinIO and most providers accept */
+  region?: string;
+  /** Path-style addressing (bucket in the path). Required by MinIO; defaults to true */
+  forcePathStyle?: boolean;
+}
+
+const MIME_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+  avif: "image/avif",
+  svg: "image/svg+xml",
+  pdf: "application/pdf",
+  json: "application/json",
+  yaml: "text/yaml",
+  yml: "text/yaml",
+  md: "text/markdown",
+  html: "text/html",
+  css: "text/css",
+  js: "application/javascript",
+};
+
+function httpStatus(error: unknown): number | undefined {
+  return (error as { $metadata?: { httpStatusCode?: number } })?.$metadata
+    ?.httpStatusCode;
+}
+
+function isNotFound(error: unknown): boolean {
+  const name = (error as { name?: string })?.name;
+  return name === "NoSuchKey" || name === "NotFound" || httpStatus(error) === 404;
+}
+
+function isPreconditionFailure(error: unknown): boolean {
+  const name = (error as { name?: string })?.name;
+  const status = httpStatus(error);
+  return (
+    name === "PreconditionFailed" ||
+    name === "ConditionalRequestConflict" ||
+    status === 412 ||
+    status === 409
+  );
+}
+
+export class S3StorageAdapter implements StorageAdapter {
+  private client: S3Client;
+  private bucketName: string;
+
+  /**
+   * @param client Optional pre-built client. Tests pass an in-memory stand-in.
+   */
+  constructor(config: S3StorageConfig, client?: S3Client) {
+    this.bucketName = config.bucketName;
+    this.client = client ?? new S3Client({
+      region: config.region || "us-east-1",
+      endpoint: config.endpoint,
+      forcePathStyle: config.forcePathStyle ?? true,
+      credentials: {
+        accessKeyId: config.accessKeyId,
+        secretAccessKey: config.secretAccessKey,
+      },
+    });
+    console.log(`[S3Storage] 🪣 Initialized S3 bucket: ${config.bucketName} @ ${config.endpoint}`);
+  }
+
+  async list(prefix: string): Promise<FileInfo[]> {
+    const normalizedPrefix = prefix.endsWith("/") ? prefix : `${prefix}/`;
+    const files: FileInfo[] = [];
+    let continuationToken: string | undefined;
+
+    console.log(`[S3Storage] 📂 LIST prefix="${normalizedPrefix}"`);
+
+    do {
+      const response = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.bucketName,
+        Prefix: normalizedPrefix,
+        Delimiter: "/",
+        ContinuationToken: continuationToken,
+      }));
+
+      // Add directories (common prefixes)
+      for (const commonPrefix of response.CommonPrefixes || []) {
+        if (!commonPrefix.Prefix) continue;
+        const name = commonPrefix.Prefix.slice(normalizedPrefix.length).replace(/\/$/, "");
+        if (name) {
+          files.push({
+            name,
+            path: commonPrefix.Prefix.replace(/\/$/, ""),
+            size: 0,
+            lastModified: new Date(),
+            isDirectory: true,
+          });
+        }
+      }
+
+      // Add files
+      for (const object of response.Contents || []) {
+        if (!object.Key) continue;
+        const name = object.Key.slice(normalizedPrefix.length);
+        if (name && !name.includes("/")) {
+          files.push({
+            name,
+            path: object.Key,
+            size: object.Size || 0,
+            lastModified: object.LastModified || new Date(),
+            isDirectory: false,
+          });
+        }
+      }
+
+      continuationToken = response.IsTruncated
+        ? response.NextContinuationToken
+        : undefined;
+    } while (continuationToken);
+
+    return files;
+  }
+
+  async listRecursive(prefix: string): Promise<FileInfo[]> {
+    const normalizedPrefix = prefix.endsWith("/") ? prefix : `${prefix}/`;
+    const files: FileInfo[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.bucketName,
+        Prefix: normalizedPrefix,
+        ContinuationToken: continuationToken,
+      }));
+
+      for (const object of response.Contents || []) {
+        if (!object.Key || object.Key === normalizedPrefix) continue;
+        files.push({
+          name: object.Key.split("/").pop() || object.Key,
+          path: object.Key,
+          size: object.Size || 0,
+          lastModified: object.LastModified || new Date(),
+          isDirectory: false,
+        });
+      }
+
+      continuationToken = response.IsTruncated
+        ? response.NextContinuationToken
+        : undefined;
+    } while (continuationToken);
+
+    return files;
+  }
+
+  async get(key: string): Promise<ArrayBuffer | null> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({
+        Bucket: this.bucketName,
+        Key: key,
+      }));
+      const bytes = await response.Body?.transformToByteArray();
+      if (!bytes) return null;
+      return Uint8Array.from(bytes).buffer;
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async getText(key: string): Promise<string | null> {
+    return (await this.getVersionedText(key)).text;
+  }
+
+  async getVersionedText(
+    key: string,
+  ): Promise<{ text: string | null; version: string | null }> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({
+        Bucket: this.bucketName,
+        Key: key,
+      }));
+      const text = await response.Body?.transformToString();
+      return {
+        text: text ?? null,
+        version: text === undefined ? null : response.ETag || null,
+      };
+    } catch (error) {
+      if (isNotFound(error)) return { text: null, version: null };
+      throw error;
+    }
+  }
+
+  async put(key: string, data: ArrayBuffer | string, contentType?: string): Promise<void> {
+    const size = typeof data === "string" ? data.length : data.byteLength;
+    console.log(`[S3Storage] 🪣 PUT ${key} (${(size / 1024).toFixed(1)} KB)`);
+
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucketName,
+      Key: key,
+      Body: typeof data === "string" ? data : new Uint8Array(data),
+      ContentType: contentType || this.detectContentType(key),
+    }));
+  }
+
+  async putTextIfVersion(
+    key: string,
+    data: string,
+    version: string | null,
+    contentType?: string,
+  ): Promise<boolean> {
+    console.log(`[S3Storage] 🪣 CAS PUT ${key} (${(data.length / 1024).toFixed(1)} KB)`);
+    try {
+      await this.client.send(new PutObjectCommand({
+        Bucket: this.bucketName,
+        Key: key,
+        Body: data,
+        ContentType: contentType || this.detectContentType(key),
+        ...(version ? { IfMatch: version } : { IfNoneMatch: "*" }),
+      }));
+      return true;
+    } catch (error) {
+      if (isPreconditionFailure(error)) return false;
+      throw error;
+    }
+  }
+
+  async putPreservingMetadata(
+    key: string,
+    data: ArrayBuffer | string,
+    contentType?: string,
+  ): Promise<void> {
+    let existing: HeadObjectCommandOutput | null = null;
+    try {
+      existing = await this.client.send(new HeadObjectCommand({
+        Bucket: this.bucketName,
+        Key: key,
+      }));
+    } catch (error) {
+      if (!isNotFound(error)) throw error;
+    }
+
+    const size = typeof data === "string" ? data.length : data.byteLength;
+    console.log(`[S3Storage] 🪣 PUT ${key} (${(size / 1024).toFixed(1)} KB, preserving metadata)`);
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucketName,
+      Key: key,
+      Body: typeof data === "string" ? data : new Uint8Array(data),
+      ContentType: contentType || existing?.ContentType || this.detectContentType(key),
+      CacheControl: existing?.CacheControl,
+      ContentDisposition: existing?.ContentDisposition,
+      ContentEncoding: existing?.ContentEncoding,
+      ContentLanguage: existing?.ContentLanguage,
+      Expires: existing?.Expires,
+      Metadata: existing?.Metadata,
+    }));
+  }
+
+  async createMultipartUpload(key: string, contentType?: string): Promise<string> {
+    console.log(`[S3Storage] 🪣 MULTIPART START ${key}`);
+    const response = await this.client.send(new CreateMultipartUploadCommand({
+      Bucket: this.bucketName,
+      Key: key,
+      ContentType: contentType || this.detectContentType(key),
+    }));
+    if (!response.UploadId) throw new Error(`No upload id returned for ${key}`);
+    return response.UploadId;
+  }
+
+  async uploadPart(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    data: ArrayBuffer,
+  ): Promise<string> {
+    console.log(`[S3Storage] 🪣 MULTIPART PART ${key} #${partNumber} (${(data.byteLength / 1024).toFixed(1)} KB)`);
+    const response = await this.client.send(new UploadPartCommand({
+      Bucket: this.bucketName,
+      Key: key,
+      UploadId: uploadId,
+      PartNumber: partNumber,
+      Body: new Uint8Array(data),
+    }));
+    if (!response.ETag) throw new Error(`No ETag returned for part ${partNumber} of ${key}`);
+    return response.ETag;
+  }
+
+  async completeMultipartUpload(
+    key: string,
+    uploadId: string,
+    parts: MultipartUploadPart[],
+  ): Promise<void> {
+    console.log(`[S3Storage] 🪣 MULTIPART COMPLETE ${key} (${parts.length} parts)`);
+    await this.client.send(new CompleteMultipartUploadCommand({
+      Bucket: this.bucketName,
+      Key: key,
+      UploadId: uploadId,
+      MultipartUpload: {
+        Parts: [...parts]
+          .sort((left, right) => left.partNumber - right.partNumber)
+          .map((part) => ({ PartNumber: part.partNumber, ETag: part.etag })),
+      },
+    }));
+  }
+
+  async abortMultipartUpload(key: string, uploadId: string): Promise<void> {
+    console.log(`[S3Storage] 🪣 MULTIPART ABORT ${key}`);
+    try {
+      await this.client.send(new AbortMultipartUploadCommand({
+        Bucket: this.bucketName,
+        Key: key,
+        UploadId: uploadId,
+      }));
+    } catch (error) {
+      // Already completed or aborted
+      if (!isNotFound(error)) throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    console.log(`[S3Storage] 🗑️  DELETE ${key}`);
+    await this.client.send(new DeleteObjectCommand({
+      Bucket: this.bucketName,
+      Key: key,
+    }));
+  }
+
+  async deleteDirectory(prefix: string): Promise<{ deleted: number }> {
+    const files = await this.listRecursive(prefix);
+    console.log(`[S3Storage] 🗑️  DELETE DIR ${prefix} (${files.length} files)`);
+
+    // DeleteObjects accepts up to 1000 keys per request
+    const batchSize = 1000;
+    let deleted = 0;
+
+    for (let i = 0; i < files.length; i += batchSize) {
+      const batch = files.slice(i, i + batchSize);
+      const response = await this.client.send(new DeleteObjectsCommand({
+        Bucket: this.bucketName,
+        Delete: {
+          Objects: batch.map((file) => ({ Key: file.path })),
+          Quiet: true,
+        },
+      }));
+      for (const failure of response.Errors || []) {
+        console.error(`[S3Storage] Failed to delete ${failure.Key}: ${failure.Message}`);
+      }
+      deleted += batch.length - (response.Errors?.length || 0);
+    }
+
+    return { deleted };
+  }
+
+  async exists(key: string): Promise<boolean> {
+    // First, check if it's an actual object
+    try {
+      await this.client.send(new HeadObjectCommand({
+        Bucket: this.bucketName,
+        Key: key,
+      }));
+      return true;
+    } catch (error) {
+      if (!isNotFound(error)) throw error;
+    }
+
+    // Directories are just prefixes in S3
+    const normalizedPrefix = key.endsWith("/") ? key : `${key}/`;
+    const response = await this.client.send(new ListObjectsV2Command({
+      Bucket: this.bucketName,
+      Prefix: normalizedPrefix,
+      MaxKeys: 1,
+    }));
+    return (response.Contents?.length ?? 0) > 0 || (response.CommonPrefixes?.length ?? 0) > 0;
+  }
+
+  async move(from: string, to: string): Promise<void> {
+    console.log(`[S3Storage] 📦 MOVE ${from} → ${to}`);
+    await this.copy(from, to);
+    await this.delete(from);
+  }
+
+  async copy(from: string, to: string): Promise<void> {
+    console.log(`[S3Storage] 📋 COPY ${from} → ${to}`);
+    const source = from.split("/").map((segment) => encodeURIComponent(segment)).join("/");
+    await this.client.send(new CopyObjectCommand({
+      Bucket: this.bucketName,
+      CopySource: `${this.bucketName}/${source}`,
+      Key: to,
+    }));
+  }
+
+  async getSignedUrl(key: string, _expiresIn?: number): Promise<string> {
+    // Private buckets are served through the unified image route so that
+    // gallery protection keeps working regardless of the provider
+    const encodedPath = key.split("/").map((segment) => encodeURIComponent(segment)).join("/");
+    return `/api/images/${encodedPath}`;
+  }
+
+  private detectContentType(key: string): string {
+    const ext = key.split(".").pop()?.toLowerCase();
+    return MIME_TYPES[ext || ""] || "application/octet-stream";
+  }
+}
@@ -7,6 +7,7 @@
 
 import type { Gallery, BlogPost, Photo, Tag } from "./types";
 import { normalizeTag, formatTagLabel } from "./utils";
+import { isPostPublished, isWithinPublicationWindow } from "./publishing";
 
 /**
  * Build tag index from all content
@@ -19,7 +20,7 @@ export function buildTagIndex(
 
   // Process gallery tags
   for (const gallery of galleries) {
-    if (gallery.private) continue;
+    if (gallery.private || !isWithinPublicationWindow(gallery)) continue;
     
     // Gallery-level tags
     if (gallery.tags) {
@@ -46,7 +47,7 @@ export function buildTagIndex(
 
   // Process post tags
   for (const post of posts) {
-    if (post.draft) continue;
+    if (!isPostPublished(post)) continue;
     
     if (post.tags) {
       for (const tag of post.tags) {
@@ -115,7 +116,7 @@ export function filterPhotosByTag(
   const photos: Photo[] = [];
 
   for (const gallery of galleries) {
-    if (gallery.private) continue;
+    if (gallery.private || !isWithinPublicationWindow(gallery)) continue;
     
     for (const photo of gallery.photos) {
       if (photo.hidden) continue;
@@ -139,7 +140,7 @@ export function filterGalleriesByTag(
   const normalizedTag = normalizeTag(tag);
   
   return galleries.filter((gallery) => {
-    if (gallery.private) return false;
+    if (gallery.private || !isWithinPublicationWindow(gallery)) return false;
     
     // Check gallery tags
     if (gallery.tags?.some((t) => normalizeTag(t) === normalizedTag)) {
@@ -165,7 +166,7 @@ export function filterGalleriesByCategory(
   const normalizedPath = categoryPath.toLowerCase();
   
   return galleries.filter((gallery) => {
-    if (gallery.private) return false;
+    if (gallery.private || !isWithinPublicationWindow(gallery)) return false;
     if (!gallery.category) return false;
     
     const galleryCategory = gallery.category.toLowerCase();
@@ -185,7 +186,7 @@ export function getCategories(galleries: Gallery[]): string[] {
   const categories = new Set<string>();
   
   for (const gallery of galleries) {
-    if (gallery.private) continue;
+    if (gallery.private || !isWithinPublicationWindow(gallery)) continue;
     if (gallery.category) {
       categories.add(gallery.category.toLowerCase());
       
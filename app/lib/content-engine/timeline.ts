@@ -0,0 +1,113 @@
+/**
+ * Photo Timeline
+ *
+ * Capture-date counts per gallery, built into the content index on every
+ * rebuild. Counts are kept per gallery rather than summed so that privacy and
+ * publication windows can still be applied at request time; merging them is a
+ * walk over a few hundred days, not over every photo.
+ *
+ * Periods are keyed `YYYY`, `YYYY-MM` and `YYYY-MM-DD`, taken from the stored
+ * capture timestamp without any time zone conversion.
+ */
+
+import type { GalleryDataEntry, GalleryPhotoEntry } from "./content-index";
+
+export type PhotoTimelineGranularity = "year" | "month" | "day";
+
+export interface PhotoTimelineIndex {
+  /** gallery slug → `YYYY-MM-DD` → photos taken that day */
+  galleries: Record<string, Record<string, number>>;
+}
+
+export interface PhotoTimelinePeriod {
+  /** `YYYY`, `YYYY-MM` or `YYYY-MM-DD` */
+  period: string;
+  count: number;
+}
+
+const PERIOD_LENGTH: Record<PhotoTimelineGranularity, number> = { year: 4, month: 7, day: 10 };
+const PERIOD_PATTERN = /^\d{4}(?:-(0[1-9]|1[0-2])(?:-(0[1-9]|[12]\d|3[01]))?)?$/;
+
+/** Calendar day the photo was taken, or null when it has no capture date. */
+export function photoCaptureDay(photo: Pick<GalleryPhotoEntry, "dateTaken" | "exif">): string | null {
+  const value = photo.dateTaken ?? photo.exif?.dateTaken;
+  const day = typeof value === "string" ? value.slice(0, 10) : "";
+  return PERIOD_PATTERN.test(day) && day.length === 10 ? day : null;
+}
+
+/** Normalizes `2019`, `2019-4`, `2019/04/01` and the like; null when invalid. */
+export function normalizeTimelinePeriod(value: string | null | undefined): string | null {
+  const parts = (value || "").split(/[-/]/).filter(Boolean);
+  if (parts.length === 0 || parts.length > 3 || !/^\d{4}$/.test(parts[0])) return null;
+  const period = [parts[0], ...parts.slice(1).map((part) => part.padStart(2, "0"))].join("-");
+  return PERIOD_PATTERN.test(period) ? period : null;
+}
+
+export function timelinePeriodGranularity(period: string): PhotoTimelineGranularity {
+  return period.length === PERIOD_LENGTH.day ? "day" : period.length === PERIOD_LENGTH.month ? "month" : "year";
+}
+
+/**
+ * Counts visible photos by the gallery that stores them. Logical references
+ * and smart galleries are left out so each photo is counted once.
+ */
+export function buildPhotoTimeline(galleries: readonly GalleryDataEntry[]): PhotoTimelineIndex {
+  const timeline: PhotoTimelineIndex = { galleries: {} };
+  for (const gallery of galleries) {
+    const days: Record<string, number> = {};
+    for (const photo of gallery.photos) {
+      if (photo.hidden || photo.isReference) continue;
+      const day = photoCaptureDay(photo);
+      if (day) days[day] = (days[day] ?? 0) + 1;
+    }
+    if (Object.keys(days).length > 0) timeline.galleries[gallery.slug] = days;
+  }
+  return timeline;
+}
+
+/** Day counts summed over the given galleries. */
+export function mergePhotoTimeline(
+  timeline: PhotoTimelineIndex,
+  gallerySlugs: Iterable<string>,
+): Record<string, number> {
+  const days: Record<string, number> = {};
+  for (const slug of gallerySlugs) {
+    for (const [day, count] of Object.entries(timeline.galleries[slug] ?? {})) {
+      days[day] = (days[day] ?? 0) + count;
+    }
+  }
+  return days;
+}
+
+/**
+ * Counts grouped by `granularity`, oldest first, optionally only inside
+ * `within` (for example the months of `2019`).
+ */
+export function photoTimelinePeriods(
+  days: Readonly<Record<string, number>>,
+  granularity: PhotoTimelineGranularity,
+  within?: string,
+): PhotoTimelinePeriod[] {
+  const counts = new Map<string, number>();
+  for (const [day, count] of Object.entries(days)) {
+    if (within && !day.startsWith(within)) continue;
+    const period = day.slice(0, PERIOD_LENGTH[granularity]);
+    counts.set(period, (counts.get(period) ?? 0) + count);
+  }
+  return Array.from(counts, ([period, count]) => ({ period, count }))
+    .sort((left, right) => left.period.localeCompare(right.period));
+}
+
+/** Days in earlier years that share today's month and day, newest first. */
+export function photoTimelineOnThisDay(
+  days: Readonly<Record<string, number>>,
+  today: Date = new Date(),
+): PhotoTimelinePeriod[] {
+  const iso = today.toISOString();
+  const monthDay = iso.slice(4, 10);
+  const year = iso.slice(0, 4);
+  return Object.entries(days)
+    .filter(([day]) => day.slice(4) === monthDay && day.slice(0, 4) < year)
+    .map(([period, count]) => ({ period, count }))
+    .sort((left, right) => right.period.localeCompare(left.period));
+}
@@ -9,6 +9,9 @@ import type { BlogCategory } from "~/lib/blog-categories";
  */
 
 import type { GalleryThumbnailAspectRatio } from "./gallery-layout";
+import type { GalleryDownloadPolicy } from "./gallery-downloads";
+import type { WatermarkOverride } from "./watermark";
+import type { SmartGalleryQuery } from "./smart-galleries";
 
 // =============================================================================
 // Photo Types
@@ -205,6 +208,8 @@ export interface PhotoTranslation {
   title?: string;
   description?: string;
   tags?: string[];
+  /** Approved accessibility text; separate from the visible description. */
+  alt?: string;
 }
 
 // =============================================================================
@@ -244,6 +249,12 @@ export interface GalleryMetadata {
   
   /** Hidden from public gallery listing */
   private?: boolean;
+
+  /** Hidden from public listings until this instant */
+  publishAt?: Date;
+
+  /** Hidden from public listings from this instant on */
+  unpublishAt?: Date;
   
   /** Password protection (hashed) */
   password?: string;
@@ -256,6 +267,18 @@ export interface GalleryMetadata {
 
   /** Thumbnail crop used by the public gallery grid (default: uniform 3:2) */
   thumbnailAspectRatio?: GalleryThumbnailAspectRatio;
+
+  /** What visitors may download (default: nothing) */
+  downloads?: GalleryDownloadPolicy;
+
+  /** Overrides the site watermark on generated variants; `false` turns it off */
+  watermark?: WatermarkOverride;
+
+  /** Fills the gallery with matching photos from other galleries */
+  query?: SmartGalleryQuery;
+
+  /** Shows only the approximate location of its photos on the public map */
+  hideExactLocation?: boolean;
 }
 
 export interface GalleryTranslation {
@@ -310,6 +333,12 @@ export interface PostFrontmatter {
   /** Shared editorial facets used by the public blog filter. */
   categories?: BlogCategory[];
   draft?: boolean;
+  /** Hidden from public listings until this instant. */
+  publishAt?: Date;
+  /** Hidden from public listings from this instant on. */
+  unpublishAt?: Date;
+  /** Email the newsletter when the scheduled run publishes this post. */
+  newsletter?: boolean;
   cover?: string;
   /** The cover already appears in the post body and should not be repeated. */
   coverInBody?: boolean;
@@ -486,6 +515,11 @@ export interface FileInfo {
   isDirectory: boolean;
 }
 
+export interface MultipartUploadPart {
+  partNumber: number;
+  etag: string;
+}
+
 export interface StorageAdapter {
   /** List files/folders in a path */
   list(prefix: string): Promise<FileInfo[]>;
@@ -531,6 +565,30 @@ export interface StorageAdapter {
     contentType?: string,
   ): Promise<void>;
   
+  /**
+   * Begin a multipart upload to `key` and return its upload id. The object
+   * only appears once the upload is completed.
+   */
+  createMultipartUpload?(key: string, contentType?: string): Promise<string>;
+
+  /** Store one part (numbered from 1) and return its ETag. */
+  uploadPart?(
+    key: string,
+    uploadId: string,
+    partNumber: number,
+    data: ArrayBuffer,
+  ): Promise<string>;
+
+  /** Assemble the parts, in part-number order, into the final object. */
+  completeMultipartUpload?(
+    key: string,
+    uploadId: string,
+    parts: MultipartUploadPart[],
+  ): Promise<void>;
+
+  /** Discard an unfinished multipart upload and its stored parts. */
+  abortMultipartUpload?(key: string, uploadId: string): Promise<void>;
+
   /** Delete a file */
   delete(key: string): Promise<void>;
   
@@ -0,0 +1,361 @@
+/**
+ * Resumable Photo Uploads
+ *
+ * Originals are sent in fixed-size chunks through the storage adapter's
+ * multipart API, so a file larger than a Worker request body can still be
+ * uploaded and an interrupted upload only resends the chunks it is missing.
+ * Each upload is tracked by a small session record that outlives the browser
+ * tab; starting the same file again picks the session back up.
+ *
+ * Before any bytes are written the browser's source fingerprint is compared
+ * with the photos already in the index, and a filename that is taken is
+ * handled by the chosen collision policy.
+ *
+ * HEIC and AVIF originals come with a JPEG rendition decoded by the browser;
+ * it waits beside the session until the upload completes.
+ */
+
+import type { MultipartUploadPart, StorageAdapter } from "./types";
+import { addPhotosToGalleryIndex, readContentIndex } from "./content-index";
+import { deletePhotoRendition, usesPhotoRendition, writePhotoRendition } from "./photo-renditions";
+import { getBasename, isSourceImage } from "./utils";
+
+export const UPLOAD_SESSIONS_PREFIX = ".victopress/uploads";
+
+/** 8 MiB: above the 5 MiB S3 minimum part size, well below request limits. */
+export const UPLOAD_CHUNK_SIZE = 8 * 1024 * 1024;
+
+/** Unfinished uploads are aborted after a week. */
+const UPLOAD_SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export const UPLOAD_COLLISION_POLICIES = ["skip", "rename", "replace"] as const;
+
+/**
+ * What happens when the gallery already has a file with the same name:
+ * leave it alone, upload as `name-1.jpg`, or overwrite the bytes while the
+ * photo keeps its title, tags, order and other metadata.
+ */
+export type UploadCollisionPolicy = typeof UPLOAD_COLLISION_POLICIES[number];
+
+export interface UploadSession {
+  version: 1;
+  id: string;
+  galleryPath: string;
+  /** Name the file is stored under, after any collision rename. */
+  filename: string;
+  /** Name of the file on the uploader's computer. */
+  originalFilename: string;
+  key: string;
+  size: number;
+  contentType: string;
+  fingerprint: string;
+  policy: UploadCollisionPolicy;
+  /** True when `key` already held a photo that this upload replaces. */
+  replaces: boolean;
+  uploadId: string;
+  chunkSize: number;
+  parts: MultipartUploadPart[];
+  /** True once the browser sent a JPEG rendition of a HEIC/AVIF original. */
+  rendition?: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UploadStartRequest {
+  galleryPath: string;
+  filename: string;
+  size: number;
+  contentType?: string;
+  fingerprint: string;
+  policy: UploadCollisionPolicy;
+}
+
+export type UploadStartResult =
+  | { status: "duplicate"; existingPath: string }
+  | { status: "skipped"; existingPath: string }
+  | { status: "ready"; session: UploadSession };
+
+export class UploadSessionError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+    this.name = "UploadSessionError";
+  }
+}
+
+export function isUploadCollisionPolicy(value: unknown): value is UploadCollisionPolicy {
+  return UPLOAD_COLLISION_POLICIES.includes(value as UploadCollisionPolicy);
+}
+
+function sessionKey(id: string): string {
+  return `${UPLOAD_SESSIONS_PREFIX}/${id}.json`;
+}
+
+function pendingRenditionKey(id: string): string {
+  return `${UPLOAD_SESSIONS_PREFIX}/${id}.jpg`;
+}
+
+function multipartStorage(storage: StorageAdapter): Required<Pick<
+  StorageAdapter,
+  "createMultipartUpload" | "uploadPart" | "completeMultipartUpload" | "abortMultipartUpload"
+>> {
+  const { createMultipartUpload, uploadPart, completeMultipartUpload, abortMultipartUpload } = storage;
+  if (!createMultipartUpload || !uploadPart || !completeMultipartUpload || !abortMultipartUpload) {
+    throw new UploadSessionError("This storage backend does not support resumable uploads", 501);
+  }
+  return {
+    createMultipartUpload: createMultipartUpload.bind(storage),
+    uploadPart: uploadPart.bind(storage),
+    completeMultipartUpload: completeMultipartUpload.bind(storage),
+    abortMultipartUpload: abortMultipartUpload.bind(storage),
+  };
+}
+
+export function uploadPartCount(session: Pick<UploadSession, "size" | "chunkSize">): number {
+  return Math.max(1, Math.ceil(session.size / session.chunkSize));
+}
+
+/** Part numbers (from 1) that still have to be sent. */
+export function missingUploadParts(session: UploadSession): number[] {
+  const uploaded = new Set(session.parts.map((part) => part.partNumber));
+  return Array.from({ length: uploadPartCount(session) }, (_, index) => index + 1)
+    .filter((partNumber) => !uploaded.has(partNumber));
+}
+
+/** `sunset.jpg`, `sunset-1.jpg`, `sunset-2.jpg`… */
+export function collisionFilename(filename: string, attempt: number): string {
+  if (attempt === 0) return filename;
+  const basename = getBasename(filename);
+  return `${basename}-${attempt}${filename.slice(basename.length)}`;
+}
+
+async function writeSession(storage: StorageAdapter, session: UploadSession): Promise<void> {
+  await storage.put(sessionKey(session.id), JSON.stringify(session), "application/json");
+}
+
+export async function readUploadSession(
+  storage: StorageAdapter,
+  id: string,
+): Promise<UploadSession | null> {
+  if (!/^[a-z0-9-]+$/i.test(id)) return null;
+  try {
+    const text = await storage.getText(sessionKey(id));
+    if (!text) return null;
+    const session = JSON.parse(text) as UploadSession;
+    return session?.version === 1 && session.id === id ? session : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Open sessions; expired ones are aborted and dropped on the way. */
+export async function listUploadSessions(
+  storage: StorageAdapter,
+  now: Date = new Date(),
+): Promise<UploadSession[]> {
+  const files = await storage.list(UPLOAD_SESSIONS_PREFIX);
+  const sessions: UploadSession[] = [];
+  for (const file of files) {
+    if (file.isDirectory || !file.name.endsWith(".json")) continue;
+    const session = await readUploadSession(storage, file.name.slice(0, -".json".length));
+    if (!session) continue;
+    if (now.getTime() - Date.parse(session.updatedAt) > UPLOAD_SESSION_TTL_MS) {
+      await abortUploadSession(storage, session);
+      continue;
+    }
+    sessions.push(session);
+  }
+  return sessions;
+}
+
+function validateFilename(filename: string): string {
+  const name = filename.trim();
+  if (!name || name.includes("/") || name.includes("\\") || name.startsWith(".")) {
+    throw new UploadSessionError(`Invalid filename: ${filename}`);
+  }
+  if (!isSourceImage(name)) {
+    throw new UploadSessionError(`Not a supported image: ${filename}`);
+  }
+  return name;
+}
+
+/**
+ * Open (or pick back up) the upload of one original. Nothing is written to
+ * the gallery until {@link completeUploadSession}.
+ */
+export async function startUploadSession(
+  storage: StorageAdapter,
+  request: UploadStartRequest,
+  now: Date = new Date(),
+): Promise<UploadStartResult> {
+  const filename = validateFilename(request.filename);
+  const galleryPath = request.galleryPath.replace(/\/+$/, "");
+  if (!galleryPath.startsWith("galleries/") || galleryPath.split("/").includes("..")) {
+    throw new UploadSessionError(`Invalid gallery: ${request.galleryPath}`);
+  }
+  if (!Number.isSafeInteger(request.size) || request.size <= 0) {
+    throw new UploadSessionError(`Invalid size for ${filename}`);
+  }
+  if (!/^sha256:[a-f0-9]{64}$/.test(request.fingerprint)) {
+    throw new UploadSessionError(`Invalid fingerprint for ${filename}`);
+  }
+  if (!isUploadCollisionPolicy(request.policy)) {
+    throw new UploadSessionError(`Unknown collision policy: ${String(request.policy)}`);
+  }
+  const multipart = multipartStorage(storage);
+
+  const sessions = await listUploadSessions(storage, now);
+  const resumable = sessions.find((session) =>
+    session.fingerprint === request.fingerprint &&
+    session.galleryPath === galleryPath &&
+    session.originalFilename === filename &&
+    session.size === request.size &&
+    session.policy === request.policy
+  );
+  if (resumable) return { status: "ready", session: resumable };
+
+  const index = await readContentIndex(storage);
+  const physicalPhotos = (index?.galleryData ?? [])
+    .flatMap((gallery) => gallery.photos)
+    .filter((photo) => !photo.isReference);
+  const duplicate = physicalPhotos.find((photo) => photo.sourceFingerprint === request.fingerprint);
+  if (duplicate) return { status: "duplicate", existingPath: duplicate.path };
+
+  const claimed = new Set(sessions.map((session) => session.key));
+  const taken = async (key: string) =>
+    physicalPhotos.some((photo) => photo.path === key) || await storage.exists(key);
+
+  let key = `${galleryPath}/${filename}`;
+  const exists = await taken(key);
+  if (exists && request.policy === "skip") return { status: "skipped", existingPath: key };
+  const replaces = exists && request.policy === "replace";
+  if (request.policy === "rename") {
+    // Names claimed by other unfinished uploads are taken too
+    for (let attempt = 1; claimed.has(key) || await taken(key); attempt++) {
+      key = `${galleryPath}/${collisionFilename(filename, attempt)}`;
+    }
+  }
+
+  const contentType = request.contentType?.startsWith("image/")
+    ? request.contentType
+    : "application/octet-stream";
+  const session: UploadSession = {
+    version: 1,
+    id: crypto.randomUUID(),
+    galleryPath,
+    filename: key.slice(galleryPath.length + 1),
+    originalFilename: filename,
+    key,
+    size: request.size,
+    contentType,
+    fingerprint: request.fingerprint,
+    policy: request.policy,
+    replaces,
+    uploadId: await multipart.createMultipartUpload(key, contentType),
+    chunkSize: UPLOAD_CHUNK_SIZE,
+    parts: [],
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+  };
+  await writeSession(storage, session);
+  return { status: "ready", session };
+}
+
+/** Store one chunk. Sending a part again replaces it. */
+export async function uploadSessionPart(
+  storage: StorageAdapter,
+  session: UploadSession,
+  partNumber: number,
+  data: ArrayBuffer,
+  now: Date = new Date(),
+): Promise<UploadSession> {
+  const total = uploadPartCount(session);
+  if (!Number.isSafeInteger(partNumber) || partNumber < 1 || partNumber > total) {
+    throw new UploadSessionError(`Part ${partNumber} is outside 1–${total}`);
+  }
+  const expected = partNumber < total
+    ? session.chunkSize
+    : session.size - session.chunkSize * (total - 1);
+  if (data.byteLength !== expected) {
+    throw new UploadSessionError(
+      `Part ${partNumber} of ${session.filename} is ${data.byteLength} bytes, expected ${expected}`,
+    );
+  }
+
+  const etag = await multipartStorage(storage).uploadPart(session.key, session.uploadId, partNumber, data);
+  const updated: UploadSession = {
+    ...session,
+    parts: [
+      ...session.parts.filter((part) => part.partNumber !== partNumber),
+      { partNumber, etag },
+    ].sort((left, right) => left.partNumber - right.partNumber),
+    updatedAt: now.toISOString(),
+  };
+  await writeSession(storage, updated);
+  return updated;
+}
+
+/** Store the browser-decoded JPEG rendition; sending it again replaces it. */
+export async function uploadSessionRendition(
+  storage: StorageAdapter,
+  session: UploadSession,
+  jpeg: ArrayBuffer,
+  now: Date = new Date(),
+): Promise<UploadSession> {
+  if (!usesPhotoRendition(session.filename)) {
+    throw new UploadSessionError(`${session.filename} is shown as is and needs no rendition`);
+  }
+  const bytes = new Uint8Array(jpeg);
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8 || bytes[2] !== 0xff) {
+    throw new UploadSessionError(`The rendition of ${session.filename} is not a JPEG`);
+  }
+
+  await storage.put(pendingRenditionKey(session.id), jpeg, "image/jpeg");
+  const updated: UploadSession = { ...session, rendition: true, updatedAt: now.toISOString() };
+  await writeSession(storage, updated);
+  return updated;
+}
+
+/**
+ * Assemble the original and index it. A replaced photo keeps its entry and
+ * editorial metadata; only the embedded metadata and fingerprint change.
+ */
+export async function completeUploadSession(
+  storage: StorageAdapter,
+  session: UploadSession,
+): Promise<{ path: string; replaced: boolean }> {
+  const missing = missingUploadParts(session);
+  if (missing.length > 0) {
+    throw new UploadSessionError(
+      `${session.filename} is missing part${missing.length === 1 ? "" : "s"} ${missing.join(", ")}`,
+      409,
+    );
+  }
+
+  await multipartStorage(storage).completeMultipartUpload(session.key, session.uploadId, session.parts);
+  const rendition = session.rendition ? await storage.get(pendingRenditionKey(session.id)) : null;
+  if (rendition) {
+    await writePhotoRendition(storage, session.key, rendition);
+  } else if (session.replaces) {
+    // The replaced original's rendition would show the old picture
+    await deletePhotoRendition(storage, session.key);
+  }
+  await storage.delete(pendingRenditionKey(session.id));
+  await storage.delete(sessionKey(session.id));
+  await addPhotosToGalleryIndex(storage, session.galleryPath, [session.key], {
+    replace: session.replaces,
+  });
+  return { path: session.key, replaced: session.replaces };
+}
+
+export async function abortUploadSession(
+  storage: StorageAdapter,
+  session: UploadSession,
+): Promise<void> {
+  try {
+    await multipartStorage(storage).abortMultipartUpload(session.key, session.uploadId);
+  } catch (error) {
+    console.warn(`[Upload] Failed to abort ${session.key}:`, error);
+  }
+  await storage.delete(pendingRenditionKey(session.id));
+  await storage.delete(sessionKey(session.id));
+}
@@ -2,6 +2,8 @@
  * Content Engine Utilities
  */
 
+import { CAMERA_RAW_EXTENSIONS, HEIF_EXTENSIONS } from "./photo-renditions";
+
 /**
  * Convert folder name to display title
  * "tokyo-2024" → "Tokyo 2024"
@@ -30,11 +32,14 @@ export function toSlug(text: string): string {
 
 /**
  * Check if filename is a supported image format
- * Used for serving images via API - includes all image types
+ * Used for serving images via API - includes all image types, plus HEIC and
+ * camera RAW originals that are shown through their JPEG rendition
  */
 export function isImageFile(filename: string): boolean {
-  const ext = filename.toLowerCase().split(".").pop();
-  return ["jpg", "jpeg", "png", "webp", "gif", "avif", "svg"].includes(ext || "");
+  const ext = filename.toLowerCase().split(".").pop() || "";
+  return ["jpg", "jpeg", "png", "webp", "gif", "avif", "svg"].includes(ext) ||
+    (HEIF_EXTENSIONS as readonly string[]).includes(ext) ||
+    (CAMERA_RAW_EXTENSIONS as readonly string[]).includes(ext);
 }
 
 /**
@@ -0,0 +1,172 @@
+export const WATERMARK_POSITIONS = [
+  "top-left",
+  "top",
+  "top-right",
+  "left",
+  "center",
+  "right",
+  "bottom-left",
+  "bottom",
+  "bottom-right",
+] as const;
+
+export type WatermarkPosition = (typeof WATERMARK_POSITIONS)[number];
+
+/**
+ * Mark stamped on generated `_<width>w.webp` variants. Configured under
+ * `watermark:` in site.yaml; a gallery.yaml `watermark:` replaces single
+ * fields, or turns the mark off for that gallery with `false`.
+ */
+export interface WatermarkSettings {
+  /** Text to stamp when there is no logo. */
+  text?: string;
+  /** PNG logo, as a path relative to the content root. */
+  logo?: string;
+  position: WatermarkPosition;
+  /** 0 (invisible) to 1 (opaque). */
+  opacity: number;
+  /** Variants narrower than this stay clean, so thumbnails are not stamped. */
+  minWidth: number;
+  /** Width of the mark as a fraction of the image width. */
+  scale: number;
+}
+
+/** A gallery.yaml `watermark:` value. */
+export type WatermarkOverride = boolean | Partial<WatermarkSettings>;
+
+export const DEFAULT_WATERMARK_SETTINGS: Omit<WatermarkSettings, "text" | "logo"> = {
+  position: "bottom-right",
+  opacity: 0.6,
+  minWidth: 1600,
+  scale: 0.2,
+};
+
+/** Distance from the image edge, as a fraction of the image width. */
+const WATERMARK_MARGIN = 0.03;
+/** Average glyph advance of the stamp font, relative to its size. */
+const TEXT_ADVANCE = 0.6;
+const TEXT_LINE_HEIGHT = 1.3;
+const MIN_FONT_SIZE = 12;
+
+export function isWatermarkPosition(value: unknown): value is WatermarkPosition {
+  return WATERMARK_POSITIONS.includes(value as WatermarkPosition);
+}
+
+function normalizeLogoPath(value: unknown): string | undefined {
+  if (typeof value !== "string") return undefined;
+  const path = value.trim().replace(/^\/+/, "").replace(/^content\//, "");
+  if (!path.toLowerCase().endsWith(".png")) return undefined;
+  if (path.split("/").some((segment) => segment === ".." || segment === "")) return undefined;
+  return path;
+}
+
+function numberBetween(value: unknown, min: number, max: number): number | undefined {
+  const number = typeof value === "string" ? Number(value) : value;
+  return typeof number === "number" && Number.isFinite(number) && number >= min && number <= max
+    ? number
+    : undefined;
+}
+
+/**
+ * Settings from a yaml `watermark:` value, or null when it stamps nothing:
+ * `false`, or neither a logo nor text.
+ */
+export function normalizeWatermarkSettings(value: unknown): WatermarkSettings | null {
+  if (!value || typeof value !== "object") return null;
+  const raw = value as Record<string, unknown>;
+  const text = typeof raw.text === "string" ? raw.text.trim() : "";
+  const logo = normalizeLogoPath(raw.logo);
+  if (!text && !logo) return null;
+
+  return {
+    ...(text ? { text } : {}),
+    ...(logo ? { logo } : {}),
+    position: isWatermarkPosition(raw.position) ? raw.position : DEFAULT_WATERMARK_SETTINGS.position,
+    opacity: numberBetween(raw.opacity, 0, 1) ?? DEFAULT_WATERMARK_SETTINGS.opacity,
+    minWidth: numberBetween(raw.minWidth, 0, Number.MAX_SAFE_INTEGER) ?? DEFAULT_WATERMARK_SETTINGS.minWidth,
+    scale: numberBetween(raw.scale, 0.01, 1) ?? DEFAULT_WATERMARK_SETTINGS.scale,
+  };
+}
+
+/**
+ * The mark for a gallery: site settings with the gallery's fields on top.
+ * A gallery can also bring its own mark when the site has none.
+ */
+export function resolveWatermarkSettings(
+  site: unknown,
+  gallery?: unknown,
+): WatermarkSettings | null {
+  if (gallery === false) return null;
+  const siteFields = site && typeof site === "object" ? site : {};
+  const galleryFields = gallery && typeof gallery === "object" ? gallery : {};
+  return normalizeWatermarkSettings({ ...siteFields, ...galleryFields });
+}
+
+export function watermarkAppliesToWidth(settings: WatermarkSettings, width: number): boolean {
+  return settings.opacity > 0 && width >= settings.minWidth;
+}
+
+/** Target width of a logo mark on an image of the given width. */
+export function watermarkLogoWidth(settings: WatermarkSettings, imageWidth: number): number {
+  return Math.max(1, Math.round(imageWidth * settings.scale));
+}
+
+/**
+ * Font size and box for a text mark. The stamp font is only measured
+ * approximately, so the box leaves room for the widest glyphs.
+ */
+export function watermarkTextBox(
+  settings: WatermarkSettings,
+  imageWidth: number,
+): { fontSize: number; width: number; height: number } {
+  const length = Math.max(1, [...(settings.text ?? "")].length);
+  const fontSize = Math.max(
+    MIN_FONT_SIZE,
+    Math.round((imageWidth * settings.scale) / (length * TEXT_ADVANCE)),
+  );
+  return {
+    fontSize,
+    width: Math.min(imageWidth, Math.ceil(length * fontSize * TEXT_ADVANCE * 1.1)),
+    height: Math.ceil(fontSize * TEXT_LINE_HEIGHT),
+  };
+}
+
+/** Top-left corner of a mark, kept inside the image. */
+export function watermarkPlacement(
+  image: { width: number; height: number },
+  mark: { width: number; height: number },
+  position: WatermarkPosition,
+): { x: number; y: number } {
+  const margin = Math.round(image.width * WATERMARK_MARGIN);
+  const [vertical, horizontal] = position === "center"
+    ? ["center", "center"]
+    : position.includes("-")
+      ? position.split("-")
+      : position === "left" || position === "right"
+        ? ["center", position]
+        : [position, "center"];
+
+  const x = horizontal === "left"
+    ? margin
+    : horizontal === "right"
+      ? image.width - mark.width - margin
+      : Math.round((image.width - mark.width) / 2);
+  const y = vertical === "top"
+    ? margin
+    : vertical === "bottom"
+      ? image.height - mark.height - margin
+      : Math.round((image.height - mark.height) / 2);
+
+  return {
+    x: Math.max(0, Math.min(x, image.width - mark.width)),
+    y: Math.max(0, Math.min(y, image.height - mark.height)),
+  };
+}
+
+/** Scale the alpha channel of RGBA pixels in place. */
+export function fadeWatermarkPixels(pixels: Uint8Array, opacity: number): Uint8Array {
+  for (let index = 3; index < pixels.length; index += 4) {
+    pixels[index] = Math.round(pixels[index] * opacity);
+  }
+  return pixels;
+}
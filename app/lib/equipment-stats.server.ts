@@ -0,0 +1,28 @@
+/**
+ * Who may see the camera and lens statistics: everyone (the default) or only
+ * signed-in admins, set with `equipmentStats: admin` in site.yaml.
+ */
+
+import type { StorageAdapter } from "~/lib/content-engine";
+import { readSiteSettingsDocument } from "~/lib/site-languages.server";
+import { checkAdminAuth } from "~/utils/admin-auth";
+
+export type EquipmentStatsVisibility = "public" | "admin";
+
+export function parseEquipmentStatsVisibility(document: Record<string, unknown>): EquipmentStatsVisibility {
+  return document.equipmentStats === "admin" ? "admin" : "public";
+}
+
+/**
+ * Redirects to the admin login when the statistics are admin-only. Returns
+ * the visibility so responses can keep admin-only data out of shared caches.
+ */
+export async function requireEquipmentStatsAccess(
+  request: Request,
+  context: Parameters<typeof checkAdminAuth>[1],
+  storage: Pick<StorageAdapter, "getText">,
+): Promise<EquipmentStatsVisibility> {
+  const visibility = parseEquipmentStatsVisibility(await readSiteSettingsDocument(storage));
+  if (visibility === "admin") await checkAdminAuth(request, context);
+  return visibility;
+}
@@ -0,0 +1,71 @@
+/**
+ * Feed URLs
+ *
+ * /feeds/blog/<file> and /feeds/gallery/<slug>/<file>, where <file> is
+ * rss.xml, atom.xml or feed.json. Other editions add the locale prefix
+ * (/es/feeds/blog/rss.xml). Kept free of server imports so route `meta`
+ * functions can advertise feeds.
+ */
+
+import { localizedPath, type Locale } from "~/lib/i18n";
+
+export type FeedFormat = "rss" | "atom" | "json";
+
+export const FEED_FILENAMES: Record<FeedFormat, string> = {
+  rss: "rss.xml",
+  atom: "atom.xml",
+  json: "feed.json",
+};
+
+export const FEED_MEDIA_TYPES: Record<FeedFormat, string> = {
+  rss: "application/rss+xml",
+  atom: "application/atom+xml",
+  json: "application/feed+json",
+};
+
+const FEED_FORMATS = Object.keys(FEED_FILENAMES) as FeedFormat[];
+
+export type FeedTarget =
+  | { kind: "blog"; format: FeedFormat }
+  | { kind: "gallery"; slug: string; format: FeedFormat };
+
+/** Parse the part of a feed URL after /feeds/, or null when it is not a feed. */
+export function parseFeedPath(path: string | undefined): FeedTarget | null {
+  const segments = (path || "").split("/").filter(Boolean);
+  const filename = segments.pop();
+  const format = FEED_FORMATS.find((candidate) => FEED_FILENAMES[candidate] === filename);
+  if (!format) return null;
+
+  if (segments.length === 1 && segments[0] === "blog") return { kind: "blog", format };
+  if (segments.length >= 2 && segments[0] === "gallery") {
+    if (segments.some((segment) => segment === "." || segment === "..")) return null;
+    return { kind: "gallery", slug: segments.slice(1).join("/"), format };
+  }
+  return null;
+}
+
+/** Absolute URLs of one feed in every format, for self links and discovery. */
+export function feedUrls(
+  baseUrl: string,
+  locale: Locale,
+  target: { kind: "blog" } | { kind: "gallery"; slug: string },
+): Record<FeedFormat, string> {
+  const directory = target.kind === "blog" ? "/feeds/blog" : `/feeds/gallery/${target.slug}`;
+  return Object.fromEntries(
+    FEED_FORMATS.map((format) => [
+      format,
+      new URL(localizedPath(locale, `${directory}/${FEED_FILENAMES[format]}`), baseUrl).toString(),
+    ]),
+  ) as Record<FeedFormat, string>;
+}
+
+/** `<link rel="alternate">` descriptors for a route's meta export. */
+export function feedDiscoveryLinks(title: string, urls: Record<FeedFormat, string>) {
+  return FEED_FORMATS.map((format) => ({
+    tagName: "link" as const,
+    rel: "alternate",
+    type: FEED_MEDIA_TYPES[format],
+    title,
+    href: urls[format],
+  }));
+}
@@ -0,0 +1,251 @@
+/**
+ * Syndication Feeds
+ *
+ * One feed model rendered as RSS 2.0, Atom 1.0 or JSON Feed 1.1. Blog feeds
+ * reuse the headless blog contract so item links, covers and inline images
+ * are absolute; gallery feeds list the most recently added public photos.
+ * URL parsing and discovery links live in feed-urls.ts.
+ */
+
+import type { BlogPost, GalleryDataEntry } from "~/lib/content-engine";
+import {
+  buildHeadlessBlogIndex,
+  buildHeadlessBlogPost,
+  type HeadlessBlogConfig,
+} from "~/lib/headless-blog";
+import { localizedPath, type Locale } from "~/lib/i18n";
+import { FEED_MEDIA_TYPES, type FeedFormat } from "~/lib/feed-urls";
+
+/** Items per feed; readers only poll for what changed recently. */
+export const FEED_ITEM_LIMIT = 30;
+
+export interface FeedItem {
+  id: string;
+  url: string;
+  title: string;
+  summary?: string;
+  contentHtml?: string;
+  /** ISO timestamps */
+  published?: string;
+  updated?: string;
+  imageUrl?: string;
+  tags?: string[];
+}
+
+export interface Feed {
+  title: string;
+  description?: string;
+  homeUrl: string;
+  /** Absolute URL of this feed in each format, for self links. */
+  feedUrls: Record<FeedFormat, string>;
+  language: Locale;
+  items: FeedItem[];
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function cdata(value: string): string {
+  return `<![CDATA[${value.replace(/]]>/g, "]]]]><![CDATA[>")}]]>`;
+}
+
+function feedUpdated(feed: Feed): string {
+  const times = feed.items
+    .map((item) => new Date(item.updated || item.published || "").getTime())
+    .filter((time) => !Number.isNaN(time));
+  return new Date(times.length > 0 ? Math.max(...times) : Date.now()).toISOString();
+}
+
+function rfc822(value: string): string {
+  return new Date(value).toUTCString();
+}
+
+function renderRss(feed: Feed): string {
+  const items = feed.items.map((item) => {
+    const lines = [
+      `      <title>${escapeXml(item.title)}</title>`,
+      `      <link>${escapeXml(item.url)}</link>`,
+      `      <guid isPermaLink="${item.id === item.url}">${escapeXml(item.id)}</guid>`,
+    ];
+    if (item.published) lines.push(`      <pubDate>${rfc822(item.published)}</pubDate>`);
+    if (item.summary) lines.push(`      <description>${escapeXml(item.summary)}</description>`);
+    if (item.contentHtml) lines.push(`      <content:encoded>${cdata(item.contentHtml)}</content:encoded>`);
+    for (const tag of item.tags || []) lines.push(`      <category>${escapeXml(tag)}</category>`);
+    if (item.imageUrl) {
+      lines.push(`      <media:content url="${escapeXml(item.imageUrl)}" medium="image" />`);
+    }
+    return `    <item>\n${lines.join("\n")}\n    </item>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:media="http://search.yahoo.com/mrss/">
+  <channel>
+    <title>${escapeXml(feed.title)}</title>
+    <link>${escapeXml(feed.homeUrl)}</link>
+    <description>${escapeXml(feed.description || feed.title)}</description>
+    <language>${feed.language}</language>
+    <lastBuildDate>${rfc822(feedUpdated(feed))}</lastBuildDate>
+    <atom:link href="${escapeXml(feed.feedUrls.rss)}" rel="self" type="application/rss+xml" />
+${items.join("\n")}
+  </channel>
+</rss>`;
+}
+
+function renderAtom(feed: Feed): string {
+  const entries = feed.items.map((item) => {
+    const updated = item.updated || item.published || feedUpdated(feed);
+    const lines = [
+      `    <id>${escapeXml(item.id)}</id>`,
+      `    <title>${escapeXml(item.title)}</title>`,
+      `    <link rel="alternate" href="${escapeXml(item.url)}" />`,
+      `    <updated>${updated}</updated>`,
+    ];
+    if (item.published) lines.push(`    <published>${item.published}</published>`);
+    if (item.summary) lines.push(`    <summary>${escapeXml(item.summary)}</summary>`);
+    if (item.contentHtml) lines.push(`    <content type="html">${escapeXml(item.contentHtml)}</content>`);
+    for (const tag of item.tags || []) lines.push(`    <category term="${escapeXml(tag)}" />`);
+    if (item.imageUrl) lines.push(`    <link rel="enclosure" href="${escapeXml(item.imageUrl)}" />`);
+    return `  <entry>\n${lines.join("\n")}\n  </entry>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${feed.language}">
+  <id>${escapeXml(feed.feedUrls.atom)}</id>
+  <title>${escapeXml(feed.title)}</title>
+${feed.description ? `  <subtitle>${escapeXml(feed.description)}</subtitle>\n` : ""}  <updated>${feedUpdated(feed)}</updated>
+  <link rel="self" type="application/atom+xml" href="${escapeXml(feed.feedUrls.atom)}" />
+  <link rel="alternate" type="text/html" href="${escapeXml(feed.homeUrl)}" />
+${entries.join("\n")}
+</feed>`;
+}
+
+function renderJson(feed: Feed): string {
+  return JSON.stringify({
+    version: "https://jsonfeed.org/version/1.1",
+    title: feed.title,
+    home_page_url: feed.homeUrl,
+    feed_url: feed.feedUrls.json,
+    description: feed.description,
+    language: feed.language,
+    items: feed.items.map((item) => ({
+      id: item.id,
+      url: item.url,
+      title: item.title,
+      summary: item.summary,
+      content_html: item.contentHtml,
+      // JSON Feed requires content; photo items without a caption use the title.
+      content_text: item.contentHtml ? undefined : item.summary || item.title,
+      image: item.imageUrl,
+      date_published: item.published,
+      date_modified: item.updated,
+      tags: item.tags?.length ? item.tags : undefined,
+    })),
+  }, null, 2);
+}
+
+export function renderFeed(feed: Feed, format: FeedFormat): { body: string; contentType: string } {
+  const body = format === "rss" ? renderRss(feed) : format === "atom" ? renderAtom(feed) : renderJson(feed);
+  return { body, contentType: `${FEED_MEDIA_TYPES[format]}; charset=utf-8` };
+}
+
+function dayToIso(value: string | null): string | undefined {
+  return value ? `${value}T00:00:00.000Z` : undefined;
+}
+
+/**
+ * Latest published posts in one edition, with full HTML bodies. Posts that
+ * are not translated fall back to their source language, as in the blog API.
+ */
+export function buildBlogFeed(
+  posts: readonly BlogPost[],
+  config: HeadlessBlogConfig,
+  locale: Locale,
+  urls: Record<FeedFormat, string>,
+): Feed {
+  const index = buildHeadlessBlogIndex(posts, config, locale);
+  const items = index.posts.slice(0, FEED_ITEM_LIMIT).map((summary): FeedItem => {
+    const post = buildHeadlessBlogPost(posts, summary.slug, config, locale)?.post;
+    return {
+      id: summary.canonicalUrl,
+      url: summary.canonicalUrl,
+      title: summary.title,
+      summary: summary.excerpt || undefined,
+      contentHtml: post?.contentHtml,
+      published: dayToIso(summary.date),
+      imageUrl: summary.coverUrl || undefined,
+      tags: [...summary.tags, ...summary.categories],
+    };
+  });
+
+  return {
+    title: index.site.name,
+    homeUrl: index.site.blogUrl,
+    feedUrls: urls,
+    language: locale,
+    items,
+  };
+}
+
+function photoImageUrl(baseUrl: string, path: string): string {
+  const encodedPath = path.split("/").map((segment) => encodeURIComponent(segment)).join("/");
+  return new URL(`/api/images/${encodedPath}`, baseUrl).toString();
+}
+
+function addedAt(photo: GalleryDataEntry["photos"][number]): string | undefined {
+  const value = photo.lastModified || photo.dateTaken;
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * Most recently added photos of a gallery. The caller decides whether the
+ * gallery may be syndicated at all (private, password, publication window);
+ * hidden photos are always left out.
+ */
+export function buildGalleryFeed(
+  gallery: GalleryDataEntry,
+  options: { baseUrl: string; locale: Locale; siteName: string; urls: Record<FeedFormat, string> },
+): Feed {
+  const { baseUrl, locale } = options;
+  const photos = gallery.photos
+    .filter((photo) => !photo.hidden)
+    .map((photo) => ({ photo, added: addedAt(photo) }))
+    .sort((left, right) => (right.added || "").localeCompare(left.added || ""))
+    .slice(0, FEED_ITEM_LIMIT);
+
+  const items = photos.map(({ photo, added }): FeedItem => {
+    const url = new URL(
+      localizedPath(locale, `/photo/${gallery.slug}/${encodeURIComponent(photo.filename)}`),
+      baseUrl,
+    ).toString();
+    const imageUrl = photoImageUrl(baseUrl, photo.path);
+    const title = photo.title || photo.filename;
+    const caption = photo.description ? `<p>${escapeXml(photo.description)}</p>` : "";
+    return {
+      id: url,
+      url,
+      title,
+      summary: photo.description,
+      contentHtml: `<p><img src="${escapeXml(imageUrl)}" alt="${escapeXml(title)}" /></p>${caption}`,
+      published: added,
+      imageUrl,
+      tags: photo.tags,
+    };
+  });
+
+  return {
+    title: `${gallery.title} - ${options.siteName}`,
+    description: gallery.description,
+    homeUrl: new URL(localizedPath(locale, `/gallery/${gallery.slug}`), baseUrl).toString(),
+    feedUrls: options.urls,
+    language: locale,
+    items,
+  };
+}
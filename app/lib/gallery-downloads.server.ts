@@ -0,0 +1,406 @@
+/**
+ * Visitor downloads: who may download what from a gallery, the files handed
+ * out, a streaming ZIP writer for whole galleries and per-gallery counters.
+ *
+ * Archives use the ZIP "stored" method. Photos are already compressed, so
+ * deflating them gains nothing, and storing lets every entry be written as
+ * soon as its bytes are read: only one photo is held in memory at a time.
+ * ZIP64 records are added once offsets pass 4 GiB.
+ */
+
+import {
+  effectiveGalleryDownloadSize,
+  isWithinPublicationWindow,
+  type GalleryDataEntry,
+  type GalleryPhotoEntry,
+  type StorageAdapter,
+} from "~/lib/content-engine";
+import { resolveImageAsset } from "~/lib/image-delivery.server";
+import { VARIANT_WIDTHS } from "~/utils/image-optimization";
+import { isGalleryAuthenticated } from "~/utils/gallery-auth";
+import {
+  getGalleryShareLinks,
+  shareCoversGallery,
+  type GalleryShareLink,
+} from "~/utils/gallery-shares";
+
+const DOWNLOAD_COUNTS_PATH = ".victopress/download-counts.json";
+const COUNTS_CAS_ATTEMPTS = 3;
+
+export interface GalleryDownloadAccess {
+  size: "web-size" | "original";
+  /** Share link the visitor came through, if any. */
+  share?: GalleryShareLink;
+}
+
+/**
+ * What a visitor may download from a gallery. A share link that allows
+ * downloads always grants originals; otherwise the gallery's policy applies
+ * once its password (if any) has been satisfied.
+ */
+export function galleryDownloadAccess(
+  gallery: Pick<GalleryDataEntry, "slug" | "password" | "downloads" | "publishAt" | "unpublishAt">,
+  visitor: { shares: readonly GalleryShareLink[]; passwordUnlocked: boolean },
+  now: Date = new Date(),
+): GalleryDownloadAccess | null {
+  if (!isWithinPublicationWindow(gallery, now)) return null;
+  const share = visitor.shares.find((link) => shareCoversGallery(link, gallery.slug));
+  if (share?.allowDownload) return { size: "original", share };
+  if (gallery.password && !share && !visitor.passwordUnlocked) return null;
+  const size = effectiveGalleryDownloadSize(gallery.downloads);
+  if (size === "none") return null;
+  return share ? { size, share } : { size };
+}
+
+export async function getGalleryDownloadAccess(
+  request: Request,
+  storage: StorageAdapter,
+  gallery: GalleryDataEntry,
+  now: Date = new Date(),
+): Promise<GalleryDownloadAccess | null> {
+  const shares = await getGalleryShareLinks(request, storage, now);
+  const passwordUnlocked = gallery.password
+    ? await isGalleryAuthenticated(request, gallery.slug)
+    : true;
+  return galleryDownloadAccess(gallery, { shares, passwordUnlocked }, now);
+}
+
+export interface DownloadFile {
+  buffer: ArrayBuffer;
+  filename: string;
+}
+
+function splitFilename(filename: string): { stem: string; extension: string } {
+  const dotIndex = filename.lastIndexOf(".");
+  return dotIndex > 0
+    ? { stem: filename.slice(0, dotIndex), extension: filename.slice(dotIndex + 1) }
+    : { stem: filename, extension: "" };
+}
+
+/** Name a downloaded photo is saved under. */
+export function downloadFilename(filename: string, size: GalleryDownloadAccess["size"]): string {
+  return size === "original" ? filename : `${splitFilename(filename).stem}.webp`;
+}
+
+/**
+ * The bytes handed out for one photo. Web-size downloads are the largest
+ * generated WebP variant; when none has been generated yet there is nothing
+ * to hand out rather than a silent fall back to the original.
+ */
+export async function loadDownloadFile(
+  storage: StorageAdapter,
+  photo: Pick<GalleryPhotoEntry, "path" | "filename">,
+  size: GalleryDownloadAccess["size"],
+): Promise<DownloadFile | null> {
+  if (size === "original") {
+    const asset = await resolveImageAsset(storage, photo.path, null);
+    return asset ? { buffer: asset.buffer, filename: downloadFilename(photo.filename, size) } : null;
+  }
+
+  // Variants are never upscaled, so small sources lack the widest ones.
+  const { stem } = splitFilename(photo.path);
+  for (const width of [...VARIANT_WIDTHS].reverse()) {
+    const buffer = await storage.get(`${stem}_${width}w.webp`);
+    if (buffer) return { buffer, filename: downloadFilename(photo.filename, size) };
+  }
+  return null;
+}
+
+export function attachmentDisposition(filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, "_");
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
+
+export interface ArchivePhoto {
+  photo: GalleryPhotoEntry;
+  /** Path of the entry inside the archive. */
+  name: string;
+  /** Size the photo's own gallery allows the visitor to download. */
+  size: GalleryDownloadAccess["size"];
+}
+
+/**
+ * Visible photos for a gallery archive. Nested galleries are included when
+ * the gallery includes them on its page, each at the size its own download
+ * policy allows; `sizeFor` returns null for those the visitor may not
+ * download from (unpublished, still locked or with downloads turned off).
+ */
+export function galleryArchivePhotos(
+  gallery: GalleryDataEntry,
+  allGalleries: readonly GalleryDataEntry[],
+  sizeFor: (source: GalleryDataEntry) => GalleryDownloadAccess["size"] | null,
+): ArchivePhoto[] {
+  const sources = [gallery];
+  if (gallery.includeNestedPhotos !== false) {
+    sources.push(...allGalleries.filter((child) => child.slug.startsWith(`${gallery.slug}/`)));
+  }
+
+  const seenPaths = new Set<string>();
+  const usedNames = new Set<string>();
+  const entries: ArchivePhoto[] = [];
+  for (const source of sources) {
+    const size = sizeFor(source);
+    if (!size) continue;
+    const folder = source.slug === gallery.slug ? "" : `${source.slug.slice(gallery.slug.length + 1)}/`;
+    for (const photo of source.photos) {
+      if (photo.hidden || seenPaths.has(photo.path)) continue;
+      seenPaths.add(photo.path);
+      let name = `${folder}${downloadFilename(photo.filename, size)}`;
+      const { stem, extension } = splitFilename(name);
+      for (let copy = 2; usedNames.has(name.toLowerCase()); copy += 1) {
+        name = `${stem} (${copy})${extension ? `.${extension}` : ""}`;
+      }
+      usedNames.add(name.toLowerCase());
+      entries.push({ photo, name, size });
+    }
+  }
+  return entries;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let index = 0; index < 256; index += 1) {
+    let value = index;
+    for (let bit = 0; bit < 8; bit += 1) {
+      value = value & 1 ? 0xedb88320 ^ (value >>> 1) : value >>> 1;
+    }
+    table[index] = value >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getUTCFullYear());
+  return {
+    time: (date.getUTCHours() << 11) | (date.getUTCMinutes() << 5) | Math.floor(date.getUTCSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getUTCMonth() + 1) << 5) | date.getUTCDate(),
+  };
+}
+
+const UINT32_MAX = 0xffffffff;
+const UINT16_MAX = 0xffff;
+/** General-purpose flag: names are UTF-8. */
+const UTF8_FLAG = 0x0800;
+
+interface CentralEntry {
+  name: Uint8Array;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+function localHeader(entry: CentralEntry): Uint8Array {
+  const header = new Uint8Array(30 + entry.name.length);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, 0x04034b50, true);
+  view.setUint16(4, 20, true);
+  view.setUint16(6, UTF8_FLAG, true);
+  view.setUint16(8, 0, true);
+  view.setUint16(10, entry.time, true);
+  view.setUint16(12, entry.date, true);
+  view.setUint32(14, entry.crc, true);
+  view.setUint32(18, entry.size, true);
+  view.setUint32(22, entry.size, true);
+  view.setUint16(26, entry.name.length, true);
+  view.setUint16(28, 0, true);
+  header.set(entry.name, 30);
+  return header;
+}
+
+function centralHeader(entry: CentralEntry): Uint8Array {
+  const zip64 = entry.offset >= UINT32_MAX;
+  const extraLength = zip64 ? 12 : 0;
+  const header = new Uint8Array(46 + entry.name.length + extraLength);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, 0x02014b50, true);
+  view.setUint16(4, zip64 ? 45 : 20, true);
+  view.setUint16(6, zip64 ? 45 : 20, true);
+  view.setUint16(8, UTF8_FLAG, true);
+  view.setUint16(10, 0, true);
+  view.setUint16(12, entry.time, true);
+  view.setUint16(14, entry.date, true);
+  view.setUint32(16, entry.crc, true);
+  view.setUint32(20, entry.size, true);
+  view.setUint32(24, entry.size, true);
+  view.setUint16(28, entry.name.length, true);
+  view.setUint16(30, extraLength, true);
+  view.setUint32(42, zip64 ? UINT32_MAX : entry.offset, true);
+  header.set(entry.name, 46);
+  if (zip64) {
+    const extra = 46 + entry.name.length;
+    view.setUint16(extra, 0x0001, true);
+    view.setUint16(extra + 2, 8, true);
+    view.setBigUint64(extra + 4, BigInt(entry.offset), true);
+  }
+  return header;
+}
+
+function endOfArchive(count: number, directorySize: number, directoryOffset: number): Uint8Array {
+  const zip64 = count >= UINT16_MAX || directorySize >= UINT32_MAX || directoryOffset >= UINT32_MAX;
+  const records = new Uint8Array((zip64 ? 56 + 20 : 0) + 22);
+  const view = new DataView(records.buffer);
+  let position = 0;
+  if (zip64) {
+    view.setUint32(0, 0x06064b50, true);
+    view.setBigUint64(4, 44n, true);
+    view.setUint16(12, 45, true);
+    view.setUint16(14, 45, true);
+    view.setBigUint64(24, BigInt(count), true);
+    view.setBigUint64(32, BigInt(count), true);
+    view.setBigUint64(40, BigInt(directorySize), true);
+    view.setBigUint64(48, BigInt(directoryOffset), true);
+    view.setUint32(56, 0x07064b50, true);
+    view.setBigUint64(64, BigInt(directoryOffset + directorySize), true);
+    view.setUint32(72, 1, true);
+    position = 76;
+  }
+  view.setUint32(position, 0x06054b50, true);
+  view.setUint16(position + 8, Math.min(count, UINT16_MAX), true);
+  view.setUint16(position + 10, Math.min(count, UINT16_MAX), true);
+  view.setUint32(position + 12, Math.min(directorySize, UINT32_MAX), true);
+  view.setUint32(position + 16, Math.min(directoryOffset, UINT32_MAX), true);
+  return records;
+}
+
+export interface ZipSource {
+  name: string;
+  modified?: Date;
+  /** Read lazily so only the entry being written is in memory; null skips it. */
+  load(): Promise<ArrayBuffer | null>;
+}
+
+/**
+ * Stream a ZIP archive, loading each source only when the reader asks for
+ * more. A failing or missing source is left out instead of aborting.
+ */
+export function createZipStream(sources: readonly ZipSource[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const central: CentralEntry[] = [];
+  let offset = 0;
+  let next = 0;
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      while (next < sources.length) {
+        const source = sources[next++];
+        let buffer: ArrayBuffer | null = null;
+        try {
+          buffer = await source.load();
+        } catch (error) {
+          console.warn(`[Downloads] Skipping ${source.name} in archive.`, error);
+        }
+        if (!buffer) continue;
+
+        const bytes = new Uint8Array(buffer);
+        const { time, date } = dosDateTime(source.modified ?? new Date());
+        const entry: CentralEntry = {
+          name: encoder.encode(source.name),
+          crc: crc32(bytes),
+          size: bytes.byteLength,
+          offset,
+          time,
+          date,
+        };
+        const header = localHeader(entry);
+        central.push(entry);
+        offset += header.byteLength + bytes.byteLength;
+        controller.enqueue(header);
+        controller.enqueue(bytes);
+        return;
+      }
+
+      const directoryOffset = offset;
+      let directorySize = 0;
+      for (const entry of central) {
+        const header = centralHeader(entry);
+        directorySize += header.byteLength;
+        controller.enqueue(header);
+      }
+      controller.enqueue(endOfArchive(central.length, directorySize, directoryOffset));
+      controller.close();
+    },
+  });
+}
+
+export interface GalleryDownloadCounts {
+  photos: number;
+  archives: number;
+  lastDownloadAt?: string;
+}
+
+interface DownloadCountsRecord {
+  version: 1;
+  galleries: Record<string, GalleryDownloadCounts>;
+}
+
+function parseDownloadCounts(raw: string | null): DownloadCountsRecord {
+  if (raw) {
+    try {
+      const record = JSON.parse(raw) as DownloadCountsRecord;
+      if (record.version === 1 && record.galleries) return record;
+    } catch {
+      // A damaged file only resets the counters.
+    }
+  }
+  return { version: 1, galleries: {} };
+}
+
+function countDownload(
+  record: DownloadCountsRecord,
+  gallerySlug: string,
+  kind: "photo" | "archive",
+  now: Date,
+): string {
+  const counts = record.galleries[gallerySlug] ?? { photos: 0, archives: 0 };
+  record.galleries[gallerySlug] = {
+    photos: counts.photos + (kind === "photo" ? 1 : 0),
+    archives: counts.archives + (kind === "archive" ? 1 : 0),
+    lastDownloadAt: now.toISOString(),
+  };
+  return JSON.stringify(record, null, 2);
+}
+
+/**
+ * Count a download. Counting is best effort and never blocks the download;
+ * providers with conditional writes retry so concurrent downloads are not lost.
+ */
+export async function recordGalleryDownload(
+  storage: StorageAdapter,
+  gallerySlug: string,
+  kind: "photo" | "archive",
+  now: Date = new Date(),
+): Promise<void> {
+  try {
+    if (storage.getVersionedText && storage.putTextIfVersion) {
+      for (let attempt = 0; attempt < COUNTS_CAS_ATTEMPTS; attempt += 1) {
+        const snapshot = await storage.getVersionedText(DOWNLOAD_COUNTS_PATH);
+        const text = countDownload(parseDownloadCounts(snapshot.text), gallerySlug, kind, now);
+        if (await storage.putTextIfVersion(DOWNLOAD_COUNTS_PATH, text, snapshot.version, "application/json")) {
+          return;
+        }
+      }
+      console.warn(`[Downloads] Gave up counting a download for ${gallerySlug}.`);
+      return;
+    }
+    const record = parseDownloadCounts(await storage.getText(DOWNLOAD_COUNTS_PATH));
+    await storage.put(DOWNLOAD_COUNTS_PATH, countDownload(record, gallerySlug, kind, now), "application/json");
+  } catch (error) {
+    console.warn("[Downloads] Could not count a download.", error);
+  }
+}
+
+export async function getGalleryDownloadCounts(
+  storage: StorageAdapter,
+  gallerySlug: string,
+): Promise<GalleryDownloadCounts> {
+  const record = parseDownloadCounts(await storage.getText(DOWNLOAD_COUNTS_PATH));
+  return record.galleries[gallerySlug] ?? { photos: 0, archives: 0 };
+}
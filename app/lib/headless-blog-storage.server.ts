@@ -3,8 +3,12 @@ import {
   isHydratedBlogPostIndex,
 } from "~/lib/content-engine/blog-index";
 import { scanBlog } from "~/lib/content-engine/blog-scanner";
-import { readContentIndex } from "~/lib/content-engine/content-index";
+import {
+  localizeGalleryDataEntry,
+  readContentIndex,
+} from "~/lib/content-engine/content-index";
 import type { BlogPost, StorageAdapter } from "~/lib/content-engine/types";
+import type { Locale } from "~/lib/i18n";
 
 /**
  * Serve the public blog from one cached R2 object instead of listing the
@@ -20,3 +24,22 @@ export async function loadHeadlessBlogPosts(
 
   return scanBlog(storage);
 }
+
+/**
+ * Approved alt text of public gallery photos by storage path, so a blog image
+ * that reuses a gallery photo without alt text of its own stays accessible.
+ */
+export async function loadPhotoAltText(
+  storage: StorageAdapter,
+  locale: Locale,
+): Promise<Map<string, string>> {
+  const index = await readContentIndex(storage);
+  const altText = new Map<string, string>();
+  for (const gallery of index?.galleryData ?? []) {
+    if (gallery.isProtected) continue;
+    for (const photo of localizeGalleryDataEntry(gallery, locale).photos) {
+      if (!photo.hidden && photo.alt) altText.set(photo.path, photo.alt);
+    }
+  }
+  return altText;
+}
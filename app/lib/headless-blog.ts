@@ -1,8 +1,12 @@
 import type { BlogPost } from "~/lib/content-engine";
-import { localizeBlogPost } from "~/lib/content-engine";
+import { isPostPublished, localizeBlogPost } from "~/lib/content-engine";
 import { buildLocalizedBlogUrl, buildPublicBlogPostUrl } from "~/lib/blog-urls";
-import { renderMarkdown, resolveMarkdownImageUrl } from "~/lib/markdown";
-import { type Locale } from "~/lib/i18n";
+import {
+  markdownImageStoragePath,
+  renderMarkdown,
+  resolveMarkdownImageUrl,
+} from "~/lib/markdown";
+import { DEFAULT_LOCALES, type Locale } from "~/lib/i18n";
 import type { BlogCategory } from "~/lib/blog-categories";
 
 export { buildPublicBlogPostUrl } from "~/lib/blog-urls";
@@ -40,6 +44,8 @@ export interface HeadlessBlogPost extends HeadlessBlogSummary {
   contentMarkdown: string;
   contentHtml: string;
   images: string[];
+  /** Approved alt text of gallery photos used in the post, by image URL. */
+  imageAltText: Record<string, string>;
 }
 
 export interface HeadlessBlogIndexResponse {
@@ -145,16 +151,17 @@ function summaryFor(
     resolvedLocale: localizedPost.resolvedLocale,
     availableLocales: localizedPost.availableLocales,
     isFallback: localizedPost.isFallback,
-    alternateUrls: {
-      es: buildPublicBlogPostUrl(post.slug, config, "es"),
-      en: buildPublicBlogPostUrl(post.slug, config, "en"),
-    },
+    alternateUrls: Object.fromEntries(
+      [...new Set([...DEFAULT_LOCALES, ...localizedPost.availableLocales])].map(
+        (alternate) => [alternate, buildPublicBlogPostUrl(post.slug, config, alternate)],
+      ),
+    ),
   };
 }
 
 export function sortPublishedPosts(posts: readonly BlogPost[]): BlogPost[] {
   return posts
-    .filter((post) => !post.draft)
+    .filter((post) => isPostPublished(post))
     .sort((left, right) => {
       const leftTime = left.date?.getTime() || 0;
       const rightTime = right.date?.getTime() || 0;
@@ -210,11 +217,27 @@ export function normalizeRequestedSlug(value: string | undefined): string | null
   }
 }
 
+function imageAltTextByUrl(
+  images: readonly string[],
+  config: HeadlessBlogConfig,
+  photoAltText: ReadonlyMap<string, string>,
+): Record<string, string> {
+  const altText: Record<string, string> = {};
+  for (const image of images) {
+    const path = markdownImageStoragePath(image);
+    const url = absoluteMediaUrl(image, config);
+    const alt = path ? photoAltText.get(path) : undefined;
+    if (url && alt) altText[url] = alt;
+  }
+  return altText;
+}
+
 export function buildHeadlessBlogPost(
   posts: readonly BlogPost[],
   requestedSlug: string,
   config: HeadlessBlogConfig,
   locale?: Locale,
+  photoAltText: ReadonlyMap<string, string> = new Map(),
 ): HeadlessBlogPostResponse | null {
   const publishedPosts = sortPublishedPosts(posts);
   const postIndex = publishedPosts.findIndex((post) => post.slug === requestedSlug);
@@ -240,10 +263,12 @@ export function buildHeadlessBlogPost(
       contentHtml: renderMarkdown(localizedPost.content, {
         imageBaseUrl: config.publicMediaUrl,
         linkBaseUrl: config.publicMediaUrl,
+        imageAltText: (path) => photoAltText.get(path),
       }),
       images: post.images
         .map((image) => absoluteMediaUrl(image, config))
         .filter((image): image is string => Boolean(image)),
+      imageAltText: imageAltTextByUrl(post.images, config, photoAltText),
     },
     navigation: {
       newer: postIndex > 0 ? summaryFor(publishedPosts[postIndex - 1], config, locale) : null,
@@ -9,8 +9,10 @@ import {
   localizedPath,
   normalizeLocale,
   parseAcceptLanguage,
+  siteLocales,
   stripLocaleFromPathname,
   type Locale,
+  type LocalizedAlternates,
 } from "~/lib/i18n";
 import {
   DEFAULT_SITE_LANGUAGE_SETTINGS,
@@ -45,9 +47,11 @@ export function preferredLocale(
   request: Request,
   settings: SiteLanguageSettings = DEFAULT_SITE_LANGUAGE_SETTINGS,
 ): Locale {
+  const locales = siteLocales(settings);
+  const cookieLocale = normalizeLocale(readCookie(request, LOCALE_COOKIE));
   return (
-    normalizeLocale(readCookie(request, LOCALE_COOKIE)) ||
-    parseAcceptLanguage(request.headers.get("Accept-Language")) ||
+    (cookieLocale && locales.includes(cookieLocale) ? cookieLocale : null) ||
+    parseAcceptLanguage(request.headers.get("Accept-Language"), locales) ||
     settings.defaultLocale ||
     DEFAULT_LOCALE
   );
@@ -58,7 +62,8 @@ export function localeForRequest(
   settings: SiteLanguageSettings = DEFAULT_SITE_LANGUAGE_SETTINGS,
 ): Locale {
   if (!settings.multilingual) return settings.defaultLocale;
-  return localeFromPathname(new URL(request.url).pathname) || preferredLocale(request, settings);
+  return localeFromPathname(new URL(request.url).pathname, siteLocales(settings)) ||
+    preferredLocale(request, settings);
 }
 
 export function requireRouteLocale(
@@ -67,16 +72,19 @@ export function requireRouteLocale(
   settings: SiteLanguageSettings = DEFAULT_SITE_LANGUAGE_SETTINGS,
 ): Locale {
   const url = new URL(request.url);
-  const manuallySelectedLocale = normalizeLocale(
+  const locales = siteLocales(settings);
+  const requestedLocale = normalizeLocale(
     url.searchParams.get(LOCALE_QUERY_PARAMETER),
   );
+  const manuallySelectedLocale =
+    requestedLocale && locales.includes(requestedLocale) ? requestedLocale : null;
 
   if (manuallySelectedLocale) {
     url.searchParams.delete(LOCALE_QUERY_PARAMETER);
     const locale = settings.multilingual
       ? manuallySelectedLocale
       : settings.defaultLocale;
-    throw redirect(`${localizedPath(locale, url.pathname)}${url.search}`, {
+    throw redirect(`${localizedPath(locale, url.pathname, locales)}${url.search}`, {
       headers: {
         "Cache-Control": "private, no-store",
         ...(settings.multilingual
@@ -95,7 +103,7 @@ export function requireRouteLocale(
       : settings.defaultLocale;
     if (locale === DEFAULT_LOCALE) return locale;
 
-    throw redirect(`${localizedPath(locale, url.pathname)}${url.search}`, {
+    throw redirect(`${localizedPath(locale, url.pathname, locales)}${url.search}`, {
       headers: {
         "Cache-Control": "private, no-store",
         ...(settings.multilingual
@@ -108,14 +116,14 @@ export function requireRouteLocale(
     });
   }
 
-  if (!isLocale(value)) {
+  if (!isLocale(value) || !locales.includes(value)) {
     throw new Response("Not Found", { status: 404 });
   }
 
   // /en and /en/* are legacy aliases. English now owns the clean URL.
   if (value === DEFAULT_LOCALE) {
     const locale = settings.multilingual ? DEFAULT_LOCALE : settings.defaultLocale;
-    throw redirect(`${localizedPath(locale, url.pathname)}${url.search}`, {
+    throw redirect(`${localizedPath(locale, url.pathname, locales)}${url.search}`, {
       status: 301,
       headers: {
         "Cache-Control": "private, no-store",
@@ -128,7 +136,7 @@ export function requireRouteLocale(
 
   if (!settings.multilingual && value !== settings.defaultLocale) {
     throw redirect(
-      `${localizedPath(settings.defaultLocale, url.pathname)}${url.search}`,
+      `${localizedPath(settings.defaultLocale, url.pathname, locales)}${url.search}`,
       { status: 302, headers: { "Cache-Control": "private, no-store" } },
     );
   }
@@ -198,11 +206,12 @@ export function localizedAlternates(
   locale: Locale,
   unlocalizedPathname?: string,
   settings: SiteLanguageSettings = DEFAULT_SITE_LANGUAGE_SETTINGS,
-): { canonical: string; es?: string; en?: string; xDefault?: string } {
+): LocalizedAlternates {
   const url = externalRequestUrl(request);
   const pathname = unlocalizedPathname || url.pathname;
+  const locales = siteLocales(settings);
   const defaultUrl = new URL(
-    localizedPath(settings.defaultLocale, pathname),
+    localizedPath(settings.defaultLocale, pathname, locales),
     url.origin,
   ).toString();
 
@@ -210,14 +219,12 @@ export function localizedAlternates(
     return { canonical: defaultUrl };
   }
 
-  const es = new URL(localizedPath("es", pathname), url.origin).toString();
-  const en = new URL(localizedPath("en", pathname), url.origin).toString();
-  const xDefault = new URL(stripLocaleFromPathname(pathname), url.origin).toString();
+  const alternates: LocalizedAlternates = { canonical: defaultUrl };
+  for (const edition of locales) {
+    alternates[edition] = new URL(localizedPath(edition, pathname, locales), url.origin).toString();
+  }
+  alternates.canonical = alternates[locale] || defaultUrl;
+  alternates.xDefault = new URL(stripLocaleFromPathname(pathname, locales), url.origin).toString();
 
-  return {
-    canonical: locale === "es" ? es : en,
-    es,
-    en,
-    xDefault,
-  };
+  return alternates;
 }
@@ -1,8 +1,15 @@
-export const SUPPORTED_LOCALES = ["es", "en"] as const;
+/**
+ * A language edition, identified by its ISO 639-1 code ("es", "fr", "ca").
+ * The editions a site publishes come from `language.locales` in site.yaml;
+ * these helpers only validate the code format so they work on the client too.
+ */
+export type Locale = string;
 
-export type Locale = (typeof SUPPORTED_LOCALES)[number];
+/** Editions published when site.yaml does not list `language.locales`. */
+export const DEFAULT_LOCALES: readonly Locale[] = ["es", "en"];
 
-// English is the canonical, unprefixed public edition. Spanish uses /es.
+// English is the canonical, unprefixed public edition. Other editions use
+// a /<locale> prefix.
 export const DEFAULT_LOCALE: Locale = "en";
 export const LOCALE_COOKIE = "victoriano_locale";
 export const LOCALE_QUERY_PARAMETER = "lang";
@@ -10,8 +17,28 @@ export const LOCALE_QUERY_PARAMETER = "lang";
 export const localeNames: Record<Locale, string> = {
   es: "Español",
   en: "English",
+  fr: "Français",
+  de: "Deutsch",
+  ca: "Català",
+  it: "Italiano",
+  pt: "Português",
+  eu: "Euskara",
+  gl: "Galego",
+  nl: "Nederlands",
 };
 
+/** Native name of a language edition, falling back to the uppercase code. */
+export function localeName(locale: Locale): string {
+  return localeNames[locale] || locale.toUpperCase();
+}
+
+/** BCP 47 tag used for date formatting in an edition. */
+export function dateLocale(locale: Locale): string {
+  if (locale === "es") return "es-ES";
+  if (locale === "en") return "en-US";
+  return locale;
+}
+
 export type LocalizedText = {
   title?: string;
   description?: string;
@@ -20,6 +47,29 @@ export type LocalizedText = {
 
 export type TranslationMap<T> = Partial<Record<Locale, T>>;
 
+/**
+ * Canonical URL plus one absolute URL per published edition, keyed by locale.
+ */
+export type LocalizedAlternates = {
+  canonical: string;
+  xDefault?: string;
+  [locale: Locale]: string | undefined;
+};
+
+/**
+ * hreflang `<link>` descriptors for a route `meta` export.
+ */
+export function hreflangLinks(alternates: LocalizedAlternates | undefined) {
+  return Object.entries(alternates || {})
+    .filter((entry): entry is [Locale, string] => isLocale(entry[0]) && Boolean(entry[1]))
+    .map(([locale, href]) => ({
+      tagName: "link" as const,
+      rel: "alternate",
+      hrefLang: locale,
+      href,
+    }));
+}
+
 export type TranslationResolution<T> = {
   value: T;
   requestedLocale: Locale;
@@ -28,8 +78,93 @@ export type TranslationResolution<T> = {
   isFallback: boolean;
 };
 
+const LOCALE_PATTERN = /^[a-z]{2}$/;
+
+/**
+ * Whether a value is shaped like a locale code. This validates site.yaml and
+ * stored records; URL handling only accepts the published editions.
+ */
 export function isLocale(value: unknown): value is Locale {
-  return value === "es" || value === "en";
+  return typeof value === "string" && LOCALE_PATTERN.test(value);
+}
+
+/**
+ * Only the editions a site publishes are read as a /<locale> path prefix;
+ * any other two-letter segment (`/cv`, `/ai`) stays a regular path.
+ */
+function isPathLocale(value: unknown, locales: readonly Locale[]): value is Locale {
+  return isLocale(value) && locales.includes(value);
+}
+
+/**
+ * Normalize and de-duplicate a configured locale list, keeping its order.
+ */
+export function normalizeLocaleList(value: unknown): Locale[] {
+  if (!Array.isArray(value)) return [];
+  const locales: Locale[] = [];
+  for (const item of value) {
+    const locale = normalizeLocale(item);
+    if (locale && !locales.includes(locale)) locales.push(locale);
+  }
+  return locales;
+}
+
+/**
+ * Editions a site publishes: the configured `language.locales` list (or the
+ * default Spanish and English editions), always including the default locale.
+ */
+export function siteLocales(settings?: {
+  defaultLocale?: Locale;
+  locales?: readonly Locale[];
+}): Locale[] {
+  const configured = settings?.locales?.length ? [...settings.locales] : [...DEFAULT_LOCALES];
+  if (settings?.defaultLocale && !configured.includes(settings.defaultLocale)) {
+    configured.unshift(settings.defaultLocale);
+  }
+  return configured;
+}
+
+/**
+ * Editions an editor shows for one record: the published editions, plus the
+ * record's source locale when it was written in a language no longer listed.
+ */
+export function editableLocales(sourceLocale: Locale, locales: readonly Locale[]): Locale[] {
+  return locales.includes(sourceLocale) ? [...locales] : [sourceLocale, ...locales];
+}
+
+/**
+ * Locales with at least one `<field>_<locale>` entry in a submitted form, in
+ * submission order. Editors post every edition they show, so admin actions
+ * only touch the editions that were actually on screen.
+ */
+export function submittedLocales(formData: FormData, fields: readonly string[]): Locale[] {
+  const locales: Locale[] = [];
+  for (const key of formData.keys()) {
+    const match = key.match(/^([a-z]+)_([a-z]{2})$/);
+    if (!match || !fields.includes(match[1])) continue;
+    if (!locales.includes(match[2])) locales.push(match[2]);
+  }
+  return locales;
+}
+
+/**
+ * Copy of a submitted form reduced to its translated editions: drops the
+ * source edition's `<field>_<locale>` entries and every unlocalized field not
+ * listed in `keep`. Used for accounts that may translate but not edit.
+ */
+export function translatedEditionsOnly(
+  formData: FormData,
+  sourceLocale: Locale,
+  keep: readonly string[],
+): FormData {
+  const filtered = new FormData();
+  for (const [key, value] of formData.entries()) {
+    const localized = key.match(/^[a-zA-Z]+_([a-z]{2})$/);
+    if (localized ? localized[1] !== sourceLocale : keep.includes(key)) {
+      filtered.append(key, value);
+    }
+  }
+  return filtered;
 }
 
 export function normalizeLocale(value: unknown): Locale | null {
@@ -38,22 +173,33 @@ export function normalizeLocale(value: unknown): Locale | null {
   return isLocale(language) ? language : null;
 }
 
-export function localeFromPathname(pathname: string): Locale | null {
+/** The published edition a path is prefixed with, if any. */
+export function localeFromPathname(pathname: string, locales: readonly Locale[]): Locale | null {
   const firstSegment = pathname.split("/").filter(Boolean)[0];
-  return normalizeLocale(firstSegment);
+  const locale = normalizeLocale(firstSegment);
+  return isPathLocale(locale, locales) ? locale : null;
 }
 
-export function stripLocaleFromPathname(pathname: string): string {
+export function stripLocaleFromPathname(pathname: string, locales: readonly Locale[]): string {
   const normalized = pathname.startsWith("/") ? pathname : `/${pathname}`;
   const segments = normalized.split("/");
-  if (isLocale(segments[1])) segments.splice(1, 1);
+  if (isPathLocale(segments[1], locales)) segments.splice(1, 1);
   const result = segments.join("/");
   return result === "" ? "/" : result;
 }
 
-export function localizedPath(locale: Locale, pathname: string): string {
+/**
+ * A path in the given edition. Paths built by the app carry no prefix; pass
+ * the published `locales` when `pathname` may already have one, such as the
+ * path of the current request.
+ */
+export function localizedPath(
+  locale: Locale,
+  pathname: string,
+  locales: readonly Locale[] = [],
+): string {
   const [pathOnly, suffix = ""] = pathname.split(/(?=[?#])/, 2);
-  const unprefixed = stripLocaleFromPathname(pathOnly || "/");
+  const unprefixed = stripLocaleFromPathname(pathOnly || "/", locales);
   const localized = locale === DEFAULT_LOCALE
     ? unprefixed
     : unprefixed === "/" ? `/${locale}` : `/${locale}${unprefixed}`;
@@ -62,15 +208,22 @@ export function localizedPath(locale: Locale, pathname: string): string {
 
 /**
  * Build a manual language-switch URL. The transient query flag lets someone
- * leave /es even when their existing preference cookie still says Spanish;
- * the server consumes it, updates the cookie, and redirects to the clean URL.
+ * leave a prefixed edition such as /es even when their existing preference
+ * cookie still names it; the server consumes it, updates the cookie, and
+ * redirects to the clean URL.
  */
-export function languageSwitchPath(locale: Locale, pathname: string): string {
-  const localized = localizedPath(locale, pathname);
+export function languageSwitchPath(
+  locale: Locale,
+  pathname: string,
+  locales: readonly Locale[],
+): string {
+  const localized = localizedPath(locale, pathname, locales);
   const currentPath = pathname.split(/(?=[?#])/, 1)[0] || "/";
+  const currentLocale = localeFromPathname(currentPath, locales);
   if (
     locale !== DEFAULT_LOCALE ||
-    localeFromPathname(currentPath) !== "es"
+    !currentLocale ||
+    currentLocale === DEFAULT_LOCALE
   ) return localized;
 
   const url = new URL(localized, "https://victopress.local");
@@ -78,15 +231,17 @@ export function languageSwitchPath(locale: Locale, pathname: string): string {
   return `${url.pathname}${url.search}${url.hash}`;
 }
 
-export function alternateLocale(locale: Locale): Locale {
-  return locale === "es" ? "en" : "es";
-}
-
 export function availableTranslationLocales<T>(
   sourceLocale: Locale,
   translations?: TranslationMap<T>,
+  locales: readonly Locale[] = DEFAULT_LOCALES,
 ): Locale[] {
-  return SUPPORTED_LOCALES.filter(
+  const candidates = [
+    ...locales,
+    ...Object.keys(translations || {}).filter((locale) => !locales.includes(locale)),
+  ];
+  if (!candidates.includes(sourceLocale)) candidates.push(sourceLocale);
+  return candidates.filter(
     (locale) => locale === sourceLocale || Boolean(translations?.[locale]),
   );
 }
@@ -111,7 +266,15 @@ export function resolveTranslation<T>(
   };
 }
 
-export function parseAcceptLanguage(value: string | null): Locale | null {
+/**
+ * Pick the preferred language from an Accept-Language header, skipping
+ * languages outside `allowed` (the default Spanish and English editions
+ * unless the caller passes the site's configured list).
+ */
+export function parseAcceptLanguage(
+  value: string | null,
+  allowed: readonly Locale[] = DEFAULT_LOCALES,
+): Locale | null {
   if (!value) return null;
 
   const candidates = value
@@ -131,7 +294,9 @@ export function parseAcceptLanguage(value: string | null): Locale | null {
       };
     })
     .filter((candidate): candidate is { locale: Locale; quality: number; index: number } =>
-      Boolean(candidate.locale) && candidate.quality > 0,
+      Boolean(candidate.locale) &&
+      candidate.quality > 0 &&
+      allowed.includes(candidate.locale as Locale),
     )
     .sort((left, right) => right.quality - left.quality || left.index - right.index);
 
@@ -186,6 +351,10 @@ export const photoMessages = {
     verifying: "Comprobando…",
     enterGallery: "Entrar en la galería",
     backHome: "Volver al inicio",
+    shareLinkUnavailable: "Este enlace ha caducado o ya no está activo. Pide uno nuevo o introduce la contraseña.",
+    downloadOriginal: "Descargar original",
+    downloadPhoto: "Descargar",
+    downloadAll: "Descargar todo (ZIP)",
     pagination: "Paginación",
     previousPage: "Página anterior",
     nextPage: "Página siguiente",
@@ -215,6 +384,13 @@ export const photoMessages = {
     allDetectedElements: "Todos",
     showAllFilters: "Ver más",
     hideFilters: "Ver menos",
+    refineResults: "Afinar resultados",
+    clearFilters: "Quitar filtros",
+    facetYear: "Año",
+    facetCamera: "Cámara",
+    facetLens: "Objetivo",
+    facetCountry: "País",
+    facetCity: "Ciudad",
     graphView: "Grafo",
     gridView: "Cuadrícula",
     exploreLoadingMap: "Construyendo el mapa visual…",
@@ -229,6 +405,37 @@ export const photoMessages = {
     selectGraphPhoto: "Selecciona un punto",
     selectGraphPhotoHint: "Aquí aparecerán la fotografía, su descripción y los elementos detectados.",
     showMorePhotos: "Mostrar más fotografías",
+    map: "Mapa",
+    mapTitle: "Mapa de fotografías",
+    mapDescription: "Las fotografías geolocalizadas del archivo. Algunas galerías solo muestran una ubicación aproximada.",
+    mapMetaDescription: "Recorre en un mapa los lugares donde se tomaron las fotografías del archivo.",
+    mapAriaLabel: "Mapa de {count} fotografías geolocalizadas",
+    mapInstructions: "Desplaza o usa +/− para hacer zoom · arrastra para moverte",
+    mapNoPhotos: "Todavía no hay fotografías geolocalizadas.",
+    mapApproximate: "Ubicación aproximada",
+    mapClusterPhotos: "{count} fotografías",
+    photosView: "Fotos",
+    timeline: "Cronología",
+    timelineTitle: "Cronología",
+    timelineDescription: "El archivo ordenado por la fecha en que se tomó cada fotografía.",
+    timelineMetaDescription: "Recorre el archivo fotográfico por año, mes y día de captura.",
+    timelinePhotoCount: "{count} fotografías",
+    timelineOnThisDay: "Tal día como hoy",
+    timelineYearsAgo: "Hace {count} años",
+    timelineNoPhotos: "Todavía no hay fotografías con fecha de captura.",
+    equipmentStats: "Cámaras y objetivos",
+    equipmentStatsDescription: "Con qué se tomaron las fotografías del archivo, según sus datos EXIF.",
+    equipmentStatsMetaDescription: "Cámaras, objetivos, distancias focales y exposiciones usadas en el archivo fotográfico.",
+    equipmentPhotosWithExif: "{count} de {total} fotografías tienen datos de cámara.",
+    equipmentCameras: "Cámaras",
+    equipmentLenses: "Objetivos",
+    equipmentFocalLengths: "Distancia focal",
+    equipmentApertures: "Diafragmas más usados",
+    equipmentIsos: "ISO más usados",
+    equipmentShutterSpeeds: "Velocidades más usadas",
+    equipmentUndated: "Sin fecha",
+    equipmentShowAll: "Ver todas las estadísticas",
+    equipmentNoData: "Todavía no hay fotografías con datos de cámara.",
   },
   en: {
     search: "Search",
@@ -277,6 +484,10 @@ export const photoMessages = {
     verifying: "Verifying…",
     enterGallery: "Enter gallery",
     backHome: "Back to home",
+    shareLinkUnavailable: "This link has expired or is no longer active. Ask for a new one or enter the password.",
+    downloadOriginal: "Download original",
+    downloadPhoto: "Download",
+    downloadAll: "Download all (ZIP)",
     pagination: "Pagination",
     previousPage: "Previous page",
     nextPage: "Next page",
@@ -306,6 +517,13 @@ export const photoMessages = {
     allDetectedElements: "All",
     showAllFilters: "Show more",
     hideFilters: "Show less",
+    refineResults: "Refine results",
+    clearFilters: "Clear filters",
+    facetYear: "Year",
+    facetCamera: "Camera",
+    facetLens: "Lens",
+    facetCountry: "Country",
+    facetCity: "City",
     graphView: "Graph",
     gridView: "Grid",
     exploreLoadingMap: "Building the visual map…",
@@ -320,5 +538,45 @@ export const photoMessages = {
     selectGraphPhoto: "Select a point",
     selectGraphPhotoHint: "The photograph, its description and detected elements will appear here.",
     showMorePhotos: "Show more photographs",
+    map: "Map",
+    mapTitle: "Photo map",
+    mapDescription: "The geotagged photographs of the archive. Some galleries only show an approximate location.",
+    mapMetaDescription: "Browse on a map the places where the photographs in the archive were taken.",
+    mapAriaLabel: "Map of {count} geotagged photographs",
+    mapInstructions: "Scroll or use +/− to zoom · drag to pan",
+    mapNoPhotos: "There are no geotagged photographs yet.",
+    mapApproximate: "Approximate location",
+    mapClusterPhotos: "{count} photographs",
+    photosView: "Photos",
+    timeline: "Timeline",
+    timelineTitle: "Timeline",
+    timelineDescription: "The archive arranged by the date each photograph was taken.",
+    timelineMetaDescription: "Browse the photography archive by year, month and day of capture.",
+    timelinePhotoCount: "{count} photographs",
+    timelineOnThisDay: "On this day",
+    timelineYearsAgo: "{count} years ago",
+    timelineNoPhotos: "There are no photographs with a capture date yet.",
+    equipmentStats: "Cameras & lenses",
+    equipmentStatsDescription: "What the photographs in the archive were taken with, according to their EXIF data.",
+    equipmentStatsMetaDescription: "Cameras, lenses, focal lengths and exposures used across the photography archive.",
+    equipmentPhotosWithExif: "{count} of {total} photographs have camera data.",
+    equipmentCameras: "Cameras",
+    equipmentLenses: "Lenses",
+    equipmentFocalLengths: "Focal length",
+    equipmentApertures: "Most used apertures",
+    equipmentIsos: "Most used ISO",
+    equipmentShutterSpeeds: "Most used shutter speeds",
+    equipmentUndated: "Undated",
+    equipmentShowAll: "Back to all statistics",
+    equipmentNoData: "There are no photographs with camera data yet.",
   },
 } as const;
+
+export type PhotoMessages = { [Key in keyof typeof photoMessages.en]: string };
+
+/**
+ * Interface strings for an edition. Editions without a bundle use English.
+ */
+export function photoMessagesFor(locale: Locale): PhotoMessages {
+  return (photoMessages as Record<Locale, PhotoMessages>)[locale] || photoMessages.en;
+}
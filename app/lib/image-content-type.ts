@@ -6,8 +6,23 @@ const CONTENT_TYPES_BY_EXTENSION: Record<string, string> = {
   webp: "image/webp",
   avif: "image/avif",
   svg: "image/svg+xml",
+  heic: "image/heic",
+  heif: "image/heif",
+  dng: "image/x-adobe-dng",
+  raf: "image/x-fuji-raf",
+  cr2: "image/x-canon-cr2",
+  cr3: "image/x-canon-cr3",
+  nef: "image/x-nikon-nef",
+  arw: "image/x-sony-arw",
+  orf: "image/x-olympus-orf",
+  rw2: "image/x-panasonic-rw2",
+  pef: "image/x-pentax-pef",
+  srw: "image/x-samsung-srw",
 };
 
+const HEIC_BRANDS = ["heic", "heix", "heim", "heis", "hevc", "hevx"];
+const HEIF_BRANDS = ["mif1", "msf1"];
+
 function hasAscii(bytes: Uint8Array, offset: number, value: string): boolean {
   if (bytes.length < offset + value.length) return false;
 
@@ -37,6 +52,13 @@ function isAvif(bytes: Uint8Array): boolean {
   return false;
 }
 
+function heifContentType(bytes: Uint8Array): string | null {
+  if (!hasAscii(bytes, 4, "ftyp")) return null;
+  if (HEIC_BRANDS.some((brand) => hasAscii(bytes, 8, brand))) return "image/heic";
+  if (HEIF_BRANDS.some((brand) => hasAscii(bytes, 8, brand))) return "image/heif";
+  return null;
+}
+
 function isSvg(bytes: Uint8Array): boolean {
   const head = new TextDecoder().decode(bytes.subarray(0, 1024));
   return /^\uFEFF?\s*(?:<\?xml[\s\S]*?\?>\s*)?(?:<!--[\s\S]*?-->\s*)*<svg(?:\s|>)/i.test(head);
@@ -60,6 +82,8 @@ export function detectImageContentType(buffer: ArrayBuffer, filename: string): s
     return "image/webp";
   }
   if (isAvif(bytes)) return "image/avif";
+  const heif = heifContentType(bytes);
+  if (heif) return heif;
   if (isSvg(bytes)) return "image/svg+xml";
 
   const extension = filename.toLowerCase().split(".").pop() || "";
@@ -1,7 +1,26 @@
 import type { FileInfo, StorageAdapter } from "~/lib/content-engine";
+import {
+  CAMERA_RAW_EXTENSIONS,
+  HEIF_EXTENSIONS,
+  extractEmbeddedJpegPreview,
+  getPhotoRenditionStorageKey,
+  isCameraRawFile,
+  readPhotoRendition,
+  servesPhotoRendition,
+} from "~/lib/content-engine/photo-renditions";
 
 const VARIANT_PATH_PATTERN = /^(.*)_\d+w\.webp$/i;
-const SOURCE_EXTENSIONS = ["jpg", "jpeg", "png", "webp", "avif", "gif", "svg"] as const;
+const SOURCE_EXTENSIONS = [
+  "jpg",
+  "jpeg",
+  "png",
+  "webp",
+  "avif",
+  "gif",
+  "svg",
+  ...HEIF_EXTENSIONS,
+  ...CAMERA_RAW_EXTENSIONS,
+] as const;
 
 export interface ResolvedImageAsset {
   buffer: ArrayBuffer;
@@ -101,3 +120,47 @@ export async function resolveImageAsset(
     usedOriginalFallback: true,
   };
 }
+
+
+/**
+ * Resolve an image request for display. HEIC and RAW originals are answered
+ * with their stored JPEG rendition; a RAW file without one has its embedded
+ * preview cut out per request and, like a variant fallback, is not cached.
+ * Downloads keep using {@link resolveImageAsset} to get the original.
+ */
+export async function resolveDisplayImageAsset(
+  storage: Pick<StorageAdapter, "get" | "list">,
+  requestedPath: string,
+  sourceExtensionHint: string | null,
+): Promise<ResolvedImageAsset | null> {
+  // Check the rendition first so a large RAW original is not read for nothing
+  if (servesPhotoRendition(requestedPath)) {
+    const rendition = await readPhotoRendition(storage, requestedPath);
+    if (rendition) {
+      return {
+        buffer: rendition,
+        path: getPhotoRenditionStorageKey(requestedPath),
+        usedOriginalFallback: false,
+      };
+    }
+  }
+
+  const asset = await resolveImageAsset(storage, requestedPath, sourceExtensionHint);
+  if (!asset || !servesPhotoRendition(asset.path)) return asset;
+
+  const renditionPath = getPhotoRenditionStorageKey(asset.path);
+  if (asset.path !== requestedPath) {
+    const rendition = await readPhotoRendition(storage, asset.path);
+    if (rendition) {
+      return { buffer: rendition, path: renditionPath, usedOriginalFallback: true };
+    }
+  }
+
+  const preview = isCameraRawFile(asset.path) ? extractEmbeddedJpegPreview(asset.buffer) : null;
+  if (preview) {
+    return { buffer: preview, path: renditionPath, usedOriginalFallback: true };
+  }
+
+  // Without a rendition a HEIC original is all there is (Safari can show it)
+  return asset;
+}
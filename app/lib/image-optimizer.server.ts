@@ -10,9 +10,24 @@
  * When running `bun run dev` (Vite dev server), image optimization is skipped
  * because the WASM module can't load outside Workers runtime.
  * 
- * Generates WebP variants at multiple sizes for responsive images.
+ * Generates WebP variants at multiple sizes for responsive images, stamping
+ * the site or gallery watermark on variants wide enough to carry it.
  */
 
+import {
+  fadeWatermarkPixels,
+  watermarkAppliesToWidth,
+  watermarkLogoWidth,
+  watermarkPlacement,
+  watermarkTextBox,
+} from "~/lib/content-engine/watermark";
+import type { WatermarkStamp } from "~/lib/watermark.server";
+import {
+  DIFFERENCE_HASH_HEIGHT,
+  DIFFERENCE_HASH_WIDTH,
+  differenceHashFromPixels,
+} from "~/lib/ai/duplicate-detection";
+
 // Standard widths for responsive images
 // Optimized for 5K displays and Retina MacBooks:
 // - 800w: mobile, thumbnails, small screens
@@ -26,6 +41,8 @@ export interface ImageVariant {
   data: Uint8Array;
   filename: string;
   size: number;
+  /** Whether the watermark was stamped on this variant. */
+  watermarked: boolean;
 }
 
 export interface ProcessedImageResult {
@@ -71,20 +88,20 @@ export function isImageFile(filename: string): boolean {
   return ["jpg", "jpeg", "png", "webp", "gif"].includes(ext || "");
 }
 
-// Cached photon module
-let photonModule: {
+interface PhotonModule {
   PhotonImage: any;
   resize: any;
   SamplingFilter: any;
-} | null = null;
+  watermark: any;
+  draw_text_with_border: any;
+}
+
+// Cached photon module
+let photonModule: PhotonModule | null = null;
 let photonLoadAttempted = false;
 
 // Load photon - works in Workers runtime (wrangler pages dev or production)
-async function loadPhoton(): Promise<{
-  PhotonImage: any;
-  resize: any;
-  SamplingFilter: any;
-} | null> {
+async function loadPhoton(): Promise<PhotonModule | null> {
   // Return cached module if already loaded
   if (photonModule) return photonModule;
   if (photonLoadAttempted) return null;
@@ -99,6 +116,8 @@ async function loadPhoton(): Promise<{
       PhotonImage: mod.PhotonImage,
       resize: mod.resize,
       SamplingFilter: mod.SamplingFilter,
+      watermark: mod.watermark,
+      draw_text_with_border: mod.draw_text_with_border,
     };
     console.log("[Image Optimizer] ✅ @cf-wasm/photon loaded successfully");
     return photonModule;
@@ -112,16 +131,75 @@ async function loadPhoton(): Promise<{
   }
 }
 
+/**
+ * Build the mark for an image of the given width, faded to the configured
+ * opacity. Text is drawn white with a dark border so it reads on any photo.
+ */
+function createWatermarkImage(photon: PhotonModule, stamp: WatermarkStamp, imageWidth: number): any {
+  const { PhotonImage, resize, SamplingFilter } = photon;
+  const { settings } = stamp;
+  let mark: any;
+
+  if (stamp.logo) {
+    const logo = PhotonImage.new_from_byteslice(stamp.logo);
+    const width = watermarkLogoWidth(settings, imageWidth);
+    const height = Math.max(1, Math.round((logo.get_height() * width) / logo.get_width()));
+    mark = resize(logo, width, height, SamplingFilter.Lanczos3);
+    logo.free();
+  } else if (settings.text) {
+    const box = watermarkTextBox(settings, imageWidth);
+    mark = new PhotonImage(new Uint8Array(box.width * box.height * 4), box.width, box.height);
+    photon.draw_text_with_border(mark, settings.text, 0, 0, box.fontSize);
+  } else {
+    return null;
+  }
+
+  const faded = new PhotonImage(
+    fadeWatermarkPixels(mark.get_raw_pixels(), settings.opacity),
+    mark.get_width(),
+    mark.get_height(),
+  );
+  mark.free();
+  return faded;
+}
+
+/**
+ * Stamp the watermark onto a resized image in place. Returns false when the
+ * image is narrower than the mark's minimum width or the mark is unusable.
+ */
+function stampWatermark(photon: PhotonModule, image: any, stamp: WatermarkStamp | null | undefined): boolean {
+  const width = image.get_width();
+  if (!stamp || !watermarkAppliesToWidth(stamp.settings, width)) return false;
+
+  try {
+    const mark = createWatermarkImage(photon, stamp, width);
+    if (!mark) return false;
+    const { x, y } = watermarkPlacement(
+      { width, height: image.get_height() },
+      { width: mark.get_width(), height: mark.get_height() },
+      stamp.settings.position,
+    );
+    photon.watermark(image, mark, BigInt(x), BigInt(y));
+    mark.free();
+    return true;
+  } catch (error) {
+    console.error("[Image Optimizer] Could not stamp watermark:", error);
+    return false;
+  }
+}
+
 /**
  * Process an image and generate WebP variants
  * 
  * @param imageData - Raw image bytes (ArrayBuffer or Uint8Array)
  * @param filename - Original filename (for naming variants)
+ * @param watermark - Mark for this image's gallery, if any
  * @returns Processed result with variants
  */
 export async function processImageServer(
   imageData: ArrayBuffer | Uint8Array,
-  filename: string
+  filename: string,
+  watermark?: WatermarkStamp | null
 ): Promise<ProcessedImageResult> {
   const photon = await loadPhoton();
   
@@ -170,6 +248,8 @@ export async function processImageServer(
       // Free the source image (no longer needed)
       sourceImage.free();
       
+      const watermarked = stampWatermark(photon, resizedImage, watermark);
+      
       // Convert resized image to WebP
       const webpData = resizedImage.get_bytes_webp();
       
@@ -184,6 +264,7 @@ export async function processImageServer(
         data: webpData,
         filename: variantFilename,
         size: webpData.length,
+        watermarked,
       });
     }
     
@@ -215,7 +296,8 @@ export async function processImageServer(
 export async function generateVariant(
   imageData: ArrayBuffer | Uint8Array,
   targetWidth: number,
-  _quality: number = WEBP_QUALITY
+  _quality: number = WEBP_QUALITY,
+  watermark?: WatermarkStamp | null
 ): Promise<Uint8Array | null> {
   const photon = await loadPhoton();
   
@@ -250,6 +332,8 @@ export async function generateVariant(
     // Free original
     image.free();
     
+    stampWatermark(photon, resizedImage, watermark);
+    
     // Convert to WebP
     const webpData = resizedImage.get_bytes_webp();
     
@@ -263,6 +347,71 @@ export async function generateVariant(
   }
 }
 
+/**
+ * Stamp a variant generated elsewhere (the browser upload path) so it matches
+ * server-generated ones. Returns null when nothing was stamped: no Photon,
+ * no mark, or a variant narrower than the mark's minimum width.
+ */
+export async function stampVariantServer(
+  variantData: ArrayBuffer | Uint8Array,
+  watermark: WatermarkStamp
+): Promise<Uint8Array | null> {
+  const photon = await loadPhoton();
+  
+  if (!photon) {
+    return null;
+  }
+  
+  try {
+    const bytes = variantData instanceof ArrayBuffer 
+      ? new Uint8Array(variantData) 
+      : variantData;
+    
+    const image = photon.PhotonImage.new_from_byteslice(bytes);
+    const stamped = stampWatermark(photon, image, watermark);
+    const webpData = stamped ? image.get_bytes_webp() : null;
+    image.free();
+    
+    return webpData;
+  } catch (error) {
+    console.error("[Image Optimizer] Error stamping variant:", error);
+    return null;
+  }
+}
+
+/**
+ * Perceptual difference hash of an image, used to find near-duplicate frames.
+ * Returns null outside the Workers runtime or when the image cannot be decoded.
+ */
+export async function computeImageDifferenceHash(
+  imageData: ArrayBuffer | Uint8Array
+): Promise<string | null> {
+  const photon = await loadPhoton();
+  
+  if (!photon) {
+    return null;
+  }
+  
+  try {
+    const { PhotonImage, resize, SamplingFilter } = photon;
+    
+    const bytes = imageData instanceof ArrayBuffer 
+      ? new Uint8Array(imageData) 
+      : imageData;
+    
+    const image = PhotonImage.new_from_byteslice(bytes);
+    const thumbnail = resize(image, DIFFERENCE_HASH_WIDTH, DIFFERENCE_HASH_HEIGHT, SamplingFilter.Triangle);
+    image.free();
+    const hash = differenceHashFromPixels(thumbnail.get_raw_pixels());
+    thumbnail.free();
+    
+    return hash;
+  } catch (error) {
+    console.error("[Image Optimizer] Error hashing image:", error);
+    return null;
+  }
+}
+
 /**
  * Get image dimensions without full processing
  */
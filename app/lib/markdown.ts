@@ -54,6 +54,8 @@ export interface MarkdownRenderOptions {
   linkBaseUrl?: string;
   /** Set to null to omit the cache version query parameter. */
   imageCacheVersion?: string | null;
+  /** Alt text for images written without one, by `markdownImageStoragePath`. */
+  imageAltText?: (storagePath: string) => string | undefined;
 }
 
 export function escapeHtml(value: string): string {
@@ -124,6 +126,28 @@ export function resolveMarkdownImageUrl(
   return imageOrigin ? `${imageOrigin}${resolved}` : resolved;
 }
 
+/**
+ * Storage path of a VictoPress-owned image reference (`galleries/a/b.jpg`,
+ * `./galleries/...` or `/api/images/galleries/...`); null for external URLs.
+ */
+export function markdownImageStoragePath(value: string): string | null {
+  const safe = safeUrl(value, ALLOWED_IMAGE_PROTOCOLS);
+  if (!safe || /^https?:/i.test(safe)) return null;
+
+  const path = safe.split(/[?#]/, 1)[0];
+  const relative = path.startsWith("/api/images/")
+    ? path.slice("/api/images/".length)
+    : path.startsWith("/")
+      ? null
+      : path.replace(/^\.\//, "");
+  if (!relative) return null;
+  try {
+    return decodeURIComponent(relative);
+  } catch {
+    return relative;
+  }
+}
+
 export function resolveMarkdownLinkUrl(
   value: string,
   options: MarkdownRenderOptions = {},
@@ -189,12 +213,15 @@ function createRenderer(options: MarkdownRenderOptions): Renderer {
 
   renderer.image = ({ href, title, text }) => {
     const src = resolveMarkdownImageUrl(href, options);
-    const alt = text.trim();
-    if (!src) return alt ? escapeHtml(alt) : "";
+    const authoredAlt = text.trim();
+    if (!src) return authoredAlt ? escapeHtml(authoredAlt) : "";
+    const storagePath = authoredAlt ? null : markdownImageStoragePath(href);
+    const alt = authoredAlt || (storagePath && options.imageAltText?.(storagePath)) || "";
 
     const directives = parseMarkdownImageDirectives(title);
     const galleryColumns = directives.galleryColumns;
-    const isCaptioned = directives.caption && alt.length > 0;
+    // Only the author's own text doubles as a visible caption.
+    const isCaptioned = directives.caption && authoredAlt.length > 0;
     const galleryAttribute = galleryColumns
       ? ` data-gallery-columns="${galleryColumns}"`
       : "";
@@ -205,7 +232,7 @@ function createRenderer(options: MarkdownRenderOptions): Renderer {
       ? ` title="${escapeHtml(directives.htmlTitle)}"`
       : "";
     const caption = isCaptioned
-      ? `<span class="blog-image-caption">${escapeHtml(alt)}</span>`
+      ? `<span class="blog-image-caption">${escapeHtml(authoredAlt)}</span>`
       : "";
 
     return [
@@ -0,0 +1,274 @@
+/**
+ * Newsletter composer
+ *
+ * Renders the Markdown body of a standalone newsletter. Besides regular
+ * Markdown, a line holding only one of these blocks embeds live content:
+ *
+ *   {{gallery:trips}}                    cover photos of a public gallery
+ *   {{photo:galleries/trips/harbour.jpg}} one public photo with its caption
+ *   {{posts:3}}                          digest of the N most recent posts
+ *
+ * Blocks are resolved against the content index when the email is built, so
+ * a preview and the final send show the same thing. Blocks that point at
+ * missing, hidden or private content are reported instead of silently
+ * dropped; sending refuses a body with missing blocks.
+ */
+
+import {
+  getContentIndex,
+  isWithinPublicationWindow,
+  localizeGalleryDataEntry,
+  type BlogPost,
+  type GalleryDataEntry,
+  type GalleryPhotoEntry,
+  type StorageAdapter,
+} from "~/lib/content-engine";
+import {
+  buildHeadlessBlogIndex,
+  type HeadlessBlogConfig,
+} from "~/lib/headless-blog";
+import { loadHeadlessBlogPosts } from "~/lib/headless-blog-storage.server";
+import { dateLocale, localizedPath, type Locale } from "~/lib/i18n";
+import { escapeHtml, renderMarkdown } from "~/lib/markdown";
+
+const BLOCK_PATTERN = /^\{\{\s*(gallery|photo|posts)\s*:\s*([^}]*?)\s*\}\}$/;
+const GALLERY_BLOCK_PHOTOS = 4;
+const MAX_DIGEST_POSTS = 10;
+
+export interface NewsletterComposerSources {
+  galleries: readonly GalleryDataEntry[];
+  posts: readonly BlogPost[];
+  blogConfig: HeadlessBlogConfig;
+}
+
+export interface ComposedNewsletterBody {
+  html: string;
+  text: string;
+  /** Blocks as written (`{{gallery:trips}}`) that could not be resolved. */
+  missingBlocks: string[];
+}
+
+type Segment =
+  | { kind: "markdown"; source: string }
+  | { kind: "gallery" | "photo" | "posts"; source: string; argument: string };
+
+export async function loadNewsletterComposerSources(
+  storage: StorageAdapter,
+  blogConfig: HeadlessBlogConfig,
+): Promise<NewsletterComposerSources> {
+  const [index, posts] = await Promise.all([
+    getContentIndex(storage),
+    loadHeadlessBlogPosts(storage),
+  ]);
+  return { galleries: index.galleryData, posts, blogConfig };
+}
+
+function splitSegments(markdown: string): Segment[] {
+  const segments: Segment[] = [];
+  let buffer: string[] = [];
+  let fenced = false;
+
+  const flush = () => {
+    if (buffer.join("").trim()) segments.push({ kind: "markdown", source: buffer.join("\n") });
+    buffer = [];
+  };
+
+  for (const line of markdown.replace(/\r\n?/g, "\n").split("\n")) {
+    if (/^\s*(```|~~~)/.test(line)) fenced = !fenced;
+    const match = fenced ? null : line.trim().match(BLOCK_PATTERN);
+    if (!match) {
+      buffer.push(line);
+      continue;
+    }
+    flush();
+    segments.push({
+      kind: match[1] as "gallery" | "photo" | "posts",
+      source: line.trim(),
+      argument: match[2],
+    });
+  }
+  flush();
+  return segments;
+}
+
+function isPublicGallery(gallery: GalleryDataEntry, now: Date): boolean {
+  return !gallery.isProtected &&
+    !gallery.password &&
+    !gallery.private &&
+    isWithinPublicationWindow(gallery, now);
+}
+
+function absoluteUrl(baseUrl: string, path: string): string {
+  return new URL(path, `${baseUrl}/`).toString();
+}
+
+function photoImageUrl(baseUrl: string, path: string): string {
+  const encodedPath = path.split("/").map((segment) => encodeURIComponent(segment)).join("/");
+  return absoluteUrl(baseUrl, `/api/images/${encodedPath}`);
+}
+
+function photoPageUrl(
+  baseUrl: string,
+  locale: Locale,
+  gallery: GalleryDataEntry,
+  photo: GalleryPhotoEntry,
+): string {
+  return absoluteUrl(
+    baseUrl,
+    localizedPath(locale, `/photo/${gallery.slug}/${encodeURIComponent(photo.filename)}`),
+  );
+}
+
+function photoFigure(
+  baseUrl: string,
+  locale: Locale,
+  gallery: GalleryDataEntry,
+  photo: GalleryPhotoEntry,
+  caption: boolean,
+): string {
+  const alt = photo.alt || photo.title || photo.filename;
+  const image = `<a href="${escapeHtml(photoPageUrl(baseUrl, locale, gallery, photo))}"><img src="${escapeHtml(photoImageUrl(baseUrl, photo.path))}" alt="${escapeHtml(alt)}" style="display:block;width:100%;max-width:100%;height:auto;border:0;margin:0;"></a>`;
+  if (!caption || (!photo.title && !photo.description)) return image;
+  const parts = [photo.title, photo.description].filter(Boolean) as string[];
+  return `<figure style="margin:24px 0;">${image}<figcaption>${escapeHtml(parts.join(" — "))}</figcaption></figure>`;
+}
+
+function renderGalleryBlock(
+  slug: string,
+  locale: Locale,
+  baseUrl: string,
+  sources: NewsletterComposerSources,
+  now: Date,
+): { html: string; text: string } | null {
+  const source = sources.galleries.find((gallery) => gallery.slug === slug);
+  if (!source || !isPublicGallery(source, now)) return null;
+  const gallery = localizeGalleryDataEntry(source, locale);
+  const photos = gallery.photos.filter((photo) => !photo.hidden).slice(0, GALLERY_BLOCK_PHOTOS);
+  if (photos.length === 0) return null;
+
+  const url = absoluteUrl(baseUrl, localizedPath(locale, `/gallery/${gallery.slug}`));
+  const rows: string[] = [];
+  for (let index = 0; index < photos.length; index += 2) {
+    const cells = photos.slice(index, index + 2).map((photo) =>
+      `<td width="50%" valign="top" style="width:50%;padding:4px;">${photoFigure(baseUrl, locale, gallery, photo, false)}</td>`
+    );
+    if (cells.length === 1) cells.push(`<td width="50%" style="width:50%;padding:4px;"></td>`);
+    rows.push(`<tr>${cells.join("")}</tr>`);
+  }
+  const viewGallery = locale === "es" ? "Ver la galería" : "View the gallery";
+  const description = gallery.description ? `<p>${escapeHtml(gallery.description)}</p>` : "";
+
+  return {
+    html: `<h2><a href="${escapeHtml(url)}" style="text-decoration:none;">${escapeHtml(gallery.title)}</a></h2>
+${description}<table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="width:100%;margin:16px 0;">${rows.join("")}</table>
+<p><a href="${escapeHtml(url)}">${escapeHtml(viewGallery)}</a></p>`,
+    text: `${gallery.title}\n${gallery.description ? `${gallery.description}\n` : ""}${viewGallery}: ${url}`,
+  };
+}
+
+function renderPhotoBlock(
+  path: string,
+  locale: Locale,
+  baseUrl: string,
+  sources: NewsletterComposerSources,
+  now: Date,
+): { html: string; text: string } | null {
+  const normalizedPath = path.replace(/^\/+/, "");
+  // Prefer the gallery that owns the file over galleries that reference it
+  const candidates = sources.galleries
+    .filter((gallery) => isPublicGallery(gallery, now))
+    .flatMap((gallery) =>
+      gallery.photos
+        .filter((photo) => photo.path === normalizedPath && !photo.hidden)
+        .map((photo) => ({ gallery, photo }))
+    )
+    .sort((left, right) => Number(left.photo.isReference === true) - Number(right.photo.isReference === true));
+  if (candidates.length === 0) return null;
+
+  const gallery = localizeGalleryDataEntry(candidates[0].gallery, locale);
+  const photo = gallery.photos.find((candidate) => candidate.path === normalizedPath)!;
+  const url = photoPageUrl(baseUrl, locale, gallery, photo);
+  return {
+    html: photoFigure(baseUrl, locale, gallery, photo, true),
+    text: `${photo.title || photo.filename}${photo.description ? ` — ${photo.description}` : ""}\n${url}`,
+  };
+}
+
+function renderPostsBlock(
+  argument: string,
+  locale: Locale,
+  sources: NewsletterComposerSources,
+): { html: string; text: string } | null {
+  const count = Number.parseInt(argument, 10);
+  if (!Number.isInteger(count) || count < 1 || count > MAX_DIGEST_POSTS) return null;
+  const posts = buildHeadlessBlogIndex(sources.posts, sources.blogConfig, locale).posts
+    .filter((post) => !post.isFallback)
+    .slice(0, count);
+  if (posts.length === 0) return null;
+
+  const items = posts.map((post) => {
+    const date = post.date
+      ? new Date(`${post.date}T12:00:00Z`).toLocaleDateString(dateLocale(locale), {
+          year: "numeric",
+          month: "long",
+          day: "numeric",
+          timeZone: "UTC",
+        })
+      : "";
+    return {
+      html: `<tr><td style="padding:16px 0;border-bottom:1px solid #ececec;">
+  <h3 style="margin:0 0 6px;"><a href="${escapeHtml(post.canonicalUrl)}" style="text-decoration:none;">${escapeHtml(post.title)}</a></h3>
+  ${date ? `<p class="meta" style="margin:0 0 8px;">${escapeHtml(date)}</p>` : ""}
+  ${post.excerpt ? `<p style="margin:0;">${escapeHtml(post.excerpt)}</p>` : ""}
+</td></tr>`,
+      text: `- ${post.title}${date ? ` (${date})` : ""}\n  ${post.canonicalUrl}`,
+    };
+  });
+
+  return {
+    html: `<table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="width:100%;margin:16px 0;">${items.map((item) => item.html).join("")}</table>`,
+    text: items.map((item) => item.text).join("\n"),
+  };
+}
+
+export function composeNewsletterBody(options: {
+  markdown: string;
+  locale: Locale;
+  baseUrl: string;
+  sources: NewsletterComposerSources;
+  now?: Date;
+}): ComposedNewsletterBody {
+  const now = options.now || new Date();
+  const html: string[] = [];
+  const text: string[] = [];
+  const missingBlocks: string[] = [];
+
+  for (const segment of splitSegments(options.markdown)) {
+    if (segment.kind === "markdown") {
+      html.push(renderMarkdown(segment.source, {
+        imageBaseUrl: options.baseUrl,
+        linkBaseUrl: options.baseUrl,
+      }));
+      text.push(segment.source.trim());
+      continue;
+    }
+
+    const rendered = segment.kind === "gallery"
+      ? renderGalleryBlock(segment.argument, options.locale, options.baseUrl, options.sources, now)
+      : segment.kind === "photo"
+        ? renderPhotoBlock(segment.argument, options.locale, options.baseUrl, options.sources, now)
+        : renderPostsBlock(segment.argument, options.locale, options.sources);
+    if (!rendered) {
+      missingBlocks.push(segment.source);
+      continue;
+    }
+    html.push(rendered.html);
+    text.push(rendered.text);
+  }
+
+  return {
+    html: html.join("\n"),
+    text: text.join("\n\n"),
+    missingBlocks,
+  };
+}
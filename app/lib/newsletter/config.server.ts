@@ -13,6 +13,8 @@ export interface NewsletterConfig {
   baseUrl: string;
   publicBlogUrl: string;
   siteName: string;
+  /** Route newsletter links through `/newsletter/click`; off with NEWSLETTER_CLICK_TRACKING=false. */
+  clickTracking: boolean;
 }
 
 function readContextEnvironment(context: unknown): EnvironmentRecord {
@@ -98,6 +100,7 @@ export function resolveNewsletterConfig(
     baseUrl,
     publicBlogUrl,
     siteName,
+    clickTracking: readSetting(env, "NEWSLETTER_CLICK_TRACKING").toLowerCase() !== "false",
   };
 }
 
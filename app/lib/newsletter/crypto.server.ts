@@ -1,4 +1,4 @@
-export type NewsletterTokenPurpose = "confirm" | "unsubscribe" | "open";
+export type NewsletterTokenPurpose = "confirm" | "unsubscribe" | "open" | "click";
 
 export interface NewsletterTokenPayload {
   version: 1;
@@ -61,6 +61,11 @@ async function hmac(value: string, secret: string): Promise<string> {
   return bytesToBase64Url(new Uint8Array(signature));
 }
 
+/** Open and click links are scoped to one campaign; the others are not. */
+function hasCampaign(purpose: NewsletterTokenPurpose): boolean {
+  return purpose === "open" || purpose === "click";
+}
+
 export async function sha256Hex(value: string): Promise<string> {
   const digest = await crypto.subtle.digest(
     "SHA-256",
@@ -69,6 +74,10 @@ export async function sha256Hex(value: string): Promise<string> {
   return bytesToHex(new Uint8Array(digest));
 }
 
+export function randomNewsletterId(): string {
+  return bytesToHex(crypto.getRandomValues(new Uint8Array(32)));
+}
+
 export async function newsletterSubscriberId(email: string): Promise<string> {
   return sha256Hex(email);
 }
@@ -82,9 +91,9 @@ export async function createNewsletterToken(options: {
   expiresInSeconds?: number;
 }): Promise<string> {
   if (
-    (options.purpose === "open" &&
+    (hasCampaign(options.purpose) &&
       !/^[a-f0-9]{64}$/.test(options.campaignId || "")) ||
-    (options.purpose !== "open" && options.campaignId !== undefined)
+    (!hasCampaign(options.purpose) && options.campaignId !== undefined)
   ) {
     throw new Error("Invalid newsletter token context.");
   }
@@ -126,10 +135,10 @@ export async function verifyNewsletterToken(options: {
       payload.purpose !== options.purpose ||
       typeof payload.subscriberId !== "string" ||
       !/^[a-f0-9]{64}$/.test(payload.subscriberId) ||
-      (options.purpose === "open" &&
+      (hasCampaign(options.purpose) &&
         (typeof payload.campaignId !== "string" ||
           !/^[a-f0-9]{64}$/.test(payload.campaignId))) ||
-      (options.purpose !== "open" && payload.campaignId !== undefined) ||
+      (!hasCampaign(options.purpose) && payload.campaignId !== undefined) ||
       (payload.expiresAt !== undefined &&
         (typeof payload.expiresAt !== "number" || payload.expiresAt < now))
     ) {
@@ -11,6 +11,28 @@ function escapeHtml(value: string): string {
     .replace(/'/g, "&#039;");
 }
 
+function unescapeHtml(value: string): string {
+  return value
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&");
+}
+
+/** Points every web link in newsletter content at its click-tracking redirect. */
+function trackLinks(html: string, clickUrl?: (url: string) => string): string {
+  if (!clickUrl) return html;
+  return html.replace(
+    /(<a\b[^>]*?\bhref=)(["'])(.*?)\2/gi,
+    (match, prefix: string, quote: string, href: string) => {
+      const url = unescapeHtml(href.trim());
+      if (!/^https?:\/\//i.test(url)) return match;
+      return `${prefix}${quote}${escapeHtml(clickUrl(url))}${quote}`;
+    },
+  );
+}
+
 function emailShell(options: {
   locale: Locale;
   siteName: string;
@@ -88,6 +110,7 @@ export function buildConfirmationEmail(options: {
   to: string;
   confirmationUrl: string;
   replyTo?: string;
+  clickTracking?: boolean;
 }): ResendEmailMessage {
   const spanish = options.locale === "es";
   const subject = spanish
@@ -97,9 +120,13 @@ export function buildConfirmationEmail(options: {
   const body = spanish
     ? "Haz clic en el botón para recibir por correo los próximos artículos del blog."
     : "Click the button to receive future blog posts by email.";
-  const trackingDisclosure = spanish
-    ? "Los envíos incluyen una medición aproximada de apertura mediante una imagen privada."
-    : "Emails include approximate open detection through a private image.";
+  const trackingDisclosure = options.clickTracking
+    ? spanish
+      ? "Los envíos incluyen una medición aproximada de apertura mediante una imagen privada y cuentan los clics en sus enlaces."
+      : "Emails include approximate open detection through a private image and count clicks on their links."
+    : spanish
+      ? "Los envíos incluyen una medición aproximada de apertura mediante una imagen privada."
+      : "Emails include approximate open detection through a private image.";
   const expiry = spanish
     ? "El enlace caduca dentro de 72 horas."
     : "The link expires in 72 hours.";
@@ -133,6 +160,60 @@ export function buildConfirmationEmail(options: {
   };
 }
 
+/** Footer, one-click unsubscribe headers and tags shared by every newsletter send. */
+function newsletterDelivery(options: {
+  locale: Locale;
+  siteName: string;
+  unsubscribeUrl: string;
+  trackingPixelUrl: string;
+  campaignTag: string;
+  category?: string;
+  clickUrl?: (url: string) => string;
+}): {
+  footerRow: string;
+  footerText: string;
+  headers: Record<string, string>;
+  tags: Array<{ name: string; value: string }>;
+} {
+  const spanish = options.locale === "es";
+  const unsubscribe = spanish ? "Darme de baja" : "Unsubscribe";
+  const reason = spanish
+    ? `Recibes este correo porque te suscribiste al blog de ${options.siteName}.`
+    : `You are receiving this because you subscribed to ${options.siteName}'s blog.`;
+  const trackingDisclosure = [
+    spanish
+      ? "La apertura se detecta de forma aproximada mediante una imagen privada."
+      : "Opens are detected approximately through a private image.",
+    ...(options.clickUrl
+      ? [spanish
+          ? "Los enlaces pasan por una redirección que cuenta los clics."
+          : "Links go through a redirect that counts clicks."]
+      : []),
+  ].join(" ");
+  const unsubscribeUrl = escapeHtml(options.unsubscribeUrl);
+  const trackingPixelUrl = escapeHtml(options.trackingPixelUrl);
+
+  return {
+    footerRow: `<tr>
+        <td class="footer" style="padding:24px 32px;border-top:1px solid #ececec;color:#777;font-size:12px;line-height:1.6;text-align:center;overflow-wrap:anywhere;word-break:break-word;">
+          ${escapeHtml(reason)}<br>
+          ${escapeHtml(trackingDisclosure)}<br>
+          <a href="${unsubscribeUrl}">${escapeHtml(unsubscribe)}</a>
+          <img src="${trackingPixelUrl}" width="1" height="1" alt="" aria-hidden="true" style="display:block;width:1px!important;max-width:1px!important;height:1px!important;margin:0;border:0;overflow:hidden;">
+        </td>
+      </tr>`,
+    footerText: `${reason}\n${trackingDisclosure}\n${unsubscribe}: ${options.unsubscribeUrl}`,
+    headers: {
+      "List-Unsubscribe": `<${options.unsubscribeUrl}>`,
+      "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+    },
+    tags: [
+      { name: "category", value: options.category || "newsletter" },
+      { name: "campaign", value: options.campaignTag },
+    ],
+  };
+}
+
 export function buildNewsletterEmail(options: {
   locale: Locale;
   siteName: string;
@@ -144,16 +225,11 @@ export function buildNewsletterEmail(options: {
   trackingPixelUrl: string;
   replyTo?: string;
   campaignTag: string;
+  /** Tracked URL for a link destination; links stay untouched without it. */
+  clickUrl?: (url: string) => string;
 }): ResendEmailMessage {
   const spanish = options.locale === "es";
   const readOnline = spanish ? "Leer en la web" : "Read on the web";
-  const unsubscribe = spanish ? "Darme de baja" : "Unsubscribe";
-  const reason = spanish
-    ? `Recibes este correo porque te suscribiste al blog de ${options.siteName}.`
-    : `You are receiving this because you subscribed to ${options.siteName}'s blog.`;
-  const trackingDisclosure = spanish
-    ? "La apertura se detecta de forma aproximada mediante una imagen privada."
-    : "Opens are detected approximately through a private image.";
   const date = options.post.date
     ? new Date(`${options.post.date}T12:00:00Z`).toLocaleDateString(
         spanish ? "es-ES" : "en-US",
@@ -163,8 +239,7 @@ export function buildNewsletterEmail(options: {
   const cover = options.post.coverUrl && !options.post.coverInBody
     ? `<a href="${escapeHtml(options.post.canonicalUrl)}"><img src="${escapeHtml(options.post.coverUrl)}" alt="${escapeHtml(options.post.title)}" style="display:block;max-width:100%;height:auto;border:0;"></a>`
     : "";
-  const unsubscribeUrl = escapeHtml(options.unsubscribeUrl);
-  const trackingPixelUrl = escapeHtml(options.trackingPixelUrl);
+  const delivery = newsletterDelivery(options);
 
   return {
     from: options.from,
@@ -174,7 +249,7 @@ export function buildNewsletterEmail(options: {
       locale: options.locale,
       siteName: options.siteName,
       previewText: options.post.excerpt || options.subject,
-      rows: `<tr>
+      rows: `${trackLinks(`<tr>
         <td class="content" style="max-width:100%;padding:40px 32px;overflow-wrap:anywhere;word-break:break-word;">
           <h1>${escapeHtml(options.post.title)}</h1>
           ${date ? `<p class="meta">${escapeHtml(date)}</p>` : ""}
@@ -182,25 +257,54 @@ export function buildNewsletterEmail(options: {
           <div class="article">${options.post.contentHtml}</div>
           <p style="margin-top: 36px;"><a class="button" href="${escapeHtml(options.post.canonicalUrl)}">${escapeHtml(readOnline)}</a></p>
         </td>
-      </tr>
-      <tr>
-        <td class="footer" style="padding:24px 32px;border-top:1px solid #ececec;color:#777;font-size:12px;line-height:1.6;text-align:center;overflow-wrap:anywhere;word-break:break-word;">
-          ${escapeHtml(reason)}<br>
-          ${escapeHtml(trackingDisclosure)}<br>
-          <a href="${unsubscribeUrl}">${escapeHtml(unsubscribe)}</a>
-          <img src="${trackingPixelUrl}" width="1" height="1" alt="" aria-hidden="true" style="display:block;width:1px!important;max-width:1px!important;height:1px!important;margin:0;border:0;overflow:hidden;">
+      </tr>`, options.clickUrl)}
+      ${delivery.footerRow}`,
+    }),
+    text: `${options.post.title}\n${date ? `${date}\n` : ""}\n${options.post.contentMarkdown}\n\n${readOnline}: ${options.post.canonicalUrl}\n\n${delivery.footerText}`,
+    ...(options.replyTo ? { reply_to: options.replyTo } : {}),
+    headers: delivery.headers,
+    tags: delivery.tags,
+  };
+}
+
+/** A newsletter written in the composer; `bodyHtml` comes from composeNewsletterBody. */
+export function buildComposedNewsletterEmail(options: {
+  locale: Locale;
+  siteName: string;
+  from: string;
+  to: string;
+  subject: string;
+  previewText?: string;
+  bodyHtml: string;
+  bodyText: string;
+  unsubscribeUrl: string;
+  trackingPixelUrl: string;
+  replyTo?: string;
+  campaignTag: string;
+  /** Resend category tag; test sends are kept apart from real campaigns. */
+  category?: string;
+  clickUrl?: (url: string) => string;
+}): ResendEmailMessage {
+  const delivery = newsletterDelivery(options);
+
+  return {
+    from: options.from,
+    to: [options.to],
+    subject: options.subject,
+    html: emailShell({
+      locale: options.locale,
+      siteName: options.siteName,
+      previewText: options.previewText || options.subject,
+      rows: `<tr>
+        <td class="content" style="max-width:100%;padding:40px 32px;overflow-wrap:anywhere;word-break:break-word;">
+          <div class="article">${trackLinks(options.bodyHtml, options.clickUrl)}</div>
         </td>
-      </tr>`,
+      </tr>
+      ${delivery.footerRow}`,
     }),
-    text: `${options.post.title}\n${date ? `${date}\n` : ""}\n${options.post.contentMarkdown}\n\n${readOnline}: ${options.post.canonicalUrl}\n\n${reason}\n${trackingDisclosure}\n${unsubscribe}: ${options.unsubscribeUrl}`,
+    text: `${options.bodyText}\n\n${delivery.footerText}`,
     ...(options.replyTo ? { reply_to: options.replyTo } : {}),
-    headers: {
-      "List-Unsubscribe": `<${options.unsubscribeUrl}>`,
-      "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
-    },
-    tags: [
-      { name: "category", value: "newsletter" },
-      { name: "campaign", value: options.campaignTag },
-    ],
+    headers: delivery.headers,
+    tags: delivery.tags,
   };
 }
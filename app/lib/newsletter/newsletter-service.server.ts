@@ -2,35 +2,57 @@ import type { Locale } from "~/lib/i18n";
 import type { StorageAdapter } from "~/lib/content-engine";
 import type { HeadlessBlogPost } from "~/lib/headless-blog";
 import type { NewsletterConfig } from "./config.server";
+import {
+  composeNewsletterBody,
+  type NewsletterComposerSources,
+} from "./composer.server";
 import {
   createNewsletterToken,
   newsletterSubscriberId,
+  randomNewsletterId,
   sha256Hex,
   verifyNewsletterToken,
 } from "./crypto.server";
 import {
+  buildComposedNewsletterEmail,
   buildConfirmationEmail,
   buildNewsletterEmail,
 } from "./email-templates.server";
+import {
+  isNewsletterSegmentRule,
+  matchesNewsletterSegment,
+  segmentsUseOpens,
+} from "./segments.server";
 import {
   confirmNewsletterSubscriber,
   getNewsletterCampaign,
+  getNewsletterDraft,
+  getNewsletterSegment,
   getNewsletterSubscriber,
+  listNewsletterLastOpens,
   listNewsletterSubscribers,
   markConfirmationDeliveryFailed,
   normalizeNewsletterEmail,
   prepareNewsletterSubscription,
+  recordNewsletterClick,
   recordNewsletterOpen,
+  recordNewsletterSubscriberClick,
   saveNewsletterCampaign,
+  saveNewsletterDraft,
+  saveNewsletterSegment,
   unsubscribeNewsletterSubscriber,
 } from "./subscriber-store.server";
 import {
   sendResendBatch,
   sendResendEmail,
+  type ResendEmailMessage,
 } from "./resend.server";
 import type {
   NewsletterCampaign,
+  NewsletterDraft,
   NewsletterOpenRecord,
+  NewsletterSegment,
+  NewsletterSegmentRule,
   NewsletterSubscriber,
 } from "./types";
 
@@ -52,8 +74,8 @@ export class NewsletterValidationError extends Error {
 }
 
 export class NewsletterCampaignAlreadySentError extends Error {
-  constructor() {
-    super("A newsletter for this post and language has already been sent.");
+  constructor(message = "A newsletter for this post and language has already been sent.") {
+    super(message);
     this.name = "NewsletterCampaignAlreadySentError";
   }
 }
@@ -116,6 +138,7 @@ export async function requestNewsletterSubscription(options: {
     to: email,
     confirmationUrl,
     replyTo: options.config.replyTo,
+    clickTracking: options.config.clickTracking,
   });
 
   try {
@@ -241,6 +264,58 @@ export async function trackNewsletterOpenToken(options: {
   });
 }
 
+/**
+ * Resolves a tracked newsletter link and records the click. Returns the
+ * destination to redirect to, or null when the token is not genuine or the
+ * URL is not one of the campaign's links, so the route is no open redirect.
+ * Clicks are only recorded while click tracking is enabled.
+ */
+export async function trackNewsletterClickToken(options: {
+  storage: StorageAdapter;
+  config: NewsletterConfig;
+  token: string;
+  url: string;
+  /** False for requests that only probe the link, such as HEAD. */
+  record?: boolean;
+  now?: Date;
+}): Promise<string | null> {
+  requireConfiguration(options.config);
+  const payload = await verifyNewsletterToken({
+    token: options.token,
+    secret: options.config.tokenSecret,
+    purpose: "click",
+    now: (options.now || new Date()).getTime(),
+  });
+  if (!payload?.campaignId) return null;
+
+  const campaign = await getNewsletterCampaign(options.storage, payload.campaignId);
+  if (
+    !campaign ||
+    !campaign.recipientIds.includes(payload.subscriberId) ||
+    !campaign.links?.includes(options.url)
+  ) {
+    return null;
+  }
+
+  if (options.config.clickTracking && options.record !== false) {
+    const { counted } = await recordNewsletterClick({
+      storage: options.storage,
+      campaignId: campaign.id,
+      subscriberId: payload.subscriberId,
+      url: options.url,
+      now: options.now,
+    });
+    if (counted) {
+      await recordNewsletterSubscriberClick({
+        storage: options.storage,
+        id: payload.subscriberId,
+        now: options.now,
+      });
+    }
+  }
+  return options.url;
+}
+
 function campaignBatches(recipientIds: string[]) {
   const batches = [];
   for (let index = 0; index < recipientIds.length; index += RESEND_BATCH_SIZE) {
@@ -260,59 +335,120 @@ export async function newsletterCampaignId(
   return sha256Hex(`newsletter:${locale}:${postSlug}`);
 }
 
-export async function sendNewsletterCampaign(options: {
+export async function newsletterDraftCampaignId(draftId: string): Promise<string> {
+  return sha256Hex(`newsletter:draft:${draftId}`);
+}
+
+async function resolveSegments(
+  storage: StorageAdapter,
+  segmentIds: readonly string[] = [],
+): Promise<NewsletterSegment[]> {
+  const ids = [...new Set(segmentIds)];
+  if (!ids.every((id) => /^[a-f0-9]{64}$/.test(id))) {
+    throw new NewsletterValidationError("segment_not_found");
+  }
+  const segments = await Promise.all(ids.map((id) => getNewsletterSegment(storage, id)));
+  if (segments.some((segment) => !segment)) {
+    throw new NewsletterValidationError("segment_not_found");
+  }
+  return segments as NewsletterSegment[];
+}
+
+/**
+ * Active subscribers of one language, in a stable order for batching. With
+ * segments, only subscribers in at least one of them are included.
+ */
+async function activeRecipientIds(
+  storage: StorageAdapter,
+  locale: Locale,
+  segments: readonly NewsletterSegment[],
+  now: Date,
+): Promise<string[]> {
+  const lastOpens = segmentsUseOpens(segments)
+    ? await listNewsletterLastOpens(storage)
+    : new Map<string, string>();
+  const subscribers = (await listNewsletterSubscribers(storage))
+    .filter(
+      (subscriber) =>
+        subscriber.status === "active" &&
+        subscriber.locale === locale &&
+        (segments.length === 0 ||
+          segments.some((segment) =>
+            matchesNewsletterSegment(subscriber, segment, { now, lastOpens })
+          )),
+    )
+    .sort((left, right) => left.id.localeCompare(right.id));
+  if (subscribers.length === 0) {
+    throw new NewsletterValidationError("no_active_subscribers");
+  }
+  return subscribers.map((subscriber) => subscriber.id);
+}
+
+async function recipientLinks(
+  config: NewsletterConfig,
+  subscriberId: string,
+  campaignId: string,
+): Promise<{ unsubscribeUrl: string; trackingPixelUrl: string }> {
+  const unsubscribeToken = await createNewsletterToken({
+    secret: config.tokenSecret,
+    purpose: "unsubscribe",
+    subscriberId,
+  });
+  const openToken = await createNewsletterToken({
+    secret: config.tokenSecret,
+    purpose: "open",
+    subscriberId,
+    campaignId,
+  });
+  return {
+    unsubscribeUrl: link(config.baseUrl, "/newsletter/unsubscribe", unsubscribeToken),
+    trackingPixelUrl: link(config.baseUrl, "/newsletter/open.gif", openToken),
+  };
+}
+
+/** Link rewriter for one recipient; every destination it sees is collected. */
+async function recipientClickUrl(
+  config: NewsletterConfig,
+  subscriberId: string,
+  campaignId: string,
+  destinations: Set<string>,
+): Promise<(url: string) => string> {
+  const clickToken = await createNewsletterToken({
+    secret: config.tokenSecret,
+    purpose: "click",
+    subscriberId,
+    campaignId,
+  });
+  const base = link(config.baseUrl, "/newsletter/click", clickToken);
+  return (url) => {
+    destinations.add(url);
+    const tracked = new URL(base);
+    tracked.searchParams.set("url", url);
+    return tracked.toString();
+  };
+}
+
+/**
+ * Sends the pending batches of a saved campaign. Every batch is recorded as
+ * soon as Resend accepts it and reuses its idempotency key, so a failed
+ * campaign can be retried without emailing anyone twice. With click tracking,
+ * the campaign learns its link destinations before each batch goes out.
+ */
+async function deliverNewsletterCampaign(options: {
   storage: StorageAdapter;
   config: NewsletterConfig;
-  post: HeadlessBlogPost;
-  locale: Locale;
-  subject?: string;
-  now?: Date;
+  campaign: NewsletterCampaign;
+  buildMessage: (
+    subscriber: NewsletterSubscriber,
+    links: {
+      unsubscribeUrl: string;
+      trackingPixelUrl: string;
+      clickUrl?: (url: string) => string;
+    },
+  ) => ResendEmailMessage;
   fetchImpl?: typeof fetch;
 }): Promise<NewsletterCampaign> {
-  requireConfiguration(options.config);
-  const now = options.now || new Date();
-  const id = await newsletterCampaignId(options.post.slug, options.locale);
-  const existing = await getNewsletterCampaign(options.storage, id);
-  if (existing?.status === "sent") {
-    throw new NewsletterCampaignAlreadySentError();
-  }
-
-  let campaign = existing;
-  if (!campaign) {
-    const subscribers = (await listNewsletterSubscribers(options.storage))
-      .filter(
-        (subscriber) =>
-          subscriber.status === "active" &&
-          subscriber.locale === options.locale,
-      )
-      .sort((left, right) => left.id.localeCompare(right.id));
-    if (subscribers.length === 0) {
-      throw new NewsletterValidationError("no_active_subscribers");
-    }
-    const recipientIds = subscribers.map((subscriber) => subscriber.id);
-    const subject = (options.subject || options.post.title).trim().slice(0, 200);
-    if (!subject) throw new NewsletterValidationError("invalid_subject");
-    campaign = {
-      version: 1,
-      id,
-      postSlug: options.post.slug,
-      postTitle: options.post.title,
-      locale: options.locale,
-      subject,
-      status: "sending",
-      recipientIds,
-      batches: campaignBatches(recipientIds),
-      createdAt: now.toISOString(),
-      updatedAt: now.toISOString(),
-    };
-  } else {
-    campaign = {
-      ...campaign,
-      status: "sending",
-      updatedAt: now.toISOString(),
-      lastError: undefined,
-    };
-  }
+  const { campaign } = options;
   await saveNewsletterCampaign(options.storage, campaign);
 
   try {
@@ -327,7 +463,7 @@ export async function sendNewsletterCampaign(options: {
           Boolean(
             subscriber &&
             subscriber.status === "active" &&
-            subscriber.locale === campaign?.locale,
+            subscriber.locale === campaign.locale,
           ),
       );
 
@@ -340,41 +476,26 @@ export async function sendNewsletterCampaign(options: {
         continue;
       }
 
-      const messages = await Promise.all(subscribers.map(async (subscriber) => {
-        const unsubscribeToken = await createNewsletterToken({
-          secret: options.config.tokenSecret,
-          purpose: "unsubscribe",
-          subscriberId: subscriber.id,
-        });
-        const unsubscribeUrl = link(
-          options.config.baseUrl,
-          "/newsletter/unsubscribe",
-          unsubscribeToken,
-        );
-        const openToken = await createNewsletterToken({
-          secret: options.config.tokenSecret,
-          purpose: "open",
-          subscriberId: subscriber.id,
-          campaignId: campaign!.id,
-        });
-        const trackingPixelUrl = link(
-          options.config.baseUrl,
-          "/newsletter/open.gif",
-          openToken,
-        );
-        return buildNewsletterEmail({
-          locale: campaign!.locale,
-          siteName: options.config.siteName,
-          from: options.config.fromEmail,
-          to: subscriber.email,
-          subject: campaign!.subject,
-          post: options.post,
-          unsubscribeUrl,
-          trackingPixelUrl,
-          replyTo: options.config.replyTo,
-          campaignTag: campaign!.id.slice(0, 32),
-        });
-      }));
+      const destinations = new Set(campaign.links);
+      const messages = await Promise.all(subscribers.map(async (subscriber) =>
+        options.buildMessage(subscriber, {
+          ...await recipientLinks(options.config, subscriber.id, campaign.id),
+          ...(options.config.clickTracking
+            ? {
+                clickUrl: await recipientClickUrl(
+                  options.config,
+                  subscriber.id,
+                  campaign.id,
+                  destinations,
+                ),
+              }
+            : {}),
+        })
+      ));
+      if (destinations.size > (campaign.links?.length || 0)) {
+        campaign.links = [...destinations];
+        await saveNewsletterCampaign(options.storage, campaign);
+      }
       const resendEmailIds = await sendResendBatch({
         apiKey: options.config.resendApiKey,
         messages,
@@ -407,3 +528,301 @@ export async function sendNewsletterCampaign(options: {
     throw error;
   }
 }
+
+function resumeCampaign(campaign: NewsletterCampaign, now: Date): NewsletterCampaign {
+  return {
+    ...campaign,
+    status: "sending",
+    updatedAt: now.toISOString(),
+    lastError: undefined,
+  };
+}
+
+export async function sendNewsletterCampaign(options: {
+  storage: StorageAdapter;
+  config: NewsletterConfig;
+  post: HeadlessBlogPost;
+  locale: Locale;
+  subject?: string;
+  /** Limit the audience to these saved segments; ignored when resuming. */
+  segmentIds?: string[];
+  now?: Date;
+  fetchImpl?: typeof fetch;
+}): Promise<NewsletterCampaign> {
+  requireConfiguration(options.config);
+  const now = options.now || new Date();
+  const id = await newsletterCampaignId(options.post.slug, options.locale);
+  const existing = await getNewsletterCampaign(options.storage, id);
+  if (existing?.status === "sent") {
+    throw new NewsletterCampaignAlreadySentError();
+  }
+
+  let campaign = existing;
+  if (!campaign) {
+    const subject = (options.subject || options.post.title).trim().slice(0, 200);
+    if (!subject) throw new NewsletterValidationError("invalid_subject");
+    const segments = await resolveSegments(options.storage, options.segmentIds);
+    const recipientIds = await activeRecipientIds(
+      options.storage,
+      options.locale,
+      segments,
+      now,
+    );
+    campaign = {
+      version: 1,
+      id,
+      postSlug: options.post.slug,
+      postTitle: options.post.title,
+      ...(segments.length ? { segmentIds: segments.map((segment) => segment.id) } : {}),
+      locale: options.locale,
+      subject,
+      status: "sending",
+      recipientIds,
+      batches: campaignBatches(recipientIds),
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+  } else {
+    campaign = resumeCampaign(campaign, now);
+  }
+
+  const sending = campaign;
+  return deliverNewsletterCampaign({
+    storage: options.storage,
+    config: options.config,
+    campaign: sending,
+    buildMessage: (subscriber, links) => buildNewsletterEmail({
+      locale: sending.locale,
+      siteName: options.config.siteName,
+      from: options.config.fromEmail,
+      to: subscriber.email,
+      subject: sending.subject,
+      post: options.post,
+      ...links,
+      replyTo: options.config.replyTo,
+      campaignTag: sending.id.slice(0, 32),
+    }),
+    fetchImpl: options.fetchImpl,
+  });
+}
+
+/**
+ * Creates or updates a composer draft. Drafts that already started sending
+ * are locked so a retry delivers the same newsletter to the rest.
+ */
+export async function saveNewsletterDraftInput(options: {
+  storage: StorageAdapter;
+  id?: string;
+  title: string;
+  subject: string;
+  locale: Locale;
+  previewText?: string;
+  markdown: string;
+  now?: Date;
+}): Promise<NewsletterDraft> {
+  const now = (options.now || new Date()).toISOString();
+  const title = options.title.trim().slice(0, 200);
+  const subject = options.subject.trim().slice(0, 200);
+  const previewText = (options.previewText || "").trim().slice(0, 300);
+  if (!title) throw new NewsletterValidationError("invalid_title");
+  if (!subject) throw new NewsletterValidationError("invalid_subject");
+  if (options.markdown.length > 200_000) {
+    throw new NewsletterValidationError("body_too_long");
+  }
+
+  const existing = options.id
+    ? await getNewsletterDraft(options.storage, options.id)
+    : null;
+  if (options.id && !existing) throw new NewsletterValidationError("draft_not_found");
+  if (existing?.campaignId) throw new NewsletterValidationError("draft_locked");
+
+  const draft: NewsletterDraft = {
+    version: 1,
+    id: existing?.id || randomNewsletterId(),
+    title,
+    subject,
+    locale: options.locale,
+    ...(previewText ? { previewText } : {}),
+    markdown: options.markdown,
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+  };
+  await saveNewsletterDraft(options.storage, draft);
+  return draft;
+}
+
+/** Creates or updates a saved audience segment. */
+export async function saveNewsletterSegmentInput(options: {
+  storage: StorageAdapter;
+  id?: string;
+  name: string;
+  rules: unknown[];
+  now?: Date;
+}): Promise<NewsletterSegment> {
+  const now = (options.now || new Date()).toISOString();
+  const name = options.name.trim().replace(/\s+/g, " ").slice(0, 100);
+  if (!name) throw new NewsletterValidationError("invalid_segment_name");
+  const rules = options.rules.map((rule) =>
+    rule && typeof rule === "object" && "value" in rule && typeof rule.value === "string"
+      ? { ...rule, value: rule.value.trim() }
+      : rule
+  );
+  if (rules.length === 0 || !rules.every(isNewsletterSegmentRule)) {
+    throw new NewsletterValidationError("invalid_segment_rules");
+  }
+
+  const existing = options.id
+    ? await getNewsletterSegment(options.storage, options.id)
+    : null;
+  if (options.id && !existing) throw new NewsletterValidationError("segment_not_found");
+
+  const segment: NewsletterSegment = {
+    version: 1,
+    id: existing?.id || randomNewsletterId(),
+    name,
+    rules: rules as NewsletterSegmentRule[],
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+  };
+  await saveNewsletterSegment(options.storage, segment);
+  return segment;
+}
+
+function composeDraft(
+  draft: NewsletterDraft,
+  config: NewsletterConfig,
+  sources: NewsletterComposerSources,
+  now: Date,
+) {
+  return composeNewsletterBody({
+    markdown: draft.markdown,
+    locale: draft.locale,
+    baseUrl: config.baseUrl,
+    sources,
+    now,
+  });
+}
+
+/** Sends a composer draft to every active subscriber of its language. */
+export async function sendComposedNewsletterCampaign(options: {
+  storage: StorageAdapter;
+  config: NewsletterConfig;
+  draft: NewsletterDraft;
+  sources: NewsletterComposerSources;
+  /** Limit the audience to these saved segments; ignored when resuming. */
+  segmentIds?: string[];
+  now?: Date;
+  fetchImpl?: typeof fetch;
+}): Promise<NewsletterCampaign> {
+  requireConfiguration(options.config);
+  const now = options.now || new Date();
+  const { draft } = options;
+  const id = await newsletterDraftCampaignId(draft.id);
+  const existing = await getNewsletterCampaign(options.storage, id);
+  if (existing?.status === "sent") {
+    throw new NewsletterCampaignAlreadySentError("This newsletter has already been sent.");
+  }
+
+  const body = composeDraft(draft, options.config, options.sources, now);
+  if (body.missingBlocks.length > 0) {
+    throw new NewsletterValidationError("missing_blocks");
+  }
+
+  let campaign = existing;
+  if (!campaign) {
+    const subject = draft.subject.trim().slice(0, 200);
+    if (!subject) throw new NewsletterValidationError("invalid_subject");
+    const segments = await resolveSegments(options.storage, options.segmentIds);
+    const recipientIds = await activeRecipientIds(
+      options.storage,
+      draft.locale,
+      segments,
+      now,
+    );
+    campaign = {
+      version: 1,
+      id,
+      postTitle: draft.title,
+      draftId: draft.id,
+      ...(segments.length ? { segmentIds: segments.map((segment) => segment.id) } : {}),
+      locale: draft.locale,
+      subject,
+      status: "sending",
+      recipientIds,
+      batches: campaignBatches(recipientIds),
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+  } else {
+    campaign = resumeCampaign(campaign, now);
+  }
+  if (draft.campaignId !== id) {
+    await saveNewsletterDraft(options.storage, {
+      ...draft,
+      campaignId: id,
+      updatedAt: now.toISOString(),
+    });
+  }
+
+  const sending = campaign;
+  return deliverNewsletterCampaign({
+    storage: options.storage,
+    config: options.config,
+    campaign: sending,
+    buildMessage: (subscriber, links) => buildComposedNewsletterEmail({
+      locale: sending.locale,
+      siteName: options.config.siteName,
+      from: options.config.fromEmail,
+      to: subscriber.email,
+      subject: sending.subject,
+      previewText: draft.previewText,
+      bodyHtml: body.html,
+      bodyText: body.text,
+      ...links,
+      replyTo: options.config.replyTo,
+      campaignTag: sending.id.slice(0, 32),
+    }),
+    fetchImpl: options.fetchImpl,
+  });
+}
+
+/**
+ * Emails one copy of a draft to any address. No campaign is recorded; the
+ * unsubscribe and open links are real but only act on actual recipients.
+ */
+export async function sendNewsletterTestEmail(options: {
+  config: NewsletterConfig;
+  draft: NewsletterDraft;
+  sources: NewsletterComposerSources;
+  to: string;
+  now?: Date;
+  fetchImpl?: typeof fetch;
+}): Promise<string> {
+  requireConfiguration(options.config);
+  const email = normalizeNewsletterEmail(options.to);
+  if (!email) throw new NewsletterValidationError("invalid_email");
+  const now = options.now || new Date();
+  const { draft } = options;
+  const campaignId = await newsletterDraftCampaignId(draft.id);
+  const body = composeDraft(draft, options.config, options.sources, now);
+
+  return sendResendEmail({
+    apiKey: options.config.resendApiKey,
+    message: buildComposedNewsletterEmail({
+      locale: draft.locale,
+      siteName: options.config.siteName,
+      from: options.config.fromEmail,
+      to: email,
+      subject: `[Test] ${draft.subject}`.slice(0, 200),
+      previewText: draft.previewText,
+      bodyHtml: body.html,
+      bodyText: body.text,
+      ...await recipientLinks(options.config, await newsletterSubscriberId(email), campaignId),
+      replyTo: options.config.replyTo,
+      campaignTag: campaignId.slice(0, 32),
+      category: "newsletter_test",
+    }),
+    idempotencyKey: `vp-newsletter-test-${draft.id.slice(0, 32)}-${now.toISOString()}`,
+    fetchImpl: options.fetchImpl,
+  });
+}
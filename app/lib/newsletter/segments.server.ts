@@ -0,0 +1,147 @@
+/**
+ * Newsletter audience segments
+ *
+ * A segment is a saved list of rules; a subscriber belongs to it when every
+ * rule matches. Rules read the subscriber record (tags, imported Substack
+ * country/region/source) and open detections, so segments never need their
+ * own membership storage and always reflect the current list.
+ */
+
+import type {
+  NewsletterSegment,
+  NewsletterSegmentRule,
+  NewsletterSubscriber,
+} from "./types";
+
+const MAX_TAG_LENGTH = 40;
+export const MAX_SUBSCRIBER_TAGS = 20;
+const MAX_RULE_VALUE_LENGTH = 100;
+const MAX_OPEN_WINDOW_DAYS = 3650;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Lowercase, single-spaced tag; null when nothing usable is left. */
+export function normalizeNewsletterTag(value: string): string | null {
+  const tag = value.trim().toLowerCase().replace(/\s+/g, " ");
+  if (!tag || tag.length > MAX_TAG_LENGTH) return null;
+  return tag;
+}
+
+/** Unique normalized tags from a list or a comma-separated string. */
+export function normalizeNewsletterTags(value: string | readonly string[]): string[] {
+  const values = typeof value === "string" ? value.split(",") : value;
+  const tags = new Set<string>();
+  for (const candidate of values) {
+    const tag = normalizeNewsletterTag(candidate);
+    if (tag) tags.add(tag);
+  }
+  return [...tags].sort().slice(0, MAX_SUBSCRIBER_TAGS);
+}
+
+export function isNewsletterSegmentRule(value: unknown): value is NewsletterSegmentRule {
+  if (!value || typeof value !== "object") return false;
+  const rule = value as Record<string, unknown>;
+  if (rule.field === "openedWithinDays") {
+    return Number.isInteger(rule.days) &&
+      (rule.days as number) >= 1 &&
+      (rule.days as number) <= MAX_OPEN_WINDOW_DAYS;
+  }
+  if (rule.field === "importedFrom") return rule.value === "substack";
+  return ["tag", "country", "region", "source"].includes(String(rule.field)) &&
+    typeof rule.value === "string" &&
+    rule.value.trim().length > 0 &&
+    rule.value.length <= MAX_RULE_VALUE_LENGTH;
+}
+
+function sameText(left: string | undefined, right: string): boolean {
+  return Boolean(left) && left!.trim().toLowerCase() === right.trim().toLowerCase();
+}
+
+/** Latest open known for a subscriber: imported history or VictoPress detections. */
+function lastOpenedAt(
+  subscriber: NewsletterSubscriber,
+  detectedOpens: ReadonlyMap<string, string>,
+): number | null {
+  const times = [subscriber.interactions?.lastEmailOpenedAt, detectedOpens.get(subscriber.id)]
+    .map((value) => (value ? Date.parse(value) : Number.NaN))
+    .filter((time) => Number.isFinite(time));
+  return times.length ? Math.max(...times) : null;
+}
+
+function matchesRule(
+  subscriber: NewsletterSubscriber,
+  rule: NewsletterSegmentRule,
+  context: { now: Date; lastOpens: ReadonlyMap<string, string> },
+): boolean {
+  switch (rule.field) {
+    case "tag":
+      return (subscriber.tags || []).includes(normalizeNewsletterTag(rule.value) || "");
+    case "country":
+      return sameText(subscriber.country, rule.value);
+    case "region":
+      return sameText(subscriber.region, rule.value);
+    case "source":
+      return sameText(subscriber.subscriptionSource, rule.value) ||
+        sameText(subscriber.source, rule.value);
+    case "importedFrom":
+      return subscriber.importedFrom === rule.value;
+    case "openedWithinDays": {
+      const openedAt = lastOpenedAt(subscriber, context.lastOpens);
+      return openedAt !== null && context.now.getTime() - openedAt <= rule.days * DAY_MS;
+    }
+  }
+}
+
+export function matchesNewsletterSegment(
+  subscriber: NewsletterSubscriber,
+  segment: Pick<NewsletterSegment, "rules">,
+  context: { now?: Date; lastOpens?: ReadonlyMap<string, string> } = {},
+): boolean {
+  const resolved = { now: context.now || new Date(), lastOpens: context.lastOpens || new Map() };
+  return segment.rules.every((rule) => matchesRule(subscriber, rule, resolved));
+}
+
+/** Whether evaluating these segments needs the VictoPress open detections. */
+export function segmentsUseOpens(segments: readonly Pick<NewsletterSegment, "rules">[]): boolean {
+  return segments.some((segment) =>
+    segment.rules.some((rule) => rule.field === "openedWithinDays")
+  );
+}
+
+export function describeNewsletterSegmentRule(rule: NewsletterSegmentRule): string {
+  switch (rule.field) {
+    case "tag":
+      return `Tagged “${rule.value}”`;
+    case "country":
+      return `Country is ${rule.value}`;
+    case "region":
+      return `Region is ${rule.value}`;
+    case "source":
+      return `Source is ${rule.value}`;
+    case "importedFrom":
+      return "Imported from Substack";
+    case "openedWithinDays":
+      return `Opened in the last ${rule.days} day${rule.days === 1 ? "" : "s"}`;
+  }
+}
+
+/**
+ * Active subscribers per language for everyone (`""`) and for each segment,
+ * so the campaign forms can show the recipient count as options change.
+ */
+export function countNewsletterAudiences(
+  subscribers: readonly NewsletterSubscriber[],
+  segments: readonly NewsletterSegment[],
+  context: { now?: Date; lastOpens?: ReadonlyMap<string, string> } = {},
+): Record<string, Record<string, number>> {
+  const counts: Record<string, Record<string, number>> = { "": {} };
+  for (const segment of segments) counts[segment.id] = {};
+  for (const subscriber of subscribers) {
+    if (subscriber.status !== "active") continue;
+    counts[""][subscriber.locale] = (counts[""][subscriber.locale] || 0) + 1;
+    for (const segment of segments) {
+      if (!matchesNewsletterSegment(subscriber, segment, context)) continue;
+      counts[segment.id][subscriber.locale] = (counts[segment.id][subscriber.locale] || 0) + 1;
+    }
+  }
+  return counts;
+}
@@ -1,9 +1,18 @@
-import type { Locale } from "~/lib/i18n";
+import { isLocale, type Locale } from "~/lib/i18n";
 import type { StorageAdapter } from "~/lib/content-engine";
+import { sha256Hex } from "./crypto.server";
+import {
+  isNewsletterSegmentRule,
+  MAX_SUBSCRIBER_TAGS,
+  normalizeNewsletterTags,
+} from "./segments.server";
 import {
   NEWSLETTER_CONSENT_VERSION,
   type NewsletterCampaign,
+  type NewsletterClickRecord,
+  type NewsletterDraft,
   type NewsletterOpenRecord,
+  type NewsletterSegment,
   type NewsletterSubscriber,
   type NewsletterSubscriberInteractions,
   type NewsletterSubscriberStats,
@@ -14,9 +23,14 @@ const SUBSCRIBER_INDEX_PATH =
   ".victopress/newsletter/indexes/subscribers.json";
 const CAMPAIGN_PREFIX = ".victopress/newsletter/campaigns";
 const OPEN_PREFIX = ".victopress/newsletter/opens";
+const CLICK_PREFIX = ".victopress/newsletter/clicks";
+const DRAFT_PREFIX = ".victopress/newsletter/drafts";
+const SEGMENT_PREFIX = ".victopress/newsletter/segments";
 const CONFIRMATION_COOLDOWN_MS = 10 * 60 * 1000;
 const OPEN_DETECTION_COOLDOWN_MS = 60 * 60 * 1000;
 const MAX_OPEN_DETECTIONS = 100;
+const CLICK_COOLDOWN_MS = 60 * 1000;
+const MAX_LINK_CLICKS = 100;
 const INDEX_CAS_ATTEMPTS = 8;
 
 interface NewsletterSubscriberIndex {
@@ -45,12 +59,30 @@ function campaignPath(id: string): string {
   return `${CAMPAIGN_PREFIX}/${requireNewsletterId(id, "campaign")}.json`;
 }
 
+function draftPath(id: string): string {
+  return `${DRAFT_PREFIX}/${requireNewsletterId(id, "draft")}.json`;
+}
+
+function segmentPath(id: string): string {
+  return `${SEGMENT_PREFIX}/${requireNewsletterId(id, "segment")}.json`;
+}
+
 function openPath(campaignId: string, subscriberId: string): string {
   return `${OPEN_PREFIX}/${requireNewsletterId(campaignId, "campaign")}/${
     requireNewsletterId(subscriberId, "subscriber")
   }.json`;
 }
 
+async function clickPath(
+  campaignId: string,
+  subscriberId: string,
+  url: string,
+): Promise<string> {
+  return `${CLICK_PREFIX}/${requireNewsletterId(campaignId, "campaign")}/${
+    requireNewsletterId(subscriberId, "subscriber")
+  }/${await sha256Hex(url)}.json`;
+}
+
 function isOptionalDate(value: unknown): boolean {
   return value === undefined ||
     (typeof value === "string" && Number.isFinite(Date.parse(value)));
@@ -104,7 +136,7 @@ function parseSubscriber(raw: string | null): NewsletterSubscriber | null {
       !/^[a-f0-9]{64}$/.test(value.id) ||
       typeof value.email !== "string" ||
       !["pending", "active", "unsubscribed"].includes(value.status) ||
-      !["es", "en"].includes(value.locale) ||
+      !isLocale(value.locale) ||
       (value.name !== undefined &&
         (typeof value.name !== "string" || value.name.length > 200)) ||
       (value.subscriptionSource !== undefined &&
@@ -117,6 +149,10 @@ function parseSubscriber(raw: string | null): NewsletterSubscriber | null {
         (typeof value.country !== "string" || value.country.length > 100)) ||
       (value.region !== undefined &&
         (typeof value.region !== "string" || value.region.length > 100)) ||
+      (value.tags !== undefined &&
+        (!Array.isArray(value.tags) ||
+          value.tags.length > MAX_SUBSCRIBER_TAGS ||
+          !value.tags.every((tag) => typeof tag === "string"))) ||
       (value.interactions !== undefined && !isInteractions(value.interactions))
     ) {
       return null;
@@ -167,6 +203,14 @@ function parseCampaign(raw: string | null): NewsletterCampaign | null {
       !value.recipientIds.every((id) =>
         typeof id === "string" && /^[a-f0-9]{64}$/.test(id)
       ) ||
+      (value.segmentIds !== undefined &&
+        (!Array.isArray(value.segmentIds) ||
+          !value.segmentIds.every((id) =>
+            typeof id === "string" && /^[a-f0-9]{64}$/.test(id)
+          ))) ||
+      (value.links !== undefined &&
+        (!Array.isArray(value.links) ||
+          !value.links.every((url) => typeof url === "string"))) ||
       !Array.isArray(value.batches) ||
       !value.batches.every((batch) =>
         Number.isInteger(batch.index) &&
@@ -190,6 +234,52 @@ function parseCampaign(raw: string | null): NewsletterCampaign | null {
   }
 }
 
+function parseDraft(raw: string | null): NewsletterDraft | null {
+  if (!raw) return null;
+  try {
+    const value = JSON.parse(raw) as NewsletterDraft;
+    if (
+      value.version !== 1 ||
+      !/^[a-f0-9]{64}$/.test(value.id) ||
+      typeof value.title !== "string" ||
+      typeof value.subject !== "string" ||
+      typeof value.markdown !== "string" ||
+      !isLocale(value.locale) ||
+      (value.previewText !== undefined && typeof value.previewText !== "string") ||
+      (value.campaignId !== undefined && !/^[a-f0-9]{64}$/.test(value.campaignId)) ||
+      !isOptionalDate(value.createdAt) ||
+      !isOptionalDate(value.updatedAt)
+    ) {
+      return null;
+    }
+    return value;
+  } catch {
+    return null;
+  }
+}
+
+function parseSegment(raw: string | null): NewsletterSegment | null {
+  if (!raw) return null;
+  try {
+    const value = JSON.parse(raw) as NewsletterSegment;
+    if (
+      value.version !== 1 ||
+      !/^[a-f0-9]{64}$/.test(value.id) ||
+      typeof value.name !== "string" ||
+      !Array.isArray(value.rules) ||
+      value.rules.length === 0 ||
+      !value.rules.every(isNewsletterSegmentRule) ||
+      !isOptionalDate(value.createdAt) ||
+      !isOptionalDate(value.updatedAt)
+    ) {
+      return null;
+    }
+    return value;
+  } catch {
+    return null;
+  }
+}
+
 function parseOpenRecord(raw: string | null): NewsletterOpenRecord | null {
   if (!raw) return null;
   try {
@@ -213,6 +303,30 @@ function parseOpenRecord(raw: string | null): NewsletterOpenRecord | null {
   }
 }
 
+function parseClickRecord(raw: string | null): NewsletterClickRecord | null {
+  if (!raw) return null;
+  try {
+    const value = JSON.parse(raw) as NewsletterClickRecord;
+    if (
+      value.version !== 1 ||
+      !/^[a-f0-9]{64}$/.test(value.campaignId) ||
+      !/^[a-f0-9]{64}$/.test(value.subscriberId) ||
+      typeof value.url !== "string" ||
+      typeof value.firstClickedAt !== "string" ||
+      typeof value.lastClickedAt !== "string" ||
+      !Number.isFinite(Date.parse(value.firstClickedAt)) ||
+      !Number.isFinite(Date.parse(value.lastClickedAt)) ||
+      !Number.isInteger(value.clickCount) ||
+      value.clickCount < 1
+    ) {
+      return null;
+    }
+    return value;
+  } catch {
+    return null;
+  }
+}
+
 async function mapInChunks<T, R>(
   values: readonly T[],
   mapper: (value: T) => Promise<R>,
@@ -427,6 +541,76 @@ export async function updateNewsletterSubscriberName(options: {
   return subscriber;
 }
 
+function emptyInteractions(): NewsletterSubscriberInteractions {
+  return {
+    emailsReceived6Months: 0,
+    emailsDropped6Months: 0,
+    emailsOpenedTotal: 0,
+    emailsOpened6Months: 0,
+    emailsOpened7Days: 0,
+    emailsOpened30Days: 0,
+    linksClicked: 0,
+    uniqueEmailsSeen6Months: 0,
+    uniqueEmailsSeen7Days: 0,
+    uniqueEmailsSeen30Days: 0,
+    postViews: 0,
+    postViews7Days: 0,
+    postViews30Days: 0,
+    uniquePostsSeen: 0,
+    uniquePostsSeen7Days: 0,
+    uniquePostsSeen30Days: 0,
+    comments: 0,
+    comments7Days: 0,
+    comments30Days: 0,
+    shares: 0,
+    shares7Days: 0,
+    shares30Days: 0,
+    daysActive30Days: 0,
+    activity: 0,
+  };
+}
+
+/** Adds a tracked newsletter click to the subscriber's interaction counters. */
+export async function recordNewsletterSubscriberClick(options: {
+  storage: StorageAdapter;
+  id: string;
+  now?: Date;
+}): Promise<NewsletterSubscriber | null> {
+  const existing = await getNewsletterSubscriber(options.storage, options.id);
+  if (!existing) return null;
+  const clickedAt = (options.now || new Date()).toISOString();
+  const interactions = existing.interactions || emptyInteractions();
+  const subscriber: NewsletterSubscriber = {
+    ...existing,
+    interactions: {
+      ...interactions,
+      linksClicked: interactions.linksClicked + 1,
+      lastClickedAt: clickedAt,
+    },
+    updatedAt: clickedAt,
+  };
+  await saveNewsletterSubscriber(options.storage, subscriber);
+  return subscriber;
+}
+
+export async function updateNewsletterSubscriberTags(options: {
+  storage: StorageAdapter;
+  id: string;
+  tags: string | readonly string[];
+  now?: Date;
+}): Promise<NewsletterSubscriber | null> {
+  const existing = await getNewsletterSubscriber(options.storage, options.id);
+  if (!existing) return null;
+  const tags = normalizeNewsletterTags(options.tags);
+  const subscriber: NewsletterSubscriber = {
+    ...existing,
+    tags: tags.length ? tags : undefined,
+    updatedAt: (options.now || new Date()).toISOString(),
+  };
+  await saveNewsletterSubscriber(options.storage, subscriber);
+  return subscriber;
+}
+
 export async function prepareNewsletterSubscription(options: {
   storage: StorageAdapter;
   id: string;
@@ -593,14 +777,15 @@ export function newsletterSubscriberStats(
     pending: subscribers.filter((subscriber) => subscriber.status === "pending").length,
     active: subscribers.filter((subscriber) => subscriber.status === "active").length,
     unsubscribed: subscribers.filter((subscriber) => subscriber.status === "unsubscribed").length,
-    activeByLocale: {
-      es: subscribers.filter(
-        (subscriber) => subscriber.status === "active" && subscriber.locale === "es",
-      ).length,
-      en: subscribers.filter(
-        (subscriber) => subscriber.status === "active" && subscriber.locale === "en",
-      ).length,
-    },
+    activeByLocale: subscribers.reduce<Record<Locale, number>>(
+      (counts, subscriber) => {
+        if (subscriber.status === "active") {
+          counts[subscriber.locale] = (counts[subscriber.locale] || 0) + 1;
+        }
+        return counts;
+      },
+      { es: 0, en: 0 },
+    ),
   };
 }
 
@@ -643,6 +828,84 @@ export async function listNewsletterCampaigns(
     .sort((left, right) => right.createdAt.localeCompare(left.createdAt));
 }
 
+export async function getNewsletterDraft(
+  storage: StorageAdapter,
+  id: string,
+): Promise<NewsletterDraft | null> {
+  return parseDraft(await storage.getText(draftPath(id)));
+}
+
+export async function saveNewsletterDraft(
+  storage: StorageAdapter,
+  draft: NewsletterDraft,
+): Promise<void> {
+  await storage.put(
+    draftPath(draft.id),
+    JSON.stringify(draft, null, 2),
+    "application/json",
+  );
+}
+
+export async function deleteNewsletterDraft(
+  storage: StorageAdapter,
+  id: string,
+): Promise<void> {
+  await storage.delete(draftPath(id));
+}
+
+export async function listNewsletterDrafts(
+  storage: StorageAdapter,
+): Promise<NewsletterDraft[]> {
+  const files = (await storage.listRecursive(DRAFT_PREFIX))
+    .filter((file) => !file.isDirectory && file.name.endsWith(".json"))
+    .sort((left, right) => left.path.localeCompare(right.path));
+  const records = await mapInChunks(files, async (file) =>
+    parseDraft(await storage.getText(file.path)),
+  );
+  return records
+    .filter((record): record is NewsletterDraft => Boolean(record))
+    .sort((left, right) => right.updatedAt.localeCompare(left.updatedAt));
+}
+
+export async function getNewsletterSegment(
+  storage: StorageAdapter,
+  id: string,
+): Promise<NewsletterSegment | null> {
+  return parseSegment(await storage.getText(segmentPath(id)));
+}
+
+export async function saveNewsletterSegment(
+  storage: StorageAdapter,
+  segment: NewsletterSegment,
+): Promise<void> {
+  await storage.put(
+    segmentPath(segment.id),
+    JSON.stringify(segment, null, 2),
+    "application/json",
+  );
+}
+
+export async function deleteNewsletterSegment(
+  storage: StorageAdapter,
+  id: string,
+): Promise<void> {
+  await storage.delete(segmentPath(id));
+}
+
+export async function listNewsletterSegments(
+  storage: StorageAdapter,
+): Promise<NewsletterSegment[]> {
+  const files = (await storage.listRecursive(SEGMENT_PREFIX))
+    .filter((file) => !file.isDirectory && file.name.endsWith(".json"))
+    .sort((left, right) => left.path.localeCompare(right.path));
+  const records = await mapInChunks(files, async (file) =>
+    parseSegment(await storage.getText(file.path)),
+  );
+  return records
+    .filter((record): record is NewsletterSegment => Boolean(record))
+    .sort((left, right) => left.name.localeCompare(right.name));
+}
+
 export async function getNewsletterOpen(
   storage: StorageAdapter,
   campaignId: string,
@@ -715,3 +978,79 @@ export async function listNewsletterOpens(
     .filter((record) => record.campaignId === campaignId)
     .sort((left, right) => left.firstOpenedAt.localeCompare(right.firstOpenedAt));
 }
+
+/**
+ * Records one click on a campaign link. Repeated clicks within a minute, such
+ * as a double tap or a link scanner followed by the reader, count once;
+ * `counted` tells whether this click was added.
+ */
+export async function recordNewsletterClick(options: {
+  storage: StorageAdapter;
+  campaignId: string;
+  subscriberId: string;
+  url: string;
+  now?: Date;
+}): Promise<{ record: NewsletterClickRecord; counted: boolean }> {
+  const now = options.now || new Date();
+  const clickedAt = now.toISOString();
+  const path = await clickPath(options.campaignId, options.subscriberId, options.url);
+  const existing = parseClickRecord(await options.storage.getText(path));
+  if (
+    existing &&
+    (existing.clickCount >= MAX_LINK_CLICKS ||
+      now.getTime() - Date.parse(existing.lastClickedAt) < CLICK_COOLDOWN_MS)
+  ) {
+    return { record: existing, counted: false };
+  }
+  const record: NewsletterClickRecord = existing
+    ? {
+        ...existing,
+        lastClickedAt: clickedAt,
+        clickCount: existing.clickCount + 1,
+      }
+    : {
+        version: 1,
+        campaignId: options.campaignId,
+        subscriberId: options.subscriberId,
+        url: options.url,
+        firstClickedAt: clickedAt,
+        lastClickedAt: clickedAt,
+        clickCount: 1,
+      };
+  await options.storage.put(path, JSON.stringify(record, null, 2), "application/json");
+  return { record, counted: true };
+}
+
+export async function listNewsletterClicks(
+  storage: StorageAdapter,
+  campaignId: string,
+): Promise<NewsletterClickRecord[]> {
+  const prefix = `${CLICK_PREFIX}/${requireNewsletterId(campaignId, "campaign")}/`;
+  const files = (await storage.listRecursive(prefix))
+    .filter((file) => !file.isDirectory && file.name.endsWith(".json"))
+    .sort((left, right) => left.path.localeCompare(right.path));
+  const records = await mapInChunks(files, async (file) =>
+    parseClickRecord(await storage.getText(file.path)),
+  );
+  return records
+    .filter((record): record is NewsletterClickRecord => Boolean(record))
+    .filter((record) => record.campaignId === campaignId)
+    .sort((left, right) => left.firstClickedAt.localeCompare(right.firstClickedAt));
+}
+
+/** Latest VictoPress open detection per subscriber id, across all campaigns. */
+export async function listNewsletterLastOpens(
+  storage: StorageAdapter,
+): Promise<Map<string, string>> {
+  const campaigns = await listNewsletterCampaigns(storage);
+  const lastOpens = new Map<string, string>();
+  for (const campaign of campaigns) {
+    for (const record of await listNewsletterOpens(storage, campaign.id)) {
+      const previous = lastOpens.get(record.subscriberId);
+      if (!previous || record.lastOpenedAt.localeCompare(previous) > 0) {
+        lastOpens.set(record.subscriberId, record.lastOpenedAt);
+      }
+    }
+  }
+  return lastOpens;
+}
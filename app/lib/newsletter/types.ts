@@ -50,6 +50,8 @@ export interface NewsletterSubscriber {
   importedFrom?: "substack";
   country?: string;
   region?: string;
+  /** Lowercase labels set by the owner, used by segments. */
+  tags?: string[];
   interactions?: NewsletterSubscriberInteractions;
   consentVersion: typeof NEWSLETTER_CONSENT_VERSION;
   consentedAt: string;
@@ -80,8 +82,15 @@ export interface NewsletterCampaignBatch {
 export interface NewsletterCampaign {
   version: 1;
   id: string;
-  postSlug: string;
+  /** Absent for campaigns composed from a draft. */
+  postSlug?: string;
+  /** Display title: the post title, or the draft title for composed campaigns. */
   postTitle: string;
+  draftId?: string;
+  /** Saved segments the audience was limited to; absent means everyone. */
+  segmentIds?: string[];
+  /** Destinations of tracked links; the click redirect only leads to these. */
+  links?: string[];
   locale: Locale;
   subject: string;
   status: NewsletterCampaignStatus;
@@ -93,6 +102,42 @@ export interface NewsletterCampaign {
   lastError?: string;
 }
 
+/**
+ * A standalone newsletter written in the admin composer. The Markdown body can
+ * hold gallery, photo and recent-post blocks; see composer.server.ts.
+ */
+export interface NewsletterDraft {
+  version: 1;
+  id: string;
+  title: string;
+  subject: string;
+  locale: Locale;
+  previewText?: string;
+  markdown: string;
+  /** Set once sending starts; the draft is read-only from then on. */
+  campaignId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type NewsletterSegmentRule =
+  | { field: "tag" | "country" | "region" | "source"; value: string }
+  | { field: "importedFrom"; value: "substack" }
+  | { field: "openedWithinDays"; days: number };
+
+/**
+ * A saved audience: subscribers matching every rule. Segments are evaluated
+ * when a campaign starts; the campaign keeps the resulting recipient list.
+ */
+export interface NewsletterSegment {
+  version: 1;
+  id: string;
+  name: string;
+  rules: NewsletterSegmentRule[];
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface NewsletterSubscriberStats {
   total: number;
   pending: number;
@@ -109,3 +154,13 @@ export interface NewsletterOpenRecord {
   lastOpenedAt: string;
   openCount: number;
 }
+
+export interface NewsletterClickRecord {
+  version: 1;
+  campaignId: string;
+  subscriberId: string;
+  url: string;
+  firstClickedAt: string;
+  lastClickedAt: string;
+  clickCount: number;
+}
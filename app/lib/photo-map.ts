@@ -0,0 +1,298 @@
+/**
+ * Photo Map
+ *
+ * Geotagged photos from the content index, shared by the public map, the
+ * gallery map tab and the GeoJSON API. Only visible photos of public,
+ * published galleries are placed. A gallery with `hideExactLocation: true`
+ * coarsens the coordinates of every photo it contains, wherever it appears.
+ */
+
+import type { GalleryDataEntry, GalleryPhotoEntry } from "./content-engine/content-index";
+import { isPublicPhotoGallery } from "./content-engine/publishing";
+
+export const PHOTO_MAP_TILE_SIZE = 256;
+/** One decimal degree is roughly 11 km: the town, not the doorstep. */
+const APPROXIMATE_LOCATION_DECIMALS = 1;
+/** Web Mercator cannot show the poles. */
+const MAX_LATITUDE = 85.05112878;
+
+const DEFAULT_TILES: PhotoMapTiles = {
+  url: "https://tile.openstreetmap.org/{z}/{x}/{y}.png",
+  attribution: "© OpenStreetMap contributors",
+  maxZoom: 19,
+  subdomains: [],
+};
+
+export interface PhotoMapPoint {
+  path: string;
+  filename: string;
+  gallerySlug: string;
+  galleryTitle: string;
+  title?: string;
+  lat: number;
+  lng: number;
+  /** Coordinates were coarsened by a gallery's privacy setting. */
+  approximate: boolean;
+  city?: string;
+  country?: string;
+  countryCode?: string;
+  dateTaken?: string;
+}
+
+export interface PhotoMapTiles {
+  /** Template with `{z}`, `{x}`, `{y}` and optionally `{s}`. */
+  url: string;
+  attribution: string;
+  maxZoom: number;
+  subdomains: string[];
+}
+
+export interface PhotoMapCluster<T extends { lat: number; lng: number }> {
+  lat: number;
+  lng: number;
+  /** World pixel position of the cluster at the zoom it was built for. */
+  x: number;
+  y: number;
+  points: T[];
+}
+
+type EnvironmentRecord = Record<string, unknown>;
+
+function readEnvironment(context: unknown): EnvironmentRecord {
+  if (!context || typeof context !== "object") return {};
+  const cloudflare = (context as { cloudflare?: unknown }).cloudflare;
+  if (!cloudflare || typeof cloudflare !== "object") return {};
+  const env = (cloudflare as { env?: unknown }).env;
+  return env && typeof env === "object" ? env as EnvironmentRecord : {};
+}
+
+function setting(env: EnvironmentRecord, name: string): string | null {
+  const value = env[name];
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+/**
+ * Tile server from `MAP_TILE_URL`, `MAP_TILE_ATTRIBUTION`, `MAP_TILE_MAX_ZOOM`
+ * and `MAP_TILE_SUBDOMAINS`; OpenStreetMap otherwise.
+ */
+export function resolvePhotoMapTiles(context: unknown): PhotoMapTiles {
+  const env = readEnvironment(context);
+  const url = setting(env, "MAP_TILE_URL");
+  const validUrl = url && /^(https?:\/\/|\/)/.test(url) && url.includes("{z}") ? url : null;
+  const maxZoom = Number(setting(env, "MAP_TILE_MAX_ZOOM"));
+  // Leaflet's "abc" shorthand, or a comma-separated list of longer names.
+  const subdomains = setting(env, "MAP_TILE_SUBDOMAINS") || "";
+  return {
+    url: validUrl || DEFAULT_TILES.url,
+    attribution:
+      setting(env, "MAP_TILE_ATTRIBUTION") || (validUrl ? "" : DEFAULT_TILES.attribution),
+    maxZoom: Number.isInteger(maxZoom) && maxZoom > 0 && maxZoom <= 22 ? maxZoom : DEFAULT_TILES.maxZoom,
+    subdomains: (/[\s,]/.test(subdomains) ? subdomains.split(/[\s,]+/) : subdomains.split(""))
+      .filter(Boolean),
+  };
+}
+
+export function photoMapTileUrl(tiles: PhotoMapTiles, z: number, x: number, y: number): string {
+  const subdomain = tiles.subdomains.length > 0
+    ? tiles.subdomains[Math.abs(x + y) % tiles.subdomains.length]
+    : "";
+  return tiles.url
+    .replace("{s}", subdomain)
+    .replace("{z}", String(z))
+    .replace("{x}", String(x))
+    .replace("{y}", String(y));
+}
+
+export function coarsenCoordinate(value: number): number {
+  const factor = 10 ** APPROXIMATE_LOCATION_DECIMALS;
+  return Math.round(value * factor) / factor;
+}
+
+function validCoordinates(photo: GalleryPhotoEntry): { lat: number; lng: number } | null {
+  const gps = photo.exif?.gps;
+  if (!gps || !Number.isFinite(gps.lat) || !Number.isFinite(gps.lng)) return null;
+  if (Math.abs(gps.lat) > 90 || Math.abs(gps.lng) > 180) return null;
+  // Cameras without a fix write 0,0.
+  if (gps.lat === 0 && gps.lng === 0) return null;
+  return gps;
+}
+
+/**
+ * Places the photos of every public gallery, or only of `gallerySlug` and the
+ * children it shows. `includeProtected` is for a visitor who has unlocked it.
+ */
+export function collectPhotoMapPoints(
+  galleries: readonly GalleryDataEntry[],
+  options: { gallerySlug?: string; includeProtected?: boolean; now?: Date } = {},
+): PhotoMapPoint[] {
+  const now = options.now ?? new Date();
+  const scope = options.gallerySlug;
+  // Without its own entry the scope is a virtual parent made of its children.
+  const root = scope ? galleries.find((gallery) => gallery.slug === scope) : undefined;
+  const inScope = (gallery: GalleryDataEntry) =>
+    !scope ||
+    gallery.slug === scope ||
+    (root?.includeNestedPhotos !== false && gallery.slug.startsWith(`${scope}/`));
+
+  const approximatePaths = new Set(
+    galleries
+      .filter((gallery) => gallery.hideExactLocation)
+      .flatMap((gallery) => gallery.photos.map((photo) => photo.path)),
+  );
+  const candidates = galleries
+    .filter((gallery) => inScope(gallery) && isPublicPhotoGallery(gallery, now, options.includeProtected === true))
+    .flatMap((gallery) => gallery.photos.filter((photo) => !photo.hidden).map((photo) => ({ gallery, photo })))
+    // Prefer the gallery that stores the file over logical memberships.
+    .sort((left, right) => Number(!!left.photo.isReference) - Number(!!right.photo.isReference));
+
+  const points = new Map<string, PhotoMapPoint>();
+  for (const { gallery, photo } of candidates) {
+    if (points.has(photo.path)) continue;
+    const coordinates = validCoordinates(photo);
+    if (!coordinates) continue;
+    const approximate = approximatePaths.has(photo.path);
+    points.set(photo.path, {
+      path: photo.path,
+      filename: photo.filename,
+      gallerySlug: gallery.slug,
+      galleryTitle: gallery.title,
+      title: photo.title,
+      lat: approximate ? coarsenCoordinate(coordinates.lat) : coordinates.lat,
+      lng: approximate ? coarsenCoordinate(coordinates.lng) : coordinates.lng,
+      approximate,
+      city: photo.exif?.city,
+      country: photo.exif?.country,
+      countryCode: photo.exif?.countryCode,
+      dateTaken: photo.dateTaken ?? photo.exif?.dateTaken,
+    });
+  }
+  return Array.from(points.values());
+}
+
+/** Unlocalized photo page path for a point. */
+export function photoMapPhotoPath(point: Pick<PhotoMapPoint, "gallerySlug" | "filename">): string {
+  const gallery = point.gallerySlug.split("/").map(encodeURIComponent).join("/");
+  return `/photo/${gallery}/${encodeURIComponent(point.filename)}`;
+}
+
+/** Web Mercator position in pixels of the whole world at `zoom`. */
+export function projectToWorld(lat: number, lng: number, zoom: number): { x: number; y: number } {
+  const size = PHOTO_MAP_TILE_SIZE * 2 ** zoom;
+  const sin = Math.sin((Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, lat)) * Math.PI) / 180);
+  return {
+    x: ((lng + 180) / 360) * size,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * size,
+  };
+}
+
+export function worldToLatLng(x: number, y: number, zoom: number): { lat: number; lng: number } {
+  const size = PHOTO_MAP_TILE_SIZE * 2 ** zoom;
+  const n = Math.PI - (2 * Math.PI * y) / size;
+  return {
+    lat: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+    lng: (x / size) * 360 - 180,
+  };
+}
+
+/** Groups points that fall into the same `cellSize` pixel square at `zoom`. */
+export function clusterPhotoMapPoints<T extends { lat: number; lng: number }>(
+  points: readonly T[],
+  zoom: number,
+  cellSize = 64,
+): PhotoMapCluster<T>[] {
+  const cells = new Map<string, { x: number; y: number; points: T[] }>();
+  for (const point of points) {
+    const { x, y } = projectToWorld(point.lat, point.lng, zoom);
+    const key = `${Math.floor(x / cellSize)}:${Math.floor(y / cellSize)}`;
+    const cell = cells.get(key) ?? { x: 0, y: 0, points: [] };
+    cell.x += x;
+    cell.y += y;
+    cell.points.push(point);
+    cells.set(key, cell);
+  }
+  return Array.from(cells.values()).map((cell) => {
+    const x = cell.x / cell.points.length;
+    const y = cell.y / cell.points.length;
+    return { ...worldToLatLng(x, y, zoom), x, y, points: cell.points };
+  });
+}
+
+/** Center and the closest zoom that shows every point inside the viewport. */
+export function fitPhotoMapView(
+  points: readonly { lat: number; lng: number }[],
+  width: number,
+  height: number,
+  maxZoom: number,
+  padding = 48,
+): { lat: number; lng: number; zoom: number } {
+  if (points.length === 0) return { lat: 20, lng: 0, zoom: 1 };
+  const lats = points.map((point) => point.lat);
+  const lngs = points.map((point) => point.lng);
+  const north = Math.max(...lats);
+  const south = Math.min(...lats);
+  const east = Math.max(...lngs);
+  const west = Math.min(...lngs);
+  let zoom = Math.min(maxZoom, 14);
+  for (; zoom > 0; zoom -= 1) {
+    const topLeft = projectToWorld(north, west, zoom);
+    const bottomRight = projectToWorld(south, east, zoom);
+    if (
+      bottomRight.x - topLeft.x <= Math.max(1, width - padding * 2) &&
+      bottomRight.y - topLeft.y <= Math.max(1, height - padding * 2)
+    ) break;
+  }
+  const topLeft = projectToWorld(north, west, zoom);
+  const bottomRight = projectToWorld(south, east, zoom);
+  return {
+    ...worldToLatLng((topLeft.x + bottomRight.x) / 2, (topLeft.y + bottomRight.y) / 2, zoom),
+    zoom,
+  };
+}
+
+export interface PhotoMapFeatureCollection {
+  type: "FeatureCollection";
+  features: Array<{
+    type: "Feature";
+    id: string;
+    geometry: { type: "Point"; coordinates: [number, number] };
+    properties: {
+      title: string | null;
+      url: string;
+      image: string;
+      gallery: string;
+      galleryTitle: string;
+      approximate: boolean;
+      city: string | null;
+      country: string | null;
+      countryCode: string | null;
+      dateTaken: string | null;
+    };
+  }>;
+}
+
+/** GeoJSON (RFC 7946) with absolute photo page and image URLs. */
+export function buildPhotoMapGeoJson(
+  points: readonly PhotoMapPoint[],
+  urls: { photo(point: PhotoMapPoint): string; image(point: PhotoMapPoint): string },
+): PhotoMapFeatureCollection {
+  return {
+    type: "FeatureCollection",
+    features: points.map((point) => ({
+      type: "Feature",
+      id: point.path,
+      geometry: { type: "Point", coordinates: [point.lng, point.lat] },
+      properties: {
+        title: point.title ?? null,
+        url: urls.photo(point),
+        image: urls.image(point),
+        gallery: point.gallerySlug,
+        galleryTitle: point.galleryTitle,
+        approximate: point.approximate,
+        city: point.city ?? null,
+        country: point.country ?? null,
+        countryCode: point.countryCode ?? null,
+        dateTaken: point.dateTaken ?? null,
+      },
+    })),
+  };
+}
@@ -4,6 +4,7 @@ import type { StorageAdapter } from "~/lib/content-engine";
 import {
   DEFAULT_LOCALE,
   normalizeLocale,
+  normalizeLocaleList,
   type Locale,
 } from "~/lib/i18n";
 
@@ -14,6 +15,11 @@ export interface SiteLanguageSettings {
   multilingual: boolean;
   /** Source/default language for new content and unmatched browser languages. */
   defaultLocale: Locale;
+  /**
+   * Editions the site publishes, in display order. When omitted the site
+   * keeps the original Spanish and English editions.
+   */
+  locales?: Locale[];
 }
 
 export const DEFAULT_SITE_LANGUAGE_SETTINGS: SiteLanguageSettings = {
@@ -26,6 +32,7 @@ type SiteSettingsDocument = {
     multilingual?: unknown;
     default?: unknown;
     defaultLocale?: unknown;
+    locales?: unknown;
   };
   [key: string]: unknown;
 };
@@ -36,16 +43,19 @@ export function parseSiteLanguageSettings(value: unknown): SiteLanguageSettings
   const language = document.language;
   if (!language || typeof language !== "object") return DEFAULT_SITE_LANGUAGE_SETTINGS;
 
-  return {
+  const settings: SiteLanguageSettings = {
     multilingual: language.multilingual === true,
     defaultLocale:
       normalizeLocale(language.defaultLocale) ||
       normalizeLocale(language.default) ||
       DEFAULT_SITE_LANGUAGE_SETTINGS.defaultLocale,
   };
+  const locales = normalizeLocaleList(language.locales);
+  if (locales.length > 0) settings.locales = locales;
+  return settings;
 }
 
-async function readSiteSettingsDocument(
+export async function readSiteSettingsDocument(
   storage: Pick<StorageAdapter, "getText">,
 ): Promise<SiteSettingsDocument> {
   const source = await storage.getText(SITE_SETTINGS_PATH);
@@ -76,10 +86,12 @@ export async function writeSiteLanguageSettings(
     multilingual: settings.multilingual === true,
     defaultLocale: normalizeLocale(settings.defaultLocale) || DEFAULT_LOCALE,
   };
+  const locales = normalizeLocaleList(settings.locales);
 
   document.language = {
     multilingual: normalized.multilingual,
     default: normalized.defaultLocale,
+    ...(locales.length > 0 ? { locales } : {}),
   };
 
   await storage.put(
@@ -0,0 +1,125 @@
+/**
+ * Watermark lookup for variant generation: the site mark from site.yaml, the
+ * nearest gallery.yaml override above an image, and the logo bytes.
+ */
+
+import { parse as parseYaml } from "yaml";
+import {
+  resolveWatermarkSettings,
+  type StorageAdapter,
+  type WatermarkSettings,
+} from "~/lib/content-engine";
+import { readSiteSettingsDocument } from "~/lib/site-languages.server";
+
+/** A resolved mark, ready to stamp. */
+export interface WatermarkStamp {
+  settings: WatermarkSettings;
+  /** PNG bytes when the mark is a logo. */
+  logo?: Uint8Array;
+}
+
+type WatermarkStorage = Pick<StorageAdapter, "get" | "getText">;
+
+const NO_OVERRIDE = Symbol("no watermark override");
+
+function parentDirectory(path: string): string {
+  const slashIndex = path.lastIndexOf("/");
+  return slashIndex >= 0 ? path.slice(0, slashIndex) : "";
+}
+
+async function readSiteWatermark(storage: WatermarkStorage): Promise<unknown> {
+  return (await readSiteSettingsDocument(storage)).watermark;
+}
+
+async function readGalleryOverride(storage: WatermarkStorage, directory: string): Promise<unknown> {
+  const source = await storage.getText(`${directory}/gallery.yaml`).catch(() => null);
+  if (!source) return NO_OVERRIDE;
+  try {
+    const metadata = parseYaml(source) as Record<string, unknown> | null;
+    return metadata && "watermark" in metadata ? metadata.watermark : NO_OVERRIDE;
+  } catch {
+    return NO_OVERRIDE;
+  }
+}
+
+/** Nested galleries inherit the closest parent override. */
+async function findOverride(
+  directory: string,
+  readOverride: (directory: string) => Promise<unknown>,
+): Promise<unknown> {
+  for (let current = directory; current.startsWith("galleries/"); current = parentDirectory(current)) {
+    const override = await readOverride(current);
+    if (override !== NO_OVERRIDE) return override;
+  }
+  return undefined;
+}
+
+/** Settings that apply to a gallery folder, for display in the admin. */
+export async function getGalleryWatermarkSettings(
+  storage: WatermarkStorage,
+  galleryPath: string,
+): Promise<WatermarkSettings | null> {
+  const [site, override] = await Promise.all([
+    readSiteWatermark(storage),
+    findOverride(galleryPath, (directory) => readGalleryOverride(storage, directory)),
+  ]);
+  return resolveWatermarkSettings(site, override);
+}
+
+/**
+ * Create a lookup that caches site settings, gallery overrides and logos, so
+ * batch optimization reads each file once.
+ */
+export function createWatermarkResolver(
+  storage: WatermarkStorage,
+): (imagePath: string) => Promise<WatermarkStamp | null> {
+  let siteWatermark: Promise<unknown> | null = null;
+  const overrides = new Map<string, Promise<unknown>>();
+  const logos = new Map<string, Promise<Uint8Array | null>>();
+
+  const readOverride = (directory: string) => {
+    let override = overrides.get(directory);
+    if (!override) {
+      override = readGalleryOverride(storage, directory);
+      overrides.set(directory, override);
+    }
+    return override;
+  };
+
+  const readLogo = (path: string) => {
+    let logo = logos.get(path);
+    if (!logo) {
+      logo = storage.get(path).then(
+        (buffer) => (buffer ? new Uint8Array(buffer) : null),
+        () => null,
+      );
+      logos.set(path, logo);
+    }
+    return logo;
+  };
+
+  return async (imagePath) => {
+    siteWatermark ??= readSiteWatermark(storage);
+    const settings = resolveWatermarkSettings(
+      await siteWatermark,
+      await findOverride(parentDirectory(imagePath), readOverride),
+    );
+    if (!settings) return null;
+    if (!settings.logo) return { settings };
+
+    const logo = await readLogo(settings.logo);
+    if (logo) return { settings, logo };
+    console.warn(`[Watermark] Logo ${settings.logo} not found.`);
+    // Fall back to the text mark when there is one.
+    if (!settings.text) return null;
+    const { logo: _missing, ...textSettings } = settings;
+    return { settings: textSettings };
+  };
+}
+
+export function getWatermarkForImage(
+  storage: WatermarkStorage,
+  imagePath: string,
+): Promise<WatermarkStamp | null> {
+  return createWatermarkResolver(storage)(imagePath);
+}
@@ -16,9 +16,11 @@ import type {
 import { isPhotoAiEnabled } from "~/lib/ai/photo-ai-service.server";
 import { getStorage } from "~/lib/content-engine";
 import { localeForRequest, localeResponseHeaders } from "~/lib/i18n.server";
+import { parseEquipmentStatsVisibility } from "~/lib/equipment-stats.server";
 import {
   DEFAULT_SITE_LANGUAGE_SETTINGS,
-  readSiteLanguageSettings,
+  parseSiteLanguageSettings,
+  readSiteSettingsDocument,
 } from "~/lib/site-languages.server";
 import {
   THEME_FAVICONS,
@@ -38,8 +40,11 @@ const resilientStylesheet = import.meta.env.DEV
 export async function loader({ context, request }: LoaderFunctionArgs) {
   // Only expose the capability bit. The user's Gemini key never reaches the browser.
   let siteLanguages = DEFAULT_SITE_LANGUAGE_SETTINGS;
+  let equipmentStatsPublic = true;
   try {
-    siteLanguages = await readSiteLanguageSettings(getStorage(context, request));
+    const siteSettings = await readSiteSettingsDocument(getStorage(context, request));
+    siteLanguages = parseSiteLanguageSettings(siteSettings);
+    equipmentStatsPublic = parseEquipmentStatsVisibility(siteSettings) === "public";
   } catch {
     // Setup and unconfigured-storage routes still need a renderable document.
   }
@@ -55,6 +60,7 @@ export async function loader({ context, request }: LoaderFunctionArgs) {
   return json(
     {
       photoAiEnabled: isPhotoAiEnabled(context),
+      equipmentStatsPublic,
       locale,
       siteLanguages,
       analytics:
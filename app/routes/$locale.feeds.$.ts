@@ -0,0 +1 @@
+export { loader } from "./feeds.$";
@@ -0,0 +1 @@
+export { default, headers, loader, meta } from "./map";
@@ -12,6 +12,7 @@ import { getPageBySlug, getStorage, getNavigationFromIndex } from "~/lib/content
 import { Layout } from "~/components/Layout";
 import { GalleryBreadcrumb } from "~/components/GalleryBreadcrumb";
 import { localizedAlternates, requireRouteLocale } from "~/lib/i18n.server";
+import { hreflangLinks } from "~/lib/i18n";
 import { readSiteLanguageSettings } from "~/lib/site-languages.server";
 
 export { mergeLocalizedRouteHeaders as headers } from "~/lib/i18n.server";
@@ -24,8 +25,7 @@ export const meta: MetaFunction<typeof loader> = ({ data, params }) => {
     { title: `${data.page.title} - VictoPress` },
     { name: "description", content: data.page.description },
     { tagName: "link", rel: "canonical", href: data.alternates.canonical },
-    ...(data.alternates.es ? [{ tagName: "link" as const, rel: "alternate", hrefLang: "es", href: data.alternates.es }] : []),
-    ...(data.alternates.en ? [{ tagName: "link" as const, rel: "alternate", hrefLang: "en", href: data.alternates.en }] : []),
+    ...hreflangLinks(data.alternates),
   ];
 };
 
@@ -13,8 +13,9 @@ import { getStorage, needsSetup, getNavigationFromIndex, getHomePhotosFromIndex
 import { Layout, PhotoGrid, PhotoItem } from "~/components/Layout";
 import { GalleryBreadcrumb } from "~/components/GalleryBreadcrumb";
 import { generateMetaTags, getBaseUrl, buildImageUrl } from "~/utils/seo";
+import { photoAltText } from "~/utils/image-optimization";
 import yaml from "js-yaml";
-import { localizedPath } from "~/lib/i18n";
+import { localizedPath, hreflangLinks } from "~/lib/i18n";
 import { localizedAlternates, requireRouteLocale } from "~/lib/i18n.server";
 import { readSiteLanguageSettings } from "~/lib/site-languages.server";
 
@@ -40,8 +41,7 @@ export const meta: MetaFunction<typeof loader> = ({ data }) => {
   if (!data?.alternates) return tags;
   return [
     ...tags,
-    ...(data.alternates.es ? [{ tagName: "link" as const, rel: "alternate", hrefLang: "es", href: data.alternates.es }] : []),
-    ...(data.alternates.en ? [{ tagName: "link" as const, rel: "alternate", hrefLang: "en", href: data.alternates.en }] : []),
+    ...hreflangLinks(data.alternates),
     ...(data.alternates.xDefault ? [{ tagName: "link" as const, rel: "alternate", hrefLang: "x-default", href: data.alternates.xDefault }] : []),
   ];
 };
@@ -121,7 +121,7 @@ export default function Index() {
           <PhotoItem
             key={`${photo.gallerySlug}-${photo.id}-${photo.homeIndex}`}
             src={`/api/images/${photo.path}`}
-            alt={photo.title || photo.filename}
+            alt={photoAltText(photo)}
             width={photo.width}
             height={photo.height}
             aspectRatio="3:2"
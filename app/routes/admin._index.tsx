@@ -8,14 +8,13 @@ import type { LoaderFunctionArgs } from "@remix-run/cloudflare";
 import { useLoaderData, Link } from "@remix-run/react";
 import { json } from "@remix-run/cloudflare";
 import { AdminLayout } from "~/components/AdminLayout";
-import { checkAdminAuth, getAdminUser } from "~/utils/admin-auth";
+import { requireAdminAccount } from "~/utils/admin-auth";
 import { getStorage, isDemoMode, getContentIndex } from "~/lib/content-engine";
 
 export async function loader({ request, context }: LoaderFunctionArgs) {
   // Check authentication
-  await checkAdminAuth(request, context);
+  const { username, role } = await requireAdminAccount(request, context);
   
-  const username = await getAdminUser(request, context);
   const storage = getStorage(context);
   const demoMode = isDemoMode(context);
   
@@ -33,6 +32,7 @@ export async function loader({ request, context }: LoaderFunctionArgs) {
   
   return json({
     username,
+    role,
     isDemoMode: demoMode,
     stats: {
       galleries: contentIndex.stats.totalGalleries,
@@ -46,10 +46,10 @@ export async function loader({ request, context }: LoaderFunctionArgs) {
 }
 
 export default function AdminDashboard() {
-  const { username, isDemoMode: demoMode, stats, recentGalleries, recentPosts } = useLoaderData<typeof loader>();
+  const { username, role, isDemoMode: demoMode, stats, recentGalleries, recentPosts } = useLoaderData<typeof loader>();
 
   return (
-    <AdminLayout username={username || undefined} isDemoMode={demoMode}>
+    <AdminLayout username={username || undefined} role={role} isDemoMode={demoMode}>
       <div className="p-6 lg:p-8">
         {/* Header */}
         <div className="mb-8">
@@ -1,8 +1,10 @@
 /**
  * Admin - Photo AI
  *
- * Reviews AI-generated photo metadata and gallery membership suggestions.
- * Analysis runs in resumable batches through /api/admin/ai.
+ * Reviews AI-generated photo metadata and gallery membership suggestions,
+ * the rules that accept suggestions automatically, and the optional people
+ * clusters. Analysis runs in resumable batches
+ * through /api/admin/ai.
  */
 
 import type { LoaderFunctionArgs } from "@remix-run/cloudflare";
@@ -11,7 +13,7 @@ import { Link, useFetcher, useLoaderData } from "@remix-run/react";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { AdminLayout } from "~/components/AdminLayout";
 import { PhotoAiGraph } from "~/components/PhotoAiGraph";
-import { checkAdminAuth, getAdminUser } from "~/utils/admin-auth";
+import { requireAdminAccount } from "~/utils/admin-auth";
 
 interface AiSummary {
   total: number;
@@ -43,13 +45,41 @@ interface AiPhotoRecord {
   suggestions: GallerySuggestion[];
 }
 
+interface FaceBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface AiPerson {
+  personId: string;
+  name?: string;
+  suppressed: boolean;
+  public: boolean;
+  photoCount: number;
+  cover?: { path: string; box: FaceBox };
+}
+
+interface AiPeopleDashboard {
+  enabled: boolean;
+  provider?: string;
+  model?: string;
+  setupMessage?: string;
+  people: AiPerson[];
+}
+
 interface AiDashboardData {
   configured: boolean;
+  provider: string;
+  setupMessage?: string;
   model: string;
   embeddingModel: string;
   vectorBackend: string;
+  vectorMismatch?: string;
   summary: AiSummary;
   records: AiPhotoRecord[];
+  people?: AiPeopleDashboard;
 }
 
 interface AiMutationResponse extends Partial<AiDashboardData> {
@@ -80,17 +110,56 @@ interface MetadataBackfillResponse {
   error?: string;
 }
 
+interface GalleryRule {
+  gallerySlug: string;
+  enabled: boolean;
+  minConfidence: number;
+  requiredTags: string[];
+  excludedTerms: string[];
+  useHintExclusions: boolean;
+}
+
+interface GalleryRuleDecision {
+  id: string;
+  photoPath: string;
+  gallerySlug: string;
+  confidence: number;
+  appliedAt: string;
+  membershipAdded: boolean;
+  undoneAt?: string;
+}
+
+interface GalleryRulesData {
+  galleries: Array<{ slug: string; title: string; classificationHint?: string; hintExclusions: string[] }>;
+  rules: GalleryRule[];
+  decisions: GalleryRuleDecision[];
+}
+
+interface GalleryRulesRun {
+  dryRun: boolean;
+  evaluated: number;
+  accepted: Array<{ assetId: string; photoPath: string; gallerySlug: string; confidence: number }>;
+  blocked: Record<"confidence" | "required-tags" | "excluded", number>;
+  errors: Array<{ photoPath: string; gallerySlug: string; error: string }>;
+}
+
 type StatusFilter = "all" | "pending" | "completed" | "failed";
-type ViewMode = "map" | "review";
+type ViewMode = "map" | "review" | "rules" | "people";
+
+const VIEW_MODE_LABELS: Record<ViewMode, string> = {
+  map: "Similarity map",
+  review: "Review suggestions",
+  rules: "Gallery rules",
+  people: "People",
+};
 
 export async function loader({ request, context }: LoaderFunctionArgs) {
-  await checkAdminAuth(request, context);
-  const username = await getAdminUser(request, context);
-  return json({ username });
+  const { username, role } = await requireAdminAccount(request, context, "content");
+  return json({ username, role });
 }
 
 export default function AdminAi() {
-  const { username } = useLoaderData<typeof loader>();
+  const { username, role } = useLoaderData<typeof loader>();
   const dashboardFetcher = useFetcher<AiDashboardData | { error: string }>();
   const startFetcher = useFetcher<AiMutationResponse>();
   const batchFetcher = useFetcher<AiMutationResponse>();
@@ -213,7 +282,7 @@ export default function AdminAi() {
   }, []);
 
   return (
-    <AdminLayout username={username || undefined}>
+    <AdminLayout username={username || undefined} role={role}>
       <div className="p-6 lg:p-8 max-w-7xl mx-auto">
         <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between mb-8">
           <div>
@@ -271,7 +340,7 @@ export default function AdminAi() {
         ) : null}
 
         <div className="mt-8 inline-flex rounded-lg border border-gray-200 bg-white p-1 dark:border-gray-700 dark:bg-gray-950" aria-label="Photo AI view">
-          {(["map", "review"] as const).map((mode) => (
+          {(["map", "review", "rules", "people"] as const).map((mode) => (
             <button
               key={mode}
               type="button"
@@ -283,7 +352,7 @@ export default function AdminAi() {
                   : "text-gray-600 hover:bg-gray-100 dark:text-gray-300 dark:hover:bg-gray-800"
               }`}
             >
-              {mode === "map" ? "Similarity map" : "Review suggestions"}
+              {VIEW_MODE_LABELS[mode]}
             </button>
           ))}
         </div>
@@ -327,6 +396,18 @@ export default function AdminAi() {
             )}
           </section>
         ) : null}
+
+        {viewMode === "rules" ? (
+          <GalleryRulesSection onChanged={refreshDashboard} onNotice={setNotice} />
+        ) : null}
+
+        {viewMode === "people" && dashboard ? (
+          <PeopleSection
+            people={dashboard.people}
+            onChanged={refreshDashboard}
+            onNotice={setNotice}
+          />
+        ) : null}
       </div>
     </AdminLayout>
   );
@@ -493,14 +574,20 @@ function ConfigurationPanel({
               </span>
             )}
           </div>
-          <dl className="grid gap-x-8 gap-y-2 text-sm sm:grid-cols-3">
+          <dl className="grid gap-x-8 gap-y-2 text-sm sm:grid-cols-4">
+            <ModelDetail label="Provider" value={PROVIDER_LABELS[dashboard.provider] ?? dashboard.provider} />
             <ModelDetail label="Analysis" value={dashboard.model || "Not configured"} />
             <ModelDetail label="Embeddings" value={dashboard.embeddingModel || "Not configured"} />
             <ModelDetail label="Vector index" value={dashboard.vectorBackend || "Not configured"} />
           </dl>
+          {dashboard.configured && dashboard.vectorMismatch && (
+            <p className="mt-4 text-sm text-amber-700 dark:text-amber-300">
+              {dashboard.vectorMismatch} Photos embedded by another model are re-embedded on the next analysis run.
+            </p>
+          )}
           {!dashboard.configured && (
             <p className="mt-4 text-sm text-amber-700 dark:text-amber-300">
-              Add <code className="rounded bg-amber-100 px-1 dark:bg-amber-900/40">GEMINI_API_KEY</code> as a server-side secret.
+              {dashboard.setupMessage ?? "Photo AI is not configured"}.
               The files-first vector index is ready; Cloudflare Vectorize is optional.{" "}
               <Link to="/admin/settings#photo-ai-setup" className="font-medium underline underline-offset-2">
                 Open secure setup instructions
@@ -544,6 +631,12 @@ function ConfigurationPanel({
   );
 }
 
+const PROVIDER_LABELS: Record<string, string> = {
+  gemini: "Gemini",
+  openai: "OpenAI-compatible",
+  ollama: "Ollama (local)",
+};
+
 function ModelDetail({ label, value }: { label: string; value: string }) {
   return (
     <div className="min-w-0">
@@ -861,6 +954,630 @@ function SuggestionRow({
   );
 }
 
+function GalleryRulesSection({
+  onChanged,
+  onNotice,
+}: {
+  onChanged: () => void;
+  onNotice: (notice: { type: "success" | "error"; text: string }) => void;
+}) {
+  const dataFetcher = useFetcher<AiMutationResponse & Partial<GalleryRulesData>>();
+  const runFetcher = useFetcher<AiMutationResponse & Partial<GalleryRulesRun>>();
+  const handledRun = useRef<AiMutationResponse | null>(null);
+  const initialLoadStarted = useRef(false);
+  const [preview, setPreview] = useState<GalleryRulesRun | null>(null);
+  const [newGallerySlug, setNewGallerySlug] = useState("");
+
+  const reload = useCallback(() => {
+    const formData = new FormData();
+    formData.append("action", "gallery-rules");
+    dataFetcher.submit(formData, { method: "POST", action: "/api/admin/ai" });
+  }, [dataFetcher]);
+
+  useEffect(() => {
+    if (initialLoadStarted.current) return;
+    initialLoadStarted.current = true;
+    reload();
+  }, [reload]);
+
+  useEffect(() => {
+    const response = runFetcher.data;
+    if (runFetcher.state !== "idle" || !response || handledRun.current === response) return;
+    handledRun.current = response;
+    const error = getMutationError(response);
+    onNotice(error
+      ? { type: "error", text: error }
+      : { type: "success", text: response.message || "Gallery rules ran." });
+    if (error) return;
+    if (response.dryRun) {
+      setPreview(response as GalleryRulesRun);
+    } else {
+      setPreview(null);
+      reload();
+      onChanged();
+    }
+  }, [onChanged, onNotice, reload, runFetcher.data, runFetcher.state]);
+
+  const run = (action: "preview-gallery-rules" | "apply-gallery-rules") => {
+    handledRun.current = null;
+    const formData = new FormData();
+    formData.append("action", action);
+    runFetcher.submit(formData, { method: "POST", action: "/api/admin/ai" });
+  };
+
+  const data = dataFetcher.data?.galleries ? (dataFetcher.data as GalleryRulesData) : null;
+  const galleryTitles = new Map(data?.galleries.map((gallery) => [gallery.slug, gallery.title]) ?? []);
+  const unruled = data?.galleries.filter(
+    (gallery) => !data.rules.some((rule) => rule.gallerySlug === gallery.slug),
+  ) ?? [];
+  const draft = newGallerySlug && !data?.rules.some((rule) => rule.gallerySlug === newGallerySlug)
+    ? {
+      gallerySlug: newGallerySlug,
+      enabled: true,
+      minConfidence: 0.85,
+      requiredTags: [],
+      excludedTerms: [],
+      useHintExclusions: false,
+    }
+    : null;
+  const isRunning = runFetcher.state !== "idle";
+
+  return (
+    <section aria-labelledby="gallery-rules-heading" className="mt-4">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between mb-4">
+        <div>
+          <h2 id="gallery-rules-heading" className="text-lg font-semibold text-gray-900 dark:text-white">
+            Gallery rules
+          </h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1 max-w-2xl">
+            Rules accept pending suggestions after every analysis batch and add the photo to the gallery. Every automatic decision is logged below and can be undone.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => run("preview-gallery-rules")}
+            disabled={isRunning || !data?.rules.some((rule) => rule.enabled)}
+            className="inline-flex items-center justify-center gap-2 px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-700 text-sm font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-800 disabled:opacity-50"
+          >
+            {isRunning && <Spinner className="w-3.5 h-3.5" />}
+            Preview on library
+          </button>
+          <button
+            type="button"
+            onClick={() => run("apply-gallery-rules")}
+            disabled={isRunning || !preview || preview.accepted.length === 0}
+            title={preview ? undefined : "Preview the rules first"}
+            className="px-4 py-2 rounded-lg bg-gray-900 dark:bg-white text-white dark:text-gray-900 text-sm font-medium disabled:opacity-50"
+          >
+            Apply to library
+          </button>
+        </div>
+      </div>
+
+      {preview && <GalleryRulesPreview run={preview} galleryTitles={galleryTitles} />}
+
+      {!data ? (
+        <DashboardSkeleton />
+      ) : (
+        <>
+          <div className="grid gap-4 lg:grid-cols-2">
+            {[...data.rules, ...(draft ? [draft] : [])].map((rule) => {
+              const gallery = data.galleries.find((candidate) => candidate.slug === rule.gallerySlug);
+              return (
+                <GalleryRuleEditor
+                  key={rule.gallerySlug}
+                  rule={rule}
+                  galleryTitle={gallery?.title ?? rule.gallerySlug}
+                  hintExclusions={gallery?.hintExclusions ?? []}
+                  onSaved={() => {
+                    setNewGallerySlug("");
+                    setPreview(null);
+                    reload();
+                  }}
+                  onNotice={onNotice}
+                />
+              );
+            })}
+          </div>
+
+          {unruled.length > 0 && (
+            <label className="mt-4 flex max-w-md items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <span className="whitespace-nowrap">Add a rule for</span>
+              <select
+                value={newGallerySlug}
+                onChange={(event) => setNewGallerySlug(event.target.value)}
+                className="min-w-0 flex-1 rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 px-2.5 py-1.5 text-sm"
+              >
+                <option value="">Choose a gallery…</option>
+                {unruled.map((gallery) => (
+                  <option key={gallery.slug} value={gallery.slug}>{gallery.title}</option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          <h3 className="mt-8 mb-3 text-sm font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">
+            Automatic decisions
+          </h3>
+          {data.decisions.length === 0 ? (
+            <div className="rounded-xl border border-dashed border-gray-300 dark:border-gray-700 p-8 text-center text-sm text-gray-500 dark:text-gray-400">
+              No automatic decisions yet.
+            </div>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-800 rounded-xl border border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-950">
+              {data.decisions.map((decision) => (
+                <GalleryRuleDecisionRow
+                  key={decision.id}
+                  decision={decision}
+                  galleryTitle={galleryTitles.get(decision.gallerySlug) ?? decision.gallerySlug}
+                  onChanged={() => {
+                    reload();
+                    onChanged();
+                  }}
+                  onNotice={onNotice}
+                />
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
+
+function GalleryRulesPreview({
+  run,
+  galleryTitles,
+}: {
+  run: GalleryRulesRun;
+  galleryTitles: ReadonlyMap<string, string>;
+}) {
+  const shown = run.accepted.slice(0, 60);
+  return (
+    <div className="mb-6 rounded-xl border border-violet-200 bg-violet-50 p-4 dark:border-violet-900/60 dark:bg-violet-950/30">
+      <p className="text-sm font-medium text-violet-900 dark:text-violet-200">
+        Dry run: {run.accepted.length} of {run.evaluated} pending suggestions would be accepted.
+      </p>
+      <p className="mt-1 text-xs text-violet-800 dark:text-violet-300">
+        Blocked by confidence: {run.blocked.confidence} · missing tags: {run.blocked["required-tags"]} · exclusions: {run.blocked.excluded}
+      </p>
+      {shown.length > 0 && (
+        <ul className="mt-3 grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+          {shown.map((item) => (
+            <li key={`${item.assetId}:${item.gallerySlug}`} className="flex items-center gap-3 rounded-lg bg-white/70 p-2 dark:bg-gray-950/60">
+              <img
+                src={`/api/images/${encodeImagePath(item.photoPath)}`}
+                alt=""
+                loading="lazy"
+                className="h-10 w-10 flex-shrink-0 rounded object-cover"
+              />
+              <div className="min-w-0 text-xs">
+                <p className="truncate text-gray-900 dark:text-white" title={item.photoPath}>
+                  {item.photoPath.split("/").pop()}
+                </p>
+                <p className="truncate text-gray-500 dark:text-gray-400">
+                  → {galleryTitles.get(item.gallerySlug) ?? item.gallerySlug} · {formatConfidence(item.confidence)}
+                </p>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+      {run.accepted.length > shown.length && (
+        <p className="mt-2 text-xs text-violet-800 dark:text-violet-300">
+          And {run.accepted.length - shown.length} more.
+        </p>
+      )}
+    </div>
+  );
+}
+
+function GalleryRuleEditor({
+  rule,
+  galleryTitle,
+  hintExclusions,
+  onSaved,
+  onNotice,
+}: {
+  rule: GalleryRule;
+  galleryTitle: string;
+  hintExclusions: string[];
+  onSaved: () => void;
+  onNotice: (notice: { type: "success" | "error"; text: string }) => void;
+}) {
+  const fetcher = useFetcher<AiMutationResponse>();
+  const handledResponse = useRef<AiMutationResponse | null>(null);
+  const [enabled, setEnabled] = useState(rule.enabled);
+  const [minConfidence, setMinConfidence] = useState(Math.round(rule.minConfidence * 100));
+  const [requiredTags, setRequiredTags] = useState(rule.requiredTags.join(", "));
+  const [excludedTerms, setExcludedTerms] = useState(rule.excludedTerms.join(", "));
+  const [useHintExclusions, setUseHintExclusions] = useState(rule.useHintExclusions);
+  const idPrefix = `gallery-rule-${rule.gallerySlug.replace(/[^a-z0-9-]/gi, "-")}`;
+
+  useEffect(() => {
+    const response = fetcher.data;
+    if (fetcher.state !== "idle" || !response || handledResponse.current === response) return;
+    handledResponse.current = response;
+    const error = getMutationError(response);
+    onNotice(error
+      ? { type: "error", text: error }
+      : { type: "success", text: response.message || "Gallery rule saved." });
+    if (!error) onSaved();
+  }, [fetcher.data, fetcher.state, onNotice, onSaved]);
+
+  const save = () => {
+    handledResponse.current = null;
+    const formData = new FormData();
+    formData.append("action", "save-gallery-rule");
+    formData.append("gallerySlug", rule.gallerySlug);
+    formData.append("enabled", String(enabled));
+    formData.append("minConfidence", String(minConfidence / 100));
+    formData.append("requiredTags", requiredTags);
+    formData.append("excludedTerms", excludedTerms);
+    formData.append("useHintExclusions", String(useHintExclusions));
+    fetcher.submit(formData, { method: "POST", action: "/api/admin/ai" });
+  };
+
+  return (
+    <form
+      className={`rounded-xl border border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-950 p-4 ${
+        enabled ? "" : "opacity-70"
+      }`}
+      onSubmit={(event) => {
+        event.preventDefault();
+        save();
+      }}
+    >
+      <div className="flex items-center justify-between gap-3">
+        <h3 className="truncate font-medium text-gray-900 dark:text-white">{galleryTitle}</h3>
+        <label className="inline-flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <input type="checkbox" checked={enabled} onChange={(event) => setEnabled(event.target.checked)} />
+          Active
+        </label>
+      </div>
+
+      <div className="mt-3 grid gap-3 sm:grid-cols-2">
+        <label htmlFor={`${idPrefix}-confidence`} className="text-xs font-medium text-gray-600 dark:text-gray-400">
+          Minimum confidence (%)
+          <input
+            id={`${idPrefix}-confidence`}
+            type="number"
+            min={50}
+            max={100}
+            value={minConfidence}
+            onChange={(event) => setMinConfidence(Number(event.target.value))}
+            className="mt-1 block w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 px-2.5 py-1.5 text-sm text-gray-900 dark:text-white"
+          />
+        </label>
+        <label htmlFor={`${idPrefix}-tags`} className="text-xs font-medium text-gray-600 dark:text-gray-400">
+          Required tags
+          <input
+            id={`${idPrefix}-tags`}
+            value={requiredTags}
+            onChange={(event) => setRequiredTags(event.target.value)}
+            placeholder="noche, calle"
+            className="mt-1 block w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 px-2.5 py-1.5 text-sm text-gray-900 dark:text-white"
+          />
+        </label>
+      </div>
+
+      <label htmlFor={`${idPrefix}-excluded`} className="mt-3 block text-xs font-medium text-gray-600 dark:text-gray-400">
+        Never accept when the tags or description mention
+        <input
+          id={`${idPrefix}-excluded`}
+          value={excludedTerms}
+          onChange={(event) => setExcludedTerms(event.target.value)}
+          placeholder="retrato, interior"
+          className="mt-1 block w-full rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 px-2.5 py-1.5 text-sm text-gray-900 dark:text-white"
+        />
+      </label>
+
+      {hintExclusions.length > 0 && (
+        <label className="mt-3 flex items-start gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <input
+            type="checkbox"
+            className="mt-0.5"
+            checked={useHintExclusions}
+            onChange={(event) => setUseHintExclusions(event.target.checked)}
+          />
+          <span>
+            Also exclude the terms from the classification hint
+            <span className="block text-xs text-gray-500 dark:text-gray-400">{hintExclusions.join(", ")}</span>
+          </span>
+        </label>
+      )}
+
+      <div className="mt-4 flex justify-end">
+        <button
+          type="submit"
+          disabled={fetcher.state !== "idle"}
+          className="inline-flex items-center gap-2 px-3 py-1.5 rounded-md bg-gray-900 dark:bg-white text-white dark:text-gray-900 text-xs font-medium disabled:opacity-50"
+        >
+          {fetcher.state !== "idle" && <Spinner className="w-3.5 h-3.5" />}
+          Save rule
+        </button>
+      </div>
+    </form>
+  );
+}
+
+function GalleryRuleDecisionRow({
+  decision,
+  galleryTitle,
+  onChanged,
+  onNotice,
+}: {
+  decision: GalleryRuleDecision;
+  galleryTitle: string;
+  onChanged: () => void;
+  onNotice: (notice: { type: "success" | "error"; text: string }) => void;
+}) {
+  const fetcher = useFetcher<AiMutationResponse>();
+  const handledResponse = useRef<AiMutationResponse | null>(null);
+
+  useEffect(() => {
+    const response = fetcher.data;
+    if (fetcher.state !== "idle" || !response || handledResponse.current === response) return;
+    handledResponse.current = response;
+    const error = getMutationError(response);
+    onNotice(error
+      ? { type: "error", text: error }
+      : { type: "success", text: response.message || "Automatic assignment undone." });
+    onChanged();
+  }, [fetcher.data, fetcher.state, onChanged, onNotice]);
+
+  const undo = () => {
+    handledResponse.current = null;
+    const formData = new FormData();
+    formData.append("action", "undo-gallery-rule");
+    formData.append("decisionId", decision.id);
+    fetcher.submit(formData, { method: "POST", action: "/api/admin/ai" });
+  };
+
+  return (
+    <li className={`flex items-center gap-3 p-3 text-sm ${decision.undoneAt ? "opacity-60" : ""}`}>
+      <img
+        src={`/api/images/${encodeImagePath(decision.photoPath)}`}
+        alt=""
+        loading="lazy"
+        className="h-10 w-10 flex-shrink-0 rounded object-cover"
+      />
+      <div className="min-w-0 flex-1">
+        <p className="truncate text-gray-900 dark:text-white" title={decision.photoPath}>
+          {decision.photoPath.split("/").pop()} → {galleryTitle}
+        </p>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {formatConfidence(decision.confidence)} · {new Date(decision.appliedAt).toLocaleString()}
+          {!decision.membershipAdded && " · already in the gallery"}
+          {decision.undoneAt && " · Undone"}
+        </p>
+      </div>
+      {!decision.undoneAt && (
+        <button
+          type="button"
+          onClick={undo}
+          disabled={fetcher.state !== "idle"}
+          className="px-2.5 py-1.5 rounded-md border border-gray-300 dark:border-gray-700 text-xs font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-800 disabled:opacity-50"
+        >
+          Undo
+        </button>
+      )}
+    </li>
+  );
+}
+
+function PeopleSection({
+  people,
+  onChanged,
+  onNotice,
+}: {
+  people?: AiPeopleDashboard;
+  onChanged: () => void;
+  onNotice: (notice: { type: "success" | "error"; text: string }) => void;
+}) {
+  const fetcher = useFetcher<AiMutationResponse & { people?: number }>();
+  const handledResponse = useRef<AiMutationResponse | null>(null);
+
+  useEffect(() => {
+    const response = fetcher.data;
+    if (fetcher.state !== "idle" || !response || handledResponse.current === response) return;
+    handledResponse.current = response;
+    const error = getMutationError(response);
+    onNotice(error
+      ? { type: "error", text: error }
+      : { type: "success", text: response.message || "Faces were grouped again." });
+    onChanged();
+  }, [fetcher.data, fetcher.state, onChanged, onNotice]);
+
+  const recluster = () => {
+    handledResponse.current = null;
+    const formData = new FormData();
+    formData.append("action", "recluster-faces");
+    fetcher.submit(formData, { method: "POST", action: "/api/admin/ai" });
+  };
+
+  return (
+    <section aria-labelledby="people-heading" className="mt-4">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-end sm:justify-between mb-4">
+        <div>
+          <h2 id="people-heading" className="text-lg font-semibold text-gray-900 dark:text-white">
+            People
+          </h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1 max-w-2xl">
+            Faces are grouped privately. A person only appears on the public site after you name them and mark them public.
+          </p>
+        </div>
+        {people?.enabled && (
+          <button
+            type="button"
+            onClick={recluster}
+            disabled={fetcher.state !== "idle"}
+            className="inline-flex items-center justify-center gap-2 px-4 py-2 rounded-lg border border-gray-300 dark:border-gray-700 text-sm font-medium text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-800 disabled:opacity-50"
+          >
+            {fetcher.state !== "idle" && <Spinner className="w-3.5 h-3.5" />}
+            Group faces again
+          </button>
+        )}
+      </div>
+
+      {!people?.enabled && (
+        <div className="mb-4 rounded-lg border border-amber-200 bg-amber-50 p-4 text-sm text-amber-800 dark:border-amber-900/60 dark:bg-amber-950/30 dark:text-amber-200">
+          {people?.setupMessage ?? "Face detection is off. Set FACE_AI_PROVIDER to compreface to find people in your photos."}
+        </div>
+      )}
+
+      {(people?.people.length ?? 0) === 0 ? (
+        <div className="rounded-xl border border-dashed border-gray-300 dark:border-gray-700 p-10 text-center text-sm text-gray-500 dark:text-gray-400">
+          No people yet. Faces are found while photos are analyzed.
+        </div>
+      ) : (
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+          {people!.people.map((person) => (
+            <PersonCard
+              key={person.personId}
+              person={person}
+              onChanged={onChanged}
+              onNotice={onNotice}
+            />
+          ))}
+        </div>
+      )}
+    </section>
+  );
+}
+
+function PersonCard({
+  person,
+  onChanged,
+  onNotice,
+}: {
+  person: AiPerson;
+  onChanged: () => void;
+  onNotice: (notice: { type: "success" | "error"; text: string }) => void;
+}) {
+  const fetcher = useFetcher<AiMutationResponse>();
+  const handledResponse = useRef<AiMutationResponse | null>(null);
+  const [name, setName] = useState(person.name ?? "");
+  const isPending = fetcher.state !== "idle";
+
+  useEffect(() => setName(person.name ?? ""), [person.name]);
+
+  useEffect(() => {
+    const response = fetcher.data;
+    if (fetcher.state !== "idle" || !response || handledResponse.current === response) return;
+    handledResponse.current = response;
+    const error = getMutationError(response);
+    onNotice(error
+      ? { type: "error", text: error }
+      : { type: "success", text: response.message || "Person updated." });
+    onChanged();
+  }, [fetcher.data, fetcher.state, onChanged, onNotice]);
+
+  const update = (fields: Record<string, string>) => {
+    handledResponse.current = null;
+    const formData = new FormData();
+    formData.append("action", "update-person");
+    formData.append("personId", person.personId);
+    for (const [key, value] of Object.entries(fields)) formData.append(key, value);
+    fetcher.submit(formData, { method: "POST", action: "/api/admin/ai" });
+  };
+
+  return (
+    <article className={`rounded-xl border border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-950 p-4 ${
+      person.suppressed ? "opacity-60" : ""
+    }`}>
+      <div className="flex items-center gap-3">
+        <FaceThumbnail cover={person.cover} label={person.name || "Unnamed person"} />
+        <div className="min-w-0">
+          <p className="truncate font-medium text-gray-900 dark:text-white">
+            {person.name || "Unnamed person"}
+          </p>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {person.photoCount} {person.photoCount === 1 ? "photo" : "photos"}
+            {person.public && " · Public"}
+            {person.suppressed && " · Hidden"}
+          </p>
+        </div>
+      </div>
+
+      <form
+        className="mt-4 flex gap-2"
+        onSubmit={(event) => {
+          event.preventDefault();
+          update({ name });
+        }}
+      >
+        <label className="sr-only" htmlFor={`person-name-${person.personId}`}>Name</label>
+        <input
+          id={`person-name-${person.personId}`}
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          placeholder="Name this person"
+          maxLength={120}
+          className="min-w-0 flex-1 rounded-md border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 px-2.5 py-1.5 text-sm text-gray-900 dark:text-white"
+        />
+        <button
+          type="submit"
+          disabled={isPending || name.trim() === (person.name ?? "")}
+          className="px-2.5 py-1.5 rounded-md bg-gray-900 dark:bg-white text-white dark:text-gray-900 text-xs font-medium disabled:opacity-50"
+        >
+          Save
+        </button>
+      </form>
+
+      <div className="mt-3 flex flex-wrap items-center gap-4 text-sm text-gray-700 dark:text-gray-300">
+        <label className="inline-flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={person.public}
+            disabled={isPending || !person.name || person.suppressed}
+            onChange={(event) => update({ public: String(event.target.checked) })}
+          />
+          Show on site
+        </label>
+        <label className="inline-flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={person.suppressed}
+            disabled={isPending}
+            onChange={(event) => update({ suppressed: String(event.target.checked) })}
+          />
+          Hide this person
+        </label>
+      </div>
+    </article>
+  );
+}
+
+/** Crops the cover photo to the face box without generating a new image. */
+function FaceThumbnail({ cover, label }: { cover?: AiPerson["cover"]; label: string }) {
+  if (!cover) {
+    return <div className="h-14 w-14 flex-shrink-0 rounded-full bg-gray-100 dark:bg-gray-800" aria-hidden="true" />;
+  }
+  const box = {
+    ...cover.box,
+    width: Math.max(cover.box.width, 0.01),
+    height: Math.max(cover.box.height, 0.01),
+  };
+  return (
+    <div className="relative h-14 w-14 flex-shrink-0 overflow-hidden rounded-full bg-gray-100 dark:bg-gray-800">
+      <img
+        src={`/api/images/${encodeImagePath(cover.path)}`}
+        alt={label}
+        loading="lazy"
+        className="absolute max-w-none"
+        style={{
+          width: `${100 / box.width}%`,
+          height: `${100 / box.height}%`,
+          left: `${(-box.x / box.width) * 100}%`,
+          top: `${(-box.y / box.height) * 100}%`,
+        }}
+      />
+    </div>
+  );
+}
+
 function RecordStatusBadge({ status, rawStatus }: { status: StatusFilter; rawStatus: string }) {
   const styles = {
     all: "bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300",
@@ -10,15 +10,20 @@ import { useLoaderData, Link, useFetcher, useNavigate } from "@remix-run/react";
 import { json } from "@remix-run/cloudflare";
 import { AdminLayout } from "~/components/AdminLayout";
 import { MarkdownEditor } from "~/components/MarkdownEditor";
-import { requireAdminUser } from "~/utils/admin-auth";
+import { PublicationScheduleFields } from "~/components/PublicationScheduleFields";
+import { requireAdminAccount } from "~/utils/admin-auth";
 import { getPostBySlug, getStorage } from "~/lib/content-engine";
+import {
+  isScheduled,
+  isWithinPublicationWindow,
+} from "~/lib/content-engine/publishing";
 import { buildPublicBlogPostUrl } from "~/lib/blog-urls";
 import { resolveHeadlessBlogConfig } from "~/lib/headless-blog";
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import {
-  localeNames,
+  editableLocales,
+  localeName,
   normalizeLocale,
-  SUPPORTED_LOCALES,
   type Locale,
 } from "~/lib/i18n";
 import { useSiteLanguages } from "~/hooks/useSiteLanguages";
@@ -45,11 +50,10 @@ function emptyEdition(): EditionState {
   return { title: "", description: "", content: "" };
 }
 
-function editionsForPost(post: any) {
-  const editions: Record<Locale, EditionState> = {
-    es: emptyEdition(),
-    en: emptyEdition(),
-  };
+function editionsForPost(post: any, locales: readonly Locale[]) {
+  const editions: Record<Locale, EditionState> = Object.fromEntries(
+    locales.map((locale) => [locale, emptyEdition()]),
+  );
   if (!post) return editions;
 
   const sourceLocale = normalizeLocale(post.locale) || "es";
@@ -58,7 +62,7 @@ function editionsForPost(post: any) {
     description: post.description || "",
     content: post.content || "",
   };
-  for (const locale of SUPPORTED_LOCALES) {
+  for (const locale of locales) {
     const translation = post.translations?.[locale];
     if (!translation) continue;
     editions[locale] = {
@@ -72,7 +76,7 @@ function editionsForPost(post: any) {
 
 export async function loader({ params, request, context }: LoaderFunctionArgs) {
   const slug = params["*"];
-  const username = await requireAdminUser(request, context);
+  const { username, role } = await requireAdminAccount(request, context, "translations");
   const storage = getStorage(context);
   const blogConfig = resolveHeadlessBlogConfig(context, request);
   
@@ -80,6 +84,7 @@ export async function loader({ params, request, context }: LoaderFunctionArgs) {
   if (slug === "new") {
     return json({ 
       username, 
+      role, 
       post: null, 
       isNew: true,
       publicBlogUrl: blogConfig.publicBlogUrl,
@@ -98,6 +103,7 @@ export async function loader({ params, request, context }: LoaderFunctionArgs) {
   
   return json({
     username,
+    role,
     post,
     isNew: false,
     publicBlogUrl: blogConfig.publicBlogUrl,
@@ -105,18 +111,22 @@ export async function loader({ params, request, context }: LoaderFunctionArgs) {
 }
 
 export default function AdminBlogEditor() {
-  const { username, post, isNew, publicBlogUrl } = useLoaderData<typeof loader>();
+  const { username, role, post, isNew, publicBlogUrl } = useLoaderData<typeof loader>();
   const navigate = useNavigate();
   const fetcher = useFetcher<BlogActionResponse>();
   const siteLanguages = useSiteLanguages();
   
-  // One editorial record, two language editions.
+  // One editorial record, one edition per published language.
   const sourceLocale = siteLanguages.multilingual
     ? normalizeLocale(post?.locale) || siteLanguages.defaultLocale
     : siteLanguages.defaultLocale;
+  const editionLocales = useMemo(
+    () => editableLocales(sourceLocale, siteLanguages.locales),
+    [siteLanguages.locales, sourceLocale],
+  );
   const [activeLocale, setActiveLocale] = useState<Locale>(sourceLocale);
   const [editions, setEditions] = useState<Record<Locale, EditionState>>(() =>
-    editionsForPost(post),
+    editionsForPost(post, editionLocales),
   );
   const activeEdition = editions[activeLocale];
   const title = activeEdition.title;
@@ -147,6 +157,11 @@ export default function AdminBlogEditor() {
   );
   const [date, setDate] = useState(post?.date ? new Date(post.date).toISOString().split("T")[0] : new Date().toISOString().split("T")[0]);
   const [draft, setDraft] = useState(post?.draft ?? true);
+  const [schedule, setSchedule] = useState({
+    publishAt: post?.publishAt ? String(post.publishAt) : "",
+    unpublishAt: post?.unpublishAt ? String(post.unpublishAt) : "",
+  });
+  const [newsletter, setNewsletter] = useState(post?.newsletter === true);
   const [author, setAuthor] = useState(post?.author || "");
   
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
@@ -172,18 +187,21 @@ export default function AdminBlogEditor() {
   // Track changes
   useEffect(() => {
     if (isNew) {
-      setHasChanges(SUPPORTED_LOCALES.some((locale) => Boolean(editions[locale].title)));
+      setHasChanges(editionLocales.some((locale) => Boolean(editions[locale].title)));
     } else if (post) {
       const changed = 
-        JSON.stringify(editions) !== JSON.stringify(editionsForPost(post)) ||
+        JSON.stringify(editions) !== JSON.stringify(editionsForPost(post, editionLocales)) ||
         tags !== (post.tags || []).join(", ") ||
         JSON.stringify(categories) !== JSON.stringify(normalizeBlogCategories(post.categories)) ||
         date !== (post.date ? new Date(post.date).toISOString().split("T")[0] : "") ||
         draft !== (post.draft ?? false) ||
+        schedule.publishAt !== (post.publishAt ? String(post.publishAt) : "") ||
+        schedule.unpublishAt !== (post.unpublishAt ? String(post.unpublishAt) : "") ||
+        newsletter !== (post.newsletter === true) ||
         author !== (post.author || "");
       setHasChanges(changed);
     }
-  }, [editions, tags, categories, date, draft, author, post, isNew]);
+  }, [editions, editionLocales, tags, categories, date, draft, schedule, newsletter, author, post, isNew]);
   
   // Handle save success/redirect
   useEffect(() => {
@@ -205,7 +223,7 @@ export default function AdminBlogEditor() {
     formData.append("action", isNew ? "create" : "update");
     formData.append("slug", slug);
     formData.append("sourceLocale", sourceLocale);
-    for (const locale of SUPPORTED_LOCALES) {
+    for (const locale of editionLocales) {
       formData.append(`title_${locale}`, editions[locale].title);
       formData.append(`description_${locale}`, editions[locale].description);
       formData.append(`content_${locale}`, editions[locale].content);
@@ -214,13 +232,16 @@ export default function AdminBlogEditor() {
     formData.append("categories", categories.join(","));
     formData.append("date", date);
     formData.append("draft", draft.toString());
+    formData.append("publishAt", schedule.publishAt);
+    formData.append("unpublishAt", schedule.unpublishAt);
+    formData.append("newsletter", newsletter.toString());
     formData.append("author", author);
     
     fetcher.submit(formData, {
       method: "POST",
       action: "/api/admin/blog",
     });
-  }, [isNew, slug, sourceLocale, editions, tags, categories, date, draft, author, fetcher]);
+  }, [isNew, slug, sourceLocale, editionLocales, editions, tags, categories, date, draft, schedule, newsletter, author, fetcher]);
   
   const handleDelete = useCallback(() => {
     const formData = new FormData();
@@ -236,7 +257,7 @@ export default function AdminBlogEditor() {
   const isLoading = fetcher.state !== "idle";
   
   return (
-    <AdminLayout username={username || undefined}>
+    <AdminLayout username={username || undefined} role={role}>
       <div className="p-6 lg:p-8 max-w-7xl mx-auto">
         {/* Header */}
         <div className="flex items-start justify-between mb-6">
@@ -256,6 +277,14 @@ export default function AdminBlogEditor() {
           </div>
           
           <div className="flex items-center gap-2">
+            {!isNew && post?.slug && (
+              <Link
+                to={`/admin/revisions?kind=post&id=${encodeURIComponent(post.slug)}`}
+                className="inline-flex items-center gap-2 px-3 py-2 border border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors text-sm"
+              >
+                History
+              </Link>
+            )}
             {!isNew && (
               <a
                 href={post?.slug
@@ -314,7 +343,7 @@ export default function AdminBlogEditor() {
           {siteLanguages.multilingual && (
           <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-gray-200 bg-white p-2 dark:border-gray-700 dark:bg-gray-950">
             <div className="flex items-center gap-1" aria-label="Language edition">
-              {SUPPORTED_LOCALES.map((locale) => {
+              {editionLocales.map((locale) => {
                 const sourceHasBody = Boolean(editions[sourceLocale].content.trim());
                 const complete = Boolean(
                   editions[locale].title.trim() &&
@@ -345,7 +374,7 @@ export default function AdminBlogEditor() {
               })}
             </div>
             <p className="px-2 text-xs text-gray-500 dark:text-gray-400">
-              {localeNames[activeLocale]}
+              {localeName(activeLocale)}
               {activeLocale === sourceLocale ? " · source edition" : " · translation"}
             </p>
           </div>
@@ -508,12 +537,38 @@ export default function AdminBlogEditor() {
               </span>
             </label>
             
-            {!draft && (
+            {!draft && (isScheduled(schedule) ? (
+              <span className="inline-flex items-center gap-1 text-sm text-amber-600 dark:text-amber-400">
+                Scheduled for {new Date(schedule.publishAt).toLocaleString()}
+              </span>
+            ) : isWithinPublicationWindow(schedule) ? (
               <span className="inline-flex items-center gap-1 text-sm text-green-600 dark:text-green-400">
                 <PublishedIcon />
                 This post is live
               </span>
-            )}
+            ) : (
+              <span className="inline-flex items-center gap-1 text-sm text-gray-500 dark:text-gray-400">
+                Unpublished since {new Date(schedule.unpublishAt).toLocaleString()}
+              </span>
+            ))}
+          </div>
+
+          {/* Schedule */}
+          <div className="space-y-3">
+            <PublicationScheduleFields
+              publishAt={schedule.publishAt}
+              unpublishAt={schedule.unpublishAt}
+              onChange={setSchedule}
+            />
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={newsletter}
+                onChange={(e) => setNewsletter(e.target.checked)}
+                className="rounded border-gray-300 dark:border-gray-600"
+              />
+              Email subscribers when the scheduled publish date arrives
+            </label>
           </div>
           
           {/* Content Editor */}
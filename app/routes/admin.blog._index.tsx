@@ -13,15 +13,15 @@ import {
 } from "@remix-run/react";
 import { json } from "@remix-run/cloudflare";
 import { AdminLayout } from "~/components/AdminLayout";
-import { requireAdminUser } from "~/utils/admin-auth";
+import { requireAdminAccount } from "~/utils/admin-auth";
 import { getStorage, getContentIndex } from "~/lib/content-engine";
 import { buildPublicBlogPostUrl } from "~/lib/blog-urls";
 import { resolveHeadlessBlogConfig } from "~/lib/headless-blog";
-import { normalizeLocale, SUPPORTED_LOCALES } from "~/lib/i18n";
+import { normalizeLocale } from "~/lib/i18n";
 import { useSiteLanguages } from "~/hooks/useSiteLanguages";
 
 export async function loader({ request, context }: LoaderFunctionArgs) {
-  const username = await requireAdminUser(request, context);
+  const { username, role } = await requireAdminAccount(request, context, "translations");
   const storage = getStorage(context);
   const blogConfig = resolveHeadlessBlogConfig(context, request);
   
@@ -37,6 +37,7 @@ export async function loader({ request, context }: LoaderFunctionArgs) {
   
   return json({
     username,
+    role,
     posts,
     publicBlogUrl: blogConfig.publicBlogUrl,
     stats: {
@@ -48,7 +49,7 @@ export async function loader({ request, context }: LoaderFunctionArgs) {
 }
 
 export default function AdminBlog() {
-  const { username, posts, stats, publicBlogUrl } = useLoaderData<typeof loader>();
+  const { username, role, posts, stats, publicBlogUrl } = useLoaderData<typeof loader>();
   const siteLanguages = useSiteLanguages();
   const navigation = useNavigation();
   const [searchParams] = useSearchParams();
@@ -63,7 +64,7 @@ export default function AdminBlog() {
   });
 
   return (
-    <AdminLayout username={username || undefined}>
+    <AdminLayout username={username || undefined} role={role}>
       <div className="p-6 lg:p-8">
         {/* Header */}
         <div className="flex items-center justify-between mb-8">
@@ -157,7 +158,7 @@ export default function AdminBlog() {
                         )}
                         {siteLanguages.multilingual && (
                         <div className="mt-2 flex items-center gap-1.5">
-                          {SUPPORTED_LOCALES.map((locale) => {
+                          {siteLanguages.locales.map((locale) => {
                             const complete =
                               post.locale === locale || Boolean(post.translations?.[locale]);
                             return (
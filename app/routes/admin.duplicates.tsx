@@ -0,0 +1,438 @@
+/**
+ * Admin - Duplicates
+ *
+ * Lists exact duplicates, near duplicates and bursts side by side so the
+ * admin can keep the best frame and hide or delete the rest through
+ * /api/admin/photos. Perceptual hashes are built in resumable batches
+ * through /api/admin/duplicates.
+ */
+
+import type { LoaderFunctionArgs } from "@remix-run/cloudflare";
+import { json } from "@remix-run/cloudflare";
+import { useFetcher, useLoaderData } from "@remix-run/react";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { AdminLayout } from "~/components/AdminLayout";
+import { requireAdminAccount } from "~/utils/admin-auth";
+
+interface DuplicatePhoto {
+  path: string;
+  galleryPath: string;
+  gallerySlug: string;
+  filename: string;
+  width?: number;
+  height?: number;
+  rating?: number;
+  dateTaken?: string;
+  camera?: string;
+  hidden: boolean;
+}
+
+interface DuplicateGroup {
+  id: string;
+  kind: "exact" | "near" | "burst";
+  photos: DuplicatePhoto[];
+  keepPath: string;
+}
+
+interface DuplicateReport {
+  groups: DuplicateGroup[];
+  total: number;
+  hashed: number;
+  embedded: number;
+}
+
+interface ScanResponse {
+  success?: boolean;
+  nextOffset?: number;
+  total?: number;
+  unavailable?: number;
+  done?: boolean;
+  error?: string;
+}
+
+interface PhotosMutationResponse {
+  success?: boolean;
+  message?: string;
+  error?: string;
+}
+
+interface PhotosMutation {
+  action: "toggle-visibility" | "delete";
+  galleryPath: string;
+  photoPaths: string[];
+}
+
+type Notice = { type: "success" | "error"; text: string };
+
+const KIND_LABELS: Record<DuplicateGroup["kind"], string> = {
+  exact: "Exact copy",
+  near: "Near duplicate",
+  burst: "Burst",
+};
+
+export async function loader({ request, context }: LoaderFunctionArgs) {
+  const { username, role } = await requireAdminAccount(request, context, "content");
+  return json({ username, role });
+}
+
+export default function AdminDuplicates() {
+  const { username, role } = useLoaderData<typeof loader>();
+  const reportFetcher = useFetcher<DuplicateReport | { error: string }>();
+  const scanFetcher = useFetcher<ScanResponse>();
+  const photosFetcher = useFetcher<PhotosMutationResponse>();
+  const [notice, setNotice] = useState<Notice | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const [scanProgress, setScanProgress] = useState({ current: 0, total: 0, unavailable: 0 });
+  const [keepers, setKeepers] = useState<Record<string, string>>({});
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [pendingMutations, setPendingMutations] = useState<PhotosMutation[]>([]);
+  const initialReportRequested = useRef(false);
+  const handledScanResponse = useRef<ScanResponse | null>(null);
+  const handledPhotosResponse = useRef<PhotosMutationResponse | null>(null);
+
+  const refreshReport = useCallback(() => {
+    reportFetcher.load("/api/admin/duplicates");
+  }, [reportFetcher]);
+
+  const submitScanBatch = useCallback((offset: number) => {
+    const formData = new FormData();
+    formData.append("action", "scan-batch");
+    formData.append("offset", String(offset));
+    scanFetcher.submit(formData, { method: "POST", action: "/api/admin/duplicates" });
+  }, [scanFetcher]);
+
+  const submitMutation = useCallback((mutation: PhotosMutation) => {
+    const formData = new FormData();
+    formData.append("action", mutation.action);
+    formData.append("galleryPath", mutation.galleryPath);
+    if (mutation.action === "toggle-visibility") formData.append("hidden", "true");
+    for (const path of mutation.photoPaths) formData.append("photoPaths", path);
+    photosFetcher.submit(formData, { method: "POST", action: "/api/admin/photos" });
+  }, [photosFetcher]);
+
+  useEffect(() => {
+    if (!initialReportRequested.current) {
+      initialReportRequested.current = true;
+      refreshReport();
+    }
+  }, [refreshReport]);
+
+  useEffect(() => {
+    const response = scanFetcher.data;
+    if (scanFetcher.state !== "idle" || !response || handledScanResponse.current === response) return;
+    handledScanResponse.current = response;
+    if (response.error || response.success === false) {
+      setIsScanning(false);
+      setNotice({ type: "error", text: response.error || "Could not scan photos." });
+      return;
+    }
+
+    const nextOffset = response.nextOffset ?? 0;
+    const unavailable = scanProgress.unavailable + (response.unavailable ?? 0);
+    setScanProgress({ current: nextOffset, total: response.total ?? 0, unavailable });
+    if (response.done) {
+      setIsScanning(false);
+      setNotice({
+        type: "success",
+        text: unavailable > 0
+          ? `Scan finished. ${unavailable} photos could not be decoded here and are matched by fingerprint and embedding only.`
+          : "Scan finished.",
+      });
+      refreshReport();
+      return;
+    }
+    if (isScanning) {
+      const timer = window.setTimeout(() => submitScanBatch(nextOffset), 250);
+      return () => window.clearTimeout(timer);
+    }
+  }, [isScanning, refreshReport, scanFetcher.data, scanFetcher.state, scanProgress.unavailable, submitScanBatch]);
+
+  useEffect(() => {
+    const response = photosFetcher.data;
+    if (photosFetcher.state !== "idle" || !response || handledPhotosResponse.current === response) return;
+    handledPhotosResponse.current = response;
+    if (response.error || response.success === false) {
+      setPendingMutations([]);
+      setNotice({ type: "error", text: response.error || "Could not update photos." });
+      refreshReport();
+      return;
+    }
+
+    const [, ...rest] = pendingMutations;
+    setPendingMutations(rest);
+    if (rest.length > 0) {
+      submitMutation(rest[0]);
+      return;
+    }
+    setSelected(new Set());
+    setNotice({ type: "success", text: "Duplicates resolved." });
+    refreshReport();
+  }, [pendingMutations, photosFetcher.data, photosFetcher.state, refreshReport, submitMutation]);
+
+  const report = reportFetcher.data && "groups" in reportFetcher.data ? reportFetcher.data : null;
+  const reportError = reportFetcher.data && "error" in reportFetcher.data
+    ? reportFetcher.data.error
+    : null;
+  const isMutating = pendingMutations.length > 0 || photosFetcher.state !== "idle";
+
+  const beginScan = () => {
+    setNotice(null);
+    handledScanResponse.current = null;
+    setScanProgress({ current: 0, total: 0, unavailable: 0 });
+    setIsScanning(true);
+    submitScanBatch(0);
+  };
+
+  const resolveGroups = (groupIds: readonly string[], mode: "hide" | "delete") => {
+    if (!report) return;
+    const byGallery = new Map<string, string[]>();
+    for (const group of report.groups.filter((candidate) => groupIds.includes(candidate.id))) {
+      const keepPath = keepers[group.id] ?? group.keepPath;
+      for (const photo of group.photos) {
+        if (photo.path === keepPath || (mode === "hide" && photo.hidden)) continue;
+        byGallery.set(photo.galleryPath, [...(byGallery.get(photo.galleryPath) ?? []), photo.path]);
+      }
+    }
+    const mutations = Array.from(byGallery, ([galleryPath, photoPaths]): PhotosMutation => ({
+      action: mode === "hide" ? "toggle-visibility" : "delete",
+      galleryPath,
+      photoPaths,
+    }));
+    if (mutations.length === 0) {
+      setNotice({ type: "success", text: "Nothing to change: the other copies are already hidden." });
+      return;
+    }
+    const count = mutations.reduce((sum, mutation) => sum + mutation.photoPaths.length, 0);
+    if (
+      mode === "delete" &&
+      !window.confirm(`Delete ${count} photos and their variants? The kept photos are not touched.`)
+    ) {
+      return;
+    }
+    setNotice(null);
+    handledPhotosResponse.current = null;
+    setPendingMutations(mutations);
+    submitMutation(mutations[0]);
+  };
+
+  const toggleSelected = (groupId: string) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(groupId)) next.delete(groupId);
+      else next.add(groupId);
+      return next;
+    });
+  };
+
+  const scanPercent = scanProgress.total > 0
+    ? Math.round((scanProgress.current / scanProgress.total) * 100)
+    : 0;
+
+  return (
+    <AdminLayout username={username || undefined} role={role}>
+      <div className="p-6 lg:p-8 max-w-7xl mx-auto">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between mb-8">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-1">Duplicates</h1>
+            <p className="text-gray-500 dark:text-gray-400 max-w-2xl">
+              Find copies, near-identical edits and burst frames across every gallery, keep the best one and hide or delete the rest.
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={beginScan}
+            disabled={isScanning || isMutating}
+            className="inline-flex items-center justify-center px-4 py-2 rounded-lg bg-gray-900 text-sm font-medium text-white hover:bg-gray-700 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-white dark:text-gray-900 dark:hover:bg-gray-200 transition-colors"
+          >
+            {isScanning ? `Scanning… ${scanPercent}%` : "Scan library"}
+          </button>
+        </div>
+
+        {notice && (
+          <div
+            role={notice.type === "error" ? "alert" : "status"}
+            className={`mb-6 rounded-lg border p-4 text-sm ${
+              notice.type === "error"
+                ? "border-red-200 bg-red-50 text-red-800 dark:border-red-900/60 dark:bg-red-950/30 dark:text-red-200"
+                : "border-green-200 bg-green-50 text-green-800 dark:border-green-900/60 dark:bg-green-950/30 dark:text-green-200"
+            }`}
+          >
+            {notice.text}
+          </div>
+        )}
+
+        {reportError && (
+          <div role="alert" className="mb-6 rounded-lg border border-red-200 bg-red-50 p-4 text-sm text-red-800 dark:border-red-900/60 dark:bg-red-950/30 dark:text-red-200">
+            {reportError}
+            <button type="button" onClick={refreshReport} className="ml-3 font-medium underline">
+              Retry
+            </button>
+          </div>
+        )}
+
+        {!report && !reportError ? (
+          <div className="h-40 animate-pulse rounded-xl bg-gray-100 dark:bg-gray-900" />
+        ) : report ? (
+          <>
+            <section className="mb-6 flex flex-col gap-4 rounded-xl border border-gray-200 bg-white p-5 dark:border-gray-800 dark:bg-gray-950 lg:flex-row lg:items-center lg:justify-between">
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {report.groups.length} groups · {report.hashed} of {report.total} photos hashed · {report.embedded} with embeddings
+              </p>
+              <div className="flex flex-wrap gap-2">
+                <button
+                  type="button"
+                  onClick={() => setSelected(
+                    selected.size === report.groups.length
+                      ? new Set()
+                      : new Set(report.groups.map((group) => group.id)),
+                  )}
+                  disabled={report.groups.length === 0}
+                  className="rounded-lg border border-gray-300 px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 dark:border-gray-700 dark:text-gray-200 dark:hover:bg-gray-800"
+                >
+                  {selected.size === report.groups.length && selected.size > 0 ? "Clear selection" : "Select all"}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => resolveGroups(Array.from(selected), "hide")}
+                  disabled={selected.size === 0 || isMutating}
+                  className="rounded-lg border border-gray-300 px-3 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 dark:border-gray-700 dark:text-gray-200 dark:hover:bg-gray-800"
+                >
+                  Hide others in {selected.size} selected
+                </button>
+                <button
+                  type="button"
+                  onClick={() => resolveGroups(Array.from(selected), "delete")}
+                  disabled={selected.size === 0 || isMutating}
+                  className="rounded-lg bg-red-600 px-3 py-2 text-sm font-medium text-white hover:bg-red-700 disabled:opacity-50"
+                >
+                  Delete others in {selected.size} selected
+                </button>
+              </div>
+            </section>
+
+            {report.hashed < report.total && (
+              <p className="mb-6 text-sm text-amber-700 dark:text-amber-300">
+                Some photos have no perceptual hash yet. Scan the library to find near duplicates among them.
+              </p>
+            )}
+
+            {report.groups.length === 0 ? (
+              <div className="rounded-xl border border-dashed border-gray-300 p-10 text-center text-sm text-gray-500 dark:border-gray-700 dark:text-gray-400">
+                No duplicates found.
+              </div>
+            ) : (
+              <div className="space-y-5">
+                {report.groups.map((group) => (
+                  <DuplicateGroupCard
+                    key={group.id}
+                    group={group}
+                    keepPath={keepers[group.id] ?? group.keepPath}
+                    isSelected={selected.has(group.id)}
+                    isMutating={isMutating}
+                    onKeep={(path) => setKeepers((current) => ({ ...current, [group.id]: path }))}
+                    onToggleSelected={() => toggleSelected(group.id)}
+                    onResolve={(mode) => resolveGroups([group.id], mode)}
+                  />
+                ))}
+              </div>
+            )}
+          </>
+        ) : null}
+      </div>
+    </AdminLayout>
+  );
+}
+
+function DuplicateGroupCard({
+  group,
+  keepPath,
+  isSelected,
+  isMutating,
+  onKeep,
+  onToggleSelected,
+  onResolve,
+}: {
+  group: DuplicateGroup;
+  keepPath: string;
+  isSelected: boolean;
+  isMutating: boolean;
+  onKeep: (path: string) => void;
+  onToggleSelected: () => void;
+  onResolve: (mode: "hide" | "delete") => void;
+}) {
+  return (
+    <article className="rounded-xl border border-gray-200 bg-white p-4 dark:border-gray-800 dark:bg-gray-950">
+      <div className="mb-4 flex flex-wrap items-center justify-between gap-3">
+        <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+          <input type="checkbox" checked={isSelected} onChange={onToggleSelected} />
+          <span className="rounded-full bg-gray-100 px-2 py-0.5 text-xs font-medium text-gray-700 dark:bg-gray-800 dark:text-gray-300">
+            {KIND_LABELS[group.kind]}
+          </span>
+          {group.photos.length} photos
+        </label>
+        <div className="flex gap-2">
+          <button
+            type="button"
+            onClick={() => onResolve("hide")}
+            disabled={isMutating}
+            className="rounded-lg border border-gray-300 px-3 py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50 dark:border-gray-700 dark:text-gray-200 dark:hover:bg-gray-800"
+          >
+            Hide others
+          </button>
+          <button
+            type="button"
+            onClick={() => onResolve("delete")}
+            disabled={isMutating}
+            className="rounded-lg border border-red-300 px-3 py-1.5 text-xs font-medium text-red-700 hover:bg-red-50 disabled:opacity-50 dark:border-red-900 dark:text-red-300 dark:hover:bg-red-950/30"
+          >
+            Delete others
+          </button>
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-3 md:grid-cols-3 xl:grid-cols-4">
+        {group.photos.map((photo) => (
+          <label
+            key={photo.path}
+            className={`cursor-pointer overflow-hidden rounded-lg border-2 ${
+              photo.path === keepPath
+                ? "border-green-500"
+                : "border-transparent opacity-80 hover:opacity-100"
+            }`}
+          >
+            <div className="aspect-[4/3] bg-gray-100 dark:bg-gray-800">
+              <img
+                src={`/api/images/${encodeImagePath(photo.path)}`}
+                alt={photo.filename}
+                loading="lazy"
+                className="h-full w-full object-contain"
+              />
+            </div>
+            <div className="space-y-0.5 p-2 text-xs text-gray-600 dark:text-gray-400">
+              <div className="flex items-center gap-2">
+                <input
+                  type="radio"
+                  name={`keep-${group.id}`}
+                  checked={photo.path === keepPath}
+                  onChange={() => onKeep(photo.path)}
+                />
+                <span className="truncate font-medium text-gray-900 dark:text-white" title={photo.path}>
+                  {photo.filename}
+                </span>
+              </div>
+              <p className="truncate">{photo.gallerySlug}{photo.hidden ? " · hidden" : ""}</p>
+              <p>
+                {photo.width && photo.height ? `${photo.width}×${photo.height}` : "Unknown size"}
+                {photo.rating ? ` · ${"★".repeat(photo.rating)}` : ""}
+              </p>
+              {photo.dateTaken && <p>{new Date(photo.dateTaken).toLocaleString()}</p>}
+            </div>
+          </label>
+        ))}
+      </div>
+    </article>
+  );
+}
+
+function encodeImagePath(path: string): string {
+  return path.split("/").map((segment) => encodeURIComponent(segment)).join("/");
+}
@@ -9,18 +9,40 @@ import type { LoaderFunctionArgs, ActionFunctionArgs } from "@remix-run/cloudfla
 import { useLoaderData, Form, Link, useFetcher, useNavigate, useRevalidator } from "@remix-run/react";
 import { json } from "@remix-run/cloudflare";
 import { AdminLayout } from "~/components/AdminLayout";
-import { checkAdminAuth, getAdminUser } from "~/utils/admin-auth";
+import { PublicationScheduleFields } from "~/components/PublicationScheduleFields";
+import { requireAdminAccount } from "~/utils/admin-auth";
+import { roleCan } from "~/lib/admin-roles";
+import {
+  createGalleryShareLink,
+  GalleryShareError,
+  listGalleryShareLinks,
+  MAX_SHARE_LINK_DAYS,
+  revokeGalleryShareLink,
+  type GalleryShareSummary,
+} from "~/utils/gallery-shares";
+import { getBaseUrl } from "~/utils/seo";
 import { getStorage, getGalleryFromIndex, getAllGalleriesFromIndex, getContentIndex } from "~/lib/content-engine";
 import {
   normalizeGalleryThumbnailAspectRatio,
   type GalleryThumbnailAspectRatio,
 } from "~/lib/content-engine/gallery-layout";
+import {
+  GALLERY_DOWNLOAD_SIZES,
+  normalizeGalleryDownloadPolicy,
+  type GalleryDownloadSize,
+} from "~/lib/content-engine/gallery-downloads";
+import {
+  getGalleryDownloadCounts,
+  type GalleryDownloadCounts,
+} from "~/lib/gallery-downloads.server";
+import type { WatermarkSettings } from "~/lib/content-engine/watermark";
+import { getGalleryWatermarkSettings } from "~/lib/watermark.server";
 import { useState, useCallback, useEffect, useRef, useMemo } from "react";
 import {
   localizedPath,
-  localeNames,
+  editableLocales,
+  localeName,
   normalizeLocale,
-  SUPPORTED_LOCALES,
   type Locale,
 } from "~/lib/i18n";
 import { useSiteLanguages } from "~/hooks/useSiteLanguages";
@@ -45,14 +67,13 @@ import {
 import { CSS } from "@dnd-kit/utilities";
 
 export async function loader({ params, request, context }: LoaderFunctionArgs) {
-  await checkAdminAuth(request, context);
+  const { username, role } = await requireAdminAccount(request, context, "translations");
   
   const slug = params["*"];
   if (!slug) {
     throw new Response("Not Found", { status: 404 });
   }
   
-  const username = await getAdminUser(request, context);
   const storage = getStorage(context);
   
   // Get content index for lookups
@@ -100,7 +121,7 @@ export async function loader({ params, request, context }: LoaderFunctionArgs) {
         };
       }
       
-      return json({ username, gallery: virtualGallery, parentGallery, childGalleries, isVirtualParent: true, allGalleries: [] });
+      return json({ username, role, gallery: virtualGallery, parentGallery, childGalleries, isVirtualParent: true, allGalleries: [], shareLinks: [] as Array<GalleryShareSummary & { url: string }>, maxShareDays: MAX_SHARE_LINK_DAYS, downloadCounts: null as GalleryDownloadCounts | null, watermark: null as WatermarkSettings | null });
     }
     
     // No gallery and no children - truly not found
@@ -125,14 +146,78 @@ export async function loader({ params, request, context }: LoaderFunctionArgs) {
   
   // Get all galleries for move photos modal
   const allGalleries = contentIndex.galleryData
-    .filter((g) => g.slug !== slug && !g.isParentGallery)
+    .filter((g) => g.slug !== slug && !g.isParentGallery && !g.query)
     .sort((a, b) => a.title.localeCompare(b.title));
   
-  return json({ username, gallery, parentGallery, childGalleries, isVirtualParent: false, allGalleries });
+  // Share links are only offered for password-protected galleries and carry
+  // working tokens, so roles that cannot edit content do not see them.
+  const shareLinks = gallery.password && roleCan(role, "content")
+    ? (await listGalleryShareLinks(storage, slug)).map((link) => ({
+        ...link,
+        url: `${getBaseUrl(request)}/gallery/${slug}?share=${link.token}`,
+      }))
+    : [];
+  const [downloadCounts, watermark] = await Promise.all([
+    getGalleryDownloadCounts(storage, slug),
+    getGalleryWatermarkSettings(storage, gallery.path),
+  ]);
+  
+  return json({ username, role, gallery, parentGallery, childGalleries, isVirtualParent: false, allGalleries, shareLinks, maxShareDays: MAX_SHARE_LINK_DAYS, downloadCounts, watermark });
+}
+
+interface ShareActionData {
+  success: boolean;
+  message?: string;
+}
+
+export async function action({ params, request, context }: ActionFunctionArgs) {
+  const { username } = await requireAdminAccount(request, context, "content");
+  const slug = params["*"];
+  if (!slug) {
+    throw new Response("Not Found", { status: 404 });
+  }
+
+  const storage = getStorage(context);
+  const formData = await request.formData();
+  const intent = String(formData.get("intent") || "");
+
+  try {
+    switch (intent) {
+      case "create-share": {
+        const gallery = await getGalleryFromIndex(storage, slug);
+        if (!gallery?.password) {
+          throw new GalleryShareError("Set a gallery password before creating share links.");
+        }
+        const days = Number(formData.get("days"));
+        if (!Number.isInteger(days) || days < 1) {
+          throw new GalleryShareError("Choose how many days the link should work.");
+        }
+        const { link } = await createGalleryShareLink(storage, {
+          gallerySlug: slug,
+          recipient: String(formData.get("recipient") || ""),
+          expiresAt: new Date(Date.now() + days * 24 * 60 * 60 * 1000),
+          allowDownload: formData.get("allowDownload") === "on",
+          createdBy: username || undefined,
+        });
+        return json<ShareActionData>({ success: true, message: `Share link created for ${link.recipient}.` });
+      }
+      case "revoke-share": {
+        const link = await revokeGalleryShareLink(storage, String(formData.get("id") || ""));
+        return json<ShareActionData>({ success: true, message: `Link for ${link.recipient} revoked.` });
+      }
+      default:
+        return json<ShareActionData>({ success: false, message: "Unknown action" }, { status: 400 });
+    }
+  } catch (error) {
+    if (error instanceof GalleryShareError) {
+      return json<ShareActionData>({ success: false, message: error.message }, { status: 400 });
+    }
+    throw error;
+  }
 }
 
 export default function AdminGalleryDetail() {
-  const { username, gallery, parentGallery, childGalleries, isVirtualParent, allGalleries } = useLoaderData<typeof loader>();
+  const { username, role, gallery, parentGallery, childGalleries, isVirtualParent, allGalleries, shareLinks, maxShareDays, downloadCounts, watermark } = useLoaderData<typeof loader>();
   const siteLanguages = useSiteLanguages();
   const navigate = useNavigate();
   const revalidator = useRevalidator();
@@ -355,7 +440,7 @@ export default function AdminGalleryDetail() {
   const isOperationPending = galleryFetcher.state !== "idle" || photosFetcher.state !== "idle";
 
   return (
-    <AdminLayout username={username || undefined}>
+    <AdminLayout username={username || undefined} role={role}>
       <div className="p-6 lg:p-8">
         {/* Breadcrumbs */}
         <nav className="flex items-center gap-1 mb-6 text-sm overflow-x-auto pb-2">
@@ -415,6 +500,11 @@ export default function AdminGalleryDetail() {
               {gallery.description && (
                 <p className="text-gray-500 dark:text-gray-400 mt-1">{gallery.description}</p>
               )}
+              {"query" in gallery && gallery.query && (
+                <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">
+                  Smart gallery: photos come from the query in gallery.yaml and refresh when the index is rebuilt.
+                </p>
+              )}
             </div>
           </div>
           
@@ -445,6 +535,15 @@ export default function AdminGalleryDetail() {
                 <span className="hidden sm:inline">Upload</span>
               </Link>
             )}
+            {!isVirtualParent && (
+              <Link
+                to={`/admin/revisions?kind=gallery&id=${encodeURIComponent(`galleries/${gallery.slug}`)}`}
+                className="inline-flex items-center gap-2 px-2 sm:px-3 py-2 border border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors text-sm"
+                title="History"
+              >
+                <span>History</span>
+              </Link>
+            )}
             {!isVirtualParent && (
               <button
                 type="button"
@@ -472,6 +571,8 @@ export default function AdminGalleryDetail() {
         {showSettings && (
           <GallerySettingsPanel 
             gallery={gallery}
+            downloadCounts={downloadCounts}
+            watermark={watermark}
             onUpdate={handleUpdateGallery}
             onDelete={() => setShowDeleteConfirm(true)}
             isLoading={galleryFetcher.state !== "idle"}
@@ -517,9 +618,13 @@ export default function AdminGalleryDetail() {
               formData.append("filename", photo.filename);
               
               formData.append("sourceLocale", updates.sourceLocale);
-              for (const locale of SUPPORTED_LOCALES) {
+              for (const locale of Object.keys(updates.editions)) {
                 formData.append(`title_${locale}`, updates.editions[locale].title);
                 formData.append(`description_${locale}`, updates.editions[locale].description);
+                formData.append(`alt_${locale}`, updates.editions[locale].alt);
+              }
+              for (const locale of updates.approvedAltLocales) {
+                formData.append("altTextApproved", locale);
               }
               if (updates.tags !== undefined) formData.append("tags", updates.tags.join(","));
               if (updates.hidden !== undefined) formData.append("hidden", updates.hidden.toString());
@@ -536,6 +641,11 @@ export default function AdminGalleryDetail() {
           />
         )}
 
+        {/* Share links for password-protected galleries */}
+        {!isVirtualParent && "password" in gallery && gallery.password && roleCan(role, "content") && (
+          <GalleryShareLinksPanel links={shareLinks} maxDays={maxShareDays} />
+        )}
+
         {/* Child Galleries */}
         {childGalleries.length > 0 && (
           <div className="mb-6">
@@ -1084,14 +1194,177 @@ function InfoCard({
   return content;
 }
 
+const shareStatusStyles = {
+  active: "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400",
+  expired: "bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400",
+  revoked: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400",
+} as const;
+
+// Share Links Panel Component
+function GalleryShareLinksPanel({
+  links,
+  maxDays,
+}: {
+  links: Array<GalleryShareSummary & { url: string }>;
+  maxDays: number;
+}) {
+  const shareFetcher = useFetcher<typeof action>();
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [openLogId, setOpenLogId] = useState<string | null>(null);
+  const createFormRef = useRef<HTMLFormElement>(null);
+  const busy = shareFetcher.state !== "idle";
+
+  useEffect(() => {
+    if (shareFetcher.state === "idle" && shareFetcher.data?.success) {
+      createFormRef.current?.reset();
+    }
+  }, [shareFetcher.state, shareFetcher.data]);
+
+  const copyLink = useCallback(async (id: string, url: string) => {
+    await navigator.clipboard.writeText(url);
+    setCopiedId(id);
+    setTimeout(() => setCopiedId(null), 2000);
+  }, []);
+
+  return (
+    <div className="mb-6 bg-white dark:bg-gray-950 rounded-xl border border-gray-200 dark:border-gray-800 p-5">
+      <h3 className="font-medium text-gray-900 dark:text-white">Share links</h3>
+      <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+        Give a client access without the password. Each link is for one recipient, stops working when it
+        expires or is revoked, and records when it was used.
+      </p>
+
+      <shareFetcher.Form ref={createFormRef} method="post" className="mt-4 flex flex-wrap items-end gap-3">
+        <input type="hidden" name="intent" value="create-share" />
+        <label className="flex flex-col gap-1 text-sm text-gray-600 dark:text-gray-300">
+          Recipient
+          <input
+            name="recipient"
+            required
+            placeholder="Client name or email"
+            className="rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 dark:border-gray-700 dark:bg-gray-900 dark:text-white"
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-gray-600 dark:text-gray-300">
+          Valid for (days)
+          <input
+            name="days"
+            type="number"
+            min={1}
+            max={maxDays}
+            defaultValue={30}
+            required
+            className="w-28 rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 dark:border-gray-700 dark:bg-gray-900 dark:text-white"
+          />
+        </label>
+        <label className="flex items-center gap-2 pb-2 text-sm text-gray-600 dark:text-gray-300">
+          <input type="checkbox" name="allowDownload" className="rounded" />
+          Allow downloading originals
+        </label>
+        <button
+          type="submit"
+          disabled={busy}
+          className="px-4 py-2 bg-gray-900 dark:bg-gray-100 text-white dark:text-gray-900 rounded-lg hover:bg-gray-700 dark:hover:bg-gray-300 transition-colors text-sm font-medium disabled:opacity-60"
+        >
+          Create link
+        </button>
+      </shareFetcher.Form>
+
+      {shareFetcher.data?.message && (
+        <p className={`mt-3 text-sm ${shareFetcher.data.success ? "text-green-600 dark:text-green-400" : "text-red-600 dark:text-red-400"}`}>
+          {shareFetcher.data.message}
+        </p>
+      )}
+
+      {links.length > 0 && (
+        <ul className="mt-5 divide-y divide-gray-100 dark:divide-gray-800">
+          {links.map((link) => (
+            <li key={link.id} className="py-3">
+              <div className="flex flex-wrap items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 dark:text-white">
+                    {link.recipient}
+                    <span className={`ml-2 rounded-full px-2 py-0.5 text-xs font-medium ${shareStatusStyles[link.status]}`}>
+                      {link.status}
+                    </span>
+                    {link.allowDownload && (
+                      <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">· downloads</span>
+                    )}
+                  </p>
+                  <p className="mt-0.5 text-xs text-gray-500 dark:text-gray-400">
+                    {link.revokedAt
+                      ? `Revoked ${new Date(link.revokedAt).toLocaleString()}`
+                      : `${link.status === "expired" ? "Expired" : "Expires"} ${new Date(link.expiresAt).toLocaleString()}`}
+                    {" · "}
+                    {link.accessCount === 0
+                      ? "never used"
+                      : `used ${link.accessCount} time${link.accessCount === 1 ? "" : "s"}, last ${new Date(link.recentAccess[0].at).toLocaleString()}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {link.accessCount > 0 && (
+                    <button
+                      type="button"
+                      onClick={() => setOpenLogId(openLogId === link.id ? null : link.id)}
+                      className="px-3 py-1.5 border border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors text-xs"
+                    >
+                      {openLogId === link.id ? "Hide log" : "Access log"}
+                    </button>
+                  )}
+                  {link.status === "active" && (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => copyLink(link.id, link.url)}
+                        className="px-3 py-1.5 border border-gray-300 dark:border-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800 transition-colors text-xs"
+                      >
+                        {copiedId === link.id ? "Copied" : "Copy link"}
+                      </button>
+                      <shareFetcher.Form method="post">
+                        <input type="hidden" name="intent" value="revoke-share" />
+                        <input type="hidden" name="id" value={link.id} />
+                        <button
+                          type="submit"
+                          disabled={busy}
+                          className="px-3 py-1.5 border border-red-300 dark:border-red-900 text-red-600 dark:text-red-400 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors text-xs disabled:opacity-60"
+                        >
+                          Revoke
+                        </button>
+                      </shareFetcher.Form>
+                    </>
+                  )}
+                </div>
+              </div>
+              {openLogId === link.id && (
+                <ul className="mt-3 space-y-1 rounded-lg bg-gray-50 p-3 text-xs text-gray-600 dark:bg-gray-900 dark:text-gray-300">
+                  {link.recentAccess.map((event) => (
+                    <li key={`${event.at}-${event.path}`}>
+                      {new Date(event.at).toLocaleString()} · {event.kind === "download" ? "downloaded" : "opened"}{" "}
+                      <span className="font-mono">{event.path}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
 // Gallery Settings Panel Component
 export function GallerySettingsPanel({
   gallery,
+  downloadCounts,
+  watermark,
   onUpdate,
   onDelete,
   isLoading,
 }: {
   gallery: any;
+  downloadCounts?: GalleryDownloadCounts | null;
+  watermark?: WatermarkSettings | null;
   onUpdate: (updates: Record<string, string>) => void;
   onDelete: () => void;
   isLoading: boolean;
@@ -1100,16 +1373,16 @@ export function GallerySettingsPanel({
   const sourceLocale = siteLanguages.multilingual
     ? normalizeLocale(gallery.locale) || siteLanguages.defaultLocale
     : siteLanguages.defaultLocale;
+  const editionLocales = editableLocales(sourceLocale, siteLanguages.locales);
   const initialEditions = (): Record<Locale, { title: string; description: string }> => {
-    const value = {
-      es: { title: "", description: "" },
-      en: { title: "", description: "" },
-    };
+    const value: Record<Locale, { title: string; description: string }> = Object.fromEntries(
+      editionLocales.map((locale) => [locale, { title: "", description: "" }]),
+    );
     value[sourceLocale] = {
       title: gallery.title || "",
       description: gallery.description || "",
     };
-    for (const locale of SUPPORTED_LOCALES) {
+    for (const locale of editionLocales) {
       const translation = gallery.translations?.[locale];
       if (translation) {
         value[locale] = {
@@ -1135,10 +1408,18 @@ export function GallerySettingsPanel({
   );
   const [order, setOrder] = useState(gallery.order?.toString() || "");
   const [isPrivate, setIsPrivate] = useState(gallery.isProtected || false);
+  const [hideExactLocation, setHideExactLocation] = useState(gallery.hideExactLocation || false);
+  const initialSchedule = {
+    publishAt: gallery.publishAt || "",
+    unpublishAt: gallery.unpublishAt || "",
+  };
+  const [schedule, setSchedule] = useState(initialSchedule);
   const [thumbnailAspectRatio, setThumbnailAspectRatio] =
     useState<GalleryThumbnailAspectRatio>(() =>
       normalizeGalleryThumbnailAspectRatio(gallery.thumbnailAspectRatio),
     );
+  const initialDownloads = normalizeGalleryDownloadPolicy(gallery.downloads);
+  const [downloads, setDownloads] = useState(initialDownloads);
   const [hasChanges, setHasChanges] = useState(false);
   
   // Track changes
@@ -1148,29 +1429,42 @@ export function GallerySettingsPanel({
       classificationHint !== (gallery.classificationHint || "");
     const orderChanged = order !== (gallery.order?.toString() || "");
     const privateChanged = isPrivate !== (gallery.isProtected || false);
+    const locationChanged = hideExactLocation !== (gallery.hideExactLocation || false);
+    const scheduleChanged =
+      schedule.publishAt !== (gallery.publishAt || "") ||
+      schedule.unpublishAt !== (gallery.unpublishAt || "");
     const thumbnailAspectRatioChanged =
       thumbnailAspectRatio !==
       normalizeGalleryThumbnailAspectRatio(gallery.thumbnailAspectRatio);
+    const downloadsChanged =
+      downloads.size !== initialDownloads.size ||
+      Boolean(downloads.watermark) !== Boolean(initialDownloads.watermark);
     setHasChanges(
       editionsChanged ||
       classificationHintChanged ||
       orderChanged ||
       privateChanged ||
-      thumbnailAspectRatioChanged,
+      locationChanged ||
+      scheduleChanged ||
+      thumbnailAspectRatioChanged ||
+      downloadsChanged,
     );
   }, [
     editions,
     classificationHint,
     order,
     isPrivate,
+    hideExactLocation,
+    schedule,
     thumbnailAspectRatio,
+    downloads,
     gallery,
   ]);
   
   const handleSave = () => {
     const updates: Record<string, string> = {};
     updates.sourceLocale = sourceLocale;
-    for (const locale of SUPPORTED_LOCALES) {
+    for (const locale of editionLocales) {
       updates[`title_${locale}`] = editions[locale].title;
       updates[`description_${locale}`] = editions[locale].description;
     }
@@ -1179,12 +1473,29 @@ export function GallerySettingsPanel({
     }
     if (order !== (gallery.order?.toString() || "")) updates.order = order;
     if (isPrivate !== (gallery.isProtected || false)) updates.private = isPrivate.toString();
+    if (hideExactLocation !== (gallery.hideExactLocation || false)) {
+      updates.hideExactLocation = hideExactLocation.toString();
+    }
+    if (
+      schedule.publishAt !== initialSchedule.publishAt ||
+      schedule.unpublishAt !== initialSchedule.unpublishAt
+    ) {
+      updates.publishAt = schedule.publishAt;
+      updates.unpublishAt = schedule.unpublishAt;
+    }
     if (
       thumbnailAspectRatio !==
       normalizeGalleryThumbnailAspectRatio(gallery.thumbnailAspectRatio)
     ) {
       updates.thumbnailAspectRatio = thumbnailAspectRatio;
     }
+    if (
+      downloads.size !== initialDownloads.size ||
+      Boolean(downloads.watermark) !== Boolean(initialDownloads.watermark)
+    ) {
+      updates.downloads = downloads.size;
+      updates.downloadWatermark = String(Boolean(downloads.watermark));
+    }
     onUpdate(updates);
   };
 
@@ -1217,7 +1528,7 @@ export function GallerySettingsPanel({
         {siteLanguages.multilingual && (
         <div className="md:col-span-2 flex flex-wrap items-center justify-between gap-3 rounded-lg border border-gray-200 bg-gray-50 p-2 dark:border-gray-700 dark:bg-gray-900">
           <div className="flex items-center gap-1" aria-label="Language edition">
-            {SUPPORTED_LOCALES.map((locale) => {
+            {editionLocales.map((locale) => {
               const complete = Boolean(editions[locale].title.trim());
               const active = locale === activeLocale;
               return (
@@ -1239,7 +1550,7 @@ export function GallerySettingsPanel({
             })}
           </div>
           <span className="px-2 text-xs text-gray-500 dark:text-gray-400">
-            {localeNames[activeLocale]}
+            {localeName(activeLocale)}
             {activeLocale === sourceLocale ? " · source" : " · translation"}
           </span>
         </div>
@@ -1314,7 +1625,7 @@ export function GallerySettingsPanel({
             Uniform 3:2 is the default for galleries without an explicit setting.
           </p>
         </fieldset>
-        <div className="md:col-span-2 flex items-center gap-3">
+        <div className="md:col-span-2 flex flex-wrap items-center gap-x-6 gap-y-2">
           <label className="flex items-center gap-2 cursor-pointer">
             <input 
               type="checkbox" 
@@ -1324,6 +1635,65 @@ export function GallerySettingsPanel({
             />
             <span className="text-gray-700 dark:text-gray-300">Private (hidden from public listing)</span>
           </label>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={hideExactLocation}
+              onChange={(event) => setHideExactLocation(event.target.checked)}
+              className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span className="text-gray-700 dark:text-gray-300">Hide exact location on the map</span>
+          </label>
+        </div>
+        <div className="md:col-span-2">
+          <label className="block text-gray-500 dark:text-gray-400 mb-1">Visitor downloads</label>
+          <div className="flex flex-wrap items-center gap-4">
+            <select
+              value={downloads.size}
+              onChange={(event) =>
+                setDownloads({ ...downloads, size: event.target.value as GalleryDownloadSize })
+              }
+              className="px-3 py-2 bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            >
+              {GALLERY_DOWNLOAD_SIZES.map((size) => (
+                <option key={size} value={size}>
+                  {DOWNLOAD_SIZE_LABELS[size]}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={Boolean(downloads.watermark)}
+                disabled={downloads.size === "none"}
+                onChange={(event) => setDownloads({ ...downloads, watermark: event.target.checked })}
+                className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span className="text-gray-700 dark:text-gray-300">Watermarked copies only</span>
+            </label>
+          </div>
+          <p className="mt-1.5 text-xs text-gray-400 dark:text-gray-500">
+            Adds a download button to each photo and a ZIP of the whole gallery.
+            Share links that allow downloads always get originals.
+            {downloadCounts && (downloadCounts.photos > 0 || downloadCounts.archives > 0) && (
+              <>
+                {" "}Downloaded {downloadCounts.photos} photo{downloadCounts.photos === 1 ? "" : "s"} and{" "}
+                {downloadCounts.archives} ZIP{downloadCounts.archives === 1 ? "" : "s"} so far.
+              </>
+            )}
+          </p>
+        </div>
+        {gallery.photos && (
+          <div className="md:col-span-2">
+            <WatermarkRestamp watermark={watermark ?? null} photos={gallery.photos} />
+          </div>
+        )}
+        <div className="md:col-span-2">
+          <PublicationScheduleFields
+            publishAt={schedule.publishAt}
+            unpublishAt={schedule.unpublishAt}
+            onChange={setSchedule}
+          />
         </div>
       </div>
       
@@ -1337,6 +1707,89 @@ export function GallerySettingsPanel({
   );
 }
 
+/**
+ * Shows the watermark that applies to this gallery and re-stamps its variants
+ * one photo at a time through the `regenerate-variants` action.
+ */
+function WatermarkRestamp({
+  watermark,
+  photos,
+}: {
+  watermark: WatermarkSettings | null;
+  photos: Array<{ path: string; isReference?: boolean }>;
+}) {
+  const ownPhotos = photos.filter((photo) => !photo.isReference);
+  const [progress, setProgress] = useState<{ done: number; failed: number } | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRestamp = async () => {
+    setRunning(true);
+    setError(null);
+    let done = 0;
+    let failed = 0;
+    setProgress({ done, failed });
+    for (const photo of ownPhotos) {
+      const formData = new FormData();
+      formData.append("action", "regenerate-variants");
+      formData.append("photoPath", photo.path);
+      try {
+        const response = await fetch("/api/admin/photos", { method: "POST", body: formData });
+        const data = (await response.json()) as { success: boolean; error?: string };
+        if (response.status === 503) {
+          setError(data.error ?? "Variants could not be generated.");
+          break;
+        }
+        if (data.success) done++;
+        else failed++;
+      } catch {
+        failed++;
+      }
+      setProgress({ done, failed });
+    }
+    setRunning(false);
+  };
+
+  const summary = watermark
+    ? `${watermark.logo ? `Logo ${watermark.logo}` : `“${watermark.text}”`} · ${watermark.position} · ${Math.round(watermark.opacity * 100)}% · variants from ${watermark.minWidth}px`
+    : "Off";
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-gray-200 bg-gray-50 p-3 dark:border-gray-700 dark:bg-gray-900">
+      <div className="min-w-0">
+        <span className="block text-gray-500 dark:text-gray-400">Watermark</span>
+        <span className="block truncate text-gray-900 dark:text-white">{summary}</span>
+        <span className="block text-xs text-gray-400 dark:text-gray-500">
+          Set in site.yaml or this gallery&apos;s gallery.yaml. Re-stamp after changing it.
+        </span>
+      </div>
+      <div className="flex items-center gap-3">
+        {progress && (
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            {running ? "Re-stamping" : "Re-stamped"} {progress.done}/{ownPhotos.length}
+            {progress.failed > 0 ? ` · ${progress.failed} failed` : ""}
+          </span>
+        )}
+        <button
+          type="button"
+          onClick={handleRestamp}
+          disabled={running || ownPhotos.length === 0}
+          className="px-3 py-1.5 text-sm text-gray-700 dark:text-gray-300 border border-gray-200 dark:border-gray-700 rounded-lg hover:bg-white dark:hover:bg-gray-800 disabled:opacity-50 transition-colors"
+        >
+          {running ? "Working..." : "Re-stamp variants"}
+        </button>
+      </div>
+      {error && <p className="w-full text-xs text-red-600 dark:text-red-400">{error}</p>}
+    </div>
+  );
+}
+
+const DOWNLOAD_SIZE_LABELS: Record<GalleryDownloadSize, string> = {
+  none: "Off",
+  "web-size": "Web size",
+  original: "Original resolution",
+};
+
 function GalleryRatioOption({
   value,
   selectedValue,
@@ -1507,6 +1960,18 @@ function MovePhotosModal({
   );
 }
 
+interface PhotoEdition {
+  title: string;
+  description: string;
+  alt: string;
+}
+
+interface AltTextSuggestion {
+  locale: Locale;
+  text: string;
+  status: "pending" | "approved" | "rejected";
+}
+
 // Photo Edit Modal - Edit individual photo metadata
 function PhotoEditModal({
   photo,
@@ -1519,7 +1984,9 @@ function PhotoEditModal({
   gallerySlug: string;
   onSave: (updates: {
     sourceLocale: Locale;
-    editions: Record<Locale, { title: string; description: string }>;
+    editions: Record<Locale, PhotoEdition>;
+    /** Locales whose generated alt text the editor used. */
+    approvedAltLocales: Locale[];
     tags?: string[];
     hidden?: boolean;
     featured?: boolean;
@@ -1532,22 +1999,24 @@ function PhotoEditModal({
   const sourceLocale = siteLanguages.multilingual
     ? normalizeLocale(photo.locale) || siteLanguages.defaultLocale
     : siteLanguages.defaultLocale;
+  const editionLocales = editableLocales(sourceLocale, siteLanguages.locales);
   const [activeLocale, setActiveLocale] = useState<Locale>(sourceLocale);
-  const [editions, setEditions] = useState<Record<Locale, { title: string; description: string }>>(() => {
-    const value = {
-      es: { title: "", description: "" },
-      en: { title: "", description: "" },
-    };
+  const [editions, setEditions] = useState<Record<Locale, PhotoEdition>>(() => {
+    const value: Record<Locale, PhotoEdition> = Object.fromEntries(
+      editionLocales.map((locale) => [locale, { title: "", description: "", alt: "" }]),
+    );
     value[sourceLocale] = {
       title: photo.title || "",
       description: photo.description || "",
+      alt: photo.translations?.[sourceLocale]?.alt || "",
     };
-    for (const locale of SUPPORTED_LOCALES) {
+    for (const locale of editionLocales) {
       const translation = photo.translations?.[locale];
       if (translation) {
         value[locale] = {
           title: translation.title || "",
           description: translation.description || "",
+          alt: translation.alt || "",
         };
       }
     }
@@ -1555,12 +2024,21 @@ function PhotoEditModal({
   });
   const title = editions[activeLocale].title;
   const description = editions[activeLocale].description;
-  const setEditionField = (field: "title" | "description", value: string) => {
+  const alt = editions[activeLocale].alt;
+  const setEditionField = (field: keyof PhotoEdition, value: string) => {
     setEditions((current) => ({
       ...current,
       [activeLocale]: { ...current[activeLocale], [field]: value },
     }));
   };
+  const [altSuggestions, setAltSuggestions] = useState<AltTextSuggestion[]>([]);
+  const [approvedAltLocales, setApprovedAltLocales] = useState<Locale[]>([]);
+  const activeAltSuggestion = altSuggestions.find(
+    (suggestion) =>
+      suggestion.locale === activeLocale &&
+      suggestion.status === "pending" &&
+      !approvedAltLocales.includes(activeLocale),
+  );
   const [tags, setTags] = useState((photo.tags || []).join(", "));
   const [hidden, setHidden] = useState(photo.hidden || false);
   const [featured, setFeatured] = useState(photo.featured || false);
@@ -1612,6 +2090,55 @@ function PhotoEditModal({
     fetchVariants();
   }, [photo.path]);
   
+  // Generated alt text waiting for review; the panel stays hidden without Photo AI
+  useEffect(() => {
+    async function fetchAltSuggestions() {
+      try {
+        const formData = new FormData();
+        formData.append("action", "alt-text");
+        formData.append("photoPath", photo.path);
+
+        const response = await fetch("/api/admin/ai", {
+          method: "POST",
+          body: formData,
+        });
+
+        const data = (await response.json()) as { success?: boolean; altText?: AltTextSuggestion[] };
+        if (data.success) setAltSuggestions(data.altText || []);
+      } catch (err) {
+        console.error("Failed to fetch alt text suggestions:", err);
+      }
+    }
+
+    fetchAltSuggestions();
+  }, [photo.path]);
+
+  const applyAltSuggestion = (suggestion: AltTextSuggestion) => {
+    setEditions((current) => ({
+      ...current,
+      [suggestion.locale]: { ...current[suggestion.locale], alt: suggestion.text },
+    }));
+    setApprovedAltLocales((current) => [...current, suggestion.locale]);
+  };
+
+  const dismissAltSuggestion = async (suggestion: AltTextSuggestion) => {
+    setAltSuggestions((current) =>
+      current.map((candidate) =>
+        candidate.locale === suggestion.locale ? { ...candidate, status: "rejected" } : candidate,
+      ),
+    );
+    try {
+      const formData = new FormData();
+      formData.append("action", "review-alt-text");
+      formData.append("photoPath", photo.path);
+      formData.append("locale", suggestion.locale);
+      formData.append("decision", "rejected");
+      await fetch("/api/admin/ai", { method: "POST", body: formData });
+    } catch (err) {
+      console.error("Failed to dismiss alt text suggestion:", err);
+    }
+  };
+
   // Delete all variants
   const handleDeleteVariants = async () => {
     if (!confirm("Delete all optimized variants? You can regenerate them later.")) return;
@@ -1684,6 +2211,7 @@ function PhotoEditModal({
     onSave({
       sourceLocale,
       editions,
+      approvedAltLocales: approvedAltLocales.filter((locale) => editions[locale]?.alt.trim()),
       tags: tags ? tags.split(",").map(t => t.trim()).filter(Boolean) : undefined,
       hidden,
       featured,
@@ -1719,13 +2247,22 @@ function PhotoEditModal({
           <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">
             Edit Photo
           </h3>
-          <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">{photo.filename}</p>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-6">
+            {photo.filename}
+            {" · "}
+            <Link
+              to={`/admin/revisions?kind=photo&id=${encodeURIComponent(photo.path)}`}
+              className="underline hover:text-gray-700 dark:hover:text-gray-300"
+            >
+              History
+            </Link>
+          </p>
           
           <div className="space-y-4">
             {siteLanguages.multilingual && (
             <div className="flex items-center justify-between gap-3 rounded-lg border border-gray-200 bg-gray-50 p-2 dark:border-gray-700 dark:bg-gray-800">
               <div className="flex gap-1" aria-label="Language edition">
-                {SUPPORTED_LOCALES.map((locale) => (
+                {editionLocales.map((locale) => (
                   <button
                     key={locale}
                     type="button"
@@ -1742,7 +2279,7 @@ function PhotoEditModal({
                 ))}
               </div>
               <span className="px-2 text-xs text-gray-500 dark:text-gray-400">
-                {localeNames[activeLocale]}
+                {localeName(activeLocale)}
               </span>
             </div>
             )}
@@ -1759,7 +2296,7 @@ function PhotoEditModal({
                 className="w-full px-3 py-2 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
               />
               <p className="mt-1.5 text-xs text-gray-500 dark:text-gray-400">
-                Used as the visible photo title, page title and image alt text.
+                Used as the visible photo title and page title, and as image alt text when none is set.
               </p>
             </div>
             
@@ -1781,6 +2318,47 @@ function PhotoEditModal({
               </p>
             </div>
             
+            {/* Alt text */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Alt text{siteLanguages.multilingual ? ` · ${activeLocale.toUpperCase()}` : ""}
+              </label>
+              {activeAltSuggestion && (
+                <div className="mb-2 rounded-lg border border-violet-200 bg-violet-50 p-3 text-sm dark:border-violet-900/60 dark:bg-violet-950/30">
+                  <p className="text-xs font-medium text-violet-700 dark:text-violet-300">Suggested by Photo AI</p>
+                  <p className="mt-1 text-gray-800 dark:text-gray-200">{activeAltSuggestion.text}</p>
+                  <div className="mt-2 flex gap-2">
+                    <button
+                      type="button"
+                      onClick={() => applyAltSuggestion(activeAltSuggestion)}
+                      className="px-2.5 py-1 text-xs font-medium bg-violet-600 text-white rounded-lg hover:bg-violet-700 transition-colors"
+                    >
+                      Use suggestion
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => dismissAltSuggestion(activeAltSuggestion)}
+                      className="px-2.5 py-1 text-xs font-medium text-gray-600 dark:text-gray-300 rounded-lg hover:bg-white dark:hover:bg-gray-800 transition-colors"
+                    >
+                      Dismiss
+                    </button>
+                  </div>
+                </div>
+              )}
+              <textarea
+                value={alt}
+                onChange={(e) => setEditionField("alt", e.target.value)}
+                placeholder="Describe what is in the photo for screen readers..."
+                rows={2}
+                maxLength={250}
+                className="w-full px-3 py-2 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+              />
+              <p className="mt-1.5 text-xs text-gray-500 dark:text-gray-400">
+                Read by screen readers instead of the title. Not shown on the page.
+                {approvedAltLocales.includes(activeLocale) ? " Saving approves the suggestion, including your edits." : ""}
+              </p>
+            </div>
+            
             {/* Tags */}
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
@@ -12,7 +12,7 @@ import type { LoaderFunctionArgs } from "@remix-run/cloudflare";
 import { useLoaderData, Link, useFetcher, useNavigate, useSearchParams, useRevalidator } from "@remix-run/react";
 import { json } from "@remix-run/cloudflare";
 import { AdminLayout } from "~/components/AdminLayout";
-import { checkAdminAuth, getAdminUser } from "~/utils/admin-auth";
+import { requireAdminAccount } from "~/utils/admin-auth";
 import { getStorage, getContentIndex } from "~/lib/content-engine";
 import { useState, useEffect, useCallback, useMemo } from "react";
 import { useSiteLanguages } from "~/hooks/useSiteLanguages";
@@ -52,9 +52,8 @@ interface GalleryItem {
 }
 
 export async function loader({ request, context }: LoaderFunctionArgs) {
-  await checkAdminAuth(request, context);
+  const { username, role } = await requireAdminAccount(request, context, "translations");
   
-  const username = await getAdminUser(request, context);
   const storage = getStorage(context);
   const url = new URL(request.url);
   const currentPath = url.searchParams.get("path") || "";
@@ -110,6 +109,7 @@ export async function loader({ request, context }: LoaderFunctionArgs) {
   
   return json({ 
     username, 
+    role, 
     galleries: sortedGalleries,
     currentPath,
     currentFolder,
@@ -122,6 +122,7 @@ export async function loader({ request, context }: LoaderFunctionArgs) {
 export default function AdminGalleries() {
   const { 
     username, 
+    role,
     galleries, 
     currentPath, 
     currentFolder,
@@ -305,7 +306,7 @@ export default function AdminGalleries() {
   }, [currentPath]);
 
   return (
-    <AdminLayout username={username || undefined}>
+    <AdminLayout username={username || undefined} role={role}>
       <div className="p-6 lg:p-8">
         {/* Header */}
         <div className="flex items-center justify-between mb-6">
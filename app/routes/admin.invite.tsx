@@ -0,0 +1,133 @@
+/**
+ * Admin Invitation Page
+ *
+ * GET /admin/invite?username=<name>&token=<token>
+ * Lets an invited account choose its password, then signs it in.
+ */
+
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/cloudflare";
+import { json, redirect } from "@remix-run/cloudflare";
+import { Form, useActionData, useLoaderData, useNavigation } from "@remix-run/react";
+import { getStorage } from "~/lib/content-engine";
+import {
+  acceptAdminInvite,
+  ADMIN_PASSWORD_MIN_LENGTH,
+  AdminUserError,
+  adminSessionCookie,
+  createAdminSessionToken,
+} from "~/utils/admin-auth";
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const params = new URL(request.url).searchParams;
+  return json({
+    username: params.get("username") || "",
+    token: params.get("token") || "",
+    minPasswordLength: ADMIN_PASSWORD_MIN_LENGTH,
+  });
+}
+
+export async function action({ request, context }: ActionFunctionArgs) {
+  const formData = await request.formData();
+  const username = String(formData.get("username") || "");
+  const token = String(formData.get("token") || "");
+  const password = String(formData.get("password") || "");
+
+  if (password !== String(formData.get("confirmPassword") || "")) {
+    return json({ error: "Passwords do not match" }, { status: 400 });
+  }
+
+  try {
+    const credentials = await acceptAdminInvite(
+      getStorage(context, request),
+      username,
+      token,
+      password,
+    );
+    const sessionToken = await createAdminSessionToken(credentials);
+    return redirect("/admin", {
+      headers: { "Set-Cookie": adminSessionCookie(sessionToken) },
+    });
+  } catch (error) {
+    if (error instanceof AdminUserError) {
+      return json({ error: error.message }, { status: 400 });
+    }
+    throw error;
+  }
+}
+
+const inputClass =
+  "w-full px-4 py-3 bg-gray-900 border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-base";
+
+export default function AdminInvite() {
+  const { username, token, minPasswordLength } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSubmitting = navigation.state === "submitting";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-900 via-gray-800 to-gray-900 overflow-auto">
+      <div className="min-h-screen flex items-center justify-center p-4 py-12">
+        <div className="w-full max-w-md">
+          <div className="text-center mb-8">
+            <h1 className="text-3xl font-bold text-white mb-2">VictoPress</h1>
+            <p className="text-gray-400">Admin Panel</p>
+          </div>
+
+          <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl border border-gray-700 p-6 sm:p-8">
+            <h2 className="text-xl font-semibold text-white mb-2 text-center">Accept invitation</h2>
+            <p className="text-sm text-gray-400 mb-6 text-center">
+              Choose a password for <span className="text-white">{username || "your account"}</span>.
+            </p>
+
+            {actionData?.error && (
+              <div className="mb-6 p-4 bg-red-900/30 border border-red-700 rounded-lg">
+                <p className="text-red-400 text-sm">{actionData.error}</p>
+              </div>
+            )}
+
+            <Form method="post" className="space-y-5">
+              <input type="hidden" name="username" value={username} />
+              <input type="hidden" name="token" value={token} />
+              <div>
+                <label htmlFor="password" className="block text-sm font-medium text-gray-300 mb-2">
+                  Password
+                </label>
+                <input
+                  type="password"
+                  id="password"
+                  name="password"
+                  required
+                  minLength={minPasswordLength}
+                  autoComplete="new-password"
+                  className={inputClass}
+                  placeholder={`At least ${minPasswordLength} characters`}
+                />
+              </div>
+              <div>
+                <label htmlFor="confirmPassword" className="block text-sm font-medium text-gray-300 mb-2">
+                  Confirm password
+                </label>
+                <input
+                  type="password"
+                  id="confirmPassword"
+                  name="confirmPassword"
+                  required
+                  minLength={minPasswordLength}
+                  autoComplete="new-password"
+                  className={inputClass}
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={isSubmitting || !token}
+                className="w-full py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 disabled:cursor-not-allowed text-white font-medium rounded-lg transition-colors"
+              >
+                {isSubmitting ? "Saving..." : "Set password and sign in"}
+              </button>
+            </Form>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
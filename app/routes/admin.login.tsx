@@ -9,56 +9,146 @@ import { useState } from "react";
 import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/cloudflare";
 import { json, redirect } from "@remix-run/cloudflare";
 import { Form, useActionData, useNavigation } from "@remix-run/react";
+import { getStorage } from "~/lib/content-engine";
+import type { StorageAdapter } from "~/lib/content-engine";
 import {
+  adminChallengeCookie,
   adminSessionCookie,
+  authenticateAdminAccount,
+  createAdminChallengeToken,
   createAdminSessionToken,
-  getEffectiveAdminCredentials,
+  getAdminAccounts,
   hasValidAdminSession,
-  verifyAdminPassword,
+  readAdminChallenge,
+  verifyAdminSecondFactor,
+  type AdminCredentials,
 } from "~/utils/admin-auth";
+import {
+  clearLoginFailures,
+  getLoginRetryAfter,
+  loginThrottleKeys,
+  recordLoginFailure,
+} from "~/utils/login-throttle";
+
+interface LoginActionData {
+  error?: string;
+  /** The password was accepted and a TOTP or recovery code is needed. */
+  twoFactor?: boolean;
+}
 
 export async function loader({ request, context }: LoaderFunctionArgs) {
-  const credentials = await getEffectiveAdminCredentials(context, request);
+  const accounts = await getAdminAccounts(context, request);
   
   // If no credentials configured, redirect to setup
-  if (!credentials) {
+  if (!accounts) {
     return redirect("/setup");
   }
   
   // Check if already authenticated via cookie
-  if (await hasValidAdminSession(request, credentials)) return redirect("/admin");
+  for (const account of accounts) {
+    if (await hasValidAdminSession(request, account)) return redirect("/admin");
+  }
   
   return json({});
 }
 
+function tooManyAttempts(retryAfter: number, twoFactor = false) {
+  const minutes = Math.ceil(retryAfter / 60);
+  return json<LoginActionData>(
+    {
+      error: `Too many failed attempts. Try again in ${minutes} minute${minutes === 1 ? "" : "s"}.`,
+      twoFactor,
+    },
+    { status: 429, headers: { "Retry-After": String(retryAfter) } },
+  );
+}
+
+async function signIn(account: AdminCredentials, redirectTo: string, remember: boolean, clearChallenge = false) {
+  const headers = new Headers();
+  // Use Path=/ so cookie works for all admin routes
+  headers.append("Set-Cookie", adminSessionCookie(await createAdminSessionToken(account), remember));
+  if (clearChallenge) headers.append("Set-Cookie", adminChallengeCookie(null));
+  return redirect(redirectTo, { headers });
+}
+
+async function verifySecondFactor(
+  request: Request,
+  context: ActionFunctionArgs["context"],
+  storage: StorageAdapter,
+  accounts: AdminCredentials[],
+  formData: FormData,
+) {
+  const challenge = await readAdminChallenge(request, accounts);
+  if (!challenge) {
+    return json<LoginActionData>(
+      { error: "Your sign-in expired. Enter your password again." },
+      { status: 401, headers: { "Set-Cookie": adminChallengeCookie(null) } },
+    );
+  }
+
+  const { account, remember, redirectTo } = challenge;
+  const throttleKeys = await loginThrottleKeys(request, account.username, context);
+  const retryAfter = await getLoginRetryAfter(storage, throttleKeys);
+  if (retryAfter > 0) return tooManyAttempts(retryAfter, true);
+
+  const code = String(formData.get("code") || "");
+  if (!(await verifyAdminSecondFactor(storage, account.username, code))) {
+    await recordLoginFailure(storage, throttleKeys);
+    return json<LoginActionData>(
+      { error: "Invalid authentication code", twoFactor: true },
+      { status: 401 },
+    );
+  }
+
+  await clearLoginFailures(storage, throttleKeys);
+  return signIn(account, redirectTo, remember, true);
+}
+
 export async function action({ request, context }: ActionFunctionArgs) {
-  const credentials = await getEffectiveAdminCredentials(context, request);
+  const accounts = await getAdminAccounts(context, request);
   
-  if (!credentials) {
+  if (!accounts) {
     return redirect("/setup");
   }
   
+  const storage = getStorage(context, request);
   const formData = await request.formData();
-  const username = formData.get("username") as string;
-  const password = formData.get("password") as string;
+  if (formData.get("intent") === "verify") {
+    return verifySecondFactor(request, context, storage, accounts, formData);
+  }
+
+  const username = String(formData.get("username") || "");
+  const password = String(formData.get("password") || "");
   const rememberCredentials = formData.get("remember") === "on";
   const requestedRedirect = String(formData.get("redirectTo") || "/admin");
   const redirectTo = requestedRedirect.startsWith("/") && !requestedRedirect.startsWith("//")
     ? requestedRedirect
     : "/admin";
   
-  if (username === credentials.username && await verifyAdminPassword(password, credentials)) {
-    const token = await createAdminSessionToken(credentials);
-    
-    // Use Path=/ so cookie works for all admin routes
-    return redirect(redirectTo, {
-      headers: {
-        "Set-Cookie": adminSessionCookie(token, rememberCredentials),
-      },
+  const throttleKeys = await loginThrottleKeys(request, username, context);
+  const retryAfter = await getLoginRetryAfter(storage, throttleKeys);
+  if (retryAfter > 0) return tooManyAttempts(retryAfter);
+
+  const account = await authenticateAdminAccount(accounts, username, password);
+  if (!account) {
+    await recordLoginFailure(storage, throttleKeys);
+    return json<LoginActionData>({ error: "Invalid username or password" }, { status: 401 });
+  }
+
+  if (account.totpEnabled) {
+    // Counters are only cleared once the second factor is accepted too.
+    const challenge = await createAdminChallengeToken(account, {
+      remember: rememberCredentials,
+      redirectTo,
     });
+    return json<LoginActionData>(
+      { twoFactor: true },
+      { headers: { "Set-Cookie": adminChallengeCookie(challenge) } },
+    );
   }
-  
-  return json({ error: "Invalid username or password" }, { status: 401 });
+
+  await clearLoginFailures(storage, throttleKeys);
+  return signIn(account, redirectTo, rememberCredentials);
 }
 
 export default function AdminLogin() {
@@ -79,7 +169,9 @@ export default function AdminLogin() {
           
           {/* Login Card */}
           <div className="bg-gray-800/50 backdrop-blur-sm rounded-2xl border border-gray-700 p-6 sm:p-8">
-            <h2 className="text-xl font-semibold text-white mb-6 text-center">Sign In</h2>
+            <h2 className="text-xl font-semibold text-white mb-6 text-center">
+              {actionData?.twoFactor ? "Two-Factor Authentication" : "Sign In"}
+            </h2>
             
             {actionData?.error && (
               <div className="mb-6 p-4 bg-red-900/30 border border-red-700 rounded-lg">
@@ -87,66 +179,102 @@ export default function AdminLogin() {
               </div>
             )}
             
-            <Form
-              method="post"
-              autoComplete={rememberCredentials ? "on" : "off"}
-              className="space-y-5"
-            >
-              <div>
-                <label htmlFor="username" className="block text-sm font-medium text-gray-300 mb-2">
-                  Username
-                </label>
-                <input
-                  type="text"
-                  id="username"
-                  name="username"
-                  required
-                  autoComplete={rememberCredentials ? "username" : "off"}
-                  className="w-full px-4 py-3 bg-gray-900 border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-base"
-                  placeholder="Enter your username"
-                />
-              </div>
+            {actionData?.twoFactor ? (
+              <Form method="post" className="space-y-5">
+                <input type="hidden" name="intent" value="verify" />
+                <div>
+                  <label htmlFor="code" className="block text-sm font-medium text-gray-300 mb-2">
+                    Authentication code
+                  </label>
+                  <input
+                    type="text"
+                    id="code"
+                    name="code"
+                    required
+                    autoFocus
+                    autoComplete="one-time-code"
+                    className="w-full px-4 py-3 bg-gray-900 border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-base tracking-widest"
+                    placeholder="123456"
+                  />
+                  <p className="mt-2 text-xs text-gray-400">
+                    Enter the 6-digit code from your authenticator app, or one of your recovery codes.
+                  </p>
+                </div>
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="w-full py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 disabled:cursor-not-allowed text-white font-medium rounded-lg transition-colors"
+                >
+                  {isSubmitting ? "Verifying..." : "Verify"}
+                </button>
+                <p className="text-center text-sm">
+                  <a href="/admin/login" className="text-gray-400 hover:text-gray-200 transition-colors">
+                    Start over
+                  </a>
+                </p>
+              </Form>
+            ) : (
+              <Form
+                method="post"
+                autoComplete={rememberCredentials ? "on" : "off"}
+                className="space-y-5"
+              >
+                <div>
+                  <label htmlFor="username" className="block text-sm font-medium text-gray-300 mb-2">
+                    Username
+                  </label>
+                  <input
+                    type="text"
+                    id="username"
+                    name="username"
+                    required
+                    autoComplete={rememberCredentials ? "username" : "off"}
+                    className="w-full px-4 py-3 bg-gray-900 border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-base"
+                    placeholder="Enter your username"
+                  />
+                </div>
               
-              <div>
-                <label htmlFor="password" className="block text-sm font-medium text-gray-300 mb-2">
-                  Password
-                </label>
-                <input
-                  type="password"
-                  id="password"
-                  name="password"
-                  required
-                  autoComplete={rememberCredentials ? "current-password" : "off"}
-                  className="w-full px-4 py-3 bg-gray-900 border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-base"
-                  placeholder="Enter your password"
-                />
-              </div>
+                <div>
+                  <label htmlFor="password" className="block text-sm font-medium text-gray-300 mb-2">
+                    Password
+                  </label>
+                  <input
+                    type="password"
+                    id="password"
+                    name="password"
+                    required
+                    autoComplete={rememberCredentials ? "current-password" : "off"}
+                    className="w-full px-4 py-3 bg-gray-900 border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent text-base"
+                    placeholder="Enter your password"
+                  />
+                </div>
 
-              <div className="flex items-center">
-                <input
-                  type="checkbox"
-                  id="remember"
-                  name="remember"
-                  checked={rememberCredentials}
-                  onChange={(event) => setRememberCredentials(event.currentTarget.checked)}
-                  className="h-4 w-4 rounded border-gray-600 bg-gray-900 accent-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:ring-offset-gray-800"
-                />
-                <label
-                  htmlFor="remember"
-                  className="ml-3 cursor-pointer select-none text-sm text-gray-300"
-                >
-                  Remember username and password
-                </label>
-              </div>
+                <div className="flex items-center">
+                  <input
+                    type="checkbox"
+                    id="remember"
+                    name="remember"
+                    checked={rememberCredentials}
+                    onChange={(event) => setRememberCredentials(event.currentTarget.checked)}
+                    className="h-4 w-4 rounded border-gray-600 bg-gray-900 accent-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 focus:ring-offset-gray-800"
+                  />
+                  <label
+                    htmlFor="remember"
+                    className="ml-3 cursor-pointer select-none text-sm text-gray-300"
+                  >
+                    Remember username and password
+                  </label>
+                </div>
               
-              <button
-                type="submit"
-                disabled={isSubmitting}
-                className="w-full py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 disabled:cursor-not-allowed text-white font-medium rounded-lg transition-colors"
-              >
-                {isSubmitting ? "Signing in..." : "Sign In"}
-              </button>
-            </Form>
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="w-full py-3 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-700 disabled:cursor-not-allowed text-white font-medium rounded-lg transition-colors"
+                >
+                  {isSubmitting ? "Signing in..." : "Sign In"}
+                </button>
+              </Form>
+            )}
 
           </div>
           
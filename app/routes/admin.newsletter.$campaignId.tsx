@@ -7,12 +7,15 @@ import type {
 import { Link, useLoaderData } from "@remix-run/react";
 import { AdminLayout } from "~/components/AdminLayout";
 import { getStorage } from "~/lib/content-engine";
+import { resolveNewsletterConfig } from "~/lib/newsletter/config.server";
 import {
   getNewsletterCampaign,
+  getNewsletterSegment,
+  listNewsletterClicks,
   listNewsletterOpens,
   listNewsletterSubscribers,
 } from "~/lib/newsletter/subscriber-store.server";
-import { checkAdminAuth, getAdminUser } from "~/utils/admin-auth";
+import { requireAdminAccount } from "~/utils/admin-auth";
 
 export const meta: MetaFunction = () => [
   { title: "Newsletter report — VictoPress" },
@@ -24,18 +27,18 @@ export const headers: HeadersFunction = () => ({
 });
 
 export async function loader({ request, context, params }: LoaderFunctionArgs) {
-  await checkAdminAuth(request, context);
+  const { username, role } = await requireAdminAccount(request, context, "newsletter");
   const campaignId = params.campaignId || "";
   if (!/^[a-f0-9]{64}$/.test(campaignId)) {
     throw new Response("Campaign not found.", { status: 404 });
   }
 
   const storage = getStorage(context, request);
-  const [username, campaign, subscribers, opens] = await Promise.all([
-    getAdminUser(request, context),
+  const [campaign, subscribers, opens, clicks] = await Promise.all([
     getNewsletterCampaign(storage, campaignId),
     listNewsletterSubscribers(storage),
     listNewsletterOpens(storage, campaignId),
+    listNewsletterClicks(storage, campaignId),
   ]);
   if (!campaign) {
     throw new Response("Campaign not found.", { status: 404 });
@@ -47,6 +50,20 @@ export async function loader({ request, context, params }: LoaderFunctionArgs) {
   const opensBySubscriberId = new Map(
     opens.map((open) => [open.subscriberId, open]),
   );
+  const clicksBySubscriberId = new Map<string, number>();
+  const linkStats = new Map(
+    (campaign.links || []).map((url) => [url, { url, clicks: 0, uniqueClickers: 0 }]),
+  );
+  for (const click of clicks) {
+    clicksBySubscriberId.set(
+      click.subscriberId,
+      (clicksBySubscriberId.get(click.subscriberId) || 0) + click.clickCount,
+    );
+    const stats = linkStats.get(click.url) || { url: click.url, clicks: 0, uniqueClickers: 0 };
+    stats.clicks += click.clickCount;
+    stats.uniqueClickers += 1;
+    linkStats.set(click.url, stats);
+  }
   const recipients = campaign.recipientIds.map((subscriberId) => {
     const subscriber = subscribersById.get(subscriberId);
     const batch = campaign.batches.find((candidate) =>
@@ -66,33 +83,51 @@ export async function loader({ request, context, params }: LoaderFunctionArgs) {
       locale: subscriber?.locale || campaign.locale,
       deliveryStatus,
       open: opensBySubscriberId.get(subscriberId) || null,
+      clicks: clicksBySubscriberId.get(subscriberId) || 0,
     };
   });
   const sentCount = recipients.filter(
     (recipient) => recipient.deliveryStatus === "sent",
   ).length;
   const openedCount = recipients.filter((recipient) => recipient.open).length;
+  const segmentNames = await Promise.all(
+    (campaign.segmentIds || []).map(async (segmentId) =>
+      (await getNewsletterSegment(storage, segmentId))?.name || "Deleted segment"
+    ),
+  );
 
   return json({
     username,
+    role,
     campaign,
     recipients,
     sentCount,
     openedCount,
+    clickerCount: clicksBySubscriberId.size,
+    links: [...linkStats.values()].sort((left, right) =>
+      right.uniqueClickers - left.uniqueClickers || right.clicks - left.clicks
+    ),
+    clickTracking: resolveNewsletterConfig(context, request).clickTracking,
+    segmentNames,
   });
 }
 
 export default function AdminNewsletterCampaignReport() {
   const {
     username,
+    role,
     campaign,
     recipients,
     sentCount,
     openedCount,
+    clickerCount,
+    links,
+    clickTracking,
+    segmentNames,
   } = useLoaderData<typeof loader>();
 
   return (
-    <AdminLayout username={username || undefined}>
+    <AdminLayout username={username || undefined} role={role}>
       <div className="p-6 lg:p-8">
         <Link
           to="/admin/newsletter"
@@ -112,22 +147,32 @@ export default function AdminNewsletterCampaignReport() {
             <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
               Subject: {campaign.subject}
             </p>
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              Audience: {segmentNames.length ? segmentNames.join(", ") : "All active subscribers"}
+            </p>
           </div>
           <Link
-            to={`/admin/blog/${campaign.postSlug}`}
+            to={campaign.postSlug
+              ? `/admin/blog/${campaign.postSlug}`
+              : `/admin/newsletter/drafts/${campaign.draftId}`}
             className="text-sm font-medium text-gray-900 underline dark:text-white"
           >
-            View post
+            {campaign.postSlug ? "View post" : "View newsletter"}
           </Link>
         </div>
 
-        <div className="mt-8 grid grid-cols-2 gap-4 lg:grid-cols-4">
+        <div className="mt-8 grid grid-cols-2 gap-4 lg:grid-cols-3">
           <Metric label="Recipients" value={recipients.length.toString()} />
           <Metric label="Sent" value={sentCount.toString()} />
           <Metric label="Open detections" value={openedCount.toString()} />
           <Metric
             label="Detected open rate"
-            value={formatOpenRate(openedCount, sentCount)}
+            value={formatRate(openedCount, sentCount)}
+          />
+          <Metric label="Unique clickers" value={clickerCount.toString()} />
+          <Metric
+            label="Click-through rate"
+            value={formatRate(clickerCount, sentCount)}
           />
         </div>
 
@@ -136,8 +181,61 @@ export default function AdminNewsletterCampaignReport() {
           tracking image. Image blocking can hide a real read, while privacy
           proxies and security scanners can create an open without a person
           reading the message.
+          {clickTracking
+            ? " Link scanners can also follow tracked links before the reader does."
+            : " Click tracking is turned off, so links lead straight to their destination."}
         </div>
 
+        <section className="mt-8 overflow-hidden rounded-xl border border-gray-200 bg-white dark:border-gray-800 dark:bg-gray-950">
+          <div className="border-b border-gray-200 px-5 py-4 dark:border-gray-800">
+            <h2 className="font-semibold text-gray-900 dark:text-white">Links</h2>
+            <p className="mt-0.5 text-xs text-gray-500 dark:text-gray-400">
+              Click-through counts unique clickers against sent emails.
+            </p>
+          </div>
+          {links.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500 dark:text-gray-400">
+              {clickTracking
+                ? "No tracked links in this campaign."
+                : "This campaign was sent without click tracking."}
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left text-xs uppercase tracking-wide text-gray-500 dark:bg-gray-900 dark:text-gray-400">
+                  <tr>
+                    <th className="px-5 py-3">Link</th>
+                    <th className="px-5 py-3">Unique clickers</th>
+                    <th className="px-5 py-3">Clicks</th>
+                    <th className="px-5 py-3">Click-through</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-800">
+                  {links.map((link) => (
+                    <tr key={link.url}>
+                      <td className="max-w-xl px-5 py-4">
+                        <a
+                          href={link.url}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="break-all text-gray-900 hover:underline dark:text-white"
+                        >
+                          {link.url}
+                        </a>
+                      </td>
+                      <td className="px-5 py-4 text-gray-600 dark:text-gray-300">{link.uniqueClickers}</td>
+                      <td className="px-5 py-4 text-gray-600 dark:text-gray-300">{link.clicks}</td>
+                      <td className="px-5 py-4 text-gray-600 dark:text-gray-300">
+                        {formatRate(link.uniqueClickers, sentCount)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+
         <section className="mt-8 overflow-hidden rounded-xl border border-gray-200 bg-white dark:border-gray-800 dark:bg-gray-950">
           <div className="border-b border-gray-200 px-5 py-4 dark:border-gray-800">
             <h2 className="font-semibold text-gray-900 dark:text-white">
@@ -158,6 +256,7 @@ export default function AdminNewsletterCampaignReport() {
                   <th className="px-5 py-3">First detected</th>
                   <th className="px-5 py-3">Last detected</th>
                   <th className="px-5 py-3">Detections</th>
+                  <th className="px-5 py-3">Clicks</th>
                 </tr>
               </thead>
               <tbody className="divide-y divide-gray-200 dark:divide-gray-800">
@@ -188,6 +287,9 @@ export default function AdminNewsletterCampaignReport() {
                     <td className="px-5 py-4 text-gray-500 dark:text-gray-400">
                       {recipient.open?.openCount || 0}
                     </td>
+                    <td className="px-5 py-4 text-gray-500 dark:text-gray-400">
+                      {recipient.clicks}
+                    </td>
                   </tr>
                 ))}
               </tbody>
@@ -233,10 +335,10 @@ function formatDate(value: string): string {
   }).format(new Date(value));
 }
 
-function formatOpenRate(opens: number, recipients: number): string {
+function formatRate(count: number, recipients: number): string {
   if (recipients < 1) return "—";
   return new Intl.NumberFormat("en-GB", {
     style: "percent",
     maximumFractionDigits: 1,
-  }).format(opens / recipients);
+  }).format(count / recipients);
 }
@@ -12,6 +12,7 @@ import {
   useLoaderData,
   useNavigation,
 } from "@remix-run/react";
+import { useState } from "react";
 import { AdminLayout } from "~/components/AdminLayout";
 import {
   getContentIndex,
@@ -22,7 +23,8 @@ import {
   buildHeadlessBlogPost,
   resolveHeadlessBlogConfig,
 } from "~/lib/headless-blog";
-import { normalizeLocale } from "~/lib/i18n";
+import { useSiteLanguages } from "~/hooks/useSiteLanguages";
+import { localeName, normalizeLocale } from "~/lib/i18n";
 import { resolveNewsletterConfig } from "~/lib/newsletter/config.server";
 import {
   NewsletterCampaignAlreadySentError,
@@ -30,19 +32,23 @@ import {
   NewsletterValidationError,
   sendNewsletterCampaign,
 } from "~/lib/newsletter/newsletter-service.server";
+import { countNewsletterAudiences } from "~/lib/newsletter/segments.server";
 import {
   importNewsletterSubscriberCsv,
   NewsletterCsvImportError,
 } from "~/lib/newsletter/subscriber-import.server";
 import {
   listNewsletterCampaigns,
+  listNewsletterDrafts,
   listNewsletterOpens,
+  listNewsletterSegments,
   listNewsletterSubscribers,
   newsletterSubscriberStats,
   updateNewsletterSubscriberName,
+  updateNewsletterSubscriberTags,
 } from "~/lib/newsletter/subscriber-store.server";
 import type { NewsletterSubscriberInteractions } from "~/lib/newsletter/types";
-import { checkAdminAuth, getAdminUser } from "~/utils/admin-auth";
+import { checkAdminAuth, requireAdminAccount } from "~/utils/admin-auth";
 
 export const meta: MetaFunction = () => [
   { title: "Newsletter — VictoPress" },
@@ -59,13 +65,14 @@ const SUBSCRIBERS_PER_PAGE = 100;
 const MAX_CSV_UPLOAD_BYTES = 5 * 1024 * 1024;
 
 export async function loader({ request, context }: LoaderFunctionArgs) {
-  await checkAdminAuth(request, context);
+  const { username, role } = await requireAdminAccount(request, context, "newsletter");
   const storage = getStorage(context, request);
   const url = new URL(request.url);
-  const [username, allSubscribers, campaigns, contentIndex] = await Promise.all([
-    getAdminUser(request, context),
+  const [allSubscribers, campaigns, drafts, segments, contentIndex] = await Promise.all([
     listNewsletterSubscribers(storage),
     listNewsletterCampaigns(storage),
+    listNewsletterDrafts(storage),
+    listNewsletterSegments(storage),
     getContentIndex(storage),
   ]);
   const requestedFilter = url.searchParams.get("status");
@@ -131,6 +138,13 @@ export async function loader({ request, context }: LoaderFunctionArgs) {
       },
     ]),
   );
+  const audienceCounts = countNewsletterAudiences(allSubscribers, segments, {
+    lastOpens: new Map(
+      Object.entries(allSubscriberOpenStats)
+        .filter(([, stats]) => stats.lastOpenedAt)
+        .map(([subscriberId, stats]) => [subscriberId, stats.lastOpenedAt as string]),
+    ),
+  });
   const config = resolveNewsletterConfig(context, request);
   const posts = contentIndex.posts
     .filter((post) => !post.draft)
@@ -145,11 +159,22 @@ export async function loader({ request, context }: LoaderFunctionArgs) {
 
   return json({
     username,
+    role,
     subscribers,
     campaigns,
     campaignOpenCounts,
     subscriberOpenStats,
+    drafts: drafts.map((draft) => ({
+      id: draft.id,
+      title: draft.title,
+      subject: draft.subject,
+      locale: draft.locale,
+      sent: Boolean(draft.campaignId),
+      updatedAt: draft.updatedAt,
+    })),
     posts,
+    segments: segments.map((segment) => ({ id: segment.id, name: segment.name })),
+    audienceCounts,
     stats: newsletterSubscriberStats(allSubscribers),
     subscriberFilter,
     subscriberPagination: {
@@ -167,7 +192,7 @@ export async function loader({ request, context }: LoaderFunctionArgs) {
 }
 
 export async function action({ request, context }: ActionFunctionArgs) {
-  await checkAdminAuth(request, context);
+  await checkAdminAuth(request, context, "newsletter");
   const formData = await request.formData();
   const intent = String(formData.get("intent") || "");
 
@@ -260,12 +285,39 @@ export async function action({ request, context }: ActionFunctionArgs) {
     });
   }
 
+  if (intent === "update-subscriber-tags") {
+    const subscriberId = String(formData.get("subscriberId") || "");
+    if (!/^[a-f0-9]{64}$/.test(subscriberId)) {
+      return json(
+        { ok: false, error: "That subscriber no longer exists." },
+        { status: 404 },
+      );
+    }
+    const subscriber = await updateNewsletterSubscriberTags({
+      storage: getStorage(context, request),
+      id: subscriberId,
+      tags: String(formData.get("tags") || ""),
+    });
+    if (!subscriber) {
+      return json(
+        { ok: false, error: "That subscriber no longer exists." },
+        { status: 404 },
+      );
+    }
+    return json({
+      ok: true,
+      message: subscriber.tags?.length
+        ? `Saved tags for ${subscriber.email}.`
+        : `Removed the tags for ${subscriber.email}.`,
+    });
+  }
+
   if (intent !== "send") {
     return json({ ok: false, error: "Unknown action." }, { status: 400 });
   }
   if (formData.get("confirmSend") !== "yes") {
     return json(
-      { ok: false, error: "Confirm that you want to email every active subscriber." },
+      { ok: false, error: "Confirm that you want to email the selected audience." },
       { status: 400 },
     );
   }
@@ -273,6 +325,7 @@ export async function action({ request, context }: ActionFunctionArgs) {
   const postSlug = String(formData.get("postSlug") || "").trim();
   const locale = normalizeLocale(formData.get("locale"));
   const subject = String(formData.get("subject") || "").trim();
+  const segmentId = String(formData.get("segmentId") || "");
   if (!postSlug || !locale) {
     return json(
       { ok: false, error: "Choose a published post and language." },
@@ -310,6 +363,7 @@ export async function action({ request, context }: ActionFunctionArgs) {
       post: headlessPost.post,
       locale,
       subject: subject || undefined,
+      segmentIds: segmentId ? [segmentId] : undefined,
     });
     const recipientCount = campaign.batches.reduce(
       (total, batch) => total + (batch.recipientCount || 0),
@@ -334,8 +388,10 @@ export async function action({ request, context }: ActionFunctionArgs) {
         {
           ok: false,
           error: error.message === "no_active_subscribers"
-            ? "There are no active subscribers for that language."
-            : "The campaign details are not valid.",
+            ? "There are no active subscribers for that language and segment."
+            : error.message === "segment_not_found"
+              ? "The selected segment no longer exists."
+              : "The campaign details are not valid.",
         },
         { status: 400 },
       );
@@ -354,16 +410,21 @@ export async function action({ request, context }: ActionFunctionArgs) {
 export default function AdminNewsletter() {
   const {
     username,
+    role,
     subscribers,
     campaigns,
     campaignOpenCounts,
     subscriberOpenStats,
+    drafts,
     posts,
+    segments,
+    audienceCounts,
     stats,
     subscriberFilter,
     subscriberPagination,
     configuration,
   } = useLoaderData<typeof loader>();
+  const { locales } = useSiteLanguages();
   const actionData = useActionData<typeof action>();
   const navigation = useNavigation();
   const submittingIntent = navigation.formData?.get("intent");
@@ -372,9 +433,12 @@ export default function AdminNewsletter() {
   const isImporting =
     navigation.state === "submitting" &&
     submittingIntent === "import-subscribers";
+  const [sendLocale, setSendLocale] = useState(locales[0]);
+  const [sendSegmentId, setSendSegmentId] = useState("");
+  const audienceCount = audienceCounts[sendSegmentId]?.[sendLocale] || 0;
 
   return (
-    <AdminLayout username={username || undefined}>
+    <AdminLayout username={username || undefined} role={role}>
       <div className="p-6 lg:p-8">
         <div className="mb-8">
           <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
@@ -465,10 +529,15 @@ export default function AdminNewsletter() {
                   <select
                     id="newsletter-locale"
                     name="locale"
+                    value={sendLocale}
+                    onChange={(event) => setSendLocale(event.target.value as typeof sendLocale)}
                     className="w-full rounded-lg border border-gray-300 bg-white px-3 py-2.5 text-gray-900 dark:border-gray-700 dark:bg-gray-900 dark:text-white"
                   >
-                    <option value="es">Español ({stats.activeByLocale.es})</option>
-                    <option value="en">English ({stats.activeByLocale.en})</option>
+                    {locales.map((locale) => (
+                      <option key={locale} value={locale}>
+                        {localeName(locale)} ({stats.activeByLocale[locale] || 0})
+                      </option>
+                    ))}
                   </select>
                 </div>
                 <div>
@@ -488,6 +557,33 @@ export default function AdminNewsletter() {
                 </div>
               </div>
 
+              <div>
+                <label
+                  htmlFor="newsletter-segment"
+                  className="mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300"
+                >
+                  Audience
+                </label>
+                <select
+                  id="newsletter-segment"
+                  name="segmentId"
+                  value={sendSegmentId}
+                  onChange={(event) => setSendSegmentId(event.target.value)}
+                  className="w-full rounded-lg border border-gray-300 bg-white px-3 py-2.5 text-gray-900 dark:border-gray-700 dark:bg-gray-900 dark:text-white"
+                >
+                  <option value="">All active subscribers</option>
+                  {segments.map((segment) => (
+                    <option key={segment.id} value={segment.id}>{segment.name}</option>
+                  ))}
+                </select>
+                <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+                  {audienceCount} recipient{audienceCount === 1 ? "" : "s"} in {localeName(sendLocale)}.{" "}
+                  <Link to="/admin/newsletter/segments" className="font-medium text-gray-900 hover:underline dark:text-white">
+                    Manage segments
+                  </Link>
+                </p>
+              </div>
+
               <label className="flex items-start gap-3 rounded-lg bg-gray-50 p-4 text-sm text-gray-700 dark:bg-gray-900 dark:text-gray-300">
                 <input
                   type="checkbox"
@@ -497,7 +593,7 @@ export default function AdminNewsletter() {
                   className="mt-0.5 h-4 w-4 rounded border-gray-300"
                 />
                 <span>
-                  Send this article now to every active subscriber in the selected language.
+                  Send this article now to every active subscriber in the selected language and audience.
                   This external email action cannot be recalled.
                 </span>
               </label>
@@ -521,22 +617,63 @@ export default function AdminNewsletter() {
                   {configuration.fromEmail || "Not configured"}
                 </dd>
               </div>
-              <div>
-                <dt className="text-gray-500 dark:text-gray-400">Spanish audience</dt>
-                <dd className="mt-1 text-gray-900 dark:text-white">
-                  {stats.activeByLocale.es} active
-                </dd>
-              </div>
-              <div>
-                <dt className="text-gray-500 dark:text-gray-400">English audience</dt>
-                <dd className="mt-1 text-gray-900 dark:text-white">
-                  {stats.activeByLocale.en} active
-                </dd>
-              </div>
+              {locales.map((locale) => (
+                <div key={locale}>
+                  <dt className="text-gray-500 dark:text-gray-400">{localeName(locale)} audience</dt>
+                  <dd className="mt-1 text-gray-900 dark:text-white">
+                    {stats.activeByLocale[locale] || 0} active
+                  </dd>
+                </div>
+              ))}
             </dl>
           </aside>
         </div>
 
+        <section className="mb-8 overflow-hidden rounded-xl border border-gray-200 bg-white dark:border-gray-800 dark:bg-gray-950">
+          <div className="flex items-center justify-between gap-4 border-b border-gray-200 px-5 py-4 dark:border-gray-800">
+            <div>
+              <h2 className="font-semibold text-gray-900 dark:text-white">Composed newsletters</h2>
+              <p className="mt-0.5 text-xs text-gray-500 dark:text-gray-400">
+                Standalone issues written in Markdown, with gallery, photo and recent-post blocks.
+              </p>
+            </div>
+            <Link
+              to="/admin/newsletter/drafts/new"
+              className="inline-flex shrink-0 rounded-lg bg-gray-950 px-4 py-2 text-sm font-semibold text-white transition hover:bg-gray-800 dark:bg-white dark:text-gray-950 dark:hover:bg-gray-200"
+            >
+              New newsletter
+            </Link>
+          </div>
+          {drafts.length === 0 ? (
+            <p className="p-6 text-sm text-gray-500 dark:text-gray-400">
+              No composed newsletters yet.
+            </p>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-800">
+              {drafts.map((draft) => (
+                <li key={draft.id} className="flex items-center justify-between gap-4 px-5 py-4 text-sm">
+                  <div className="min-w-0">
+                    <Link
+                      to={`/admin/newsletter/drafts/${draft.id}`}
+                      className="font-medium text-gray-900 hover:underline dark:text-white"
+                    >
+                      {draft.title}
+                    </Link>
+                    <p className="mt-0.5 truncate text-gray-500 dark:text-gray-400">
+                      {draft.subject}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 items-center gap-4">
+                    <span className="uppercase text-gray-600 dark:text-gray-300">{draft.locale}</span>
+                    <StatusBadge status={draft.sent ? "sent" : "draft"} />
+                    <span className="text-gray-500 dark:text-gray-400">{formatDate(draft.updatedAt)}</span>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
         <section className="mb-8 rounded-xl border border-gray-200 bg-white p-6 dark:border-gray-800 dark:bg-gray-950">
           <div className="grid gap-6 lg:grid-cols-[minmax(0,1fr)_minmax(320px,520px)]">
             <div>
@@ -592,11 +729,12 @@ export default function AdminNewsletter() {
                 <select
                   id="subscriber-import-locale"
                   name="locale"
-                  defaultValue="es"
+                  defaultValue={locales[0]}
                   className="w-full rounded-lg border border-gray-300 bg-white px-3 py-2.5 text-gray-900 dark:border-gray-700 dark:bg-gray-900 dark:text-white"
                 >
-                  <option value="es">Español</option>
-                  <option value="en">English</option>
+                  {locales.map((locale) => (
+                    <option key={locale} value={locale}>{localeName(locale)}</option>
+                  ))}
                 </select>
               </div>
               <label className="flex items-start gap-3 rounded-lg bg-gray-50 p-3 text-sm text-gray-700 dark:bg-gray-900 dark:text-gray-300">
@@ -638,7 +776,7 @@ export default function AdminNewsletter() {
               <table className="w-full text-sm">
                 <thead className="bg-gray-50 text-left text-xs uppercase tracking-wide text-gray-500 dark:bg-gray-900 dark:text-gray-400">
                   <tr>
-                    <th className="px-5 py-3">Post</th>
+                    <th className="px-5 py-3">Newsletter</th>
                     <th className="px-5 py-3">Language</th>
                     <th className="px-5 py-3">Recipients</th>
                     <th className="px-5 py-3">Open detections</th>
@@ -652,7 +790,9 @@ export default function AdminNewsletter() {
                     <tr key={campaign.id}>
                       <td className="px-5 py-4">
                         <Link
-                          to={`/admin/blog/${campaign.postSlug}`}
+                          to={campaign.postSlug
+                            ? `/admin/blog/${campaign.postSlug}`
+                            : `/admin/newsletter/drafts/${campaign.draftId}`}
                           className="font-medium text-gray-900 hover:underline dark:text-white"
                         >
                           {campaign.postTitle}
@@ -745,13 +885,14 @@ export default function AdminNewsletter() {
           ) : (
             <div>
               <div className="overflow-x-auto">
-                <table className="min-w-[1180px] w-full text-sm">
+                <table className="min-w-[1400px] w-full text-sm">
                   <thead className="bg-gray-50 text-left text-xs uppercase tracking-wide text-gray-500 dark:bg-gray-900 dark:text-gray-400">
                     <tr>
                       <th className="px-5 py-3">Name</th>
                       <th className="px-5 py-3">Email</th>
                       <th className="px-5 py-3">Signed up</th>
                       <th className="px-5 py-3">Source</th>
+                      <th className="px-5 py-3">Tags</th>
                       <th className="px-5 py-3">Open detections</th>
                       <th className="px-5 py-3">Clicks</th>
                       <th className="px-5 py-3">Post views</th>
@@ -816,6 +957,34 @@ export default function AdminNewsletter() {
                               </span>
                             )}
                           </td>
+                          <td className="min-w-56 px-5 py-4">
+                            <Form method="post" className="flex items-center gap-2">
+                              <input
+                                type="hidden"
+                                name="intent"
+                                value="update-subscriber-tags"
+                              />
+                              <input
+                                type="hidden"
+                                name="subscriberId"
+                                value={subscriber.id}
+                              />
+                              <input
+                                name="tags"
+                                defaultValue={(subscriber.tags || []).join(", ")}
+                                maxLength={900}
+                                aria-label={`Tags for ${subscriber.email}`}
+                                placeholder="photography, madrid"
+                                className="min-w-0 flex-1 rounded border border-gray-300 bg-white px-2.5 py-1.5 text-sm text-gray-900 placeholder:text-gray-400 dark:border-gray-700 dark:bg-gray-900 dark:text-white"
+                              />
+                              <button
+                                type="submit"
+                                className="rounded border border-gray-300 px-2.5 py-1.5 text-xs font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-700 dark:text-gray-200 dark:hover:bg-gray-900"
+                              >
+                                Save
+                              </button>
+                            </Form>
+                          </td>
                           <td className="whitespace-nowrap px-5 py-4 text-gray-600 dark:text-gray-300">
                             <span className="font-medium text-gray-900 dark:text-white">
                               {openStats?.openCount || 0}
@@ -0,0 +1,589 @@
+import { json, redirect } from "@remix-run/cloudflare";
+import type {
+  ActionFunctionArgs,
+  HeadersFunction,
+  LoaderFunctionArgs,
+  MetaFunction,
+} from "@remix-run/cloudflare";
+import {
+  Form,
+  Link,
+  useActionData,
+  useLoaderData,
+  useNavigation,
+} from "@remix-run/react";
+import { useState } from "react";
+import { AdminLayout } from "~/components/AdminLayout";
+import { getStorage, isWithinPublicationWindow } from "~/lib/content-engine";
+import { resolveHeadlessBlogConfig } from "~/lib/headless-blog";
+import { useSiteLanguages } from "~/hooks/useSiteLanguages";
+import { localeName, normalizeLocale } from "~/lib/i18n";
+import {
+  composeNewsletterBody,
+  loadNewsletterComposerSources,
+} from "~/lib/newsletter/composer.server";
+import { resolveNewsletterConfig } from "~/lib/newsletter/config.server";
+import { buildComposedNewsletterEmail } from "~/lib/newsletter/email-templates.server";
+import {
+  NewsletterCampaignAlreadySentError,
+  NewsletterConfigurationError,
+  NewsletterValidationError,
+  saveNewsletterDraftInput,
+  sendComposedNewsletterCampaign,
+  sendNewsletterTestEmail,
+} from "~/lib/newsletter/newsletter-service.server";
+import { countNewsletterAudiences } from "~/lib/newsletter/segments.server";
+import {
+  deleteNewsletterDraft,
+  getNewsletterCampaign,
+  getNewsletterDraft,
+  listNewsletterLastOpens,
+  listNewsletterSegments,
+  listNewsletterSubscribers,
+} from "~/lib/newsletter/subscriber-store.server";
+import { checkAdminAuth, requireAdminAccount } from "~/utils/admin-auth";
+
+export const meta: MetaFunction = () => [
+  { title: "Compose newsletter — VictoPress" },
+];
+
+export const headers: HeadersFunction = () => ({
+  "Cache-Control": "private, no-store, max-age=0",
+  "X-Robots-Tag": "noindex, nofollow",
+});
+
+/** Stands in for the open-detection image in the admin preview. */
+const PREVIEW_PIXEL =
+  "data:image/gif;base64,R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7";
+
+const validationMessages: Record<string, string> = {
+  invalid_title: "Give the newsletter a title.",
+  invalid_subject: "Write a subject line.",
+  invalid_email: "Enter a valid test address.",
+  body_too_long: "The newsletter body is too long.",
+  draft_not_found: "That draft no longer exists.",
+  draft_locked: "This newsletter has started sending and can no longer be edited.",
+  missing_blocks: "Fix the blocks that point at missing, hidden or private content before sending.",
+  no_active_subscribers: "There are no active subscribers for that language and segment.",
+  segment_not_found: "The selected segment no longer exists.",
+};
+
+function draftIdParam(value: string | undefined): string | null {
+  if (value === "new") return null;
+  if (!value || !/^[a-f0-9]{64}$/.test(value)) {
+    throw new Response("Draft not found.", { status: 404 });
+  }
+  return value;
+}
+
+export async function loader({ request, context, params }: LoaderFunctionArgs) {
+  const { username, role } = await requireAdminAccount(request, context, "newsletter");
+  const draftId = draftIdParam(params.draftId);
+  const storage = getStorage(context, request);
+  const config = resolveNewsletterConfig(context, request);
+  const [draft, subscribers, segments, lastOpens, sources] = await Promise.all([
+    draftId ? getNewsletterDraft(storage, draftId) : null,
+    listNewsletterSubscribers(storage),
+    listNewsletterSegments(storage),
+    listNewsletterLastOpens(storage),
+    loadNewsletterComposerSources(storage, resolveHeadlessBlogConfig(context, request)),
+  ]);
+  if (draftId && !draft) {
+    throw new Response("Draft not found.", { status: 404 });
+  }
+
+  let preview: { html: string; missingBlocks: string[] } | null = null;
+  if (draft) {
+    const body = composeNewsletterBody({
+      markdown: draft.markdown,
+      locale: draft.locale,
+      baseUrl: config.baseUrl,
+      sources,
+    });
+    preview = {
+      html: buildComposedNewsletterEmail({
+        locale: draft.locale,
+        siteName: config.siteName,
+        from: config.fromEmail,
+        to: "",
+        subject: draft.subject,
+        previewText: draft.previewText,
+        bodyHtml: body.html,
+        bodyText: body.text,
+        unsubscribeUrl: "#",
+        trackingPixelUrl: PREVIEW_PIXEL,
+        campaignTag: "preview",
+      }).html,
+      missingBlocks: body.missingBlocks,
+    };
+  }
+  const campaign = draft?.campaignId
+    ? await getNewsletterCampaign(storage, draft.campaignId)
+    : null;
+  const now = new Date();
+  const galleries = sources.galleries
+    .filter((gallery) =>
+      !gallery.isProtected &&
+      !gallery.password &&
+      !gallery.private &&
+      gallery.photoCount > 0 &&
+      isWithinPublicationWindow(gallery, now)
+    )
+    .map((gallery) => ({ slug: gallery.slug, title: gallery.title }))
+    .sort((left, right) => left.title.localeCompare(right.title));
+
+  return json({
+    username,
+    role,
+    draft,
+    preview,
+    campaign: campaign
+      ? { id: campaign.id, status: campaign.status, lastError: campaign.lastError || null }
+      : null,
+    galleries,
+    segments: segments.map((segment) => ({ id: segment.id, name: segment.name })),
+    audienceCounts: countNewsletterAudiences(subscribers, segments, { lastOpens }),
+    configuration: {
+      configured: config.configured,
+      fromEmail: config.fromEmail || null,
+    },
+  });
+}
+
+function errorResponse(error: unknown) {
+  if (error instanceof NewsletterConfigurationError) {
+    return json(
+      { ok: false, error: "Complete the Resend configuration before sending." },
+      { status: 503 },
+    );
+  }
+  if (error instanceof NewsletterCampaignAlreadySentError) {
+    return json({ ok: false, error: error.message }, { status: 409 });
+  }
+  if (error instanceof NewsletterValidationError) {
+    return json(
+      {
+        ok: false,
+        error: validationMessages[error.message] || "The newsletter details are not valid.",
+      },
+      { status: error.message === "draft_not_found" ? 404 : 400 },
+    );
+  }
+  console.error("[Newsletter] Composed newsletter delivery failed.", error);
+  return json(
+    {
+      ok: false,
+      error: "Resend could not complete the delivery. A started campaign can be retried safely.",
+    },
+    { status: 502 },
+  );
+}
+
+export async function action({ request, context, params }: ActionFunctionArgs) {
+  await checkAdminAuth(request, context, "newsletter");
+  const draftId = draftIdParam(params.draftId);
+  const formData = await request.formData();
+  const intent = String(formData.get("intent") || "");
+  const storage = getStorage(context, request);
+
+  if (intent === "save") {
+    const locale = normalizeLocale(formData.get("locale"));
+    if (!locale) {
+      return json({ ok: false, error: "Choose a language." }, { status: 400 });
+    }
+    try {
+      const draft = await saveNewsletterDraftInput({
+        storage,
+        id: draftId || undefined,
+        title: String(formData.get("title") || ""),
+        subject: String(formData.get("subject") || ""),
+        locale,
+        previewText: String(formData.get("previewText") || ""),
+        markdown: String(formData.get("markdown") || ""),
+      });
+      if (!draftId) return redirect(`/admin/newsletter/drafts/${draft.id}`);
+      return json({ ok: true, message: "Draft saved." });
+    } catch (error) {
+      return errorResponse(error);
+    }
+  }
+
+  if (!draftId) {
+    return json({ ok: false, error: "Save the draft first." }, { status: 400 });
+  }
+  const draft = await getNewsletterDraft(storage, draftId);
+  if (!draft) {
+    return json({ ok: false, error: "That draft no longer exists." }, { status: 404 });
+  }
+
+  if (intent === "delete") {
+    if (draft.campaignId) {
+      return json(
+        { ok: false, error: "Sent newsletters keep their draft for the campaign report." },
+        { status: 409 },
+      );
+    }
+    await deleteNewsletterDraft(storage, draft.id);
+    return redirect("/admin/newsletter");
+  }
+
+  const config = resolveNewsletterConfig(context, request);
+  const sources = await loadNewsletterComposerSources(
+    storage,
+    resolveHeadlessBlogConfig(context, request),
+  );
+
+  if (intent === "test-send") {
+    try {
+      const to = String(formData.get("testEmail") || "");
+      await sendNewsletterTestEmail({ config, draft, sources, to });
+      return json({ ok: true, message: `Test sent to ${to.trim()}.` });
+    } catch (error) {
+      return errorResponse(error);
+    }
+  }
+
+  if (intent !== "send") {
+    return json({ ok: false, error: "Unknown action." }, { status: 400 });
+  }
+  if (formData.get("confirmSend") !== "yes") {
+    return json(
+      { ok: false, error: "Confirm that you want to email the selected audience." },
+      { status: 400 },
+    );
+  }
+  try {
+    const segmentId = String(formData.get("segmentId") || "");
+    const campaign = await sendComposedNewsletterCampaign({
+      storage,
+      config,
+      draft,
+      sources,
+      segmentIds: segmentId ? [segmentId] : undefined,
+    });
+    return redirect(`/admin/newsletter/${campaign.id}`);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export default function AdminNewsletterDraft() {
+  const {
+    username,
+    role,
+    draft,
+    preview,
+    campaign,
+    galleries,
+    segments,
+    audienceCounts,
+    configuration,
+  } = useLoaderData<typeof loader>();
+  const { locales } = useSiteLanguages();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const submittingIntent = navigation.state === "submitting"
+    ? navigation.formData?.get("intent")
+    : null;
+  const locked = Boolean(draft?.campaignId);
+  const canRetry = campaign?.status === "failed" || campaign?.status === "sending";
+  const [segmentId, setSegmentId] = useState("");
+  const inputClass =
+    "w-full rounded-lg border border-gray-300 bg-white px-3 py-2.5 text-gray-900 placeholder:text-gray-400 disabled:opacity-60 dark:border-gray-700 dark:bg-gray-900 dark:text-white";
+  const labelClass = "mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300";
+  const buttonClass =
+    "inline-flex rounded-lg bg-gray-950 px-5 py-2.5 text-sm font-semibold text-white transition hover:bg-gray-800 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-white dark:text-gray-950 dark:hover:bg-gray-200";
+
+  return (
+    <AdminLayout username={username || undefined} role={role}>
+      <div className="p-6 lg:p-8">
+        <Link
+          to="/admin/newsletter"
+          className="text-sm font-medium text-gray-600 hover:text-gray-950 dark:text-gray-300 dark:hover:text-white"
+        >
+          ← Newsletter
+        </Link>
+
+        <div className="mt-5 mb-8">
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+            {draft ? draft.title : "New newsletter"}
+          </h1>
+          <p className="mt-1 text-gray-500 dark:text-gray-400">
+            Write in Markdown and embed galleries, photos or a digest of recent posts.
+          </p>
+        </div>
+
+        {actionData && (
+          <div
+            className={`mb-6 rounded-lg border p-4 text-sm ${
+              actionData.ok
+                ? "border-emerald-200 bg-emerald-50 text-emerald-800 dark:border-emerald-800 dark:bg-emerald-950/30 dark:text-emerald-300"
+                : "border-red-200 bg-red-50 text-red-800 dark:border-red-800 dark:bg-red-950/30 dark:text-red-300"
+            }`}
+            role="status"
+          >
+            {"message" in actionData ? actionData.message : actionData.error}
+          </div>
+        )}
+
+        {campaign && (
+          <div className="mb-6 rounded-lg border border-gray-200 bg-gray-50 p-4 text-sm text-gray-700 dark:border-gray-800 dark:bg-gray-900 dark:text-gray-300">
+            This newsletter is {campaign.status}.{" "}
+            {campaign.lastError && <span>Last error: {campaign.lastError} </span>}
+            <Link
+              to={`/admin/newsletter/${campaign.id}`}
+              className="font-medium text-gray-900 underline dark:text-white"
+            >
+              View report
+            </Link>
+          </div>
+        )}
+
+        {preview && preview.missingBlocks.length > 0 && (
+          <div className="mb-6 rounded-lg border border-amber-300 bg-amber-50 p-4 text-sm text-amber-950 dark:border-amber-800 dark:bg-amber-950/30 dark:text-amber-100">
+            These blocks point at missing, hidden or private content and are left
+            out of the preview:{" "}
+            {preview.missingBlocks.map((block) => (
+              <code key={block} className="mr-2 rounded bg-amber-100 px-1 dark:bg-amber-900">
+                {block}
+              </code>
+            ))}
+          </div>
+        )}
+
+        <div className="grid gap-6 xl:grid-cols-[minmax(0,1fr)_320px]">
+          <section className="rounded-xl border border-gray-200 bg-white p-6 dark:border-gray-800 dark:bg-gray-950">
+            <Form method="post" className="space-y-5" key={draft?.updatedAt || "new"}>
+              <input type="hidden" name="intent" value="save" />
+              <div>
+                <label htmlFor="draft-title" className={labelClass}>
+                  Title <span className="font-normal text-gray-400">(shown in reports)</span>
+                </label>
+                <input
+                  id="draft-title"
+                  name="title"
+                  required
+                  maxLength={200}
+                  defaultValue={draft?.title || ""}
+                  disabled={locked}
+                  className={inputClass}
+                />
+              </div>
+              <div className="grid gap-4 sm:grid-cols-[180px_minmax(0,1fr)]">
+                <div>
+                  <label htmlFor="draft-locale" className={labelClass}>Language</label>
+                  <select
+                    id="draft-locale"
+                    name="locale"
+                    defaultValue={draft?.locale || locales[0]}
+                    disabled={locked}
+                    className={inputClass}
+                  >
+                    {locales.map((locale) => (
+                      <option key={locale} value={locale}>
+                        {localeName(locale)} ({audienceCounts[""]?.[locale] || 0})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="draft-subject" className={labelClass}>Subject</label>
+                  <input
+                    id="draft-subject"
+                    name="subject"
+                    required
+                    maxLength={200}
+                    defaultValue={draft?.subject || ""}
+                    disabled={locked}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+              <div>
+                <label htmlFor="draft-preview-text" className={labelClass}>
+                  Preview text <span className="font-normal text-gray-400">(optional)</span>
+                </label>
+                <input
+                  id="draft-preview-text"
+                  name="previewText"
+                  maxLength={300}
+                  defaultValue={draft?.previewText || ""}
+                  placeholder="Shown next to the subject in most inboxes"
+                  disabled={locked}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="draft-markdown" className={labelClass}>Body</label>
+                <textarea
+                  id="draft-markdown"
+                  name="markdown"
+                  rows={18}
+                  defaultValue={draft?.markdown || ""}
+                  disabled={locked}
+                  className={`${inputClass} font-mono text-sm`}
+                />
+              </div>
+              {!locked && (
+                <div className="flex flex-wrap gap-3">
+                  <button
+                    type="submit"
+                    disabled={submittingIntent === "save"}
+                    className={buttonClass}
+                  >
+                    {submittingIntent === "save" ? "Saving…" : "Save draft"}
+                  </button>
+                </div>
+              )}
+            </Form>
+            {draft && !locked && (
+              <Form method="post" className="mt-3">
+                <input type="hidden" name="intent" value="delete" />
+                <button
+                  type="submit"
+                  className="text-sm font-medium text-red-700 hover:underline dark:text-red-400"
+                >
+                  Delete draft
+                </button>
+              </Form>
+            )}
+          </section>
+
+          <aside className="space-y-6">
+            <div className="rounded-xl border border-gray-200 bg-white p-6 text-sm dark:border-gray-800 dark:bg-gray-950">
+              <h2 className="font-semibold text-gray-900 dark:text-white">Blocks</h2>
+              <p className="mt-1 text-gray-500 dark:text-gray-400">
+                Put a block on a line of its own.
+              </p>
+              <dl className="mt-4 space-y-3">
+                <div>
+                  <dt><code>{"{{gallery:slug}}"}</code></dt>
+                  <dd className="mt-1 text-gray-500 dark:text-gray-400">Four photos and a link to a public gallery.</dd>
+                </div>
+                <div>
+                  <dt><code>{"{{photo:galleries/…/photo.jpg}}"}</code></dt>
+                  <dd className="mt-1 text-gray-500 dark:text-gray-400">One photo with its title and description.</dd>
+                </div>
+                <div>
+                  <dt><code>{"{{posts:3}}"}</code></dt>
+                  <dd className="mt-1 text-gray-500 dark:text-gray-400">The latest 1–10 posts in the newsletter language.</dd>
+                </div>
+              </dl>
+              {galleries.length > 0 && (
+                <>
+                  <h3 className="mt-5 font-medium text-gray-900 dark:text-white">Public galleries</h3>
+                  <ul className="mt-2 max-h-48 space-y-1 overflow-y-auto text-gray-600 dark:text-gray-300">
+                    {galleries.map((gallery) => (
+                      <li key={gallery.slug}>
+                        {gallery.title} <code className="text-xs text-gray-400">{gallery.slug}</code>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </div>
+
+            {draft && (
+              <div className="rounded-xl border border-gray-200 bg-white p-6 dark:border-gray-800 dark:bg-gray-950">
+                <h2 className="font-semibold text-gray-900 dark:text-white">Send a test</h2>
+                <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                  Sends the saved version to one address. No campaign is recorded.
+                </p>
+                <Form method="post" className="mt-4 space-y-3">
+                  <input type="hidden" name="intent" value="test-send" />
+                  <input
+                    name="testEmail"
+                    type="email"
+                    required
+                    placeholder="you@example.com"
+                    aria-label="Test address"
+                    className={inputClass}
+                  />
+                  <button
+                    type="submit"
+                    disabled={!configuration.configured || submittingIntent === "test-send"}
+                    className={buttonClass}
+                  >
+                    {submittingIntent === "test-send" ? "Sending…" : "Send test"}
+                  </button>
+                </Form>
+              </div>
+            )}
+
+            {draft && (!locked || canRetry) && (
+              <div className="rounded-xl border border-gray-200 bg-white p-6 dark:border-gray-800 dark:bg-gray-950">
+                <h2 className="font-semibold text-gray-900 dark:text-white">
+                  {canRetry ? "Resume sending" : "Send to subscribers"}
+                </h2>
+                <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                  {canRetry
+                    ? "Remaining recipients of the started campaign."
+                    : `${audienceCounts[segmentId]?.[draft.locale] || 0} active ${localeName(draft.locale)} subscribers.`}{" "}
+                  Sending locks the draft.
+                </p>
+                <Form method="post" className="mt-4 space-y-3">
+                  <input type="hidden" name="intent" value="send" />
+                  {!canRetry && (
+                    <select
+                      name="segmentId"
+                      value={segmentId}
+                      onChange={(event) => setSegmentId(event.target.value)}
+                      aria-label="Audience"
+                      className={inputClass}
+                    >
+                      <option value="">All active subscribers</option>
+                      {segments.map((segment) => (
+                        <option key={segment.id} value={segment.id}>{segment.name}</option>
+                      ))}
+                    </select>
+                  )}
+                  <label className="flex items-start gap-3 rounded-lg bg-gray-50 p-3 text-sm text-gray-700 dark:bg-gray-900 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      name="confirmSend"
+                      value="yes"
+                      required
+                      className="mt-0.5 h-4 w-4 rounded border-gray-300"
+                    />
+                    <span>
+                      Send the saved version now to every active subscriber in this language and audience.
+                      This external email action cannot be recalled.
+                    </span>
+                  </label>
+                  <button
+                    type="submit"
+                    disabled={
+                      !configuration.configured ||
+                      submittingIntent === "send" ||
+                      (preview?.missingBlocks.length ?? 0) > 0
+                    }
+                    className={buttonClass}
+                  >
+                    {submittingIntent === "send" ? "Sending…" : "Send newsletter"}
+                  </button>
+                </Form>
+              </div>
+            )}
+          </aside>
+        </div>
+
+        {preview && (
+          <section className="mt-8 overflow-hidden rounded-xl border border-gray-200 bg-white dark:border-gray-800 dark:bg-gray-950">
+            <div className="border-b border-gray-200 px-5 py-4 dark:border-gray-800">
+              <h2 className="font-semibold text-gray-900 dark:text-white">Preview</h2>
+              <p className="mt-0.5 text-xs text-gray-500 dark:text-gray-400">
+                The saved version as subscribers will receive it.
+              </p>
+            </div>
+            <iframe
+              title="Newsletter preview"
+              srcDoc={preview.html}
+              sandbox=""
+              className="h-[800px] w-full bg-[#f5f5f3]"
+            />
+          </section>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
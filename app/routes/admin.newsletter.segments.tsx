@@ -0,0 +1,364 @@
+import { json } from "@remix-run/cloudflare";
+import type {
+  ActionFunctionArgs,
+  HeadersFunction,
+  LoaderFunctionArgs,
+  MetaFunction,
+} from "@remix-run/cloudflare";
+import {
+  Form,
+  Link,
+  useActionData,
+  useLoaderData,
+  useNavigation,
+} from "@remix-run/react";
+import { AdminLayout } from "~/components/AdminLayout";
+import { getStorage } from "~/lib/content-engine";
+import { useSiteLanguages } from "~/hooks/useSiteLanguages";
+import { localeName } from "~/lib/i18n";
+import {
+  NewsletterValidationError,
+  saveNewsletterSegmentInput,
+} from "~/lib/newsletter/newsletter-service.server";
+import {
+  countNewsletterAudiences,
+  describeNewsletterSegmentRule,
+} from "~/lib/newsletter/segments.server";
+import {
+  deleteNewsletterSegment,
+  listNewsletterLastOpens,
+  listNewsletterSegments,
+  listNewsletterSubscribers,
+} from "~/lib/newsletter/subscriber-store.server";
+import type { NewsletterSegmentRule } from "~/lib/newsletter/types";
+import { checkAdminAuth, requireAdminAccount } from "~/utils/admin-auth";
+
+export const meta: MetaFunction = () => [
+  { title: "Newsletter segments — VictoPress" },
+];
+
+export const headers: HeadersFunction = () => ({
+  "Cache-Control": "private, no-store, max-age=0",
+  "X-Robots-Tag": "noindex, nofollow",
+});
+
+const validationMessages: Record<string, string> = {
+  invalid_segment_name: "Give the segment a name.",
+  invalid_segment_rules: "Add at least one condition. Day windows must be between 1 and 3650.",
+  segment_not_found: "That segment no longer exists.",
+};
+
+function distinctValues(values: Array<string | undefined>): string[] {
+  return [...new Set(values.filter((value): value is string => Boolean(value)))]
+    .sort((left, right) => left.localeCompare(right));
+}
+
+export async function loader({ request, context }: LoaderFunctionArgs) {
+  const { username, role } = await requireAdminAccount(request, context, "newsletter");
+  const storage = getStorage(context, request);
+  const [segments, subscribers, lastOpens] = await Promise.all([
+    listNewsletterSegments(storage),
+    listNewsletterSubscribers(storage),
+    listNewsletterLastOpens(storage),
+  ]);
+  const editId = new URL(request.url).searchParams.get("edit");
+
+  return json({
+    username,
+    role,
+    segments: segments.map((segment) => ({
+      ...segment,
+      descriptions: segment.rules.map(describeNewsletterSegmentRule),
+    })),
+    audienceCounts: countNewsletterAudiences(subscribers, segments, { lastOpens }),
+    editing: segments.find((segment) => segment.id === editId) || null,
+    suggestions: {
+      tags: distinctValues(subscribers.flatMap((subscriber) => subscriber.tags || [])),
+      countries: distinctValues(subscribers.map((subscriber) => subscriber.country)),
+      regions: distinctValues(subscribers.map((subscriber) => subscriber.region)),
+      sources: distinctValues(subscribers.map((subscriber) =>
+        subscriber.subscriptionSource || subscriber.source
+      )),
+    },
+  });
+}
+
+/** One condition per filled-in field of the segment form. */
+function rulesFromForm(formData: FormData): unknown[] {
+  const rules: unknown[] = [];
+  for (const field of ["tag", "country", "region", "source"] as const) {
+    const value = String(formData.get(field) || "").trim();
+    if (value) rules.push({ field, value });
+  }
+  if (formData.get("importedFromSubstack") === "yes") {
+    rules.push({ field: "importedFrom", value: "substack" });
+  }
+  const days = String(formData.get("openedWithinDays") || "").trim();
+  if (days) rules.push({ field: "openedWithinDays", days: Number(days) });
+  return rules;
+}
+
+export async function action({ request, context }: ActionFunctionArgs) {
+  await checkAdminAuth(request, context, "newsletter");
+  const formData = await request.formData();
+  const intent = String(formData.get("intent") || "");
+  const storage = getStorage(context, request);
+  const segmentId = String(formData.get("segmentId") || "");
+
+  if (intent === "delete-segment") {
+    if (!/^[a-f0-9]{64}$/.test(segmentId)) {
+      return json({ ok: false, error: "That segment no longer exists." }, { status: 404 });
+    }
+    await deleteNewsletterSegment(storage, segmentId);
+    return json({ ok: true, message: "Segment deleted. Past campaigns keep their recipients." });
+  }
+
+  if (intent !== "save-segment") {
+    return json({ ok: false, error: "Unknown action." }, { status: 400 });
+  }
+  try {
+    const segment = await saveNewsletterSegmentInput({
+      storage,
+      id: segmentId || undefined,
+      name: String(formData.get("name") || ""),
+      rules: rulesFromForm(formData),
+    });
+    return json({ ok: true, message: `Saved the “${segment.name}” segment.` });
+  } catch (error) {
+    if (error instanceof NewsletterValidationError) {
+      return json(
+        {
+          ok: false,
+          error: validationMessages[error.message] || "The segment is not valid.",
+        },
+        { status: error.message === "segment_not_found" ? 404 : 400 },
+      );
+    }
+    throw error;
+  }
+}
+
+function ruleValue(
+  rules: readonly NewsletterSegmentRule[] | undefined,
+  field: NewsletterSegmentRule["field"],
+): string {
+  const rule = rules?.find((candidate) => candidate.field === field);
+  if (!rule) return "";
+  return "days" in rule ? String(rule.days) : rule.value;
+}
+
+export default function AdminNewsletterSegments() {
+  const {
+    username,
+    role,
+    segments,
+    audienceCounts,
+    editing,
+    suggestions,
+  } = useLoaderData<typeof loader>();
+  const { locales } = useSiteLanguages();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const isSaving =
+    navigation.state === "submitting" &&
+    navigation.formData?.get("intent") === "save-segment";
+  const inputClass =
+    "w-full rounded-lg border border-gray-300 bg-white px-3 py-2.5 text-gray-900 placeholder:text-gray-400 dark:border-gray-700 dark:bg-gray-900 dark:text-white";
+  const labelClass = "mb-2 block text-sm font-medium text-gray-700 dark:text-gray-300";
+
+  return (
+    <AdminLayout username={username || undefined} role={role}>
+      <div className="p-6 lg:p-8">
+        <Link
+          to="/admin/newsletter"
+          className="text-sm font-medium text-gray-600 hover:text-gray-950 dark:text-gray-300 dark:hover:text-white"
+        >
+          ← Newsletter
+        </Link>
+
+        <div className="mt-5 mb-8">
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Segments</h1>
+          <p className="mt-1 text-gray-500 dark:text-gray-400">
+            Saved audiences for campaigns. A subscriber belongs to a segment when every condition matches.
+          </p>
+        </div>
+
+        {actionData && (
+          <div
+            className={`mb-6 rounded-lg border p-4 text-sm ${
+              actionData.ok
+                ? "border-emerald-200 bg-emerald-50 text-emerald-800 dark:border-emerald-800 dark:bg-emerald-950/30 dark:text-emerald-300"
+                : "border-red-200 bg-red-50 text-red-800 dark:border-red-800 dark:bg-red-950/30 dark:text-red-300"
+            }`}
+            role="status"
+          >
+            {"message" in actionData ? actionData.message : actionData.error}
+          </div>
+        )}
+
+        <div className="grid gap-6 xl:grid-cols-[minmax(0,1fr)_420px]">
+          <section className="overflow-hidden rounded-xl border border-gray-200 bg-white dark:border-gray-800 dark:bg-gray-950">
+            {segments.length === 0 ? (
+              <p className="p-6 text-sm text-gray-500 dark:text-gray-400">
+                No segments yet. Campaigns go to every active subscriber in the chosen language.
+              </p>
+            ) : (
+              <ul className="divide-y divide-gray-200 dark:divide-gray-800">
+                {segments.map((segment) => (
+                  <li key={segment.id} className="flex flex-wrap items-start justify-between gap-4 px-5 py-4 text-sm">
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 dark:text-white">{segment.name}</p>
+                      <ul className="mt-1 text-gray-500 dark:text-gray-400">
+                        {segment.descriptions.map((description) => (
+                          <li key={description}>{description}</li>
+                        ))}
+                      </ul>
+                      <p className="mt-2 text-gray-600 dark:text-gray-300">
+                        {locales.map((locale) =>
+                          `${localeName(locale)}: ${audienceCounts[segment.id]?.[locale] || 0} active`
+                        ).join(" · ")}
+                      </p>
+                    </div>
+                    <div className="flex shrink-0 items-center gap-3">
+                      <Link
+                        to={`?edit=${segment.id}`}
+                        className="font-medium text-gray-900 hover:underline dark:text-white"
+                      >
+                        Edit
+                      </Link>
+                      <Form method="post">
+                        <input type="hidden" name="intent" value="delete-segment" />
+                        <input type="hidden" name="segmentId" value={segment.id} />
+                        <button
+                          type="submit"
+                          className="font-medium text-red-700 hover:underline dark:text-red-400"
+                        >
+                          Delete
+                        </button>
+                      </Form>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          <section className="rounded-xl border border-gray-200 bg-white p-6 dark:border-gray-800 dark:bg-gray-950">
+            <h2 className="font-semibold text-gray-900 dark:text-white">
+              {editing ? `Edit “${editing.name}”` : "New segment"}
+            </h2>
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              Leave a condition empty to ignore it. Text matches ignore case.
+            </p>
+            <Form method="post" className="mt-5 space-y-4" key={editing?.id || "new"}>
+              <input type="hidden" name="intent" value="save-segment" />
+              {editing && <input type="hidden" name="segmentId" value={editing.id} />}
+              <div>
+                <label htmlFor="segment-name" className={labelClass}>Name</label>
+                <input
+                  id="segment-name"
+                  name="name"
+                  required
+                  maxLength={100}
+                  defaultValue={editing?.name || ""}
+                  placeholder="Engaged photography readers"
+                  className={inputClass}
+                />
+              </div>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div>
+                  <label htmlFor="segment-tag" className={labelClass}>Tag</label>
+                  <input
+                    id="segment-tag"
+                    name="tag"
+                    list="segment-tags"
+                    defaultValue={ruleValue(editing?.rules, "tag")}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="segment-opened" className={labelClass}>Opened in the last … days</label>
+                  <input
+                    id="segment-opened"
+                    name="openedWithinDays"
+                    type="number"
+                    min={1}
+                    max={3650}
+                    defaultValue={ruleValue(editing?.rules, "openedWithinDays")}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="segment-country" className={labelClass}>Country</label>
+                  <input
+                    id="segment-country"
+                    name="country"
+                    list="segment-countries"
+                    defaultValue={ruleValue(editing?.rules, "country")}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label htmlFor="segment-region" className={labelClass}>Region</label>
+                  <input
+                    id="segment-region"
+                    name="region"
+                    list="segment-regions"
+                    defaultValue={ruleValue(editing?.rules, "region")}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+              <div>
+                <label htmlFor="segment-source" className={labelClass}>Subscription source</label>
+                <input
+                  id="segment-source"
+                  name="source"
+                  list="segment-sources"
+                  defaultValue={ruleValue(editing?.rules, "source")}
+                  className={inputClass}
+                />
+              </div>
+              <label className="flex items-center gap-3 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  name="importedFromSubstack"
+                  value="yes"
+                  defaultChecked={Boolean(ruleValue(editing?.rules, "importedFrom"))}
+                  className="h-4 w-4 rounded border-gray-300"
+                />
+                Imported from Substack
+              </label>
+              <datalist id="segment-tags">
+                {suggestions.tags.map((value) => <option key={value} value={value} />)}
+              </datalist>
+              <datalist id="segment-countries">
+                {suggestions.countries.map((value) => <option key={value} value={value} />)}
+              </datalist>
+              <datalist id="segment-regions">
+                {suggestions.regions.map((value) => <option key={value} value={value} />)}
+              </datalist>
+              <datalist id="segment-sources">
+                {suggestions.sources.map((value) => <option key={value} value={value} />)}
+              </datalist>
+              <div className="flex items-center gap-4">
+                <button
+                  type="submit"
+                  disabled={isSaving}
+                  className="inline-flex rounded-lg bg-gray-950 px-5 py-2.5 text-sm font-semibold text-white transition hover:bg-gray-800 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-white dark:text-gray-950 dark:hover:bg-gray-200"
+                >
+                  {isSaving ? "Saving…" : "Save segment"}
+                </button>
+                {editing && (
+                  <Link to="." className="text-sm font-medium text-gray-600 hover:underline dark:text-gray-300">
+                    Cancel
+                  </Link>
+                )}
+              </div>
+            </Form>
+          </section>
+        </div>
+      </div>
+    </AdminLayout>
+  );
+}
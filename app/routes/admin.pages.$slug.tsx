@@ -7,44 +7,47 @@ import { AdminLayout } from "~/components/AdminLayout";
 import { MarkdownEditor } from "~/components/MarkdownEditor";
 import { getPageBySlug, getStorage } from "~/lib/content-engine";
 import {
-  localeNames,
+  editableLocales,
+  localeName,
   normalizeLocale,
-  SUPPORTED_LOCALES,
   type Locale,
 } from "~/lib/i18n";
-import { checkAdminAuth, getAdminUser } from "~/utils/admin-auth";
+import { requireAdminAccount } from "~/utils/admin-auth";
 import { useSiteLanguages } from "~/hooks/useSiteLanguages";
 
 type Edition = { title: string; description: string; content: string };
 
 export async function loader({ params, request, context }: LoaderFunctionArgs) {
-  await checkAdminAuth(request, context);
+  const { username, role } = await requireAdminAccount(request, context, "translations");
   const slug = params.slug;
   if (!slug) throw new Response("Not Found", { status: 404 });
   const storage = getStorage(context);
   const page = await getPageBySlug(storage, slug);
   if (!page) throw new Response("Not Found", { status: 404 });
-  return json({ username: await getAdminUser(request, context), page });
+  return json({ username, role, page });
 }
 
 export default function AdminPageEditor() {
-  const { username, page } = useLoaderData<typeof loader>();
+  const { username, role, page } = useLoaderData<typeof loader>();
   const fetcher = useFetcher<{ success?: boolean; error?: string; message?: string }>();
   const siteLanguages = useSiteLanguages();
   const sourceLocale = siteLanguages.multilingual
     ? normalizeLocale(page.locale) || siteLanguages.defaultLocale
     : siteLanguages.defaultLocale;
+  const editionLocales = useMemo(
+    () => editableLocales(sourceLocale, siteLanguages.locales),
+    [siteLanguages.locales, sourceLocale],
+  );
   const initialEditions = useMemo(() => {
-    const value: Record<Locale, Edition> = {
-      es: { title: "", description: "", content: "" },
-      en: { title: "", description: "", content: "" },
-    };
+    const value: Record<Locale, Edition> = Object.fromEntries(
+      editionLocales.map((locale) => [locale, { title: "", description: "", content: "" }]),
+    );
     value[sourceLocale] = {
       title: page.title,
       description: page.description || "",
       content: page.content,
     };
-    for (const locale of SUPPORTED_LOCALES) {
+    for (const locale of editionLocales) {
       const translation = page.translations?.[locale];
       if (translation) {
         value[locale] = {
@@ -55,7 +58,7 @@ export default function AdminPageEditor() {
       }
     }
     return value;
-  }, [page, sourceLocale]);
+  }, [page, sourceLocale, editionLocales]);
   const [activeLocale, setActiveLocale] = useState<Locale>(sourceLocale);
   const [editions, setEditions] = useState(initialEditions);
   const [savedEditions, setSavedEditions] = useState(initialEditions);
@@ -77,7 +80,7 @@ export default function AdminPageEditor() {
     const formData = new FormData();
     formData.append("slug", page.slug);
     formData.append("sourceLocale", sourceLocale);
-    for (const locale of SUPPORTED_LOCALES) {
+    for (const locale of editionLocales) {
       formData.append(`title_${locale}`, editions[locale].title);
       formData.append(`description_${locale}`, editions[locale].description);
       formData.append(`content_${locale}`, editions[locale].content);
@@ -86,7 +89,7 @@ export default function AdminPageEditor() {
   };
 
   return (
-    <AdminLayout username={username || undefined}>
+    <AdminLayout username={username || undefined} role={role}>
       <div className="mx-auto max-w-6xl p-6 lg:p-8">
         <div className="mb-6 flex flex-wrap items-start justify-between gap-4">
           <div>
@@ -97,14 +100,22 @@ export default function AdminPageEditor() {
               {siteLanguages.multilingual ? "Multilingual page" : "Page"}
             </h1>
           </div>
-          <button
-            type="button"
-            onClick={save}
-            disabled={!hasChanges || fetcher.state !== "idle" || !editions[sourceLocale].title}
-            className="rounded-lg bg-gray-900 px-4 py-2 text-sm font-semibold text-white disabled:opacity-40 dark:bg-gray-100 dark:text-gray-900"
-          >
-            {fetcher.state === "idle" ? (siteLanguages.multilingual ? "Save editions" : "Save page") : "Saving…"}
-          </button>
+          <div className="flex items-center gap-2">
+            <Link
+              to={`/admin/revisions?kind=page&id=${encodeURIComponent(page.slug)}`}
+              className="rounded-lg border border-gray-300 px-4 py-2 text-sm font-semibold text-gray-700 hover:bg-gray-50 dark:border-gray-700 dark:text-gray-300 dark:hover:bg-gray-900"
+            >
+              History
+            </Link>
+            <button
+              type="button"
+              onClick={save}
+              disabled={!hasChanges || fetcher.state !== "idle" || !editions[sourceLocale].title}
+              className="rounded-lg bg-gray-900 px-4 py-2 text-sm font-semibold text-white disabled:opacity-40 dark:bg-gray-100 dark:text-gray-900"
+            >
+              {fetcher.state === "idle" ? (siteLanguages.multilingual ? "Save editions" : "Save page") : "Saving…"}
+            </button>
+          </div>
         </div>
 
         {fetcher.data?.error ? (
@@ -114,7 +125,7 @@ export default function AdminPageEditor() {
         {siteLanguages.multilingual && (
         <div className="mb-5 flex items-center justify-between rounded-lg border border-gray-200 bg-white p-2 dark:border-gray-700 dark:bg-gray-950">
           <div className="flex gap-1">
-            {SUPPORTED_LOCALES.map((locale) => (
+            {editionLocales.map((locale) => (
               <button
                 key={locale}
                 type="button"
@@ -125,7 +136,7 @@ export default function AdminPageEditor() {
               </button>
             ))}
           </div>
-          <span className="px-2 text-xs text-gray-500 dark:text-gray-400">{localeNames[activeLocale]}</span>
+          <span className="px-2 text-xs text-gray-500 dark:text-gray-400">{localeName(activeLocale)}</span>
         </div>
         )}
 
@@ -8,15 +8,13 @@ import type { LoaderFunctionArgs } from "@remix-run/cloudflare";
 import { Link, Outlet, useLoaderData, useParams } from "@remix-run/react";
 import { json } from "@remix-run/cloudflare";
 import { AdminLayout } from "~/components/AdminLayout";
-import { checkAdminAuth, getAdminUser } from "~/utils/admin-auth";
+import { requireAdminAccount } from "~/utils/admin-auth";
 import { getStorage, getContentIndex } from "~/lib/content-engine";
-import { SUPPORTED_LOCALES } from "~/lib/i18n";
 import { useSiteLanguages } from "~/hooks/useSiteLanguages";
 
 export async function loader({ request, context }: LoaderFunctionArgs) {
-  await checkAdminAuth(request, context);
+  const { username, role } = await requireAdminAccount(request, context, "translations");
   
-  const username = await getAdminUser(request, context);
   const storage = getStorage(context);
   
   // Use pre-calculated content index for fast loading
@@ -30,11 +28,11 @@ export async function loader({ request, context }: LoaderFunctionArgs) {
       page.path.endsWith('.html'),
   }));
   
-  return json({ username, pages });
+  return json({ username, role, pages });
 }
 
 export default function AdminPages() {
-  const { username, pages } = useLoaderData<typeof loader>();
+  const { username, role, pages } = useLoaderData<typeof loader>();
   const params = useParams();
   const siteLanguages = useSiteLanguages();
 
@@ -43,7 +41,7 @@ export default function AdminPages() {
   if (params.slug) return <Outlet />;
 
   return (
-    <AdminLayout username={username || undefined}>
+    <AdminLayout username={username || undefined} role={role}>
       <div className="p-6 lg:p-8">
         {/* Header */}
         <div className="flex items-center justify-between mb-8">
@@ -100,7 +98,7 @@ export default function AdminPages() {
                         )}
                         {siteLanguages.multilingual && (
                         <div className="mt-2 flex gap-1.5">
-                          {SUPPORTED_LOCALES.map((locale) => {
+                          {siteLanguages.locales.map((locale) => {
                             const complete =
                               page.locale === locale || Boolean(page.translations?.[locale]);
                             return (
@@ -0,0 +1,208 @@
+/**
+ * Admin - Revision History
+ *
+ * GET /admin/revisions?kind=post&id=<slug>
+ * Browse the saved revisions of a gallery, photo, post or page and restore any
+ * of them. Restoring also refreshes the content index for that item.
+ */
+
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/cloudflare";
+import { json } from "@remix-run/cloudflare";
+import { Form, Link, useActionData, useLoaderData, useNavigation } from "@remix-run/react";
+import { AdminLayout } from "~/components/AdminLayout";
+import {
+  getStorage,
+  isRevisionTargetKind,
+  listContentRevisions,
+  restoreContentRevision,
+  RevisionNotFoundError,
+  type RevisionTarget,
+} from "~/lib/content-engine";
+import { requireAdminAccount, requireAdminUser } from "~/utils/admin-auth";
+import { roleCan } from "~/lib/admin-roles";
+
+const KIND_LABELS: Record<RevisionTarget["kind"], string> = {
+  gallery: "Gallery",
+  photo: "Photo",
+  post: "Blog post",
+  page: "Page",
+};
+
+function targetFromParams(params: URLSearchParams | FormData): RevisionTarget {
+  const kind = params.get("kind");
+  const id = String(params.get("id") || "").trim();
+  if (!isRevisionTargetKind(kind) || !id || id.includes("..")) {
+    throw new Response("Unknown revision target", { status: 400 });
+  }
+  return { kind, id };
+}
+
+function editorUrl(target: RevisionTarget): string {
+  switch (target.kind) {
+    case "post":
+      return `/admin/blog/${target.id}`;
+    case "page":
+      return `/admin/pages/${target.id}`;
+    case "gallery":
+      return `/admin/galleries/${target.id.replace(/^galleries\//, "")}`;
+    case "photo":
+      return `/admin/galleries/${target.id.replace(/^galleries\//, "").split("/").slice(0, -1).join("/")}`;
+  }
+}
+
+export async function loader({ request, context }: LoaderFunctionArgs) {
+  const { username, role } = await requireAdminAccount(request, context, "translations");
+  const target = targetFromParams(new URL(request.url).searchParams);
+  const revisions = await listContentRevisions(getStorage(context), target);
+  return json({ username, role, target, revisions });
+}
+
+export async function action({ request, context }: ActionFunctionArgs) {
+  const username = await requireAdminUser(request, context, "content");
+  const formData = await request.formData();
+  const target = targetFromParams(formData);
+  const revisionId = String(formData.get("revisionId") || "");
+  const side = formData.get("side") === "before" ? "before" : "after";
+
+  try {
+    const restored = await restoreContentRevision(
+      getStorage(context),
+      target,
+      revisionId,
+      { author: username || "admin", side },
+    );
+    return json({
+      success: true,
+      message: restored
+        ? "Revision restored. The content index has been updated."
+        : "The content already matches this revision.",
+    });
+  } catch (error) {
+    if (error instanceof RevisionNotFoundError) {
+      return json({ success: false, message: error.message }, { status: 404 });
+    }
+    console.error("[Revisions] Restore failed", error);
+    return json(
+      { success: false, message: error instanceof Error ? error.message : "Restore failed" },
+      { status: 500 },
+    );
+  }
+}
+
+export default function AdminRevisions() {
+  const { username, role, target, revisions } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const restoring = navigation.state === "submitting";
+
+  return (
+    <AdminLayout username={username || undefined} role={role}>
+      <div className="p-6 lg:p-8">
+        <div className="mb-8">
+          <Link
+            to={editorUrl(target)}
+            className="text-sm text-gray-500 hover:text-gray-900 dark:text-gray-400 dark:hover:text-white"
+          >
+            ← Back to editor
+          </Link>
+          <h1 className="mt-2 text-2xl font-bold text-gray-900 dark:text-white">
+            Revision history
+          </h1>
+          <p className="mt-1 text-gray-500 dark:text-gray-400">
+            {KIND_LABELS[target.kind]} · <code>{target.id}</code>
+          </p>
+        </div>
+
+        {actionData && (
+          <p className={`mb-6 rounded-lg px-4 py-3 text-sm ${
+            actionData.success
+              ? "bg-green-50 text-green-700 dark:bg-green-900/20 dark:text-green-400"
+              : "bg-red-50 text-red-700 dark:bg-red-900/20 dark:text-red-400"
+          }`}>
+            {actionData.message}
+          </p>
+        )}
+
+        {revisions.length === 0 ? (
+          <div className="rounded-xl border border-gray-200 bg-white py-12 text-center text-gray-500 dark:border-gray-800 dark:bg-gray-950 dark:text-gray-400">
+            No revisions yet. Edits made from the admin are recorded here.
+          </div>
+        ) : (
+          <ol className="space-y-4">
+            {revisions.map((revision, index) => (
+              <li
+                key={revision.id}
+                className="rounded-xl border border-gray-200 bg-white p-5 dark:border-gray-800 dark:bg-gray-950"
+              >
+                <div className="flex flex-wrap items-start justify-between gap-4">
+                  <div>
+                    <p className="font-medium text-gray-900 dark:text-white">
+                      {revision.action}
+                      {index === 0 && (
+                        <span className="ml-2 rounded bg-emerald-50 px-1.5 py-0.5 text-[10px] font-semibold text-emerald-700 dark:bg-emerald-900/20 dark:text-emerald-300">
+                          latest
+                        </span>
+                      )}
+                    </p>
+                    <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                      {revision.author} · {new Date(revision.createdAt).toLocaleString()}
+                      {revision.restoredFrom && " · restored from an earlier revision"}
+                    </p>
+                  </div>
+                  {roleCan(role, "content") && (
+                    <Form method="post" className="flex gap-2">
+                      <input type="hidden" name="kind" value={target.kind} />
+                      <input type="hidden" name="id" value={target.id} />
+                      <input type="hidden" name="revisionId" value={revision.id} />
+                      <button
+                        type="submit"
+                        name="side"
+                        value="after"
+                        disabled={restoring}
+                        className="rounded-lg bg-gray-900 px-3 py-1.5 text-sm font-semibold text-white transition-colors hover:bg-gray-700 disabled:opacity-60 dark:bg-gray-100 dark:text-gray-900 dark:hover:bg-white"
+                      >
+                        Restore this version
+                      </button>
+                      <button
+                        type="submit"
+                        name="side"
+                        value="before"
+                        disabled={restoring}
+                        className="rounded-lg border border-gray-300 px-3 py-1.5 text-sm font-semibold text-gray-700 transition-colors hover:bg-gray-50 disabled:opacity-60 dark:border-gray-700 dark:text-gray-300 dark:hover:bg-gray-900"
+                      >
+                        Undo this change
+                      </button>
+                    </Form>
+                  )}
+                </div>
+                {revision.files.map((file) => (
+                  <details key={file.path} className="mt-4">
+                    <summary className="cursor-pointer text-sm text-gray-600 dark:text-gray-300">
+                      {file.path}
+                    </summary>
+                    <pre className="mt-2 max-h-96 overflow-auto rounded-lg bg-gray-50 p-3 text-xs leading-5 dark:bg-gray-900">
+                      {file.diff.split("\n").map((line, lineIndex) => (
+                        <span
+                          key={lineIndex}
+                          className={`block ${
+                            line.startsWith("+") && !line.startsWith("+++")
+                              ? "text-emerald-700 dark:text-emerald-400"
+                              : line.startsWith("-") && !line.startsWith("---")
+                                ? "text-red-700 dark:text-red-400"
+                                : "text-gray-600 dark:text-gray-400"
+                          }`}
+                        >
+                          {line}
+                        </span>
+                      ))}
+                    </pre>
+                  </details>
+                ))}
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </AdminLayout>
+  );
+}
@@ -0,0 +1,214 @@
+/**
+ * Admin - Account Security
+ *
+ * GET /admin/security
+ * Turn two-factor authentication on or off for the signed-in account. Any
+ * role can open this page; it only ever changes the caller's own account.
+ */
+
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/cloudflare";
+import { json } from "@remix-run/cloudflare";
+import { Form, useActionData, useLoaderData, useNavigation } from "@remix-run/react";
+import { AdminLayout } from "~/components/AdminLayout";
+import { getStorage } from "~/lib/content-engine";
+import {
+  AdminUserError,
+  confirmAdminTotp,
+  disableAdminTotp,
+  getAdminCredentials,
+  getAdminTotpStatus,
+  requireAdminAccount,
+  startAdminTotpEnrollment,
+  verifyAdminSecondFactor,
+} from "~/utils/admin-auth";
+
+interface SecurityActionData {
+  success: boolean;
+  message?: string;
+  /** Pending enrollment, shown until a first code is confirmed. */
+  secret?: string;
+  uri?: string;
+  /** Shown once after enrollment. */
+  recoveryCodes?: string[];
+}
+
+export async function loader({ request, context }: LoaderFunctionArgs) {
+  const { username, role } = await requireAdminAccount(request, context);
+  const status = username
+    ? await getAdminTotpStatus(getStorage(context, request), username)
+    : { enabled: false, recoveryCodesLeft: 0 };
+  return json({ username, role, status });
+}
+
+export async function action({ request, context }: ActionFunctionArgs) {
+  const { username } = await requireAdminAccount(request, context);
+  if (!username) {
+    return json<SecurityActionData>(
+      { success: false, message: "Set ADMIN_USERNAME to manage two-factor authentication." },
+      { status: 400 },
+    );
+  }
+
+  const storage = getStorage(context, request);
+  const formData = await request.formData();
+  const intent = String(formData.get("intent") || "");
+  const code = String(formData.get("code") || "");
+
+  try {
+    switch (intent) {
+      case "start": {
+        const enrollment = await startAdminTotpEnrollment(
+          storage,
+          username,
+          getAdminCredentials(context.cloudflare?.env),
+        );
+        return json<SecurityActionData>({ success: true, ...enrollment });
+      }
+      case "confirm": {
+        const recoveryCodes = await confirmAdminTotp(storage, username, code);
+        return json<SecurityActionData>({
+          success: true,
+          message: "Two-factor authentication is on.",
+          recoveryCodes,
+        });
+      }
+      case "disable":
+        if (!(await verifyAdminSecondFactor(storage, username, code))) {
+          throw new AdminUserError("That code is not valid.");
+        }
+        await disableAdminTotp(storage, username);
+        return json<SecurityActionData>({ success: true, message: "Two-factor authentication is off." });
+      default:
+        return json<SecurityActionData>({ success: false, message: "Unknown action" }, { status: 400 });
+    }
+  } catch (error) {
+    if (error instanceof AdminUserError) {
+      // Keep a pending enrollment on screen so a mistyped code can be retried.
+      const pending = intent === "confirm"
+        ? { secret: String(formData.get("secret") || ""), uri: String(formData.get("uri") || "") }
+        : {};
+      return json<SecurityActionData>(
+        { success: false, message: error.message, ...pending },
+        { status: 400 },
+      );
+    }
+    throw error;
+  }
+}
+
+const inputClass =
+  "rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-gray-900 dark:border-gray-700 dark:bg-gray-900 dark:text-white dark:focus:ring-gray-100";
+const primaryButtonClass =
+  "rounded-lg bg-gray-900 px-4 py-2 text-sm font-semibold text-white transition-colors hover:bg-gray-700 disabled:opacity-60 dark:bg-gray-100 dark:text-gray-900 dark:hover:bg-white";
+
+export default function AdminSecurity() {
+  const { username, role, status } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const submitting = navigation.state === "submitting";
+  const enrolling = Boolean(actionData?.secret) && !status.enabled;
+
+  return (
+    <AdminLayout username={username || undefined} role={role}>
+      <div className="p-6 lg:p-8 max-w-2xl">
+        <div className="mb-8">
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Account security</h1>
+          <p className="mt-1 text-gray-500 dark:text-gray-400">
+            Two-factor authentication asks for a code from an authenticator app after your password.
+          </p>
+        </div>
+
+        {actionData?.message && (
+          <p className={`mb-6 rounded-lg px-4 py-3 text-sm ${
+            actionData.success
+              ? "bg-green-50 text-green-700 dark:bg-green-900/20 dark:text-green-400"
+              : "bg-red-50 text-red-700 dark:bg-red-900/20 dark:text-red-400"
+          }`}>
+            {actionData.message}
+          </p>
+        )}
+
+        {actionData?.recoveryCodes && (
+          <div className="mb-6 rounded-xl border border-amber-200 bg-amber-50 p-5 dark:border-amber-900/50 dark:bg-amber-900/10">
+            <p className="text-sm font-medium text-amber-800 dark:text-amber-300">
+              Save these recovery codes now. Each works once if you lose your device; they will not be shown again.
+            </p>
+            <ul className="mt-3 grid grid-cols-2 gap-2 font-mono text-sm text-gray-900 dark:text-white">
+              {actionData.recoveryCodes.map((recoveryCode) => (
+                <li key={recoveryCode}>{recoveryCode}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="rounded-xl border border-gray-200 bg-white p-5 dark:border-gray-800 dark:bg-gray-950">
+          {status.enabled ? (
+            <>
+              <p className="text-sm text-gray-700 dark:text-gray-300">
+                Two-factor authentication is <strong>on</strong>. {status.recoveryCodesLeft} recovery
+                code{status.recoveryCodesLeft === 1 ? "" : "s"} left.
+              </p>
+              <Form method="post" className="mt-4 flex flex-wrap items-end gap-3">
+                <input type="hidden" name="intent" value="disable" />
+                <label className="flex flex-col gap-1 text-sm text-gray-600 dark:text-gray-300">
+                  Current code or recovery code
+                  <input name="code" required autoComplete="one-time-code" className={inputClass} />
+                </label>
+                <button type="submit" disabled={submitting} className={primaryButtonClass}>
+                  Turn off
+                </button>
+              </Form>
+            </>
+          ) : enrolling ? (
+            <>
+              <p className="text-sm text-gray-700 dark:text-gray-300">
+                Add this account to your authenticator app with the link or the secret below, then
+                enter the code it shows.
+              </p>
+              <p className="mt-3 text-sm">
+                <a href={actionData?.uri} className="text-blue-600 hover:underline dark:text-blue-400">
+                  Open in authenticator app
+                </a>
+              </p>
+              <input
+                readOnly
+                value={actionData?.secret}
+                onFocus={(event) => event.currentTarget.select()}
+                className={`${inputClass} mt-2 w-full font-mono tracking-wider`}
+              />
+              <Form method="post" className="mt-4 flex flex-wrap items-end gap-3">
+                <input type="hidden" name="intent" value="confirm" />
+                <input type="hidden" name="secret" value={actionData?.secret} />
+                <input type="hidden" name="uri" value={actionData?.uri} />
+                <label className="flex flex-col gap-1 text-sm text-gray-600 dark:text-gray-300">
+                  Code
+                  <input
+                    name="code"
+                    required
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    className={inputClass}
+                    placeholder="123456"
+                  />
+                </label>
+                <button type="submit" disabled={submitting} className={primaryButtonClass}>
+                  Turn on
+                </button>
+              </Form>
+            </>
+          ) : (
+            <Form method="post" className="flex items-center justify-between gap-4">
+              <p className="text-sm text-gray-700 dark:text-gray-300">
+                Two-factor authentication is <strong>off</strong>.
+              </p>
+              <input type="hidden" name="intent" value="start" />
+              <button type="submit" disabled={submitting || !username} className={primaryButtonClass}>
+                Set up
+              </button>
+            </Form>
+          )}
+        </div>
+      </div>
+    </AdminLayout>
+  );
+}
@@ -10,24 +10,31 @@ import type { LoaderFunctionArgs, ActionFunctionArgs } from "@remix-run/cloudfla
 import { useLoaderData, useFetcher } from "@remix-run/react";
 import { json } from "@remix-run/cloudflare";
 import { AdminLayout } from "~/components/AdminLayout";
-import { checkAdminAuth, getAdminUser } from "~/utils/admin-auth";
-import { getStorage, isDemoMode, getStorageMode, isDevelopment, getAdapterPreference, getContentIndex, rebuildContentIndex } from "~/lib/content-engine";
+import { checkAdminAuth, requireAdminAccount } from "~/utils/admin-auth";
+import { getStorage, isDemoMode, getStorageMode, isDevelopment, getAdapterPreference, getS3Config, getS3ConfigFromProcessEnv, getContentIndex, rebuildContentIndex } from "~/lib/content-engine";
 import type { StorageAdapterPreference, ContentIndex } from "~/lib/content-engine";
 import { getPhotoAiConfiguration } from "~/lib/ai/photo-ai-service.server";
-import { normalizeLocale } from "~/lib/i18n";
+import {
+  localeName,
+  normalizeLocale,
+  normalizeLocaleList,
+  siteLocales,
+} from "~/lib/i18n";
 import {
   readSiteLanguageSettings,
   writeSiteLanguageSettings,
   type SiteLanguageSettings,
 } from "~/lib/site-languages.server";
 
-type StorageAdapterType = "local" | "r2" | "unconfigured";
+type StorageAdapterType = "local" | "r2" | "s3" | "unconfigured";
 
 interface StorageConfig {
   adapterType: StorageAdapterType;
   adapterPreference: StorageAdapterPreference;
   isR2: boolean;
   r2Available: boolean; // R2 bucket is configured and available
+  s3Available: boolean; // S3-compatible bucket credentials are configured
+  s3Endpoint: string | null;
   isDevelopment: boolean;
   localPath: string | null;
   bucketName: string | null;
@@ -76,15 +83,20 @@ chmod 600 .dev.vars`;
 const PHOTO_AI_LOCAL_SECRET = 'GEMINI_API_KEY="paste-your-key-here"';
 
 export async function action({ request, context }: ActionFunctionArgs) {
-  await checkAdminAuth(request, context);
+  await checkAdminAuth(request, context, "settings");
   
   const storage = getStorage(context, request);
   const formData = await request.formData();
   if (formData.get("intent") === "save-language-settings") {
     const defaultLocale = normalizeLocale(formData.get("defaultLocale")) || "es";
+    const locales = siteLocales({
+      defaultLocale,
+      locales: normalizeLocaleList(String(formData.get("locales") || "").split(",")),
+    });
     const languageSettings: SiteLanguageSettings = {
       multilingual: formData.get("multilingual") === "true",
       defaultLocale,
+      locales,
     };
 
     try {
@@ -92,7 +104,7 @@ export async function action({ request, context }: ActionFunctionArgs) {
       return json<LanguageSettingsActionResult>({
         success: true,
         message: languageSettings.multilingual
-          ? "Spanish and English editions are enabled."
+          ? `${locales.map(localeName).join(", ")} editions are enabled.`
           : `Single-language mode is enabled (${defaultLocale.toUpperCase()}).`,
         languageSettings,
       });
@@ -147,9 +159,8 @@ export async function action({ request, context }: ActionFunctionArgs) {
 }
 
 export async function loader({ request, context }: LoaderFunctionArgs) {
-  await checkAdminAuth(request, context);
+  const { username, role } = await requireAdminAccount(request, context, "settings");
   
-  const username = await getAdminUser(request, context);
   const storage = getStorage(context, request);
   const env = context.cloudflare?.env as Env | undefined;
   const demoMode = isDemoMode(context);
@@ -165,6 +176,7 @@ export async function loader({ request, context }: LoaderFunctionArgs) {
   
   // Get adapter preference from .dev.vars
   const adapterPreference = getAdapterPreference(context);
+  const s3Config = getS3Config(env) || getS3ConfigFromProcessEnv();
   
   // Get storage configuration details
   const storageConfig: StorageConfig = {
@@ -172,9 +184,11 @@ export async function loader({ request, context }: LoaderFunctionArgs) {
     adapterPreference,
     isR2: storageMode === "r2",
     r2Available: !!env?.CONTENT_BUCKET, // R2 is configured even if not in use
+    s3Available: !!s3Config,
+    s3Endpoint: s3Config?.endpoint || null,
     isDevelopment: isDevMode,
     localPath: isDevMode ? "./content" : null,
-    bucketName: env?.R2_BUCKET_NAME || null,
+    bucketName: storageMode === "s3" ? s3Config?.bucketName || null : env?.R2_BUCKET_NAME || null,
     publicUrl: env?.R2_PUBLIC_URL || null,
     accountId: env?.R2_ACCOUNT_ID || null,
     imageProvider: env?.IMAGE_PROVIDER || "cloudflare",
@@ -183,6 +197,7 @@ export async function loader({ request, context }: LoaderFunctionArgs) {
   
   return json({
     username,
+    role,
     isDemoMode: demoMode,
     stats: contentIndex.stats,
     indexInfo: {
@@ -195,7 +210,8 @@ export async function loader({ request, context }: LoaderFunctionArgs) {
     },
     photoAi: {
       enabled: photoAiConfig.enabled,
-      configured: photoAiConfig.enabled && Boolean(photoAiConfig.apiKey),
+      configured: photoAiConfig.enabled,
+      provider: photoAiConfig.provider,
       analysisModel: photoAiConfig.analysisModel,
       embeddingModel: photoAiConfig.embeddingModel,
     },
@@ -205,7 +221,8 @@ export async function loader({ request, context }: LoaderFunctionArgs) {
 }
 
 export default function AdminSettings() {
-  const { username, isDemoMode: demoMode, stats, indexInfo, env, photoAi, siteLanguages, storageConfig } = useLoaderData<typeof loader>();
+  const { username, role, isDemoMode: demoMode, stats, indexInfo, env, photoAi, siteLanguages, storageConfig } = useLoaderData<typeof loader>();
+  const publishedLocales = siteLocales(siteLanguages);
   const fetcher = useFetcher<{ testResult: StorageTestResult }>();
   const languageFetcher = useFetcher<LanguageSettingsActionResult>();
   const isTestingStorage = fetcher.state !== "idle";
@@ -319,7 +336,7 @@ export default function AdminSettings() {
   };
 
   return (
-    <AdminLayout username={username || undefined} isDemoMode={demoMode}>
+    <AdminLayout username={username || undefined} role={role} isDemoMode={demoMode}>
       <div className="p-6 lg:p-8 max-w-4xl">
         {/* Header */}
         <div className="mb-8">
@@ -344,7 +361,7 @@ export default function AdminSettings() {
                   Multilingual content
                 </span>
                 <span className="mt-1 block text-sm leading-6 text-gray-500 dark:text-gray-400">
-                  Add separate Spanish and English editions to posts, pages, galleries, photo titles and descriptions.
+                  Add a separate edition per published language to posts, pages, galleries, photo titles and descriptions.
                 </span>
               </span>
               <input
@@ -356,6 +373,23 @@ export default function AdminSettings() {
               />
             </label>
 
+            <div>
+              <label htmlFor="locales" className="mb-1 block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Published languages
+              </label>
+              <input
+                id="locales"
+                name="locales"
+                type="text"
+                defaultValue={publishedLocales.join(", ")}
+                placeholder="es, en, fr"
+                className="w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-gray-900 focus:border-transparent focus:ring-2 focus:ring-blue-500 dark:border-gray-700 dark:bg-gray-900 dark:text-white"
+              />
+              <p className="mt-2 text-sm leading-6 text-gray-500 dark:text-gray-400">
+                Two-letter ISO 639-1 codes, in the order the language switch shows them. Removing a language hides its edition without deleting its translations.
+              </p>
+            </div>
+
             <div>
               <label htmlFor="defaultLocale" className="mb-1 block text-sm font-medium text-gray-700 dark:text-gray-300">
                 Default and source language for new content
@@ -366,8 +400,11 @@ export default function AdminSettings() {
                 defaultValue={siteLanguages.defaultLocale}
                 className="w-full rounded-lg border border-gray-200 bg-white px-3 py-2 text-gray-900 focus:border-transparent focus:ring-2 focus:ring-blue-500 dark:border-gray-700 dark:bg-gray-900 dark:text-white"
               >
-                <option value="es">Español (ES)</option>
-                <option value="en">English (EN)</option>
+                {publishedLocales.map((locale) => (
+                  <option key={locale} value={locale}>
+                    {localeName(locale)} ({locale.toUpperCase()})
+                  </option>
+                ))}
               </select>
               <p className="mt-2 text-sm leading-6 text-gray-500 dark:text-gray-400">
                 With multilingual content off, visitors and editors see only this edition. Existing translations are preserved and become available again if you re-enable the option.
@@ -421,6 +458,8 @@ export default function AdminSettings() {
           badge={
             storageConfig.adapterType === "r2" 
               ? { text: "R2 Connected", color: "green" } 
+              : storageConfig.adapterType === "s3"
+              ? { text: "S3 Connected", color: "green" }
               : storageConfig.adapterType === "local"
               ? { text: "Local Storage", color: "blue" }
               : { text: "Demo Mode", color: "yellow" }
@@ -430,13 +469,13 @@ export default function AdminSettings() {
             {/* Current Adapter Info */}
             <div className="flex items-center gap-3 pb-4 border-b border-gray-200 dark:border-gray-700">
               <div className={`p-3 rounded-xl ${
-                storageConfig.adapterType === "r2" 
+                storageConfig.adapterType === "r2" || storageConfig.adapterType === "s3"
                   ? "bg-orange-100 dark:bg-orange-900/30" 
                   : storageConfig.adapterType === "local"
                   ? "bg-blue-100 dark:bg-blue-900/30"
                   : "bg-yellow-100 dark:bg-yellow-900/30"
               }`}>
-                {storageConfig.adapterType === "r2" ? (
+                {storageConfig.adapterType === "r2" || storageConfig.adapterType === "s3" ? (
                   <CloudIcon className={`w-6 h-6 text-orange-600 dark:text-orange-400`} />
                 ) : storageConfig.adapterType === "local" ? (
                   <FolderIcon className={`w-6 h-6 text-blue-600 dark:text-blue-400`} />
@@ -448,6 +487,8 @@ export default function AdminSettings() {
                 <h3 className="font-semibold text-gray-900 dark:text-white">
                   {storageConfig.adapterType === "r2" 
                     ? "Cloudflare R2" 
+                    : storageConfig.adapterType === "s3"
+                    ? "S3-compatible Storage"
                     : storageConfig.adapterType === "local"
                     ? "Local Storage Adapter"
                     : "Demo Mode (Bundled Content)"}
@@ -455,6 +496,8 @@ export default function AdminSettings() {
                 <p className="text-sm text-gray-500 dark:text-gray-400">
                   {storageConfig.adapterType === "r2" 
                     ? "Connected to Cloudflare R2 bucket for production storage" 
+                    : storageConfig.adapterType === "s3"
+                    ? "Connected to a self-hosted S3-compatible bucket"
                     : storageConfig.adapterType === "local"
                     ? "Reading content from local filesystem"
                     : "Using pre-bundled sample content (read-only)"}
@@ -467,11 +510,13 @@ export default function AdminSettings() {
               )}
             </div>
             
-            {/* Adapter Toggle - only in development when R2 is available */}
-            {storageConfig.isDevelopment && storageConfig.r2Available && (
+            {/* Adapter Toggle - only in development when a bucket is available */}
+            {storageConfig.isDevelopment && (storageConfig.r2Available || storageConfig.s3Available) && (
               <AdapterToggle 
                 currentAdapter={storageConfig.adapterType}
                 bucketName={storageConfig.bucketName}
+                r2Available={storageConfig.r2Available}
+                s3Available={storageConfig.s3Available}
               />
             )}
             
@@ -571,6 +616,24 @@ export default function AdminSettings() {
               </>
             )}
 
+            {storageConfig.adapterType === "s3" && (
+              <>
+                {/* S3 Configuration Details */}
+                <InfoRow 
+                  label="Bucket Name" 
+                  value={storageConfig.bucketName || "Not configured"} 
+                  status={storageConfig.bucketName ? "success" : "warning"}
+                  copyable={storageConfig.bucketName || undefined}
+                />
+                <InfoRow 
+                  label="Endpoint" 
+                  value={storageConfig.s3Endpoint || "Not configured"} 
+                  status={storageConfig.s3Endpoint ? "success" : "warning"}
+                  copyable={storageConfig.s3Endpoint || undefined}
+                />
+              </>
+            )}
+
             {storageConfig.adapterType === "unconfigured" && (
               <>
                 {/* Storage Not Configured Error */}
@@ -811,7 +874,13 @@ export default function AdminSettings() {
           <Section title="Photo AI (optional)">
             <InfoRow
               label="Status"
-              value={photoAi.configured ? "Enabled with your Gemini key" : "Disabled"}
+              value={
+                !photoAi.configured
+                  ? "Disabled"
+                  : photoAi.provider === "gemini"
+                    ? "Enabled with your Gemini key"
+                    : `Enabled with ${photoAi.provider === "ollama" ? "Ollama" : "an OpenAI-compatible endpoint"}`
+              }
               status={photoAi.configured ? "success" : "warning"}
             />
             <InfoRow
@@ -905,6 +974,10 @@ export default function AdminSettings() {
                 no photos are queued and no model requests are made. Set{" "}
                 <code className="rounded bg-gray-100 px-1 dark:bg-gray-800">PHOTO_AI_ENABLED=false</code> to force it off even when a key exists.
                 Cloudflare Vectorize is optional; the built-in files-first vector index works without it.
+                To keep photos on your own network, set{" "}
+                <code className="rounded bg-gray-100 px-1 dark:bg-gray-800">PHOTO_AI_PROVIDER=ollama</code> or point{" "}
+                <code className="rounded bg-gray-100 px-1 dark:bg-gray-800">PHOTO_AI_PROVIDER=openai</code> at a
+                self-hosted server with <code className="rounded bg-gray-100 px-1 dark:bg-gray-800">OPENAI_BASE_URL</code>.
               </div>
 
               {photoAi.configured && (
@@ -2745,16 +2818,20 @@ function ContentIndexPanel({
 // Adapter Toggle Component
 function AdapterToggle({ 
   currentAdapter, 
-  bucketName 
+  bucketName,
+  r2Available,
+  s3Available,
 }: { 
   currentAdapter: StorageAdapterType;
   bucketName: string | null;
+  r2Available: boolean;
+  s3Available: boolean;
 }) {
   const fetcher = useFetcher<{ success: boolean; message: string; adapter?: string; needsRestart?: boolean }>();
   const isLoading = fetcher.state !== "idle";
   const switchSuccess = fetcher.data?.success && fetcher.data?.needsRestart;
   
-  const handleSwitch = (newAdapter: "local" | "r2") => {
+  const handleSwitch = (newAdapter: "local" | "r2" | "s3") => {
     if (newAdapter === currentAdapter) return;
     
     fetcher.submit(
@@ -2795,24 +2872,44 @@ function AdapterToggle({
           )}
         </button>
         
-        <button
-          onClick={() => handleSwitch("r2")}
-          disabled={isLoading || switchSuccess}
-          className={`flex-1 flex items-center justify-center gap-2 px-4 py-2.5 rounded-lg text-sm font-medium transition-all ${
-            currentAdapter === "r2"
-              ? "bg-white dark:bg-gray-600 text-orange-600 dark:text-orange-400 shadow-sm"
-              : "text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
-          }`}
-        >
-          <CloudIcon className="w-4 h-4" />
-          <span>R2 Storage</span>
-          {bucketName && (
-            <span className="text-xs opacity-60">({bucketName})</span>
-          )}
-          {currentAdapter === "r2" && (
-            <CheckIcon className="w-4 h-4 text-green-500" />
-          )}
-        </button>
+        {r2Available && (
+          <button
+            onClick={() => handleSwitch("r2")}
+            disabled={isLoading || switchSuccess}
+            className={`flex-1 flex items-center justify-center gap-2 px-4 py-2.5 rounded-lg text-sm font-medium transition-all ${
+              currentAdapter === "r2"
+                ? "bg-white dark:bg-gray-600 text-orange-600 dark:text-orange-400 shadow-sm"
+                : "text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+            }`}
+          >
+            <CloudIcon className="w-4 h-4" />
+            <span>R2 Storage</span>
+            {bucketName && currentAdapter !== "s3" && (
+              <span className="text-xs opacity-60">({bucketName})</span>
+            )}
+            {currentAdapter === "r2" && (
+              <CheckIcon className="w-4 h-4 text-green-500" />
+            )}
+          </button>
+        )}
+
+        {s3Available && (
+          <button
+            onClick={() => handleSwitch("s3")}
+            disabled={isLoading || switchSuccess}
+            className={`flex-1 flex items-center justify-center gap-2 px-4 py-2.5 rounded-lg text-sm font-medium transition-all ${
+              currentAdapter === "s3"
+                ? "bg-white dark:bg-gray-600 text-orange-600 dark:text-orange-400 shadow-sm"
+                : "text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+            }`}
+          >
+            <CloudIcon className="w-4 h-4" />
+            <span>S3 Storage</span>
+            {currentAdapter === "s3" && (
+              <CheckIcon className="w-4 h-4 text-green-500" />
+            )}
+          </button>
+        )}
       </div>
       
       {/* Loading State */}
@@ -2,182 +2,154 @@
  * Admin - Upload Page
  * 
  * GET /admin/upload
- * POST /admin/upload (form submission)
  * 
  * Features:
  * - Drag & drop upload
+ * - Resumable chunked uploads through /api/admin/uploads
+ * - Duplicate detection and a filename collision policy
+ * - HEIC, AVIF and camera RAW originals with a JPEG display rendition
  * - Automatic WebP variant generation (browser-side)
- * - Progress tracking for processing and upload
+ * - Per-file progress tracking for processing and upload
  */
 
-import type { LoaderFunctionArgs, ActionFunctionArgs } from "@remix-run/cloudflare";
-import { useLoaderData, useFetcher, useSearchParams, Link } from "@remix-run/react";
+import type { LoaderFunctionArgs } from "@remix-run/cloudflare";
+import { useLoaderData, useSearchParams, Link } from "@remix-run/react";
 import { json } from "@remix-run/cloudflare";
 import { AdminLayout } from "~/components/AdminLayout";
-import { checkAdminAuth, getAdminUser } from "~/utils/admin-auth";
-import { getStorage, getContentIndex, addPhotosToGalleryIndex } from "~/lib/content-engine";
-import { enqueueUploadedPhotosForAi } from "~/lib/ai/photo-ai-service.server";
-import { enqueuePhotoMetadataWritebacks } from "~/lib/ai/photo-metadata-writeback.server";
-import { useState, useCallback, useRef, useEffect } from "react";
+import { requireAdminAccount } from "~/utils/admin-auth";
+import {
+  getStorage,
+  getContentIndex,
+  listUploadSessions,
+  missingUploadParts,
+  uploadPartCount,
+  type UploadCollisionPolicy,
+} from "~/lib/content-engine";
+import { isSourceImage } from "~/lib/content-engine/utils";
+import {
+  CAMERA_RAW_EXTENSIONS,
+  HEIF_EXTENSIONS,
+  extractEmbeddedJpegPreview,
+  isCameraRawFile,
+  usesPhotoRendition,
+} from "~/lib/content-engine/photo-renditions";
+import { useState, useCallback, useRef } from "react";
+
+/** Attempts per chunk before the file is marked as failed. */
+const PART_ATTEMPTS = 3;
+
+// RAW files often reach the browser without a MIME type
+const ACCEPTED_FILE_TYPES = [
+  "image/*",
+  ...[...HEIF_EXTENSIONS, ...CAMERA_RAW_EXTENSIONS].map((extension) => `.${extension}`),
+].join(",");
+
+function isUploadableImage(file: File): boolean {
+  return file.type.startsWith("image/") || isSourceImage(file.name);
+}
 
 export async function loader({ request, context }: LoaderFunctionArgs) {
-  await checkAdminAuth(request, context);
+  const { username, role } = await requireAdminAccount(request, context, "content");
   
-  const username = await getAdminUser(request, context);
   const storage = getStorage(context);
   
   // Use pre-calculated content index for fast loading
-  const contentIndex = await getContentIndex(storage);
+  const [contentIndex, sessions] = await Promise.all([
+    getContentIndex(storage),
+    listUploadSessions(storage),
+  ]);
   
   // Sort galleries for dropdown
   const galleries = [...contentIndex.galleries].sort((a, b) => a.title.localeCompare(b.title));
   
-  return json({ username, galleries });
+  // Uploads left unfinished by a closed tab or lost connection
+  const interruptedUploads = sessions.map((session) => ({
+    id: session.id,
+    galleryPath: session.galleryPath,
+    originalFilename: session.originalFilename,
+    size: session.size,
+    partCount: uploadPartCount(session),
+    uploadedParts: uploadPartCount(session) - missingUploadParts(session).length,
+    updatedAt: session.updatedAt,
+  }));
+  
+  return json({ username, role, galleries, interruptedUploads });
 }
 
-export async function action({ request, context }: ActionFunctionArgs) {
-  await checkAdminAuth(request, context);
-  
-  const formData = await request.formData();
-  const files = formData.getAll("files") as File[];
-  const gallery = formData.get("gallery") as string;
-  const generateVariantsFlag = formData.get("generateVariants") !== "false"; // Default true
-  
-  if (files.length === 0) {
-    return json({ error: "No files selected" }, { status: 400 });
-  }
-  
-  const storage = getStorage(context);
-  const results: Array<{
-    name: string;
-    status: string;
-    path?: string;
-    error?: string;
-    variantsCreated?: number;
-  }> = [];
-  
-  // Helper to check if file is a variant
-  const isVariantFile = (filename: string) => /_\d+w\.webp$/i.test(filename);
-  
-  // Separate original files from pre-generated variants (from browser)
-  const originalFiles: File[] = [];
-  const variantFiles: File[] = [];
-  
-  for (const file of files) {
-    if (isVariantFile(file.name)) {
-      variantFiles.push(file);
-    } else {
-      originalFiles.push(file);
-    }
-  }
-  
-  // Process original files
-  for (const file of originalFiles) {
-    try {
-      // Validate file type
-      if (!file.type.startsWith("image/")) {
-        results.push({ name: file.name, status: "error", error: "Not an image" });
-        continue;
-      }
-      
-      // Build destination path
-      const destPath = gallery
-        ? `galleries/${gallery}/${file.name}`
-        : `galleries/uploads/${file.name}`;
-      
-      // Upload original file
-      const buffer = await file.arrayBuffer();
-      await storage.put(destPath, buffer, file.type);
-      
-      // Variants are now generated in the browser and uploaded separately via /api/admin/upload-variant
-      
-      results.push({ 
-        name: file.name, 
-        status: "success", 
-        path: destPath,
-        variantsCreated: 0, // Variants are counted separately via upload-variant endpoint
-      });
-    } catch (error) {
-      results.push({
-        name: file.name,
-        status: "error",
-        error: error instanceof Error ? error.message : "Upload failed",
-      });
-    }
-  }
-  
-  // Upload any pre-generated variants (from browser processing)
-  for (const file of variantFiles) {
-    try {
-      const destPath = gallery
-        ? `galleries/${gallery}/${file.name}`
-        : `galleries/uploads/${file.name}`;
-      
-      const buffer = await file.arrayBuffer();
-      await storage.put(destPath, buffer, "image/webp");
-      // Don't add to results - variants are counted with their originals
-    } catch (error) {
-      console.error(`[Upload] Failed to upload variant ${file.name}:`, error);
-    }
-  }
-  
-  const successCount = results.filter((r) => r.status === "success").length;
-  const totalVariants = results.reduce((sum, r) => sum + (r.variantsCreated || 0), 0);
-  
-  // Update content index incrementally
-  if (successCount > 0) {
-    const successfulPaths = results
-      .filter((r) => r.status === "success" && r.path)
-      .map((r) => r.path as string);
-    
-    const galleryPath = gallery
-      ? `galleries/${gallery}`
-      : "galleries/uploads";
-    
-    try {
-      await addPhotosToGalleryIndex(storage, galleryPath, successfulPaths);
-      console.log(`[Upload] Updated index with ${successfulPaths.length} new photos`);
-    } catch (error) {
-      console.error("[Upload] Failed to update index:", error);
-    }
+type FileUploadStatus =
+  | "pending"
+  | "hashing"
+  | "uploading"
+  | "uploaded"
+  | "replaced"
+  | "skipped"
+  | "duplicate"
+  | "error";
 
-    try {
-      await enqueuePhotoMetadataWritebacks(context, successfulPaths, "upload");
-    } catch (error) {
-      console.error("[Metadata Writeback] Failed to queue uploaded photos", error);
-    }
+interface FileUploadState {
+  status: FileUploadStatus;
+  sent: number;
+  path?: string;
+  error?: string;
+}
 
-    // Queue derived AI metadata without delaying the upload with model calls.
-    // The admin can process/review it later from Photo AI.
-    try {
-      await enqueueUploadedPhotosForAi(context, successfulPaths);
-      console.log(`[Upload] Queued ${successfulPaths.length} photos for AI analysis`);
-    } catch (error) {
-      console.error("[Upload] Failed to queue Photo AI analysis:", error);
-    }
-  }
-  
-  const variantMsg = totalVariants > 0 ? ` (+ ${totalVariants} optimized variants)` : "";
-  
-  return json({
-    success: successCount > 0,
-    message: `Uploaded ${successCount} photo${successCount !== 1 ? 's' : ''}${variantMsg}`,
-    results,
+interface UploadApiResponse {
+  success: boolean;
+  error?: string;
+  status?: "ready" | "duplicate" | "skipped" | "uploaded" | "replaced";
+  existingPath?: string;
+  path?: string;
+  session?: {
+    id: string;
+    path: string;
+    filename: string;
+    chunkSize: number;
+    missingParts: number[];
+    rendition: boolean;
+  };
+}
+
+const COLLISION_POLICY_OPTIONS: Array<{ value: UploadCollisionPolicy; label: string }> = [
+  { value: "rename", label: "Keep both (upload as name-1.jpg)" },
+  { value: "skip", label: "Skip the new file" },
+  { value: "replace", label: "Replace the file, keep its title, tags and order" },
+];
+
+function fileKey(file: File): string {
+  return `${file.name}:${file.size}:${file.lastModified}`;
+}
+
+async function postUpload(fields: Record<string, string | Blob>): Promise<UploadApiResponse> {
+  const body = new FormData();
+  for (const [name, value] of Object.entries(fields)) body.append(name, value);
+  const response = await fetch("/api/admin/uploads", {
+    method: "POST",
+    body,
+    credentials: "include",
   });
+  const data = await response.json().catch(() => null) as UploadApiResponse | null;
+  if (!response.ok || !data?.success) {
+    throw new Error(data?.error || `Upload failed (${response.status})`);
+  }
+  return data;
 }
 
 export default function AdminUpload() {
-  const { username, galleries } = useLoaderData<typeof loader>();
+  const { username, role, galleries, interruptedUploads } = useLoaderData<typeof loader>();
   const [searchParams] = useSearchParams();
   const defaultGallery = searchParams.get("gallery") || "";
   
-  const fetcher = useFetcher<typeof action>();
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   const [selectedGallery, setSelectedGallery] = useState(defaultGallery);
   const [dragActive, setDragActive] = useState(false);
   const [files, setFiles] = useState<File[]>([]);
   const [generateVariants, setGenerateVariants] = useState(true);
+  const [collisionPolicy, setCollisionPolicy] = useState<UploadCollisionPolicy>("rename");
+  const [uploadStates, setUploadStates] = useState<Record<string, FileUploadState>>({});
+  const [interrupted, setInterrupted] = useState(interruptedUploads);
+  const [isUploading, setIsUploading] = useState(false);
+  const [results, setResults] = useState<Array<{ name: string } & FileUploadState> | null>(null);
 
   const handleDrag = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -194,17 +166,13 @@ export default function AdminUpload() {
     e.stopPropagation();
     setDragActive(false);
     
-    const droppedFiles = Array.from(e.dataTransfer.files).filter((f) =>
-      f.type.startsWith("image/")
-    );
+    const droppedFiles = Array.from(e.dataTransfer.files).filter(isUploadableImage);
     setFiles((prev) => [...prev, ...droppedFiles]);
   }, []);
 
   const handleFileChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
-      const selectedFiles = Array.from(e.target.files).filter((f) =>
-        f.type.startsWith("image/")
-      );
+      const selectedFiles = Array.from(e.target.files).filter(isUploadableImage);
       setFiles((prev) => [...prev, ...selectedFiles]);
     }
   }, []);
@@ -215,11 +183,21 @@ export default function AdminUpload() {
 
   const clearFiles = useCallback(() => {
     setFiles([]);
+    setUploadStates({});
     if (fileInputRef.current) {
       fileInputRef.current.value = "";
     }
   }, []);
 
+  const discardInterrupted = useCallback(async (id: string) => {
+    try {
+      await postUpload({ action: "abort", session: id });
+    } catch (err) {
+      console.error("[Upload] Failed to discard upload:", err);
+    }
+    setInterrupted((prev) => prev.filter((upload) => upload.id !== id));
+  }, []);
+
   // Processing state for browser-based optimization
   const [isProcessing, setIsProcessing] = useState(false);
   const [processingProgress, setProcessingProgress] = useState({ current: 0, total: 0 });
@@ -227,33 +205,122 @@ export default function AdminUpload() {
   const handleSubmit = useCallback(async () => {
     if (files.length === 0) return;
     
-    const formData = new FormData();
-    formData.append("gallery", selectedGallery);
-    formData.append("generateVariants", "false"); // We'll handle variants in browser
+    setIsUploading(true);
+    setResults(null);
+    const finished: Array<{ name: string } & FileUploadState> = [];
+    const uploaded: Array<{ file: File; display: File; path: string; filename: string }> = [];
+    const setState = (file: File, state: FileUploadState) =>
+      setUploadStates((prev) => ({ ...prev, [fileKey(file)]: state }));
+    const { createCanonicalImageSourceFingerprint } = await import("~/lib/content-engine/victopress-xmp");
     
-    // Upload original files first
-    files.forEach((file) => formData.append("files", file));
+    for (const file of files) {
+      const current = uploadStates[fileKey(file)];
+      if (current && ["uploaded", "replaced", "skipped", "duplicate"].includes(current.status)) {
+        continue;
+      }
+      
+      try {
+        // Identical photos are caught before any bytes leave the browser
+        setState(file, { status: "hashing", sent: 0 });
+        const bytes = await file.arrayBuffer();
+        const fingerprint = await createCanonicalImageSourceFingerprint(bytes);
+        const started = await postUpload({
+          action: "start",
+          gallery: selectedGallery,
+          filename: file.name,
+          size: String(file.size),
+          contentType: file.type,
+          fingerprint,
+          policy: collisionPolicy,
+        });
+        
+        if (started.status === "duplicate" || started.status === "skipped" || !started.session) {
+          const state: FileUploadState = {
+            status: started.status === "duplicate" ? "duplicate" : "skipped",
+            sent: 0,
+            path: started.existingPath,
+          };
+          setState(file, state);
+          finished.push({ name: file.name, ...state });
+          continue;
+        }
+        
+        // A resumed session only asks for the chunks it is missing
+        const session = started.session;
+        setInterrupted((prev) => prev.filter((upload) => upload.id !== session.id));
+        const missing = new Set(session.missingParts);
+        let sent = file.size - session.missingParts.reduce((sum, part) =>
+          sum + Math.min(session.chunkSize, file.size - (part - 1) * session.chunkSize), 0);
+        setState(file, { status: "uploading", sent });
+        
+        for (const part of [...missing].sort((a, b) => a - b)) {
+          const chunk = file.slice((part - 1) * session.chunkSize, part * session.chunkSize);
+          for (let attempt = 1; ; attempt++) {
+            try {
+              await postUpload({ action: "part", session: session.id, part: String(part), chunk });
+              break;
+            } catch (err) {
+              if (attempt >= PART_ATTEMPTS) throw err;
+              await new Promise((resolve) => setTimeout(resolve, attempt * 1000));
+            }
+          }
+          sent += chunk.size;
+          setState(file, { status: "uploading", sent });
+        }
+        
+        // Variants are drawn from a JPEG when the original is HEIC, AVIF or RAW.
+        // The server cuts RAW previews itself; HEIC/AVIF need this browser to decode them.
+        let display = file;
+        if (usesPhotoRendition(session.filename)) {
+          const { renderJpegInBrowser } = await import("~/utils/browser-image-optimizer");
+          const preview = isCameraRawFile(session.filename) ? extractEmbeddedJpegPreview(bytes) : null;
+          const jpeg = preview ? new Blob([preview], { type: "image/jpeg" }) : await renderJpegInBrowser(file);
+          if (jpeg) {
+            display = new File([jpeg], `${session.filename}.jpg`, { type: "image/jpeg" });
+            if (!preview && !session.rendition) {
+              await postUpload({ action: "rendition", session: session.id, rendition: jpeg });
+            }
+          }
+        }
+        
+        const completed = await postUpload({ action: "complete", session: session.id });
+        const state: FileUploadState = {
+          status: completed.status === "replaced" ? "replaced" : "uploaded",
+          sent: file.size,
+          path: completed.path,
+        };
+        setState(file, state);
+        finished.push({ name: file.name, ...state });
+        uploaded.push({ file, display, path: session.path, filename: session.filename });
+      } catch (err) {
+        const state: FileUploadState = {
+          status: "error",
+          sent: 0,
+          error: err instanceof Error ? err.message : "Upload failed",
+        };
+        setState(file, state);
+        finished.push({ name: file.name, ...state });
+      }
+    }
     
-    fetcher.submit(formData, {
-      method: "POST",
-      encType: "multipart/form-data",
-    });
+    setIsUploading(false);
     
-    // If generateVariants is enabled, process in browser after upload starts
-    if (generateVariants) {
+    // If generateVariants is enabled, process in browser after the originals are stored
+    if (generateVariants && uploaded.length > 0) {
       setIsProcessing(true);
-      setProcessingProgress({ current: 0, total: files.length });
+      setProcessingProgress({ current: 0, total: uploaded.length });
       
       try {
         const { optimizeImageInBrowser, cleanupVariantUrls } = await import("~/utils/browser-image-optimizer");
-        const galleryPath = selectedGallery ? `galleries/${selectedGallery}` : "galleries/uploads";
         
-        for (let i = 0; i < files.length; i++) {
-          const file = files[i];
-          setProcessingProgress({ current: i + 1, total: files.length });
+        for (let i = 0; i < uploaded.length; i++) {
+          const { file, display, path, filename } = uploaded[i];
+          const galleryPath = path.slice(0, -filename.length - 1);
+          setProcessingProgress({ current: i + 1, total: uploaded.length });
           
           try {
-            const result = await optimizeImageInBrowser(file, file.name);
+            // Variants follow the stored name, which differs after a collision rename
+            const result = await optimizeImageInBrowser(display, filename);
             
             // Upload each variant
             for (let vi = 0; vi < result.variants.length; vi++) {
@@ -263,7 +330,7 @@ export default function AdminUpload() {
               const variantFormData = new FormData();
               variantFormData.append("file", variant.blob, variant.filename);
               variantFormData.append("path", `${galleryPath}/${variant.filename}`);
-              variantFormData.append("originalPath", `${galleryPath}/${file.name}`);
+              variantFormData.append("originalPath", path);
               if (isLast) variantFormData.append("markOptimized", "true");
               
               await fetch("/api/admin/upload-variant", {
@@ -284,23 +351,20 @@ export default function AdminUpload() {
         setIsProcessing(false);
       }
     }
-  }, [files, selectedGallery, fetcher, generateVariants]);
+    
+    setResults(finished);
+    // Keep failed files selected so they can be retried (and resumed)
+    const failed = new Set(finished.filter((r) => r.status === "error").map((r) => r.name));
+    setFiles((prev) => prev.filter((file) => failed.has(file.name)));
+    if (failed.size === 0 && fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  }, [files, selectedGallery, collisionPolicy, generateVariants, uploadStates]);
 
-  const isUploading = fetcher.state !== "idle";
-  
-  // Track upload success state
-  const uploadSuccess = fetcher.data && "success" in fetcher.data && fetcher.data.success;
+  const storedCount = results?.filter((r) => r.status === "uploaded" || r.status === "replaced").length ?? 0;
+  const uploadSuccess = !!results && storedCount > 0;
   const uploadedGallery = selectedGallery;
-  
-  // Clear files after successful upload
-  useEffect(() => {
-    if (uploadSuccess && fetcher.state === "idle") {
-      setFiles([]);
-      if (fileInputRef.current) {
-        fileInputRef.current.value = "";
-      }
-    }
-  }, [uploadSuccess, fetcher.state]);
+  const resultMessage = results ? summarizeResults(results) : null;
   
   // Reset success state when starting new upload
   const handleUploadMore = useCallback(() => {
@@ -309,7 +373,7 @@ export default function AdminUpload() {
   }, []);
 
   return (
-    <AdminLayout username={username || undefined}>
+    <AdminLayout username={username || undefined} role={role}>
       <div className="p-6 lg:p-8 max-w-4xl">
         {/* Header */}
         <div className="mb-8">
@@ -371,6 +435,31 @@ export default function AdminUpload() {
           </select>
         </div>
 
+        {/* Collision Policy */}
+        <div className="mb-6">
+          <label
+            htmlFor="collision-policy"
+            className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
+          >
+            When a file with the same name exists
+          </label>
+          <select
+            id="collision-policy"
+            value={collisionPolicy}
+            onChange={(e) => setCollisionPolicy(e.target.value as UploadCollisionPolicy)}
+            className="w-full px-3 py-2 bg-white dark:bg-gray-950 border border-gray-300 dark:border-gray-700 rounded-lg text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          >
+            {COLLISION_POLICY_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+            Photos that are already in any gallery are always skipped.
+          </p>
+        </div>
+
         {/* Optimization Options */}
         <div className="mb-6">
           <label className="flex items-center gap-3 cursor-pointer">
@@ -391,6 +480,41 @@ export default function AdminUpload() {
           </label>
         </div>
 
+        {/* Interrupted Uploads */}
+        {interrupted.length > 0 && (
+          <div className="mb-6 bg-amber-50 dark:bg-amber-900/20 rounded-xl border border-amber-200 dark:border-amber-800 p-4">
+            <h3 className="font-medium text-amber-900 dark:text-amber-200 mb-1">Interrupted uploads</h3>
+            <p className="text-xs text-amber-800 dark:text-amber-300 mb-3">
+              Select the same files again to resume where they stopped.
+            </p>
+            <div className="space-y-3">
+              {interrupted.map((upload) => (
+                <div key={upload.id} className="text-sm">
+                  <div className="flex items-center justify-between gap-3">
+                    <span className="text-gray-800 dark:text-gray-200 truncate">
+                      {upload.originalFilename}
+                      <span className="text-gray-500 dark:text-gray-400"> → {upload.galleryPath.replace(/^galleries\//, "")}</span>
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => discardInterrupted(upload.id)}
+                      className="text-xs text-gray-500 dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400 flex-shrink-0"
+                    >
+                      Discard
+                    </button>
+                  </div>
+                  <div className="mt-1 w-full bg-amber-100 dark:bg-amber-900/40 rounded-full h-1.5">
+                    <div
+                      className="bg-amber-500 h-1.5 rounded-full"
+                      style={{ width: `${(upload.uploadedParts / upload.partCount) * 100}%` }}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Drop Zone */}
         <div
           onDragEnter={handleDrag}
@@ -407,7 +531,7 @@ export default function AdminUpload() {
           <input
             ref={fileInputRef}
             type="file"
-            accept="image/*"
+            accept={ACCEPTED_FILE_TYPES}
             multiple
             onChange={handleFileChange}
             className="hidden"
@@ -424,7 +548,7 @@ export default function AdminUpload() {
             or click to select files
           </p>
           <p className="text-sm text-gray-400 dark:text-gray-500 mt-2">
-            Supports JPG, PNG, GIF, WebP
+            Supports JPG, PNG, GIF, WebP, AVIF, HEIC and camera RAW (DNG, RAF, CR3, NEF…)
           </p>
         </div>
 
@@ -454,6 +578,7 @@ export default function AdminUpload() {
                     alt={file.name}
                     className="w-full h-full object-cover"
                   />
+                  <FileUploadBadge state={uploadStates[fileKey(file)]} size={file.size} />
                   <button
                     onClick={(e) => {
                       e.stopPropagation();
@@ -468,6 +593,14 @@ export default function AdminUpload() {
                     <p className="text-white/70 text-xs">
                       {(file.size / 1024 / 1024).toFixed(2)} MB
                     </p>
+                    {uploadStates[fileKey(file)]?.status === "uploading" && (
+                      <div className="mt-1 w-full bg-white/30 rounded-full h-1">
+                        <div
+                          className="bg-white h-1 rounded-full transition-all duration-300"
+                          style={{ width: `${(uploadStates[fileKey(file)].sent / file.size) * 100}%` }}
+                        />
+                      </div>
+                    )}
                   </div>
                 </div>
               ))}
@@ -500,15 +633,15 @@ export default function AdminUpload() {
                   )}
                 </button>
                 
-                {fetcher.data && "message" in fetcher.data && !isProcessing && (
+                {resultMessage && !isProcessing && (
                   <p
                     className={`text-sm ${
-                      "success" in fetcher.data && fetcher.data.success
+                      uploadSuccess
                         ? "text-green-600 dark:text-green-400"
                         : "text-red-600 dark:text-red-400"
                     }`}
                   >
-                    {fetcher.data.message}
+                    {resultMessage}
                   </p>
                 )}
               </div>
@@ -544,26 +677,34 @@ export default function AdminUpload() {
                   Upload Complete!
                 </h3>
                 <p className="text-green-700 dark:text-green-400 mb-4">
-                  {fetcher.data && "message" in fetcher.data ? fetcher.data.message : "Your photos have been uploaded successfully."}
+                  {resultMessage || "Your photos have been uploaded successfully."}
                 </p>
                 
                 {/* Upload Results List */}
-                {fetcher.data && "results" in fetcher.data && fetcher.data.results && (
+                {results && (
                   <div className="mb-4 space-y-1">
-                    {(fetcher.data.results as Array<{ name: string; status: string; error?: string }>).map((result, index) => (
+                    {results.map((result, index) => (
                       <div
                         key={index}
                         className="flex items-center gap-2 text-sm"
                       >
-                        {result.status === "success" ? (
+                        {result.status === "uploaded" || result.status === "replaced" ? (
                           <span className="text-green-600 dark:text-green-400 flex items-center gap-1">
                             <CheckIcon />
-                            <span className="text-green-700 dark:text-green-300">{result.name}</span>
+                            <span className="text-green-700 dark:text-green-300">
+                              {result.name}
+                              {result.path && !result.path.endsWith(`/${result.name}`) && ` → ${result.path.split("/").pop()}`}
+                              {result.status === "replaced" && " (replaced)"}
+                            </span>
                           </span>
-                        ) : (
+                        ) : result.status === "error" ? (
                           <span className="text-red-600 dark:text-red-400">
                             ✕ {result.name}: {result.error}
                           </span>
+                        ) : (
+                          <span className="text-gray-600 dark:text-gray-400">
+                            – {result.name}: {describeSkipped(result)}
+                          </span>
                         )}
                       </div>
                     ))}
@@ -594,11 +735,11 @@ export default function AdminUpload() {
         )}
 
         {/* Upload Results - Only show if there are errors and files still present */}
-        {fetcher.data && "results" in fetcher.data && fetcher.data.results && files.length > 0 && (
+        {results && files.length > 0 && (
           <div className="mt-6 bg-white dark:bg-gray-950 rounded-xl border border-gray-200 dark:border-gray-800 p-4">
             <h3 className="font-medium text-gray-900 dark:text-white mb-3">Upload Results</h3>
             <div className="space-y-2">
-              {(fetcher.data.results as Array<{ name: string; status: string; error?: string }>).map((result, index) => (
+              {results.map((result, index) => (
                 <div
                   key={index}
                   className="flex items-center justify-between text-sm"
@@ -606,15 +747,19 @@ export default function AdminUpload() {
                   <span className="text-gray-700 dark:text-gray-300 truncate">
                     {result.name}
                   </span>
-                  {result.status === "success" ? (
+                  {result.status === "uploaded" || result.status === "replaced" ? (
                     <span className="text-green-600 dark:text-green-400 flex items-center gap-1">
                       <CheckIcon />
-                      Uploaded
+                      {result.status === "replaced" ? "Replaced" : "Uploaded"}
                     </span>
-                  ) : (
+                  ) : result.status === "error" ? (
                     <span className="text-red-600 dark:text-red-400">
                       {result.error}
                     </span>
+                  ) : (
+                    <span className="text-gray-500 dark:text-gray-400">
+                      {describeSkipped(result)}
+                    </span>
                   )}
                 </div>
               ))}
@@ -626,6 +771,54 @@ export default function AdminUpload() {
   );
 }
 
+function summarizeResults(results: Array<{ status: FileUploadStatus }>): string {
+  const count = (status: FileUploadStatus) => results.filter((r) => r.status === status).length;
+  const stored = count("uploaded") + count("replaced");
+  return [
+    `Uploaded ${stored} photo${stored !== 1 ? "s" : ""}`,
+    count("replaced") > 0 && `${count("replaced")} replaced`,
+    count("duplicate") > 0 && `${count("duplicate")} already in the library`,
+    count("skipped") > 0 && `${count("skipped")} skipped`,
+    count("error") > 0 && `${count("error")} failed`,
+  ].filter(Boolean).join(", ");
+}
+
+function describeSkipped(result: FileUploadState): string {
+  const existing = result.path?.replace(/^galleries\//, "");
+  return result.status === "duplicate"
+    ? `Already uploaded as ${existing}`
+    : `Skipped, ${existing} exists`;
+}
+
+function FileUploadBadge({ state, size }: { state?: FileUploadState; size: number }) {
+  if (!state || state.status === "pending") return null;
+  const label = {
+    pending: "",
+    hashing: "Checking…",
+    uploading: `${Math.round((state.sent / size) * 100)}%`,
+    uploaded: "Uploaded",
+    replaced: "Replaced",
+    skipped: "Skipped",
+    duplicate: "Duplicate",
+    error: "Failed",
+  }[state.status];
+  const tone = state.status === "error"
+    ? "bg-red-500"
+    : state.status === "uploaded" || state.status === "replaced"
+      ? "bg-green-600"
+      : state.status === "skipped" || state.status === "duplicate"
+        ? "bg-gray-600"
+        : "bg-blue-600";
+  return (
+    <span
+      className={`absolute top-2 left-2 px-2 py-0.5 rounded-full text-[10px] font-medium text-white ${tone}`}
+      title={state.error}
+    >
+      {label}
+    </span>
+  );
+}
+
 // Icons
 function UploadIcon() {
   return (
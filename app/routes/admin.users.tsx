@@ -0,0 +1,251 @@
+/**
+ * Admin - Users
+ *
+ * GET /admin/users
+ * Invite admin accounts, change their role, disable them or sign them out
+ * everywhere. Invitations are one-time links shown once to the inviting owner.
+ */
+
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/cloudflare";
+import { json } from "@remix-run/cloudflare";
+import { Form, useActionData, useLoaderData, useNavigation } from "@remix-run/react";
+import { AdminLayout } from "~/components/AdminLayout";
+import { getStorage } from "~/lib/content-engine";
+import { ADMIN_ROLE_LABELS, ADMIN_ROLES, isAdminRole } from "~/lib/admin-roles";
+import {
+  AdminUserError,
+  disableAdminTotp,
+  getAdminCredentials,
+  inviteAdminUser,
+  listAdminUsers,
+  requireAdminAccount,
+  revokeAdminSessions,
+  updateAdminUser,
+} from "~/utils/admin-auth";
+
+export async function loader({ request, context }: LoaderFunctionArgs) {
+  const { username, role } = await requireAdminAccount(request, context, "users");
+  const users = await listAdminUsers(
+    getStorage(context, request),
+    getAdminCredentials(context.cloudflare?.env),
+  );
+  return json({ username, role, users });
+}
+
+interface UsersActionData {
+  success: boolean;
+  message: string;
+  inviteUrl?: string;
+  expiresAt?: string;
+}
+
+export async function action({ request, context }: ActionFunctionArgs) {
+  const { username } = await requireAdminAccount(request, context, "users");
+  const storage = getStorage(context, request);
+  const legacyOwner = getAdminCredentials(context.cloudflare?.env);
+  const formData = await request.formData();
+  const intent = String(formData.get("intent") || "");
+  const target = String(formData.get("username") || "").trim();
+  const role = String(formData.get("role") || "");
+
+  try {
+    switch (intent) {
+      case "invite": {
+        if (!isAdminRole(role)) throw new AdminUserError("Unknown role.");
+        const { token, expiresAt } = await inviteAdminUser(
+          storage,
+          { username: target, role, invitedBy: username || "admin" },
+          legacyOwner,
+        );
+        const inviteUrl = new URL("/admin/invite", request.url);
+        inviteUrl.search = new URLSearchParams({ username: target, token }).toString();
+        return json<UsersActionData>({
+          success: true,
+          message: `Invitation created for ${target}. Share this link; it is shown only once.`,
+          inviteUrl: inviteUrl.toString(),
+          expiresAt,
+        });
+      }
+      case "role":
+        if (!isAdminRole(role)) throw new AdminUserError("Unknown role.");
+        await updateAdminUser(storage, target, { role }, legacyOwner);
+        return json<UsersActionData>({ success: true, message: `${target} is now ${ADMIN_ROLE_LABELS[role]}.` });
+      case "disable":
+      case "enable":
+        await updateAdminUser(storage, target, { disabled: intent === "disable" }, legacyOwner);
+        return json<UsersActionData>({
+          success: true,
+          message: intent === "disable" ? `${target} has been disabled.` : `${target} can sign in again.`,
+        });
+      case "reset-2fa":
+        await disableAdminTotp(storage, target, legacyOwner);
+        return json<UsersActionData>({
+          success: true,
+          message: `Two-factor authentication was removed from ${target}.`,
+        });
+      case "revoke":
+        await revokeAdminSessions(storage, target, legacyOwner);
+        return json<UsersActionData>({ success: true, message: `${target} has been signed out everywhere.` });
+      default:
+        return json<UsersActionData>({ success: false, message: "Unknown action" }, { status: 400 });
+    }
+  } catch (error) {
+    if (error instanceof AdminUserError) {
+      return json<UsersActionData>({ success: false, message: error.message }, { status: 400 });
+    }
+    console.error("[Users] Action failed", error);
+    return json<UsersActionData>({ success: false, message: "Could not update the account" }, { status: 500 });
+  }
+}
+
+const inputClass =
+  "rounded-lg border border-gray-300 bg-white px-3 py-2 text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-gray-900 dark:border-gray-700 dark:bg-gray-900 dark:text-white dark:focus:ring-gray-100";
+const secondaryButtonClass =
+  "rounded-lg border border-gray-300 px-3 py-1.5 text-sm font-semibold text-gray-700 transition-colors hover:bg-gray-50 disabled:opacity-60 dark:border-gray-700 dark:text-gray-300 dark:hover:bg-gray-900";
+
+export default function AdminUsers() {
+  const { username, role, users } = useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const submitting = navigation.state === "submitting";
+
+  return (
+    <AdminLayout username={username || undefined} role={role}>
+      <div className="p-6 lg:p-8 max-w-4xl">
+        <div className="mb-8">
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Users</h1>
+          <p className="mt-1 text-gray-500 dark:text-gray-400">
+            Editors manage content, translators edit other-language editions and
+            newsletter managers handle campaigns. Only owners see this page.
+          </p>
+        </div>
+
+        {actionData && (
+          <div className={`mb-6 rounded-lg px-4 py-3 text-sm ${
+            actionData.success
+              ? "bg-green-50 text-green-700 dark:bg-green-900/20 dark:text-green-400"
+              : "bg-red-50 text-red-700 dark:bg-red-900/20 dark:text-red-400"
+          }`}>
+            <p>{actionData.message}</p>
+            {actionData.inviteUrl && (
+              <>
+                <input
+                  readOnly
+                  value={actionData.inviteUrl}
+                  onFocus={(event) => event.currentTarget.select()}
+                  className={`${inputClass} mt-2 w-full font-mono text-xs`}
+                />
+                <p className="mt-1 text-xs">
+                  Expires {new Date(actionData.expiresAt || "").toLocaleString()}.
+                </p>
+              </>
+            )}
+          </div>
+        )}
+
+        <Form
+          method="post"
+          className="mb-8 flex flex-wrap items-end gap-3 rounded-xl border border-gray-200 bg-white p-5 dark:border-gray-800 dark:bg-gray-950"
+        >
+          <input type="hidden" name="intent" value="invite" />
+          <label className="flex flex-col gap-1 text-sm text-gray-600 dark:text-gray-300">
+            Username
+            <input name="username" required className={inputClass} placeholder="jane" />
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-gray-600 dark:text-gray-300">
+            Role
+            <select name="role" defaultValue="editor" className={inputClass}>
+              {ADMIN_ROLES.map((option) => (
+                <option key={option} value={option}>{ADMIN_ROLE_LABELS[option]}</option>
+              ))}
+            </select>
+          </label>
+          <button
+            type="submit"
+            disabled={submitting}
+            className="rounded-lg bg-gray-900 px-4 py-2 text-sm font-semibold text-white transition-colors hover:bg-gray-700 disabled:opacity-60 dark:bg-gray-100 dark:text-gray-900 dark:hover:bg-white"
+          >
+            Invite
+          </button>
+        </Form>
+
+        <ul className="space-y-3">
+          {users.map((user) => (
+            <li
+              key={user.username}
+              className="flex flex-wrap items-center justify-between gap-4 rounded-xl border border-gray-200 bg-white p-5 dark:border-gray-800 dark:bg-gray-950"
+            >
+              <div>
+                <p className="font-medium text-gray-900 dark:text-white">
+                  {user.username}
+                  {user.username === username && (
+                    <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">(you)</span>
+                  )}
+                </p>
+                <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                  {ADMIN_ROLE_LABELS[user.role]}
+                  {user.twoFactor && " · 2FA"}
+                  {user.disabled && " · disabled"}
+                  {user.pending && user.inviteExpiresAt &&
+                    ` · invited, link expires ${new Date(user.inviteExpiresAt).toLocaleDateString()}`}
+                </p>
+              </div>
+              <div className="flex flex-wrap items-center gap-2">
+                <Form method="post" className="flex gap-2">
+                  <input type="hidden" name="intent" value="role" />
+                  <input type="hidden" name="username" value={user.username} />
+                  <select name="role" defaultValue={user.role} className={inputClass}>
+                    {ADMIN_ROLES.map((option) => (
+                      <option key={option} value={option}>{ADMIN_ROLE_LABELS[option]}</option>
+                    ))}
+                  </select>
+                  <button type="submit" disabled={submitting} className={secondaryButtonClass}>
+                    Save
+                  </button>
+                </Form>
+                <Form method="post">
+                  <input type="hidden" name="username" value={user.username} />
+                  <button
+                    type="submit"
+                    name="intent"
+                    value="revoke"
+                    disabled={submitting || user.pending}
+                    className={secondaryButtonClass}
+                  >
+                    Sign out everywhere
+                  </button>
+                </Form>
+                {user.twoFactor && (
+                  <Form method="post">
+                    <input type="hidden" name="username" value={user.username} />
+                    <button
+                      type="submit"
+                      name="intent"
+                      value="reset-2fa"
+                      disabled={submitting}
+                      className={secondaryButtonClass}
+                    >
+                      Reset 2FA
+                    </button>
+                  </Form>
+                )}
+                <Form method="post">
+                  <input type="hidden" name="username" value={user.username} />
+                  <button
+                    type="submit"
+                    name="intent"
+                    value={user.disabled ? "enable" : "disable"}
+                    disabled={submitting}
+                    className={secondaryButtonClass}
+                  >
+                    {user.disabled ? "Enable" : "Disable"}
+                  </button>
+                </Form>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </AdminLayout>
+  );
+}
@@ -4,7 +4,7 @@ import { getPhotoAiMap } from "~/lib/ai/photo-ai-service.server";
 import { checkAdminAuth } from "~/utils/admin-auth";
 
 export async function loader({ request, context }: LoaderFunctionArgs) {
-  await checkAdminAuth(request, context);
+  await checkAdminAuth(request, context, "content");
   try {
     return json(await getPhotoAiMap(context));
   } catch (error) {
@@ -2,11 +2,21 @@ import { json } from "@remix-run/cloudflare";
 import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/cloudflare";
 import {
   getPhotoAiDashboard,
+  getPhotoAltTextSuggestions,
   processPhotoAiJobBatch,
+  reclusterPhotoFaces,
   retryPhotoAiAsset,
+  reviewPhotoAltText,
   reviewPhotoGallerySuggestion,
   startPhotoAiJob,
+  updatePhotoPersonByAdmin,
 } from "~/lib/ai/photo-ai-service.server";
+import {
+  applyGalleryRules,
+  getGalleryRulesDashboard,
+  saveGalleryRule,
+  undoGalleryRuleDecision,
+} from "~/lib/ai/gallery-rules.server";
 import { checkAdminAuth } from "~/utils/admin-auth";
 import { assignPhotosToGalleryInIndex, getStorage } from "~/lib/content-engine";
 import { enqueuePhotoMetadataWritebacks } from "~/lib/ai/photo-metadata-writeback.server";
@@ -19,7 +29,7 @@ function errorResponse(error: unknown) {
 }
 
 export async function loader({ request, context }: LoaderFunctionArgs) {
-  await checkAdminAuth(request, context);
+  await checkAdminAuth(request, context, "content");
   try {
     return json(await getPhotoAiDashboard(context));
   } catch (error) {
@@ -28,7 +38,7 @@ export async function loader({ request, context }: LoaderFunctionArgs) {
 }
 
 export async function action({ request, context }: ActionFunctionArgs) {
-  await checkAdminAuth(request, context);
+  await checkAdminAuth(request, context, "content");
   const formData = await request.formData();
   const actionType = String(formData.get("action") ?? "status");
 
@@ -53,9 +63,14 @@ export async function action({ request, context }: ActionFunctionArgs) {
       return json({
         success: true,
         ...result,
-        message: result.done
-          ? "Photo analysis finished."
-          : `Processed ${result.processed} photos; ${result.remaining} remain.`,
+        message: [
+          result.done
+            ? "Photo analysis finished."
+            : `Processed ${result.processed} photos; ${result.remaining} remain.`,
+          result.autoAccepted > 0
+            ? `Gallery rules accepted ${result.autoAccepted} suggestion${result.autoAccepted === 1 ? "" : "s"}.`
+            : "",
+        ].filter(Boolean).join(" "),
       });
     }
 
@@ -82,6 +97,98 @@ export async function action({ request, context }: ActionFunctionArgs) {
       });
     }
 
+    if (actionType === "alt-text") {
+      const photoPath = String(formData.get("photoPath") ?? "").trim();
+      if (!photoPath) return json({ success: false, error: "Missing photoPath" }, { status: 400 });
+      return json({ success: true, altText: await getPhotoAltTextSuggestions(context, photoPath) });
+    }
+
+    if (actionType === "review-alt-text") {
+      const photoPath = String(formData.get("photoPath") ?? "").trim();
+      const locale = String(formData.get("locale") ?? "").trim();
+      const decision = String(formData.get("decision") ?? "");
+      // Approval goes through the photo editor, which also saves the text.
+      if (!photoPath || !locale || decision !== "rejected") {
+        return json({ success: false, error: "Invalid alt text review" }, { status: 400 });
+      }
+      await reviewPhotoAltText(context, photoPath, locale, decision);
+      return json({ success: true, message: "Alt text suggestion dismissed." });
+    }
+
+    if (actionType === "gallery-rules") {
+      return json({ success: true, ...(await getGalleryRulesDashboard(context)) });
+    }
+
+    if (actionType === "save-gallery-rule") {
+      const gallerySlug = String(formData.get("gallerySlug") ?? "").trim();
+      if (!gallerySlug) return json({ success: false, error: "Missing gallerySlug" }, { status: 400 });
+      const list = (name: string) =>
+        String(formData.get(name) ?? "").split(",").map((value) => value.trim()).filter(Boolean);
+      const rule = await saveGalleryRule(context, {
+        gallerySlug,
+        enabled: formData.get("enabled") === "true",
+        minConfidence: formData.has("minConfidence") ? Number(formData.get("minConfidence")) : undefined,
+        requiredTags: list("requiredTags"),
+        excludedTerms: list("excludedTerms"),
+        useHintExclusions: formData.get("useHintExclusions") === "true",
+      });
+      return json({
+        success: true,
+        rule,
+        message: rule.enabled ? "Gallery rule saved." : "Gallery rule saved and paused.",
+      });
+    }
+
+    if (actionType === "preview-gallery-rules" || actionType === "apply-gallery-rules") {
+      const dryRun = actionType === "preview-gallery-rules";
+      const run = await applyGalleryRules(context, { dryRun });
+      const count = run.accepted.length;
+      return json({
+        success: true,
+        ...run,
+        message: dryRun
+          ? `The rules would accept ${count} suggestion${count === 1 ? "" : "s"}.`
+          : `Accepted ${count} suggestion${count === 1 ? "" : "s"}${
+            run.errors.length > 0 ? `; ${run.errors.length} could not be added` : ""
+          }.`,
+      });
+    }
+
+    if (actionType === "undo-gallery-rule") {
+      const decisionId = String(formData.get("decisionId") ?? "").trim();
+      if (!decisionId) return json({ success: false, error: "Missing decisionId" }, { status: 400 });
+      await undoGalleryRuleDecision(context, decisionId);
+      return json({ success: true, message: "Automatic assignment undone." });
+    }
+
+    if (actionType === "recluster-faces") {
+      const result = await reclusterPhotoFaces(context);
+      return json({
+        success: true,
+        ...result,
+        message: `Grouped faces into ${result.people} people.`,
+      });
+    }
+
+    if (actionType === "update-person") {
+      const personId = String(formData.get("personId") ?? "").trim();
+      if (!personId) return json({ success: false, error: "Missing personId" }, { status: 400 });
+      const flag = (name: string) =>
+        formData.has(name) ? formData.get(name) === "true" : undefined;
+      const person = await updatePhotoPersonByAdmin(context, personId, {
+        name: formData.has("name") ? String(formData.get("name")) : undefined,
+        suppressed: flag("suppressed"),
+        public: flag("public"),
+      });
+      return json({
+        success: true,
+        personId: person.personId,
+        message: person.personId === personId
+          ? "Person updated."
+          : `Merged into ${person.name ?? "an existing person"}.`,
+      });
+    }
+
     if (actionType === "assign-gallery") {
       const gallerySlug = String(formData.get("gallerySlug") ?? "").trim();
       const photoPaths = formData.getAll("photoPaths").map((value) => String(value));
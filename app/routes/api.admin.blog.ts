@@ -10,16 +10,22 @@ import { json } from "@remix-run/cloudflare";
 import matter from "gray-matter";
 import * as yaml from "yaml";
 
-import { checkAdminAuth } from "~/utils/admin-auth";
+import { adminForbidden, requireAdminAccount } from "~/utils/admin-auth";
+import { roleCan } from "~/lib/admin-roles";
 import {
   getStorage,
+  publicationWindowError,
   removePostFromIndex,
+  revisionPathsInFolder,
   scanBlog,
+  scheduleIso,
   updatePostInIndex,
+  withContentRevision,
 } from "~/lib/content-engine";
 import {
   normalizeLocale,
-  SUPPORTED_LOCALES,
+  submittedLocales,
+  translatedEditionsOnly,
   type Locale,
 } from "~/lib/i18n";
 import { normalizeBlogCategories } from "~/lib/blog-categories";
@@ -33,14 +39,26 @@ type EditionInput = {
 };
 
 export async function action({ request, context }: ActionFunctionArgs) {
-  await checkAdminAuth(request, context);
+  const account = await requireAdminAccount(request, context, "translations");
+  const author = account.username || "admin";
   const formData = await request.formData();
+  // Translators may only update the translated editions of a post.
+  const canEditContent = roleCan(account.role, "content");
+  if (!canEditContent && formData.get("action") !== "update") return adminForbidden();
+
+  const scheduleError = publicationWindowError(
+    text(formData, "publishAt"),
+    text(formData, "unpublishAt"),
+  );
+  if (scheduleError) {
+    return json({ success: false, error: scheduleError }, { status: 400 });
+  }
 
   switch (formData.get("action")) {
     case "create":
-      return handleCreate(formData, context);
+      return handleCreate(formData, context, author);
     case "update":
-      return handleUpdate(formData, context);
+      return handleUpdate(formData, context, author, !canEditContent);
     case "delete":
       return handleDelete(formData, context);
     default:
@@ -88,11 +106,35 @@ function sharedFrontmatter(formData: FormData, existing: Record<string, unknown>
   if (categories.length > 0) next.categories = categories;
   else delete next.categories;
   if (formData.get("draft") !== null) next.draft = formData.get("draft") === "true";
+  // Absent fields keep the stored schedule; an empty value clears it.
+  for (const key of ["publishAt", "unpublishAt"] as const) {
+    const value = formData.get(key) === null
+      ? scheduleIso(next[key] as Date | string | undefined)
+      : scheduleIso(text(formData, key));
+    if (value) next[key] = value;
+    else delete next[key];
+  }
+  if (formData.get("newsletter") !== null) {
+    if (formData.get("newsletter") === "true") next.newsletter = true;
+    else delete next.newsletter;
+  }
   next.format = "markdown";
 
   return next;
 }
 
+/** Stored frontmatter with gray-matter's Date values back in their written form. */
+function storedFrontmatter(data: Record<string, unknown>) {
+  const next = { ...data };
+  if (next.date instanceof Date) next.date = next.date.toISOString().slice(0, 10);
+  for (const key of ["publishAt", "unpublishAt"] as const) {
+    const value = scheduleIso(next[key] as Date | string | undefined);
+    if (value) next[key] = value;
+    else delete next[key];
+  }
+  return next;
+}
+
 function serializeEdition(
   shared: Record<string, unknown>,
   slug: string,
@@ -128,13 +170,15 @@ async function writeEditions(
 ) {
   const storage = getStorage(context);
   const postPath = `blog/${slug}`;
+  const editionFields = submittedLocales(formData, ["title", "content"]);
+  const locales = editionFields.includes(sourceLocale)
+    ? editionFields
+    : [sourceLocale, ...editionFields];
   const localizedEditions = Object.fromEntries(
-    SUPPORTED_LOCALES.map((locale) => [locale, edition(formData, locale)]),
+    locales.map((locale) => [locale, edition(formData, locale)]),
   ) as Record<Locale, EditionInput>;
 
-  const hasBilingualFields = SUPPORTED_LOCALES.some((locale) =>
-    formData.has(`title_${locale}`) || formData.has(`content_${locale}`),
-  );
+  const hasBilingualFields = editionFields.length > 0;
   if (!hasBilingualFields) localizedEditions[sourceLocale] = legacyEdition(formData);
   if (!localizedEditions[sourceLocale].title && fallbackSource) {
     localizedEditions[sourceLocale] = fallbackSource;
@@ -149,7 +193,7 @@ async function writeEditions(
     "text/markdown; charset=utf-8",
   );
 
-  for (const locale of SUPPORTED_LOCALES) {
+  for (const locale of locales) {
     const variantPath = `${postPath}/index.${locale}.md`;
     if (locale === sourceLocale) {
       if (await storage.exists(variantPath)) await storage.delete(variantPath);
@@ -171,7 +215,11 @@ async function writeEditions(
   }
 }
 
-async function handleCreate(formData: FormData, context: BlogActionContext) {
+async function handleCreate(
+  formData: FormData,
+  context: BlogActionContext,
+  author: string,
+) {
   const slug = text(formData, "slug");
   const sourceLocale = normalizeLocale(formData.get("sourceLocale")) || "es";
   const source = edition(formData, sourceLocale);
@@ -202,16 +250,30 @@ async function handleCreate(formData: FormData, context: BlogActionContext) {
     draft: formData.get("draft") === null ? true : formData.get("draft") === "true",
   });
 
-  await writeEditions(formData, context, slug, sourceLocale, shared, legacy);
+  await withContentRevision(
+    storage,
+    {
+      targets: [{ kind: "post", id: slug }],
+      action: "create",
+      author,
+      paths: () => revisionPathsInFolder(storage, `blog/${slug}`),
+    },
+    () => writeEditions(formData, context, slug, sourceLocale, shared, legacy),
+  );
   await updateIndex(context, slug);
 
   return json({ success: true, message: "Blog post created", slug });
 }
 
-async function handleUpdate(formData: FormData, context: BlogActionContext) {
-  const slug = text(formData, "slug");
-  const categories = normalizeBlogCategories(text(formData, "categories"));
-  if (!slug || categories.length === 0) {
+async function handleUpdate(
+  submitted: FormData,
+  context: BlogActionContext,
+  author: string,
+  translationsOnly = false,
+) {
+  const slug = text(submitted, "slug");
+  const categories = normalizeBlogCategories(text(submitted, "categories"));
+  if (!slug || (!translationsOnly && categories.length === 0)) {
     return json(
       { success: false, error: "Slug and at least one category are required" },
       { status: 400 },
@@ -226,6 +288,9 @@ async function handleUpdate(formData: FormData, context: BlogActionContext) {
   }
 
   const parsed = matter(existingContent);
+  const formData = translationsOnly
+    ? translatedEditionsOnly(submitted, normalizeLocale(parsed.data.locale) || "es", [])
+    : submitted;
   const sourceLocale =
     normalizeLocale(formData.get("sourceLocale")) ||
     normalizeLocale(parsed.data.locale) ||
@@ -235,9 +300,20 @@ async function handleUpdate(formData: FormData, context: BlogActionContext) {
     description: String(parsed.data.description || ""),
     content: parsed.content.trim(),
   };
-  const shared = sharedFrontmatter(formData, parsed.data as Record<string, unknown>);
-
-  await writeEditions(formData, context, slug, sourceLocale, shared, fallbackSource);
+  const shared = translationsOnly
+    ? storedFrontmatter(parsed.data as Record<string, unknown>)
+    : sharedFrontmatter(formData, parsed.data as Record<string, unknown>);
+
+  await withContentRevision(
+    storage,
+    {
+      targets: [{ kind: "post", id: slug }],
+      action: "update",
+      author,
+      paths: () => revisionPathsInFolder(storage, `blog/${slug}`),
+    },
+    () => writeEditions(formData, context, slug, sourceLocale, shared, fallbackSource),
+  );
   await updateIndex(context, slug);
 
   return json({ success: true, message: "Blog post updated", slug });
@@ -0,0 +1,46 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/cloudflare";
+import { json } from "@remix-run/cloudflare";
+import {
+  getDuplicateReport,
+  scanPhotoPerceptualHashes,
+} from "~/lib/ai/duplicate-report.server";
+import { checkAdminAuth } from "~/utils/admin-auth";
+
+const SCAN_BATCH_SIZE = 12;
+
+export async function loader({ request, context }: LoaderFunctionArgs) {
+  await checkAdminAuth(request, context, "content");
+  try {
+    return json(await getDuplicateReport(context));
+  } catch (error) {
+    console.error("[Duplicates]", error);
+    return json({
+      error: error instanceof Error ? error.message : "Duplicate report failed",
+    }, { status: 500 });
+  }
+}
+
+export async function action({ request, context }: ActionFunctionArgs) {
+  await checkAdminAuth(request, context, "content");
+  const formData = await request.formData();
+  const actionType = String(formData.get("action") ?? "scan-batch");
+
+  try {
+    if (actionType === "scan-batch") {
+      const offsetValue = Number(formData.get("offset") ?? 0);
+      const offset = Number.isSafeInteger(offsetValue) && offsetValue >= 0 ? offsetValue : 0;
+      return json({
+        success: true,
+        ...await scanPhotoPerceptualHashes(context, offset, SCAN_BATCH_SIZE),
+      });
+    }
+
+    return json({ success: false, error: "Unknown duplicates action" }, { status: 400 });
+  } catch (error) {
+    console.error("[Duplicates]", error);
+    return json({
+      success: false,
+      error: error instanceof Error ? error.message : "Duplicate scan failed",
+    }, { status: 500 });
+  }
+}
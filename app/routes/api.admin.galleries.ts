@@ -9,7 +9,8 @@
 
 import type { ActionFunctionArgs } from "@remix-run/cloudflare";
 import { json } from "@remix-run/cloudflare";
-import { checkAdminAuth } from "~/utils/admin-auth";
+import { adminForbidden, requireAdminAccount } from "~/utils/admin-auth";
+import { roleCan } from "~/lib/admin-roles";
 import {
   getContentIndex,
   getStorage,
@@ -17,8 +18,16 @@ import {
   moveGalleryMemberships,
   moveGalleryOrderPaths,
   updateGalleryMetadataInIndex,
+  galleryMetadataIndexUpdates,
+  withContentRevision,
   isGalleryThumbnailAspectRatio,
-  normalizeGalleryThumbnailAspectRatio,
+  isGalleryDownloadSize,
+  normalizeGalleryDownloadPolicy,
+  serializeGalleryDownloadPolicy,
+  publicationWindowError,
+  scheduleIso,
+  type GalleryDownloadPolicy,
+  type GalleryDownloadSize,
   type GalleryThumbnailAspectRatio,
 } from "~/lib/content-engine";
 import { enqueuePhotoMetadataWritebacks } from "~/lib/ai/photo-metadata-writeback.server";
@@ -27,8 +36,9 @@ import {
   removePhotoAiProjectionsByPaths,
 } from "~/lib/ai/photo-ai-service.server";
 import { movePhotoMetadata } from "~/lib/content-engine/photo-metadata-store";
+import { movePhotoRendition } from "~/lib/content-engine/photo-renditions";
 import * as yaml from "yaml";
-import { normalizeLocale, type Locale } from "~/lib/i18n";
+import { normalizeLocale, translatedEditionsOnly, type Locale } from "~/lib/i18n";
 
 interface GalleryMetadata {
   title?: string;
@@ -39,24 +49,32 @@ interface GalleryMetadata {
   tags?: string[];
   order?: number;
   private?: boolean;
+  hideExactLocation?: boolean;
   password?: string;
   includeNestedPhotos?: boolean;
+  publishAt?: string;
+  unpublishAt?: string;
   locale?: Locale;
   translations?: Partial<Record<Locale, { title?: string; description?: string }>>;
   thumbnailAspectRatio?: GalleryThumbnailAspectRatio;
+  downloads?: GalleryDownloadSize | GalleryDownloadPolicy;
 }
 
 export async function action({ request, context }: ActionFunctionArgs) {
-  await checkAdminAuth(request, context);
+  const account = await requireAdminAccount(request, context, "translations");
+  const author = account.username || "admin";
   
   const formData = await request.formData();
   const actionType = formData.get("action") as string;
+  // Translators may only update the translated editions of a gallery.
+  const canEditContent = roleCan(account.role, "content");
+  if (!canEditContent && actionType !== "update") return adminForbidden();
   
   switch (actionType) {
     case "create":
-      return handleCreate(formData, context);
+      return handleCreate(formData, context, author);
     case "update":
-      return handleUpdate(formData, context);
+      return handleUpdate(formData, context, author, !canEditContent);
     case "delete":
       return handleDelete(formData, context);
     case "move":
@@ -73,7 +91,8 @@ export async function action({ request, context }: ActionFunctionArgs) {
  */
 async function handleCreate(
   formData: FormData, 
-  context: ActionFunctionArgs["context"]
+  context: ActionFunctionArgs["context"],
+  author: string,
 ) {
   const slug = formData.get("slug") as string;
   const title = formData.get("title") as string;
@@ -128,7 +147,16 @@ async function handleCreate(
   };
   
   const yamlContent = yaml.stringify(metadata);
-  await storage.put(`${galleryPath}/gallery.yaml`, yamlContent);
+  await withContentRevision(
+    storage,
+    {
+      targets: [{ kind: "gallery", id: galleryPath }],
+      action: "create",
+      author,
+      paths: [`${galleryPath}/gallery.yaml`],
+    },
+    () => storage.put(`${galleryPath}/gallery.yaml`, yamlContent),
+  );
   
   // Invalidate content index
   await invalidateContentIndex(storage);
@@ -147,10 +175,12 @@ async function handleCreate(
  * Update gallery metadata
  */
 async function handleUpdate(
-  formData: FormData,
-  context: ActionFunctionArgs["context"]
+  submitted: FormData,
+  context: ActionFunctionArgs["context"],
+  author: string,
+  translationsOnly = false,
 ) {
-  const slug = formData.get("slug") as string;
+  const slug = submitted.get("slug") as string;
   
   if (!slug) {
     return json({ success: false, error: "Gallery slug is required" }, { status: 400 });
@@ -170,6 +200,9 @@ async function handleUpdate(
       // Invalid YAML, start fresh
     }
   }
+  const formData = translationsOnly
+    ? translatedEditionsOnly(submitted, normalizeLocale(existingMetadata.locale) || "en", ["slug"])
+    : submitted;
   
   // Parse update fields from form data
   const updateFields: Record<string, unknown> = {};
@@ -177,15 +210,38 @@ async function handleUpdate(
     ...(existingMetadata.translations || {}),
   } as NonNullable<GalleryMetadata["translations"]>;
   let localizedFieldsSubmitted = false;
+  // `downloads` and `downloadWatermark` arrive separately but form one policy.
+  const downloadPolicy = normalizeGalleryDownloadPolicy(existingMetadata.downloads);
   const sourceLocale =
     normalizeLocale(formData.get("sourceLocale")) ||
     normalizeLocale(existingMetadata.locale) ||
     "en";
+  if (translationsOnly && !translations[sourceLocale] && existingMetadata.title) {
+    // Galleries written before translations only carry a flat title.
+    translations[sourceLocale] = {
+      title: existingMetadata.title,
+      description: existingMetadata.description,
+    };
+  }
+
+  if (formData.has("publishAt") || formData.has("unpublishAt")) {
+    const scheduleValue = (key: "publishAt" | "unpublishAt") =>
+      formData.has(key)
+        ? String(formData.get(key) || "").trim()
+        : scheduleIso(existingMetadata[key]) || "";
+    const scheduleError = publicationWindowError(
+      scheduleValue("publishAt"),
+      scheduleValue("unpublishAt"),
+    );
+    if (scheduleError) {
+      return json({ success: false, error: scheduleError }, { status: 400 });
+    }
+  }
   
   for (const [key, value] of formData.entries()) {
     if (key === "action" || key === "slug" || key === "sourceLocale") continue;
 
-    const localizedField = key.match(/^(title|description)_(es|en)$/);
+    const localizedField = key.match(/^(title|description)_([a-z]{2})$/);
     if (localizedField) {
       localizedFieldsSubmitted = true;
       const field = localizedField[1] as "title" | "description";
@@ -215,7 +271,7 @@ async function handleUpdate(
     } else if (key === "classificationHint") {
       const hint = (value as string).trim();
       updateFields[key] = hint ? hint.slice(0, 1_500) : undefined;
-    } else if (key === "private" || key === "includeNestedPhotos") {
+    } else if (key === "private" || key === "includeNestedPhotos" || key === "hideExactLocation") {
       updateFields[key] = value === "true";
     } else if (key === "thumbnailAspectRatio") {
       if (!isGalleryThumbnailAspectRatio(value)) {
@@ -225,6 +281,18 @@ async function handleUpdate(
         );
       }
       updateFields[key] = value;
+    } else if (key === "downloads") {
+      if (!isGalleryDownloadSize(value)) {
+        return json(
+          { success: false, error: "Invalid gallery download policy" },
+          { status: 400 },
+        );
+      }
+      downloadPolicy.size = value;
+    } else if (key === "downloadWatermark") {
+      downloadPolicy.watermark = value === "true";
+    } else if (key === "publishAt" || key === "unpublishAt") {
+      updateFields[key] = scheduleIso(String(value).trim());
     } else if (value === "" || value === "null") {
       // Remove field if empty
       updateFields[key] = undefined;
@@ -233,6 +301,10 @@ async function handleUpdate(
     }
   }
   
+  if (formData.has("downloads") || formData.has("downloadWatermark")) {
+    updateFields.downloads = serializeGalleryDownloadPolicy(downloadPolicy);
+  }
+  
   // Merge with existing metadata
   const newMetadata: Record<string, unknown> = { ...existingMetadata };
   
@@ -261,27 +333,23 @@ async function handleUpdate(
   
   // Write updated YAML
   const yamlContent = yaml.stringify(newMetadata);
-  await storage.put(yamlPath, yamlContent);
+  await withContentRevision(
+    storage,
+    {
+      targets: [{ kind: "gallery", id: galleryPath }],
+      action: "update",
+      author,
+      paths: [yamlPath],
+    },
+    () => storage.put(yamlPath, yamlContent),
+  );
   
   // Fast index update - only update this gallery's metadata, don't rebuild everything
-  const indexResult = await updateGalleryMetadataInIndex(storage, galleryPath, {
-    title: newMetadata.title as string | undefined,
-    description: newMetadata.description as string | undefined,
-    classificationHint:
-      typeof newMetadata.classificationHint === "string"
-        ? newMetadata.classificationHint
-        : "",
-    order: newMetadata.order as number | undefined,
-    private: newMetadata.private as boolean | undefined,
-    password: newMetadata.password as string | undefined,
-    tags: newMetadata.tags as string[] | undefined,
-    includeNestedPhotos: newMetadata.includeNestedPhotos as boolean | undefined,
-    locale: sourceLocale,
-    translations: translations,
-    thumbnailAspectRatio: normalizeGalleryThumbnailAspectRatio(
-      newMetadata.thumbnailAspectRatio,
-    ),
-  });
+  const indexResult = await updateGalleryMetadataInIndex(
+    storage,
+    galleryPath,
+    galleryMetadataIndexUpdates(newMetadata),
+  );
   
   console.log(`[Gallery Update] ${slug}: ${indexResult.message}`);
 
@@ -410,6 +478,11 @@ async function handleMove(
     } catch (error) {
       console.warn(`[Metadata] Failed to move sidecar for ${move.from}`, error);
     }
+    try {
+      await movePhotoRendition(storage, move.from, move.to);
+    } catch (error) {
+      console.warn(`[Rendition] Failed to move rendition for ${move.from}`, error);
+    }
   }
   
   // Update gallery.yaml slug if present
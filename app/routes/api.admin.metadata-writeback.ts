@@ -11,12 +11,12 @@ import { checkAdminAuth } from "~/utils/admin-auth";
 const BACKFILL_BATCH_SIZE = 12;
 
 export async function loader({ request, context }: LoaderFunctionArgs) {
-  await checkAdminAuth(request, context);
+  await checkAdminAuth(request, context, "content");
   return json(await getPhotoMetadataWritebackStatus(context));
 }
 
 export async function action({ request, context }: ActionFunctionArgs) {
-  await checkAdminAuth(request, context);
+  await checkAdminAuth(request, context, "content");
   const formData = await request.formData();
   const actionType = String(formData.get("action") ?? "process-batch");
 
@@ -15,12 +15,27 @@
 import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/cloudflare";
 import { json } from "@remix-run/cloudflare";
 import { checkAdminAuth } from "~/utils/admin-auth";
-import { getStorage, getContentIndex } from "~/lib/content-engine";
+import {
+  getStorage,
+  getContentIndex,
+  readPhotoAnalysisImage,
+  usesPhotoRendition,
+} from "~/lib/content-engine";
+import { createWatermarkResolver, getWatermarkForImage } from "~/lib/watermark.server";
 
 // Helper functions that don't need Jimp
 function isImageFile(filename: string): boolean {
   const ext = filename.toLowerCase().split(".").pop();
-  return ["jpg", "jpeg", "png", "webp", "gif"].includes(ext || "");
+  return ["jpg", "jpeg", "png", "webp", "gif"].includes(ext || "") || usesPhotoRendition(filename);
+}
+
+/** HEIC, AVIF and RAW originals are resized from their JPEG rendition. */
+async function readOptimizationSource(
+  storage: ReturnType<typeof getStorage>,
+  imagePath: string,
+): Promise<ArrayBuffer | null> {
+  if (!usesPhotoRendition(imagePath)) return storage.get(imagePath);
+  return (await readPhotoAnalysisImage(storage, imagePath))?.bytes ?? null;
 }
 
 function isVariantFile(filename: string): boolean {
@@ -171,7 +186,7 @@ async function clearProgressCounter(storage: ReturnType<typeof getStorage>): Pro
  * 3. Fallback to 0% if no data
  */
 export async function loader({ request, context }: LoaderFunctionArgs) {
-  await checkAdminAuth(request, context);
+  await checkAdminAuth(request, context, "content");
   
   const storage = getStorage(context);
   
@@ -242,7 +257,7 @@ export async function loader({ request, context }: LoaderFunctionArgs) {
  * POST - Run optimization
  */
 export async function action({ request, context }: ActionFunctionArgs) {
-  await checkAdminAuth(request, context);
+  await checkAdminAuth(request, context, "content");
   
   const formData = await request.formData();
   const actionType = formData.get("action") as string;
@@ -306,6 +321,7 @@ async function handleOptimizeBatch(
 ) {
   const { processImageServer } = await import("~/lib/image-optimizer.server");
   const storage = getStorage(context);
+  const resolveWatermark = createWatermarkResolver(storage);
   
   const offset = parseInt(formData.get("offset") as string || "0", 10);
   const limit = parseInt(formData.get("limit") as string || String(MAX_IMAGES_PER_REQUEST), 10);
@@ -387,7 +403,7 @@ async function handleOptimizeBatch(
     
     // Process the image
     try {
-      const imageData = await storage.get(imagePath);
+      const imageData = await readOptimizationSource(storage, imagePath);
       if (!imageData) {
         failed++;
         currentProgress++;
@@ -396,7 +412,7 @@ async function handleOptimizeBatch(
         continue;
       }
       
-      const result = await processImageServer(imageData, filename);
+      const result = await processImageServer(imageData, filename, await resolveWatermark(imagePath));
       
       // Save variants and track sizes
       const variantSizes: { width: number; size: number }[] = [];
@@ -576,6 +592,7 @@ async function handleOptimizeAll(
   const { processImageServer } = await import("~/lib/image-optimizer.server");
   
   const storage = getStorage(context);
+  const resolveWatermark = createWatermarkResolver(storage);
   const contentIndex = await getContentIndex(storage);
   
   // Collect all images to process
@@ -621,13 +638,13 @@ async function handleOptimizeAll(
     const photoPath = `${galleryPath}/${photo.filename}`;
     
     try {
-      const imageData = await storage.get(photoPath);
+      const imageData = await readOptimizationSource(storage, photoPath);
       if (!imageData) {
         failed++;
         return { status: 'failed' as const, reason: 'not found' };
       }
       
-      const result = await processImageServer(imageData, photo.filename);
+      const result = await processImageServer(imageData, photo.filename, await resolveWatermark(photoPath));
       
       // Save variants in parallel
       await Promise.all(result.variants.map(async (variant) => {
@@ -696,6 +713,7 @@ async function handleOptimizeGallery(
   }
   
   const storage = getStorage(context);
+  const resolveWatermark = createWatermarkResolver(storage);
   const galleryPath = `galleries/${gallerySlug}`;
   
   // List all files in the gallery
@@ -722,13 +740,13 @@ async function handleOptimizeGallery(
     const filePath = `${galleryPath}/${filename}`;
     
     try {
-      const imageData = await storage.get(filePath);
+      const imageData = await readOptimizationSource(storage, filePath);
       if (!imageData) {
         failed++;
         continue;
       }
       
-      const result = await processImageServer(imageData, filename);
+      const result = await processImageServer(imageData, filename, await resolveWatermark(filePath));
       
       for (const variant of result.variants) {
         const savePath = `${galleryPath}/${variant.filename}`;
@@ -783,12 +801,13 @@ async function handleOptimizeImage(
   }
   
   try {
-    const imageData = await storage.get(imagePath);
+    const imageData = await readOptimizationSource(storage, imagePath);
     if (!imageData) {
       return json({ success: false, error: "Image not found" }, { status: 404 });
     }
     
-    const result = await processImageServer(imageData, filename);
+    const watermark = await getWatermarkForImage(storage, imagePath);
+    const result = await processImageServer(imageData, filename, watermark);
     
     // Save variants - convert Uint8Array to ArrayBuffer
     let variantsCreated = 0;
@@ -3,9 +3,22 @@ import { json } from "@remix-run/cloudflare";
 import matter from "gray-matter";
 import * as yaml from "yaml";
 
-import { getPageBySlug, getStorage, scanPages, updatePageInIndex } from "~/lib/content-engine";
-import { normalizeLocale, SUPPORTED_LOCALES, type Locale } from "~/lib/i18n";
-import { checkAdminAuth } from "~/utils/admin-auth";
+import {
+  getPageBySlug,
+  getStorage,
+  revisionPathsInFolder,
+  scanPages,
+  updatePageInIndex,
+  withContentRevision,
+} from "~/lib/content-engine";
+import {
+  normalizeLocale,
+  submittedLocales,
+  translatedEditionsOnly,
+  type Locale,
+} from "~/lib/i18n";
+import { roleCan } from "~/lib/admin-roles";
+import { requireAdminAccount } from "~/utils/admin-auth";
 
 function value(formData: FormData, key: string) {
   const raw = formData.get(key);
@@ -13,9 +26,10 @@ function value(formData: FormData, key: string) {
 }
 
 export async function action({ request, context }: ActionFunctionArgs) {
-  await checkAdminAuth(request, context);
-  const formData = await request.formData();
-  const slug = value(formData, "slug");
+  const account = await requireAdminAccount(request, context, "translations");
+  const author = account.username || "admin";
+  const submitted = await request.formData();
+  const slug = value(submitted, "slug");
   if (!/^[a-z0-9-]+$/.test(slug)) {
     return json({ success: false, error: "Invalid page slug" }, { status: 400 });
   }
@@ -23,51 +37,66 @@ export async function action({ request, context }: ActionFunctionArgs) {
   const storage = getStorage(context);
   const page = await getPageBySlug(storage, slug);
   if (!page) return json({ success: false, error: "Page not found" }, { status: 404 });
+  // Translators may only write the translated editions.
+  const formData = roleCan(account.role, "content")
+    ? submitted
+    : translatedEditionsOnly(submitted, normalizeLocale(page.locale) || "en", []);
   const sourceLocale = normalizeLocale(formData.get("sourceLocale")) || normalizeLocale(page.locale) || "en";
   const extension = page.isHtml ? "html" : "md";
   const basePath = `pages/${slug}/index.${extension}`;
   const existing = await storage.getText(basePath);
   const shared = existing?.startsWith("---") ? matter(existing).data : {};
 
-  for (const locale of SUPPORTED_LOCALES) {
-    const title = value(formData, `title_${locale}`);
-    const description = value(formData, `description_${locale}`);
-    const content = value(formData, `content_${locale}`);
-    const path = locale === sourceLocale
-      ? basePath
-      : `pages/${slug}/index.${locale}.${extension}`;
+  await withContentRevision(
+    storage,
+    {
+      targets: [{ kind: "page", id: slug }],
+      action: "update",
+      author,
+      paths: () => revisionPathsInFolder(storage, `pages/${slug}`),
+    },
+    async () => {
+      for (const locale of submittedLocales(formData, ["title", "description", "content"])) {
+        const title = value(formData, `title_${locale}`);
+        const description = value(formData, `description_${locale}`);
+        const content = value(formData, `content_${locale}`);
+        const path = locale === sourceLocale
+          ? basePath
+          : `pages/${slug}/index.${locale}.${extension}`;
 
-    if (!title || !content) {
-      if (locale !== sourceLocale && await storage.exists(path)) await storage.delete(path);
-      continue;
-    }
+        if (!title || !content) {
+          if (locale !== sourceLocale && await storage.exists(path)) await storage.delete(path);
+          continue;
+        }
 
-    const frontmatter: Record<string, unknown> = {
-      ...shared,
-      title,
-      locale,
-    };
-    if (description) frontmatter.description = description;
-    else delete frontmatter.description;
-    await storage.put(
-      path,
-      `---\n${yaml.stringify(frontmatter)}---\n${content}\n`,
-      "text/plain; charset=utf-8",
-    );
-  }
+        const frontmatter: Record<string, unknown> = {
+          ...shared,
+          title,
+          locale,
+        };
+        if (description) frontmatter.description = description;
+        else delete frontmatter.description;
+        await storage.put(
+          path,
+          `---\n${yaml.stringify(frontmatter)}---\n${content}\n`,
+          "text/plain; charset=utf-8",
+        );
+      }
 
-  const pageConfigPath = `pages/${slug}/page.yaml`;
-  let pageConfig: Record<string, unknown> = {};
-  const existingPageConfig = await storage.getText(pageConfigPath);
-  if (existingPageConfig) {
-    try {
-      pageConfig = yaml.parse(existingPageConfig) || {};
-    } catch {
-      pageConfig = {};
-    }
-  }
-  pageConfig.sourceLocale = sourceLocale;
-  await storage.put(pageConfigPath, yaml.stringify(pageConfig), "text/yaml");
+      const pageConfigPath = `pages/${slug}/page.yaml`;
+      let pageConfig: Record<string, unknown> = {};
+      const existingPageConfig = await storage.getText(pageConfigPath);
+      if (existingPageConfig) {
+        try {
+          pageConfig = yaml.parse(existingPageConfig) || {};
+        } catch {
+          pageConfig = {};
+        }
+      }
+      pageConfig.sourceLocale = sourceLocale;
+      await storage.put(pageConfigPath, yaml.stringify(pageConfig), "text/yaml");
+    },
+  );
 
   const updated = (await scanPages(storage)).find((candidate) => candidate.slug === slug);
   if (updated) await updatePageInIndex(storage, updated);
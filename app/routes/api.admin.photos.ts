@@ -10,7 +10,8 @@
 
 import type { ActionFunctionArgs } from "@remix-run/cloudflare";
 import { json } from "@remix-run/cloudflare";
-import { checkAdminAuth } from "~/utils/admin-auth";
+import { adminForbidden, requireAdminAccount } from "~/utils/admin-auth";
+import { roleCan } from "~/lib/admin-roles";
 import { 
   getStorage, 
   invalidateContentIndex,
@@ -20,11 +21,13 @@ import {
   moveGalleryMemberships,
   moveGalleryOrderPaths,
   removeGalleryMembershipsForPhotos,
+  withContentRevision,
   type GalleryPhotoEntry,
 } from "~/lib/content-engine";
 import {
   enqueueUploadedPhotosForAi,
   removePhotoAiProjectionsByPaths,
+  reviewPhotoAltText,
   setPhotoAiVisibilityByPaths,
 } from "~/lib/ai/photo-ai-service.server";
 import {
@@ -35,6 +38,13 @@ import {
   deletePhotoMetadata,
   movePhotoMetadata,
 } from "~/lib/content-engine/photo-metadata-store";
+import {
+  deletePhotoRendition,
+  movePhotoRendition,
+  readPhotoAnalysisImage,
+  usesPhotoRendition,
+} from "~/lib/content-engine/photo-renditions";
+import { getWatermarkForImage } from "~/lib/watermark.server";
 // Helper functions that don't need Jimp
 function isVariantFile(filename: string): boolean {
   return /_\d+w\.webp$/.test(filename);
@@ -52,7 +62,8 @@ function getAllVariantFilenames(originalFilename: string): string[] {
 import * as yaml from "yaml";
 import {
   normalizeLocale,
-  SUPPORTED_LOCALES,
+  submittedLocales,
+  translatedEditionsOnly,
   type Locale,
   type TranslationMap,
 } from "~/lib/i18n";
@@ -85,24 +96,28 @@ async function queueMetadataWriteback(
 }
 
 export async function action({ request, context }: ActionFunctionArgs) {
-  await checkAdminAuth(request, context);
+  const account = await requireAdminAccount(request, context, "translations");
+  const author = account.username || "admin";
   
   const formData = await request.formData();
   const actionType = formData.get("action") as string;
+  // Translators may only update the translated editions of a photo.
+  const canEditContent = roleCan(account.role, "content");
+  if (!canEditContent && actionType !== "update") return adminForbidden();
   
   switch (actionType) {
     case "delete":
       return handleDelete(formData, context);
     case "update":
-      return handleUpdate(formData, context);
+      return handleUpdate(formData, context, author, !canEditContent);
     case "move":
       return handleMove(formData, context);
     case "reorder":
       return handleReorder(formData, context);
     case "toggle-visibility":
-      return handleToggleVisibility(formData, context);
+      return handleToggleVisibility(formData, context, author);
     case "bulk-update":
-      return handleBulkUpdate(formData, context);
+      return handleBulkUpdate(formData, context, author);
     case "get-variants":
       return handleGetVariants(formData, context);
     case "delete-variants":
@@ -151,6 +166,11 @@ async function handleDelete(
       } catch (error) {
         console.warn(`[Metadata] Failed to delete sidecar for ${photoPath}:`, error);
       }
+      try {
+        await deletePhotoRendition(storage, photoPath);
+      } catch (error) {
+        console.warn(`[Rendition] Failed to delete rendition for ${photoPath}:`, error);
+      }
       
       // Delete WebP variants (photo_400w.webp, photo_800w.webp, etc.)
       const filename = photoPath.split("/").pop()!;
@@ -220,12 +240,14 @@ async function handleDelete(
  * Update photo metadata
  */
 async function handleUpdate(
-  formData: FormData,
-  context: ActionFunctionArgs["context"]
+  submitted: FormData,
+  context: ActionFunctionArgs["context"],
+  author: string,
+  translationsOnly = false,
 ) {
-  const galleryPath = formData.get("galleryPath") as string;
-  const photoPath = formData.get("photoPath") as string;
-  const filename = formData.get("filename") as string;
+  const galleryPath = submitted.get("galleryPath") as string;
+  const photoPath = submitted.get("photoPath") as string;
+  const filename = submitted.get("filename") as string;
   
   if (!galleryPath || !photoPath || !filename) {
     return json({ 
@@ -235,6 +257,12 @@ async function handleUpdate(
   }
   
   const storage = getStorage(context);
+  const stored = translationsOnly
+    ? await readPhotoFromYaml(storage, galleryPath, filename)
+    : undefined;
+  const formData = translationsOnly
+    ? translatedEditionsOnly(submitted, normalizeLocale(stored?.locale) || "en", ["altTextApproved"])
+    : submitted;
   
   // Parse update fields
   const updates: Partial<PhotoMetadata> = {};
@@ -250,10 +278,17 @@ async function handleUpdate(
   const localizedMetadataSubmitted = formData.get("sourceLocale") !== null;
   const translations: TranslationMap<PhotoTranslation> = {};
 
-  for (const locale of SUPPORTED_LOCALES) {
+  const editionLocales = submittedLocales(formData, ["title", "description", "alt"]);
+
+  for (const locale of editionLocales) {
     const localizedTitle = formData.get(`title_${locale}`);
     const localizedDescription = formData.get(`description_${locale}`);
-    if (typeof localizedTitle !== "string" && typeof localizedDescription !== "string") continue;
+    const localizedAlt = formData.get(`alt_${locale}`);
+    if (
+      typeof localizedTitle !== "string" &&
+      typeof localizedDescription !== "string" &&
+      typeof localizedAlt !== "string"
+    ) continue;
     const edition: PhotoTranslation = {};
     if (typeof localizedTitle === "string" && localizedTitle.trim()) {
       edition.title = localizedTitle.trim();
@@ -261,7 +296,10 @@ async function handleUpdate(
     if (typeof localizedDescription === "string" && localizedDescription.trim()) {
       edition.description = localizedDescription.trim();
     }
-    if (edition.title || edition.description) translations[locale] = edition;
+    if (typeof localizedAlt === "string" && localizedAlt.trim()) {
+      edition.alt = localizedAlt.replace(/\s+/g, " ").trim();
+    }
+    if (edition.title || edition.description || edition.alt) translations[locale] = edition;
   }
   
   if (title !== null) updates.title = title || undefined;
@@ -277,7 +315,15 @@ async function handleUpdate(
   if (hidden !== null) updates.hidden = hidden === "true";
   if (featured !== null) updates.featured = featured === "true";
   if (date !== null) updates.date = date || undefined;
-  if (Object.keys(translations).length > 0 || localizedMetadataSubmitted) {
+  if (translationsOnly) {
+    // Keep the stored source edition; replace only the submitted editions.
+    const merged = { ...(stored?.translations || {}) };
+    for (const locale of editionLocales) {
+      if (translations[locale]) merged[locale] = translations[locale];
+      else delete merged[locale];
+    }
+    updates.translations = merged;
+  } else if (Object.keys(translations).length > 0 || localizedMetadataSubmitted) {
     updates.locale = sourceLocale;
     updates.translations = translations;
     updates.title = translations[sourceLocale]?.title;
@@ -285,7 +331,16 @@ async function handleUpdate(
   }
   
   // Update photos.yaml
-  await updatePhotoInYaml(storage, galleryPath, filename, updates);
+  await withContentRevision(
+    storage,
+    {
+      targets: [{ kind: "photo", id: `${galleryPath}/${filename}` }],
+      action: "update",
+      author,
+      paths: [`${galleryPath}/photos.yaml`],
+    },
+    () => updatePhotoInYaml(storage, galleryPath, filename, updates),
+  );
   
   // Update content index (fast partial update)
   await updateGalleryPhotosInIndex(storage, galleryPath, (photos) => {
@@ -307,6 +362,18 @@ async function handleUpdate(
     });
   });
   await queueMetadataWriteback(context, [photoPath], "editorial-metadata");
+
+  // Generated alt text the editor approved, possibly after editing it.
+  const approvedAltLocales = formData.getAll("altTextApproved")
+    .map((value) => String(value))
+    .filter((locale) => translations[locale]?.alt);
+  for (const locale of approvedAltLocales) {
+    try {
+      await reviewPhotoAltText(context, photoPath, locale, "approved", translations[locale]!.alt);
+    } catch (error) {
+      console.error("[Photo AI] Failed to record alt text approval", error);
+    }
+  }
   
   return json({
     success: true,
@@ -367,6 +434,11 @@ async function handleMove(
       } catch (error) {
         console.warn(`[Metadata] Failed to move sidecar for ${photoPath}:`, error);
       }
+      try {
+        await movePhotoRendition(storage, photoPath, newPath);
+      } catch (error) {
+        console.warn(`[Rendition] Failed to move rendition for ${photoPath}:`, error);
+      }
       results.push({ path: photoPath, success: true, newPath });
     } catch (err) {
       results.push({ 
@@ -529,7 +601,8 @@ async function handleReorder(
  */
 async function handleToggleVisibility(
   formData: FormData,
-  context: ActionFunctionArgs["context"]
+  context: ActionFunctionArgs["context"],
+  author: string,
 ) {
   const galleryPath = formData.get("galleryPath") as string;
   const photoPaths = formData.getAll("photoPaths") as string[];
@@ -548,9 +621,20 @@ async function handleToggleVisibility(
   const filenames = photoPaths.map(p => p.split("/").pop()!);
   const filenameSet = new Set(filenames);
   
-  for (const filename of filenames) {
-    await updatePhotoInYaml(storage, galleryPath, filename, { hidden });
-  }
+  await withContentRevision(
+    storage,
+    {
+      targets: filenames.map((filename) => ({ kind: "photo" as const, id: `${galleryPath}/${filename}` })),
+      action: hidden ? "hide" : "show",
+      author,
+      paths: [`${galleryPath}/photos.yaml`],
+    },
+    async () => {
+      for (const filename of filenames) {
+        await updatePhotoInYaml(storage, galleryPath, filename, { hidden });
+      }
+    },
+  );
   
   // Update content index (fast partial update)
   await updateGalleryPhotosInIndex(storage, galleryPath, (photos) => {
@@ -580,7 +664,8 @@ async function handleToggleVisibility(
  */
 async function handleBulkUpdate(
   formData: FormData,
-  context: ActionFunctionArgs["context"]
+  context: ActionFunctionArgs["context"],
+  author: string,
 ) {
   const galleryPath = formData.get("galleryPath") as string;
   const photoPaths = formData.getAll("photoPaths") as string[];
@@ -663,7 +748,16 @@ async function handleBulkUpdate(
   const newPhotos = Array.from(metadataMap.values());
   
   // Write updated photos.yaml as plain array
-  await storage.put(yamlPath, yaml.stringify(newPhotos));
+  await withContentRevision(
+    storage,
+    {
+      targets: filenames.map((filename) => ({ kind: "photo" as const, id: `${galleryPath}/${filename}` })),
+      action: "bulk-update",
+      author,
+      paths: [yamlPath],
+    },
+    () => storage.put(yamlPath, yaml.stringify(newPhotos)),
+  );
   
   // Update content index (fast partial update)
   const filenameSet = new Set(filenames);
@@ -686,6 +780,27 @@ async function handleBulkUpdate(
   });
 }
 
+/**
+ * Helper: Read one photo's entry from photos.yaml
+ */
+async function readPhotoFromYaml(
+  storage: ReturnType<typeof getStorage>,
+  galleryPath: string,
+  filename: string,
+): Promise<PhotoMetadata | undefined> {
+  const existingYaml = await storage.getText(`${galleryPath}/photos.yaml`);
+  if (!existingYaml) return undefined;
+  try {
+    const parsed = yaml.parse(existingYaml);
+    const photosArray: PhotoMetadata[] = Array.isArray(parsed)
+      ? parsed
+      : Array.isArray(parsed?.photos) ? parsed.photos : [];
+    return photosArray.find((photo) => photo.filename === filename);
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Helper: Update a photo in photos.yaml
  * Note: photos.yaml is a PLAIN ARRAY (not { photos: [...] })
@@ -919,21 +1034,10 @@ async function handleRegenerateVariants(
   const filename = photoPath.split("/").pop()!;
   const dir = photoPath.substring(0, photoPath.lastIndexOf("/"));
   
-  // First, delete existing variants
-  const variantFilenames = getAllVariantFilenames(filename);
-  for (const variantFilename of variantFilenames) {
-    const variantPath = `${dir}/${variantFilename}`;
-    try {
-      if (await storage.exists(variantPath)) {
-        await storage.delete(variantPath);
-      }
-    } catch {
-      // Ignore errors
-    }
-  }
-  
-  // Load the original image
-  const imageData = await storage.get(photoPath);
+  // Load the original image, or the JPEG rendition of a HEIC/AVIF/RAW original
+  const imageData = usesPhotoRendition(photoPath)
+    ? (await readPhotoAnalysisImage(storage, photoPath))?.bytes
+    : await storage.get(photoPath);
   if (!imageData) {
     return json({ success: false, error: "Original image not found" }, { status: 404 });
   }
@@ -941,13 +1045,40 @@ async function handleRegenerateVariants(
   // Process the image
   try {
     const { processImageServer } = await import("~/lib/image-optimizer.server");
-    const result = await processImageServer(imageData, filename);
+    // Regenerating is also how variants are re-stamped after the site or
+    // gallery watermark changes.
+    const watermark = await getWatermarkForImage(storage, photoPath);
+    const result = await processImageServer(imageData, filename, watermark);
+    
+    // Keep the existing variants when the image could not be decoded here
+    // (outside the Workers runtime) instead of leaving the photo without any.
+    if (result.original.width === 0) {
+      return json({
+        success: false,
+        error: "Variants could not be generated in this runtime. Existing variants were kept.",
+      }, { status: 503 });
+    }
+    
+    // Delete existing variants that were not regenerated
+    const generatedFilenames = new Set(result.variants.map((variant) => variant.filename));
+    for (const variantFilename of getAllVariantFilenames(filename)) {
+      if (generatedFilenames.has(variantFilename)) continue;
+      const variantPath = `${dir}/${variantFilename}`;
+      try {
+        if (await storage.exists(variantPath)) {
+          await storage.delete(variantPath);
+        }
+      } catch {
+        // Ignore errors
+      }
+    }
     
     // Save variants
     interface GeneratedVariant {
       width: number;
       filename: string;
       size: number;
+      watermarked: boolean;
     }
     const generatedVariants: GeneratedVariant[] = [];
     
@@ -958,6 +1089,7 @@ async function handleRegenerateVariants(
         width: variant.width,
         filename: variant.filename,
         size: variant.size,
+        watermarked: variant.watermarked,
       });
     }
     
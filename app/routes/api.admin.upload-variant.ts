@@ -3,7 +3,8 @@
  * 
  * POST /api/admin/upload-variant
  * 
- * Receives WebP variants generated in the browser and saves them to storage.
+ * Receives WebP variants generated in the browser and saves them to storage,
+ * stamping the gallery watermark first when one applies.
  * Updates the optimization index to mark the original image as optimized.
  */
 
@@ -11,6 +12,7 @@ import type { ActionFunctionArgs } from "@remix-run/cloudflare";
 import { json } from "@remix-run/cloudflare";
 import { checkAdminAuth } from "~/utils/admin-auth";
 import { getStorage } from "~/lib/content-engine";
+import { getWatermarkForImage } from "~/lib/watermark.server";
 
 // Optimization index file path (same as in api.admin.optimize.ts)
 const OPTIMIZATION_INDEX_FILE = ".optimization-index.json";
@@ -79,7 +81,7 @@ async function markImageOptimized(
 
 export async function action({ request, context }: ActionFunctionArgs) {
   // Check admin auth
-  await checkAdminAuth(request, context);
+  await checkAdminAuth(request, context, "content");
 
   const storage = getStorage(context);
   const formData = await request.formData();
@@ -97,7 +99,15 @@ export async function action({ request, context }: ActionFunctionArgs) {
 
   try {
     // Save the variant file
-    const buffer = await file.arrayBuffer();
+    let buffer = await file.arrayBuffer();
+    const watermark = await getWatermarkForImage(storage, originalPath);
+    if (watermark) {
+      const { stampVariantServer } = await import("~/lib/image-optimizer.server");
+      const stamped = await stampVariantServer(buffer, watermark);
+      if (stamped) {
+        buffer = stamped.buffer as ArrayBuffer;
+      }
+    }
     await storage.put(variantPath, buffer, "image/webp");
 
     // Mark original as optimized (we'll do this once per original, not per variant)
@@ -0,0 +1,149 @@
+/**
+ * API - Resumable Uploads
+ *
+ * GET  /api/admin/uploads            → unfinished uploads
+ * POST /api/admin/uploads
+ *   action=start     gallery, filename, size, contentType, fingerprint, policy
+ *   action=part      session, part, chunk
+ *   action=rendition session, rendition (JPEG decoded from a HEIC/AVIF original)
+ *   action=complete  session
+ *   action=abort     session
+ *
+ * Originals arrive in UPLOAD_CHUNK_SIZE chunks; see content-engine/uploads.
+ */
+
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/cloudflare";
+import { json } from "@remix-run/cloudflare";
+import { checkAdminAuth } from "~/utils/admin-auth";
+import {
+  abortUploadSession,
+  completeUploadSession,
+  getStorage,
+  isUploadCollisionPolicy,
+  listUploadSessions,
+  missingUploadParts,
+  readUploadSession,
+  startUploadSession,
+  uploadPartCount,
+  uploadSessionPart,
+  uploadSessionRendition,
+  UploadSessionError,
+  type UploadSession,
+} from "~/lib/content-engine";
+import { enqueueUploadedPhotosForAi } from "~/lib/ai/photo-ai-service.server";
+import { enqueuePhotoMetadataWritebacks } from "~/lib/ai/photo-metadata-writeback.server";
+
+function sessionResponse(session: UploadSession) {
+  return {
+    id: session.id,
+    galleryPath: session.galleryPath,
+    filename: session.filename,
+    originalFilename: session.originalFilename,
+    path: session.key,
+    size: session.size,
+    fingerprint: session.fingerprint,
+    policy: session.policy,
+    replaces: session.replaces,
+    chunkSize: session.chunkSize,
+    rendition: session.rendition === true,
+    partCount: uploadPartCount(session),
+    missingParts: missingUploadParts(session),
+    updatedAt: session.updatedAt,
+  };
+}
+
+export async function loader({ request, context }: LoaderFunctionArgs) {
+  await checkAdminAuth(request, context, "content");
+  const sessions = await listUploadSessions(getStorage(context));
+  return json({ sessions: sessions.map(sessionResponse) });
+}
+
+export async function action({ request, context }: ActionFunctionArgs) {
+  await checkAdminAuth(request, context, "content");
+  const storage = getStorage(context);
+  const formData = await request.formData();
+  const actionType = String(formData.get("action") ?? "");
+
+  try {
+    if (actionType === "start") {
+      const gallery = String(formData.get("gallery") ?? "").replace(/^\/+|\/+$/g, "");
+      const policy = String(formData.get("policy") ?? "rename");
+      if (!isUploadCollisionPolicy(policy)) {
+        return json({ success: false, error: `Unknown collision policy: ${policy}` }, { status: 400 });
+      }
+      const result = await startUploadSession(storage, {
+        galleryPath: `galleries/${gallery || "uploads"}`,
+        filename: String(formData.get("filename") ?? ""),
+        size: Number(formData.get("size")),
+        contentType: String(formData.get("contentType") ?? ""),
+        fingerprint: String(formData.get("fingerprint") ?? ""),
+        policy,
+      });
+      return json(result.status === "ready"
+        ? { success: true, status: result.status, session: sessionResponse(result.session) }
+        : { success: true, status: result.status, existingPath: result.existingPath });
+    }
+
+    const session = await readUploadSession(storage, String(formData.get("session") ?? ""));
+    if (!session) {
+      return json({ success: false, error: "Upload session not found" }, { status: 404 });
+    }
+
+    if (actionType === "part") {
+      const chunk = formData.get("chunk");
+      if (!chunk || typeof chunk === "string") {
+        return json({ success: false, error: "Missing chunk" }, { status: 400 });
+      }
+      const updated = await uploadSessionPart(
+        storage,
+        session,
+        Number(formData.get("part")),
+        await chunk.arrayBuffer(),
+      );
+      return json({ success: true, session: sessionResponse(updated) });
+    }
+
+    if (actionType === "rendition") {
+      const rendition = formData.get("rendition");
+      if (!rendition || typeof rendition === "string") {
+        return json({ success: false, error: "Missing rendition" }, { status: 400 });
+      }
+      const updated = await uploadSessionRendition(storage, session, await rendition.arrayBuffer());
+      return json({ success: true, session: sessionResponse(updated) });
+    }
+
+    if (actionType === "complete") {
+      const { path, replaced } = await completeUploadSession(storage, session);
+
+      try {
+        await enqueuePhotoMetadataWritebacks(context, [path], "upload");
+      } catch (error) {
+        console.error("[Metadata Writeback] Failed to queue uploaded photo", error);
+      }
+      // Queue derived AI metadata without delaying the upload with model calls.
+      try {
+        await enqueueUploadedPhotosForAi(context, [path]);
+      } catch (error) {
+        console.error("[Upload] Failed to queue Photo AI analysis:", error);
+      }
+
+      return json({ success: true, status: replaced ? "replaced" : "uploaded", path });
+    }
+
+    if (actionType === "abort") {
+      await abortUploadSession(storage, session);
+      return json({ success: true });
+    }
+
+    return json({ success: false, error: "Unknown upload action" }, { status: 400 });
+  } catch (error) {
+    if (error instanceof UploadSessionError) {
+      return json({ success: false, error: error.message }, { status: error.status });
+    }
+    console.error("[Upload]", error);
+    return json({
+      success: false,
+      error: error instanceof Error ? error.message : "Upload failed",
+    }, { status: 500 });
+  }
+}
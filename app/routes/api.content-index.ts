@@ -5,16 +5,20 @@
  *   action: "rebuild-index" - Rebuild using EXIF cache (fast)
  *   action: "rebuild-index-full" - Full rebuild, re-read all EXIF (slow)
  *   action: "invalidate" - Clear the index (next read will rebuild)
+ *
+ * Rebuilds also refresh the semantic matches of smart galleries when photo AI
+ * is configured.
  */
 
 import type { ActionFunctionArgs } from "@remix-run/cloudflare";
 import { json } from "@remix-run/cloudflare";
 import { checkAdminAuth } from "~/utils/admin-auth";
 import { getStorage, rebuildContentIndex, invalidateContentIndex } from "~/lib/content-engine";
+import { refreshSmartGalleryMatches } from "~/lib/ai/photo-ai-service.server";
 
 export async function action({ request, context }: ActionFunctionArgs) {
   // Require admin authentication
-  await checkAdminAuth(request, context);
+  await checkAdminAuth(request, context, "content");
   
   const formData = await request.formData();
   const action = formData.get("action") as string;
@@ -29,6 +33,12 @@ export async function action({ request, context }: ActionFunctionArgs) {
       
       try {
         const index = await rebuildContentIndex(storage, skipCache);
+        try {
+          await refreshSmartGalleryMatches(context);
+        } catch (error) {
+          // Smart galleries with a text query stay as they were.
+          console.warn("[Smart Galleries] Semantic matches were not refreshed:", error);
+        }
         const rebuildTime = Date.now() - startTime;
         
         return json({
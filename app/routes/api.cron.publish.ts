@@ -0,0 +1,122 @@
+/**
+ * API - Scheduled Publishing
+ *
+ * POST /api/cron/publish
+ *   Authorization: Bearer <CRON_SECRET>
+ *
+ * Called every few minutes by the scheduler Worker (workers/scheduler),
+ * because Cloudflare Pages cannot run cron triggers itself. Refreshes index
+ * entries whose publishAt/unpublishAt passed and emails the newsletter for
+ * newly published posts that set `newsletter: true`.
+ *
+ * In development (NODE_ENV or ENVIRONMENT set to "development") the secret
+ * is not required and `?now=<ISO timestamp>` overrides the clock so a
+ * schedule can be tested without waiting for it.
+ */
+
+import type { ActionFunctionArgs } from "@remix-run/cloudflare";
+import { json } from "@remix-run/cloudflare";
+import {
+  getStorage,
+  runScheduledPublishing,
+  scheduleTime,
+  type BlogPost,
+  type StorageAdapter,
+} from "~/lib/content-engine";
+import {
+  buildHeadlessBlogPost,
+  resolveHeadlessBlogConfig,
+  type HeadlessBlogConfig,
+} from "~/lib/headless-blog";
+import { resolveNewsletterConfig, type NewsletterConfig } from "~/lib/newsletter/config.server";
+import {
+  NewsletterCampaignAlreadySentError,
+  NewsletterValidationError,
+  sendNewsletterCampaign,
+} from "~/lib/newsletter/newsletter-service.server";
+
+function cronSecret(context: ActionFunctionArgs["context"]): string {
+  const value = context.cloudflare?.env?.CRON_SECRET ?? process.env.CRON_SECRET;
+  return typeof value === "string" ? value.trim() : "";
+}
+
+function safeEqual(left: string, right: string): boolean {
+  if (left.length !== right.length) return false;
+  let difference = 0;
+  for (let index = 0; index < left.length; index += 1) {
+    difference |= left.charCodeAt(index) ^ right.charCodeAt(index);
+  }
+  return difference === 0;
+}
+
+// The request's host is chosen by the caller, so only the server's own
+// environment can waive the secret.
+function isDevelopment(context: ActionFunctionArgs["context"]): boolean {
+  const environment = context.cloudflare?.env?.ENVIRONMENT ?? process.env.ENVIRONMENT;
+  return process.env.NODE_ENV === "development" || environment === "development";
+}
+
+/** Send the post to every language edition that has active subscribers. */
+async function announcePost(
+  storage: StorageAdapter,
+  post: BlogPost,
+  blogConfig: HeadlessBlogConfig,
+  newsletterConfig: NewsletterConfig,
+  now: Date,
+): Promise<void> {
+  if (!post.newsletter) return;
+  const locales = Object.keys(post.translations || { [post.locale || "en"]: true });
+  for (const locale of locales) {
+    const headlessPost = buildHeadlessBlogPost([post], post.slug, blogConfig, locale);
+    if (!headlessPost || headlessPost.post.isFallback) continue;
+    try {
+      await sendNewsletterCampaign({
+        storage,
+        config: newsletterConfig,
+        post: headlessPost.post,
+        locale,
+        now,
+      });
+      console.log(`[Scheduler] ✉️  Newsletter sent for ${post.slug} (${locale})`);
+    } catch (error) {
+      if (error instanceof NewsletterCampaignAlreadySentError) continue;
+      if (error instanceof NewsletterValidationError && error.message === "no_active_subscribers") {
+        continue;
+      }
+      throw error;
+    }
+  }
+}
+
+export async function action({ request, context }: ActionFunctionArgs) {
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, { status: 405 });
+  }
+
+  const secret = cronSecret(context);
+  const authorization = request.headers.get("Authorization") || "";
+  const development = isDevelopment(context);
+  if (!development && (!secret || !safeEqual(authorization, `Bearer ${secret}`))) {
+    return json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const requestedNow = new URL(request.url).searchParams.get("now");
+  const requestedTime = development ? scheduleTime(requestedNow) : null;
+  const now = requestedTime === null ? new Date() : new Date(requestedTime);
+
+  const storage = getStorage(context, request);
+  const blogConfig = resolveHeadlessBlogConfig(context, request);
+  const newsletterConfig = resolveNewsletterConfig(context, request);
+  const result = await runScheduledPublishing(storage, {
+    now,
+    onPostPublished: newsletterConfig.configured
+      ? (post) => announcePost(storage, post, blogConfig, newsletterConfig, now)
+      : undefined,
+  });
+
+  return json(result);
+}
+
+export async function loader() {
+  return json({ error: "Method not allowed" }, { status: 405 });
+}
@@ -0,0 +1,81 @@
+/**
+ * Gallery Archive Download
+ *
+ * GET /api/downloads/gallery/:slug
+ * Streams every visible photo of a gallery as a ZIP, including nested
+ * galleries when the gallery shows their photos, each at the size its own
+ * download policy allows. Photos are read one at a time while the archive
+ * is written, so large galleries never sit in memory.
+ */
+
+import type { LoaderFunctionArgs } from "@remix-run/cloudflare";
+import { getStorage, getContentIndex } from "~/lib/content-engine";
+import {
+  attachmentDisposition,
+  createZipStream,
+  galleryArchivePhotos,
+  galleryDownloadAccess,
+  loadDownloadFile,
+  recordGalleryDownload,
+} from "~/lib/gallery-downloads.server";
+import { getAuthenticatedGalleries } from "~/utils/gallery-auth";
+import { getGalleryShareLinks, recordGalleryShareAccess } from "~/utils/gallery-shares";
+
+export async function loader({ params, context, request }: LoaderFunctionArgs) {
+  const slug = params["*"];
+  if (!slug) {
+    return new Response("Not Found", { status: 404 });
+  }
+
+  const storage = getStorage(context, request);
+  const { galleryData } = await getContentIndex(storage);
+  const gallery = galleryData.find((g) => g.slug === slug);
+  if (!gallery) {
+    return new Response("Not Found", { status: 404 });
+  }
+
+  const [shares, unlocked] = await Promise.all([
+    getGalleryShareLinks(request, storage),
+    getAuthenticatedGalleries(request),
+  ]);
+  const access = galleryDownloadAccess(gallery, { shares, passwordUnlocked: unlocked.has(gallery.slug) });
+  if (!access) {
+    return new Response("Forbidden", { status: 403 });
+  }
+
+  // Nested galleries keep their own policy, so a stricter child is never
+  // handed out at the size its parent allows
+  const entries = galleryArchivePhotos(
+    gallery,
+    galleryData,
+    (source) =>
+      source.slug === gallery.slug
+        ? access.size
+        : galleryDownloadAccess(source, { shares, passwordUnlocked: unlocked.has(source.slug) })?.size ?? null,
+  );
+  if (entries.length === 0) {
+    return new Response("Not Found", { status: 404 });
+  }
+
+  await Promise.all([
+    recordGalleryDownload(storage, gallery.slug, "archive"),
+    access.share && recordGalleryShareAccess(storage, access.share, "download", `${gallery.slug}.zip`),
+  ]);
+
+  const archive = createZipStream(
+    entries.map(({ photo, name, size }) => ({
+      name,
+      modified: photo.lastModified ? new Date(photo.lastModified) : undefined,
+      load: async () => (await loadDownloadFile(storage, photo, size))?.buffer ?? null,
+    })),
+  );
+
+  return new Response(archive, {
+    headers: {
+      "Content-Type": "application/zip",
+      "Content-Disposition": attachmentDisposition(`${slug.split("/").pop()}.zip`),
+      "Cache-Control": "private, no-store, max-age=0",
+      "X-Content-Type-Options": "nosniff",
+    },
+  });
+}
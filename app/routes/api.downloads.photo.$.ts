@@ -0,0 +1,60 @@
+/**
+ * Photo Download
+ *
+ * GET /api/downloads/photo/:gallerySlug/:photoFilename
+ * Sends one photo as an attachment, at the size the gallery's download policy
+ * or the visitor's share link allows. Downloads are counted per gallery.
+ */
+
+import type { LoaderFunctionArgs } from "@remix-run/cloudflare";
+import { getStorage, getGalleryFromIndex } from "~/lib/content-engine";
+import { detectImageContentType } from "~/lib/image-content-type";
+import {
+  attachmentDisposition,
+  getGalleryDownloadAccess,
+  loadDownloadFile,
+  recordGalleryDownload,
+} from "~/lib/gallery-downloads.server";
+import { recordGalleryShareAccess } from "~/utils/gallery-shares";
+
+export async function loader({ params, context, request }: LoaderFunctionArgs) {
+  const segments = (params["*"] || "").split("/");
+  const photoFilename = segments.pop();
+  const gallerySlug = segments.join("/");
+  if (!photoFilename || !gallerySlug) {
+    return new Response("Not Found", { status: 404 });
+  }
+
+  const storage = getStorage(context, request);
+  const gallery = await getGalleryFromIndex(storage, gallerySlug);
+  const photo = gallery?.photos.find(
+    (p) => !p.hidden && (p.filename === photoFilename || p.filename === decodeURIComponent(photoFilename))
+  );
+  if (!gallery || !photo) {
+    return new Response("Not Found", { status: 404 });
+  }
+
+  const access = await getGalleryDownloadAccess(request, storage, gallery);
+  if (!access) {
+    return new Response("Forbidden", { status: 403 });
+  }
+
+  const file = await loadDownloadFile(storage, photo, access.size);
+  if (!file) {
+    return new Response("Not Found", { status: 404 });
+  }
+
+  await Promise.all([
+    recordGalleryDownload(storage, gallery.slug, "photo"),
+    access.share && recordGalleryShareAccess(storage, access.share, "download", photo.path),
+  ]);
+
+  return new Response(file.buffer, {
+    headers: {
+      "Content-Type": detectImageContentType(file.buffer, file.filename),
+      "Content-Disposition": attachmentDisposition(file.filename),
+      "Cache-Control": "private, no-store, max-age=0",
+      "X-Content-Type-Options": "nosniff",
+    },
+  });
+}
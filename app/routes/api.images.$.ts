@@ -13,7 +13,7 @@
 import type { LoaderFunctionArgs } from "@remix-run/cloudflare";
 import { isImageFile, getStorage } from "~/lib/content-engine";
 import { detectImageContentType } from "~/lib/image-content-type";
-import { resolveImageAsset } from "~/lib/image-delivery.server";
+import { resolveDisplayImageAsset } from "~/lib/image-delivery.server";
 
 type RuntimeCacheContext = {
   cloudflare?: {
@@ -113,7 +113,7 @@ export async function loader({ params, context, request }: LoaderFunctionArgs) {
     const storage = getStorage(context, request);
     
     const sourceExtensionHint = new URL(request.url).searchParams.get("source");
-    const asset = await resolveImageAsset(storage, decodedPath, sourceExtensionHint);
+    const asset = await resolveDisplayImageAsset(storage, decodedPath, sourceExtensionHint);
 
     if (!asset) {
       return new Response("Not Found", { status: 404 });
@@ -3,7 +3,7 @@ import type {
   ActionFunctionArgs,
   HeadersFunction,
 } from "@remix-run/cloudflare";
-import { normalizeLocale } from "~/lib/i18n";
+import { normalizeLocale, type Locale } from "~/lib/i18n";
 import { getStorage } from "~/lib/content-engine";
 import { resolveNewsletterConfig } from "~/lib/newsletter/config.server";
 import {
@@ -33,7 +33,7 @@ export function loader() {
 }
 
 function message(
-  locale: "es" | "en",
+  locale: Locale,
   key: "accepted" | "invalid" | "unavailable",
 ): string {
   const messages = {
@@ -48,7 +48,7 @@ function message(
       unavailable: "I could not start the subscription. Please try again in a few minutes.",
     },
   } as const;
-  return messages[locale][key];
+  return (locale === "es" ? messages.es : messages.en)[key];
 }
 
 export async function action({ request, context }: ActionFunctionArgs) {
@@ -4,7 +4,7 @@ import {
   getPublicPhotoAiMap,
   isPhotoAiEnabled,
 } from "~/lib/ai/photo-ai-service.server";
-import { getAllGalleriesFromIndex, getStorage } from "~/lib/content-engine";
+import { filterPublishedGalleries, getAllGalleriesFromIndex, getStorage } from "~/lib/content-engine";
 import {
   DEFAULT_LOCALE,
   localizedPath,
@@ -37,9 +37,13 @@ export async function loader({ request, context }: LoaderFunctionArgs) {
       getPublicPhotoAiMap(context),
       getAllGalleriesFromIndex(getStorage(context, request), locale),
     ]);
-    const publicGalleries = localizedGalleries.filter(
+    const publicGalleries = filterPublishedGalleries(localizedGalleries).filter(
       (gallery) => !gallery.isProtected && !gallery.isParentGallery,
     );
+    // Scheduled galleries stay in the AI index; hide them until they go live.
+    const publishedSlugs = new Set(
+      filterPublishedGalleries(localizedGalleries).map((gallery) => gallery.slug),
+    );
     const galleriesBySlug = new Map(
       publicGalleries.map((gallery) => [gallery.slug, gallery]),
     );
@@ -53,11 +57,11 @@ export async function loader({ request, context }: LoaderFunctionArgs) {
 
     return json({
       ...map,
-      galleries: map.galleries.map((gallery) => ({
+      galleries: map.galleries.filter((gallery) => publishedSlugs.has(gallery.slug)).map((gallery) => ({
         ...gallery,
         title: galleriesBySlug.get(gallery.slug)?.title || gallery.title,
       })),
-      nodes: map.nodes.map((node) => {
+      nodes: map.nodes.filter((node) => publishedSlugs.has(node.gallerySlug)).map((node) => {
         const photo = photosByPath.get(node.path);
         const gallery = galleriesBySlug.get(node.gallerySlug);
         return {
@@ -0,0 +1,54 @@
+import { json } from "@remix-run/cloudflare";
+import type { LoaderFunctionArgs } from "@remix-run/cloudflare";
+import { getPublicPhotoPeople } from "~/lib/ai/photo-ai-service.server";
+import {
+  DEFAULT_LOCALE,
+  localizedPath,
+  normalizeLocale,
+  parseAcceptLanguage,
+} from "~/lib/i18n";
+import { getOptimizedImageUrl } from "~/utils/image-optimization";
+
+function photoHref(gallerySlug: string, filename: string): string {
+  const gallery = gallerySlug.split("/").map(encodeURIComponent).join("/");
+  return `/photo/${gallery}/${encodeURIComponent(filename)}`;
+}
+
+/** People the admin named and published; everyone else stays private. */
+export async function loader({ request, context }: LoaderFunctionArgs) {
+  const url = new URL(request.url);
+  const locale =
+    normalizeLocale(url.searchParams.get("locale")) ||
+    parseAcceptLanguage(request.headers.get("Accept-Language")) ||
+    DEFAULT_LOCALE;
+
+  try {
+    const people = await getPublicPhotoPeople(context);
+    return json({
+      people: people.map((person) => ({
+        personId: person.personId,
+        name: person.name,
+        photos: person.photos.map((photo) => ({
+          path: photo.path,
+          filename: photo.filename,
+          gallerySlug: photo.gallerySlug,
+          thumbnailUrl: getOptimizedImageUrl(photo.path, { width: 800 }),
+          href: localizedPath(locale, photoHref(photo.gallerySlug, photo.filename)),
+        })),
+      })),
+    }, {
+      headers: {
+        // Short lifetime so unpublishing a person takes effect quickly.
+        "Cache-Control": "public, max-age=60, s-maxage=300",
+        "Content-Language": locale,
+        Vary: "Accept-Language",
+      },
+    });
+  } catch (error) {
+    console.error("[Photo AI] People listing failed", error);
+    return json({ people: [] }, {
+      status: 200,
+      headers: { "Content-Language": locale, Vary: "Accept-Language" },
+    });
+  }
+}
@@ -1,16 +1,27 @@
 import { json } from "@remix-run/cloudflare";
 import type { LoaderFunctionArgs } from "@remix-run/cloudflare";
 import { isPhotoAiEnabled, searchPhotoDocuments } from "~/lib/ai/photo-ai-service.server";
-import { getAllGalleriesFromIndex, getStorage } from "~/lib/content-engine";
+import { PHOTO_SEARCH_FACETS, type PhotoSearchFilters } from "~/lib/ai/search-facets";
+import { filterPublishedGalleries, getAllGalleriesFromIndex, getStorage } from "~/lib/content-engine";
 import {
   DEFAULT_LOCALE,
   localizedPath,
   normalizeLocale,
   parseAcceptLanguage,
-  photoMessages,
+  photoMessagesFor,
 } from "~/lib/i18n";
 import { getOptimizedImageUrl } from "~/utils/image-optimization";
 
+/** Facet filters repeat their parameter, e.g. `?camera=X100V&camera=Q2&year=2024`. */
+function readFacetFilters(searchParams: URLSearchParams): PhotoSearchFilters {
+  const filters: PhotoSearchFilters = {};
+  for (const facet of PHOTO_SEARCH_FACETS) {
+    const values = searchParams.getAll(facet).map((value) => value.trim()).filter(Boolean);
+    if (values.length > 0) filters[facet] = values.slice(0, 20);
+  }
+  return filters;
+}
+
 function photoHref(gallerySlug: string, filename: string): string {
   const gallery = gallerySlug.split("/").map(encodeURIComponent).join("/");
   return `/photo/${gallery}/${encodeURIComponent(filename)}`;
@@ -22,7 +33,7 @@ export async function loader({ request, context }: LoaderFunctionArgs) {
     normalizeLocale(url.searchParams.get("locale")) ||
     parseAcceptLanguage(request.headers.get("Accept-Language")) ||
     DEFAULT_LOCALE;
-  const messages = photoMessages[locale];
+  const messages = photoMessagesFor(locale);
   if (!isPhotoAiEnabled(context)) {
     return json({ error: locale === "es" ? "La búsqueda fotográfica está desactivada" : "Photo search is disabled" }, { status: 404 });
   }
@@ -30,17 +41,21 @@ export async function loader({ request, context }: LoaderFunctionArgs) {
   if (query.length < 2) {
     return json({ error: locale === "es" ? "La búsqueda debe tener al menos dos caracteres" : "Search query must contain at least two characters" }, { status: 400 });
   }
-  const gallerySlug = url.searchParams.get("gallery")?.trim() || undefined;
+  const filters = readFacetFilters(url.searchParams);
   const limit = Math.min(50, Math.max(1, Number(url.searchParams.get("limit")) || 40));
 
   try {
     const [results, localizedGalleries] = await Promise.all([
-      searchPhotoDocuments(context, query, { gallerySlug, limit }),
+      searchPhotoDocuments(context, query, { filters, locale, limit }),
       getAllGalleriesFromIndex(getStorage(context), locale),
     ]);
-    const publicGalleries = localizedGalleries.filter(
+    const publicGalleries = filterPublishedGalleries(localizedGalleries).filter(
       (gallery) => !gallery.isProtected && !gallery.isParentGallery,
     );
+    // Scheduled galleries stay in the AI index; hide them until they go live.
+    const publishedSlugs = new Set(
+      filterPublishedGalleries(localizedGalleries).map((gallery) => gallery.slug),
+    );
     const galleryTitles = new Map(publicGalleries.map((gallery) => [gallery.slug, gallery.title]));
     const photosByPath = new Map(
       publicGalleries.flatMap((gallery) =>
@@ -52,28 +67,39 @@ export async function loader({ request, context }: LoaderFunctionArgs) {
     return json({
       query,
       mode: results.mode,
-      galleries: results.galleries.map((gallery) => ({
+      filters,
+      facets: {
+        ...results.facets,
+        // Only public, published galleries are offered; titles follow the locale.
+        gallery: results.facets.gallery.flatMap((facet) => {
+          const title = galleryTitles.get(facet.value);
+          return title ? [{ ...facet, label: title }] : [];
+        }),
+      },
+      galleries: results.galleries.filter((gallery) => publishedSlugs.has(gallery.slug)).map((gallery) => ({
         ...gallery,
         title: galleryTitles.get(gallery.slug) || gallery.title,
       })),
-      photos: results.photos.map(({ document, score }) => {
-        const localizedPhoto = photosByPath.get(document.path);
-        return {
-          assetId: document.assetId,
-          path: document.path,
-          filename: document.filename,
-          title: localizedPhoto?.title || document.title || document.caption,
-          caption: localizedPhoto?.description || document.caption,
-          gallerySlug: document.gallerySlug,
-          galleryTitle: galleryTitles.get(document.gallerySlug) || document.galleryTitle,
-          score,
-          thumbnailUrl: getOptimizedImageUrl(document.path, { width: 800 }),
-          href: localizedPath(locale, photoHref(document.gallerySlug, document.filename)),
-          // Keep the same AI/editorial search tags used by the embedding map so
-          // Explore filters behave identically in graph and grid views.
-          tags: document.tags,
-        };
-      }),
+      photos: results.photos
+        .filter(({ document }) => publishedSlugs.has(document.gallerySlug))
+        .map(({ document, score }) => {
+          const localizedPhoto = photosByPath.get(document.path);
+          return {
+            assetId: document.assetId,
+            path: document.path,
+            filename: document.filename,
+            title: localizedPhoto?.title || document.title || document.caption,
+            caption: localizedPhoto?.description || document.caption,
+            gallerySlug: document.gallerySlug,
+            galleryTitle: galleryTitles.get(document.gallerySlug) || document.galleryTitle,
+            score,
+            thumbnailUrl: getOptimizedImageUrl(document.path, { width: 800 }),
+            href: localizedPath(locale, photoHref(document.gallerySlug, document.filename)),
+            // Keep the same AI/editorial search tags used by the embedding map so
+            // Explore filters behave identically in graph and grid views.
+            tags: document.tags,
+          };
+        }),
     }, {
       headers: {
         "Cache-Control": results.mode === "semantic"
@@ -0,0 +1,61 @@
+/**
+ * API Route: Camera and lens statistics
+ *
+ * GET /api/photos/stats
+ * Returns camera, lens, focal length, aperture, ISO and shutter speed counts
+ * for the public galleries. With filters (`camera`, `lens`, `focal=24-35`,
+ * `aperture`, `iso`, `shutter`, `year`) it also lists the matching photos.
+ */
+
+import { json } from "@remix-run/cloudflare";
+import type { LoaderFunctionArgs } from "@remix-run/cloudflare";
+import {
+  getEquipmentPhotosFromIndex,
+  getEquipmentStatsFromIndex,
+  getStorage,
+  parseEquipmentFilter,
+} from "~/lib/content-engine";
+import { requireEquipmentStatsAccess } from "~/lib/equipment-stats.server";
+
+export async function loader({ request, context }: LoaderFunctionArgs) {
+  const storage = getStorage(context, request);
+  const visibility = await requireEquipmentStatsAccess(request, context, storage);
+  const filter = parseEquipmentFilter(new URL(request.url).searchParams);
+
+  try {
+    const [stats, photos] = await Promise.all([
+      getEquipmentStatsFromIndex(storage),
+      filter ? getEquipmentPhotosFromIndex(storage, filter) : Promise.resolve(null),
+    ]);
+
+    return json({
+      ...stats,
+      ...(filter && photos
+        ? {
+            filter,
+            photos: photos.map((photo) => ({
+              path: photo.path,
+              filename: photo.filename,
+              title: photo.title,
+              gallerySlug: photo.gallerySlug,
+              dateTaken: photo.dateTaken,
+              camera: photo.exif?.camera,
+              lens: photo.exif?.lens,
+              focalLength: photo.exif?.focalLength,
+              aperture: photo.exif?.aperture,
+              iso: photo.exif?.iso,
+              shutterSpeed: photo.exif?.shutterSpeed,
+            })),
+          }
+        : {}),
+    }, {
+      headers: {
+        // An admin's response must never be replayed to visitors by a shared cache
+        "Cache-Control": visibility === "admin" ? "private, no-store" : "public, max-age=60, s-maxage=300",
+      },
+    });
+  } catch (error) {
+    console.error("[Equipment Stats] Failed to load statistics:", error);
+    return json({ error: "Failed to load statistics" }, { status: 500 });
+  }
+}
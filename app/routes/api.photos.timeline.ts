@@ -0,0 +1,68 @@
+/**
+ * API Route: Photo timeline
+ *
+ * GET /api/photos/timeline                   → photos per year
+ * GET /api/photos/timeline?period=2019       → photos per month of 2019
+ * GET /api/photos/timeline?period=2019-04    → photos per day of April 2019
+ * GET /api/photos/timeline?granularity=day   → every day with photos
+ *
+ * Counts come from the content index and cover public galleries only.
+ */
+
+import { json } from "@remix-run/cloudflare";
+import type { LoaderFunctionArgs } from "@remix-run/cloudflare";
+import {
+  getPhotoTimelineFromIndex,
+  getStorage,
+  normalizeTimelinePeriod,
+  photoTimelineOnThisDay,
+  photoTimelinePeriods,
+  timelinePeriodGranularity,
+  type PhotoTimelineGranularity,
+} from "~/lib/content-engine";
+
+const CHILD_GRANULARITY: Record<PhotoTimelineGranularity, PhotoTimelineGranularity> = {
+  year: "month",
+  month: "day",
+  day: "day",
+};
+
+function isGranularity(value: string | null): value is PhotoTimelineGranularity {
+  return value === "year" || value === "month" || value === "day";
+}
+
+export async function loader({ request, context }: LoaderFunctionArgs) {
+  const url = new URL(request.url);
+  const rawPeriod = url.searchParams.get("period");
+  const period = rawPeriod ? normalizeTimelinePeriod(rawPeriod) : null;
+  const rawGranularity = url.searchParams.get("granularity");
+  if ((rawPeriod && !period) || (rawGranularity && !isGranularity(rawGranularity))) {
+    return json(
+      { error: "Use period=YYYY, YYYY-MM or YYYY-MM-DD and granularity=year, month or day" },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const days = await getPhotoTimelineFromIndex(getStorage(context, request));
+    const granularity = isGranularity(rawGranularity)
+      ? rawGranularity
+      : period ? CHILD_GRANULARITY[timelinePeriodGranularity(period)] : "year";
+    const periods = photoTimelinePeriods(days, granularity, period ?? undefined);
+
+    return json({
+      period,
+      granularity,
+      total: periods.reduce((sum, item) => sum + item.count, 0),
+      periods,
+      onThisDay: photoTimelineOnThisDay(days),
+    }, {
+      headers: {
+        "Cache-Control": "public, max-age=60, s-maxage=300",
+      },
+    });
+  } catch (error) {
+    console.error("[Timeline] Failed to load photo counts:", error);
+    return json({ error: "Failed to load the timeline" }, { status: 500 });
+  }
+}
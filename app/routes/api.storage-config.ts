@@ -8,7 +8,8 @@
 import type { ActionFunctionArgs } from "@remix-run/cloudflare";
 import { json } from "@remix-run/cloudflare";
 import { checkAdminAuth } from "~/utils/admin-auth";
-import { isDevelopment } from "~/lib/content-engine";
+import { isDevelopment, S3StorageAdapter } from "~/lib/content-engine";
+import type { S3StorageConfig } from "~/lib/content-engine";
 
 interface CloudflareTokenInfo {
   id: string;
@@ -22,7 +23,7 @@ interface R2Bucket {
 }
 
 export async function action({ request, context }: ActionFunctionArgs) {
-  await checkAdminAuth(request, context);
+  await checkAdminAuth(request, context, "settings");
   
   const formData = await request.formData();
   const action = formData.get("action") as string;
@@ -37,7 +38,9 @@ export async function action({ request, context }: ActionFunctionArgs) {
     case "save-config":
       return handleSaveConfig(formData, context);
     case "test-connection":
-      return handleTestConnection(formData);
+      return formData.get("provider") === "s3"
+        ? handleTestS3Connection(formData)
+        : handleTestConnection(formData);
     case "switch-adapter":
       return handleSwitchAdapter(formData);
     default:
@@ -476,10 +479,64 @@ async function handleTestConnection(formData: FormData) {
   }
 }
 
+/**
+ * Read S3-compatible bucket settings from the submitted form
+ */
+function s3ConfigFromForm(formData: FormData): S3StorageConfig | null {
+  const endpoint = (formData.get("endpoint") as string || "").trim();
+  const accessKeyId = (formData.get("accessKeyId") as string || "").trim();
+  const secretAccessKey = formData.get("secretAccessKey") as string || "";
+  const bucketName = (formData.get("bucketName") as string || "").trim();
+  const region = (formData.get("region") as string || "").trim();
+
+  if (!endpoint || !accessKeyId || !secretAccessKey || !bucketName) {
+    return null;
+  }
+
+  return {
+    endpoint,
+    accessKeyId,
+    secretAccessKey,
+    bucketName,
+    region: region || undefined,
+    forcePathStyle: formData.get("forcePathStyle") !== "false",
+  };
+}
+
+async function handleTestS3Connection(formData: FormData) {
+  const config = s3ConfigFromForm(formData);
+
+  if (!config) {
+    return json({ success: false, error: "Endpoint, bucket name, access key and secret key are required" });
+  }
+
+  try {
+    // Listing the galleries prefix verifies the endpoint, credentials and bucket
+    const storage = new S3StorageAdapter(config);
+    const galleries = await storage.list("galleries");
+
+    return json({
+      success: true,
+      message: `Successfully connected to bucket "${config.bucketName}"! Found ${galleries.length} item(s) in galleries/.`,
+    });
+  } catch (error) {
+    return json({ 
+      success: false, 
+      error: error instanceof Error ? error.message : "Failed to connect to S3 bucket" 
+    });
+  }
+}
+
+const ADAPTER_LABELS: Record<string, string> = {
+  local: "Local Storage",
+  r2: "R2 Storage",
+  s3: "S3-compatible Storage",
+};
+
 async function handleSwitchAdapter(formData: FormData) {
   const adapter = formData.get("adapter") as string;
   
-  if (!adapter || (adapter !== "local" && adapter !== "r2")) {
+  if (!adapter || !Object.hasOwn(ADAPTER_LABELS, adapter)) {
     return json({ success: false, message: "Invalid adapter type" });
   }
   
@@ -506,29 +563,56 @@ async function handleSwitchAdapter(formData: FormData) {
       existingContent = "ADMIN_USERNAME=admin\nADMIN_PASSWORD=admin123\n";
     }
     
+    // Variables to set: the adapter plus S3 settings when they were submitted
+    const updates: Record<string, string> = { STORAGE_ADAPTER: adapter };
+    if (adapter === "s3") {
+      const s3Config = s3ConfigFromForm(formData);
+      if (s3Config) {
+        updates["S3_ENDPOINT"] = s3Config.endpoint;
+        updates["S3_BUCKET_NAME"] = s3Config.bucketName;
+        updates["S3_ACCESS_KEY_ID"] = s3Config.accessKeyId;
+        updates["S3_SECRET_ACCESS_KEY"] = s3Config.secretAccessKey;
+        if (s3Config.region) updates["S3_REGION"] = s3Config.region;
+        if (s3Config.forcePathStyle === false) updates["S3_FORCE_PATH_STYLE"] = "false";
+      } else if (!/^S3_ENDPOINT=/m.test(existingContent)) {
+        return json({
+          success: false,
+          message: "S3 endpoint, bucket name and credentials are required to switch to S3 storage",
+        });
+      }
+    }
+
+    // A line break would let a submitted value add its own lines to .dev.vars
+    if (Object.values(updates).some((value) => /[\r\n]/.test(value))) {
+      return json({ success: false, message: "S3 settings cannot contain line breaks" });
+    }
+    
     // Parse existing vars
     const lines = existingContent.split("\n");
     const newLines: string[] = [];
-    let foundStorageAdapter = false;
+    const written = new Set<string>();
     
     for (const line of lines) {
-      const trimmed = line.trim();
-      if (trimmed.startsWith("STORAGE_ADAPTER=")) {
-        // Replace existing STORAGE_ADAPTER line
-        newLines.push(`STORAGE_ADAPTER=${adapter}`);
-        foundStorageAdapter = true;
+      const key = line.trim().split("=")[0];
+      if (key && Object.hasOwn(updates, key)) {
+        // Replace existing line
+        newLines.push(`${key}=${updates[key]}`);
+        written.add(key);
       } else {
         newLines.push(line);
       }
     }
     
-    // If STORAGE_ADAPTER wasn't found, add it
-    if (!foundStorageAdapter) {
+    // Append variables that weren't found
+    const missing = Object.keys(updates).filter((key) => !written.has(key));
+    if (missing.length > 0) {
       // Remove trailing empty lines
       while (newLines.length > 0 && newLines[newLines.length - 1].trim() === "") {
         newLines.pop();
       }
-      newLines.push(`STORAGE_ADAPTER=${adapter}`);
+      for (const key of missing) {
+        newLines.push(`${key}=${updates[key]}`);
+      }
       newLines.push(""); // Add final newline
     }
     
@@ -540,7 +624,7 @@ async function handleSwitchAdapter(formData: FormData) {
     
     return json({
       success: true,
-      message: `Storage adapter changed to "${adapter === "r2" ? "R2 Storage" : "Local Storage"}". Restart the server for changes to take effect.`,
+      message: `Storage adapter changed to "${ADAPTER_LABELS[adapter]}". Restart the server for changes to take effect.`,
       adapter,
       needsRestart: true,
       devVarsUpdated: true,
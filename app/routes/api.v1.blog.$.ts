@@ -8,19 +8,27 @@ import {
   normalizeRequestedSlug,
   resolveHeadlessBlogConfig,
 } from "~/lib/headless-blog";
-import { normalizeLocale, parseAcceptLanguage, type Locale } from "~/lib/i18n";
+import {
+  normalizeLocale,
+  parseAcceptLanguage,
+  siteLocales,
+  type Locale,
+} from "~/lib/i18n";
 import {
   readSiteLanguageSettings,
   type SiteLanguageSettings,
 } from "~/lib/site-languages.server";
-import { loadHeadlessBlogPosts } from "~/lib/headless-blog-storage.server";
+import {
+  loadHeadlessBlogPosts,
+  loadPhotoAltText,
+} from "~/lib/headless-blog-storage.server";
 
 function requestLocale(request: Request, settings: SiteLanguageSettings): Locale {
   if (!settings.multilingual) return settings.defaultLocale;
   const url = new URL(request.url);
   return (
     normalizeLocale(url.searchParams.get("locale")) ||
-    parseAcceptLanguage(request.headers.get("Accept-Language")) ||
+    parseAcceptLanguage(request.headers.get("Accept-Language"), siteLocales(settings)) ||
     settings.defaultLocale
   );
 }
@@ -49,6 +57,7 @@ export async function loader({ context, params, request }: LoaderFunctionArgs) {
       slug,
       resolveHeadlessBlogConfig(context, request),
       locale,
+      await loadPhotoAltText(storage, locale),
     );
 
     if (!payload) {
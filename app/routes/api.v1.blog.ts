@@ -7,7 +7,12 @@ import {
   headlessJsonResponse,
   resolveHeadlessBlogConfig,
 } from "~/lib/headless-blog";
-import { normalizeLocale, parseAcceptLanguage, type Locale } from "~/lib/i18n";
+import {
+  normalizeLocale,
+  parseAcceptLanguage,
+  siteLocales,
+  type Locale,
+} from "~/lib/i18n";
 import {
   readSiteLanguageSettings,
   type SiteLanguageSettings,
@@ -19,7 +24,7 @@ function requestLocale(request: Request, settings: SiteLanguageSettings): Locale
   const url = new URL(request.url);
   return (
     normalizeLocale(url.searchParams.get("locale")) ||
-    parseAcceptLanguage(request.headers.get("Accept-Language")) ||
+    parseAcceptLanguage(request.headers.get("Accept-Language"), siteLocales(settings)) ||
     settings.defaultLocale
   );
 }
@@ -0,0 +1,86 @@
+/**
+ * Public GeoJSON of geotagged photos, for embedding the map on other sites.
+ *
+ * GET /api/v1/photos/map?gallery=<slug>&locale=<locale>
+ *
+ * Only public galleries are included; `hideExactLocation` galleries report
+ * coarsened coordinates with `approximate: true`.
+ */
+
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/cloudflare";
+import { getAllGalleriesFromIndex, getStorage } from "~/lib/content-engine";
+import { headlessCorsPreflight } from "~/lib/headless-blog";
+import {
+  localizedPath,
+  normalizeLocale,
+  parseAcceptLanguage,
+  siteLocales,
+  type Locale,
+} from "~/lib/i18n";
+import {
+  buildPhotoMapGeoJson,
+  collectPhotoMapPoints,
+  photoMapPhotoPath,
+} from "~/lib/photo-map";
+import {
+  readSiteLanguageSettings,
+  type SiteLanguageSettings,
+} from "~/lib/site-languages.server";
+import { getOptimizedImageUrl } from "~/utils/image-optimization";
+
+function requestLocale(request: Request, settings: SiteLanguageSettings): Locale {
+  if (!settings.multilingual) return settings.defaultLocale;
+  const url = new URL(request.url);
+  return (
+    normalizeLocale(url.searchParams.get("locale")) ||
+    parseAcceptLanguage(request.headers.get("Accept-Language"), siteLocales(settings)) ||
+    settings.defaultLocale
+  );
+}
+
+function geoJsonResponse(body: unknown, status = 200, locale?: Locale): Response {
+  const headers = new Headers({
+    "Access-Control-Allow-Origin": "*",
+    "Cache-Control": status === 200
+      ? "public, max-age=60, s-maxage=300, stale-while-revalidate=86400"
+      : "no-store",
+    "Content-Type": status === 200 ? "application/geo+json; charset=utf-8" : "application/json; charset=utf-8",
+    "Vary": "Accept-Encoding, Accept-Language",
+    "X-Content-Type-Options": "nosniff",
+  });
+  if (locale) headers.set("Content-Language", locale);
+  return new Response(JSON.stringify(body), { status, headers });
+}
+
+export async function loader({ context, request }: LoaderFunctionArgs) {
+  if (request.method === "OPTIONS") return headlessCorsPreflight();
+
+  try {
+    const url = new URL(request.url);
+    const storage = getStorage(context, request);
+    const siteLanguages = await readSiteLanguageSettings(storage);
+    const locale = requestLocale(request, siteLanguages);
+    const gallerySlug = url.searchParams.get("gallery")?.replace(/^\/+|\/+$/g, "") || undefined;
+    const points = collectPhotoMapPoints(await getAllGalleriesFromIndex(storage, locale), { gallerySlug });
+
+    return geoJsonResponse(
+      buildPhotoMapGeoJson(points, {
+        photo: (point) => new URL(localizedPath(locale, photoMapPhotoPath(point)), url.origin).href,
+        image: (point) => new URL(getOptimizedImageUrl(point.path, { width: 800 }), url.origin).href,
+      }),
+      200,
+      locale,
+    );
+  } catch (error) {
+    console.error("[Photo Map] Failed to build the GeoJSON feed.", error);
+    return geoJsonResponse({ error: "The photo map is temporarily unavailable." }, 500);
+  }
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  if (request.method === "OPTIONS") return headlessCorsPreflight();
+
+  const response = geoJsonResponse({ error: "Only GET, HEAD and OPTIONS are supported." }, 405);
+  response.headers.set("Allow", "GET, HEAD, OPTIONS");
+  return response;
+}
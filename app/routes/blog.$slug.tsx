@@ -8,12 +8,12 @@
 import type { MetaFunction, LoaderFunctionArgs } from "@remix-run/cloudflare";
 import { useLoaderData } from "@remix-run/react";
 import { json } from "@remix-run/cloudflare";
-import { getPostBySlug, getStorage, getNavigationFromIndex, localizeBlogPost } from "~/lib/content-engine";
+import { getPostBySlug, getStorage, getNavigationFromIndex, isPostPublished, localizeBlogPost } from "~/lib/content-engine";
 import { Layout } from "~/components/Layout";
 import { BlogPostContent } from "~/components/BlogPostContent";
 import { NewsletterSignup } from "~/components/NewsletterSignup";
 import { generateMetaTags, getBaseUrl, buildImageUrl } from "~/utils/seo";
-import { photoMessages } from "~/lib/i18n";
+import { photoMessagesFor, hreflangLinks } from "~/lib/i18n";
 import { localizedAlternates, requireRouteLocale } from "~/lib/i18n.server";
 import { isNewsletterConfigured } from "~/lib/newsletter/config.server";
 import { readSiteLanguageSettings } from "~/lib/site-languages.server";
@@ -39,8 +39,7 @@ export const meta: MetaFunction<typeof loader> = ({ data, params }) => {
   });
   return [
     ...tags,
-    ...(data.alternates.es ? [{ tagName: "link" as const, rel: "alternate", hrefLang: "es", href: data.alternates.es }] : []),
-    ...(data.alternates.en ? [{ tagName: "link" as const, rel: "alternate", hrefLang: "en", href: data.alternates.en }] : []),
+    ...hreflangLinks(data.alternates),
     ...(data.alternates.xDefault ? [{ tagName: "link" as const, rel: "alternate", hrefLang: "x-default", href: data.alternates.xDefault }] : []),
   ];
 };
@@ -61,7 +60,7 @@ export async function loader({ params, context, request }: LoaderFunctionArgs) {
     getNavigationFromIndex(storage, locale),
   ]);
 
-  if (!rawPost || rawPost.draft) {
+  if (!rawPost || !isPostPublished(rawPost)) {
     throw new Response(locale === "es" ? "Artículo no encontrado" : "Post not found", { status: 404 });
   }
 
@@ -124,7 +123,7 @@ export default function BlogPostPage() {
     locale,
     newsletterEnabled,
   } = useLoaderData<typeof loader>();
-  const messages = photoMessages[locale];
+  const messages = photoMessagesFor(locale);
 
   const handleShare = async () => {
     const url = window.location.href;
@@ -8,17 +8,19 @@
 import type { MetaFunction, LoaderFunctionArgs } from "@remix-run/cloudflare";
 import { useLoaderData, Link } from "@remix-run/react";
 import { json } from "@remix-run/cloudflare";
-import { getStorage, getNavigationFromIndex, localizeBlogPost } from "~/lib/content-engine";
+import { getStorage, getNavigationFromIndex, isPostPublished, localizeBlogPost } from "~/lib/content-engine";
 import { Layout } from "~/components/Layout";
 import { GalleryBreadcrumb } from "~/components/GalleryBreadcrumb";
 import { BlogPostContent } from "~/components/BlogPostContent";
 import { NewsletterSignup } from "~/components/NewsletterSignup";
-import { localizedPath, photoMessages } from "~/lib/i18n";
+import { localizedPath, photoMessagesFor, hreflangLinks } from "~/lib/i18n";
 import { localizedAlternates, requireRouteLocale } from "~/lib/i18n.server";
 import { isNewsletterConfigured } from "~/lib/newsletter/config.server";
 import { readSiteLanguageSettings } from "~/lib/site-languages.server";
 import { loadHeadlessBlogPosts } from "~/lib/headless-blog-storage.server";
 import { filterPostsByBlogCategory } from "~/lib/blog-categories";
+import { feedDiscoveryLinks, feedUrls } from "~/lib/feed-urls";
+import { getBaseUrl } from "~/utils/seo";
 
 export { mergeLocalizedRouteHeaders as headers } from "~/lib/i18n.server";
 
@@ -29,9 +31,9 @@ export const meta: MetaFunction<typeof loader> = ({ data }) => {
     { name: "description", content: spanish ? "Blog de Victoriano Izquierdo" : "Blog by Victoriano Izquierdo" },
     ...(data ? [
       { tagName: "link" as const, rel: "canonical", href: data.alternates.canonical },
-      ...(data.alternates.es ? [{ tagName: "link" as const, rel: "alternate", hrefLang: "es", href: data.alternates.es }] : []),
-      ...(data.alternates.en ? [{ tagName: "link" as const, rel: "alternate", hrefLang: "en", href: data.alternates.en }] : []),
+      ...hreflangLinks(data.alternates),
       ...(data.alternates.xDefault ? [{ tagName: "link" as const, rel: "alternate", hrefLang: "x-default", href: data.alternates.xDefault }] : []),
+      ...feedDiscoveryLinks("Blog — Victoriano Izquierdo", data.feeds),
     ] : []),
   ];
 };
@@ -48,7 +50,7 @@ export async function loader({ context, request, params }: LoaderFunctionArgs) {
 
   // Filter published posts and sort by date
   const publishedPosts = allPosts
-    .filter(p => !p.draft)
+    .filter(p => isPostPublished(p))
     .sort((a, b) => {
       const dateA = a.date ? new Date(a.date).getTime() : 0;
       const dateB = b.date ? new Date(b.date).getTime() : 0;
@@ -66,6 +68,7 @@ export async function loader({ context, request, params }: LoaderFunctionArgs) {
     siteName: "Victoriano Izquierdo",
     locale,
     alternates,
+    feeds: feedUrls(getBaseUrl(request), locale, { kind: "blog" }),
     newsletterEnabled: isNewsletterConfigured(context, request),
     socialLinks: {
       instagram: "https://instagram.com/victoriano",
@@ -85,7 +88,7 @@ export default function BlogIndex() {
     locale,
     newsletterEnabled,
   } = useLoaderData<typeof loader>();
-  const messages = photoMessages[locale];
+  const messages = photoMessagesFor(locale);
 
   return (
     <Layout
@@ -16,8 +16,8 @@ import { CrossfadePhoto } from "~/components/CrossfadePhoto";
 import { useEffect, useCallback, useMemo, useRef, useState } from "react";
 import yaml from "js-yaml";
 import { usePhotoPreloading } from "~/hooks/usePhotoNavigation";
-import { getOptimizedImageUrl, getOriginalImageUrl } from "~/utils/image-optimization";
-import { localizedPath, photoMessages } from "~/lib/i18n";
+import { getOptimizedImageUrl, getOriginalImageUrl, photoAltText } from "~/utils/image-optimization";
+import { localizedPath, photoMessagesFor, hreflangLinks } from "~/lib/i18n";
 import { localizedAlternates, requireRouteLocale } from "~/lib/i18n.server";
 import { readSiteLanguageSettings } from "~/lib/site-languages.server";
 import { captureAnalyticsEvent } from "~/lib/analytics";
@@ -39,8 +39,7 @@ export const meta: MetaFunction<typeof loader> = ({ data, params }) => {
     { title: `${data.photo.title || data.photo.filename} - ${data.locale === "es" ? "Destacada" : "Featured"}` },
     { name: "description", content: data.locale === "es" ? "Foto destacada" : "Featured photo" },
     { tagName: "link", rel: "canonical", href: data.alternates.canonical },
-    ...(data.alternates.es ? [{ tagName: "link" as const, rel: "alternate", hrefLang: "es", href: data.alternates.es }] : []),
-    ...(data.alternates.en ? [{ tagName: "link" as const, rel: "alternate", hrefLang: "en", href: data.alternates.en }] : []),
+    ...hreflangLinks(data.alternates),
     ...(data.alternates.xDefault ? [{ tagName: "link" as const, rel: "alternate", hrefLang: "x-default", href: data.alternates.xDefault }] : []),
   ];
 };
@@ -49,7 +48,7 @@ export async function loader({ params, context, request }: LoaderFunctionArgs) {
   const storage = getStorage(context, request);
   const siteLanguages = await readSiteLanguageSettings(storage);
   const locale = requireRouteLocale(request, params.locale, siteLanguages);
-  const messages = photoMessages[locale];
+  const messages = photoMessagesFor(locale);
   const index = parseInt(params.index || "0", 10);
   
   // Try to load home.yaml config for custom photo selection
@@ -141,7 +140,7 @@ export default function FeaturedPhotoPage() {
     socialLinks,
     locale,
   } = useLoaderData<typeof loader>();
-  const messages = photoMessages[locale];
+  const messages = photoMessagesFor(locale);
   const previousPhotoRef = useRef<{
     filename: string;
     index: number;
@@ -291,7 +290,7 @@ export default function FeaturedPhotoPage() {
           <CrossfadePhoto
             photoKey={photo.path}
             src={displayUrl}
-            alt={photo.title || photo.filename}
+            alt={photoAltText(photo)}
             priority
             containerClassName="w-full"
             className="w-full object-contain select-none"
@@ -380,7 +379,7 @@ export default function FeaturedPhotoPage() {
           <CrossfadePhoto
             photoKey={photo.path}
             src={displayUrl}
-            alt={photo.title || photo.filename}
+            alt={photoAltText(photo)}
             priority
             containerClassName="h-full w-full"
             className="max-h-full max-w-full object-contain pointer-events-none select-none"
@@ -0,0 +1,67 @@
+/**
+ * Syndication Feeds
+ *
+ * GET /feeds/blog/rss.xml | atom.xml | feed.json
+ * GET /feeds/gallery/:slug/rss.xml | atom.xml | feed.json
+ * GET /:locale/feeds/... (other language editions)
+ *
+ * Blog feeds carry full post bodies from the headless blog contract. Gallery
+ * feeds list recently added photos and are only served for public galleries.
+ */
+
+import type { LoaderFunctionArgs } from "@remix-run/cloudflare";
+import {
+  getAllGalleriesFromIndex,
+  getStorage,
+  isPublicPhotoGallery,
+} from "~/lib/content-engine";
+import { feedUrls, parseFeedPath } from "~/lib/feed-urls";
+import { buildBlogFeed, buildGalleryFeed, renderFeed, type Feed } from "~/lib/feeds";
+import { resolveHeadlessBlogConfig } from "~/lib/headless-blog";
+import { loadHeadlessBlogPosts } from "~/lib/headless-blog-storage.server";
+import { normalizeLocale, siteLocales } from "~/lib/i18n";
+import { readSiteLanguageSettings } from "~/lib/site-languages.server";
+import { getBaseUrl } from "~/utils/seo";
+
+export async function loader({ params, context, request }: LoaderFunctionArgs) {
+  const target = parseFeedPath(params["*"]);
+  if (!target) throw new Response("Feed not found", { status: 404 });
+
+  const storage = getStorage(context, request);
+  const siteLanguages = await readSiteLanguageSettings(storage);
+  const locale = params.locale ? normalizeLocale(params.locale) : siteLanguages.defaultLocale;
+  if (!locale || !siteLocales(siteLanguages).includes(locale)) {
+    throw new Response("Feed not found", { status: 404 });
+  }
+
+  const baseUrl = getBaseUrl(request);
+  const blogConfig = resolveHeadlessBlogConfig(context, request);
+  let feed: Feed;
+
+  if (target.kind === "blog") {
+    const posts = await loadHeadlessBlogPosts(storage);
+    feed = buildBlogFeed(posts, blogConfig, locale, feedUrls(baseUrl, locale, target));
+  } else {
+    const galleries = await getAllGalleriesFromIndex(storage, locale);
+    const gallery = galleries.find((candidate) => candidate.slug === target.slug);
+    if (!gallery || !isPublicPhotoGallery(gallery)) {
+      throw new Response("Feed not found", { status: 404 });
+    }
+    feed = buildGalleryFeed(gallery, {
+      baseUrl,
+      locale,
+      siteName: blogConfig.siteName,
+      urls: feedUrls(baseUrl, locale, target),
+    });
+  }
+
+  const { body, contentType } = renderFeed(feed, target.format);
+  return new Response(body, {
+    headers: {
+      "Content-Type": contentType,
+      "Content-Language": locale,
+      "Cache-Control": "public, max-age=900, s-maxage=3600",
+      "Cloudflare-CDN-Cache-Control": "public, s-maxage=3600, stale-while-revalidate=86400",
+    },
+  });
+}
@@ -9,26 +9,44 @@
 
 import type { MetaFunction, LoaderFunctionArgs } from "@remix-run/cloudflare";
 import { useLoaderData, Link } from "@remix-run/react";
-import { json } from "@remix-run/cloudflare";
+import { json, redirect } from "@remix-run/cloudflare";
 import { useEffect } from "react";
 import { 
   getStorage, 
   getNavigationFromIndex, 
   getAllGalleriesFromIndex,
+  filterPublishedGalleries,
   normalizeGalleryThumbnailAspectRatio,
   type GalleryDataEntry,
   type GalleryPhotoEntry,
 } from "~/lib/content-engine";
 import { Layout, PhotoGrid, PhotoItem } from "~/components/Layout";
+import { PhotoMap } from "~/components/PhotoMap";
 import { PasswordProtectedGallery } from "~/components/PasswordProtectedGallery";
 import { GalleryBreadcrumb } from "~/components/GalleryBreadcrumb";
 export { mergeLocalizedRouteHeaders as headers } from "~/lib/i18n.server";
 import { generateMetaTags, getBaseUrl, buildImageUrl } from "~/utils/seo";
+import { photoAltText } from "~/utils/image-optimization";
 import { isGalleryAuthenticated } from "~/utils/gallery-auth";
-import { localizedPath, photoMessages, type Locale } from "~/lib/i18n";
+import {
+  addGalleryShareToken,
+  getGalleryShareLinks,
+  recordGalleryShareAccess,
+  shareCoversGallery,
+  verifyGalleryShareToken,
+} from "~/utils/gallery-shares";
+import { getGalleryDownloadAccess } from "~/lib/gallery-downloads.server";
+import { localizedPath, photoMessagesFor, type Locale, hreflangLinks } from "~/lib/i18n";
 import { localizedAlternates, requireRouteLocale } from "~/lib/i18n.server";
 import { readSiteLanguageSettings } from "~/lib/site-languages.server";
 import { captureAnalyticsEvent } from "~/lib/analytics";
+import { feedDiscoveryLinks, feedUrls } from "~/lib/feed-urls";
+import {
+  collectPhotoMapPoints,
+  photoMapPhotoPath,
+  resolvePhotoMapTiles,
+} from "~/lib/photo-map";
+import { getOptimizedImageUrl } from "~/utils/image-optimization";
 
 const PHOTOS_PER_PAGE = 50;
 
@@ -50,7 +68,7 @@ export const meta: MetaFunction<typeof loader> = ({ data, params }) => {
   if (!data?.gallery) {
     return [{ title: `${params.locale === "es" ? "Galería no encontrada" : "Gallery not found"} - VictoPress` }];
   }
-  const messages = photoMessages[data.locale];
+  const messages = photoMessagesFor(data.locale);
 
   // For protected galleries, show generic title
   if (data.isProtected && !data.isAuthenticated) {
@@ -80,9 +98,9 @@ export const meta: MetaFunction<typeof loader> = ({ data, params }) => {
   });
   return [
     ...tags,
-    ...(data.alternates.es ? [{ tagName: "link" as const, rel: "alternate", hrefLang: "es", href: data.alternates.es }] : []),
-    ...(data.alternates.en ? [{ tagName: "link" as const, rel: "alternate", hrefLang: "en", href: data.alternates.en }] : []),
+    ...hreflangLinks(data.alternates),
     ...(data.alternates.xDefault ? [{ tagName: "link" as const, rel: "alternate", hrefLang: "x-default", href: data.alternates.xDefault }] : []),
+    ...(data.feeds ? feedDiscoveryLinks(`${gallery.title} - ${data.siteName}`, data.feeds) : []),
   ];
 };
 
@@ -90,7 +108,7 @@ export async function loader({ params, context, request }: LoaderFunctionArgs) {
   const storage = getStorage(context, request);
   const siteLanguages = await readSiteLanguageSettings(storage);
   const locale = requireRouteLocale(request, params.locale, siteLanguages);
-  const messages = photoMessages[locale];
+  const messages = photoMessagesFor(locale);
   const slug = params["*"];
   if (!slug) {
     throw new Response(messages.galleryNotFound, { status: 404 });
@@ -104,7 +122,7 @@ export async function loader({ params, context, request }: LoaderFunctionArgs) {
   ]);
   
   // Filter public galleries
-  const publicGalleries = allGalleries
+  const publicGalleries = filterPublishedGalleries(allGalleries)
     .filter((g) => !g.isProtected || g.photoCount > 0)
     .sort((a, b) => (a.order ?? 999) - (b.order ?? 999));
 
@@ -197,19 +215,57 @@ export async function loader({ params, context, request }: LoaderFunctionArgs) {
   const ogImage = buildImageUrl(baseUrl, displayGallery.cover);
 
   // Check if gallery is password protected
+  const url = new URL(request.url);
   const isProtected = !!displayGallery.password;
   let isAuthenticated = false;
+  let shareLinkInvalid = false;
 
   if (isProtected) {
+    // A share link (?share=token) stands in for the password. Valid tokens
+    // move into a cookie and the visitor is sent back to the clean URL so the
+    // token does not linger in history or referrers.
+    const shareToken = url.searchParams.get("share");
+    if (shareToken) {
+      const share = await verifyGalleryShareToken(storage, shareToken);
+      if (share && shareCoversGallery(share, displayGallery.slug)) {
+        url.searchParams.delete("share");
+        throw redirect(url.pathname + url.search, {
+          headers: { "Set-Cookie": await addGalleryShareToken(request, shareToken) },
+        });
+      }
+      shareLinkInvalid = true;
+    }
+
     isAuthenticated = await isGalleryAuthenticated(request, displayGallery.slug);
+    if (!isAuthenticated) {
+      const share = (await getGalleryShareLinks(request, storage)).find((link) =>
+        shareCoversGallery(link, displayGallery.slug),
+      );
+      if (share) {
+        isAuthenticated = true;
+        await recordGalleryShareAccess(storage, share, "gallery", displayGallery.slug);
+      }
+    }
   }
 
+  // Only galleries with their own index entry offer an archive download.
+  const download = gallery && (!isProtected || isAuthenticated)
+    ? await getGalleryDownloadAccess(request, storage, gallery)
+    : null;
+
   // If protected and not authenticated, don't expose photos
   const exposedPhotos = isProtected && !isAuthenticated ? [] : allPhotos;
   const exposedOgImage = isProtected && !isAuthenticated ? null : ogImage;
+  const mapPoints = isProtected && !isAuthenticated
+    ? []
+    : collectPhotoMapPoints(allGalleries, {
+        gallerySlug: displayGallery.slug,
+        includeProtected: isAuthenticated,
+      });
+  const view: "photos" | "map" =
+    url.searchParams.get("view") === "map" && mapPoints.length > 0 ? "map" : "photos";
 
   // Pagination
-  const url = new URL(request.url);
   const page = Math.max(1, parseInt(url.searchParams.get("page") || "1", 10));
   const totalPhotos = exposedPhotos.length;
   const totalPages = Math.ceil(totalPhotos / PHOTOS_PER_PAGE);
@@ -220,6 +276,20 @@ export async function loader({ params, context, request }: LoaderFunctionArgs) {
   return json({
     isProtected,
     isAuthenticated,
+    shareLinkInvalid,
+    downloadAllUrl: download && allPhotos.length > 0 ? `/api/downloads/gallery/${displayGallery.slug}` : null,
+    view,
+    mapPointCount: mapPoints.length,
+    map: view === "map"
+      ? {
+          points: mapPoints.map((point) => ({
+            ...point,
+            href: localizedPath(locale, photoMapPhotoPath(point)),
+            thumbnailUrl: getOptimizedImageUrl(point.path, { width: 800 }),
+          })),
+          tiles: resolvePhotoMapTiles(context),
+        }
+      : null,
     gallery: {
       ...displayGallery,
       photos: paginatedPhotos,
@@ -238,6 +308,8 @@ export async function loader({ params, context, request }: LoaderFunctionArgs) {
     ogImage: exposedOgImage,
     locale,
     alternates,
+    // Only galleries with their own index entry have a recently-added feed.
+    feeds: gallery && !isProtected ? feedUrls(baseUrl, locale, { kind: "gallery", slug: gallery.slug }) : null,
     socialLinks: {
       instagram: "https://instagram.com/victoriano",
       twitter: "https://twitter.com/victoriano",
@@ -248,8 +320,9 @@ export async function loader({ params, context, request }: LoaderFunctionArgs) {
 }
 
 export default function GalleryPage() {
-  const { gallery, navigation, siteName, socialLinks, isProtected, isAuthenticated, pagination, locale } =
+  const { gallery, navigation, siteName, socialLinks, isProtected, isAuthenticated, shareLinkInvalid, downloadAllUrl, pagination, locale, view, mapPointCount, map } =
     useLoaderData<typeof loader>();
+  const messages = photoMessagesFor(locale);
 
   useEffect(() => {
     if (isProtected && !isAuthenticated) return;
@@ -278,6 +351,7 @@ export default function GalleryPage() {
         gallerySlug={gallery.slug}
         galleryTitle={gallery.title}
         redirectTo={localizedPath(locale, `/gallery/${gallery.slug}`)}
+        error={shareLinkInvalid ? photoMessagesFor(locale).shareLinkUnavailable : undefined}
         locale={locale}
       />
     );
@@ -292,24 +366,45 @@ export default function GalleryPage() {
     >
       {/* Mobile Breadcrumb Navigation */}
       <GalleryBreadcrumb currentSlug={gallery.slug} navigation={navigation} locale={locale} />
-      
-      <PhotoGrid layout={gallery.thumbnailAspectRatio}>
-        {gallery.photos.map((photo, index) => (
-          <PhotoItem
-            key={photo.path}
-            src={`/api/images/${photo.path}`}
-            alt={photo.title || photo.filename}
-            width={photo.exif?.width}
-            height={photo.exif?.height}
-            href={localizedPath(locale, `/photo/${(photo as any).gallerySlug}/${photo.filename}`)}
-            aspectRatio={gallery.thumbnailAspectRatio}
-            priority={index === 0}
-          />
-        ))}
-      </PhotoGrid>
+
+      {mapPointCount > 0 && (
+        <GalleryViewTabs gallerySlug={gallery.slug} view={view} locale={locale} />
+      )}
+
+      {map ? (
+        <div className="px-4 pb-8">
+          <PhotoMap points={map.points} tiles={map.tiles} messages={messages} />
+        </div>
+      ) : (
+        <PhotoGrid layout={gallery.thumbnailAspectRatio}>
+          {gallery.photos.map((photo, index) => (
+            <PhotoItem
+              key={photo.path}
+              src={`/api/images/${photo.path}`}
+              alt={photoAltText(photo)}
+              width={photo.exif?.width}
+              height={photo.exif?.height}
+              href={localizedPath(locale, `/photo/${(photo as any).gallerySlug}/${photo.filename}`)}
+              aspectRatio={gallery.thumbnailAspectRatio}
+              priority={index === 0}
+            />
+          ))}
+        </PhotoGrid>
+      )}
+
+      {downloadAllUrl && (
+        <div className="px-4 py-6 text-center">
+          <a
+            href={downloadAllUrl}
+            className="text-sm text-gray-600 underline hover:text-black dark:text-gray-300 dark:hover:text-white"
+          >
+            {messages.downloadAll}
+          </a>
+        </div>
+      )}
 
       {/* Pagination */}
-      {pagination.totalPages > 1 && (
+      {!map && pagination.totalPages > 1 && (
         <Pagination
           currentPage={pagination.page}
           totalPages={pagination.totalPages}
@@ -321,6 +416,39 @@ export default function GalleryPage() {
   );
 }
 
+/**
+ * Photos / Map switch, shown only when the gallery has geotagged photos
+ */
+function GalleryViewTabs({
+  gallerySlug,
+  view,
+  locale,
+}: {
+  gallerySlug: string;
+  view: "photos" | "map";
+  locale: Locale;
+}) {
+  const messages = photoMessagesFor(locale);
+  const basePath = localizedPath(locale, `/gallery/${gallerySlug}`);
+  const tabClass = (active: boolean) =>
+    `border-b-2 px-1 pb-2 text-sm transition-colors ${
+      active
+        ? "border-black text-black dark:border-white dark:text-white"
+        : "border-transparent text-gray-500 hover:text-black dark:text-gray-400 dark:hover:text-white"
+    }`;
+
+  return (
+    <nav className="flex gap-6 px-4 pb-4">
+      <Link to={basePath} className={tabClass(view === "photos")} aria-current={view === "photos" ? "page" : undefined}>
+        {messages.photosView}
+      </Link>
+      <Link to={`${basePath}?view=map`} className={tabClass(view === "map")} aria-current={view === "map" ? "page" : undefined}>
+        {messages.map}
+      </Link>
+    </nav>
+  );
+}
+
 /**
  * Pagination Component
  */
@@ -335,7 +463,7 @@ function Pagination({
   gallerySlug: string;
   locale: Locale;
 }) {
-  const messages = photoMessages[locale];
+  const messages = photoMessagesFor(locale);
   // Generate page numbers to show
   const getPageNumbers = () => {
     const pages: (number | "...")[] = [];
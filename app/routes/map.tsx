@@ -0,0 +1,84 @@
+import type { LoaderFunctionArgs, MetaFunction } from "@remix-run/cloudflare";
+import { json } from "@remix-run/cloudflare";
+import { useLoaderData } from "@remix-run/react";
+import { GalleryBreadcrumb } from "~/components/GalleryBreadcrumb";
+import { Layout } from "~/components/Layout";
+import { PhotoMap } from "~/components/PhotoMap";
+import {
+  getAllGalleriesFromIndex,
+  getNavigationFromIndex,
+  getStorage,
+} from "~/lib/content-engine";
+import { localizedPath, photoMessagesFor } from "~/lib/i18n";
+import { requireRouteLocale } from "~/lib/i18n.server";
+import {
+  collectPhotoMapPoints,
+  photoMapPhotoPath,
+  resolvePhotoMapTiles,
+} from "~/lib/photo-map";
+import { readSiteLanguageSettings } from "~/lib/site-languages.server";
+import { getOptimizedImageUrl } from "~/utils/image-optimization";
+
+export { mergeLocalizedRouteHeaders as headers } from "~/lib/i18n.server";
+
+export const meta: MetaFunction<typeof loader> = ({ data }) => {
+  const locale = data?.locale || "es";
+  const messages = photoMessagesFor(locale);
+  return [
+    { title: `${messages.map} — Victoriano Izquierdo` },
+    { name: "description", content: messages.mapMetaDescription },
+  ];
+};
+
+export async function loader({ context, request, params }: LoaderFunctionArgs) {
+  const storage = getStorage(context, request);
+  const siteLanguages = await readSiteLanguageSettings(storage);
+  const locale = requireRouteLocale(request, params.locale, siteLanguages);
+  const [navigation, galleries] = await Promise.all([
+    getNavigationFromIndex(storage, locale),
+    getAllGalleriesFromIndex(storage, locale),
+  ]);
+  const points = collectPhotoMapPoints(galleries).map((point) => ({
+    ...point,
+    href: localizedPath(locale, photoMapPhotoPath(point)),
+    thumbnailUrl: getOptimizedImageUrl(point.path, { width: 800 }),
+  }));
+
+  return json({
+    navigation,
+    points,
+    tiles: resolvePhotoMapTiles(context),
+    siteName: "Victoriano Izquierdo",
+    locale,
+    socialLinks: {
+      instagram: "https://instagram.com/victoriano",
+      twitter: "https://twitter.com/victoriano",
+      linkedin: "https://linkedin.com/in/victoriano",
+      facebook: "https://facebook.com/victoriano",
+    },
+  });
+}
+
+export default function MapPage() {
+  const { navigation, points, tiles, siteName, socialLinks, locale } = useLoaderData<typeof loader>();
+  const messages = photoMessagesFor(locale);
+
+  return (
+    <Layout navigation={navigation} siteName={siteName} socialLinks={socialLinks} locale={locale}>
+      <GalleryBreadcrumb navigation={navigation} locale={locale} />
+
+      <section className="mx-auto max-w-7xl px-5 py-10 sm:px-8 sm:py-14">
+        <header className="mb-8 max-w-4xl">
+          <h1 className="text-3xl font-bold tracking-tight text-black dark:text-white sm:text-4xl">
+            {messages.mapTitle}
+          </h1>
+          <p className="mt-3 text-sm leading-6 text-gray-500 dark:text-gray-400 sm:text-base">
+            {messages.mapDescription}
+          </p>
+        </header>
+
+        <PhotoMap points={points} tiles={tiles} messages={messages} />
+      </section>
+    </Layout>
+  );
+}
@@ -0,0 +1,33 @@
+import { redirect } from "@remix-run/cloudflare";
+import type { LoaderFunctionArgs } from "@remix-run/cloudflare";
+import { getStorage } from "~/lib/content-engine";
+import { resolveNewsletterConfig } from "~/lib/newsletter/config.server";
+import { trackNewsletterClickToken } from "~/lib/newsletter/newsletter-service.server";
+
+const responseHeaders = {
+  "Cache-Control": "private, no-store, max-age=0",
+  "Referrer-Policy": "no-referrer",
+  "X-Robots-Tag": "noindex, nofollow, noarchive",
+};
+
+export async function loader({ request, context }: LoaderFunctionArgs) {
+  const url = new URL(request.url);
+  const config = resolveNewsletterConfig(context, request);
+  let destination: string | null = null;
+  try {
+    destination = await trackNewsletterClickToken({
+      storage: getStorage(context, request),
+      config,
+      token: url.searchParams.get("token") || "",
+      url: url.searchParams.get("url") || "",
+      record: request.method === "GET",
+    });
+  } catch (error) {
+    console.error("[Newsletter] Could not resolve a tracked link.", error);
+  }
+
+  // Links that cannot be verified go to the site instead of an arbitrary URL
+  return redirect(destination || new URL("/", `${config.baseUrl}/`).toString(), {
+    headers: responseHeaders,
+  });
+}
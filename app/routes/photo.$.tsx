@@ -12,11 +12,12 @@ import type {
   MetaFunction,
 } from "@remix-run/cloudflare";
 import { useLoaderData, Link, useNavigate } from "@remix-run/react";
-import { json } from "@remix-run/cloudflare";
+import { json, redirect } from "@remix-run/cloudflare";
 import { 
   getStorage, 
   getNavigationFromIndex, 
   getGalleryFromIndex,
+  isWithinPublicationWindow,
   type GalleryPhotoEntry,
 } from "~/lib/content-engine";
 import { Layout } from "~/components/Layout";
@@ -30,12 +31,16 @@ import {
   generateSrcSet,
   getOptimizedImageUrl,
   getOriginalImageUrl,
+  photoAltText,
   type ImagePreloadSource,
 } from "~/utils/image-optimization";
-import { localizedPath, photoMessages } from "~/lib/i18n";
+import { localizedPath, photoMessagesFor, hreflangLinks } from "~/lib/i18n";
 import { localizedAlternates, requireRouteLocale } from "~/lib/i18n.server";
 import { readSiteLanguageSettings } from "~/lib/site-languages.server";
 import { captureAnalyticsEvent } from "~/lib/analytics";
+import { isGalleryAuthenticated } from "~/utils/gallery-auth";
+import { getGalleryShareLinks, shareCoversGallery } from "~/utils/gallery-shares";
+import { galleryDownloadAccess } from "~/lib/gallery-downloads.server";
 
 // The desktop photo area is the viewport minus the 16rem sidebar and 4rem padding.
 // Giving the browser the real slot size lets Retina displays select the 2400w variant.
@@ -65,8 +70,7 @@ export const meta: MetaFunction<typeof loader> = ({ data, params }) => {
   });
   return [
     ...tags,
-    ...(data.alternates.es ? [{ tagName: "link" as const, rel: "alternate", hrefLang: "es", href: data.alternates.es }] : []),
-    ...(data.alternates.en ? [{ tagName: "link" as const, rel: "alternate", hrefLang: "en", href: data.alternates.en }] : []),
+    ...hreflangLinks(data.alternates),
     ...(data.alternates.xDefault ? [{ tagName: "link" as const, rel: "alternate", hrefLang: "x-default", href: data.alternates.xDefault }] : []),
   ];
 };
@@ -75,7 +79,7 @@ export async function loader({ params, context, request }: LoaderFunctionArgs) {
   const storage = getStorage(context, request);
   const siteLanguages = await readSiteLanguageSettings(storage);
   const locale = requireRouteLocale(request, params.locale, siteLanguages);
-  const messages = photoMessages[locale];
+  const messages = photoMessagesFor(locale);
   const path = params["*"];
   if (!path) {
     throw new Response(messages.photoNotFound, { status: 404 });
@@ -97,10 +101,18 @@ export async function loader({ params, context, request }: LoaderFunctionArgs) {
     getNavigationFromIndex(storage, locale),
   ]);
 
-  if (!gallery) {
+  if (!gallery || !isWithinPublicationWindow(gallery)) {
     throw new Response(messages.galleryNotFound, { status: 404 });
   }
 
+  // Password-protected photos need the gallery password or a share link;
+  // the gallery page asks for whichever is missing.
+  const shares = await getGalleryShareLinks(request, storage);
+  const passwordUnlocked = !gallery.password || await isGalleryAuthenticated(request, gallery.slug);
+  if (!passwordUnlocked && !shares.some((link) => shareCoversGallery(link, gallery.slug))) {
+    throw redirect(localizedPath(locale, `/gallery/${gallery.slug}`));
+  }
+
   // Find the photo
   const photos = gallery.photos.filter((p) => !p.hidden);
   const photoIndex = photos.findIndex(
@@ -119,6 +131,7 @@ export async function loader({ params, context, request }: LoaderFunctionArgs) {
   // Uses 1600w variant (good balance of quality and size)
   const photoUrl = getOptimizedImageUrl(photo.path, { width: 1600 });
   const originalPhotoUrl = getOriginalImageUrl(photo.path); // Fallback
+  const download = galleryDownloadAccess(gallery, { shares, passwordUnlocked });
   
   const siteName = "Victoriano Izquierdo";
   const alternates = localizedAlternates(
@@ -135,6 +148,10 @@ export async function loader({ params, context, request }: LoaderFunctionArgs) {
       photo,
       photoUrl,
       originalPhotoUrl,
+      download: download && {
+        url: `/api/downloads/photo/${gallery.slug}/${encodeURIComponent(photo.filename)}`,
+        size: download.size,
+      },
       gallery: {
         slug: gallery.slug,
         title: gallery.title,
@@ -176,6 +193,7 @@ export default function PhotoPage() {
     photo,
     photoUrl,
     originalPhotoUrl,
+    download,
     gallery,
     gallerySlug,
     prevPhoto,
@@ -189,7 +207,7 @@ export default function PhotoPage() {
     canonicalUrl,
     ogImage,
   } = useLoaderData<typeof loader>();
-  const messages = photoMessages[locale];
+  const messages = photoMessagesFor(locale);
   const previousPhotoRef = useRef<{
     filename: string;
     gallerySlug: string;
@@ -392,7 +410,7 @@ export default function PhotoPage() {
             src={currentPhotoUrl}
             srcSet={currentPhotoSrcSet}
             sizes={PHOTO_SIZES}
-            alt={photo.title || photo.filename}
+            alt={photoAltText(photo)}
             width={photo.exif?.width}
             height={photo.exif?.height}
             loading="eager"
@@ -433,6 +451,14 @@ export default function PhotoPage() {
             {photoYear && (
               <p className="text-[12px] text-gray-400 dark:text-gray-500">{photoYear}</p>
             )}
+            {download && (
+              <a
+                href={download.url}
+                className="inline-block pt-1 text-[12px] text-gray-600 underline dark:text-gray-300"
+              >
+                {download.size === "original" ? messages.downloadOriginal : messages.downloadPhoto}
+              </a>
+            )}
           </div>
 
           {/* Navigation */}
@@ -480,7 +506,7 @@ export default function PhotoPage() {
             src={currentPhotoUrl}
             srcSet={currentPhotoSrcSet}
             sizes={PHOTO_SIZES}
-            alt={photo.title || photo.filename}
+            alt={photoAltText(photo)}
             width={photo.exif?.width}
             height={photo.exif?.height}
             loading="eager"
@@ -523,6 +549,15 @@ export default function PhotoPage() {
               <div className="w-1/3 h-full" />
             )}
           </div>
+
+          {download && (
+            <a
+              href={download.url}
+              className="absolute bottom-2 right-8 z-10 text-xs text-gray-500 hover:text-black dark:text-gray-400 dark:hover:text-white transition-colors"
+            >
+              {download.size === "original" ? messages.downloadOriginal : messages.downloadPhoto}
+            </a>
+          )}
         </div>
       </div>
 
@@ -12,7 +12,7 @@ import { Layout } from "~/components/Layout";
 import { captureAnalyticsEvent } from "~/lib/analytics";
 import { isPhotoAiEnabled } from "~/lib/ai/photo-ai-service.server";
 import { getNavigationFromIndex, getStorage } from "~/lib/content-engine";
-import { localizedPath, photoMessages, type Locale } from "~/lib/i18n";
+import { localizedPath, photoMessagesFor, type Locale } from "~/lib/i18n";
 import { requireRouteLocale } from "~/lib/i18n.server";
 import { readSiteLanguageSettings } from "~/lib/site-languages.server";
 
@@ -38,10 +38,22 @@ interface SearchGallery {
   count?: number;
 }
 
+interface SearchFacetValue {
+  value: string;
+  label: string;
+  count: number;
+}
+
+/** Metadata facets refined on the server; tags and galleries stay client-side. */
+const METADATA_FACETS = ["year", "camera", "lens", "country", "city"] as const;
+
+type MetadataFacet = (typeof METADATA_FACETS)[number];
+
 interface SearchResponse {
   query: string;
   photos: SearchPhoto[];
   galleries: SearchGallery[];
+  facets: Partial<Record<MetadataFacet, SearchFacetValue[]>>;
 }
 
 type ExploreView = "graph" | "grid";
@@ -52,7 +64,7 @@ const EXPANDED_FILTER_COUNT = 60;
 
 export const meta: MetaFunction<typeof loader> = ({ data }) => {
   const locale = data?.locale || "es";
-  const messages = photoMessages[locale];
+  const messages = photoMessagesFor(locale);
   return [
     { title: `${messages.explore} — Victoriano Izquierdo` },
     { name: "description", content: messages.exploreMetaDescription },
@@ -122,6 +134,26 @@ function isSearchGallery(value: unknown): value is SearchGallery {
   );
 }
 
+function isFacetValue(value: unknown): value is SearchFacetValue {
+  return (
+    isObject(value) &&
+    typeof value.value === "string" &&
+    typeof value.label === "string" &&
+    typeof value.count === "number" &&
+    Number.isFinite(value.count)
+  );
+}
+
+function parseSearchFacets(value: unknown): SearchResponse["facets"] {
+  if (!isObject(value)) return {};
+  const facets: SearchResponse["facets"] = {};
+  for (const facet of METADATA_FACETS) {
+    const values = value[facet];
+    if (Array.isArray(values) && values.every(isFacetValue)) facets[facet] = values;
+  }
+  return facets;
+}
+
 function parseSearchResponse(value: unknown, locale: Locale): SearchResponse {
   if (
     !isObject(value) ||
@@ -131,9 +163,14 @@ function parseSearchResponse(value: unknown, locale: Locale): SearchResponse {
     !Array.isArray(value.galleries) ||
     !value.galleries.every(isSearchGallery)
   ) {
-    throw new Error(photoMessages[locale].unexpectedSearchResponse);
+    throw new Error(photoMessagesFor(locale).unexpectedSearchResponse);
   }
-  return { query: value.query, photos: value.photos, galleries: value.galleries };
+  return {
+    query: value.query,
+    photos: value.photos,
+    galleries: value.galleries,
+    facets: parseSearchFacets(value.facets),
+  };
 }
 
 function isExploreNode(value: unknown): value is ExploreMapNode {
@@ -173,7 +210,7 @@ function parseExploreResponse(value: unknown, locale: Locale): ExploreMapData {
     !isStringArray(value.tags) ||
     !Array.isArray(value.galleries) || !value.galleries.every(isSearchGallery)
   ) {
-    throw new Error(photoMessages[locale].unexpectedExploreResponse);
+    throw new Error(photoMessagesFor(locale).unexpectedExploreResponse);
   }
   return value as unknown as ExploreMapData;
 }
@@ -221,7 +258,23 @@ export default function ExplorePage() {
   const gallery = (searchParams.get("gallery") ?? "").trim();
   const tag = (searchParams.get("tag") ?? "").trim();
   const view: ExploreView = searchParams.get("view") === "grid" ? "grid" : "graph";
-  const messages = photoMessages[locale];
+  const facetFilters = useMemo(() => {
+    const filters = new URLSearchParams();
+    for (const facet of METADATA_FACETS) {
+      for (const value of searchParams.getAll(facet)) {
+        if (value.trim()) filters.append(facet, value.trim());
+      }
+    }
+    return filters.toString();
+  }, [searchParams]);
+  const messages = photoMessagesFor(locale);
+  const facetLabels: Record<MetadataFacet, string> = {
+    year: messages.facetYear,
+    camera: messages.facetCamera,
+    lens: messages.facetLens,
+    country: messages.facetCountry,
+    city: messages.facetCity,
+  };
 
   const [draftQuery, setDraftQuery] = useState(query);
   const [results, setResults] = useState<SearchResponse | null>(null);
@@ -277,7 +330,10 @@ export default function ExplorePage() {
 
     const controller = new AbortController();
     const startedAt = performance.now();
-    const parameters = new URLSearchParams({ q: query, limit: "50", locale });
+    const parameters = new URLSearchParams(facetFilters);
+    parameters.set("q", query);
+    parameters.set("limit", "50");
+    parameters.set("locale", locale);
     if (gallery) parameters.set("gallery", gallery);
 
     setIsLoading(true);
@@ -300,6 +356,7 @@ export default function ExplorePage() {
           captureAnalyticsEvent("photo_search_performed", {
             duration_ms: Math.round(performance.now() - startedAt),
             gallery_filter: gallery || null,
+            facet_filter_count: Array.from(new URLSearchParams(facetFilters).keys()).length,
             locale,
             query_length: query.length,
             query_word_count: query.split(/\s+/).filter(Boolean).length,
@@ -316,7 +373,7 @@ export default function ExplorePage() {
       });
 
     return () => controller.abort();
-  }, [gallery, locale, messages.searchUnavailable, query, searchRetryCount]);
+  }, [facetFilters, gallery, locale, messages.searchUnavailable, query, searchRetryCount]);
 
   const setFilter = useCallback((name: string, value: string, replace = true) => {
     const next = new URLSearchParams(searchParams);
@@ -325,10 +382,27 @@ export default function ExplorePage() {
     setSearchParams(next, { replace });
   }, [searchParams, setSearchParams]);
 
+  const toggleFacet = useCallback((name: MetadataFacet, value: string) => {
+    const next = new URLSearchParams(searchParams);
+    const selected = next.getAll(name);
+    next.delete(name);
+    const values = selected.some((item) => normalized(item) === normalized(value))
+      ? selected.filter((item) => normalized(item) !== normalized(value))
+      : [...selected, value];
+    for (const item of values) next.append(name, item);
+    setSearchParams(next, { replace: true });
+  }, [searchParams, setSearchParams]);
+
+  const clearFacets = useCallback(() => {
+    const next = new URLSearchParams(searchParams);
+    for (const facet of METADATA_FACETS) next.delete(facet);
+    setSearchParams(next, { replace: true });
+  }, [searchParams, setSearchParams]);
+
   useEffect(() => {
     setShowAllFilters(false);
     setVisibleGridCount(GRID_PAGE_SIZE);
-  }, [gallery, query, tag]);
+  }, [facetFilters, gallery, query, tag]);
 
   const resultIds = useMemo(() =>
     query && results
@@ -481,6 +555,9 @@ export default function ExplorePage() {
 
           {gallery && <input type="hidden" name="gallery" value={gallery} />}
           {tag && <input type="hidden" name="tag" value={tag} />}
+          {Array.from(new URLSearchParams(facetFilters)).map(([name, value]) => (
+            <input key={`${name}:${value}`} type="hidden" name={name} value={value} />
+          ))}
           {view === "grid" && <input type="hidden" name="view" value="grid" />}
           <button
             type="submit"
@@ -537,6 +614,48 @@ export default function ExplorePage() {
           )}
         </div>
 
+        {query && results && METADATA_FACETS.some((facet) => results.facets[facet]?.length) && (
+          <div className="border-b border-gray-100 py-5 dark:border-gray-900">
+            <div className="mb-3 flex items-center justify-between gap-4">
+              <p className="text-xs font-medium uppercase tracking-[0.14em] text-gray-500 dark:text-gray-400">
+                {messages.refineResults}
+              </p>
+              {facetFilters && (
+                <button
+                  type="button"
+                  onClick={clearFacets}
+                  className="text-xs text-gray-500 underline decoration-gray-300 underline-offset-4 transition hover:text-black dark:decoration-gray-700 dark:hover:text-white"
+                >
+                  {messages.clearFilters}
+                </button>
+              )}
+            </div>
+            <div className="grid gap-3">
+              {METADATA_FACETS.map((facet) => {
+                const values = results.facets[facet] ?? [];
+                if (values.length === 0) return null;
+                const selected = searchParams.getAll(facet).map(normalized);
+                return (
+                  <div key={facet} className="flex flex-wrap items-center gap-2">
+                    <span className="w-20 shrink-0 text-xs text-gray-400 dark:text-gray-500">
+                      {facetLabels[facet]}
+                    </span>
+                    {values.map((option) => (
+                      <TagFilter
+                        key={option.value}
+                        label={option.label}
+                        count={option.count}
+                        active={selected.includes(normalized(option.value))}
+                        onClick={() => toggleFacet(facet, option.value)}
+                      />
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         <p className="sr-only" aria-live="polite">
           {contentIsLoading
             ? query ? messages.searchingArchive : messages.exploreLoadingMap
@@ -831,7 +950,7 @@ function SearchResultCard({
         )}
 
         {visibleTags.length > 0 && (
-          <div className="mt-2 flex flex-wrap gap-x-2 gap-y-1" aria-label={photoMessages[locale].detectedElements}>
+          <div className="mt-2 flex flex-wrap gap-x-2 gap-y-1" aria-label={photoMessagesFor(locale).detectedElements}>
             {visibleTags.map((item) => (
               <button
                 key={item}
@@ -8,6 +8,7 @@
 import type { LoaderFunctionArgs } from "@remix-run/cloudflare";
 import {
   filterPublishedPosts,
+  filterPublishedGalleries,
   filterVisiblePages,
   getAllGalleriesFromIndex,
   getStorage,
@@ -16,7 +17,7 @@ import {
   type GalleryDataEntry,
 } from "~/lib/content-engine";
 import { resolveHeadlessBlogConfig } from "~/lib/headless-blog";
-import { localizedPath, type Locale } from "~/lib/i18n";
+import { localizedPath, siteLocales, type Locale } from "~/lib/i18n";
 import {
   readSiteLanguageSettings,
   type SiteLanguageSettings,
@@ -54,15 +55,19 @@ function localizedUrls(
     }];
   }
 
-  const alternates = {
-    es: new URL(localizedPath("es", pathname), baseUrl).toString(),
-    en: new URL(localizedPath("en", pathname), baseUrl).toString(),
-  };
+  const alternates: Record<Locale, string> = Object.fromEntries(
+    siteLocales(settings).map((locale) => [
+      locale,
+      new URL(localizedPath(locale, pathname), baseUrl).toString(),
+    ]),
+  );
   const xDefault = new URL(pathname, baseUrl).toString();
-  return [
-    { ...metadata, loc: alternates.es, alternates, xDefault },
-    { ...metadata, loc: alternates.en, alternates, xDefault },
-  ];
+  return Object.values(alternates).map((loc) => ({
+    ...metadata,
+    loc,
+    alternates,
+    xDefault,
+  }));
 }
 
 export async function loader({ context, request }: LoaderFunctionArgs) {
@@ -79,7 +84,8 @@ export async function loader({ context, request }: LoaderFunctionArgs) {
   ]);
 
   // Filter public content
-  const publicGalleries = allGalleries.filter((gallery) => !gallery.isProtected);
+  const publicGalleries = filterPublishedGalleries(allGalleries)
+    .filter((gallery) => !gallery.isProtected);
   const publishedPosts = filterPublishedPosts(allPosts);
   const publicPages = filterVisiblePages(allPages);
 
@@ -175,8 +181,9 @@ function generateSitemapXml(urls: SitemapUrl[]): string {
     .map((url) => {
       let xml = `  <url>\n    <loc>${escapeXml(url.loc)}</loc>`;
       if (url.alternates) {
-        xml += `\n    <xhtml:link rel="alternate" hreflang="es" href="${escapeXml(url.alternates.es)}" />`;
-        xml += `\n    <xhtml:link rel="alternate" hreflang="en" href="${escapeXml(url.alternates.en)}" />`;
+        for (const [locale, href] of Object.entries(url.alternates)) {
+          xml += `\n    <xhtml:link rel="alternate" hreflang="${locale}" href="${escapeXml(href)}" />`;
+        }
         if (url.xDefault) {
           xml += `\n    <xhtml:link rel="alternate" hreflang="x-default" href="${escapeXml(url.xDefault)}" />`;
         }
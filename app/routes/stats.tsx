@@ -0,0 +1,330 @@
+import type { LoaderFunctionArgs, MetaFunction } from "@remix-run/cloudflare";
+import { json } from "@remix-run/cloudflare";
+import { Link, useLoaderData } from "@remix-run/react";
+import { GalleryBreadcrumb } from "~/components/GalleryBreadcrumb";
+import { Layout, PhotoGrid, PhotoItem } from "~/components/Layout";
+import {
+  getEquipmentPhotosFromIndex,
+  getEquipmentStatsFromIndex,
+  getNavigationFromIndex,
+  getStorage,
+  parseEquipmentFilter,
+  type EquipmentFilter,
+  type EquipmentUsage,
+  type EquipmentValueCount,
+  type FocalLengthBucket,
+} from "~/lib/content-engine";
+import { requireEquipmentStatsAccess } from "~/lib/equipment-stats.server";
+import { localizedPath, photoMessagesFor, type Locale, type PhotoMessages } from "~/lib/i18n";
+import { requireRouteLocale } from "~/lib/i18n.server";
+import { readSiteLanguageSettings } from "~/lib/site-languages.server";
+import { photoAltText } from "~/utils/image-optimization";
+
+export { mergeLocalizedRouteHeaders as headers } from "~/lib/i18n.server";
+
+const FILTERED_PHOTO_LIMIT = 240;
+const LENS_LIMIT = 20;
+const VALUE_LIMIT = 10;
+
+export const meta: MetaFunction<typeof loader> = ({ data }) => {
+  const locale = data?.locale || "es";
+  const messages = photoMessagesFor(locale);
+  return [
+    { title: `${messages.equipmentStats} — Victoriano Izquierdo` },
+    { name: "description", content: messages.equipmentStatsMetaDescription },
+  ];
+};
+
+export async function loader({ context, request, params }: LoaderFunctionArgs) {
+  const storage = getStorage(context, request);
+  const siteLanguages = await readSiteLanguageSettings(storage);
+  const locale = requireRouteLocale(request, params.locale, siteLanguages);
+  await requireEquipmentStatsAccess(request, context, storage);
+
+  const filter = parseEquipmentFilter(new URL(request.url).searchParams);
+  const [navigation, stats, photos] = await Promise.all([
+    getNavigationFromIndex(storage, locale),
+    getEquipmentStatsFromIndex(storage),
+    filter ? getEquipmentPhotosFromIndex(storage, filter, locale) : Promise.resolve([]),
+  ]);
+
+  return json({
+    navigation,
+    stats,
+    filter,
+    photoCount: photos.length,
+    photos: photos.slice(0, FILTERED_PHOTO_LIMIT),
+    siteName: "Victoriano Izquierdo",
+    locale,
+    socialLinks: {
+      instagram: "https://instagram.com/victoriano",
+      twitter: "https://twitter.com/victoriano",
+      linkedin: "https://linkedin.com/in/victoriano",
+      facebook: "https://facebook.com/victoriano",
+    },
+  });
+}
+
+function statsHref(locale: Locale, filter: Record<string, string>): string {
+  return `${localizedPath(locale, "/stats")}?${new URLSearchParams(filter)}`;
+}
+
+/** `Fujifilm X100V · 2019`, `24–35 mm`, `f/2.8`… */
+function describeFilter(filter: EquipmentFilter, messages: PhotoMessages): string {
+  const focal = filter.focalMin === undefined
+    ? null
+    : filter.focalMax === filter.focalMin
+      ? `${filter.focalMin} mm`
+      : filter.focalMax === undefined
+        ? `≥ ${filter.focalMin} mm`
+        : `${filter.focalMin}–${filter.focalMax} mm`;
+  return [
+    filter.camera,
+    filter.lens,
+    focal,
+    filter.aperture && `f/${filter.aperture}`,
+    filter.iso && `ISO ${filter.iso}`,
+    filter.shutterSpeed,
+    filter.year && (filter.year === "undated" ? messages.equipmentUndated : filter.year),
+  ].filter(Boolean).join(" · ");
+}
+
+export default function EquipmentStatsPage() {
+  const { navigation, stats, filter, photoCount, photos, siteName, socialLinks, locale } =
+    useLoaderData<typeof loader>();
+  const messages = photoMessagesFor(locale);
+
+  return (
+    <Layout navigation={navigation} siteName={siteName} socialLinks={socialLinks} locale={locale}>
+      <GalleryBreadcrumb navigation={navigation} locale={locale} />
+
+      <section className="mx-auto max-w-7xl px-5 py-10 sm:px-8 sm:py-14">
+        <header className="mb-10 max-w-4xl">
+          <h1 className="text-3xl font-bold tracking-tight text-black dark:text-white sm:text-4xl">
+            {filter ? describeFilter(filter, messages) : messages.equipmentStats}
+          </h1>
+          <p className="mt-3 text-sm leading-6 text-gray-500 dark:text-gray-400 sm:text-base">
+            {filter
+              ? messages.timelinePhotoCount.replace("{count}", String(photoCount))
+              : messages.equipmentStatsDescription}
+          </p>
+          {filter ? (
+            <Link
+              to={localizedPath(locale, "/stats")}
+              className="mt-3 inline-block text-sm text-gray-600 underline hover:text-black dark:text-gray-300 dark:hover:text-white"
+            >
+              {messages.equipmentShowAll}
+            </Link>
+          ) : stats.totalPhotos > 0 && (
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              {messages.equipmentPhotosWithExif
+                .replace("{count}", String(stats.photosWithExif))
+                .replace("{total}", String(stats.totalPhotos))}
+            </p>
+          )}
+        </header>
+
+        {!filter && stats.photosWithExif === 0 && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">{messages.equipmentNoData}</p>
+        )}
+
+        {!filter && stats.photosWithExif > 0 && (
+          <div className="space-y-14">
+            <UsageList
+              title={messages.equipmentCameras}
+              items={stats.cameras}
+              param="camera"
+              locale={locale}
+            />
+            <UsageList
+              title={messages.equipmentLenses}
+              items={stats.lenses.slice(0, LENS_LIMIT)}
+              param="lens"
+              locale={locale}
+            />
+
+            {stats.focalLengths.some((bucket) => bucket.count > 0) && (
+              <div>
+                <h2 className="mb-4 text-xl font-semibold text-black dark:text-white">
+                  {messages.equipmentFocalLengths}
+                </h2>
+                <FocalLengthHistogram buckets={stats.focalLengths} locale={locale} />
+              </div>
+            )}
+
+            <div className="grid gap-10 md:grid-cols-3">
+              <ValueList
+                title={messages.equipmentApertures}
+                items={stats.apertures.slice(0, VALUE_LIMIT)}
+                param="aperture"
+                format={(value) => `f/${value}`}
+                locale={locale}
+              />
+              <ValueList
+                title={messages.equipmentIsos}
+                items={stats.isos.slice(0, VALUE_LIMIT)}
+                param="iso"
+                format={(value) => `ISO ${value}`}
+                locale={locale}
+              />
+              <ValueList
+                title={messages.equipmentShutterSpeeds}
+                items={stats.shutterSpeeds.slice(0, VALUE_LIMIT)}
+                param="shutter"
+                format={(value) => value}
+                locale={locale}
+              />
+            </div>
+          </div>
+        )}
+      </section>
+
+      {photos.length > 0 && (
+        <PhotoGrid>
+          {photos.map((photo, index) => (
+            <PhotoItem
+              key={photo.path}
+              src={`/api/images/${photo.path}`}
+              alt={photoAltText(photo)}
+              width={photo.exif?.width}
+              height={photo.exif?.height}
+              href={localizedPath(locale, `/photo/${photo.gallerySlug}/${photo.filename}`)}
+              priority={index === 0}
+            />
+          ))}
+        </PhotoGrid>
+      )}
+    </Layout>
+  );
+}
+
+function UsageList({
+  title,
+  items,
+  param,
+  locale,
+}: {
+  title: string;
+  items: EquipmentUsage[];
+  param: "camera" | "lens";
+  locale: Locale;
+}) {
+  const messages = photoMessagesFor(locale);
+  if (items.length === 0) return null;
+  const max = items[0].count;
+
+  return (
+    <div>
+      <h2 className="mb-4 text-xl font-semibold text-black dark:text-white">{title}</h2>
+      <ul className="space-y-4">
+        {items.map((item) => (
+          <li key={item.name}>
+            <div className="flex items-baseline justify-between gap-4 text-sm">
+              <Link
+                to={statsHref(locale, { [param]: item.name })}
+                className="font-medium text-gray-900 hover:underline dark:text-white"
+              >
+                {item.name}
+              </Link>
+              <span className="shrink-0 text-gray-500 dark:text-gray-400">{item.count}</span>
+            </div>
+            <div className="mt-1.5 h-1.5 rounded-full bg-gray-100 dark:bg-gray-800">
+              <div
+                className="h-1.5 rounded-full bg-gray-900 dark:bg-white"
+                style={{ width: `${Math.max(2, (item.count / max) * 100)}%` }}
+              />
+            </div>
+            <div className="mt-2 flex flex-wrap gap-x-3 gap-y-1 text-xs text-gray-500 dark:text-gray-400">
+              {item.years.map((year) => (
+                <Link
+                  key={year.year}
+                  to={statsHref(locale, { [param]: item.name, year: year.year })}
+                  className="hover:text-black dark:hover:text-white"
+                >
+                  {year.year === "undated" ? messages.equipmentUndated : year.year} · {year.count}
+                </Link>
+              ))}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+function FocalLengthHistogram({
+  buckets,
+  locale,
+}: {
+  buckets: FocalLengthBucket[];
+  locale: Locale;
+}) {
+  const max = Math.max(...buckets.map((bucket) => bucket.count));
+  return (
+    <div className="flex h-48 items-end gap-2">
+      {buckets.map((bucket) => {
+        const label = bucket.max === null ? `${bucket.min}+` : `${bucket.min}–${bucket.max}`;
+        const bar = (
+          <>
+            <span className="text-xs text-gray-500 dark:text-gray-400">{bucket.count || ""}</span>
+            <span
+              className="w-full rounded-t bg-gray-900 transition group-hover:opacity-75 dark:bg-white"
+              style={{ height: `${max > 0 ? (bucket.count / max) * 100 : 0}%` }}
+            />
+            <span className="whitespace-nowrap text-[10px] text-gray-500 dark:text-gray-400 sm:text-xs">
+              {label}
+            </span>
+          </>
+        );
+        return bucket.count > 0 ? (
+          <Link
+            key={bucket.range}
+            to={statsHref(locale, { focal: bucket.range })}
+            className="group flex h-full flex-1 flex-col items-center justify-end gap-1"
+            title={`${label} mm · ${bucket.count}`}
+          >
+            {bar}
+          </Link>
+        ) : (
+          <div key={bucket.range} className="flex h-full flex-1 flex-col items-center justify-end gap-1">
+            {bar}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function ValueList({
+  title,
+  items,
+  param,
+  format,
+  locale,
+}: {
+  title: string;
+  items: EquipmentValueCount[];
+  param: "aperture" | "iso" | "shutter";
+  format: (value: string) => string;
+  locale: Locale;
+}) {
+  if (items.length === 0) return null;
+  return (
+    <div>
+      <h2 className="mb-4 text-lg font-semibold text-black dark:text-white">{title}</h2>
+      <ol className="space-y-2 text-sm">
+        {items.map((item) => (
+          <li key={item.value} className="flex items-baseline justify-between gap-4">
+            <Link
+              to={statsHref(locale, { [param]: item.value })}
+              className="text-gray-900 hover:underline dark:text-white"
+            >
+              {format(item.value)}
+            </Link>
+            <span className="text-gray-500 dark:text-gray-400">{item.count}</span>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
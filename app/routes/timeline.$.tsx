@@ -0,0 +1,244 @@
+import type { LoaderFunctionArgs, MetaFunction } from "@remix-run/cloudflare";
+import { json } from "@remix-run/cloudflare";
+import { Link, useLoaderData } from "@remix-run/react";
+import { GalleryBreadcrumb } from "~/components/GalleryBreadcrumb";
+import { Layout, PhotoGrid, PhotoItem } from "~/components/Layout";
+import {
+  getNavigationFromIndex,
+  getPhotoTimelineFromIndex,
+  getStorage,
+  getTimelinePhotosFromIndex,
+  normalizeTimelinePeriod,
+  photoTimelineOnThisDay,
+  photoTimelinePeriods,
+  timelinePeriodGranularity,
+  type PhotoTimelinePeriod,
+} from "~/lib/content-engine";
+import { localizedPath, photoMessagesFor, type Locale } from "~/lib/i18n";
+import { requireRouteLocale } from "~/lib/i18n.server";
+import { readSiteLanguageSettings } from "~/lib/site-languages.server";
+import { photoAltText } from "~/utils/image-optimization";
+
+export { mergeLocalizedRouteHeaders as headers } from "~/lib/i18n.server";
+
+/** Photos previewed per earlier year under "On this day". */
+const ON_THIS_DAY_PREVIEW = 6;
+
+const CHILD_GRANULARITY = { all: "year", year: "month", month: "day" } as const;
+
+export const meta: MetaFunction<typeof loader> = ({ data }) => {
+  const locale = data?.locale || "es";
+  const messages = photoMessagesFor(locale);
+  const title = data?.period
+    ? `${formatPeriod(data.period, locale)} · ${messages.timeline}`
+    : messages.timeline;
+  return [
+    { title: `${title} — Victoriano Izquierdo` },
+    { name: "description", content: messages.timelineMetaDescription },
+  ];
+};
+
+export async function loader({ context, request, params }: LoaderFunctionArgs) {
+  const storage = getStorage(context, request);
+  const siteLanguages = await readSiteLanguageSettings(storage);
+  const locale = requireRouteLocale(request, params.locale, siteLanguages);
+  const messages = photoMessagesFor(locale);
+  const splat = (params["*"] || "").replace(/^\/+|\/+$/g, "");
+  const period = splat ? normalizeTimelinePeriod(splat) : null;
+  if (splat && !period) {
+    throw new Response(messages.galleryNotFound, { status: 404 });
+  }
+
+  const [navigation, days] = await Promise.all([
+    getNavigationFromIndex(storage, locale),
+    getPhotoTimelineFromIndex(storage),
+  ]);
+  const granularity = period ? timelinePeriodGranularity(period) : null;
+  // Each level lists the periods one step finer; a day lists its photos.
+  const periods = granularity === "day"
+    ? []
+    : photoTimelinePeriods(days, CHILD_GRANULARITY[granularity ?? "all"], period ?? undefined);
+  if (period && granularity !== "day" && periods.length === 0) {
+    throw new Response(messages.galleryNotFound, { status: 404 });
+  }
+
+  const onThisDay = period ? [] : photoTimelineOnThisDay(days);
+  const photos = granularity === "day"
+    ? await getTimelinePhotosFromIndex(storage, [period!], locale)
+    : await getTimelinePhotosFromIndex(storage, onThisDay.map((item) => item.period), locale);
+  if (granularity === "day" && photos.length === 0) {
+    throw new Response(messages.galleryNotFound, { status: 404 });
+  }
+
+  return json({
+    navigation,
+    period,
+    periods,
+    onThisDay: onThisDay.map((item) => ({
+      ...item,
+      photos: photos.filter((photo) => photo.day === item.period).slice(0, ON_THIS_DAY_PREVIEW),
+    })),
+    photos: granularity === "day" ? photos : [],
+    today: new Date().toISOString().slice(0, 10),
+    siteName: "Victoriano Izquierdo",
+    locale,
+    socialLinks: {
+      instagram: "https://instagram.com/victoriano",
+      twitter: "https://twitter.com/victoriano",
+      linkedin: "https://linkedin.com/in/victoriano",
+      facebook: "https://facebook.com/victoriano",
+    },
+  });
+}
+
+/** `2019`, `April 2019` or `1 April 2019` in the edition's language. */
+function formatPeriod(period: string, locale: Locale): string {
+  const [year, month, day] = period.split("-").map(Number);
+  if (!month) return String(year);
+  return new Intl.DateTimeFormat(locale, {
+    year: "numeric",
+    month: "long",
+    ...(day ? { day: "numeric" } : {}),
+    timeZone: "UTC",
+  }).format(Date.UTC(year, month - 1, day || 1));
+}
+
+/** The last part of a period on its own: the year, month name or day. */
+function periodLabel(period: string, locale: Locale): string {
+  const [year, month, day] = period.split("-").map(Number);
+  if (day) return String(day);
+  if (month) {
+    return new Intl.DateTimeFormat(locale, { month: "long", timeZone: "UTC" })
+      .format(Date.UTC(year, month - 1, 1));
+  }
+  return String(year);
+}
+
+function timelinePath(locale: Locale, period?: string): string {
+  return localizedPath(locale, period ? `/timeline/${period.split("-").join("/")}` : "/timeline");
+}
+
+export default function TimelinePage() {
+  const { navigation, period, periods, onThisDay, photos, today, siteName, socialLinks, locale } =
+    useLoaderData<typeof loader>();
+  const messages = photoMessagesFor(locale);
+  const trail = period
+    ? period.split("-").map((_, index, parts) => parts.slice(0, index + 1).join("-"))
+    : [];
+
+  return (
+    <Layout navigation={navigation} siteName={siteName} socialLinks={socialLinks} locale={locale}>
+      <GalleryBreadcrumb navigation={navigation} locale={locale} />
+
+      <section className="mx-auto max-w-7xl px-5 py-10 sm:px-8 sm:py-14">
+        <header className="mb-8 max-w-4xl">
+          {period && (
+            <nav className="mb-3 flex flex-wrap items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+              <Link to={timelinePath(locale)} className="hover:text-black dark:hover:text-white">
+                {messages.timeline}
+              </Link>
+              {trail.slice(0, -1).map((item) => (
+                <span key={item} className="flex items-center gap-2">
+                  <span aria-hidden="true">/</span>
+                  <Link to={timelinePath(locale, item)} className="hover:text-black dark:hover:text-white">
+                    {periodLabel(item, locale)}
+                  </Link>
+                </span>
+              ))}
+            </nav>
+          )}
+          <h1 className="text-3xl font-bold tracking-tight text-black dark:text-white sm:text-4xl">
+            {period ? formatPeriod(period, locale) : messages.timelineTitle}
+          </h1>
+          {!period && (
+            <p className="mt-3 text-sm leading-6 text-gray-500 dark:text-gray-400 sm:text-base">
+              {messages.timelineDescription}
+            </p>
+          )}
+        </header>
+
+        {!period && periods.length === 0 && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">{messages.timelineNoPhotos}</p>
+        )}
+
+        {periods.length > 0 && (
+          <TimelinePeriods periods={periods} locale={locale} />
+        )}
+
+        {onThisDay.length > 0 && (
+          <div className="mt-14 space-y-10">
+            <h2 className="text-xl font-semibold text-black dark:text-white">
+              {messages.timelineOnThisDay}
+            </h2>
+            {onThisDay.map((item) => (
+              <div key={item.period}>
+                <Link
+                  to={timelinePath(locale, item.period)}
+                  className="mb-3 inline-block text-sm text-gray-500 hover:text-black dark:text-gray-400 dark:hover:text-white"
+                >
+                  {messages.timelineYearsAgo.replace(
+                    "{count}",
+                    String(Number(today.slice(0, 4)) - Number(item.period.slice(0, 4))),
+                  )}
+                  {" · "}
+                  {formatPeriod(item.period, locale)}
+                </Link>
+                <PhotoGrid>
+                  {item.photos.map((photo) => (
+                    <PhotoItem
+                      key={photo.path}
+                      src={`/api/images/${photo.path}`}
+                      alt={photoAltText(photo)}
+                      width={photo.exif?.width}
+                      height={photo.exif?.height}
+                      href={localizedPath(locale, `/photo/${photo.gallerySlug}/${photo.filename}`)}
+                    />
+                  ))}
+                </PhotoGrid>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+
+      {photos.length > 0 && (
+        <PhotoGrid>
+          {photos.map((photo, index) => (
+            <PhotoItem
+              key={photo.path}
+              src={`/api/images/${photo.path}`}
+              alt={photoAltText(photo)}
+              width={photo.exif?.width}
+              height={photo.exif?.height}
+              href={localizedPath(locale, `/photo/${photo.gallerySlug}/${photo.filename}`)}
+              priority={index === 0}
+            />
+          ))}
+        </PhotoGrid>
+      )}
+    </Layout>
+  );
+}
+
+function TimelinePeriods({ periods, locale }: { periods: PhotoTimelinePeriod[]; locale: Locale }) {
+  const messages = photoMessagesFor(locale);
+  return (
+    <ul className="grid grid-cols-2 gap-3 sm:grid-cols-3 lg:grid-cols-4">
+      {periods.map((item) => (
+        <li key={item.period}>
+          <Link
+            to={timelinePath(locale, item.period)}
+            className="block rounded-xl border border-gray-200 px-4 py-3 transition hover:border-gray-400 dark:border-gray-800 dark:hover:border-gray-600"
+          >
+            <span className="block text-lg font-semibold capitalize text-black dark:text-white">
+              {periodLabel(item.period, locale)}
+            </span>
+            <span className="text-sm text-gray-500 dark:text-gray-400">
+              {messages.timelinePhotoCount.replace("{count}", String(item.count))}
+            </span>
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+}
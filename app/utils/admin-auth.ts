@@ -1,17 +1,44 @@
 /**
- * Admin authentication and password recovery.
+ * Admin authentication, accounts and password recovery.
  *
  * Existing ADMIN_USERNAME / ADMIN_PASSWORD secrets remain a compatible
- * fallback. Once recovery is requested, credentials are migrated to a salted
- * PBKDF2 hash stored in the configured content storage.
+ * fallback for a single owner. Once recovery is requested or a second account
+ * is invited, accounts are stored with salted PBKDF2 hashes in the configured
+ * content storage. Each account has a role (see ~/lib/admin-roles) and may
+ * turn on a TOTP second factor (see admin-totp.ts).
  */
 
+import { json } from "@remix-run/cloudflare";
 import { getStorage } from "~/lib/content-engine";
 import type { StorageAdapter } from "~/lib/content-engine";
+import {
+  isAdminRole,
+  roleCan,
+  type AdminPermission,
+  type AdminRole,
+} from "~/lib/admin-roles";
+import {
+  generateRecoveryCodes,
+  generateTotpSecret,
+  matchTotpStep,
+  normalizeRecoveryCode,
+  totpUri,
+} from "~/utils/admin-totp";
+import {
+  clearLoginFailures,
+  getLoginRetryAfter,
+  loginThrottleKeys,
+  recordLoginFailure,
+} from "~/utils/login-throttle";
 
 const ADMIN_AUTH_PATH = ".victopress/admin-auth.json";
 const SESSION_COOKIE = "admin_auth";
 const SESSION_TTL_SECONDS = 24 * 60 * 60;
+const CHALLENGE_COOKIE = "admin_2fa";
+const CHALLENGE_TTL_SECONDS = 5 * 60;
+const INVITE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+export const ADMIN_PASSWORD_MIN_LENGTH = 12;
+const USERNAME_PATTERN = /^[a-z0-9][a-z0-9._-]{1,39}$/i;
 // Cloudflare Workers currently rejects PBKDF2 costs above 100,000.
 const PBKDF2_ITERATIONS = 100_000;
 const LEGACY_PBKDF2_ITERATIONS = 210_000;
@@ -20,7 +47,7 @@ interface AdminContext {
   cloudflare?: { env?: unknown };
 }
 
-interface LegacyAdminCredentials {
+export interface LegacyAdminCredentials {
   username: string;
   password: string;
 }
@@ -31,9 +58,15 @@ export interface AdminCredentials {
   passwordHash?: string;
   passwordSalt?: string;
   passwordIterations?: number;
+  /** Part of the session signing key; rotating it signs the account out. */
+  sessionKey?: string;
+  role?: AdminRole;
+  /** Sign-in needs a TOTP or recovery code after the password. */
+  totpEnabled?: boolean;
 }
 
-interface AdminAuthRecord {
+/** Single-owner record written before accounts had roles. */
+interface LegacyAdminAuthRecord {
   version: 1;
   username: string;
   passwordHash: string;
@@ -42,11 +75,64 @@ interface AdminAuthRecord {
   updatedAt: string;
 }
 
+interface AdminUserRecord {
+  username: string;
+  role: AdminRole;
+  /** Absent until an invited account chooses its password. */
+  passwordHash?: string;
+  passwordSalt?: string;
+  passwordIterations?: number;
+  sessionKey: string;
+  disabled?: boolean;
+  invite?: { tokenHash: string; expiresAt: string; invitedBy: string };
+  /** Active once confirmedAt is set; until then the secret awaits a first code. */
+  totp?: {
+    secret: string;
+    confirmedAt?: string;
+    /** Last accepted time step, so a code cannot be replayed. */
+    lastUsedStep?: number;
+    recoveryCodeHashes: string[];
+  };
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface AdminAuthRecord {
+  version: 2;
+  users: AdminUserRecord[];
+  updatedAt: string;
+}
+
+export interface AdminUserSummary {
+  username: string;
+  role: AdminRole;
+  disabled: boolean;
+  /** Invited but has not chosen a password yet. */
+  pending: boolean;
+  inviteExpiresAt?: string;
+  twoFactor: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export class AdminUserError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AdminUserError";
+  }
+}
+
 interface SessionPayload {
   username: string;
   expiresAt: number;
 }
 
+/** Password accepted, second factor still required. */
+interface ChallengePayload extends SessionPayload {
+  remember: boolean;
+  redirectTo: string;
+}
+
 function getEnv(context: AdminContext): Record<string, unknown> {
   const env = context.cloudflare?.env;
   return env && typeof env === "object" ? env as Record<string, unknown> : {};
@@ -122,28 +208,53 @@ async function hashPassword(
   };
 }
 
+function isValidIterations(value: unknown): boolean {
+  return value === undefined || (Number.isInteger(value) && (value as number) > 0);
+}
+
+function migrateLegacyRecord(record: LegacyAdminAuthRecord): AdminAuthRecord {
+  return {
+    version: 2,
+    users: [{
+      username: record.username,
+      role: "owner",
+      passwordHash: record.passwordHash,
+      passwordSalt: record.passwordSalt,
+      passwordIterations: record.passwordIterations ?? LEGACY_PBKDF2_ITERATIONS,
+      // An empty key keeps sessions signed before the migration valid.
+      sessionKey: "",
+      createdAt: record.updatedAt,
+      updatedAt: record.updatedAt,
+    }],
+    updatedAt: record.updatedAt,
+  };
+}
+
 async function readAuthRecord(storage: StorageAdapter): Promise<AdminAuthRecord | null> {
   const raw = await storage.getText(ADMIN_AUTH_PATH);
   if (!raw) return null;
 
   try {
-    const record = JSON.parse(raw) as AdminAuthRecord;
-    if (
-      record.version !== 1 ||
-      !record.username ||
-      !record.passwordHash ||
-      !record.passwordSalt ||
-      (
-        record.passwordIterations !== undefined &&
-        (
-          !Number.isInteger(record.passwordIterations) ||
-          record.passwordIterations <= 0
-        )
-      )
-    ) {
-      return null;
+    const record = JSON.parse(raw) as LegacyAdminAuthRecord | AdminAuthRecord;
+    if (record.version === 1) {
+      if (
+        !record.username ||
+        !record.passwordHash ||
+        !record.passwordSalt ||
+        !isValidIterations(record.passwordIterations)
+      ) {
+        return null;
+      }
+      return migrateLegacyRecord(record);
     }
-    return record;
+    if (record.version !== 2 || !Array.isArray(record.users)) return null;
+    const users = record.users.filter((user) =>
+      user &&
+      typeof user.username === "string" &&
+      isAdminRole(user.role) &&
+      isValidIterations(user.passwordIterations)
+    );
+    return users.length > 0 ? { ...record, users } : null;
   } catch {
     return null;
   }
@@ -153,6 +264,19 @@ async function writeAuthRecord(storage: StorageAdapter, record: AdminAuthRecord)
   await storage.put(ADMIN_AUTH_PATH, JSON.stringify(record, null, 2), "application/json");
 }
 
+function userCredentials(user: AdminUserRecord): AdminCredentials | null {
+  if (user.disabled || !user.passwordHash || !user.passwordSalt) return null;
+  return {
+    username: user.username,
+    passwordHash: user.passwordHash,
+    passwordSalt: user.passwordSalt,
+    passwordIterations: user.passwordIterations ?? PBKDF2_ITERATIONS,
+    sessionKey: user.sessionKey,
+    role: user.role,
+    totpEnabled: Boolean(user.totp?.confirmedAt),
+  };
+}
+
 /** Read the original environment-based credentials. */
 export function getAdminCredentials(env: unknown): LegacyAdminCredentials | null {
   if (!env || typeof env !== "object") return null;
@@ -164,20 +288,20 @@ export function getAdminCredentials(env: unknown): LegacyAdminCredentials | null
     : null;
 }
 
-export async function getEffectiveAdminCredentials(
+/**
+ * Every account that can sign in: the stored accounts, or the environment
+ * owner when nothing is stored yet. Null when the admin is not configured.
+ */
+export async function getAdminAccounts(
   context: AdminContext,
   request?: Request,
-): Promise<AdminCredentials | null> {
+): Promise<AdminCredentials[] | null> {
   try {
     const record = await readAuthRecord(getAuthStorage(context, request));
     if (record) {
-      return {
-        username: record.username,
-        passwordHash: record.passwordHash,
-        passwordSalt: record.passwordSalt,
-        passwordIterations:
-          record.passwordIterations ?? LEGACY_PBKDF2_ITERATIONS,
-      };
+      return record.users
+        .map(userCredentials)
+        .filter((credentials): credentials is AdminCredentials => credentials !== null);
     }
   } catch (error) {
     console.warn("[Admin Auth] Could not read persistent credentials; using environment fallback.", error);
@@ -185,7 +309,17 @@ export async function getEffectiveAdminCredentials(
 
   const legacy = getAdminCredentials(getEnv(context));
   if (!legacy) return null;
-  return legacy;
+  return [{ ...legacy, role: "owner" }];
+}
+
+/** The first active owner; used where only one account used to exist. */
+export async function getEffectiveAdminCredentials(
+  context: AdminContext,
+  request?: Request,
+): Promise<AdminCredentials | null> {
+  const accounts = await getAdminAccounts(context, request);
+  if (!accounts) return null;
+  return accounts.find((account) => account.role === "owner") ?? accounts[0] ?? null;
 }
 
 export async function verifyAdminPassword(
@@ -234,7 +368,7 @@ async function sign(value: string, secret: string): Promise<string> {
 }
 
 function sessionSecret(credentials: AdminCredentials): string {
-  return credentials.passwordHash || credentials.password || "";
+  return (credentials.passwordHash || credentials.password || "") + (credentials.sessionKey || "");
 }
 
 export async function createAdminSessionToken(credentials: AdminCredentials): Promise<string> {
@@ -272,72 +406,434 @@ export async function hasValidAdminSession(
   return Boolean(credentials.password && token === btoa(`${credentials.username}:${credentials.password}`));
 }
 
+function sessionUsername(token: string): string | null {
+  try {
+    const payload = JSON.parse(
+      new TextDecoder().decode(base64UrlToBytes(token.split(".")[0] || "")),
+    ) as Partial<SessionPayload>;
+    return typeof payload.username === "string" ? payload.username : null;
+  } catch {
+    return null;
+  }
+}
+
+/** The account whose session cookie this request carries, if any. */
+async function findSessionAccount(
+  request: Request,
+  accounts: readonly AdminCredentials[],
+): Promise<AdminCredentials | null> {
+  const token = readSessionCookie(request);
+  if (!token) return null;
+  const username = sessionUsername(token);
+  const candidates = username
+    ? accounts.filter((account) => account.username === username)
+    : accounts.filter((account) => account.password);
+  for (const account of candidates) {
+    if (await hasValidAdminSession(request, account)) return account;
+  }
+  return null;
+}
+
+/** Check a username and password against every active account. */
+export async function authenticateAdminAccount(
+  accounts: readonly AdminCredentials[],
+  username: string,
+  password: string,
+): Promise<AdminCredentials | null> {
+  const account = accounts.find((candidate) => candidate.username === username);
+  if (!account) return null;
+  return await verifyAdminPassword(password, account) ? account : null;
+}
+
 export function adminSessionCookie(token: string, persistent = true): string {
   const maxAge = persistent ? `; Max-Age=${SESSION_TTL_SECONDS}` : "";
   return `${SESSION_COOKIE}=${token}; Path=/; HttpOnly; Secure; SameSite=Lax${maxAge}`;
 }
 
-function readSessionCookie(request: Request): string | null {
+function readCookie(request: Request, name: string): string | null {
   const cookieHeader = request.headers.get("Cookie");
-  const match = cookieHeader?.match(new RegExp(`(?:^|;\\s*)${SESSION_COOKIE}=([^;]+)`));
+  const match = cookieHeader?.match(new RegExp(`(?:^|;\\s*)${name}=([^;]+)`));
   return match?.[1] || null;
 }
 
+function readSessionCookie(request: Request): string | null {
+  return readCookie(request, SESSION_COOKIE);
+}
+
 /**
- * Validate an admin request and return the authenticated username from the
- * same credential read. Loaders that need the username should use this helper
- * instead of checking auth and then reading the auth record a second time.
+ * Short-lived token for the second sign-in step. It is signed with a key
+ * derived from, but different to, the session key, so it never works as a
+ * session.
  */
-export async function requireAdminUser(
+export async function createAdminChallengeToken(
+  credentials: AdminCredentials,
+  options: { remember: boolean; redirectTo: string },
+  now: Date = new Date(),
+): Promise<string> {
+  const payload: ChallengePayload = {
+    username: credentials.username,
+    expiresAt: now.getTime() + CHALLENGE_TTL_SECONDS * 1000,
+    ...options,
+  };
+  const encodedPayload = bytesToBase64Url(new TextEncoder().encode(JSON.stringify(payload)));
+  return `${encodedPayload}.${await sign(encodedPayload, `${sessionSecret(credentials)}:2fa`)}`;
+}
+
+export async function readAdminChallenge(
+  request: Request,
+  accounts: readonly AdminCredentials[],
+  now: Date = new Date(),
+): Promise<{ account: AdminCredentials; remember: boolean; redirectTo: string } | null> {
+  const token = readCookie(request, CHALLENGE_COOKIE);
+  const [encodedPayload, signature] = token?.split(".") ?? [];
+  if (!encodedPayload || !signature) return null;
+
+  try {
+    const payload = JSON.parse(
+      new TextDecoder().decode(base64UrlToBytes(encodedPayload)),
+    ) as ChallengePayload;
+    const account = accounts.find((candidate) => candidate.username === payload.username);
+    if (!account?.totpEnabled || payload.expiresAt <= now.getTime()) return null;
+    const expected = await sign(encodedPayload, `${sessionSecret(account)}:2fa`);
+    if (!safeEqual(signature, expected)) return null;
+    return { account, remember: payload.remember === true, redirectTo: payload.redirectTo };
+  } catch {
+    return null;
+  }
+}
+
+export function adminChallengeCookie(token: string | null): string {
+  return token
+    ? `${CHALLENGE_COOKIE}=${token}; Path=/admin; HttpOnly; Secure; SameSite=Strict; Max-Age=${CHALLENGE_TTL_SECONDS}`
+    : `${CHALLENGE_COOKIE}=; Path=/admin; HttpOnly; Secure; SameSite=Strict; Max-Age=0`;
+}
+
+export interface AdminAccount {
+  username: string | null;
+  role: AdminRole;
+}
+
+/** JSON 403 for admin API requests the account's role does not allow. */
+export function adminForbidden(): Response {
+  return json(
+    { success: false, error: "Your role does not allow this action" },
+    { status: 403 },
+  );
+}
+
+/**
+ * Check HTTP Basic Auth credentials against the same failed sign-in counters
+ * as the login form. A throttled client gets a 429 before any password check.
+ */
+async function authenticateBasicAuth(
   request: Request,
   context: AdminContext,
-): Promise<string | null> {
+  accounts: AdminCredentials[],
+  authorization: string,
+): Promise<AdminCredentials | null> {
+  let username = "";
+  let password = "";
+  try {
+    [username, password] = atob(authorization.slice(6)).split(":");
+  } catch {
+    // Invalid Basic Auth data.
+    return null;
+  }
+
+  const storage = getAuthStorage(context, request);
+  const throttleKeys = await loginThrottleKeys(request, username ?? "", context);
+  const retryAfter = await getLoginRetryAfter(storage, throttleKeys);
+  if (retryAfter > 0) {
+    throw new Response("Too many failed sign-in attempts", {
+      status: 429,
+      headers: { "Retry-After": String(retryAfter) },
+    });
+  }
+
+  const account = await authenticateAdminAccount(accounts, username ?? "", password ?? "");
+  // Basic Auth has no second step, so it is closed to accounts with 2FA.
+  if (!account || account.totpEnabled) {
+    await recordLoginFailure(storage, throttleKeys);
+    return null;
+  }
+  await clearLoginFailures(storage, throttleKeys);
+  return account;
+}
+
+/**
+ * Validate an admin request, enforce an optional permission and return the
+ * signed-in account from a single credential read. Requests without a
+ * session are redirected to the login page; accounts whose role lacks the
+ * permission receive a 403.
+ */
+export async function requireAdminAccount(
+  request: Request,
+  context: AdminContext,
+  permission?: AdminPermission,
+): Promise<AdminAccount> {
   const url = new URL(request.url);
   if (url.hostname === "localhost" || url.hostname === "127.0.0.1") {
-    return getAdminCredentials(getEnv(context))?.username || null;
+    return { username: getAdminCredentials(getEnv(context))?.username || null, role: "owner" };
   }
 
-  const credentials = await getEffectiveAdminCredentials(context, request);
-  if (!credentials) {
+  const accounts = await getAdminAccounts(context, request);
+  if (!accounts) {
     throw new Response(null, { status: 302, headers: { Location: "/setup" } });
   }
 
-  if (await hasValidAdminSession(request, credentials)) {
-    return credentials.username;
-  }
+  let account = await findSessionAccount(request, accounts);
 
   const authorization = request.headers.get("Authorization");
-  if (authorization?.startsWith("Basic ")) {
-    try {
-      const [username, password] = atob(authorization.slice(6)).split(":");
-      if (
-        username === credentials.username &&
-        await verifyAdminPassword(password, credentials)
-      ) {
-        return credentials.username;
-      }
-    } catch {
-      // Invalid Basic Auth data.
-    }
+  if (!account && authorization?.startsWith("Basic ")) {
+    account = await authenticateBasicAuth(request, context, accounts, authorization);
   }
 
-  const loginUrl = new URLSearchParams({ redirectTo: url.pathname }).toString();
-  throw new Response(null, { status: 302, headers: { Location: `/admin/login?${loginUrl}` } });
+  if (!account) {
+    const loginUrl = new URLSearchParams({ redirectTo: url.pathname }).toString();
+    throw new Response(null, { status: 302, headers: { Location: `/admin/login?${loginUrl}` } });
+  }
+
+  const role = account.role ?? "owner";
+  if (permission && !roleCan(role, permission)) throw adminForbidden();
+  return { username: account.username, role };
 }
 
-export async function checkAdminAuth(request: Request, context: AdminContext): Promise<void> {
-  await requireAdminUser(request, context);
+/**
+ * Validate an admin request and return the authenticated username from the
+ * same credential read. Loaders that need the username should use this helper
+ * instead of checking auth and then reading the auth record a second time.
+ */
+export async function requireAdminUser(
+  request: Request,
+  context: AdminContext,
+  permission?: AdminPermission,
+): Promise<string | null> {
+  return (await requireAdminAccount(request, context, permission)).username;
+}
+
+export async function checkAdminAuth(
+  request: Request,
+  context: AdminContext,
+  permission?: AdminPermission,
+): Promise<void> {
+  await requireAdminAccount(request, context, permission);
 }
 
 export async function isAdminConfigured(context: AdminContext): Promise<boolean> {
-  return (await getEffectiveAdminCredentials(context)) !== null;
+  return (await getAdminAccounts(context)) !== null;
 }
 
 export async function getAdminUser(request: Request, context: AdminContext): Promise<string | null> {
-  const credentials = await getEffectiveAdminCredentials(context, request);
-  if (!credentials) return null;
-  return await hasValidAdminSession(request, credentials) ? credentials.username : null;
+  const accounts = await getAdminAccounts(context, request);
+  if (!accounts) return null;
+  return (await findSessionAccount(request, accounts))?.username ?? null;
+}
+
+// =============================================================================
+// Account management
+// =============================================================================
+
+export async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Load the stored accounts for a change. Installations that still sign in
+ * with ADMIN_USERNAME / ADMIN_PASSWORD get that owner hashed into the record
+ * so inviting a second account does not lock the first one out.
+ */
+async function loadRecordForWrite(
+  storage: StorageAdapter,
+  legacyOwner?: LegacyAdminCredentials | null,
+): Promise<AdminAuthRecord> {
+  const existing = await readAuthRecord(storage);
+  if (existing) return existing;
+  const now = new Date().toISOString();
+  const users: AdminUserRecord[] = [];
+  if (legacyOwner) {
+    const { hash, salt, iterations } = await hashPassword(legacyOwner.password);
+    users.push({
+      username: legacyOwner.username,
+      role: "owner",
+      passwordHash: hash,
+      passwordSalt: salt,
+      passwordIterations: iterations,
+      sessionKey: randomToken(16),
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+  return { version: 2, users, updatedAt: now };
+}
+
+function findUser(record: AdminAuthRecord, username: string): AdminUserRecord {
+  const user = record.users.find((candidate) => candidate.username === username);
+  if (!user) throw new AdminUserError(`No admin account named ${username}.`);
+  return user;
+}
+
+function assertOwnerRemains(record: AdminAuthRecord): void {
+  const activeOwners = record.users.filter(
+    (user) => user.role === "owner" && !user.disabled && user.passwordHash,
+  );
+  if (activeOwners.length === 0) {
+    throw new AdminUserError("At least one active owner account is required.");
+  }
+}
+
+export async function listAdminUsers(
+  storage: StorageAdapter,
+  legacyOwner?: LegacyAdminCredentials | null,
+): Promise<AdminUserSummary[]> {
+  const record = await readAuthRecord(storage);
+  if (!record) {
+    return legacyOwner
+      ? [{
+          username: legacyOwner.username,
+          role: "owner",
+          disabled: false,
+          pending: false,
+          twoFactor: false,
+          createdAt: "",
+          updatedAt: "",
+        }]
+      : [];
+  }
+  return record.users.map((user) => ({
+    username: user.username,
+    role: user.role,
+    disabled: user.disabled === true,
+    pending: !user.passwordHash,
+    inviteExpiresAt: user.passwordHash ? undefined : user.invite?.expiresAt,
+    twoFactor: Boolean(user.totp?.confirmedAt),
+    createdAt: user.createdAt,
+    updatedAt: user.updatedAt,
+  }));
+}
+
+/**
+ * Create an account that is activated through a one-time link. Returns the
+ * raw token; only its hash is stored. Inviting a pending account again
+ * replaces its link.
+ */
+export async function inviteAdminUser(
+  storage: StorageAdapter,
+  input: { username: string; role: AdminRole; invitedBy: string },
+  legacyOwner?: LegacyAdminCredentials | null,
+  now: Date = new Date(),
+): Promise<{ token: string; expiresAt: string }> {
+  const username = input.username.trim();
+  if (!USERNAME_PATTERN.test(username)) {
+    throw new AdminUserError("Usernames use 2-40 letters, digits, dots, dashes or underscores.");
+  }
+  if (!isAdminRole(input.role)) throw new AdminUserError("Unknown role.");
+
+  const record = await loadRecordForWrite(storage, legacyOwner);
+  const existing = record.users.find((user) => user.username === username);
+  if (existing?.passwordHash) throw new AdminUserError(`${username} already has an account.`);
+
+  const token = randomToken(32);
+  const expiresAt = new Date(now.getTime() + INVITE_TTL_MS).toISOString();
+  const timestamp = now.toISOString();
+  const invite = { tokenHash: await sha256Hex(token), expiresAt, invitedBy: input.invitedBy };
+  if (existing) {
+    Object.assign(existing, { role: input.role, invite, disabled: false, updatedAt: timestamp });
+  } else {
+    record.users.push({
+      username,
+      role: input.role,
+      sessionKey: randomToken(16),
+      invite,
+      createdAt: timestamp,
+      updatedAt: timestamp,
+    });
+  }
+  record.updatedAt = timestamp;
+  await writeAuthRecord(storage, record);
+  return { token, expiresAt };
+}
+
+/** Set the password of an invited account and return its credentials. */
+export async function acceptAdminInvite(
+  storage: StorageAdapter,
+  username: string,
+  token: string,
+  password: string,
+  now: Date = new Date(),
+): Promise<AdminCredentials> {
+  const record = await readAuthRecord(storage);
+  const user = record?.users.find((candidate) => candidate.username === username);
+  if (
+    !record ||
+    !user?.invite ||
+    user.disabled ||
+    new Date(user.invite.expiresAt).getTime() <= now.getTime() ||
+    !safeEqual(await sha256Hex(token), user.invite.tokenHash)
+  ) {
+    throw new AdminUserError("This invitation is invalid or has expired.");
+  }
+  if (password.length < ADMIN_PASSWORD_MIN_LENGTH) {
+    throw new AdminUserError(`Passwords must contain at least ${ADMIN_PASSWORD_MIN_LENGTH} characters.`);
+  }
+
+  const { hash, salt, iterations } = await hashPassword(password);
+  Object.assign(user, {
+    passwordHash: hash,
+    passwordSalt: salt,
+    passwordIterations: iterations,
+    sessionKey: randomToken(16),
+    updatedAt: now.toISOString(),
+  });
+  delete user.invite;
+  record.updatedAt = now.toISOString();
+  await writeAuthRecord(storage, record);
+  return userCredentials(user)!;
 }
+
+/** Change an account's role or disable it. Disabling ends its sessions. */
+export async function updateAdminUser(
+  storage: StorageAdapter,
+  username: string,
+  changes: { role?: AdminRole; disabled?: boolean },
+  legacyOwner?: LegacyAdminCredentials | null,
+): Promise<void> {
+  const record = await loadRecordForWrite(storage, legacyOwner);
+  const user = findUser(record, username);
+  if (changes.role !== undefined) {
+    if (!isAdminRole(changes.role)) throw new AdminUserError("Unknown role.");
+    user.role = changes.role;
+  }
+  if (changes.disabled !== undefined && changes.disabled !== (user.disabled === true)) {
+    user.disabled = changes.disabled;
+    if (!changes.disabled) delete user.disabled;
+    user.sessionKey = randomToken(16);
+  }
+  assertOwnerRemains(record);
+  user.updatedAt = new Date().toISOString();
+  record.updatedAt = user.updatedAt;
+  await writeAuthRecord(storage, record);
+}
+
+/** Sign an account out everywhere without changing its password. */
+export async function revokeAdminSessions(
+  storage: StorageAdapter,
+  username: string,
+  legacyOwner?: LegacyAdminCredentials | null,
+): Promise<void> {
+  const record = await loadRecordForWrite(storage, legacyOwner);
+  const user = findUser(record, username);
+  user.sessionKey = randomToken(16);
+  user.updatedAt = new Date().toISOString();
+  record.updatedAt = user.updatedAt;
+  await writeAuthRecord(storage, record);
+}
+
+/**
+ * Set an account's password, creating it as an owner when it does not exist.
+ * This is the recovery path, so it also re-enables a disabled account and
+ * removes its second factor.
+ */
 export async function setAdminPassword(
   storage: StorageAdapter,
   username: string,
@@ -346,19 +842,141 @@ export async function setAdminPassword(
   if (!username.trim()) throw new Error("Admin username is required.");
   if (password.length < 20) throw new Error("Generated admin passwords must contain at least 20 characters.");
   const { hash, salt, iterations } = await hashPassword(password);
-  const record: AdminAuthRecord = {
-    version: 1,
-    username: username.trim(),
+  const record = await loadRecordForWrite(storage);
+  const now = new Date().toISOString();
+  let user = record.users.find((candidate) => candidate.username === username.trim());
+  if (!user) {
+    user = { username: username.trim(), role: "owner", sessionKey: randomToken(16), createdAt: now, updatedAt: now };
+    record.users.push(user);
+  }
+  Object.assign(user, {
     passwordHash: hash,
     passwordSalt: salt,
     passwordIterations: iterations,
-    updatedAt: new Date().toISOString(),
-  };
+    updatedAt: now,
+  });
+  delete user.disabled;
+  delete user.invite;
+  delete user.totp;
+  record.updatedAt = now;
   await writeAuthRecord(storage, record);
+  return userCredentials(user)!;
+}
+
+// =============================================================================
+// Two-factor authentication
+// =============================================================================
+
+export interface AdminTotpStatus {
+  enabled: boolean;
+  recoveryCodesLeft: number;
+}
+
+export async function getAdminTotpStatus(
+  storage: StorageAdapter,
+  username: string,
+): Promise<AdminTotpStatus> {
+  const record = await readAuthRecord(storage);
+  const totp = record?.users.find((user) => user.username === username)?.totp;
   return {
-    username: record.username,
-    passwordHash: record.passwordHash,
-    passwordSalt: record.passwordSalt,
-    passwordIterations: record.passwordIterations,
+    enabled: Boolean(totp?.confirmedAt),
+    recoveryCodesLeft: totp?.confirmedAt ? totp.recoveryCodeHashes.length : 0,
   };
 }
+
+/**
+ * Create a new secret for an account. It only takes effect once a code from
+ * the authenticator app is confirmed; starting again replaces it.
+ */
+export async function startAdminTotpEnrollment(
+  storage: StorageAdapter,
+  username: string,
+  legacyOwner?: LegacyAdminCredentials | null,
+): Promise<{ secret: string; uri: string }> {
+  const record = await loadRecordForWrite(storage, legacyOwner);
+  const user = findUser(record, username);
+  if (user.totp?.confirmedAt) {
+    throw new AdminUserError("Two-factor authentication is already on for this account.");
+  }
+  const secret = generateTotpSecret();
+  user.totp = { secret, recoveryCodeHashes: [] };
+  user.updatedAt = new Date().toISOString();
+  record.updatedAt = user.updatedAt;
+  await writeAuthRecord(storage, record);
+  return { secret, uri: totpUri(secret, username) };
+}
+
+/** Turn the second factor on and return recovery codes, shown once. */
+export async function confirmAdminTotp(
+  storage: StorageAdapter,
+  username: string,
+  code: string,
+  now: Date = new Date(),
+): Promise<string[]> {
+  const record = await readAuthRecord(storage);
+  const user = record?.users.find((candidate) => candidate.username === username);
+  if (!record || !user?.totp || user.totp.confirmedAt) {
+    throw new AdminUserError("Start two-factor setup first.");
+  }
+  const step = await matchTotpStep(user.totp.secret, code, now);
+  if (step === null) throw new AdminUserError("That code is not valid. Check the time on your device.");
+
+  const recoveryCodes = generateRecoveryCodes();
+  user.totp = {
+    secret: user.totp.secret,
+    confirmedAt: now.toISOString(),
+    lastUsedStep: step,
+    recoveryCodeHashes: await Promise.all(
+      recoveryCodes.map((recoveryCode) => sha256Hex(normalizeRecoveryCode(recoveryCode))),
+    ),
+  };
+  user.updatedAt = now.toISOString();
+  record.updatedAt = user.updatedAt;
+  await writeAuthRecord(storage, record);
+  return recoveryCodes;
+}
+
+/**
+ * Check the second sign-in step. Accepts a current TOTP code that has not
+ * been used before, or an unused recovery code, which is then spent.
+ */
+export async function verifyAdminSecondFactor(
+  storage: StorageAdapter,
+  username: string,
+  code: string,
+  now: Date = new Date(),
+): Promise<boolean> {
+  const record = await readAuthRecord(storage);
+  const user = record?.users.find((candidate) => candidate.username === username);
+  const totp = user?.totp;
+  if (!record || !user || user.disabled || !totp?.confirmedAt) return false;
+
+  const step = await matchTotpStep(totp.secret, code, now);
+  if (step !== null) {
+    if (totp.lastUsedStep !== undefined && step <= totp.lastUsedStep) return false;
+    totp.lastUsedStep = step;
+  } else {
+    const hash = await sha256Hex(normalizeRecoveryCode(code));
+    const index = totp.recoveryCodeHashes.findIndex((candidate) => safeEqual(candidate, hash));
+    if (index === -1) return false;
+    totp.recoveryCodeHashes.splice(index, 1);
+  }
+  record.updatedAt = now.toISOString();
+  await writeAuthRecord(storage, record);
+  return true;
+}
+
+/** Remove the second factor, e.g. when an owner resets a locked-out account. */
+export async function disableAdminTotp(
+  storage: StorageAdapter,
+  username: string,
+  legacyOwner?: LegacyAdminCredentials | null,
+): Promise<void> {
+  const record = await loadRecordForWrite(storage, legacyOwner);
+  const user = findUser(record, username);
+  if (!user.totp) return;
+  delete user.totp;
+  user.updatedAt = new Date().toISOString();
+  record.updatedAt = user.updatedAt;
+  await writeAuthRecord(storage, record);
+}
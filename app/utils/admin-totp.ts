@@ -0,0 +1,126 @@
+/**
+ * Time-based one-time passwords (RFC 6238) for admin two-factor sign-in.
+ *
+ * Only the code arithmetic lives here; enrollment state is stored on each
+ * account in the admin auth record (see admin-auth.ts).
+ */
+
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+/** Codes from one period before or after are accepted for clock drift. */
+const TOTP_DRIFT_STEPS = 1;
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+export const RECOVERY_CODE_COUNT = 10;
+
+export function base32Encode(bytes: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+}
+
+export function base32Decode(input: string): Uint8Array<ArrayBuffer> {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, "");
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const character of clean) {
+    const index = BASE32_ALPHABET.indexOf(character);
+    if (index === -1) throw new Error("Invalid base32 secret");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  const result = new Uint8Array(new ArrayBuffer(bytes.length));
+  result.set(bytes);
+  return result;
+}
+
+/** A new 160-bit secret, the size authenticator apps expect for SHA-1. */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.getRandomValues(new Uint8Array(20)));
+}
+
+export function totpStep(now: Date = new Date()): number {
+  return Math.floor(now.getTime() / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+async function hotp(secret: string, counter: number): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    base32Decode(secret),
+    { name: "HMAC", hash: "SHA-1" },
+    false,
+    ["sign"],
+  );
+  const message = new DataView(new ArrayBuffer(8));
+  message.setUint32(0, Math.floor(counter / 2 ** 32));
+  message.setUint32(4, counter >>> 0);
+  const digest = new Uint8Array(await crypto.subtle.sign("HMAC", key, message.buffer));
+  const offset = digest[digest.length - 1] & 15;
+  const binary =
+    ((digest[offset] & 127) << 24) |
+    (digest[offset + 1] << 16) |
+    (digest[offset + 2] << 8) |
+    digest[offset + 3];
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, "0");
+}
+
+export function generateTotp(secret: string, now: Date = new Date()): Promise<string> {
+  return hotp(secret, totpStep(now));
+}
+
+/**
+ * The time step a code belongs to, or null when it matches none within the
+ * drift window. Callers store the step to refuse replays of the same code.
+ */
+export async function matchTotpStep(
+  secret: string,
+  code: string,
+  now: Date = new Date(),
+): Promise<number | null> {
+  const normalized = code.replace(/\s/g, "");
+  if (!/^\d{6}$/.test(normalized)) return null;
+  const current = totpStep(now);
+  for (let offset = -TOTP_DRIFT_STEPS; offset <= TOTP_DRIFT_STEPS; offset += 1) {
+    if (await hotp(secret, current + offset) === normalized) return current + offset;
+  }
+  return null;
+}
+
+/** otpauth:// URI that authenticator apps import by QR code or link. */
+export function totpUri(secret: string, username: string, issuer = "VictoPress"): string {
+  const label = encodeURIComponent(`${issuer}:${username}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/** Single-use codes shaped like `abcde-fghij` for when the app is lost. */
+export function generateRecoveryCodes(count = RECOVERY_CODE_COUNT): string[] {
+  return Array.from({ length: count }, () => {
+    const code = base32Encode(crypto.getRandomValues(new Uint8Array(7))).slice(0, 10).toLowerCase();
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+}
+
+export function normalizeRecoveryCode(code: string): string {
+  return code.trim().toLowerCase().replace(/[\s-]/g, "");
+}
@@ -95,6 +95,25 @@ async function canvasToWebP(
   });
 }
 
+/**
+ * Decode an original the browser can read but others cannot (HEIC in Safari,
+ * AVIF) into a full-size JPEG rendition. Null when this browser cannot decode it.
+ */
+export async function renderJpegInBrowser(
+  source: File,
+  quality = 0.92
+): Promise<Blob | null> {
+  try {
+    const img = await loadImage(source);
+    const canvas = resizeImage(img, img.width);
+    return await new Promise<Blob | null>((resolve) => {
+      canvas.toBlob(resolve, "image/jpeg", quality);
+    });
+  } catch {
+    return null;
+  }
+}
+
 /**
  * Get variant filename from original
  */
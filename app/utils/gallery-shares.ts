@@ -0,0 +1,350 @@
+/**
+ * Gallery Share Links
+ *
+ * A share link lets one recipient into a password-protected gallery (and the
+ * galleries nested under it) without knowing the password. Tokens are signed
+ * with a key kept in .victopress/gallery-shares.json and carry their own
+ * expiry, so forged or stale tokens are refused before any record is read;
+ * the stored record is still checked so a link can be revoked at any time.
+ *
+ * Visits made through a link are appended to a small per-link access log.
+ */
+
+import { createCookie } from "@remix-run/cloudflare";
+import type { StorageAdapter } from "~/lib/content-engine";
+
+const SHARES_PATH = ".victopress/gallery-shares.json";
+const ACCESS_LOG_PREFIX = ".victopress/gallery-shares/access";
+const MAX_ACCESS_EVENTS = 500;
+const RECENT_ACCESS_EVENTS = 20;
+const MAX_COOKIE_TOKENS = 10;
+const MAX_RECIPIENT_LENGTH = 120;
+export const MAX_SHARE_LINK_DAYS = 365;
+
+export interface GalleryShareLink {
+  id: string;
+  gallerySlug: string;
+  /** Who the link was made for, e.g. a client name or email. */
+  recipient: string;
+  allowDownload: boolean;
+  createdAt: string;
+  createdBy?: string;
+  expiresAt: string;
+  revokedAt?: string;
+}
+
+export type GalleryShareStatus = "active" | "expired" | "revoked";
+
+export interface GalleryShareSummary extends GalleryShareLink {
+  status: GalleryShareStatus;
+  token: string;
+  accessCount: number;
+  /** Latest visits first. */
+  recentAccess: GalleryShareAccessEvent[];
+}
+
+export type GalleryShareAccessKind = "gallery" | "download";
+
+export interface GalleryShareAccessEvent {
+  at: string;
+  kind: GalleryShareAccessKind;
+  /** Gallery slug for visits, image path for downloads. */
+  path: string;
+}
+
+interface GallerySharesRecord {
+  version: 1;
+  signingKey: string;
+  links: GalleryShareLink[];
+}
+
+interface ShareTokenPayload {
+  v: 1;
+  id: string;
+  g: string;
+  e: number;
+}
+
+export class GalleryShareError extends Error {}
+
+// Cookie remembering the share tokens a visitor arrived with
+export const galleryShareCookie = createCookie("gallery-share", {
+  maxAge: 60 * 60 * 24 * 30, // 30 days; each token still expires on its own
+  httpOnly: true,
+  secure: process.env.NODE_ENV === "production",
+  sameSite: "lax",
+});
+
+function bytesToBase64Url(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function base64UrlToBytes(value: string): Uint8Array<ArrayBuffer> {
+  const padded = value.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(value.length / 4) * 4, "=");
+  const binary = atob(padded);
+  const bytes = new Uint8Array(new ArrayBuffer(binary.length));
+  for (let index = 0; index < binary.length; index += 1) bytes[index] = binary.charCodeAt(index);
+  return bytes;
+}
+
+function randomToken(byteLength: number): string {
+  return bytesToBase64Url(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+function safeEqual(left: string, right: string): boolean {
+  if (left.length !== right.length) return false;
+  let difference = 0;
+  for (let index = 0; index < left.length; index += 1) {
+    difference |= left.charCodeAt(index) ^ right.charCodeAt(index);
+  }
+  return difference === 0;
+}
+
+async function sign(value: string, secret: string): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(value));
+  return bytesToBase64Url(new Uint8Array(signature));
+}
+
+async function readShares(storage: StorageAdapter): Promise<GallerySharesRecord> {
+  const raw = await storage.getText(SHARES_PATH);
+  if (raw) {
+    try {
+      const record = JSON.parse(raw) as Partial<GallerySharesRecord>;
+      if (record.version === 1 && typeof record.signingKey === "string") {
+        return { version: 1, signingKey: record.signingKey, links: record.links || [] };
+      }
+    } catch {
+      // Fall through: a damaged file must not grant access.
+    }
+  }
+  // The key is only persisted once the first link is created.
+  return { version: 1, signingKey: randomToken(32), links: [] };
+}
+
+async function writeShares(storage: StorageAdapter, record: GallerySharesRecord): Promise<void> {
+  await storage.put(SHARES_PATH, JSON.stringify(record, null, 2), "application/json");
+}
+
+async function tokenFor(link: GalleryShareLink, signingKey: string): Promise<string> {
+  const payload: ShareTokenPayload = {
+    v: 1,
+    id: link.id,
+    g: link.gallerySlug,
+    e: Math.floor(new Date(link.expiresAt).getTime() / 1000),
+  };
+  const encodedPayload = bytesToBase64Url(new TextEncoder().encode(JSON.stringify(payload)));
+  return `${encodedPayload}.${await sign(encodedPayload, signingKey)}`;
+}
+
+function shareStatus(link: GalleryShareLink, now: Date): GalleryShareStatus {
+  if (link.revokedAt) return "revoked";
+  return new Date(link.expiresAt).getTime() <= now.getTime() ? "expired" : "active";
+}
+
+/** A share made for a gallery also opens the galleries nested under it. */
+export function shareCoversGallery(link: GalleryShareLink, gallerySlug: string): boolean {
+  return gallerySlug === link.gallerySlug || gallerySlug.startsWith(`${link.gallerySlug}/`);
+}
+
+export async function createGalleryShareLink(
+  storage: StorageAdapter,
+  options: {
+    gallerySlug: string;
+    recipient: string;
+    expiresAt: Date;
+    allowDownload: boolean;
+    createdBy?: string;
+  },
+  now: Date = new Date(),
+): Promise<{ link: GalleryShareLink; token: string }> {
+  const recipient = options.recipient.trim();
+  if (!recipient) throw new GalleryShareError("Enter who this link is for.");
+  if (recipient.length > MAX_RECIPIENT_LENGTH) {
+    throw new GalleryShareError(`Recipient must be at most ${MAX_RECIPIENT_LENGTH} characters.`);
+  }
+  const expiresAt = options.expiresAt.getTime();
+  if (Number.isNaN(expiresAt) || expiresAt <= now.getTime()) {
+    throw new GalleryShareError("Expiry must be in the future.");
+  }
+  if (expiresAt - now.getTime() > MAX_SHARE_LINK_DAYS * 24 * 60 * 60 * 1000) {
+    throw new GalleryShareError(`Share links can last at most ${MAX_SHARE_LINK_DAYS} days.`);
+  }
+
+  const record = await readShares(storage);
+  const link: GalleryShareLink = {
+    id: randomToken(9),
+    gallerySlug: options.gallerySlug,
+    recipient,
+    allowDownload: options.allowDownload,
+    createdAt: now.toISOString(),
+    ...(options.createdBy ? { createdBy: options.createdBy } : {}),
+    expiresAt: new Date(expiresAt).toISOString(),
+  };
+  record.links.push(link);
+  await writeShares(storage, record);
+  return { link, token: await tokenFor(link, record.signingKey) };
+}
+
+/** Links made for a gallery, newest first, with their recent visits. */
+export async function listGalleryShareLinks(
+  storage: StorageAdapter,
+  gallerySlug: string,
+  now: Date = new Date(),
+): Promise<GalleryShareSummary[]> {
+  const record = await readShares(storage);
+  const links = record.links
+    .filter((link) => link.gallerySlug === gallerySlug)
+    .sort((left, right) => right.createdAt.localeCompare(left.createdAt));
+  return Promise.all(
+    links.map(async (link) => {
+      const events = await listGalleryShareAccess(storage, link.id);
+      return {
+        ...link,
+        status: shareStatus(link, now),
+        token: await tokenFor(link, record.signingKey),
+        accessCount: events.length,
+        recentAccess: events.slice(0, RECENT_ACCESS_EVENTS),
+      };
+    }),
+  );
+}
+
+export async function revokeGalleryShareLink(
+  storage: StorageAdapter,
+  id: string,
+  now: Date = new Date(),
+): Promise<GalleryShareLink> {
+  const record = await readShares(storage);
+  const link = record.links.find((candidate) => candidate.id === id);
+  if (!link) throw new GalleryShareError("Share link not found.");
+  if (!link.revokedAt) {
+    link.revokedAt = now.toISOString();
+    await writeShares(storage, record);
+  }
+  return link;
+}
+
+function decodeToken(token: string): { encodedPayload: string; signature: string; payload: ShareTokenPayload } | null {
+  const [encodedPayload, signature, extra] = token.split(".");
+  if (!encodedPayload || !signature || extra !== undefined) return null;
+  try {
+    const payload = JSON.parse(new TextDecoder().decode(base64UrlToBytes(encodedPayload))) as ShareTokenPayload;
+    if (payload.v !== 1 || typeof payload.id !== "string" || typeof payload.e !== "number") return null;
+    return { encodedPayload, signature, payload };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The links behind a set of tokens that are still valid: correctly signed,
+ * not expired and not revoked. Storage is only read when at least one token
+ * has not expired on its face.
+ */
+export async function verifyGalleryShareTokens(
+  storage: StorageAdapter,
+  tokens: readonly string[],
+  now: Date = new Date(),
+): Promise<GalleryShareLink[]> {
+  const candidates = tokens
+    .map(decodeToken)
+    .filter((decoded): decoded is NonNullable<typeof decoded> => decoded !== null)
+    .filter((decoded) => decoded.payload.e * 1000 > now.getTime());
+  if (candidates.length === 0) return [];
+
+  const record = await readShares(storage);
+  const valid: GalleryShareLink[] = [];
+  for (const { encodedPayload, signature, payload } of candidates) {
+    if (!safeEqual(signature, await sign(encodedPayload, record.signingKey))) continue;
+    const link = record.links.find((candidate) => candidate.id === payload.id);
+    if (!link || link.gallerySlug !== payload.g || shareStatus(link, now) !== "active") continue;
+    valid.push(link);
+  }
+  return valid;
+}
+
+export async function verifyGalleryShareToken(
+  storage: StorageAdapter,
+  token: string,
+  now: Date = new Date(),
+): Promise<GalleryShareLink | null> {
+  return (await verifyGalleryShareTokens(storage, [token], now))[0] ?? null;
+}
+
+async function getShareTokens(request: Request): Promise<string[]> {
+  const cookie = await galleryShareCookie.parse(request.headers.get("Cookie"));
+  return Array.isArray(cookie) ? cookie.filter((token): token is string => typeof token === "string") : [];
+}
+
+/** Valid share links the visitor's cookie or a `?share=` parameter holds. */
+export async function getGalleryShareLinks(
+  request: Request,
+  storage: StorageAdapter,
+  now: Date = new Date(),
+): Promise<GalleryShareLink[]> {
+  const tokens = await getShareTokens(request);
+  const fromUrl = new URL(request.url).searchParams.get("share");
+  if (fromUrl) tokens.push(fromUrl);
+  return tokens.length > 0 ? verifyGalleryShareTokens(storage, tokens, now) : [];
+}
+
+/**
+ * Remember a share token in the visitor's cookie
+ */
+export async function addGalleryShareToken(request: Request, token: string): Promise<string> {
+  const tokens = (await getShareTokens(request)).filter((existing) => existing !== token);
+  tokens.push(token);
+  return galleryShareCookie.serialize(tokens.slice(-MAX_COOKIE_TOKENS));
+}
+
+function accessLogPath(shareId: string): string {
+  return `${ACCESS_LOG_PREFIX}/${shareId}.json`;
+}
+
+/** Access events for one link, newest first. */
+export async function listGalleryShareAccess(
+  storage: StorageAdapter,
+  shareId: string,
+): Promise<GalleryShareAccessEvent[]> {
+  const raw = await storage.getText(accessLogPath(shareId));
+  if (!raw) return [];
+  try {
+    const events = JSON.parse(raw) as GalleryShareAccessEvent[];
+    return Array.isArray(events) ? [...events].reverse() : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Append a visit to a link's access log. The log is best effort: a failed
+ * write is reported but never blocks the visitor.
+ */
+export async function recordGalleryShareAccess(
+  storage: StorageAdapter,
+  link: GalleryShareLink,
+  kind: GalleryShareAccessKind,
+  path: string,
+  now: Date = new Date(),
+): Promise<void> {
+  try {
+    const events = (await listGalleryShareAccess(storage, link.id)).reverse();
+    events.push({ at: now.toISOString(), kind, path });
+    await storage.put(
+      accessLogPath(link.id),
+      JSON.stringify(events.slice(-MAX_ACCESS_EVENTS), null, 2),
+      "application/json",
+    );
+  } catch (error) {
+    console.warn("[Gallery Shares] Could not record access.", error);
+  }
+}
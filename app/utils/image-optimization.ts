@@ -271,3 +271,11 @@ export function createPreloadLink(
     type: "image/webp", // Always WebP for variants
   };
 }
+
+/**
+ * Text for a photo's `alt` attribute: the approved alt text of the page's
+ * locale, then the title, then the filename.
+ */
+export function photoAltText(photo: { alt?: string; title?: string; filename: string }): string {
+  return photo.alt || photo.title || photo.filename;
+}
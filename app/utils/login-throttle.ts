@@ -0,0 +1,188 @@
+/**
+ * Failed admin sign-in throttling.
+ *
+ * Failures are counted per client IP and per username in
+ * .victopress/login-attempts.json, under hashed keys so the file holds no
+ * addresses. After a few free attempts every further failure doubles the
+ * wait before the next one, up to a cap. A successful sign-in clears both
+ * counters; counters nobody touched for a day are dropped.
+ */
+
+import type { StorageAdapter } from "~/lib/content-engine";
+import { sha256Hex } from "~/utils/admin-auth";
+
+const LOGIN_ATTEMPTS_PATH = ".victopress/login-attempts.json";
+export const FREE_LOGIN_ATTEMPTS = 5;
+const BASE_DELAY_MS = 30 * 1000;
+const MAX_DELAY_MS = 60 * 60 * 1000;
+const FORGET_AFTER_MS = 24 * 60 * 60 * 1000;
+const ATTEMPTS_CAS_ATTEMPTS = 5;
+
+interface LoginAttemptEntry {
+  failures: number;
+  lastFailureAt: string;
+  blockedUntil?: string;
+}
+
+interface LoginAttemptsRecord {
+  version: 1;
+  entries: Record<string, LoginAttemptEntry>;
+}
+
+interface ThrottleContext {
+  cloudflare?: { env?: unknown };
+}
+
+/**
+ * Clients can send X-Forwarded-For themselves, so it only identifies them
+ * behind a proxy of your own and with TRUST_PROXY_FORWARDED_FOR=true.
+ */
+function trustsForwardedFor(context: ThrottleContext): boolean {
+  const env = context.cloudflare?.env as Record<string, unknown> | undefined;
+  const value = env?.TRUST_PROXY_FORWARDED_FOR ?? process.env.TRUST_PROXY_FORWARDED_FOR;
+  return typeof value === "string" && value.trim().toLowerCase() === "true";
+}
+
+function clientIp(request: Request, context: ThrottleContext): string | null {
+  const connectingIp = request.headers.get("CF-Connecting-IP")?.trim();
+  if (connectingIp) return connectingIp;
+  if (!trustsForwardedFor(context)) return null;
+  // The trusted proxy appends the address it saw; earlier entries are the client's word
+  return request.headers.get("X-Forwarded-For")?.split(",").pop()?.trim() || null;
+}
+
+/**
+ * The IP and username counters a sign-in attempt is charged to. Without a
+ * known address only the username counts: a counter shared by every client
+ * would let one attacker lock all admins out.
+ */
+export async function loginThrottleKeys(
+  request: Request,
+  username: string,
+  context: ThrottleContext = {},
+): Promise<string[]> {
+  const ip = clientIp(request, context);
+  return Promise.all([
+    ...(ip ? [sha256Hex(`ip:${ip}`)] : []),
+    sha256Hex(`user:${username.trim().toLowerCase()}`),
+  ]);
+}
+
+/** Wait imposed after a given number of consecutive failures. */
+export function loginBackoffMs(failures: number): number {
+  if (failures < FREE_LOGIN_ATTEMPTS) return 0;
+  return Math.min(BASE_DELAY_MS * 2 ** (failures - FREE_LOGIN_ATTEMPTS), MAX_DELAY_MS);
+}
+
+function parseAttempts(raw: string | null, now: Date): LoginAttemptsRecord {
+  const entries: Record<string, LoginAttemptEntry> = {};
+  if (raw) {
+    try {
+      const record = JSON.parse(raw) as LoginAttemptsRecord;
+      for (const [key, entry] of Object.entries(record.entries || {})) {
+        const lastFailure = new Date(entry.lastFailureAt).getTime();
+        if (now.getTime() - lastFailure < FORGET_AFTER_MS) entries[key] = entry;
+      }
+    } catch {
+      // A damaged file only resets the counters.
+    }
+  }
+  return { version: 1, entries };
+}
+
+async function readAttempts(storage: StorageAdapter, now: Date): Promise<LoginAttemptsRecord> {
+  try {
+    return parseAttempts(await storage.getText(LOGIN_ATTEMPTS_PATH), now);
+  } catch (error) {
+    // Signing in must keep working when the counters cannot be read.
+    console.warn("[Login Throttle] Could not read failed attempts.", error);
+    return parseAttempts(null, now);
+  }
+}
+
+/**
+ * Apply `change` to the stored counters; it returns false when there is
+ * nothing to write. Providers with conditional writes retry on conflicts so
+ * failures sent in parallel are all counted.
+ */
+async function updateAttempts(
+  storage: StorageAdapter,
+  now: Date,
+  change: (record: LoginAttemptsRecord) => boolean,
+): Promise<void> {
+  try {
+    if (storage.getVersionedText && storage.putTextIfVersion) {
+      for (let attempt = 0; attempt < ATTEMPTS_CAS_ATTEMPTS; attempt += 1) {
+        const snapshot = await storage.getVersionedText(LOGIN_ATTEMPTS_PATH);
+        const record = parseAttempts(snapshot.text, now);
+        if (!change(record)) return;
+        const text = JSON.stringify(record, null, 2);
+        if (await storage.putTextIfVersion(LOGIN_ATTEMPTS_PATH, text, snapshot.version, "application/json")) {
+          return;
+        }
+      }
+      console.warn("[Login Throttle] Gave up saving failed attempts after repeated conflicts.");
+      return;
+    }
+    const record = await readAttempts(storage, now);
+    if (change(record)) {
+      await storage.put(LOGIN_ATTEMPTS_PATH, JSON.stringify(record, null, 2), "application/json");
+    }
+  } catch (error) {
+    console.warn("[Login Throttle] Could not save failed attempts.", error);
+  }
+}
+
+/** Seconds until another attempt is allowed for these keys; 0 when allowed now. */
+export async function getLoginRetryAfter(
+  storage: StorageAdapter,
+  keys: readonly string[],
+  now: Date = new Date(),
+): Promise<number> {
+  const { entries } = await readAttempts(storage, now);
+  let blockedUntil = 0;
+  for (const key of keys) {
+    const until = entries[key]?.blockedUntil;
+    if (until) blockedUntil = Math.max(blockedUntil, new Date(until).getTime());
+  }
+  return Math.max(0, Math.ceil((blockedUntil - now.getTime()) / 1000));
+}
+
+/** Count a failed attempt and return the seconds until the next one is allowed. */
+export async function recordLoginFailure(
+  storage: StorageAdapter,
+  keys: readonly string[],
+  now: Date = new Date(),
+): Promise<number> {
+  let delay = 0;
+  await updateAttempts(storage, now, (record) => {
+    delay = 0;
+    for (const key of keys) {
+      const failures = (record.entries[key]?.failures ?? 0) + 1;
+      const backoff = loginBackoffMs(failures);
+      delay = Math.max(delay, backoff);
+      record.entries[key] = {
+        failures,
+        lastFailureAt: now.toISOString(),
+        ...(backoff > 0 ? { blockedUntil: new Date(now.getTime() + backoff).toISOString() } : {}),
+      };
+    }
+    return true;
+  });
+  return Math.ceil(delay / 1000);
+}
+
+export async function clearLoginFailures(
+  storage: StorageAdapter,
+  keys: readonly string[],
+  now: Date = new Date(),
+): Promise<void> {
+  // Most sign-ins have nothing to clear; skip the conditional write then.
+  const { entries } = await readAttempts(storage, now);
+  if (!keys.some((key) => key in entries)) return;
+  await updateAttempts(storage, now, (record) => {
+    if (!keys.some((key) => key in record.entries)) return false;
+    for (const key of keys) delete record.entries[key];
+    return true;
+  });
+}
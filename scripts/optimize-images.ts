@@ -6,10 +6,13 @@
  * Creates 3 sizes for responsive loading (800w, 1600w, 2400w) optimized for
  * 5K displays and Retina MacBooks.
  * 
+ * Variants at least as wide as the watermark's `minWidth` are stamped with the
+ * `watermark` from content/site.yaml or the nearest gallery.yaml override.
+ * 
  * Usage:
  *   bun run scripts/optimize-images.ts              # Process all images
  *   bun run scripts/optimize-images.ts --dry-run    # Preview what would be done
- *   bun run scripts/optimize-images.ts --force      # Regenerate all variants
+ *   bun run scripts/optimize-images.ts --force      # Regenerate (and re-stamp) all variants
  * 
  * Output structure:
  *   photo.jpg → photo.jpg (original kept)
@@ -23,6 +26,15 @@
 import sharp from "sharp";
 import * as fs from "node:fs/promises";
 import * as path from "node:path";
+import { parse as parseYaml } from "yaml";
+import {
+  resolveWatermarkSettings,
+  watermarkAppliesToWidth,
+  watermarkLogoWidth,
+  watermarkPlacement,
+  watermarkTextBox,
+  type WatermarkSettings,
+} from "../app/lib/content-engine/watermark";
 
 // Configuration
 const CONTENT_PATH = path.resolve("content");
@@ -79,6 +91,108 @@ async function getAllImages(dir: string): Promise<string[]> {
   return images;
 }
 
+// ============================================================================
+// WATERMARKS
+// ============================================================================
+
+const NO_OVERRIDE = Symbol("no watermark override");
+let siteWatermark: Promise<unknown> | null = null;
+const galleryOverrides = new Map<string, Promise<unknown>>();
+
+async function readYaml(filePath: string): Promise<Record<string, unknown> | null> {
+  try {
+    const parsed = parseYaml(await fs.readFile(filePath, "utf-8"));
+    return parsed && typeof parsed === "object" ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function readGalleryOverride(dir: string): Promise<unknown> {
+  let override = galleryOverrides.get(dir);
+  if (!override) {
+    override = readYaml(path.join(dir, "gallery.yaml")).then((metadata) =>
+      metadata && "watermark" in metadata ? metadata.watermark : NO_OVERRIDE
+    );
+    galleryOverrides.set(dir, override);
+  }
+  return override;
+}
+
+/** Site watermark with the closest gallery.yaml override applied. */
+async function getWatermark(imagePath: string): Promise<WatermarkSettings | null> {
+  siteWatermark ??= readYaml(path.join(CONTENT_PATH, "site.yaml")).then((site) => site?.watermark);
+  
+  const galleriesRoot = path.join(CONTENT_PATH, "galleries");
+  let override: unknown = NO_OVERRIDE;
+  for (
+    let dir = path.dirname(imagePath);
+    dir.startsWith(galleriesRoot + path.sep) && override === NO_OVERRIDE;
+    dir = path.dirname(dir)
+  ) {
+    override = await readGalleryOverride(dir);
+  }
+  
+  return resolveWatermarkSettings(
+    await siteWatermark,
+    override === NO_OVERRIDE ? undefined : override
+  );
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/[<>&"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+/** Composite layer for a variant of the given size, or null for none. */
+async function watermarkLayer(
+  settings: WatermarkSettings,
+  width: number,
+  height: number
+): Promise<sharp.OverlayOptions | null> {
+  if (!watermarkAppliesToWidth(settings, width)) return null;
+  
+  let input: Buffer;
+  let mark: { width: number; height: number };
+  
+  if (settings.logo) {
+    const logoPath = path.join(CONTENT_PATH, settings.logo);
+    try {
+      const { data, info } = await sharp(logoPath)
+        .resize(watermarkLogoWidth(settings, width))
+        .ensureAlpha()
+        // Scale the logo's own alpha by the configured opacity
+        .composite([{
+          input: Buffer.from([255, 255, 255, Math.round(255 * settings.opacity)]),
+          raw: { width: 1, height: 1, channels: 4 },
+          tile: true,
+          blend: "dest-in",
+        }])
+        .png()
+        .toBuffer({ resolveWithObject: true });
+      input = data;
+      mark = { width: info.width, height: info.height };
+    } catch {
+      if (!settings.text) return null;
+      console.warn(`⚠️  Watermark logo ${settings.logo} not found, using text`);
+      return watermarkLayer({ ...settings, logo: undefined }, width, height);
+    }
+  } else if (settings.text) {
+    const box = watermarkTextBox(settings, width);
+    input = Buffer.from(
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${box.width}" height="${box.height}">` +
+      `<text x="0" y="${box.fontSize}" font-family="sans-serif" font-size="${box.fontSize}" ` +
+      `fill="#fff" stroke="#000" stroke-width="${Math.max(1, Math.round(box.fontSize / 24))}" ` +
+      `paint-order="stroke" opacity="${settings.opacity}">${escapeXml(settings.text)}</text></svg>`
+    );
+    mark = { width: box.width, height: box.height };
+  } else {
+    return null;
+  }
+  
+  const { x, y } = watermarkPlacement({ width, height }, mark, settings.position);
+  return { input, left: x, top: y };
+}
+
 async function variantExists(variantPath: string): Promise<boolean> {
   try {
     await fs.access(variantPath);
@@ -117,6 +231,8 @@ async function processImage(imagePath: string): Promise<ProcessResult> {
     const image = sharp(imagePath);
     const metadata = await image.metadata();
     const originalWidth = metadata.width || 1600;
+    const originalHeight = metadata.height || Math.round(originalWidth * 2 / 3);
+    const watermark = await getWatermark(imagePath);
     
     // Generate each size variant
     for (const width of WIDTHS) {
@@ -130,11 +246,19 @@ async function processImage(imagePath: string): Promise<ProcessResult> {
         continue;
       }
       
-      await sharp(imagePath)
+      const variant = sharp(imagePath)
         .resize(width, null, {
           fit: "inside",
           withoutEnlargement: true,
-        })
+        });
+      
+      const layer = watermark &&
+        await watermarkLayer(watermark, width, Math.round(originalHeight * width / originalWidth));
+      if (layer) {
+        variant.composite([layer]);
+      }
+      
+      await variant
         .webp({ quality: QUALITY_BY_WIDTH[width], smartSubsample: true, effort: 6 })
         .toFile(variantPath);
       
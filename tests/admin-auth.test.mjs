@@ -40,8 +40,8 @@ describe("local admin password reset", () => {
 
     const stored = await storage.getText(".victopress/admin-auth.json");
     expect(stored).not.toContain("second-secure-password-value");
-    expect(JSON.parse(stored).passwordHash).toBeString();
-    expect(JSON.parse(stored).passwordIterations).toBe(100_000);
+    expect(JSON.parse(stored).users[0].passwordHash).toBeString();
+    expect(JSON.parse(stored).users[0].passwordIterations).toBe(100_000);
   });
 
   test("persists the session only when remembering credentials", () => {
@@ -0,0 +1,274 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { AppLoadContext } from "@remix-run/cloudflare";
+import { getStorage } from "../app/lib/content-engine";
+import { LocalStorageAdapter } from "../app/lib/content-engine/storage/local-adapter";
+import { action as loginAction } from "../app/routes/admin.login";
+import {
+  confirmAdminTotp,
+  requireAdminAccount,
+  setAdminPassword,
+  startAdminTotpEnrollment,
+  verifyAdminSecondFactor,
+} from "../app/utils/admin-auth";
+import { base32Encode, generateTotp, matchTotpStep } from "../app/utils/admin-totp";
+import {
+  clearLoginFailures,
+  getLoginRetryAfter,
+  loginThrottleKeys,
+  recordLoginFailure,
+} from "../app/utils/login-throttle";
+
+describe("TOTP codes", () => {
+  // RFC 6238 appendix B, SHA-1 seed, truncated to six digits.
+  const secret = base32Encode(new TextEncoder().encode("12345678901234567890"));
+
+  test("matches the RFC 6238 test vectors", async () => {
+    expect(secret).toBe("GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ");
+    expect(await generateTotp(secret, new Date(59_000))).toBe("287082");
+    expect(await generateTotp(secret, new Date(1_111_111_109_000))).toBe("081804");
+    expect(await generateTotp(secret, new Date(20_000_000_000_000))).toBe("353130");
+  });
+
+  test("accepts one period of clock drift", async () => {
+    const now = new Date(1_111_111_109_000);
+    const previous = await generateTotp(secret, new Date(now.getTime() - 30_000));
+    const stale = await generateTotp(secret, new Date(now.getTime() - 90_000));
+    expect(await matchTotpStep(secret, previous, now)).toBe(37_037_035);
+    expect(await matchTotpStep(secret, stale, now)).toBeNull();
+    expect(await matchTotpStep(secret, "abc123", now)).toBeNull();
+  });
+});
+
+describe("two-factor enrollment", () => {
+  let temporaryDirectory = "";
+  let storage: LocalStorageAdapter;
+  const now = new Date("2026-06-01T12:00:00Z");
+  const later = new Date("2026-06-01T12:00:30Z");
+
+  beforeEach(async () => {
+    temporaryDirectory = await mkdtemp(join(tmpdir(), "victopress-2fa-"));
+    storage = new LocalStorageAdapter(temporaryDirectory);
+    await setAdminPassword(storage, "owner", "owner-secure-password-value");
+  });
+
+  afterEach(async () => {
+    await rm(temporaryDirectory, { recursive: true, force: true });
+  });
+
+  test("refuses replayed codes and spends recovery codes once", async () => {
+    const { secret, uri } = await startAdminTotpEnrollment(storage, "owner");
+    expect(uri).toStartWith("otpauth://totp/VictoPress%3Aowner?secret=");
+
+    const firstCode = await generateTotp(secret, now);
+    const recoveryCodes = await confirmAdminTotp(storage, "owner", firstCode, now);
+    expect(recoveryCodes).toHaveLength(10);
+    expect(await storage.getText(".victopress/admin-auth.json")).not.toContain(recoveryCodes[0]);
+
+    expect(await verifyAdminSecondFactor(storage, "owner", firstCode, now)).toBe(false);
+    expect(await verifyAdminSecondFactor(storage, "owner", await generateTotp(secret, later), later)).toBe(true);
+
+    expect(await verifyAdminSecondFactor(storage, "owner", recoveryCodes[0].toUpperCase(), later)).toBe(true);
+    expect(await verifyAdminSecondFactor(storage, "owner", recoveryCodes[0], later)).toBe(false);
+  });
+
+  test("password recovery removes the second factor", async () => {
+    const { secret } = await startAdminTotpEnrollment(storage, "owner");
+    await confirmAdminTotp(storage, "owner", await generateTotp(secret, now), now);
+    const credentials = await setAdminPassword(storage, "owner", "replacement-secure-password");
+    expect(credentials.totpEnabled).toBe(false);
+  });
+});
+
+/** In-memory text files with the conditional writes R2 and S3 provide. */
+class VersionedTextStorage extends LocalStorageAdapter {
+  private texts = new Map<string, { text: string; version: string }>();
+  private nextVersion = 1;
+
+  async getText(key: string): Promise<string | null> {
+    return this.texts.get(key)?.text ?? null;
+  }
+
+  async getVersionedText(key: string): Promise<{ text: string | null; version: string | null }> {
+    await Promise.resolve();
+    const entry = this.texts.get(key);
+    return { text: entry?.text ?? null, version: entry?.version ?? null };
+  }
+
+  async putTextIfVersion(key: string, text: string, version: string | null): Promise<boolean> {
+    await Promise.resolve();
+    if ((this.texts.get(key)?.version ?? null) !== version) return false;
+    this.texts.set(key, { text, version: String(this.nextVersion++) });
+    return true;
+  }
+}
+
+describe("login throttling", () => {
+  let temporaryDirectory = "";
+  let storage: LocalStorageAdapter;
+
+  beforeEach(async () => {
+    temporaryDirectory = await mkdtemp(join(tmpdir(), "victopress-throttle-"));
+    storage = new LocalStorageAdapter(temporaryDirectory);
+  });
+
+  afterEach(async () => {
+    await rm(temporaryDirectory, { recursive: true, force: true });
+  });
+
+  test("backs off exponentially after the free attempts", async () => {
+    const request = new Request("https://victopress.example/admin/login", {
+      headers: { "CF-Connecting-IP": "203.0.113.7" },
+    });
+    const keys = await loginThrottleKeys(request, "Owner");
+    const start = new Date("2026-06-01T12:00:00Z");
+    const at = (seconds: number) => new Date(start.getTime() + seconds * 1000);
+
+    for (let attempt = 1; attempt < 5; attempt += 1) {
+      expect(await recordLoginFailure(storage, keys, start)).toBe(0);
+    }
+    expect(await recordLoginFailure(storage, keys, start)).toBe(30);
+    expect(await getLoginRetryAfter(storage, keys, at(10))).toBe(20);
+    expect(await getLoginRetryAfter(storage, keys, at(30))).toBe(0);
+    expect(await recordLoginFailure(storage, keys, at(30))).toBe(60);
+
+    const otherUser = await loginThrottleKeys(
+      new Request("https://victopress.example/admin/login", {
+        headers: { "CF-Connecting-IP": "198.51.100.1" },
+      }),
+      "someone",
+    );
+    expect(await getLoginRetryAfter(storage, otherUser, at(31))).toBe(0);
+    expect(await storage.getText(".victopress/login-attempts.json")).not.toContain("203.0.113.7");
+
+    await clearLoginFailures(storage, keys, at(31));
+    expect(await getLoginRetryAfter(storage, keys, at(31))).toBe(0);
+  });
+
+  test("counts failures sent in parallel", async () => {
+    const versioned = new VersionedTextStorage(temporaryDirectory);
+    const keys = await loginThrottleKeys(
+      new Request("https://victopress.example/admin/login", {
+        headers: { "CF-Connecting-IP": "203.0.113.7" },
+      }),
+      "owner",
+    );
+    const now = new Date("2026-06-01T12:00:00Z");
+
+    await Promise.all(Array.from({ length: 5 }, () => recordLoginFailure(versioned, keys, now)));
+    expect(await getLoginRetryAfter(versioned, keys, now)).toBe(30);
+  });
+
+  test("only trusts X-Forwarded-For behind a configured proxy", async () => {
+    const forwarded = (address: string) =>
+      new Request("https://victopress.example/admin/login", {
+        headers: { "X-Forwarded-For": `${address}, 192.0.2.10` },
+      });
+    // Without a known address only the username is charged
+    const usernameOnly = await loginThrottleKeys(new Request("https://victopress.example/admin/login"), "owner");
+    expect(usernameOnly).toHaveLength(1);
+    expect(await loginThrottleKeys(forwarded("203.0.113.7"), "owner")).toEqual(usernameOnly);
+
+    const trusted = { cloudflare: { env: { TRUST_PROXY_FORWARDED_FOR: "true" } } };
+    const [first] = await loginThrottleKeys(forwarded("203.0.113.7"), "owner", trusted);
+    const [second] = await loginThrottleKeys(forwarded("198.51.100.1"), "owner", trusted);
+    // Only the address the proxy appended counts, not what the client sent
+    expect(first).toBe(second);
+    expect(first).not.toBe(usernameOnly[0]);
+  });
+});
+
+describe("two-step sign-in", () => {
+  function memoryContext() {
+    const files = new Map<string, string>();
+    const bucket = {
+      get: async (key: string) => {
+        const value = files.get(key);
+        return value === undefined
+          ? null
+          : { text: async () => value, arrayBuffer: async () => new TextEncoder().encode(value).buffer };
+      },
+      put: async (key: string, value: string) => {
+        files.set(key, value);
+        return {};
+      },
+    };
+    return { cloudflare: { env: { CONTENT_BUCKET: bucket } } } as unknown as AppLoadContext;
+  }
+
+  function post(body: Record<string, string>, cookie?: string) {
+    return new Request("https://victopress.example/admin/login", {
+      method: "POST",
+      body: new URLSearchParams(body),
+      headers: cookie ? { Cookie: cookie } : {},
+    });
+  }
+
+  test("asks for a code before issuing a session", async () => {
+    const context = memoryContext();
+    const storage = getStorage(context);
+    await setAdminPassword(storage, "owner", "owner-secure-password-value");
+    const { secret } = await startAdminTotpEnrollment(storage, "owner");
+    const enrolledAt = new Date(Date.now() - 60_000);
+    await confirmAdminTotp(storage, "owner", await generateTotp(secret, enrolledAt), enrolledAt);
+
+    const passwordStep = await loginAction({
+      request: post({ username: "owner", password: "owner-secure-password-value" }),
+      context,
+      params: {},
+    }) as Response;
+    expect(passwordStep.status).toBe(200);
+    expect(await passwordStep.json()).toEqual({ twoFactor: true });
+    const challengeCookie = passwordStep.headers.get("Set-Cookie")!.split(";")[0];
+    expect(challengeCookie).toStartWith("admin_2fa=");
+
+    // The challenge is not a session.
+    const asSession = await requireAdminAccount(
+      new Request("https://victopress.example/admin", {
+        headers: { Cookie: challengeCookie.replace("admin_2fa", "admin_auth") },
+      }),
+      context,
+    ).catch((error: unknown) => error);
+    expect((asSession as Response).headers.get("Location")).toStartWith("/admin/login");
+
+    const wrongCode = await loginAction({
+      request: post({ intent: "verify", code: "000000" }, challengeCookie),
+      context,
+      params: {},
+    }) as Response;
+    expect(wrongCode.status).toBe(401);
+
+    const codeStep = await loginAction({
+      request: post({ intent: "verify", code: await generateTotp(secret) }, challengeCookie),
+      context,
+      params: {},
+    }) as Response;
+    expect(codeStep.status).toBe(302);
+    expect(codeStep.headers.get("Set-Cookie")).toContain("admin_auth=");
+  });
+
+  test("throttles failed Basic Auth attempts like the login form", async () => {
+    const context = memoryContext();
+    await setAdminPassword(getStorage(context), "owner", "owner-secure-password-value");
+    const basic = (password: string) =>
+      requireAdminAccount(
+        new Request("https://victopress.example/api/admin/photos", {
+          headers: {
+            Authorization: `Basic ${btoa(`owner:${password}`)}`,
+            "CF-Connecting-IP": "203.0.113.7",
+          },
+        }),
+        context,
+      ).catch((error: unknown) => error as Response);
+
+    expect(await basic("owner-secure-password-value")).toEqual({ username: "owner", role: "owner" });
+    for (let attempt = 0; attempt < 5; attempt += 1) {
+      expect(((await basic(`guess-${attempt}`)) as Response).status).toBe(302);
+    }
+    const throttled = (await basic("owner-secure-password-value")) as Response;
+    expect(throttled.status).toBe(429);
+    expect(Number(throttled.headers.get("Retry-After"))).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { LocalStorageAdapter } from "../app/lib/content-engine/storage/local-adapter";
+import { roleCan } from "../app/lib/admin-roles";
+import { translatedEditionsOnly } from "../app/lib/i18n";
+import {
+  acceptAdminInvite,
+  AdminUserError,
+  createAdminSessionToken,
+  getAdminAccounts,
+  inviteAdminUser,
+  listAdminUsers,
+  requireAdminAccount,
+  revokeAdminSessions,
+  setAdminPassword,
+  updateAdminUser,
+} from "../app/utils/admin-auth";
+
+const AUTH_PATH = ".victopress/admin-auth.json";
+
+describe("admin accounts", () => {
+  let temporaryDirectory = "";
+  let storage: LocalStorageAdapter;
+
+  beforeEach(async () => {
+    temporaryDirectory = await mkdtemp(join(tmpdir(), "victopress-users-"));
+    storage = new LocalStorageAdapter(temporaryDirectory);
+    await setAdminPassword(storage, "owner", "owner-secure-password-value");
+  });
+
+  afterEach(async () => {
+    await rm(temporaryDirectory, { recursive: true, force: true });
+  });
+
+  /** A production request context whose bucket serves the stored auth record. */
+  async function contextFor() {
+    const record = await storage.getText(AUTH_PATH);
+    return {
+      cloudflare: {
+        env: {
+          CONTENT_BUCKET: {
+            get: async (key: string) =>
+              key === AUTH_PATH && record ? { text: async () => record } : null,
+          },
+        },
+      },
+    };
+  }
+
+  function sessionRequest(token: string) {
+    return new Request("https://victopress.example/admin/settings", {
+      headers: { Cookie: `admin_auth=${token}` },
+    });
+  }
+
+  test("activates an invited account with a one-time link", async () => {
+    const now = new Date("2026-05-01T00:00:00Z");
+    const { token, expiresAt } = await inviteAdminUser(
+      storage,
+      { username: "translator", role: "translator", invitedBy: "owner" },
+      null,
+      now,
+    );
+    expect(expiresAt).toBe("2026-05-08T00:00:00.000Z");
+    expect(await storage.getText(AUTH_PATH)).not.toContain(token);
+    expect((await listAdminUsers(storage)).find((user) => user.username === "translator")?.pending).toBe(true);
+
+    await expect(
+      acceptAdminInvite(storage, "translator", "wrong-token", "translator-password", now),
+    ).rejects.toBeInstanceOf(AdminUserError);
+    await expect(
+      acceptAdminInvite(storage, "translator", token, "short", now),
+    ).rejects.toThrow("at least 12 characters");
+
+    const credentials = await acceptAdminInvite(storage, "translator", token, "translator-password", now);
+    expect(credentials.role).toBe("translator");
+    await expect(
+      acceptAdminInvite(storage, "translator", token, "translator-password", now),
+    ).rejects.toBeInstanceOf(AdminUserError);
+  });
+
+  test("rejects expired invitations", async () => {
+    const { token } = await inviteAdminUser(
+      storage,
+      { username: "late", role: "editor", invitedBy: "owner" },
+      null,
+      new Date("2026-05-01T00:00:00Z"),
+    );
+    await expect(
+      acceptAdminInvite(storage, "late", token, "editor-password-value", new Date("2026-05-09T00:00:00Z")),
+    ).rejects.toThrow("invalid or has expired");
+  });
+
+  test("enforces role permissions on admin requests", async () => {
+    const { token } = await inviteAdminUser(storage, {
+      username: "writer",
+      role: "newsletter",
+      invitedBy: "owner",
+    });
+    const credentials = await acceptAdminInvite(storage, "writer", token, "newsletter-password");
+    const session = await createAdminSessionToken(credentials);
+    const context = await contextFor();
+
+    const account = await requireAdminAccount(sessionRequest(session), context, "newsletter");
+    expect(account).toEqual({ username: "writer", role: "newsletter" });
+
+    const forbidden = await requireAdminAccount(sessionRequest(session), context, "settings").catch(
+      (error: unknown) => error,
+    );
+    expect(forbidden).toBeInstanceOf(Response);
+    expect((forbidden as Response).status).toBe(403);
+  });
+
+  test("revoking sessions and disabling sign the account out", async () => {
+    const { token } = await inviteAdminUser(storage, { username: "editor", role: "editor", invitedBy: "owner" });
+    const session = await createAdminSessionToken(
+      await acceptAdminInvite(storage, "editor", token, "editor-password-value"),
+    );
+
+    await revokeAdminSessions(storage, "editor");
+    const revoked = await requireAdminAccount(sessionRequest(session), await contextFor()).catch(
+      (error: unknown) => error,
+    );
+    expect((revoked as Response).headers.get("Location")).toStartWith("/admin/login");
+
+    await updateAdminUser(storage, "editor", { disabled: true });
+    const accounts = await getAdminAccounts(await contextFor());
+    expect(accounts?.map((account) => account.username)).toEqual(["owner"]);
+  });
+
+  test("keeps at least one active owner", async () => {
+    await expect(updateAdminUser(storage, "owner", { role: "editor" })).rejects.toThrow(
+      "At least one active owner",
+    );
+    await expect(updateAdminUser(storage, "owner", { disabled: true })).rejects.toBeInstanceOf(
+      AdminUserError,
+    );
+  });
+});
+
+describe("role permissions", () => {
+  test("translators may only edit translations", () => {
+    expect(roleCan("translator", "translations")).toBe(true);
+    expect(roleCan("translator", "content")).toBe(false);
+    expect(roleCan("editor", "settings")).toBe(false);
+    expect(roleCan(undefined, "users")).toBe(true);
+  });
+
+  test("strips the source edition and shared fields from translator edits", () => {
+    const formData = new FormData();
+    formData.set("slug", "japan");
+    formData.set("title_en", "Japan");
+    formData.set("title_es", "Japón");
+    formData.set("tags", "travel");
+    formData.set("sourceLocale", "es");
+
+    const filtered = translatedEditionsOnly(formData, "en", ["slug"]);
+    expect([...filtered.keys()].sort()).toEqual(["slug", "title_es"]);
+  });
+});
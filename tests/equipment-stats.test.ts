@@ -0,0 +1,123 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { AppLoadContext } from "@remix-run/cloudflare";
+import type { GalleryDataEntry, GalleryPhotoEntry, ImageMetadataSummary } from "../app/lib/content-engine";
+import {
+  buildEquipmentStats,
+  matchesEquipmentFilter,
+  mergeEquipmentStats,
+  parseEquipmentFilter,
+  summarizeEquipmentStats,
+} from "../app/lib/content-engine/equipment-stats";
+import { rebuildContentIndex } from "../app/lib/content-engine/content-index";
+import { LocalStorageAdapter } from "../app/lib/content-engine/storage/local-adapter";
+import { parseEquipmentStatsVisibility } from "../app/lib/equipment-stats.server";
+import { loader as statsApiLoader } from "../app/routes/api.photos.stats";
+
+function photo(
+  name: string,
+  exif: ImageMetadataSummary | undefined,
+  overrides: Partial<GalleryPhotoEntry> = {},
+): GalleryPhotoEntry {
+  return { id: name, path: `galleries/street/${name}.jpg`, filename: `${name}.jpg`, exif, ...overrides };
+}
+
+function gallery(slug: string, photos: GalleryPhotoEntry[]) {
+  return { slug, photos } as GalleryDataEntry;
+}
+
+const x100 = { camera: "Fujifilm X100V", lens: undefined, focalLength: 23, aperture: 2, iso: 400, shutterSpeed: "1/250s" };
+
+const galleries = [
+  gallery("street", [
+    photo("a", x100, { dateTaken: "2020-05-01T10:00:00.000Z" }),
+    photo("b", { ...x100, aperture: 2.799999952316284 }, { dateTaken: "2021-05-01T10:00:00.000Z" }),
+    photo("c", { camera: "Sony A7 III", lens: "FE 85mm F1.8", focalLength: 85, aperture: 1.8, iso: 100 }),
+    photo("d", undefined),
+    photo("e", x100, { hidden: true }),
+    photo("f", x100, { isReference: true }),
+  ]),
+  gallery("travel", [photo("g", { camera: "Sony A7 III", focalLength: 600.4 }, { dateTaken: "2019-01-01T00:00:00.000Z" })]),
+];
+
+describe("equipment statistics", () => {
+  test("counts cameras and lenses by year and exposure values", () => {
+    const stats = summarizeEquipmentStats(
+      mergeEquipmentStats(buildEquipmentStats(galleries), ["street", "travel"]),
+    );
+    expect(stats.totalPhotos).toBe(5);
+    expect(stats.photosWithExif).toBe(4);
+    expect(stats.cameras).toEqual([
+      { name: "Fujifilm X100V", count: 2, years: [{ year: "2020", count: 1 }, { year: "2021", count: 1 }] },
+      { name: "Sony A7 III", count: 2, years: [{ year: "2019", count: 1 }, { year: "undated", count: 1 }] },
+    ]);
+    expect(stats.lenses.map((lens) => lens.name)).toEqual(["FE 85mm F1.8"]);
+    expect(stats.apertures).toEqual([
+      { value: "1.8", count: 1 },
+      { value: "2", count: 1 },
+      { value: "2.8", count: 1 },
+    ]);
+    expect(stats.focalLengths.filter((bucket) => bucket.count > 0)).toEqual([
+      { range: "21-28", min: 21, max: 28, count: 2 },
+      { range: "51-85", min: 51, max: 85, count: 1 },
+      { range: "401-600", min: 401, max: 600, count: 1 },
+    ]);
+  });
+
+  test("merges only the requested galleries", () => {
+    const stats = summarizeEquipmentStats(mergeEquipmentStats(buildEquipmentStats(galleries), ["travel"]));
+    expect(stats.cameras.map((camera) => [camera.name, camera.count])).toEqual([["Sony A7 III", 1]]);
+  });
+
+  test("filters photos from query parameters", () => {
+    const filter = parseEquipmentFilter(new URLSearchParams("camera=Fujifilm%20X100V&focal=21-28&year=2021"));
+    expect(filter).toEqual({ camera: "Fujifilm X100V", focalMin: 21, focalMax: 28, year: "2021" });
+    expect(galleries[0].photos.filter((item) => matchesEquipmentFilter(item, filter!)).map((item) => item.filename))
+      .toEqual(["b.jpg"]);
+
+    const aperture = parseEquipmentFilter(new URLSearchParams("aperture=2.8"))!;
+    expect(galleries[0].photos.filter((item) => matchesEquipmentFilter(item, aperture)).map((item) => item.filename))
+      .toEqual(["b.jpg"]);
+    expect(parseEquipmentFilter(new URLSearchParams("focal=601-"))).toEqual({ focalMin: 601 });
+    expect(parseEquipmentFilter(new URLSearchParams("year=20x1&iso=-5"))).toBeNull();
+  });
+
+  test("is public unless site.yaml restricts it to admins", () => {
+    expect(parseEquipmentStatsVisibility({})).toBe("public");
+    expect(parseEquipmentStatsVisibility({ equipmentStats: "admin" })).toBe("admin");
+  });
+});
+
+describe("equipment statistics API", () => {
+  test("keeps admin-only statistics out of shared caches", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "victopress-equipment-"));
+    try {
+      const storage = new LocalStorageAdapter(directory);
+      await rebuildContentIndex(storage);
+      const bucket = {
+        get: async (key: string) => {
+          const text = await storage.getText(key);
+          return text === null ? null : { text: async () => text };
+        },
+      };
+      const context = { cloudflare: { env: { CONTENT_BUCKET: bucket } } } as unknown as AppLoadContext;
+      // Localhost requests are signed in as the owner.
+      const cacheControl = async () => {
+        const response = await statsApiLoader({
+          request: new Request("http://localhost:5173/api/photos/stats"),
+          context,
+          params: {},
+        });
+        return response.headers.get("Cache-Control");
+      };
+
+      expect(await cacheControl()).toBe("public, max-age=60, s-maxage=300");
+      await storage.put("site.yaml", "equipmentStats: admin\n");
+      expect(await cacheControl()).toBe("private, no-store");
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { AppLoadContext } from "@remix-run/cloudflare";
+import type { BlogPost, GalleryDataEntry } from "../app/lib/content-engine";
+import { rebuildContentIndex } from "../app/lib/content-engine/content-index";
+import { LocalStorageAdapter } from "../app/lib/content-engine/storage/local-adapter";
+import { feedUrls, parseFeedPath } from "../app/lib/feed-urls";
+import { buildBlogFeed, buildGalleryFeed, renderFeed } from "../app/lib/feeds";
+import type { HeadlessBlogConfig } from "../app/lib/headless-blog";
+import { loader as feedsLoader } from "../app/routes/feeds.$";
+
+const config: HeadlessBlogConfig = {
+  siteName: "Victoriano Izquierdo",
+  publicBlogUrl: "https://victoriano.me/blog",
+  publicMediaUrl: "https://photos.victoriano.me",
+};
+
+const baseUrl = "https://photos.victoriano.me";
+
+function post(overrides: Partial<BlogPost>): BlogPost {
+  return {
+    id: "post",
+    slug: "post",
+    title: "Post",
+    path: "blog/post",
+    content: "A post",
+    excerpt: "A post",
+    readingTime: 1,
+    images: [],
+    hasFrontmatter: true,
+    format: "markdown",
+    ...overrides,
+  };
+}
+
+describe("feed URLs", () => {
+  test("parses blog and nested gallery feeds in every format", () => {
+    expect(parseFeedPath("blog/rss.xml")).toEqual({ kind: "blog", format: "rss" });
+    expect(parseFeedPath("gallery/travel/japan/feed.json")).toEqual({
+      kind: "gallery",
+      slug: "travel/japan",
+      format: "json",
+    });
+    expect(parseFeedPath("gallery/atom.xml")).toBeNull();
+    expect(parseFeedPath("blog/index.html")).toBeNull();
+  });
+
+  test("prefixes non-default editions", () => {
+    expect(feedUrls(baseUrl, "es", { kind: "blog" }).atom).toBe(
+      "https://photos.victoriano.me/es/feeds/blog/atom.xml",
+    );
+    expect(feedUrls(baseUrl, "en", { kind: "gallery", slug: "japan" }).rss).toBe(
+      "https://photos.victoriano.me/feeds/gallery/japan/rss.xml",
+    );
+  });
+});
+
+describe("blog feeds", () => {
+  const posts = [
+    post({
+      slug: "launch",
+      title: "Launch & more",
+      date: new Date("2026-03-01T00:00:00.000Z"),
+      content: "![Cover](blog/launch/cover.jpg)",
+      cover: "blog/launch/cover.jpg",
+      tags: ["street"],
+      translations: {
+        es: {
+          locale: "es",
+          title: "Lanzamiento",
+          content: "Hola",
+          excerpt: "Hola",
+          readingTime: 1,
+          format: "markdown",
+          path: "blog/launch/index.es.md",
+        },
+      },
+    }),
+    post({ slug: "secret", title: "Secret", draft: true }),
+  ];
+  const feed = buildBlogFeed(posts, config, "en", feedUrls(baseUrl, "en", { kind: "blog" }));
+
+  test("lists published posts with absolute links and images", () => {
+    expect(feed.items.map((item) => item.url)).toEqual(["https://victoriano.me/blog/launch"]);
+    expect(feed.items[0].imageUrl).toStartWith("https://photos.victoriano.me/api/images/blog/launch/cover.jpg");
+    expect(feed.items[0].contentHtml).toContain('src="https://photos.victoriano.me/api/images/blog/launch/cover.jpg');
+  });
+
+  test("renders valid RSS, Atom and JSON Feed documents", () => {
+    const rss = renderFeed(feed, "rss");
+    expect(rss.contentType).toBe("application/rss+xml; charset=utf-8");
+    expect(rss.body).toContain("<title>Launch &amp; more</title>");
+    expect(rss.body).toContain("<pubDate>Sun, 01 Mar 2026 00:00:00 GMT</pubDate>");
+    expect(rss.body).toContain('<atom:link href="https://photos.victoriano.me/feeds/blog/rss.xml" rel="self"');
+
+    const atom = renderFeed(feed, "atom").body;
+    expect(atom).toContain("<updated>2026-03-01T00:00:00.000Z</updated>");
+    expect(atom).toContain('<category term="street" />');
+
+    const json = JSON.parse(renderFeed(feed, "json").body);
+    expect(json.version).toBe("https://jsonfeed.org/version/1.1");
+    expect(json.feed_url).toBe("https://photos.victoriano.me/feeds/blog/feed.json");
+    expect(json.items[0].date_published).toBe("2026-03-01T00:00:00.000Z");
+  });
+
+  test("uses the translated edition for other locales", () => {
+    const spanish = buildBlogFeed(posts, config, "es", feedUrls(baseUrl, "es", { kind: "blog" }));
+    expect(spanish.items[0].title).toBe("Lanzamiento");
+    expect(spanish.items[0].url).toBe("https://victoriano.me/es/blog/launch");
+  });
+});
+
+describe("gallery feeds", () => {
+  test("lists the most recently added visible photos first", () => {
+    const gallery = {
+      slug: "japan",
+      title: "Japan",
+      path: "galleries/japan",
+      photoCount: 3,
+      isProtected: false,
+      hasChildren: false,
+      childCount: 0,
+      photos: [
+        { id: "a", path: "galleries/japan/old.jpg", filename: "old.jpg", lastModified: "2026-01-01T00:00:00.000Z" },
+        { id: "b", path: "galleries/japan/new one.jpg", filename: "new one.jpg", title: "Tokyo", lastModified: "2026-02-01T00:00:00.000Z" },
+        { id: "c", path: "galleries/japan/hidden.jpg", filename: "hidden.jpg", hidden: true, lastModified: "2026-03-01T00:00:00.000Z" },
+      ],
+    } as GalleryDataEntry;
+
+    const feed = buildGalleryFeed(gallery, {
+      baseUrl,
+      locale: "en",
+      siteName: "VictoPress",
+      urls: feedUrls(baseUrl, "en", { kind: "gallery", slug: "japan" }),
+    });
+
+    expect(feed.title).toBe("Japan - VictoPress");
+    expect(feed.items.map((item) => item.title)).toEqual(["Tokyo", "old.jpg"]);
+    expect(feed.items[0].url).toBe("https://photos.victoriano.me/photo/japan/new%20one.jpg");
+    expect(feed.items[0].imageUrl).toBe("https://photos.victoriano.me/api/images/galleries/japan/new%20one.jpg");
+  });
+
+  test("are only served for public galleries", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "victopress-feeds-"));
+    try {
+      const storage = new LocalStorageAdapter(directory);
+      await storage.put("galleries/street/gallery.yaml", "title: Street\n");
+      await storage.put("galleries/street/a.jpg", "jpg");
+      await storage.put("galleries/family/gallery.yaml", "title: Family\nprivate: true\n");
+      await storage.put("galleries/family/a.jpg", "jpg");
+      await storage.put("galleries/clients/gallery.yaml", "title: Clients\npassword: secret\n");
+      await storage.put("galleries/clients/a.jpg", "jpg");
+      await rebuildContentIndex(storage);
+      const bucket = {
+        get: async (key: string) => {
+          const text = await storage.getText(key);
+          return text === null ? null : { text: async () => text };
+        },
+      };
+      const context = { cloudflare: { env: { CONTENT_BUCKET: bucket } } } as unknown as AppLoadContext;
+      const status = async (slug: string) => {
+        const response = await feedsLoader({
+          request: new Request(`https://photos.victoriano.me/feeds/gallery/${slug}/rss.xml`),
+          context,
+          params: { "*": `gallery/${slug}/rss.xml` },
+        }).catch((error: unknown) => error as Response);
+        return response.status;
+      };
+
+      expect(await status("street")).toBe(200);
+      expect(await status("family")).toBe(404);
+      expect(await status("clients")).toBe(404);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
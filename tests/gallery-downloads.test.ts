@@ -0,0 +1,210 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { GalleryDataEntry } from "../app/lib/content-engine";
+import {
+  effectiveGalleryDownloadSize,
+  normalizeGalleryDownloadPolicy,
+  serializeGalleryDownloadPolicy,
+} from "../app/lib/content-engine/gallery-downloads";
+import { LocalStorageAdapter } from "../app/lib/content-engine/storage/local-adapter";
+import {
+  attachmentDisposition,
+  crc32,
+  createZipStream,
+  galleryArchivePhotos,
+  galleryDownloadAccess,
+  getGalleryDownloadCounts,
+  loadDownloadFile,
+  recordGalleryDownload,
+} from "../app/lib/gallery-downloads.server";
+import type { GalleryShareLink } from "../app/utils/gallery-shares";
+
+function gallery(slug: string, overrides: Partial<GalleryDataEntry> = {}): GalleryDataEntry {
+  return {
+    slug,
+    title: slug,
+    path: `galleries/${slug}`,
+    photoCount: 0,
+    isProtected: false,
+    hasChildren: false,
+    childCount: 0,
+    photos: [],
+    ...overrides,
+  };
+}
+
+function photo(path: string, hidden = false) {
+  return { id: path, path, filename: path.split("/").pop()!, hidden };
+}
+
+describe("gallery download policy", () => {
+  test("reads both gallery.yaml forms and writes back the shortest", () => {
+    expect(normalizeGalleryDownloadPolicy("original")).toEqual({ size: "original" });
+    expect(normalizeGalleryDownloadPolicy({ size: "web-size", watermark: true })).toEqual({
+      size: "web-size",
+      watermark: true,
+    });
+    expect(normalizeGalleryDownloadPolicy("everything")).toEqual({ size: "none" });
+    expect(serializeGalleryDownloadPolicy({ size: "original" })).toBe("original");
+    expect(serializeGalleryDownloadPolicy({ size: "none", watermark: true })).toBeUndefined();
+    expect(effectiveGalleryDownloadSize({ size: "original", watermark: true })).toBe("web-size");
+  });
+
+  test("share links that allow downloads override the gallery policy", () => {
+    const now = new Date("2026-06-01T12:00:00Z");
+    const share: GalleryShareLink = {
+      id: "s1",
+      gallerySlug: "clients",
+      recipient: "Ana",
+      allowDownload: false,
+      createdAt: now.toISOString(),
+      expiresAt: "2026-07-01T00:00:00Z",
+    };
+    const locked = gallery("clients/smith", { password: "secret", downloads: { size: "web-size" } });
+    const stranger = { shares: [], passwordUnlocked: false };
+
+    expect(galleryDownloadAccess(gallery("open"), stranger, now)).toBeNull();
+    expect(galleryDownloadAccess(locked, stranger, now)).toBeNull();
+    expect(galleryDownloadAccess(locked, { shares: [share], passwordUnlocked: false }, now)).toEqual({
+      size: "web-size",
+      share,
+    });
+    expect(
+      galleryDownloadAccess(locked, { shares: [{ ...share, allowDownload: true }], passwordUnlocked: false }, now)?.size,
+    ).toBe("original");
+    expect(
+      galleryDownloadAccess({ ...locked, unpublishAt: "2026-05-01T00:00:00Z" }, { shares: [share], passwordUnlocked: true }, now),
+    ).toBeNull();
+  });
+
+  test("archives include visible nested photos under unique names", () => {
+    const root = gallery("trips", {
+      photos: [photo("galleries/trips/a.jpg"), photo("galleries/trips/A.JPG"), photo("galleries/trips/x.jpg", true)],
+    });
+    const italy = gallery("trips/italy", {
+      photos: [photo("galleries/trips/italy/a.jpg"), photo("galleries/trips/a.jpg")],
+    });
+    const locked = gallery("trips/private", { password: "secret", photos: [photo("galleries/trips/private/b.jpg")] });
+
+    const names = galleryArchivePhotos(root, [root, italy, locked], (source) => (source.password ? null : "original"))
+      .map((entry) => entry.name);
+    expect(names).toEqual(["a.jpg", "A (2).JPG", "italy/a.jpg"]);
+    expect(
+      galleryArchivePhotos({ ...root, includeNestedPhotos: false }, [italy], () => "web-size")
+        .map((entry) => entry.name),
+    ).toEqual(["a.webp", "A (2).webp"]);
+  });
+
+  test("nested galleries in an archive keep their own download policy", () => {
+    const now = new Date("2026-06-01T12:00:00Z");
+    const visitor = { shares: [], passwordUnlocked: false };
+    const root = gallery("trips", { downloads: { size: "original" }, photos: [photo("galleries/trips/a.jpg")] });
+    const marked = gallery("trips/italy", {
+      downloads: { size: "original", watermark: true },
+      photos: [photo("galleries/trips/italy/b.jpg")],
+    });
+    const closed = gallery("trips/family", { photos: [photo("galleries/trips/family/c.jpg")] });
+    const small = gallery("trips/paris", {
+      downloads: { size: "web-size" },
+      photos: [photo("galleries/trips/paris/d.jpg")],
+    });
+
+    const entries = galleryArchivePhotos(
+      root,
+      [root, marked, closed, small],
+      (source) => galleryDownloadAccess(source, visitor, now)?.size ?? null,
+    );
+    expect(entries.map(({ name, size }) => [name, size])).toEqual([
+      ["a.jpg", "original"],
+      ["italy/b.webp", "web-size"],
+      ["paris/d.webp", "web-size"],
+    ]);
+  });
+
+  test("content disposition keeps non-ASCII names", () => {
+    expect(attachmentDisposition("Año \"1\".jpg")).toBe(
+      "attachment; filename=\"A_o _1_.jpg\"; filename*=UTF-8''A%C3%B1o%20%221%22.jpg",
+    );
+  });
+});
+
+describe("gallery archives", () => {
+  test("stream a ZIP whose directory matches its entries", async () => {
+    const encoder = new TextEncoder();
+    const stream = createZipStream([
+      { name: "one.txt", load: async () => encoder.encode("first photo").buffer as ArrayBuffer },
+      { name: "missing.txt", load: async () => null },
+      { name: "broken.txt", load: async () => Promise.reject(new Error("gone")) },
+      { name: "ñ/two.txt", load: async () => encoder.encode("second").buffer as ArrayBuffer },
+    ]);
+    const bytes = new Uint8Array(await new Response(stream).arrayBuffer());
+    const view = new DataView(bytes.buffer);
+
+    const end = bytes.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+
+    const decoder = new TextDecoder();
+    let position = view.getUint32(end + 16, true);
+    const entries: Array<{ name: string; content: string }> = [];
+    for (let index = 0; index < 2; index += 1) {
+      expect(view.getUint32(position, true)).toBe(0x02014b50);
+      const crc = view.getUint32(position + 16, true);
+      const size = view.getUint32(position + 20, true);
+      const nameLength = view.getUint16(position + 28, true);
+      const name = decoder.decode(bytes.subarray(position + 46, position + 46 + nameLength));
+      const local = view.getUint32(position + 42, true);
+      expect(view.getUint32(local, true)).toBe(0x04034b50);
+      const dataStart = local + 30 + view.getUint16(local + 26, true);
+      const data = bytes.subarray(dataStart, dataStart + size);
+      expect(crc32(data)).toBe(crc);
+      entries.push({ name, content: decoder.decode(data) });
+      position += 46 + nameLength + view.getUint16(position + 30, true);
+    }
+    expect(entries).toEqual([
+      { name: "one.txt", content: "first photo" },
+      { name: "ñ/two.txt", content: "second" },
+    ]);
+  });
+});
+
+describe("download files and counts", () => {
+  let temporaryDirectory = "";
+  let storage: LocalStorageAdapter;
+
+  beforeEach(async () => {
+    temporaryDirectory = await mkdtemp(join(tmpdir(), "victopress-downloads-"));
+    storage = new LocalStorageAdapter(temporaryDirectory);
+  });
+
+  afterEach(async () => {
+    await rm(temporaryDirectory, { recursive: true, force: true });
+  });
+
+  test("web size serves the widest variant and never the original", async () => {
+    const source = { path: "galleries/trips/a.jpg", filename: "a.jpg" };
+    await storage.put(source.path, "original");
+    expect(await loadDownloadFile(storage, source, "web-size")).toBeNull();
+
+    await storage.put("galleries/trips/a_800w.webp", "small");
+    await storage.put("galleries/trips/a_1600w.webp", "medium");
+    const file = await loadDownloadFile(storage, source, "web-size");
+    expect(file?.filename).toBe("a.webp");
+    expect(new TextDecoder().decode(file!.buffer)).toBe("medium");
+  });
+
+  test("counts photos and archives per gallery", async () => {
+    const now = new Date("2026-06-01T12:00:00Z");
+    await recordGalleryDownload(storage, "trips", "photo", now);
+    await recordGalleryDownload(storage, "trips", "photo", now);
+    await recordGalleryDownload(storage, "trips", "archive", now);
+    expect(await getGalleryDownloadCounts(storage, "trips")).toEqual({
+      photos: 2,
+      archives: 1,
+      lastDownloadAt: now.toISOString(),
+    });
+    expect(await getGalleryDownloadCounts(storage, "other")).toEqual({ photos: 0, archives: 0 });
+  });
+});
@@ -5,6 +5,7 @@ import { join } from "node:path";
 import {
   assignPhotosToGalleryInIndex,
   readContentIndex,
+  unassignPhotosFromGalleryInIndex,
   writeContentIndex,
   type ContentIndex,
 } from "../app/lib/content-engine/content-index";
@@ -19,7 +20,7 @@ describe("logical gallery memberships", () => {
     directory = await mkdtemp(join(tmpdir(), "victopress-memberships-"));
     storage = new LocalStorageAdapter(directory);
     const index: ContentIndex = {
-      version: 11,
+      version: 12,
       updatedAt: "2026-07-18T10:00:00.000Z",
       galleries: [
         {
@@ -117,4 +118,26 @@ describe("logical gallery memberships", () => {
     expect(memberships).toEqual({ "galleries/source/photo.jpg": ["urban"] });
     expect(index?.stats.totalPhotos).toBe(1);
   });
+
+  test("removes a logical membership without touching the source photo", async () => {
+    await assignPhotosToGalleryInIndex(storage, ["galleries/source/photo.jpg"], "urban");
+
+    const result = await unassignPhotosFromGalleryInIndex(
+      storage,
+      ["galleries/source/photo.jpg"],
+      "urban",
+    );
+    const again = await unassignPhotosFromGalleryInIndex(
+      storage,
+      ["galleries/source/photo.jpg"],
+      "source",
+    );
+    const index = await readContentIndex(storage);
+
+    expect(result).toEqual({ removed: 1 });
+    expect(again).toEqual({ removed: 0 });
+    expect(index?.galleryData.find((gallery) => gallery.slug === "urban")?.photos).toEqual([]);
+    expect(index?.galleryData.find((gallery) => gallery.slug === "source")?.photos).toHaveLength(1);
+    expect(await readGalleryMemberships(storage)).toEqual({});
+  });
 });
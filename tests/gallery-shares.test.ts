@@ -0,0 +1,80 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { LocalStorageAdapter } from "../app/lib/content-engine/storage/local-adapter";
+import {
+  addGalleryShareToken,
+  createGalleryShareLink,
+  getGalleryShareLinks,
+  listGalleryShareLinks,
+  recordGalleryShareAccess,
+  revokeGalleryShareLink,
+  shareCoversGallery,
+  verifyGalleryShareToken,
+} from "../app/utils/gallery-shares";
+
+describe("gallery share links", () => {
+  let temporaryDirectory = "";
+  let storage: LocalStorageAdapter;
+  const now = new Date("2026-06-01T12:00:00Z");
+  const inDays = (days: number) => new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+
+  beforeEach(async () => {
+    temporaryDirectory = await mkdtemp(join(tmpdir(), "victopress-shares-"));
+    storage = new LocalStorageAdapter(temporaryDirectory);
+  });
+
+  afterEach(async () => {
+    await rm(temporaryDirectory, { recursive: true, force: true });
+  });
+
+  test("tokens open their gallery until they expire or are revoked", async () => {
+    const { link, token } = await createGalleryShareLink(
+      storage,
+      { gallerySlug: "clients/smith", recipient: "Ana Smith", expiresAt: inDays(7), allowDownload: true },
+      now,
+    );
+
+    expect((await verifyGalleryShareToken(storage, token, now))?.id).toBe(link.id);
+    expect(shareCoversGallery(link, "clients/smith/ceremony")).toBe(true);
+    expect(shareCoversGallery(link, "clients/smithson")).toBe(false);
+    expect(await verifyGalleryShareToken(storage, token, inDays(8))).toBeNull();
+
+    const [payload, signature] = token.split(".");
+    const forged = Buffer.from(payload, "base64url").toString().replace("clients/smith", "clients/jones");
+    expect(await verifyGalleryShareToken(storage, `${Buffer.from(forged).toString("base64url")}.${signature}`, now)).toBeNull();
+
+    await revokeGalleryShareLink(storage, link.id, now);
+    expect(await verifyGalleryShareToken(storage, token, now)).toBeNull();
+    expect((await listGalleryShareLinks(storage, "clients/smith", now))[0].status).toBe("revoked");
+  });
+
+  test("refuses links without a recipient or with a past expiry", async () => {
+    await expect(
+      createGalleryShareLink(storage, { gallerySlug: "a", recipient: " ", expiresAt: inDays(1), allowDownload: false }, now),
+    ).rejects.toThrow("Enter who this link is for.");
+    await expect(
+      createGalleryShareLink(storage, { gallerySlug: "a", recipient: "Ana", expiresAt: inDays(-1), allowDownload: false }, now),
+    ).rejects.toThrow("Expiry must be in the future.");
+  });
+
+  test("reads tokens from the cookie and logs each visit", async () => {
+    const { link, token } = await createGalleryShareLink(
+      storage,
+      { gallerySlug: "clients/smith", recipient: "Ana Smith", expiresAt: inDays(7), allowDownload: false },
+      now,
+    );
+    const setCookie = await addGalleryShareToken(new Request("https://victopress.example/"), token);
+    const request = new Request("https://victopress.example/gallery/clients/smith", {
+      headers: { Cookie: setCookie.split(";")[0] },
+    });
+    expect((await getGalleryShareLinks(request, storage, now)).map((shared) => shared.id)).toEqual([link.id]);
+
+    await recordGalleryShareAccess(storage, link, "gallery", "clients/smith", now);
+    await recordGalleryShareAccess(storage, link, "download", "galleries/clients/smith/001.jpg", inDays(1));
+    const [summary] = await listGalleryShareLinks(storage, "clients/smith", now);
+    expect(summary.accessCount).toBe(2);
+    expect(summary.recentAccess.map((event) => event.kind)).toEqual(["download", "gallery"]);
+  });
+});
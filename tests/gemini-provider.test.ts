@@ -132,7 +132,7 @@ describe("GeminiPhotoAiProvider", () => {
     expect(prompt).toContain(
       '"classificationHint":"Suggest only when the street itself is a main visual subject."',
     );
-    expect(result.promptVersion).toBe("gallery-taxonomy-v2");
+    expect(result.promptVersion).toBe("gallery-taxonomy-alt-text-v3");
   });
 
   test("generates image and text embeddings with the configured dimensions", async () => {
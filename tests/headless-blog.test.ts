@@ -17,7 +17,12 @@ import {
   type HeadlessBlogConfig,
 } from "../app/lib/headless-blog";
 import { renderMarkdown } from "../app/lib/markdown";
-import { languageSwitchPath, localizedPath, parseAcceptLanguage } from "../app/lib/i18n";
+import {
+  DEFAULT_LOCALES,
+  languageSwitchPath,
+  localizedPath,
+  parseAcceptLanguage,
+} from "../app/lib/i18n";
 import { loadHeadlessBlogPosts } from "../app/lib/headless-blog-storage.server";
 
 const config: HeadlessBlogConfig = {
@@ -194,13 +199,13 @@ describe("headless blog contract", () => {
   test("negotiates supported browser languages and keeps English URLs clean", () => {
     expect(parseAcceptLanguage("fr;q=1, en-US;q=0.8, es;q=0.6")).toBe("en");
     expect(parseAcceptLanguage("en;q=0.2, es-ES;q=0.9")).toBe("es");
-    expect(localizedPath("en", "/es/gallery/europe?year=2024")).toBe(
+    expect(localizedPath("en", "/es/gallery/europe?year=2024", DEFAULT_LOCALES)).toBe(
       "/gallery/europe?year=2024",
     );
-    expect(languageSwitchPath("en", "/es/gallery/europe?year=2024")).toBe(
+    expect(languageSwitchPath("en", "/es/gallery/europe?year=2024", DEFAULT_LOCALES)).toBe(
       "/gallery/europe?year=2024&lang=en",
     );
-    expect(languageSwitchPath("en", "/gallery/europe?year=2024")).toBe(
+    expect(languageSwitchPath("en", "/gallery/europe?year=2024", DEFAULT_LOCALES)).toBe(
       "/gallery/europe?year=2024",
     );
   });
@@ -248,7 +253,7 @@ describe("migrated blog through the headless contract", () => {
     const storage = {
       getText: async (key: string) => key === "_content-index.json"
         ? JSON.stringify({
-            version: 11,
+            version: 12,
             updatedAt: "2026-07-28T00:00:00.000Z",
             galleries: [],
             galleryData: [],
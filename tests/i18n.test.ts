@@ -7,9 +7,22 @@ import {
   preferredLocale,
   requireRouteLocale,
 } from "../app/lib/i18n.server";
+import {
+  DEFAULT_LOCALES,
+  hreflangLinks,
+  localeFromPathname,
+  localizedPath,
+  siteLocales,
+  stripLocaleFromPathname,
+} from "../app/lib/i18n";
 
 const bilingual = { multilingual: true, defaultLocale: "en" } as const;
 const spanishOnly = { multilingual: false, defaultLocale: "es" } as const;
+const trilingual = {
+  multilingual: true,
+  defaultLocale: "en",
+  locales: ["en", "es", "fr"],
+};
 
 describe("locale request handling", () => {
   test("prefers a manual cookie over the browser language", () => {
@@ -159,3 +172,85 @@ describe("locale request handling", () => {
     });
   });
 });
+
+describe("configured locale sets", () => {
+  test("redirects a French browser to /fr when French is published", () => {
+    const request = new Request("https://photos.victoriano.me/about", {
+      headers: { "Accept-Language": "fr-FR,fr;q=0.9,en;q=0.5" },
+    });
+
+    try {
+      requireRouteLocale(request, undefined, trilingual);
+      throw new Error("Expected a locale redirect");
+    } catch (response) {
+      expect((response as Response).headers.get("Location")).toBe("/fr/about");
+    }
+  });
+
+  test("ignores browser languages the site does not publish", () => {
+    const request = new Request("https://photos.victoriano.me/about", {
+      headers: { "Accept-Language": "fr-FR,fr;q=0.9" },
+    });
+
+    expect(requireRouteLocale(request, undefined, bilingual)).toBe("en");
+  });
+
+  test("returns 404 for an unpublished locale prefix", () => {
+    const request = new Request("https://photos.victoriano.me/de/about");
+
+    try {
+      requireRouteLocale(request, "de", trilingual);
+      throw new Error("Expected a not found response");
+    } catch (response) {
+      expect((response as Response).status).toBe(404);
+    }
+  });
+
+  test("lists one alternate per published edition", () => {
+    const request = new Request("https://photos.victoriano.me/fr/about");
+    const values = localizedAlternates(request, "fr", "/about", trilingual);
+
+    expect(values).toEqual({
+      canonical: "https://photos.victoriano.me/fr/about",
+      en: "https://photos.victoriano.me/about",
+      es: "https://photos.victoriano.me/es/about",
+      fr: "https://photos.victoriano.me/fr/about",
+      xDefault: "https://photos.victoriano.me/about",
+    });
+    expect(hreflangLinks(values).map((link) => link.hrefLang)).toEqual([
+      "en",
+      "es",
+      "fr",
+    ]);
+  });
+
+  test("always publishes the default locale", () => {
+    expect(siteLocales({ defaultLocale: "ca", locales: ["es", "en"] })).toEqual([
+      "ca",
+      "es",
+      "en",
+    ]);
+    expect(siteLocales()).toEqual(["es", "en"]);
+  });
+});
+
+describe("localized paths", () => {
+  test("keeps two-letter gallery and page slugs that are not published editions", () => {
+    expect(localizedPath("es", "/cv")).toBe("/es/cv");
+    expect(localizedPath("en", "/tv")).toBe("/tv");
+    expect(localizedPath("es", "/gallery/ai")).toBe("/es/gallery/ai");
+    expect(stripLocaleFromPathname("/ai/projects", DEFAULT_LOCALES)).toBe("/ai/projects");
+    expect(localeFromPathname("/go", DEFAULT_LOCALES)).toBeNull();
+    expect(localizedPath("en", "/es/cv", DEFAULT_LOCALES)).toBe("/cv");
+    expect(localeFromPathname("/es/gallery/trips", DEFAULT_LOCALES)).toBe("es");
+  });
+
+  test("follows the editions the site publishes", () => {
+    const locales = siteLocales(trilingual);
+
+    expect(localizedPath("en", "/fr/about", locales)).toBe("/about");
+    expect(localeFromPathname("/fr", locales)).toBe("fr");
+    expect(stripLocaleFromPathname("/de/about", locales)).toBe("/de/about");
+    expect(localeFromPathname("/fr", DEFAULT_LOCALES)).toBeNull();
+  });
+});
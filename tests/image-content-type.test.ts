@@ -34,8 +34,17 @@ describe("detectImageContentType", () => {
     expect(detectImageContentType(svg, "photo.jpg")).toBe("image/svg+xml");
   });
 
+  test("recognizes HEIC and HEIF brands", () => {
+    const heic = buffer(0, 0, 0, 24, ...ascii("ftyp"), ...ascii("heic"), 0, 0, 0, 0);
+    expect(detectImageContentType(heic, "IMG_0001.jpg")).toBe("image/heic");
+
+    const heif = buffer(0, 0, 0, 24, ...ascii("ftyp"), ...ascii("mif1"), 0, 0, 0, 0);
+    expect(detectImageContentType(heif, "IMG_0001.heif")).toBe("image/heif");
+  });
+
   test("uses the extension only when the bytes are inconclusive", () => {
     expect(detectImageContentType(buffer(1, 2, 3), "photo.png")).toBe("image/png");
+    expect(detectImageContentType(buffer(1, 2, 3), "DSCF0001.RAF")).toBe("image/x-fuji-raf");
     expect(detectImageContentType(buffer(1, 2, 3), "photo.bin")).toBe("application/octet-stream");
   });
 });
@@ -1,9 +1,15 @@
 import { describe, expect, test } from "bun:test";
 import type {
+  BlogPost,
   FileInfo,
+  GalleryDataEntry,
   StorageAdapter,
 } from "~/lib/content-engine";
 import type { HeadlessBlogPost } from "~/lib/headless-blog";
+import {
+  composeNewsletterBody,
+  type NewsletterComposerSources,
+} from "~/lib/newsletter/composer.server";
 import type { NewsletterConfig } from "~/lib/newsletter/config.server";
 import { newsletterBlogUrl } from "~/lib/newsletter/config.server";
 import {
@@ -15,23 +21,40 @@ import {
   confirmNewsletterToken,
   inspectNewsletterUnsubscribeToken,
   NewsletterCampaignAlreadySentError,
+  NewsletterValidationError,
   requestNewsletterSubscription,
+  saveNewsletterDraftInput,
+  saveNewsletterSegmentInput,
+  sendComposedNewsletterCampaign,
   sendNewsletterCampaign,
+  sendNewsletterTestEmail,
+  trackNewsletterClickToken,
   trackNewsletterOpenToken,
   unsubscribeNewsletterToken,
 } from "~/lib/newsletter/newsletter-service.server";
+import {
+  countNewsletterAudiences,
+  matchesNewsletterSegment,
+  normalizeNewsletterTags,
+} from "~/lib/newsletter/segments.server";
 import {
   importNewsletterSubscriberCsv,
   NewsletterCsvImportError,
   parseNewsletterSubscriberCsv,
 } from "~/lib/newsletter/subscriber-import.server";
 import {
+  getNewsletterCampaign,
+  getNewsletterDraft,
   getNewsletterSubscriber,
+  listNewsletterClicks,
+  listNewsletterLastOpens,
+  listNewsletterSegments,
   listNewsletterSubscribers,
   listNewsletterOpens,
   normalizeNewsletterEmail,
   saveNewsletterSubscriber,
   updateNewsletterSubscriberName,
+  updateNewsletterSubscriberTags,
 } from "~/lib/newsletter/subscriber-store.server";
 import {
   NEWSLETTER_CONSENT_VERSION,
@@ -153,6 +176,7 @@ const newsletterConfig: NewsletterConfig = {
   baseUrl: "https://photos.example.com",
   publicBlogUrl: "https://example.com/blog",
   siteName: "Victoriano Izquierdo",
+  clickTracking: true,
 };
 
 function jsonResponse(value: unknown, status = 200): Response {
@@ -658,6 +682,7 @@ describe("newsletter campaigns", () => {
       contentMarkdown: "Hello newsletter.",
       contentHtml: "<p>Hello newsletter.</p>",
       images: [],
+      imageAltText: {},
     };
 
     const campaign = await sendNewsletterCampaign({
@@ -760,3 +785,485 @@ describe("newsletter campaigns", () => {
     })).rejects.toBeInstanceOf(NewsletterCampaignAlreadySentError);
   });
 });
+
+function composerSources(): NewsletterComposerSources {
+  const gallery = (overrides: Partial<GalleryDataEntry>): GalleryDataEntry => ({
+    slug: "trips",
+    title: "Trips",
+    path: "galleries/trips",
+    photoCount: 2,
+    isProtected: false,
+    hasChildren: false,
+    childCount: 0,
+    photos: [],
+    ...overrides,
+  });
+  const post = (slug: string, date: string): BlogPost => ({
+    id: slug,
+    slug,
+    title: `Post ${slug}`,
+    path: `blog/${slug}`,
+    content: "Body",
+    excerpt: `About ${slug}`,
+    date: new Date(date),
+    locale: "es",
+    images: [],
+    hasFrontmatter: true,
+  });
+  return {
+    galleries: [
+      gallery({
+        description: "Autumn in the north",
+        photos: [
+          { id: "harbour", path: "galleries/trips/harbour 1.jpg", filename: "harbour 1.jpg", title: "Harbour" },
+          { id: "secret", path: "galleries/trips/secret.jpg", filename: "secret.jpg", hidden: true },
+        ],
+      }),
+      gallery({
+        slug: "family",
+        path: "galleries/family",
+        private: true,
+        photos: [{ id: "kids", path: "galleries/family/kids.jpg", filename: "kids.jpg" }],
+      }),
+    ],
+    posts: [
+      post("older", "2026-06-01"),
+      post("newest", "2026-07-20"),
+      post("middle", "2026-07-01"),
+    ],
+    blogConfig: {
+      siteName: "Victoriano Izquierdo",
+      publicBlogUrl: "https://example.com/blog",
+      publicMediaUrl: "https://photos.example.com",
+    },
+  };
+}
+
+describe("composed newsletters", () => {
+  test("renders Markdown with gallery, photo and recent-post blocks", () => {
+    const body = composeNewsletterBody({
+      markdown: [
+        "# Autumn issue",
+        "",
+        "{{gallery:trips}}",
+        "{{ photo: galleries/trips/harbour 1.jpg }}",
+        "{{posts:2}}",
+        "```",
+        "{{posts:1}}",
+        "```",
+        "{{gallery:family}}",
+        "{{photo:galleries/trips/secret.jpg}}",
+        "{{posts:0}}",
+      ].join("\n"),
+      locale: "es",
+      baseUrl: "https://photos.example.com",
+      sources: composerSources(),
+    });
+
+    expect(body.html).toContain("<h1>Autumn issue</h1>");
+    expect(body.html).toContain('href="https://photos.example.com/es/gallery/trips"');
+    expect(body.html).toContain("https://photos.example.com/api/images/galleries/trips/harbour%201.jpg");
+    expect(body.html).toContain("https://photos.example.com/es/photo/trips/harbour%201.jpg");
+    expect(body.html).toContain("<figcaption>Harbour</figcaption>");
+    expect(body.html).not.toContain("secret.jpg");
+    expect(body.html).not.toContain("kids.jpg");
+    expect(body.html).toContain("Post newest");
+    expect(body.html).toContain("Post middle");
+    expect(body.html).not.toContain("Post older");
+    // Blocks inside code fences are left as written
+    expect(body.html).toContain("{{posts:1}}");
+    expect(body.text).toContain("Ver la galería: https://photos.example.com/es/gallery/trips");
+    expect(body.missingBlocks).toEqual([
+      "{{gallery:family}}",
+      "{{photo:galleries/trips/secret.jpg}}",
+      "{{posts:0}}",
+    ]);
+  });
+
+  test("test-sends a draft, then delivers it in batches and locks it", async () => {
+    const storage = new MemoryStorage();
+    for (let index = 0; index < 101; index += 1) {
+      const email = `reader-${index}@example.com`;
+      await saveNewsletterSubscriber(storage, subscriber({
+        id: await newsletterSubscriberId(email),
+        email,
+      }));
+    }
+    const sources = composerSources();
+    const draft = await saveNewsletterDraftInput({
+      storage,
+      title: "Autumn issue",
+      subject: "  Photos from the north  ",
+      locale: "es",
+      markdown: "Hello readers.\n\n{{gallery:trips}}\n\n{{posts:1}}",
+      now: new Date("2026-07-28T10:00:00.000Z"),
+    });
+    expect(draft.subject).toBe("Photos from the north");
+    expect(await getNewsletterDraft(storage, draft.id)).toEqual(draft);
+
+    const requests: Array<{ url: string; body: any }> = [];
+    let failBatches = 1;
+    const fetchImpl = (async (input: string | URL | Request, init?: RequestInit) => {
+      const url = String(input);
+      const body = JSON.parse(String(init?.body || "null"));
+      requests.push({ url, body });
+      if (url.endsWith("/emails")) return jsonResponse({ id: "test-email" });
+      if (requests.filter((request) => request.url.endsWith("/batch")).length === 2 && failBatches > 0) {
+        failBatches -= 1;
+        return jsonResponse({ message: "Temporary outage" }, 500);
+      }
+      return jsonResponse({
+        data: body.map((_: unknown, index: number) => ({ id: `email-${index}` })),
+      });
+    }) as typeof fetch;
+
+    await expect(sendNewsletterTestEmail({
+      config: newsletterConfig,
+      draft,
+      sources,
+      to: "not-an-address",
+      fetchImpl,
+    })).rejects.toBeInstanceOf(NewsletterValidationError);
+    await sendNewsletterTestEmail({
+      config: newsletterConfig,
+      draft,
+      sources,
+      to: "Editor@Example.com",
+      fetchImpl,
+    });
+    const test = requests[0].body;
+    expect(test.to).toEqual(["editor@example.com"]);
+    expect(test.subject).toBe("[Test] Photos from the north");
+    expect(test.html).toContain("Hello readers.");
+    expect(test.html).toContain("/es/gallery/trips");
+    expect(test.headers["List-Unsubscribe"]).toMatch(/newsletter\/unsubscribe\?token=/);
+    expect(test.tags).toContainEqual({ name: "category", value: "newsletter_test" });
+
+    // The second batch fails once; the retry only sends what is still pending
+    await expect(sendComposedNewsletterCampaign({
+      storage,
+      config: newsletterConfig,
+      draft,
+      sources,
+      fetchImpl,
+    })).rejects.toThrow("Temporary outage");
+    const lockedDraft = (await getNewsletterDraft(storage, draft.id))!;
+    expect(lockedDraft.campaignId).toMatch(/^[a-f0-9]{64}$/);
+    const failed = await getNewsletterCampaign(storage, lockedDraft.campaignId!);
+    expect(failed?.status).toBe("failed");
+    expect(failed?.batches.map((batch) => batch.status)).toEqual(["sent", "pending"]);
+    await expect(saveNewsletterDraftInput({
+      storage,
+      id: draft.id,
+      title: "Changed",
+      subject: "Changed",
+      locale: "es",
+      markdown: "Changed",
+    })).rejects.toThrow("draft_locked");
+
+    const campaign = await sendComposedNewsletterCampaign({
+      storage,
+      config: newsletterConfig,
+      draft: lockedDraft,
+      sources,
+      fetchImpl,
+    });
+    expect(campaign.status).toBe("sent");
+    expect(campaign.postSlug).toBeUndefined();
+    expect(campaign.postTitle).toBe("Autumn issue");
+    expect(campaign.draftId).toBe(draft.id);
+    const batches = requests.filter((request) => request.url.endsWith("/batch"));
+    expect(batches.map((request) => request.body.length)).toEqual([100, 1, 1]);
+    const delivered = [...batches[0].body, ...batches[2].body];
+    expect(new Set(delivered.map((message: any) => message.to[0])).size).toBe(101);
+    for (const message of delivered) {
+      expect(message.subject).toBe("Photos from the north");
+      expect(message.headers["List-Unsubscribe-Post"]).toBe("List-Unsubscribe=One-Click");
+      expect(message.html).toMatch(/newsletter\/open\.gif\?token=[^"&]+/);
+      expect(message.html).toContain("Post newest");
+    }
+
+    await expect(sendComposedNewsletterCampaign({
+      storage,
+      config: newsletterConfig,
+      draft: lockedDraft,
+      sources,
+      fetchImpl,
+    })).rejects.toBeInstanceOf(NewsletterCampaignAlreadySentError);
+  });
+
+  test("refuses to send a draft whose blocks no longer resolve", async () => {
+    const storage = new MemoryStorage();
+    await saveNewsletterSubscriber(storage, subscriber({
+      id: await newsletterSubscriberId("reader@example.com"),
+      email: "reader@example.com",
+    }));
+    const draft = await saveNewsletterDraftInput({
+      storage,
+      title: "Private",
+      subject: "Private",
+      locale: "es",
+      markdown: "{{gallery:family}}",
+    });
+
+    await expect(sendComposedNewsletterCampaign({
+      storage,
+      config: newsletterConfig,
+      draft,
+      sources: composerSources(),
+      fetchImpl: (async () => jsonResponse({ data: [] })) as unknown as typeof fetch,
+    })).rejects.toThrow("missing_blocks");
+    expect((await getNewsletterDraft(storage, draft.id))?.campaignId).toBeUndefined();
+  });
+});
+
+describe("newsletter segments", () => {
+  test("matches tags, imported fields and recent opens", () => {
+    const now = new Date("2026-08-30T10:00:00.000Z");
+    const tagged: NewsletterSubscriber = {
+      ...subscriber({ id: "a".repeat(64), email: "tagged@example.com" }),
+      tags: normalizeNewsletterTags(" Photography ,madrid,photography, "),
+    };
+    const imported: NewsletterSubscriber = {
+      ...subscriber({ id: "b".repeat(64), email: "imported@example.com" }),
+      importedFrom: "substack",
+      country: "ES",
+      interactions: {
+        emailsReceived6Months: 4,
+        emailsDropped6Months: 0,
+        emailsOpenedTotal: 3,
+        emailsOpened6Months: 3,
+        emailsOpened7Days: 0,
+        emailsOpened30Days: 1,
+        lastEmailOpenedAt: "2026-08-10T09:00:00.000Z",
+        linksClicked: 0,
+        uniqueEmailsSeen6Months: 3,
+        uniqueEmailsSeen7Days: 0,
+        uniqueEmailsSeen30Days: 1,
+        postViews: 0,
+        postViews7Days: 0,
+        postViews30Days: 0,
+        uniquePostsSeen: 0,
+        uniquePostsSeen7Days: 0,
+        uniquePostsSeen30Days: 0,
+        comments: 0,
+        comments7Days: 0,
+        comments30Days: 0,
+        shares: 0,
+        shares7Days: 0,
+        shares30Days: 0,
+        daysActive30Days: 1,
+        activity: 2,
+      },
+    };
+    const english = subscriber({ id: "c".repeat(64), email: "english@example.com", locale: "en" });
+    expect(tagged.tags).toEqual(["madrid", "photography"]);
+
+    const recent = { rules: [{ field: "openedWithinDays" as const, days: 30 }] };
+    expect(matchesNewsletterSegment(imported, recent, { now })).toBe(true);
+    expect(matchesNewsletterSegment(imported, { rules: [{ field: "openedWithinDays", days: 7 }] }, { now }))
+      .toBe(false);
+    expect(matchesNewsletterSegment(tagged, recent, { now })).toBe(false);
+    expect(matchesNewsletterSegment(tagged, recent, {
+      now,
+      lastOpens: new Map([[tagged.id, "2026-08-29T10:00:00.000Z"]]),
+    })).toBe(true);
+    expect(matchesNewsletterSegment(imported, {
+      rules: [{ field: "country", value: "es" }, { field: "importedFrom", value: "substack" }],
+    })).toBe(true);
+    expect(matchesNewsletterSegment(tagged, {
+      rules: [{ field: "country", value: "ES" }, { field: "tag", value: "Photography" }],
+    })).toBe(false);
+
+    const segment = {
+      version: 1 as const,
+      id: "d".repeat(64),
+      name: "Photography",
+      rules: [{ field: "tag" as const, value: "photography" }],
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+    expect(countNewsletterAudiences([tagged, imported, english], [segment], { now })).toEqual({
+      "": { es: 2, en: 1 },
+      [segment.id]: { es: 1 },
+    });
+  });
+
+  test("sends a campaign only to the chosen segment and records it", async () => {
+    const storage = new MemoryStorage();
+    const emails = ["tagged@example.com", "other@example.com", "former@example.com"];
+    for (const email of emails) {
+      await saveNewsletterSubscriber(storage, subscriber({
+        id: await newsletterSubscriberId(email),
+        email,
+        status: email.startsWith("former") ? "unsubscribed" : "active",
+      }));
+    }
+    for (const email of [emails[0], emails[2]]) {
+      await updateNewsletterSubscriberTags({
+        storage,
+        id: await newsletterSubscriberId(email),
+        tags: "Photography",
+      });
+    }
+    expect((await getNewsletterSubscriber(storage, await newsletterSubscriberId(emails[0])))?.tags)
+      .toEqual(["photography"]);
+
+    await expect(saveNewsletterSegmentInput({ storage, name: "Empty", rules: [] }))
+      .rejects.toThrow("invalid_segment_rules");
+    await expect(saveNewsletterSegmentInput({
+      storage,
+      name: "Never",
+      rules: [{ field: "openedWithinDays", days: 0 }],
+    })).rejects.toThrow("invalid_segment_rules");
+    const segment = await saveNewsletterSegmentInput({
+      storage,
+      name: "  Photography   readers ",
+      rules: [{ field: "tag", value: " photography " }],
+    });
+    expect(segment.name).toBe("Photography readers");
+    expect(await listNewsletterSegments(storage)).toEqual([segment]);
+
+    const batches: any[][] = [];
+    const fetchImpl = (async (_input: string | URL | Request, init?: RequestInit) => {
+      const payload = JSON.parse(String(init?.body || "[]"));
+      batches.push(payload);
+      return jsonResponse({ data: payload.map((_: unknown, index: number) => ({ id: `email-${index}` })) });
+    }) as typeof fetch;
+    const draft = await saveNewsletterDraftInput({
+      storage,
+      title: "For photographers",
+      subject: "Light",
+      locale: "es",
+      markdown: "Hello photographers.",
+    });
+
+    await expect(sendComposedNewsletterCampaign({
+      storage,
+      config: newsletterConfig,
+      draft,
+      sources: composerSources(),
+      segmentIds: ["e".repeat(64)],
+      fetchImpl,
+    })).rejects.toThrow("segment_not_found");
+    expect((await getNewsletterDraft(storage, draft.id))?.campaignId).toBeUndefined();
+
+    const campaign = await sendComposedNewsletterCampaign({
+      storage,
+      config: newsletterConfig,
+      draft,
+      sources: composerSources(),
+      segmentIds: [segment.id],
+      fetchImpl,
+    });
+    expect(campaign.segmentIds).toEqual([segment.id]);
+    expect(campaign.recipientIds).toEqual([await newsletterSubscriberId(emails[0])]);
+    expect(batches.flat().map((message) => message.to[0])).toEqual([emails[0]]);
+
+    const openToken = decodeURIComponent(
+      String(batches[0][0].html).match(/newsletter\/open\.gif\?token=([^"&]+)/)![1],
+    );
+    await trackNewsletterOpenToken({
+      storage,
+      config: newsletterConfig,
+      token: openToken,
+      now: new Date("2026-08-01T10:00:00.000Z"),
+    });
+    expect(await listNewsletterLastOpens(storage)).toEqual(
+      new Map([[campaign.recipientIds[0], "2026-08-01T10:00:00.000Z"]]),
+    );
+  });
+});
+
+describe("newsletter click tracking", () => {
+  async function sendLinkedNewsletter(clickTracking: boolean) {
+    const storage = new MemoryStorage();
+    for (const email of ["first@example.com", "second@example.com"]) {
+      await saveNewsletterSubscriber(storage, subscriber({
+        id: await newsletterSubscriberId(email),
+        email,
+      }));
+    }
+    const draft = await saveNewsletterDraftInput({
+      storage,
+      title: "Links",
+      subject: "Links",
+      locale: "es",
+      markdown: "Read [about me](https://example.com/about?a=1&b=2) or [write](mailto:me@example.com).",
+    });
+    const messages: any[] = [];
+    const fetchImpl = (async (_input: string | URL | Request, init?: RequestInit) => {
+      const payload = JSON.parse(String(init?.body || "[]"));
+      messages.push(...payload);
+      return jsonResponse({ data: payload.map((_: unknown, index: number) => ({ id: `email-${index}` })) });
+    }) as typeof fetch;
+    const campaign = await sendComposedNewsletterCampaign({
+      storage,
+      config: { ...newsletterConfig, clickTracking },
+      draft,
+      sources: composerSources(),
+      fetchImpl,
+    });
+    return { storage, campaign, messages };
+  }
+
+  test("redirects signed links to campaign destinations and counts clicks", async () => {
+    const { storage, campaign, messages } = await sendLinkedNewsletter(true);
+    const destination = "https://example.com/about?a=1&b=2";
+    expect(campaign.links).toEqual([destination]);
+    expect(messages[0].html).toContain('href="mailto:me@example.com"');
+    expect(messages[0].html).toMatch(/newsletter\/unsubscribe\?token=/);
+    expect(messages[0].html).toContain("cuenta los clics");
+    expect(messages[0].text).toContain(destination);
+
+    const href = String(messages[0].html).match(/href="(https:\/\/photos\.example\.com\/newsletter\/click\?[^"]+)"/)![1];
+    const tracked = new URL(href.replace(/&amp;/g, "&"));
+    expect(tracked.searchParams.get("url")).toBe(destination);
+    const token = tracked.searchParams.get("token")!;
+    const subscriberId = (await verifyNewsletterToken({
+      token,
+      secret: newsletterConfig.tokenSecret,
+      purpose: "click",
+    }))!.subscriberId;
+
+    const click = (url: string, at: string, clickToken = token) => trackNewsletterClickToken({
+      storage,
+      config: newsletterConfig,
+      token: clickToken,
+      url,
+      now: new Date(at),
+    });
+    expect(await click(destination, "2026-08-01T10:00:00.000Z")).toBe(destination);
+    expect(await click(destination, "2026-08-01T10:00:20.000Z")).toBe(destination);
+    expect(await click(destination, "2026-08-01T11:00:00.000Z")).toBe(destination);
+    expect(await click("https://evil.example/", "2026-08-01T11:00:00.000Z")).toBeNull();
+    const openToken = decodeURIComponent(
+      String(messages[0].html).match(/newsletter\/open\.gif\?token=([^"&]+)/)![1],
+    );
+    expect(await click(destination, "2026-08-01T11:00:00.000Z", openToken)).toBeNull();
+
+    const clicks = await listNewsletterClicks(storage, campaign.id);
+    expect(clicks).toHaveLength(1);
+    expect(clicks[0]).toMatchObject({
+      subscriberId,
+      url: destination,
+      clickCount: 2,
+      firstClickedAt: "2026-08-01T10:00:00.000Z",
+      lastClickedAt: "2026-08-01T11:00:00.000Z",
+    });
+    const reader = await getNewsletterSubscriber(storage, subscriberId);
+    expect(reader?.interactions?.linksClicked).toBe(2);
+    expect(reader?.interactions?.lastClickedAt).toBe("2026-08-01T11:00:00.000Z");
+  });
+
+  test("leaves links untouched when click tracking is turned off", async () => {
+    const { storage, campaign, messages } = await sendLinkedNewsletter(false);
+    expect(campaign.links).toBeUndefined();
+    for (const message of messages) {
+      expect(message.html).toContain('href="https://example.com/about?a=1&amp;b=2"');
+      expect(message.html).not.toContain("/newsletter/click");
+      expect(message.html).not.toContain("cuenta los clics");
+    }
+    expect(await listNewsletterClicks(storage, campaign.id)).toEqual([]);
+  });
+});
@@ -0,0 +1,168 @@
+import { describe, expect, test } from "bun:test";
+import {
+  buildAnalysisPrompt,
+  buildAnalysisSchema,
+  readAnalysisOutput,
+} from "../app/lib/ai/analysis-contract";
+import { AiProviderResponseError } from "../app/lib/ai/errors";
+import { buildGalleryTaxonomyCatalog } from "../app/lib/ai/gallery-taxonomy";
+import { mergeAltTextReviews } from "../app/lib/ai/record-store";
+import type { GalleryDataEntry } from "../app/lib/content-engine/content-index";
+import { localizeGalleryDataEntry } from "../app/lib/content-engine/content-index";
+import { buildHeadlessBlogPost } from "../app/lib/headless-blog";
+import { renderMarkdown } from "../app/lib/markdown";
+import { photoAltText } from "../app/utils/image-optimization";
+
+function readOutput(payload: unknown, altTextLocales?: string[]) {
+  return readAnalysisOutput(JSON.stringify(payload), {
+    providerName: "Test",
+    fail: (message) => new AiProviderResponseError(message, { provider: "test" }),
+    allowedGallerySlugs: new Set(["street"]),
+    currentGallerySlugs: new Set(),
+    maxGallerySuggestions: 8,
+    altTextLocales,
+  });
+}
+
+describe("alt text analysis contract", () => {
+  test("asks for one alt text per site locale only when locales are given", async () => {
+    const schema = buildAnalysisSchema(["street"], 8, ["en", "es"]) as any;
+    expect(schema.required).toContain("altText");
+    expect(schema.properties.altText.required).toEqual(["en", "es"]);
+    expect(buildAnalysisSchema(["street"], 8).properties).not.toHaveProperty("altText");
+
+    const prompt = buildAnalysisPrompt({
+      image: new Uint8Array([1]),
+      mimeType: "image/jpeg",
+      taxonomy: await buildGalleryTaxonomyCatalog([]),
+      currentGallerySlugs: [],
+      altTextLocales: ["en", "es"],
+    });
+    expect(prompt).toContain('["en","es"]');
+    expect(prompt).toContain("never name or guess who a person is");
+  });
+
+  test("keeps trimmed, bounded alt text and drops missing locales", () => {
+    const output = readOutput(
+      {
+        caption: "A wet street at night.",
+        tags: [],
+        gallerySuggestions: [],
+        altText: { en: "  Wet street under neon signs at night.  ", es: "", fr: "Rue" },
+      },
+      ["en", "es"],
+    );
+
+    expect(output.altText).toEqual([
+      { locale: "en", text: "Wet street under neon signs at night.", status: "pending" },
+    ]);
+    expect(readOutput({ caption: "A", tags: [], gallerySuggestions: [] }).altText).toBeUndefined();
+    const long = readOutput(
+      { caption: "A", tags: [], gallerySuggestions: [], altText: { en: "x".repeat(400) } },
+      ["en"],
+    );
+    expect(long.altText?.[0].text).toHaveLength(250);
+  });
+
+  test("re-analysis keeps reviewed alt text and refreshes pending suggestions", () => {
+    const merged = mergeAltTextReviews(
+      [
+        { locale: "en", text: "Edited street", status: "approved", reviewedAt: "2026-10-18T10:00:00.000Z" },
+        { locale: "es", text: "Calle", status: "pending" },
+      ],
+      [
+        { locale: "en", text: "New street", status: "pending" },
+        { locale: "es", text: "Calle nueva", status: "pending" },
+        { locale: "fr", text: "Rue", status: "pending" },
+      ],
+    );
+
+    expect(merged.map((entry) => [entry.locale, entry.text, entry.status])).toEqual([
+      ["en", "Edited street", "approved"],
+      ["es", "Calle nueva", "pending"],
+      ["fr", "Rue", "pending"],
+    ]);
+  });
+});
+
+describe("published alt text", () => {
+  const gallery: GalleryDataEntry = {
+    slug: "street",
+    title: "Street",
+    path: "galleries/street",
+    photoCount: 1,
+    isProtected: false,
+    hasChildren: false,
+    childCount: 0,
+    photos: [
+      {
+        id: "night",
+        path: "galleries/street/night.jpg",
+        filename: "night.jpg",
+        title: "Night",
+        locale: "en",
+        translations: {
+          en: { title: "Night", alt: "Wet street under neon signs" },
+          es: { title: "Noche", alt: "Calle mojada bajo letreros de neón" },
+          fr: { title: "Nuit" },
+        },
+      },
+    ],
+  };
+
+  test("follows the resolved edition and falls back to the title", () => {
+    const alt = (locale: string) =>
+      photoAltText(localizeGalleryDataEntry(gallery, locale).photos[0]);
+
+    expect(alt("en")).toBe("Wet street under neon signs");
+    expect(alt("es")).toBe("Calle mojada bajo letreros de neón");
+    expect(alt("fr")).toBe("Nuit");
+    expect(photoAltText({ filename: "night.jpg" })).toBe("night.jpg");
+  });
+
+  test("fills empty Markdown alt text from the photo library without captioning it", () => {
+    const lookup = (path: string) =>
+      path === "galleries/street/night.jpg" ? "Wet street under neon signs" : undefined;
+
+    const html = renderMarkdown('![](/api/images/galleries/street/night.jpg "caption")', {
+      imageAltText: lookup,
+    });
+    expect(html).toContain('alt="Wet street under neon signs"');
+    expect(html).not.toContain("blog-image-caption");
+    expect(renderMarkdown("![Mine](galleries/street/night.jpg)", { imageAltText: lookup })).toContain(
+      'alt="Mine"',
+    );
+  });
+
+  test("exposes approved alt text by image URL in the headless post", () => {
+    const response = buildHeadlessBlogPost(
+      [
+        {
+          id: "walk",
+          slug: "walk",
+          title: "Walk",
+          path: "blog/walk",
+          content: "![](galleries/street/night.jpg)",
+          excerpt: "",
+          readingTime: 1,
+          images: ["galleries/street/night.jpg", "https://example.com/other.jpg"],
+          hasFrontmatter: true,
+          format: "markdown",
+        },
+      ],
+      "walk",
+      {
+        siteName: "Site",
+        publicBlogUrl: "https://example.com/blog",
+        publicMediaUrl: "https://photos.example.com",
+      },
+      "en",
+      new Map([["galleries/street/night.jpg", "Wet street under neon signs"]]),
+    );
+
+    expect(response?.post.imageAltText).toEqual({
+      "https://photos.example.com/api/images/galleries/street/night.jpg?v=mime-v2": "Wet street under neon signs",
+    });
+    expect(response?.post.contentHtml).toContain('alt="Wet street under neon signs"');
+  });
+});
@@ -0,0 +1,244 @@
+import { describe, expect, test } from "bun:test";
+import { CompreFaceFaceDetectionProvider } from "../app/lib/ai/compreface-provider";
+import { AiConfigurationError, AiDataValidationError } from "../app/lib/ai/errors";
+import { createPhotoAssetIdentity } from "../app/lib/ai/identity";
+import { LocalFaceDetectionProvider, LOCAL_FACE_MODEL } from "../app/lib/ai/local-face-provider";
+import {
+  clusterPhotoFaces,
+  isPublicPhotoPerson,
+  updatePhotoPerson,
+  type ClusterableFace,
+} from "../app/lib/ai/people-store";
+import {
+  collectPublicPhotoPeople,
+  getFaceAiConfiguration,
+} from "../app/lib/ai/photo-ai-service.server";
+import { createPhotoAiRecord } from "../app/lib/ai/record-store";
+import type { PhotoFace } from "../app/lib/ai/types";
+import type { GalleryDataEntry } from "../app/lib/content-engine";
+
+const provider = new LocalFaceDetectionProvider({
+  identify: (input) => new TextDecoder().decode(input.image).split(",").filter(Boolean),
+});
+
+/** Detects the staged people of one photo; `image` lists who is in it. */
+async function facesOf(assetId: string, people: string): Promise<PhotoFace[]> {
+  const detected = await provider.detectFaces({
+    image: new TextEncoder().encode(people),
+    mimeType: "image/jpeg",
+    width: 1200,
+    height: 800,
+  });
+  return detected.map((face, index) => ({ ...face, faceId: `${assetId}#${index}` }));
+}
+
+function cluster(previous: ReturnType<typeof clusterPhotoFaces> | null, faces: ClusterableFace[]) {
+  return clusterPhotoFaces(previous, faces, {
+    model: LOCAL_FACE_MODEL,
+    matchThreshold: provider.matchThreshold,
+    now: "2026-10-18T10:00:00.000Z",
+  });
+}
+
+function groups(index: ReturnType<typeof clusterPhotoFaces>): string[][] {
+  return Object.values(index.people).map((person) => person.faceIds).sort();
+}
+
+describe("local face stand-in", () => {
+  test("is deterministic and keeps one person close across photos", async () => {
+    const [first] = await facesOf("a", "ana,luis");
+    const [again] = await facesOf("a", "ana,luis");
+    const [other] = await facesOf("b", "ana");
+    const [stranger] = await facesOf("c", "marta");
+    const cosine = (left: number[], right: number[]) =>
+      left.reduce((sum, value, index) => sum + value * right[index], 0);
+
+    expect(again.embedding).toEqual(first.embedding);
+    expect(first.embedding).toHaveLength(64);
+    expect(cosine(first.embedding, other.embedding)).toBeGreaterThan(provider.matchThreshold);
+    expect(cosine(first.embedding, stranger.embedding)).toBeLessThan(provider.matchThreshold);
+    expect(first.box.x).toBeLessThan((await facesOf("a", "ana,luis"))[1].box.x);
+  });
+});
+
+describe("people clustering", () => {
+  test("groups faces by person and keeps ids and names as photos are added", async () => {
+    const faces = [
+      ...(await facesOf("a", "ana,luis")),
+      ...(await facesOf("b", "ana")),
+      ...(await facesOf("c", "luis")),
+    ];
+    const first = cluster(null, faces);
+    expect(groups(first)).toEqual([["a#0", "b#0"], ["a#1", "c#0"]]);
+    expect(Object.keys(first.people).sort()).toEqual(["person-a-0", "person-a-1"]);
+
+    updatePhotoPerson(first, "person-a-0", { name: "Ana" });
+    const second = cluster(first, [...faces, ...(await facesOf("d", "ana,marta"))]);
+
+    expect(second.people["person-a-0"].name).toBe("Ana");
+    expect(second.people["person-a-0"].faceIds).toEqual(["a#0", "b#0", "d#0"]);
+    expect(second.people["person-d-1"].faceIds).toEqual(["d#1"]);
+    // A rerun over the same faces changes nothing.
+    expect(cluster(second, [...faces, ...(await facesOf("d", "ana,marta"))])).toEqual(second);
+  });
+
+  test("keeps named people whose photos were removed and drops empty clusters", async () => {
+    const faces = [...(await facesOf("a", "ana")), ...(await facesOf("b", "luis"))];
+    const first = cluster(null, faces);
+    updatePhotoPerson(first, "person-a-0", { name: "Ana" });
+
+    const second = cluster(first, []);
+    expect(Object.keys(second.people)).toEqual(["person-a-0"]);
+    expect(second.people["person-a-0"].faceIds).toEqual([]);
+
+    // The remembered centroid still claims Ana when her photo comes back.
+    const third = cluster(second, await facesOf("c", "ana"));
+    expect(third.people["person-a-0"].faceIds).toEqual(["c#0"]);
+  });
+});
+
+describe("people privacy", () => {
+  test("only named, unsuppressed people can be public, and naming merges", async () => {
+    const index = cluster(null, [
+      ...(await facesOf("a", "ana")),
+      ...(await facesOf("b", "luis")),
+    ]);
+
+    const unnamed = updatePhotoPerson(index, "person-b-0", { public: true });
+    expect(unnamed.public).toBe(false);
+
+    const ana = updatePhotoPerson(index, "person-a-0", { name: "Ana", public: true });
+    expect(isPublicPhotoPerson(ana)).toBe(true);
+    expect(updatePhotoPerson(index, "person-a-0", { suppressed: true }).public).toBe(false);
+
+    const merged = updatePhotoPerson(index, "person-b-0", { name: " ana " });
+    expect(merged.personId).toBe("person-a-0");
+    expect(merged.faceIds).toEqual(["a#0", "b#0"]);
+    expect(index.people["person-b-0"]).toBeUndefined();
+    expect(() => updatePhotoPerson(index, "person-b-0", { name: "Luis" })).toThrow(
+      AiDataValidationError,
+    );
+  });
+
+  test("public people only list photos from public, published galleries", async () => {
+    const index = cluster(null, [
+      ...(await facesOf("a", "ana")),
+      ...(await facesOf("b", "ana")),
+      ...(await facesOf("c", "ana")),
+      ...(await facesOf("d", "ana")),
+    ]);
+    const ana = updatePhotoPerson(index, "person-a-0", { name: "Ana", public: true });
+    const gallery = (slug: string, file: string, overrides: Partial<GalleryDataEntry> = {}): GalleryDataEntry => ({
+      slug,
+      title: slug,
+      path: `galleries/${slug}`,
+      photoCount: 1,
+      isProtected: false,
+      hasChildren: false,
+      childCount: 0,
+      photos: [{ id: file, path: `galleries/${slug}/${file}`, filename: file }],
+      ...overrides,
+    });
+    const galleries = [
+      gallery("street", "a.jpg"),
+      gallery("family", "b.jpg", { private: true }),
+      gallery("upcoming", "c.jpg", { publishAt: "2026-12-01T00:00:00.000Z" }),
+      gallery("clients", "d.jpg", { isProtected: true }),
+    ];
+    const faces = new Map(
+      galleries.map((entry, index) => [`${"abcd"[index]}#0`, { path: entry.photos[0].path }]),
+    );
+
+    const people = collectPublicPhotoPeople([ana], faces, galleries, new Date("2026-10-18T12:00:00Z"));
+    expect(people).toEqual([
+      {
+        personId: "person-a-0",
+        name: "Ana",
+        photos: [{ path: "galleries/street/a.jpg", gallerySlug: "street", filename: "a.jpg" }],
+      },
+    ]);
+    expect(collectPublicPhotoPeople([ana], faces, galleries.slice(1), new Date("2026-10-18T12:00:00Z"))).toEqual([]);
+  });
+
+  test("face detection is off unless a provider is configured", () => {
+    expect(getFaceAiConfiguration({ cloudflare: { env: {} } }).enabled).toBe(false);
+    expect(
+      getFaceAiConfiguration({ cloudflare: { env: { FACE_AI_PROVIDER: "compreface" } } }).enabled,
+    ).toBe(false);
+    expect(
+      getFaceAiConfiguration({ cloudflare: { env: { FACE_AI_PROVIDER: "face-cloud" } } })
+        .invalidProvider,
+    ).toBe("face-cloud");
+    expect(
+      getFaceAiConfiguration({ cloudflare: { env: { FACE_AI_PROVIDER: "local" } } }).enabled,
+    ).toBe(true);
+  });
+});
+
+describe("face records", () => {
+  test("stores faces with the asset and rejects boxes outside the image", async () => {
+    const asset = await createPhotoAssetIdentity({
+      bytes: new TextEncoder().encode("ana"),
+      sourcePath: "galleries/street/ana.jpg",
+      filename: "ana.jpg",
+      gallerySlug: "street",
+    });
+    const [face] = await facesOf(asset.assetId, "ana");
+    const faces = {
+      model: LOCAL_FACE_MODEL,
+      dimensions: 64,
+      sourceFingerprint: asset.sourceFingerprint,
+      generatedAt: "2026-10-18T10:00:00.000Z",
+      faces: [face],
+    };
+
+    expect(createPhotoAiRecord({ asset, faces }).faces?.faces[0].faceId).toBe(`${asset.assetId}#0`);
+    expect(() =>
+      createPhotoAiRecord({
+        asset,
+        faces: { ...faces, faces: [{ ...face, box: { ...face.box, width: 1.4 } }] },
+      }),
+    ).toThrow(AiDataValidationError);
+    expect(() =>
+      createPhotoAiRecord({ asset, faces: { ...faces, sourceFingerprint: `sha256:${"0".repeat(64)}` as never } }),
+    ).toThrow(AiDataValidationError);
+  });
+});
+
+describe("CompreFace provider", () => {
+  test("normalizes boxes and drops unsure detections", async () => {
+    const requests: Array<{ url: string; headers: Headers; body: any }> = [];
+    const embedding = Array.from({ length: 128 }, (_, index) => (index % 7) / 7);
+    const fetch = (async (url: string | URL | Request, init?: RequestInit) => {
+      requests.push({ url: String(url), headers: new Headers(init?.headers), body: JSON.parse(String(init?.body)) });
+      return Response.json({
+        result: [
+          { box: { probability: 0.99, x_min: 300, y_min: 100, x_max: 600, y_max: 500 }, embedding },
+          { box: { probability: 0.4, x_min: 0, y_min: 0, x_max: 10, y_max: 10 }, embedding },
+        ],
+      });
+    }) as typeof globalThis.fetch;
+    const compreFace = new CompreFaceFaceDetectionProvider({
+      apiBaseUrl: "http://faces.lan:8000/",
+      apiKey: "detect-key",
+      fetch,
+    });
+
+    const faces = await compreFace.detectFaces({
+      image: new Uint8Array([1, 2, 3]),
+      mimeType: "image/jpeg",
+      width: 1200,
+      height: 800,
+    });
+
+    expect(requests[0].url).toStartWith("http://faces.lan:8000/api/v1/detection/detect?face_plugins=calculator");
+    expect(requests[0].headers.get("x-api-key")).toBe("detect-key");
+    expect(requests[0].body.file).toBe("AQID");
+    expect(faces).toHaveLength(1);
+    expect(faces[0].box).toEqual({ x: 0.25, y: 0.125, width: 0.25, height: 0.5 });
+    expect(faces[0].confidence).toBe(0.99);
+    expect(() => new CompreFaceFaceDetectionProvider({ apiBaseUrl: "", apiKey: "" })).toThrow(
+      AiConfigurationError,
+    );
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, test } from "bun:test";
+import { AiDataValidationError } from "../app/lib/ai/errors";
+import {
+  classificationHintExclusions,
+  evaluateGalleryRules,
+  normalizeGalleryRule,
+  type GalleryAutoAcceptRule,
+} from "../app/lib/ai/gallery-rules";
+import type { GallerySuggestion, PhotoAiRecord } from "../app/lib/ai/types";
+
+function record(
+  name: string,
+  tags: string[],
+  suggestions: Array<Partial<GallerySuggestion> & { gallerySlug: string; confidence: number }>,
+  caption = "",
+): PhotoAiRecord {
+  return {
+    asset: {
+      assetId: `asset-${name}`,
+      sourcePath: `galleries/street/${name}.jpg`,
+      gallerySlug: "street",
+    },
+    analysis: {
+      caption,
+      tags,
+      gallerySuggestions: suggestions.map((suggestion) => ({
+        reason: "",
+        alreadyCurrent: false,
+        status: "pending",
+        ...suggestion,
+      })),
+    },
+  } as unknown as PhotoAiRecord;
+}
+
+function rule(overrides: Partial<GalleryAutoAcceptRule> = {}) {
+  return normalizeGalleryRule({ gallerySlug: "night", enabled: true, minConfidence: 0.8, ...overrides });
+}
+
+describe("classification hint exclusions", () => {
+  test("reads the listed terms of a do-not sentence only", () => {
+    expect(classificationHintExclusions(
+      "Suggest this gallery only when the photograph was taken from or inside a mode of transport " +
+        "while the photographer was travelling. Do not suggest it merely because the image shows " +
+        "travellers, stations, airports, roads, or vehicles viewed from outside.",
+    )).toEqual(["travellers", "stations", "airports", "roads", "vehicles"]);
+    expect(classificationHintExclusions(
+      "A scene merely taking place in a city, or buildings appearing only in the background, is not enough.",
+    )).toEqual([]);
+    expect(classificationHintExclusions(undefined)).toEqual([]);
+  });
+});
+
+describe("gallery auto-accept rules", () => {
+  test("accepts confident pending suggestions and reports what blocked the rest", () => {
+    const records = [
+      record("a", ["noche", "calle"], [{ gallerySlug: "night", confidence: 0.93 }]),
+      record("b", ["noche"], [{ gallerySlug: "night", confidence: 0.6 }]),
+      record("c", ["Calle"], [{ gallerySlug: "night", confidence: 0.9 }], "Un retrato junto a la estación"),
+      record("d", ["noche"], [{ gallerySlug: "night", confidence: 0.99, status: "rejected" }]),
+      record("e", ["noche"], [{ gallerySlug: "portraits", confidence: 0.99 }]),
+    ];
+    const evaluations = evaluateGalleryRules(records, {
+      night: rule({ requiredTags: ["calle"], excludedTerms: ["Estación"] }),
+    });
+
+    expect(evaluations.map((evaluation) => [
+      evaluation.photoPath.split("/").pop(),
+      evaluation.accepted,
+      evaluation.blockedBy ?? null,
+      evaluation.term ?? null,
+    ])).toEqual([
+      ["a.jpg", true, null, null],
+      ["c.jpg", false, "excluded", "estacion"],
+      ["b.jpg", false, "confidence", null],
+    ]);
+  });
+
+  test("uses hint exclusions only when the rule opts in, and never for paused rules", () => {
+    const records = [record("a", ["stations"], [{ gallerySlug: "night", confidence: 0.95 }])];
+    const hints = new Map([["night", "Do not suggest it for stations, airports, or roads."]]);
+
+    expect(evaluateGalleryRules(records, { night: rule() }, hints)[0].accepted).toBe(true);
+    expect(evaluateGalleryRules(records, { night: rule({ useHintExclusions: true }) }, hints)[0])
+      .toMatchObject({ accepted: false, blockedBy: "excluded", term: "stations" });
+    // Exclusions match whole words, so "station" does not match "stations".
+    const singular = [record("b", ["station"], [{ gallerySlug: "night", confidence: 0.95 }])];
+    expect(evaluateGalleryRules(singular, { night: rule({ useHintExclusions: true }) }, hints)[0].accepted)
+      .toBe(true);
+    expect(evaluateGalleryRules(records, { night: rule({ enabled: false }) }, hints)).toEqual([]);
+  });
+
+  test("validates thresholds and normalizes terms", () => {
+    expect(rule({ requiredTags: [" Calle ", "calle", "Café"] }).requiredTags).toEqual(["calle", "cafe"]);
+    expect(() => rule({ minConfidence: 1.5 })).toThrow(AiDataValidationError);
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, expect, test } from "bun:test";
+import {
+  AiConfigurationError,
+  AiDataValidationError,
+  AiProviderRequestError,
+  AiProviderResponseError,
+} from "../app/lib/ai/errors";
+import { buildGalleryTaxonomyCatalog } from "../app/lib/ai/gallery-taxonomy";
+import { OllamaPhotoAiProvider } from "../app/lib/ai/ollama-provider";
+import { OpenAiCompatiblePhotoAiProvider } from "../app/lib/ai/openai-compatible-provider";
+import { createPhotoAiProvider } from "../app/lib/ai/provider-factory";
+import { getPhotoAiConfiguration } from "../app/lib/ai/photo-ai-service.server";
+import type { GalleryDataEntry } from "../app/lib/content-engine/content-index";
+
+function gallery(slug: string, title: string): GalleryDataEntry {
+  return {
+    slug,
+    title,
+    path: `galleries/${slug}`,
+    photoCount: 1,
+    isProtected: false,
+    hasChildren: false,
+    childCount: 0,
+    photos: [],
+  };
+}
+
+function jsonResponse(value: unknown, status = 200): Response {
+  return new Response(JSON.stringify(value), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function recordingFetch(respond: (url: string, body: any) => unknown) {
+  const requests: Array<{ url: string; headers: Headers; body: any }> = [];
+  const fetch: typeof globalThis.fetch = (async (url: string | URL | Request, init?: RequestInit) => {
+    const body = JSON.parse(String(init?.body));
+    requests.push({ url: String(url), headers: new Headers(init?.headers), body });
+    const response = respond(String(url), body);
+    return response instanceof Response ? response : jsonResponse(response);
+  }) as typeof globalThis.fetch;
+  return { fetch, requests };
+}
+
+const analysisJson = JSON.stringify({
+  caption: "Una calle mojada de noche.",
+  tags: ["noche", "calle", "Noche"],
+  gallerySuggestions: [
+    { gallerySlug: "street", confidence: 0.9, reason: "La calle es el motivo." },
+    { gallerySlug: "invented", confidence: 0.99, reason: "Not in the taxonomy." },
+  ],
+});
+
+async function analysisInput() {
+  return {
+    image: new Uint8Array([1, 2, 3]),
+    mimeType: "image/jpeg" as const,
+    taxonomy: await buildGalleryTaxonomyCatalog([gallery("street", "Street")]),
+    currentGallerySlugs: ["street"],
+  };
+}
+
+describe("OpenAI-compatible provider", () => {
+  test("sends the photo as a data URL with the shared analysis schema", async () => {
+    const { fetch, requests } = recordingFetch(() => ({
+      choices: [{ finish_reason: "stop", message: { content: analysisJson } }],
+      usage: { prompt_tokens: 90, completion_tokens: 30, total_tokens: 120 },
+    }));
+    const provider = new OpenAiCompatiblePhotoAiProvider({ apiKey: "key", fetch });
+
+    const result = await provider.analyzePhoto(await analysisInput());
+
+    expect(requests[0].url).toBe("https://api.openai.com/v1/chat/completions");
+    expect(requests[0].headers.get("authorization")).toBe("Bearer key");
+    expect(requests[0].body.model).toBe("gpt-4.1-mini");
+    expect(requests[0].body.messages[1].content[1].image_url.url).toBe("data:image/jpeg;base64,AQID");
+    expect(
+      requests[0].body.response_format.json_schema.schema.properties.gallerySuggestions.items
+        .properties.gallerySlug.enum,
+    ).toEqual(["street"]);
+    expect(result.tags).toEqual(["noche", "calle"]);
+    expect(result.gallerySuggestions.map((suggestion) => suggestion.gallerySlug)).toEqual(["street"]);
+    expect(result.gallerySuggestions[0].alreadyCurrent).toBe(true);
+    expect(result.usage).toEqual({
+      promptTokenCount: 90,
+      candidatesTokenCount: 30,
+      totalTokenCount: 120,
+    });
+  });
+
+  test("talks to a self-hosted server without a key and embeds text only", async () => {
+    const { fetch, requests } = recordingFetch(() => ({ data: [{ embedding: [0.1, 0.2, 0.3] }] }));
+    const provider = new OpenAiCompatiblePhotoAiProvider({
+      apiBaseUrl: "http://llama.local:8080/v1/",
+      embeddingModel: "bge-small",
+      embeddingDimensions: 3,
+      fetch,
+    });
+
+    const embedding = await provider.embedText({ text: "noche" });
+
+    expect(embedding).toEqual({ model: "bge-small", dimensions: 3, values: [0.1, 0.2, 0.3] });
+    expect(requests[0].url).toBe("http://llama.local:8080/v1/embeddings");
+    expect(requests[0].headers.has("authorization")).toBe(false);
+    expect(requests[0].body.dimensions).toBeUndefined();
+    expect(provider.embedsImages).toBe(false);
+    expect(
+      provider.embedImage({ image: new Uint8Array([1]), mimeType: "image/png" }),
+    ).rejects.toBeInstanceOf(AiDataValidationError);
+    expect(() => new OpenAiCompatiblePhotoAiProvider({})).toThrow(AiConfigurationError);
+  });
+
+  test("rejects embeddings of another size", async () => {
+    const { fetch } = recordingFetch(() => ({ data: [{ embedding: [0.1, 0.2] }] }));
+    const provider = new OpenAiCompatiblePhotoAiProvider({ apiKey: "key", embeddingDimensions: 3, fetch });
+
+    expect(provider.embedText({ text: "noche" })).rejects.toBeInstanceOf(AiProviderResponseError);
+  });
+});
+
+describe("Ollama provider", () => {
+  test("uses the native chat and embed endpoints", async () => {
+    const { fetch, requests } = recordingFetch((url) =>
+      url.endsWith("/api/chat")
+        ? { message: { content: analysisJson }, done_reason: "stop", prompt_eval_count: 50, eval_count: 20 }
+        : { embeddings: [[0.4, 0.5, 0.6]] },
+    );
+    const provider = new OllamaPhotoAiProvider({
+      apiBaseUrl: "http://gpu.lan:11434/api",
+      embeddingDimensions: 3,
+      fetch,
+    });
+
+    const analysis = await provider.analyzePhoto(await analysisInput());
+    const embedding = await provider.embedText({ text: analysis.caption });
+
+    expect(requests.map((request) => request.url)).toEqual([
+      "http://gpu.lan:11434/api/chat",
+      "http://gpu.lan:11434/api/embed",
+    ]);
+    expect(requests[0].body.stream).toBe(false);
+    expect(requests[0].body.messages[1].images).toEqual(["AQID"]);
+    expect(requests[0].body.format.required).toEqual(["caption", "tags", "gallerySuggestions"]);
+    expect(analysis.model).toBe("qwen2.5vl");
+    expect(analysis.usage?.totalTokenCount).toBe(70);
+    expect(embedding.model).toBe("nomic-embed-text");
+    expect(embedding.values).toEqual([0.4, 0.5, 0.6]);
+  });
+
+  test("reports server errors with their message", async () => {
+    const { fetch } = recordingFetch(() => jsonResponse({ error: 'model "llava" not found' }, 404));
+    const provider = new OllamaPhotoAiProvider({ analysisModel: "llava", fetch });
+
+    try {
+      await provider.analyzePhoto(await analysisInput());
+      throw new Error("Expected the request to fail");
+    } catch (error) {
+      expect(error).toBeInstanceOf(AiProviderRequestError);
+      expect((error as AiProviderRequestError).provider).toBe("ollama");
+      expect((error as AiProviderRequestError).retryable).toBe(false);
+      expect((error as Error).message).toBe('model "llava" not found');
+    }
+  });
+});
+
+describe("provider configuration", () => {
+  const context = (env: Record<string, unknown>) => ({ cloudflare: { env } });
+
+  test("local providers need no key and never reuse the Gemini key", () => {
+    const configuration = getPhotoAiConfiguration(context({
+      PHOTO_AI_PROVIDER: "Ollama",
+      GEMINI_API_KEY: "user-owned-test-key",
+      GEMINI_ANALYSIS_MODEL: "gemini-custom",
+      PHOTO_AI_EMBEDDING_DIMENSIONS: "1024",
+    }));
+
+    expect(configuration).toMatchObject({
+      provider: "ollama",
+      enabled: true,
+      analysisModel: "qwen2.5vl",
+      embeddingModel: "nomic-embed-text",
+      embeddingDimensions: 1024,
+    });
+    expect(configuration.apiKey).toBeUndefined();
+    expect(createPhotoAiProvider(configuration).name).toBe("ollama");
+  });
+
+  test("an OpenAI-compatible endpoint is enabled by a key or a base URL", () => {
+    expect(getPhotoAiConfiguration(context({ PHOTO_AI_PROVIDER: "openai" })).enabled).toBe(false);
+    expect(getPhotoAiConfiguration(context({
+      PHOTO_AI_PROVIDER: "openai",
+      OPENAI_BASE_URL: "http://llama.local:8080/v1",
+    })).enabled).toBe(true);
+  });
+
+  test("an unknown provider stays disabled instead of falling back to Gemini", () => {
+    const configuration = getPhotoAiConfiguration(context({
+      PHOTO_AI_PROVIDER: "mistral",
+      GEMINI_API_KEY: "user-owned-test-key",
+    }));
+
+    expect(configuration.enabled).toBe(false);
+    expect(configuration.invalidProvider).toBe("mistral");
+  });
+});
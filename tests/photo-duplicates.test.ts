@@ -0,0 +1,132 @@
+import { describe, expect, test } from "bun:test";
+import {
+  DIFFERENCE_HASH_HEIGHT,
+  DIFFERENCE_HASH_WIDTH,
+  compareDuplicateKeepers,
+  differenceHashFromPixels,
+  groupDuplicatePhotos,
+  hammingDistance,
+  type DuplicateCandidate,
+} from "../app/lib/ai/duplicate-detection";
+
+/** RGBA pixels of a 9×8 thumbnail whose brightness comes from `shade`. */
+function thumbnail(shade: (column: number, row: number) => number): number[] {
+  const pixels: number[] = [];
+  for (let row = 0; row < DIFFERENCE_HASH_HEIGHT; row += 1) {
+    for (let column = 0; column < DIFFERENCE_HASH_WIDTH; column += 1) {
+      const value = shade(column, row);
+      pixels.push(value, value, value, 255);
+    }
+  }
+  return pixels;
+}
+
+function photo(path: string, overrides: Partial<DuplicateCandidate> = {}): DuplicateCandidate {
+  const [, gallery] = path.split("/");
+  return {
+    path,
+    galleryPath: `galleries/${gallery}`,
+    gallerySlug: gallery,
+    filename: path.split("/").pop()!,
+    hidden: false,
+    ...overrides,
+  };
+}
+
+describe("difference hash", () => {
+  test("encodes brightness steps and survives uniform exposure changes", () => {
+    const falling = differenceHashFromPixels(thumbnail((column) => 240 - column * 20));
+    const brighter = differenceHashFromPixels(thumbnail((column) => 250 - column * 20));
+    const rising = differenceHashFromPixels(thumbnail((column) => column * 20));
+
+    expect(falling).toBe("ffffffffffffffff");
+    expect(rising).toBe("0000000000000000");
+    expect(brighter).toBe(falling);
+    expect(hammingDistance(falling, rising)).toBe(64);
+    expect(hammingDistance("f0", "f1")).toBe(1);
+    expect(() => differenceHashFromPixels([1, 2, 3])).toThrow();
+  });
+});
+
+describe("duplicate grouping", () => {
+  test("groups exact copies by fingerprint across galleries", () => {
+    const groups = groupDuplicatePhotos([
+      photo("galleries/street/a.jpg", { sourceFingerprint: "sha256:aa" }),
+      photo("galleries/best/a-copy.jpg", { sourceFingerprint: "sha256:aa" }),
+      photo("galleries/street/b.jpg", { sourceFingerprint: "sha256:bb" }),
+    ]);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].kind).toBe("exact");
+    expect(groups[0].photos.map((entry) => entry.path)).toEqual([
+      "galleries/best/a-copy.jpg",
+      "galleries/street/a.jpg",
+    ]);
+  });
+
+  test("needs a much closer hash when photos have no embeddings", () => {
+    const near = [
+      photo("galleries/street/a.jpg", { perceptualHash: "ffffffffffffffff" }),
+      photo("galleries/street/b.jpg", { perceptualHash: "fffffffffffffff0" }),
+    ];
+    const loose = [
+      near[0],
+      photo("galleries/street/c.jpg", { perceptualHash: "ffffffffffffff00" }),
+    ];
+
+    expect(groupDuplicatePhotos(near)[0]?.kind).toBe("near");
+    expect(groupDuplicatePhotos(loose)).toEqual([]);
+    // Eight bits apart is close enough once the embeddings agree as well.
+    const embedded = loose.map((entry) => ({ ...entry, embedding: [1, 0.1, 0] }));
+    expect(groupDuplicatePhotos(embedded)).toHaveLength(1);
+    const differentScene = [embedded[0], { ...embedded[1], embedding: [0, 1, 0] }];
+    expect(groupDuplicatePhotos(differentScene)).toEqual([]);
+  });
+
+  test("matches unhashed photos only on near-identical embeddings", () => {
+    expect(groupDuplicatePhotos([
+      photo("galleries/street/a.jpg", { embedding: [1, 0, 0] }),
+      photo("galleries/street/b.jpg", { embedding: [1, 0.1, 0] }),
+    ])).toHaveLength(1);
+    expect(groupDuplicatePhotos([
+      photo("galleries/street/a.jpg", { embedding: [1, 0, 0] }),
+      photo("galleries/street/b.jpg", { embedding: [1, 0.4, 0] }),
+    ])).toEqual([]);
+  });
+
+  test("groups transitively and labels frames from one camera seconds apart as a burst", () => {
+    const shot = (name: string, hash: string, second: number) =>
+      photo(`galleries/street/${name}.jpg`, {
+        perceptualHash: hash,
+        camera: "X100V",
+        dateTaken: `2026-05-01T10:00:0${second}.000Z`,
+      });
+    const groups = groupDuplicatePhotos([
+      shot("a", "ffffffffffffffff", 0),
+      shot("b", "fffffffffffffff0", 2),
+      shot("c", "ffffffffffffff00", 4),
+    ]);
+
+    expect(groups).toHaveLength(1);
+    expect(groups[0].kind).toBe("burst");
+    expect(groups[0].photos).toHaveLength(3);
+
+    const [later] = groupDuplicatePhotos([
+      shot("a", "ffffffffffffffff", 0),
+      { ...shot("b", "fffffffffffffff0", 0), dateTaken: "2026-05-01T10:05:00.000Z" },
+    ]);
+    expect(later.kind).toBe("near");
+  });
+
+  test("keeps the highest rated, then largest, then visible photo", () => {
+    const base = { sourceFingerprint: "sha256:aa" };
+    const small = photo("galleries/street/a.jpg", { ...base, width: 1200, height: 800 });
+    const large = photo("galleries/street/b.jpg", { ...base, width: 6000, height: 4000 });
+    const rated = photo("galleries/street/c.jpg", { ...base, width: 1200, height: 800, rating: 5 });
+    const hiddenLarge = { ...large, path: "galleries/street/0.jpg", hidden: true };
+
+    expect(groupDuplicatePhotos([small, large])[0].keepPath).toBe(large.path);
+    expect(groupDuplicatePhotos([small, large, rated])[0].keepPath).toBe(rated.path);
+    expect([hiddenLarge, large].sort(compareDuplicateKeepers)[0]).toBe(large);
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, expect, test } from "bun:test";
+import type { GalleryDataEntry, GalleryPhotoEntry } from "../app/lib/content-engine";
+import {
+  buildPhotoMapGeoJson,
+  clusterPhotoMapPoints,
+  collectPhotoMapPoints,
+  fitPhotoMapView,
+  photoMapPhotoPath,
+  photoMapTileUrl,
+  resolvePhotoMapTiles,
+} from "../app/lib/photo-map";
+
+function photo(
+  gallery: string,
+  name: string,
+  gps: { lat: number; lng: number } | undefined,
+  overrides: Partial<GalleryPhotoEntry> = {},
+): GalleryPhotoEntry {
+  return {
+    id: name,
+    path: `galleries/${gallery}/${name}.jpg`,
+    filename: `${name}.jpg`,
+    exif: gps ? { gps } : undefined,
+    ...overrides,
+  };
+}
+
+function gallery(slug: string, photos: GalleryPhotoEntry[], overrides: Partial<GalleryDataEntry> = {}) {
+  return {
+    slug,
+    title: slug,
+    path: `galleries/${slug}`,
+    photoCount: photos.length,
+    isProtected: false,
+    hasChildren: false,
+    childCount: 0,
+    photos,
+    ...overrides,
+  } as GalleryDataEntry;
+}
+
+const tokyo = { lat: 35.65858, lng: 139.70163 };
+const madrid = { lat: 40.41678, lng: -3.70379 };
+
+describe("photo map points", () => {
+  const galleries = [
+    gallery("travel/japan", [
+      photo("travel/japan", "shibuya", tokyo),
+      photo("travel/japan", "no-fix", { lat: 0, lng: 0 }),
+      photo("travel/japan", "untagged", undefined),
+      photo("travel/japan", "hidden", tokyo, { hidden: true }),
+    ]),
+    gallery("travel/spain", [photo("travel/spain", "gran-via", madrid)], { hideExactLocation: true }),
+    gallery("family", [
+      photo("family", "home", madrid),
+      photo("travel/japan", "shibuya", tokyo, { isReference: true, sourceGallerySlug: "travel/japan" }),
+    ], { hideExactLocation: true }),
+    gallery("secret", [photo("secret", "door", madrid)], { isProtected: true }),
+    gallery("drafts", [photo("drafts", "soon", madrid)], { publishAt: "2999-01-01T00:00:00.000Z" }),
+    gallery("hidden-away", [photo("hidden-away", "nook", madrid)], { private: true }),
+  ];
+
+  test("keeps visible geotagged photos of public galleries once", () => {
+    const points = collectPhotoMapPoints(galleries, { now: new Date("2026-01-01T00:00:00Z") });
+    expect(points.map((point) => [point.path, point.gallerySlug])).toEqual([
+      ["galleries/travel/japan/shibuya.jpg", "travel/japan"],
+      ["galleries/travel/spain/gran-via.jpg", "travel/spain"],
+      ["galleries/family/home.jpg", "family"],
+    ]);
+  });
+
+  test("coarsens photos in any gallery that hides exact locations", () => {
+    const points = collectPhotoMapPoints(galleries);
+    expect(points.find((point) => point.filename === "gran-via.jpg")).toMatchObject({
+      lat: 40.4,
+      lng: -3.7,
+      approximate: true,
+    });
+    // Shibuya is also a member of "family", so its spot is hidden everywhere.
+    expect(points.find((point) => point.filename === "shibuya.jpg")).toMatchObject({
+      lat: 35.7,
+      lng: 139.7,
+      approximate: true,
+    });
+  });
+
+  test("scopes to a gallery and its children, protected only once unlocked", () => {
+    expect(collectPhotoMapPoints(galleries, { gallerySlug: "travel" }).map((point) => point.filename))
+      .toEqual(["shibuya.jpg", "gran-via.jpg"]);
+    expect(collectPhotoMapPoints(galleries, { gallerySlug: "secret" })).toEqual([]);
+    expect(collectPhotoMapPoints(galleries, { gallerySlug: "secret", includeProtected: true })
+      .map((point) => point.filename)).toEqual(["door.jpg"]);
+  });
+});
+
+describe("photo map layout", () => {
+  test("clusters nearby points until zoomed in", () => {
+    const points = [tokyo, { lat: 35.66, lng: 139.7 }, madrid];
+    expect(clusterPhotoMapPoints(points, 3).map((cluster) => cluster.points.length).sort())
+      .toEqual([1, 2]);
+    expect(clusterPhotoMapPoints(points, 18)).toHaveLength(3);
+  });
+
+  test("fits the view around every point", () => {
+    const view = fitPhotoMapView([tokyo, madrid], 800, 600, 19);
+    expect(view.zoom).toBe(2);
+    expect(fitPhotoMapView([tokyo], 800, 600, 12)).toMatchObject({ zoom: 12 });
+    expect(fitPhotoMapView([], 800, 600, 19)).toEqual({ lat: 20, lng: 0, zoom: 1 });
+  });
+});
+
+describe("photo map output", () => {
+  test("builds GeoJSON with longitude first and absolute URLs", () => {
+    const [point] = collectPhotoMapPoints([
+      gallery("new york", [photo("new york", "bridge", { lat: 40.7, lng: -73.99 }, { title: "Bridge" })]),
+    ]);
+    expect(photoMapPhotoPath(point)).toBe("/photo/new%20york/bridge.jpg");
+    const geoJson = buildPhotoMapGeoJson([point], {
+      photo: (item) => `https://example.com${photoMapPhotoPath(item)}`,
+      image: (item) => `https://example.com/api/images/${item.path}`,
+    });
+    expect(geoJson.features[0]).toMatchObject({
+      type: "Feature",
+      geometry: { type: "Point", coordinates: [-73.99, 40.7] },
+      properties: {
+        title: "Bridge",
+        url: "https://example.com/photo/new%20york/bridge.jpg",
+        gallery: "new york",
+        approximate: false,
+      },
+    });
+  });
+
+  test("reads a self-hosted tile server from the environment", () => {
+    expect(resolvePhotoMapTiles({})).toMatchObject({
+      url: "https://tile.openstreetmap.org/{z}/{x}/{y}.png",
+      maxZoom: 19,
+    });
+    const tiles = resolvePhotoMapTiles({
+      cloudflare: {
+        env: {
+          MAP_TILE_URL: "https://{s}.tiles.example.com/{z}/{x}/{y}.png",
+          MAP_TILE_MAX_ZOOM: "16",
+          MAP_TILE_SUBDOMAINS: "abc",
+        },
+      },
+    });
+    expect(tiles).toEqual({
+      url: "https://{s}.tiles.example.com/{z}/{x}/{y}.png",
+      attribution: "",
+      maxZoom: 16,
+      subdomains: ["a", "b", "c"],
+    });
+    expect(photoMapTileUrl(tiles, 3, 4, 1)).toBe("https://c.tiles.example.com/3/4/1.png");
+    expect(resolvePhotoMapTiles({ cloudflare: { env: { MAP_TILE_URL: "javascript:alert(1)" } } }).url)
+      .toBe("https://tile.openstreetmap.org/{z}/{x}/{y}.png");
+  });
+});
@@ -0,0 +1,205 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { writeContentIndex, type ContentIndex } from "../app/lib/content-engine/content-index";
+import { extractImageMetadata } from "../app/lib/content-engine/exif";
+import {
+  extractEmbeddedJpegPreview,
+  getPhotoRenditionStorageKey,
+  readPhotoAnalysisImage,
+  readPhotoRendition,
+  writePhotoRendition,
+} from "../app/lib/content-engine/photo-renditions";
+import { LocalStorageAdapter } from "../app/lib/content-engine/storage/local-adapter";
+import {
+  completeUploadSession,
+  startUploadSession,
+  uploadSessionPart,
+  uploadSessionRendition,
+} from "../app/lib/content-engine/uploads";
+import { isSourceImage } from "../app/lib/content-engine/utils";
+import { createCanonicalImageSourceFingerprint } from "../app/lib/content-engine/victopress-xmp";
+import { resolveDisplayImageAsset, resolveImageAsset } from "../app/lib/image-delivery.server";
+
+/** A tiny but structurally complete JPEG: SOF, one scan with stuffing and a restart, EOI. */
+function jpeg(width: number, height: number, { lossless = false, scanBytes = 4 } = {}): number[] {
+  const scan = Array.from({ length: scanBytes }, (_, index) => (index * 7 + 1) % 200);
+  return [
+    0xff, 0xd8,
+    0xff, lossless ? 0xc3 : 0xc0, 0x00, 0x0b, 0x08,
+    height >> 8, height & 0xff,
+    width >> 8, width & 0xff,
+    0x01, 0x01, 0x11, 0x00,
+    0xff, 0xda, 0x00, 0x08, 0x01, 0x01, 0x00, 0x00, 0x3f, 0x00,
+    ...scan, 0xff, 0x00, 0xff, 0xd0, ...scan,
+    0xff, 0xd9,
+  ];
+}
+
+function ascii(value: string): number[] {
+  return [...value].map((character) => character.charCodeAt(0));
+}
+
+function raf(preview: number[]): ArrayBuffer {
+  const header = new Uint8Array(100);
+  header.set(ascii("FUJIFILMCCD-RAW 0201FF383501"));
+  const view = new DataView(header.buffer);
+  view.setUint32(84, header.length);
+  view.setUint32(88, preview.length);
+  return Uint8Array.from([...header, ...preview, 0, 0, 0, 0]).buffer;
+}
+
+function indexWith(photos: ContentIndex["galleryData"][number]["photos"]): ContentIndex {
+  const gallery = {
+    slug: "trips",
+    title: "Trips",
+    path: "galleries/trips",
+    photoCount: photos.length,
+    isProtected: false,
+    hasChildren: false,
+    childCount: 0,
+  };
+  return {
+    version: 12,
+    updatedAt: "2026-10-01T10:00:00.000Z",
+    galleries: [gallery],
+    galleryData: [{ ...gallery, photos }],
+    posts: [],
+    pages: [],
+    parentMetadata: [],
+    featuredPhotos: [],
+    stats: { totalGalleries: 1, totalPhotos: photos.length, totalPosts: 0, totalPages: 0 },
+  };
+}
+
+describe("embedded RAW previews", () => {
+  test("picks the largest displayable JPEG and skips lossless sensor data", () => {
+    const thumbnail = jpeg(160, 120);
+    const preview = jpeg(1600, 1067, { scanBytes: 40 });
+    const sensor = jpeg(6000, 4000, { lossless: true, scanBytes: 200 });
+    const dng = Uint8Array.from([
+      ...ascii("II*"), 0x00, 8, 0, 0, 0,
+      ...thumbnail,
+      1, 2, 3,
+      ...sensor,
+      ...preview,
+      9, 9,
+    ]).buffer;
+
+    expect(Array.from(new Uint8Array(extractEmbeddedJpegPreview(dng)!))).toEqual(preview);
+  });
+
+  test("reads the preview location from a Fujifilm RAF header", () => {
+    const preview = jpeg(3000, 2000);
+    expect(Array.from(new Uint8Array(extractEmbeddedJpegPreview(raf(preview))!))).toEqual(preview);
+  });
+
+  test("returns null when there is no complete preview", () => {
+    const truncated = jpeg(800, 600).slice(0, -2);
+    expect(extractEmbeddedJpegPreview(Uint8Array.from(truncated).buffer)).toBeNull();
+  });
+
+  test("reads metadata through the preview when the container is unknown", async () => {
+    const metadata = await extractImageMetadata(raf(jpeg(3000, 2000)));
+    expect(metadata?.exif).toMatchObject({ imageWidth: 3000, imageHeight: 2000 });
+  });
+
+  test("treats HEIC and RAW originals as gallery photos", () => {
+    expect(isSourceImage("IMG_0042.HEIC")).toBe(true);
+    expect(isSourceImage("DSCF0001.RAF")).toBe(true);
+    expect(isSourceImage("_MG_1234.CR3")).toBe(true);
+    expect(isSourceImage("notes.txt")).toBe(false);
+  });
+});
+
+describe("display renditions", () => {
+  let directory = "";
+  let storage: LocalStorageAdapter;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "victopress-renditions-"));
+    storage = new LocalStorageAdapter(directory);
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  test("serves the rendition for display and the original for downloads", async () => {
+    const original = Uint8Array.from([0, 0, 0, 24, ...ascii("ftypheic"), 0, 0, 0, 0]).buffer;
+    const rendition = Uint8Array.from(jpeg(4032, 3024)).buffer;
+    await storage.put("galleries/trips/IMG_0042.heic", original);
+    await writePhotoRendition(storage, "galleries/trips/IMG_0042.heic", rendition);
+
+    const display = await resolveDisplayImageAsset(storage, "galleries/trips/IMG_0042.heic", null);
+    expect(display?.path).toBe(getPhotoRenditionStorageKey("galleries/trips/IMG_0042.heic"));
+    expect(display?.usedOriginalFallback).toBe(false);
+    expect(new Uint8Array(display!.buffer)).toEqual(new Uint8Array(rendition));
+
+    const download = await resolveImageAsset(storage, "galleries/trips/IMG_0042.heic", null);
+    expect(new Uint8Array(download!.buffer)).toEqual(new Uint8Array(original));
+  });
+
+  test("cuts a RAW preview per request until a rendition is stored", async () => {
+    const preview = jpeg(3000, 2000);
+    await storage.put("galleries/trips/DSCF0001.RAF", raf(preview));
+
+    const display = await resolveDisplayImageAsset(
+      storage,
+      "galleries/trips/DSCF0001_800w.webp",
+      "raf",
+    );
+    expect(display?.usedOriginalFallback).toBe(true);
+    expect(Array.from(new Uint8Array(display!.buffer))).toEqual(preview);
+
+    const analysis = await readPhotoAnalysisImage(storage, "galleries/trips/DSCF0001.RAF");
+    expect(analysis?.mimeType).toBe("image/jpeg");
+    expect(Array.from(new Uint8Array(analysis!.bytes))).toEqual(preview);
+  });
+
+  test("stores the browser rendition of an uploaded HEIC on completion", async () => {
+    await writeContentIndex(storage, indexWith([]));
+    const original = Uint8Array.from([0, 0, 0, 24, ...ascii("ftypheic"), 0, 0, 0, 0]).buffer;
+    const started = await startUploadSession(storage, {
+      galleryPath: "galleries/trips",
+      filename: "IMG_0042.heic",
+      size: original.byteLength,
+      contentType: "image/heic",
+      fingerprint: await createCanonicalImageSourceFingerprint(original),
+      policy: "rename",
+    });
+    if (started.status !== "ready") throw new Error(`Expected a session, got ${started.status}`);
+
+    await expect(
+      uploadSessionRendition(storage, started.session, Uint8Array.from([1, 2, 3]).buffer),
+    ).rejects.toThrow("not a JPEG");
+    const rendition = Uint8Array.from(jpeg(4032, 3024)).buffer;
+    let session = await uploadSessionRendition(storage, started.session, rendition);
+    session = await uploadSessionPart(storage, session, 1, original);
+    await completeUploadSession(storage, session);
+
+    const stored = await readPhotoRendition(storage, "galleries/trips/IMG_0042.heic");
+    expect(new Uint8Array(stored!)).toEqual(new Uint8Array(rendition));
+    expect(await storage.exists(`.victopress/uploads/${session.id}.jpg`)).toBe(false);
+  });
+
+  test("stores the preview of an uploaded RAW file", async () => {
+    await writeContentIndex(storage, indexWith([]));
+    const preview = jpeg(3000, 2000);
+    const original = raf(preview);
+    const started = await startUploadSession(storage, {
+      galleryPath: "galleries/trips",
+      filename: "DSCF0001.RAF",
+      size: original.byteLength,
+      fingerprint: await createCanonicalImageSourceFingerprint(original),
+      policy: "rename",
+    });
+    if (started.status !== "ready") throw new Error(`Expected a session, got ${started.status}`);
+
+    await completeUploadSession(storage, await uploadSessionPart(storage, started.session, 1, original));
+
+    const stored = await readPhotoRendition(storage, "galleries/trips/DSCF0001.RAF");
+    expect(Array.from(new Uint8Array(stored!))).toEqual(preview);
+  });
+});
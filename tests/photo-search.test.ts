@@ -1,6 +1,17 @@
 import { describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
 import { rankPhotoDocumentsLexically } from "../app/lib/ai/photo-ai-service.server";
+import { countPhotoSearchFacets } from "../app/lib/ai/search-facets";
 import type { PhotoAiSearchDocument } from "../app/lib/ai/search-index";
+import {
+  fuseRankings,
+  loadPhotoSearchTermIndex,
+  PHOTO_AI_SEARCH_TERMS_KEY,
+} from "../app/lib/ai/search-inverted-index";
+import { searchStemmerFor } from "../app/lib/ai/search-stemmers";
+import { LocalStorageAdapter } from "../app/lib/content-engine/storage/local-adapter";
 
 function photo(
   assetId: string,
@@ -60,3 +71,86 @@ describe("photo search lexical fallback", () => {
     expect(results[0].document.assetId).toBe("visible");
   });
 });
+
+describe("photo search index", () => {
+  test("stems plural and gender endings for each site locale", () => {
+    const spanish = searchStemmerFor("es");
+    expect(spanish("calles")).toBe(spanish("calle"));
+    expect(spanish("ninas")).toBe(spanish("ninos"));
+    expect(spanish("luces")).toBe("luz");
+    const english = searchStemmerFor("en");
+    expect(english("churches")).toBe("church");
+    expect(english("cities")).toBe("city");
+    expect(searchStemmerFor("xx")("calles")).toBe("calles");
+  });
+
+  test("ranks with BM25 so rare, title-level matches come first", () => {
+    const documents = [
+      photo("caption", "Un mercado de flores con una bicicleta al fondo."),
+      photo("title", "Un mercado al aire libre.", { title: "Bicicletas" }),
+      photo("other", "Un mercado de pescado."),
+    ];
+
+    const results = rankPhotoDocumentsLexically(documents, "bicicleta mercado", { locale: "es" });
+
+    expect(results.map((result) => result.document.assetId)).toEqual(["title", "caption", "other"]);
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+  });
+
+  test("fuses rankings by position", () => {
+    const scores = fuseRankings([["a", "b", "c"], ["c", "a"]]);
+    expect(Array.from(scores.entries()).sort((a, b) => b[1] - a[1]).map(([id]) => id)).toEqual([
+      "a",
+      "c",
+      "b",
+    ]);
+  });
+
+  test("filters by facets and counts each facet without its own filter", () => {
+    const documents = [
+      photo("a", "Calle", { year: 2023, camera: "Fujifilm X100V", city: "Madrid", tags: ["calle"] }),
+      photo("b", "Calle", { year: 2024, camera: "Fujifilm X100V", city: "Sevilla", tags: ["Calle"] }),
+      photo("c", "Calle", { year: 2024, camera: "Leica Q2", city: "Madrid" }),
+    ];
+    const filters = { camera: ["fujifilm x100v"], city: ["Madrid"] };
+
+    const results = rankPhotoDocumentsLexically(documents, "calle", { filters });
+    const facets = countPhotoSearchFacets(documents, filters);
+
+    expect(results.map((result) => result.document.assetId)).toEqual(["a"]);
+    expect(facets.camera).toEqual([
+      { value: "Fujifilm X100V", label: "Fujifilm X100V", count: 1 },
+      { value: "Leica Q2", label: "Leica Q2", count: 1 },
+    ]);
+    expect(facets.city.map((value) => [value.value, value.count])).toEqual([
+      ["Madrid", 1],
+      ["Sevilla", 1],
+    ]);
+    expect(facets.year.map((value) => value.value)).toEqual(["2023"]);
+    expect(facets.tag).toEqual([{ value: "calle", label: "calle", count: 1 }]);
+  });
+
+  test("persists the term index and rebuilds it when documents change", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "victopress-search-terms-"));
+    try {
+      const storage = new LocalStorageAdapter(directory);
+      const index = {
+        version: 1 as const,
+        updatedAt: "2026-07-27T20:00:00.000Z",
+        documents: { hat: photo("hat", "Sombreros de paja") } as Record<string, PhotoAiSearchDocument>,
+      };
+
+      const first = await loadPhotoSearchTermIndex(storage, index, ["es", "en"]);
+      expect(first.postings.es.sombrer).toEqual([["hat", 1]]);
+      expect(first.postings.en.sombrero).toEqual([["hat", 1]]);
+      expect(await storage.exists(PHOTO_AI_SEARCH_TERMS_KEY)).toBe(true);
+
+      index.documents = { ...index.documents, night: photo("night", "Noche") };
+      index.updatedAt = "2026-07-28T20:00:00.000Z";
+      const second = await loadPhotoSearchTermIndex(storage, index, ["es", "en"]);
+      expect(second.postings.es.noch).toEqual([["night", 1]]);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  buildPhotoTimeline,
+  getPhotoTimelineFromIndex,
+  getTimelinePhotosFromIndex,
+  normalizeTimelinePeriod,
+  photoTimelineOnThisDay,
+  photoTimelinePeriods,
+  rebuildContentIndex,
+  updateGalleryPhotosInIndex,
+  type GalleryDataEntry,
+  type GalleryPhotoEntry,
+} from "../app/lib/content-engine";
+import { LocalStorageAdapter } from "../app/lib/content-engine/storage/local-adapter";
+
+function photo(name: string, dateTaken?: string, overrides: Partial<GalleryPhotoEntry> = {}): GalleryPhotoEntry {
+  return { id: name, path: `galleries/street/${name}.jpg`, filename: `${name}.jpg`, dateTaken, ...overrides };
+}
+
+describe("photo timeline counts", () => {
+  const days = {
+    "2019-04-01": 2,
+    "2019-04-18": 1,
+    "2019-11-02": 3,
+    "2021-04-18": 1,
+    "2024-04-18": 5,
+  };
+
+  test("counts visible, dated photos once per gallery that stores them", () => {
+    const street = {
+      slug: "street",
+      photos: [
+        photo("a", "2019-04-01T10:00:00.000Z"),
+        photo("b", "2019-04-01T23:30:00.000Z"),
+        photo("c", "2019-04-02T00:30:00.000Z", { hidden: true }),
+        photo("d"),
+        photo("e", "2019-04-01T10:00:00.000Z", { isReference: true }),
+      ],
+    } as GalleryDataEntry;
+    expect(buildPhotoTimeline([street])).toEqual({ galleries: { street: { "2019-04-01": 2 } } });
+  });
+
+  test("groups by year, by month within a year and by day within a month", () => {
+    expect(photoTimelinePeriods(days, "year")).toEqual([
+      { period: "2019", count: 6 },
+      { period: "2021", count: 1 },
+      { period: "2024", count: 5 },
+    ]);
+    expect(photoTimelinePeriods(days, "month", "2019")).toEqual([
+      { period: "2019-04", count: 3 },
+      { period: "2019-11", count: 3 },
+    ]);
+    expect(photoTimelinePeriods(days, "day", "2019-04").map((item) => item.period))
+      .toEqual(["2019-04-01", "2019-04-18"]);
+  });
+
+  test("finds the same day in earlier years", () => {
+    expect(photoTimelineOnThisDay(days, new Date("2024-04-18T08:00:00Z"))).toEqual([
+      { period: "2021-04-18", count: 1 },
+      { period: "2019-04-18", count: 1 },
+    ]);
+  });
+
+  test("normalizes URL periods", () => {
+    expect(normalizeTimelinePeriod("2019/4/1")).toBe("2019-04-01");
+    expect(normalizeTimelinePeriod("2019-11")).toBe("2019-11");
+    expect(normalizeTimelinePeriod("2019/13")).toBeNull();
+    expect(normalizeTimelinePeriod("19/04")).toBeNull();
+  });
+});
+
+describe("photo timeline in the content index", () => {
+  let directory = "";
+  let storage: LocalStorageAdapter;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "victopress-timeline-"));
+    storage = new LocalStorageAdapter(directory);
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  test("is built on rebuild and leaves private and scheduled galleries out", async () => {
+    await storage.put("galleries/street/a.jpg", "jpg");
+    await storage.put("galleries/street/b.jpg", "jpg");
+    await storage.put(
+      "galleries/street/photos.yaml",
+      "- filename: a.jpg\n  date: 2019-04-01T10:00:00Z\n- filename: b.jpg\n  date: 2020-06-15T10:00:00Z\n",
+    );
+    await storage.put("galleries/family/c.jpg", "jpg");
+    await storage.put("galleries/family/gallery.yaml", "title: Family\nprivate: true\n");
+    await storage.put("galleries/family/photos.yaml", "- filename: c.jpg\n  date: 2019-04-01T10:00:00Z\n");
+    await storage.put("galleries/soon/d.jpg", "jpg");
+    await storage.put("galleries/soon/gallery.yaml", "title: Soon\npublishAt: 2999-01-01T00:00:00Z\n");
+    await storage.put("galleries/soon/photos.yaml", "- filename: d.jpg\n  date: 2019-04-01T10:00:00Z\n");
+
+    const index = await rebuildContentIndex(storage);
+    expect(index.timeline?.galleries.family).toEqual({ "2019-04-01": 1 });
+    expect(await getPhotoTimelineFromIndex(storage)).toEqual({ "2019-04-01": 1, "2020-06-15": 1 });
+    expect((await getTimelinePhotosFromIndex(storage, ["2019"])).map((item) => item.path))
+      .toEqual(["galleries/street/a.jpg"]);
+
+    await updateGalleryPhotosInIndex(storage, "galleries/street", (photos) =>
+      photos.map((item) => (item.filename === "a.jpg" ? { ...item, hidden: true } : item)),
+    );
+    expect(await getPhotoTimelineFromIndex(storage)).toEqual({ "2020-06-15": 1 });
+  });
+});
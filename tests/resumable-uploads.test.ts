@@ -0,0 +1,206 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  readContentIndex,
+  writeContentIndex,
+  type ContentIndex,
+} from "../app/lib/content-engine/content-index";
+import { LocalStorageAdapter } from "../app/lib/content-engine/storage/local-adapter";
+import {
+  collisionFilename,
+  completeUploadSession,
+  missingUploadParts,
+  readUploadSession,
+  startUploadSession,
+  uploadSessionPart,
+  UploadSessionError,
+  UPLOAD_CHUNK_SIZE,
+  type UploadSession,
+} from "../app/lib/content-engine/uploads";
+import { createCanonicalImageSourceFingerprint } from "../app/lib/content-engine/victopress-xmp";
+
+function bytes(size: number, seed: number): ArrayBuffer {
+  const data = new Uint8Array(size);
+  for (let index = 0; index < size; index++) data[index] = (index * 31 + seed) % 251;
+  return data.buffer;
+}
+
+function part(data: ArrayBuffer, partNumber: number): ArrayBuffer {
+  return data.slice((partNumber - 1) * UPLOAD_CHUNK_SIZE, partNumber * UPLOAD_CHUNK_SIZE);
+}
+
+function indexWith(photos: ContentIndex["galleryData"][number]["photos"]): ContentIndex {
+  const gallery = {
+    slug: "trips",
+    title: "Trips",
+    path: "galleries/trips",
+    photoCount: photos.length,
+    isProtected: false,
+    hasChildren: false,
+    childCount: 0,
+  };
+  return {
+    version: 12,
+    updatedAt: "2026-10-01T10:00:00.000Z",
+    galleries: [gallery],
+    galleryData: [{ ...gallery, photos }],
+    posts: [],
+    pages: [],
+    parentMetadata: [],
+    featuredPhotos: [],
+    stats: { totalGalleries: 1, totalPhotos: photos.length, totalPosts: 0, totalPages: 0 },
+  };
+}
+
+async function ready(result: Awaited<ReturnType<typeof startUploadSession>>): Promise<UploadSession> {
+  if (result.status !== "ready") throw new Error(`Expected a session, got ${result.status}`);
+  return result.session;
+}
+
+describe("resumable photo uploads", () => {
+  let directory = "";
+  let storage: LocalStorageAdapter;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "victopress-uploads-"));
+    storage = new LocalStorageAdapter(directory);
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  test("assembles chunks on local storage and resumes the missing ones", async () => {
+    await writeContentIndex(storage, indexWith([]));
+    const data = bytes(UPLOAD_CHUNK_SIZE + 1000, 7);
+    const request = {
+      galleryPath: "galleries/trips",
+      filename: "harbour.jpg",
+      size: data.byteLength,
+      contentType: "image/jpeg",
+      fingerprint: await createCanonicalImageSourceFingerprint(data),
+      policy: "rename" as const,
+    };
+
+    const session = await ready(await startUploadSession(storage, request));
+    expect(missingUploadParts(session)).toEqual([1, 2]);
+    await uploadSessionPart(storage, session, 2, part(data, 2));
+    expect(await storage.exists("galleries/trips/harbour.jpg")).toBe(false);
+
+    // Starting the same file again, e.g. after a reload, picks the session up
+    const resumed = await ready(await startUploadSession(storage, request));
+    expect(resumed.id).toBe(session.id);
+    expect(missingUploadParts(resumed)).toEqual([1]);
+    await expect(completeUploadSession(storage, resumed)).rejects.toThrow(UploadSessionError);
+
+    const finished = await uploadSessionPart(storage, resumed, 1, part(data, 1));
+    expect(await completeUploadSession(storage, finished)).toEqual({
+      path: "galleries/trips/harbour.jpg",
+      replaced: false,
+    });
+
+    const stored = await storage.get("galleries/trips/harbour.jpg");
+    expect(new Uint8Array(stored!)).toEqual(new Uint8Array(data));
+    expect(await readUploadSession(storage, session.id)).toBeNull();
+    expect(await readdir(join(directory, ".victopress", "multipart"))).toEqual([]);
+
+    const photo = (await readContentIndex(storage))?.galleryData[0].photos[0];
+    expect(photo).toMatchObject({ filename: "harbour.jpg", sourceFingerprint: request.fingerprint });
+  });
+
+  test("rejects chunks of the wrong size", async () => {
+    await writeContentIndex(storage, indexWith([]));
+    const data = bytes(2048, 3);
+    const session = await ready(await startUploadSession(storage, {
+      galleryPath: "galleries/trips",
+      filename: "small.png",
+      size: data.byteLength,
+      fingerprint: await createCanonicalImageSourceFingerprint(data),
+      policy: "rename",
+    }));
+
+    await expect(uploadSessionPart(storage, session, 1, data.slice(0, 1024))).rejects.toThrow(
+      "expected 2048",
+    );
+    await expect(uploadSessionPart(storage, session, 2, data)).rejects.toThrow("outside 1–1");
+  });
+
+  test("reports photos already in the library before writing any bytes", async () => {
+    const data = bytes(4096, 11);
+    const fingerprint = await createCanonicalImageSourceFingerprint(data);
+    await writeContentIndex(storage, indexWith([{
+      id: "old-name",
+      path: "galleries/trips/old-name.jpg",
+      filename: "old-name.jpg",
+      sourceFingerprint: fingerprint,
+    }]));
+
+    const result = await startUploadSession(storage, {
+      galleryPath: "galleries/elsewhere",
+      filename: "renamed-copy.jpg",
+      size: data.byteLength,
+      fingerprint,
+      policy: "replace",
+    });
+
+    expect(result).toEqual({ status: "duplicate", existingPath: "galleries/trips/old-name.jpg" });
+    expect(await storage.list(".victopress/uploads")).toEqual([]);
+  });
+
+  test("applies the skip, rename and replace collision policies", async () => {
+    const previous = bytes(4096, 1);
+    await storage.put("galleries/trips/sunset.jpg", previous, "image/jpeg");
+    await writeContentIndex(storage, indexWith([{
+      id: "sunset",
+      path: "galleries/trips/sunset.jpg",
+      filename: "sunset.jpg",
+      title: "Sunset over the harbour",
+      tags: ["sea"],
+      order: 3,
+      sourceFingerprint: await createCanonicalImageSourceFingerprint(previous),
+    }]));
+
+    const data = bytes(5000, 2);
+    const request = {
+      galleryPath: "galleries/trips",
+      filename: "sunset.jpg",
+      size: data.byteLength,
+      fingerprint: await createCanonicalImageSourceFingerprint(data),
+    };
+
+    expect(await startUploadSession(storage, { ...request, policy: "skip" })).toEqual({
+      status: "skipped",
+      existingPath: "galleries/trips/sunset.jpg",
+    });
+
+    const renamed = await ready(await startUploadSession(storage, { ...request, policy: "rename" }));
+    expect(renamed.key).toBe("galleries/trips/sunset-1.jpg");
+    expect(renamed.replaces).toBe(false);
+
+    const replacing = await ready(await startUploadSession(storage, { ...request, policy: "replace" }));
+    expect(replacing.key).toBe("galleries/trips/sunset.jpg");
+    expect(replacing.replaces).toBe(true);
+    const uploaded = await uploadSessionPart(storage, replacing, 1, data);
+    expect(await completeUploadSession(storage, uploaded)).toEqual({
+      path: "galleries/trips/sunset.jpg",
+      replaced: true,
+    });
+
+    expect(new Uint8Array((await storage.get("galleries/trips/sunset.jpg"))!)).toEqual(new Uint8Array(data));
+    const photos = (await readContentIndex(storage))?.galleryData[0].photos;
+    expect(photos).toHaveLength(1);
+    expect(photos?.[0]).toMatchObject({
+      title: "Sunset over the harbour",
+      tags: ["sea"],
+      order: 3,
+      sourceFingerprint: request.fingerprint,
+    });
+  });
+
+  test("numbers renamed files before the extension", () => {
+    expect(collisionFilename("sunset.jpg", 0)).toBe("sunset.jpg");
+    expect(collisionFilename("sunset.final.JPG", 2)).toBe("sunset.final-2.JPG");
+  });
+});
@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { parse } from "yaml";
+import {
+  createUnifiedDiff,
+  getContentIndex,
+  listContentRevisions,
+  MAX_REVISIONS_PER_TARGET,
+  rebuildContentIndex,
+  recordContentRevision,
+  restoreContentRevision,
+  revisionPathsInFolder,
+  RevisionNotFoundError,
+  withContentRevision,
+} from "../app/lib/content-engine";
+import { LocalStorageAdapter } from "../app/lib/content-engine/storage/local-adapter";
+
+describe("unified diffs", () => {
+  test("reports changed lines with context", () => {
+    const diff = createUnifiedDiff(
+      "pages/about/index.md",
+      "one\ntwo\nthree\n",
+      "one\n2\nthree\n",
+    );
+    expect(diff).toBe([
+      "--- a/pages/about/index.md",
+      "+++ b/pages/about/index.md",
+      "@@ -1,3 +1,3 @@",
+      " one",
+      "-two",
+      "+2",
+      " three",
+    ].join("\n"));
+  });
+
+  test("describes created files and unchanged files", () => {
+    expect(createUnifiedDiff("a.md", null, "hello\n")).toBe(
+      ["--- /dev/null", "+++ b/a.md", "@@ -0,0 +1,1 @@", "+hello"].join("\n"),
+    );
+    expect(createUnifiedDiff("a.md", "same", "same")).toBe("");
+  });
+});
+
+describe("content revisions", () => {
+  let temporaryDirectory = "";
+  let storage: LocalStorageAdapter;
+
+  beforeEach(async () => {
+    temporaryDirectory = await mkdtemp(join(tmpdir(), "victopress-revisions-"));
+    storage = new LocalStorageAdapter(temporaryDirectory);
+  });
+
+  afterEach(async () => {
+    await rm(temporaryDirectory, { recursive: true, force: true });
+  });
+
+  test("records who changed what and skips writes that changed nothing", async () => {
+    const target = { kind: "page" as const, id: "about" };
+    await storage.put("pages/about/index.md", "---\ntitle: About\n---\nHello\n");
+
+    for (const content of ["Hello again\n", "Hello again\n"]) {
+      await withContentRevision(
+        storage,
+        { targets: [target], action: "update", author: "ana", paths: () => revisionPathsInFolder(storage, "pages/about") },
+        () => storage.put("pages/about/index.md", `---\ntitle: About\n---\n${content}`),
+      );
+    }
+
+    const revisions = await listContentRevisions(storage, target);
+    expect(revisions).toHaveLength(1);
+    expect(revisions[0].author).toBe("ana");
+    expect(revisions[0].action).toBe("update");
+    expect(revisions[0].files[0].diff).toContain("-Hello\n+Hello again");
+  });
+
+  test("restores a blog post edition and refreshes the content index", async () => {
+    const slug = "2026/1/2/hello";
+    const path = `blog/${slug}/index.md`;
+    await storage.put(path, "---\ntitle: First title\nslug: 2026/1/2/hello\ndate: 2026-01-02\n---\nBody\n");
+    await rebuildContentIndex(storage);
+
+    await withContentRevision(
+      storage,
+      { targets: [{ kind: "post", id: slug }], action: "update", author: "admin", paths: [path] },
+      () => storage.put(path, "---\ntitle: Second title\nslug: 2026/1/2/hello\ndate: 2026-01-02\n---\nBody\n"),
+    );
+    const [revision] = await listContentRevisions(storage, { kind: "post", id: slug });
+
+    await restoreContentRevision(storage, { kind: "post", id: slug }, revision.id, {
+      author: "admin",
+      side: "before",
+    });
+
+    expect(await storage.getText(path)).toContain("title: First title");
+    const index = await getContentIndex(storage);
+    expect(index.posts.find((post) => post.slug === slug)?.title).toBe("First title");
+
+    const history = await listContentRevisions(storage, { kind: "post", id: slug });
+    expect(history[0].action).toBe("restore");
+    expect(history[0].restoredFrom).toBe(revision.id);
+  });
+
+  test("restoring a photo leaves its neighbours in photos.yaml untouched", async () => {
+    const yamlPath = "galleries/japan/photos.yaml";
+    const target = { kind: "photo" as const, id: "galleries/japan/tokyo.jpg" };
+    await storage.put(yamlPath, "- filename: tokyo.jpg\n  title: Tokyo\n- filename: kyoto.jpg\n  title: Kyoto\n");
+
+    await withContentRevision(
+      storage,
+      { targets: [target], action: "update", author: "admin", paths: [yamlPath] },
+      () => storage.put(yamlPath, "- filename: tokyo.jpg\n  title: Tokyo at night\n- filename: kyoto.jpg\n  title: Kyoto\n"),
+    );
+    await storage.put(yamlPath, "- filename: tokyo.jpg\n  title: Tokyo at night\n- filename: kyoto.jpg\n  title: Kyoto temples\n");
+
+    const [revision] = await listContentRevisions(storage, target);
+    await restoreContentRevision(storage, target, revision.id, { author: "admin", side: "before" });
+
+    expect(parse((await storage.getText(yamlPath))!)).toEqual([
+      { filename: "tokyo.jpg", title: "Tokyo" },
+      { filename: "kyoto.jpg", title: "Kyoto temples" },
+    ]);
+  });
+
+  test("caps the log per item and rejects unknown revisions", async () => {
+    const target = { kind: "page" as const, id: "about" };
+    for (let index = 0; index < MAX_REVISIONS_PER_TARGET + 5; index += 1) {
+      await recordContentRevision(storage, {
+        targets: [target],
+        action: "update",
+        author: "admin",
+        files: [{ path: "pages/about/index.md", before: `${index}`, after: `${index + 1}` }],
+      });
+    }
+
+    const revisions = await listContentRevisions(storage, target);
+    expect(revisions).toHaveLength(MAX_REVISIONS_PER_TARGET);
+    expect(revisions[0].files[0].after).toBe(`${MAX_REVISIONS_PER_TARGET + 5}`);
+    await expect(
+      restoreContentRevision(storage, target, "missing", { author: "admin" }),
+    ).rejects.toBeInstanceOf(RevisionNotFoundError);
+  });
+});
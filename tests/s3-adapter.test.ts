@@ -0,0 +1,264 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import {
+  CopyObjectCommand,
+  DeleteObjectCommand,
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  type S3Client,
+} from "@aws-sdk/client-s3";
+import { createStorageAdapter, getS3Config } from "../app/lib/content-engine/storage";
+import { S3StorageAdapter } from "../app/lib/content-engine/storage/s3-adapter";
+import { rebuildContentIndex } from "../app/lib/content-engine/content-index";
+
+interface StoredObject {
+  body: Uint8Array;
+  etag: string;
+  contentType?: string;
+  lastModified: Date;
+}
+
+function s3Error(name: string, status: number): Error {
+  return Object.assign(new Error(name), {
+    name,
+    $metadata: { httpStatusCode: status },
+  });
+}
+
+/**
+ * In-memory stand-in for a MinIO bucket. It answers the subset of the S3 API
+ * used by the adapter, including conditional writes and paginated listings.
+ */
+class MemoryS3Bucket {
+  objects = new Map<string, StoredObject>();
+  pageSize = 1000;
+  private nextEtag = 1;
+
+  async send(command: unknown): Promise<unknown> {
+    if (command instanceof PutObjectCommand) {
+      const input = command.input;
+      const current = this.objects.get(input.Key!);
+      if (input.IfNoneMatch === "*" && current) {
+        throw s3Error("PreconditionFailed", 412);
+      }
+      if (input.IfMatch && current?.etag !== input.IfMatch) {
+        throw s3Error("PreconditionFailed", 412);
+      }
+      const body = typeof input.Body === "string"
+        ? new TextEncoder().encode(input.Body)
+        : input.Body as Uint8Array;
+      const etag = `"${this.nextEtag++}"`;
+      this.objects.set(input.Key!, {
+        body,
+        etag,
+        contentType: input.ContentType,
+        lastModified: new Date("2026-10-01T00:00:00.000Z"),
+      });
+      return { ETag: etag };
+    }
+    if (command instanceof GetObjectCommand) {
+      const object = this.objects.get(command.input.Key!);
+      if (!object) throw s3Error("NoSuchKey", 404);
+      return {
+        ETag: object.etag,
+        Body: {
+          transformToByteArray: async () => object.body,
+          transformToString: async () => new TextDecoder().decode(object.body),
+        },
+      };
+    }
+    if (command instanceof HeadObjectCommand) {
+      const object = this.objects.get(command.input.Key!);
+      if (!object) throw s3Error("NotFound", 404);
+      return { ETag: object.etag, ContentType: object.contentType };
+    }
+    if (command instanceof DeleteObjectCommand) {
+      this.objects.delete(command.input.Key!);
+      return {};
+    }
+    if (command instanceof DeleteObjectsCommand) {
+      for (const object of command.input.Delete?.Objects || []) {
+        this.objects.delete(object.Key!);
+      }
+      return { Errors: [] };
+    }
+    if (command instanceof CopyObjectCommand) {
+      const source = decodeURIComponent(
+        command.input.CopySource!.split("/").slice(1).join("/"),
+      );
+      const object = this.objects.get(source);
+      if (!object) throw s3Error("NoSuchKey", 404);
+      this.objects.set(command.input.Key!, { ...object, etag: `"${this.nextEtag++}"` });
+      return {};
+    }
+    if (command instanceof ListObjectsV2Command) {
+      return this.listObjects(command.input);
+    }
+    throw new Error(`Unsupported command ${(command as object).constructor.name}`);
+  }
+
+  private listObjects(input: ListObjectsV2Command["input"]) {
+    const prefix = input.Prefix || "";
+    const keys = [...this.objects.keys()]
+      .filter((key) => key.startsWith(prefix))
+      .sort();
+    const entries: Array<{ key: string; isPrefix: boolean }> = [];
+    const seenPrefixes = new Set<string>();
+    for (const key of keys) {
+      const rest = key.slice(prefix.length);
+      const slash = input.Delimiter ? rest.indexOf(input.Delimiter) : -1;
+      if (slash >= 0) {
+        const commonPrefix = `${prefix}${rest.slice(0, slash + 1)}`;
+        if (!seenPrefixes.has(commonPrefix)) {
+          seenPrefixes.add(commonPrefix);
+          entries.push({ key: commonPrefix, isPrefix: true });
+        }
+      } else {
+        entries.push({ key, isPrefix: false });
+      }
+    }
+
+    const start = Number(input.ContinuationToken || 0);
+    const limit = Math.min(input.MaxKeys ?? this.pageSize, this.pageSize);
+    const page = entries.slice(start, start + limit);
+    const truncated = start + limit < entries.length;
+    return {
+      IsTruncated: truncated,
+      NextContinuationToken: truncated ? String(start + limit) : undefined,
+      CommonPrefixes: page
+        .filter((entry) => entry.isPrefix)
+        .map((entry) => ({ Prefix: entry.key })),
+      Contents: page
+        .filter((entry) => !entry.isPrefix)
+        .map((entry) => ({
+          Key: entry.key,
+          Size: this.objects.get(entry.key)!.body.byteLength,
+          LastModified: this.objects.get(entry.key)!.lastModified,
+        })),
+    };
+  }
+}
+
+const config = {
+  endpoint: "http://localhost:9000",
+  accessKeyId: "minio",
+  secretAccessKey: "minio-secret",
+  bucketName: "victopress",
+};
+
+describe("S3-compatible storage adapter", () => {
+  let bucket: MemoryS3Bucket;
+  let storage: S3StorageAdapter;
+
+  beforeEach(() => {
+    bucket = new MemoryS3Bucket();
+    storage = new S3StorageAdapter(config, bucket as unknown as S3Client);
+  });
+
+  test("reads, writes and detects content types", async () => {
+    await storage.put("galleries/japan/gallery.yaml", "title: Japan\n");
+    await storage.put("galleries/japan/tokyo.jpg", new Uint8Array([1, 2, 3]).buffer);
+
+    expect(await storage.getText("galleries/japan/gallery.yaml")).toBe("title: Japan\n");
+    expect(new Uint8Array((await storage.get("galleries/japan/tokyo.jpg"))!)).toEqual(
+      new Uint8Array([1, 2, 3]),
+    );
+    expect(bucket.objects.get("galleries/japan/tokyo.jpg")?.contentType).toBe("image/jpeg");
+    expect(await storage.get("galleries/missing.jpg")).toBeNull();
+    expect(await storage.getText("galleries/missing.yaml")).toBeNull();
+  });
+
+  test("lists directories and files across paginated responses", async () => {
+    bucket.pageSize = 2;
+    await storage.put("galleries/japan/tokyo.jpg", "a");
+    await storage.put("galleries/japan/kyoto/temple.jpg", "b");
+    await storage.put("galleries/spain/madrid.jpg", "c");
+    await storage.put("galleries/cover.jpg", "d");
+
+    const listed = await storage.list("galleries");
+    expect(listed.map((file) => [file.name, file.isDirectory]).sort()).toEqual([
+      ["cover.jpg", false],
+      ["japan", true],
+      ["spain", true],
+    ]);
+
+    const recursive = await storage.listRecursive("galleries/japan");
+    expect(recursive.map((file) => file.path).sort()).toEqual([
+      "galleries/japan/kyoto/temple.jpg",
+      "galleries/japan/tokyo.jpg",
+    ]);
+  });
+
+  test("implements compare-and-swap writes with ETags", async () => {
+    const key = ".victopress/newsletter/subscribers.json";
+
+    expect(await storage.getVersionedText(key)).toEqual({ text: null, version: null });
+    expect(await storage.putTextIfVersion(key, "[]", null)).toBe(true);
+    expect(await storage.putTextIfVersion(key, "[1]", null)).toBe(false);
+
+    const snapshot = await storage.getVersionedText(key);
+    expect(snapshot.text).toBe("[]");
+    expect(snapshot.version).toBeTruthy();
+
+    expect(await storage.putTextIfVersion(key, "[1]", snapshot.version)).toBe(true);
+    expect(await storage.putTextIfVersion(key, "[2]", snapshot.version)).toBe(false);
+    expect(await storage.getText(key)).toBe("[1]");
+  });
+
+  test("moves, copies, checks existence and deletes directories", async () => {
+    await storage.put("galleries/japan/tokyo night.jpg", "a");
+    await storage.put("galleries/japan/kyoto.jpg", "b");
+
+    await storage.copy("galleries/japan/tokyo night.jpg", "galleries/archive/tokyo night.jpg");
+    await storage.move("galleries/japan/kyoto.jpg", "galleries/archive/kyoto.jpg");
+
+    expect(await storage.exists("galleries/archive/tokyo night.jpg")).toBe(true);
+    expect(await storage.exists("galleries/japan/kyoto.jpg")).toBe(false);
+    expect(await storage.exists("galleries/archive")).toBe(true);
+
+    expect(await storage.deleteDirectory("galleries/archive")).toEqual({ deleted: 2 });
+    expect(await storage.exists("galleries/archive")).toBe(false);
+    expect(await storage.exists("galleries/japan/tokyo night.jpg")).toBe(true);
+  });
+
+  test("rebuilds the content index from the bucket", async () => {
+    await storage.put("galleries/japan/gallery.yaml", "title: Japan\n");
+    await storage.put("galleries/japan/tokyo.jpg", new Uint8Array([0xff, 0xd8, 0xff, 0xd9]).buffer);
+
+    const index = await rebuildContentIndex(storage);
+
+    expect(index.galleries.map((gallery) => gallery.slug)).toEqual(["japan"]);
+    expect(index.galleryData[0].photos.map((photo) => photo.path)).toEqual([
+      "galleries/japan/tokyo.jpg",
+    ]);
+    expect(await storage.exists("_content-index.json")).toBe(true);
+  });
+});
+
+describe("S3 storage configuration", () => {
+  test("requires an endpoint, bucket and credentials", () => {
+    expect(getS3Config({ S3_ENDPOINT: "http://localhost:9000" })).toBeNull();
+    expect(getS3Config({
+      S3_ENDPOINT: "http://localhost:9000",
+      S3_BUCKET_NAME: "victopress",
+      S3_ACCESS_KEY_ID: "minio",
+      S3_SECRET_ACCESS_KEY: "minio-secret",
+      S3_FORCE_PATH_STYLE: "false",
+    })).toEqual({
+      ...config,
+      region: undefined,
+      forcePathStyle: false,
+    });
+  });
+
+  test("createStorageAdapter selects the S3 adapter", () => {
+    expect(createStorageAdapter({ s3: config })).toBeInstanceOf(S3StorageAdapter);
+    expect(createStorageAdapter({
+      s3: config,
+      localPath: "/tmp/content",
+      forceAdapter: "s3",
+    })).toBeInstanceOf(S3StorageAdapter);
+  });
+});
@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  filterPublishedPosts,
+  getContentIndex,
+  getNavigationFromIndex,
+  isScheduled,
+  isWithinPublicationWindow,
+  publicationWindowError,
+  rebuildContentIndex,
+  runScheduledPublishing,
+  type BlogPost,
+} from "../app/lib/content-engine";
+import { LocalStorageAdapter } from "../app/lib/content-engine/storage/local-adapter";
+import { action as cronAction } from "../app/routes/api.cron.publish";
+
+describe("publication windows", () => {
+  const window = {
+    publishAt: "2026-03-01T09:00:00.000Z",
+    unpublishAt: "2026-03-10T09:00:00.000Z",
+  };
+
+  test("opens at publishAt and closes at unpublishAt", () => {
+    expect(isWithinPublicationWindow(window, new Date("2026-03-01T08:59:59Z"))).toBe(false);
+    expect(isWithinPublicationWindow(window, new Date("2026-03-01T09:00:00Z"))).toBe(true);
+    expect(isWithinPublicationWindow(window, new Date("2026-03-10T09:00:00Z"))).toBe(false);
+    expect(isScheduled(window, new Date("2026-02-01T00:00:00Z"))).toBe(true);
+    expect(isWithinPublicationWindow({})).toBe(true);
+  });
+
+  test("hides drafts and posts outside their window", () => {
+    const post = (slug: string, extra: Partial<BlogPost>) =>
+      ({ slug, title: slug, ...extra }) as BlogPost;
+    const posts = [
+      post("live", {}),
+      post("draft", { draft: true }),
+      post("later", { publishAt: new Date("2026-04-01T00:00:00Z") }),
+      post("expired", { unpublishAt: new Date("2026-02-01T00:00:00Z") }),
+    ];
+
+    expect(
+      filterPublishedPosts(posts, new Date("2026-03-01T00:00:00Z")).map((item) => item.slug),
+    ).toEqual(["live"]);
+  });
+
+  test("rejects invalid or inverted windows", () => {
+    expect(publicationWindowError("", "")).toBeNull();
+    expect(publicationWindowError("soon", "")).toBe("Publish date is not a valid date");
+    expect(publicationWindowError(window.unpublishAt, window.publishAt)).toBe(
+      "Unpublish date must be after the publish date",
+    );
+  });
+});
+
+describe("scheduled publishing run", () => {
+  let temporaryDirectory = "";
+  let storage: LocalStorageAdapter;
+
+  beforeEach(async () => {
+    temporaryDirectory = await mkdtemp(join(tmpdir(), "victopress-schedule-"));
+    storage = new LocalStorageAdapter(temporaryDirectory);
+  });
+
+  afterEach(async () => {
+    await rm(temporaryDirectory, { recursive: true, force: true });
+  });
+
+  test("announces posts that went live since the previous run only", async () => {
+    await storage.put(
+      "blog/2026/3/1/launch/index.md",
+      "---\ntitle: Launch\nslug: 2026/3/1/launch\ndate: 2026-03-01\npublishAt: 2026-03-01T09:00:00Z\nnewsletter: true\n---\nBody\n",
+    );
+    await storage.put(
+      "blog/2026/1/1/old/index.md",
+      "---\ntitle: Old\nslug: 2026/1/1/old\ndate: 2026-01-01\npublishAt: 2026-01-01T09:00:00Z\n---\nBody\n",
+    );
+    await rebuildContentIndex(storage);
+
+    const announced: string[] = [];
+    const onPostPublished = async (post: BlogPost) => {
+      announced.push(post.slug);
+    };
+
+    const first = await runScheduledPublishing(storage, {
+      now: new Date("2026-02-01T00:00:00Z"),
+      onPostPublished,
+    });
+    expect(first.since).toBeNull();
+    expect(first.publishedPosts).toEqual(["2026/1/1/old"]);
+    expect(announced).toEqual([]);
+
+    const second = await runScheduledPublishing(storage, {
+      now: new Date("2026-03-01T09:05:00Z"),
+      onPostPublished,
+    });
+    expect(second.since).toBe("2026-02-01T00:00:00.000Z");
+    expect(second.publishedPosts).toEqual(["2026/3/1/launch"]);
+    expect(announced).toEqual(["2026/3/1/launch"]);
+
+    const index = await getContentIndex(storage);
+    expect(index.posts.find((post) => post.slug === "2026/3/1/launch")?.publishAt).toBe(
+      "2026-03-01T09:00:00.000Z",
+    );
+  });
+
+  test("keeps galleries out of navigation until their window opens", async () => {
+    await storage.put("galleries/live/gallery.yaml", "title: Live\n");
+    await storage.put("galleries/live/a.jpg", "jpg");
+    await storage.put(
+      "galleries/soon/gallery.yaml",
+      "title: Soon\npublishAt: 2999-01-01T00:00:00Z\n",
+    );
+    await storage.put("galleries/soon/a.jpg", "jpg");
+    await rebuildContentIndex(storage);
+
+    const navigation = await getNavigationFromIndex(storage);
+    expect(navigation.map((item) => item.title)).toEqual(["Live"]);
+
+    const result = await runScheduledPublishing(storage, {
+      now: new Date("2999-01-01T00:01:00Z"),
+    });
+    expect(result.publishedGalleries).toEqual(["soon"]);
+  });
+});
+
+describe("scheduled publishing endpoint", () => {
+  test("requires the cron secret outside development, even on localhost", async () => {
+    const context = { cloudflare: { env: { CRON_SECRET: "cron-secret-value" } } };
+    const call = (headers: Record<string, string> = {}) =>
+      cronAction({
+        request: new Request("http://localhost:5173/api/cron/publish?now=2999-01-01T00:00:00Z", {
+          method: "POST",
+          headers,
+        }),
+        context,
+        params: {},
+      } as unknown as Parameters<typeof cronAction>[0]);
+
+    expect((await call()).status).toBe(401);
+    expect((await call({ Authorization: "Bearer wrong-secret" })).status).toBe(401);
+    context.cloudflare.env.CRON_SECRET = "";
+    expect((await call({ Authorization: "Bearer " })).status).toBe(401);
+  });
+});
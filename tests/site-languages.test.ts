@@ -22,6 +22,12 @@ describe("site language settings", () => {
     })).toEqual({ multilingual: true, defaultLocale: "en" });
   });
 
+  test("parses the published locale list", () => {
+    expect(parseSiteLanguageSettings({
+      language: { multilingual: true, default: "en", locales: ["EN", "fr-FR", "es", "fr", "x"] },
+    })).toEqual({ multilingual: true, defaultLocale: "en", locales: ["en", "fr", "es"] });
+  });
+
   test("preserves unrelated site settings when saving", async () => {
     let stored = "name: Example\nfeatures:\n  search: true\n";
     const storage = {
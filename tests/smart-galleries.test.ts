@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  assignPhotosToGalleryInIndex,
+  getNavigationFromIndex,
+  rebuildContentIndex,
+  updateGalleryPhotosInIndex,
+  type GalleryDataEntry,
+  type GalleryPhotoEntry,
+} from "../app/lib/content-engine";
+import {
+  materializeSmartGalleries,
+  normalizeSmartGalleryQuery,
+} from "../app/lib/content-engine/smart-galleries";
+import { LocalStorageAdapter } from "../app/lib/content-engine/storage/local-adapter";
+
+function photo(
+  gallery: string,
+  name: string,
+  overrides: Partial<GalleryPhotoEntry> = {},
+): GalleryPhotoEntry {
+  return { id: name, path: `galleries/${gallery}/${name}.jpg`, filename: `${name}.jpg`, ...overrides };
+}
+
+function gallery(slug: string, photos: GalleryPhotoEntry[], overrides: Partial<GalleryDataEntry> = {}) {
+  return {
+    slug,
+    title: slug,
+    path: `galleries/${slug}`,
+    photoCount: photos.length,
+    isProtected: false,
+    hasChildren: false,
+    childCount: 0,
+    photos,
+    ...overrides,
+  } as GalleryDataEntry;
+}
+
+describe("smart gallery queries", () => {
+  test("normalizes YAML values and drops empty queries", () => {
+    expect(normalizeSmartGalleryQuery({
+      tags: "night",
+      from: 2019,
+      to: "2020-06-30",
+      country: ["JP", " "],
+      minRating: "4",
+      galleries: "/travel/asia/",
+      sort: "rating",
+      limit: 20,
+    })).toEqual({
+      tags: ["night"],
+      from: "2019-01-01T00:00:00.000Z",
+      to: "2020-06-30T23:59:59.999Z",
+      country: ["JP"],
+      minRating: 4,
+      galleries: ["travel/asia"],
+      sort: "rating",
+      limit: 20,
+    });
+    expect(normalizeSmartGalleryQuery({ sort: "rating" })).toBeUndefined();
+    expect(normalizeSmartGalleryQuery("tags: night")).toBeUndefined();
+  });
+
+  test("materializes public matches in query order and skips collisions", () => {
+    const galleries = [
+      gallery("japan", [
+        photo("japan", "tokyo", { dateTaken: "2019-04-01T00:00:00.000Z", exif: { rating: 5, countryCode: "JP" } }),
+        photo("japan", "kyoto", { dateTaken: "2020-04-01T00:00:00.000Z", exif: { rating: 4, country: "Japan" } }),
+        photo("japan", "osaka", { dateTaken: "2021-04-01T00:00:00.000Z", exif: { rating: 3, countryCode: "JP" } }),
+        photo("japan", "nara", { hidden: true, exif: { rating: 5, countryCode: "JP" } }),
+      ]),
+      gallery("secret", [photo("secret", "hokkaido", { exif: { rating: 5, countryCode: "JP" } })], {
+        isProtected: true,
+      }),
+      gallery("spain", [photo("spain", "tokyo", { exif: { rating: 5, countryCode: "JP" } })], {
+        publishAt: "2999-01-01T00:00:00.000Z",
+      }),
+      gallery("best", [], {
+        isParentGallery: true,
+        cover: "galleries/best/tokyo.jpg",
+        query: normalizeSmartGalleryQuery({ country: ["jp", "Japan"], minRating: 4 }),
+      }),
+    ];
+
+    materializeSmartGalleries(galleries, {}, new Date("2026-01-01T00:00:00Z"));
+
+    const best = galleries[3];
+    expect(best.photos.map((item) => [item.path, item.sourceGallerySlug])).toEqual([
+      ["galleries/japan/kyoto.jpg", "japan"],
+      ["galleries/japan/tokyo.jpg", "japan"],
+    ]);
+    expect(best.photos.every((item) => item.isReference)).toBe(true);
+    expect(best).toMatchObject({ photoCount: 2, isParentGallery: false, cover: "galleries/japan/tokyo.jpg" });
+  });
+
+  test("uses only semantic matches resolved for the current text", () => {
+    const galleries = [
+      gallery("street", [photo("street", "fog"), photo("street", "sun"), photo("street", "rain")]),
+      gallery("moody", [], { query: normalizeSmartGalleryQuery({ text: "foggy mornings" }) }),
+    ];
+    const matches = {
+      moody: {
+        text: "foggy mornings",
+        updatedAt: "2026-01-01T00:00:00.000Z",
+        matches: [
+          { path: "galleries/street/rain.jpg", score: 0.6 },
+          { path: "galleries/street/fog.jpg", score: 0.9 },
+        ],
+      },
+    };
+
+    materializeSmartGalleries(galleries, matches);
+    expect(galleries[1].photos.map((item) => item.filename)).toEqual(["fog.jpg", "rain.jpg"]);
+
+    galleries[1].query = normalizeSmartGalleryQuery({ text: "sunny afternoons" });
+    materializeSmartGalleries(galleries, matches);
+    expect(galleries[1].photos).toEqual([]);
+  });
+});
+
+describe("smart galleries in the content index", () => {
+  let directory = "";
+  let storage: LocalStorageAdapter;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "victopress-smart-galleries-"));
+    storage = new LocalStorageAdapter(directory);
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  test("are materialized on rebuild, listed in navigation and kept in step with edits", async () => {
+    await storage.put("galleries/street/a.jpg", "jpg");
+    await storage.put("galleries/street/b.jpg", "jpg");
+    await storage.put(
+      "galleries/street/photos.yaml",
+      "- filename: a.jpg\n  tags: [night]\n- filename: b.jpg\n  tags: [day]\n",
+    );
+    await storage.put("galleries/private/c.jpg", "jpg");
+    await storage.put("galleries/private/gallery.yaml", "title: Private\nprivate: true\n");
+    await storage.put("galleries/private/photos.yaml", "- filename: c.jpg\n  tags: [night]\n");
+    await storage.put("galleries/after-dark/gallery.yaml", "title: After Dark\nquery:\n  tags: [Night]\n");
+
+    const index = await rebuildContentIndex(storage);
+    const smart = index.galleryData.find((item) => item.slug === "after-dark")!;
+    expect(smart.photos.map((item) => item.path)).toEqual(["galleries/street/a.jpg"]);
+    expect(index.galleries.find((item) => item.slug === "after-dark")).toMatchObject({
+      photoCount: 1,
+      isParentGallery: false,
+      cover: "galleries/street/a.jpg",
+    });
+    expect((await getNavigationFromIndex(storage)).map((item) => item.title)).toContain("After Dark");
+    await expect(assignPhotosToGalleryInIndex(storage, ["galleries/street/b.jpg"], "after-dark"))
+      .rejects.toThrow("Smart galleries are filled by their query");
+
+    await updateGalleryPhotosInIndex(storage, "galleries/street", (photos) =>
+      photos.map((item) => (item.filename === "a.jpg" ? { ...item, hidden: true } : item)),
+    );
+    const updated = JSON.parse((await storage.getText("_content-index.json"))!);
+    expect(updated.galleryData.find((item: GalleryDataEntry) => item.slug === "after-dark").photos).toEqual([]);
+  });
+});
@@ -82,4 +82,16 @@ describe("files-first vector index", () => {
   test("rejects vectors with the wrong dimensions", async () => {
     expect(index.upsert([{ id: "bad", values: [1, 2] }])).rejects.toThrow("3-dimension");
   });
+
+  test("reports the stored size of an index built for other dimensions", async () => {
+    await index.upsert([{ id: "a", values: [1, 0, 0] }]);
+    const resized = new FilesFirstVectorIndex(new LocalStorageAdapter(directory), {
+      dimensions: 4,
+      defaultModelSpace: "test:4",
+      defaultNamespace: "photos",
+    });
+
+    expect(await resized.describe()).toMatchObject({ dimensions: 3, vectorCount: 1 });
+    expect(resized.query([1, 0, 0, 0])).rejects.toThrow("Incompatible vector index file");
+  });
 });
@@ -0,0 +1,105 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  fadeWatermarkPixels,
+  normalizeWatermarkSettings,
+  resolveWatermarkSettings,
+  watermarkAppliesToWidth,
+  watermarkPlacement,
+  watermarkTextBox,
+} from "../app/lib/content-engine/watermark";
+import { LocalStorageAdapter } from "../app/lib/content-engine/storage/local-adapter";
+import {
+  createWatermarkResolver,
+  getGalleryWatermarkSettings,
+} from "../app/lib/watermark.server";
+
+describe("watermark settings", () => {
+  test("needs a logo or text and fills in defaults", () => {
+    expect(normalizeWatermarkSettings({ opacity: 0.5 })).toBeNull();
+    expect(normalizeWatermarkSettings(false)).toBeNull();
+    expect(normalizeWatermarkSettings({ logo: "../secrets.png", text: "" })).toBeNull();
+    expect(normalizeWatermarkSettings({ text: " © Studio ", position: "middle", opacity: 3 })).toEqual({
+      text: "© Studio",
+      position: "bottom-right",
+      opacity: 0.6,
+      minWidth: 1600,
+      scale: 0.2,
+    });
+    expect(normalizeWatermarkSettings({ logo: "/content/brand/logo.png" })?.logo).toBe("brand/logo.png");
+  });
+
+  test("galleries override single fields or opt out", () => {
+    const site = { text: "© Studio", minWidth: 800 };
+    expect(resolveWatermarkSettings(site, { position: "top-left" })).toMatchObject({
+      text: "© Studio",
+      position: "top-left",
+      minWidth: 800,
+    });
+    expect(resolveWatermarkSettings(site, false)).toBeNull();
+    expect(resolveWatermarkSettings(undefined, { text: "Client proof" })?.text).toBe("Client proof");
+    expect(resolveWatermarkSettings(site, true)?.text).toBe("© Studio");
+  });
+
+  test("places marks inside the image", () => {
+    const settings = normalizeWatermarkSettings({ text: "© Studio", minWidth: 1600 })!;
+    expect(watermarkAppliesToWidth(settings, 800)).toBe(false);
+    expect(watermarkAppliesToWidth(settings, 1600)).toBe(true);
+
+    const image = { width: 1600, height: 1000 };
+    const mark = { width: 200, height: 50 };
+    expect(watermarkPlacement(image, mark, "bottom-right")).toEqual({ x: 1352, y: 902 });
+    expect(watermarkPlacement(image, mark, "top-left")).toEqual({ x: 48, y: 48 });
+    expect(watermarkPlacement(image, mark, "center")).toEqual({ x: 700, y: 475 });
+    expect(watermarkPlacement(image, mark, "left")).toEqual({ x: 48, y: 475 });
+    expect(watermarkPlacement(image, { width: 2000, height: 50 }, "right").x).toBe(0);
+
+    const box = watermarkTextBox(settings, 1600);
+    expect(box.width).toBeLessThanOrEqual(1600);
+    expect(box.fontSize).toBeGreaterThanOrEqual(12);
+  });
+
+  test("fades the alpha channel only", () => {
+    expect([...fadeWatermarkPixels(new Uint8Array([10, 20, 30, 200, 0, 0, 0, 255]), 0.5)]).toEqual([
+      10, 20, 30, 100, 0, 0, 0, 128,
+    ]);
+  });
+});
+
+describe("watermark lookup", () => {
+  let temporaryDirectory = "";
+  let storage: LocalStorageAdapter;
+
+  beforeEach(async () => {
+    temporaryDirectory = await mkdtemp(join(tmpdir(), "victopress-watermark-"));
+    storage = new LocalStorageAdapter(temporaryDirectory);
+    await storage.put("site.yaml", "watermark:\n  logo: brand/logo.png\n  text: © Studio\n");
+    await storage.put("galleries/clients/gallery.yaml", "title: Clients\nwatermark:\n  position: center\n");
+    await storage.put("galleries/clients/smith/gallery.yaml", "title: Smith\n");
+    await storage.put("galleries/open/gallery.yaml", "watermark: false\n");
+  });
+
+  afterEach(async () => {
+    await rm(temporaryDirectory, { recursive: true, force: true });
+  });
+
+  test("nested galleries inherit the closest override", async () => {
+    await storage.put("brand/logo.png", "png bytes");
+    const resolve = createWatermarkResolver(storage);
+
+    const nested = await resolve("galleries/clients/smith/001.jpg");
+    expect(nested?.settings.position).toBe("center");
+    expect(new TextDecoder().decode(nested?.logo)).toBe("png bytes");
+    expect(await resolve("galleries/open/001.jpg")).toBeNull();
+    expect((await getGalleryWatermarkSettings(storage, "galleries/other"))?.position).toBe("bottom-right");
+  });
+
+  test("falls back to text when the logo is missing", async () => {
+    const stamp = await createWatermarkResolver(storage)("galleries/other/001.jpg");
+    expect(stamp?.logo).toBeUndefined();
+    expect(stamp?.settings.logo).toBeUndefined();
+    expect(stamp?.settings.text).toBe("© Studio");
+  });
+});
@@ -24,10 +24,26 @@ interface Env {
   R2_BUCKET_NAME?: string;
   R2_PUBLIC_URL?: string;
   R2_ACCOUNT_ID?: string;
+
+  // S3-compatible storage (MinIO, Backblaze B2, Wasabi) for self-hosting
+  STORAGE_ADAPTER?: string;
+  S3_ENDPOINT?: string;
+  S3_REGION?: string;
+  S3_ACCESS_KEY_ID?: string;
+  S3_SECRET_ACCESS_KEY?: string;
+  S3_BUCKET_NAME?: string;
+  S3_FORCE_PATH_STYLE?: string;
   
+  // Shared with the scheduler Worker that calls /api/cron/publish
+  CRON_SECRET?: string;
+  // "development" lets /api/cron/publish run without CRON_SECRET
+  ENVIRONMENT?: string;
+
   // Admin Authentication
   ADMIN_USERNAME?: string;
   ADMIN_PASSWORD?: string;
+  // "true" only behind a reverse proxy of your own that sets X-Forwarded-For
+  TRUST_PROXY_FORWARDED_FOR?: string;
   
   // Image Optimization
   IMAGE_CDN_URL?: string;
@@ -35,8 +51,19 @@ interface Env {
 
   // Photo AI
   PHOTO_AI_ENABLED?: string;
+  PHOTO_AI_PROVIDER?: "gemini" | "openai" | "ollama";
+  PHOTO_AI_ANALYSIS_MODEL?: string;
+  PHOTO_AI_EMBEDDING_MODEL?: string;
+  PHOTO_AI_EMBEDDING_DIMENSIONS?: string;
   GEMINI_API_KEY?: string;
   GEMINI_ANALYSIS_MODEL?: string;
   GEMINI_EMBEDDING_MODEL?: string;
   GEMINI_EMBEDDING_DIMENSIONS?: string;
+  OPENAI_API_KEY?: string;
+  OPENAI_BASE_URL?: string;
+  OLLAMA_BASE_URL?: string;
+  FACE_AI_PROVIDER?: "compreface" | "local";
+  FACE_AI_EMBEDDING_DIMENSIONS?: string;
+  COMPREFACE_BASE_URL?: string;
+  COMPREFACE_API_KEY?: string;
 }
@@ -0,0 +1,35 @@
+/**
+ * Scheduled Publishing Worker
+ *
+ * Cloudflare Pages Functions cannot declare cron triggers, so this tiny
+ * Worker runs on a schedule and calls the site's /api/cron/publish endpoint.
+ * Deploy it with `wrangler deploy -c workers/scheduler/wrangler.toml` and set
+ * the same CRON_SECRET on the Worker and on the Pages project.
+ */
+
+interface SchedulerEnv {
+  SITE_URL: string;
+  CRON_SECRET: string;
+}
+
+export default {
+  async scheduled(
+    controller: ScheduledController,
+    env: SchedulerEnv,
+    ctx: ExecutionContext,
+  ): Promise<void> {
+    const url = new URL("/api/cron/publish", env.SITE_URL);
+    ctx.waitUntil(
+      fetch(url, {
+        method: "POST",
+        headers: { Authorization: `Bearer ${env.CRON_SECRET}` },
+      }).then(async (response) => {
+        const body = await response.text();
+        if (!response.ok) {
+          throw new Error(`Scheduled publishing failed (${response.status}): ${body}`);
+        }
+        console.log(`[Scheduler] ${new Date(controller.scheduledTime).toISOString()} ${body}`);
+      }),
+    );
+  },
+};